@@ -58,6 +58,16 @@ jest.mock('../src/components/DesktopAlert', () => {
   };
 });
 
+jest.mock('../src/components/PassphrasePrompt', () => {
+  return function MockPassphrasePrompt({ onSignOut }: { onSignOut: () => void }) {
+    return (
+      <div data-testid="passphrase-prompt">
+        <button onClick={onSignOut}>Sign Out</button>
+      </div>
+    );
+  };
+});
+
 jest.mock('../src/components/TokenSetup', () => {
   return function MockTokenSetup({ onSuccess }: { onSuccess: () => void }) {
     return (
@@ -117,10 +127,14 @@ jest.mock('../src/components/Modal', () => {
 jest.mock('../src/hooks/useAuth');
 jest.mock('../src/stores/settingsStore');
 jest.mock('../src/stores/uiStore');
+jest.mock('../src/services/uploadQueueService', () => ({
+  uploadQueueService: { start: jest.fn() },
+}));
 
 const { useAuth } = require('../src/hooks/useAuth');
 const { useSettingsStore } = require('../src/stores/settingsStore');
 const { useUIStore } = require('../src/stores/uiStore');
+const { uploadQueueService } = require('../src/services/uploadQueueService');
 
 describe('App', () => {
   // Default mock implementations
@@ -162,6 +176,21 @@ describe('App', () => {
     expect(screen.getByTestId('install-prompt')).toBeInTheDocument();
   });
 
+  it('resumes the upload queue once authenticated', () => {
+    render(<App />);
+    expect(uploadQueueService.start).toHaveBeenCalledTimes(1);
+  });
+
+  it('does not start the upload queue before authentication', () => {
+    useAuth.mockReturnValue({
+      ...defaultUseAuth,
+      authenticated: false
+    });
+
+    render(<App />);
+    expect(uploadQueueService.start).not.toHaveBeenCalled();
+  });
+
   it('shows loading state when isLoading is true', () => {
     useAuth.mockReturnValue({
       ...defaultUseAuth,
@@ -187,6 +216,23 @@ describe('App', () => {
     expect(screen.queryByTestId('audio-recorder')).not.toBeInTheDocument();
   });
 
+  it('asks for the passphrase of an encrypted token first', () => {
+    const signOut = jest.fn();
+    useAuth.mockReturnValue({
+      ...defaultUseAuth,
+      authenticated: false,
+      locked: true,
+      signOut
+    });
+
+    render(<App />);
+    expect(screen.getByTestId('passphrase-prompt')).toBeInTheDocument();
+    expect(screen.queryByTestId('token-setup')).not.toBeInTheDocument();
+
+    fireEvent.click(screen.getByText('Sign Out'));
+    expect(signOut).toHaveBeenCalled();
+  });
+
   // AUTHENTICATION FLOW TESTS
   it('handles successful token setup', () => {
     const mockSetAuthenticated = jest.fn();
@@ -0,0 +1,2 @@
+// Stands in for src/utils/lfsConfig, which reads import.meta.env
+export const GITHUB_LFS_URL = 'https://lfs-proxy.test';
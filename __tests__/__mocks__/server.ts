@@ -136,8 +136,114 @@ const rawGithubHandlers = [
   }),
 ];
 
+// Git LFS batch API and object storage stand-in
+// Stored objects are kept by oid so tests can check what was uploaded
+export const lfsObjects = new Map<string, Uint8Array>();
+
+// Under jsdom the test globals swap Request for a mock that keeps the raw body
+async function requestBytes(request: Request): Promise<Uint8Array> {
+  if (typeof request.arrayBuffer === 'function') {
+    return new Uint8Array(await request.arrayBuffer());
+  }
+  const body = (request as unknown as { body: unknown }).body;
+  if (body && typeof (body as Blob).arrayBuffer === 'function') {
+    return new Uint8Array(await (body as Blob).arrayBuffer());
+  }
+  return new TextEncoder().encode(typeof body === 'string' ? body : '');
+}
+
+const lfsHandlers = [
+  http.post('https://lfs-proxy.test/:owner/:repo.git/info/lfs/objects/batch', async ({ request }) => {
+    const body = await request.json() as {
+      operation: 'upload' | 'download';
+      objects: Array<{ oid: string; size: number }>;
+    };
+
+    const objects = body.objects.map(({ oid, size }) => {
+      const stored = lfsObjects.has(oid);
+      if (body.operation === 'upload') {
+        return stored ? { oid, size } : {
+          oid,
+          size,
+          actions: {
+            upload: { href: `https://lfs.test/objects/${oid}`, header: { Authorization: 'RemoteAuth upload-token' } },
+            verify: { href: 'https://lfs.test/verify' },
+          },
+        };
+      }
+      return stored
+        ? { oid, size, actions: { download: { href: `https://lfs.test/objects/${oid}` } } }
+        : { oid, size, error: { code: 404, message: 'Object does not exist' } };
+    });
+
+    return HttpResponse.json({ transfer: 'basic', objects, hash_algo: 'sha256' });
+  }),
+
+  http.put('https://lfs.test/objects/:oid', async ({ params, request }) => {
+    lfsObjects.set(params.oid as string, await requestBytes(request));
+    return new HttpResponse(null, { status: 200 });
+  }),
+
+  http.post('https://lfs.test/verify', async ({ request }) => {
+    const { oid } = await request.json() as { oid: string };
+    return new HttpResponse(null, { status: lfsObjects.has(oid) ? 200 : 404 });
+  }),
+
+  http.get('https://lfs.test/objects/:oid', ({ params }) => {
+    const content = lfsObjects.get(params.oid as string);
+    return content ? new HttpResponse(content) : new HttpResponse(null, { status: 404 });
+  }),
+];
+
+// OAuth device flow: the code is authorized once it has been polled `pendingPolls` times;
+// `slowDown` answers the first poll with slow_down, `deny` answers every poll with access_denied.
+// Poll times are kept so tests can check the interval.
+export const deviceFlow = {
+  pendingPolls: 1,
+  slowDown: false,
+  deny: false,
+  polls: [] as number[],
+};
+
+const DEVICE_CODE = 'test-device-code';
+
+const deviceFlowHandlers = [
+  http.post('https://github.com/login/device/code', async ({ request }) => {
+    const params = new URLSearchParams(new TextDecoder().decode(await requestBytes(request)));
+    if (params.get('client_id') !== 'test-client-id') {
+      return HttpResponse.json({ error: 'Not Found' }, { status: 404 });
+    }
+    return HttpResponse.json({
+      device_code: DEVICE_CODE,
+      user_code: 'WDJB-MJHT',
+      verification_uri: 'https://github.com/login/device',
+      expires_in: 900,
+      interval: 5,
+    });
+  }),
+
+  http.post('https://github.com/login/oauth/access_token', async ({ request }) => {
+    const params = new URLSearchParams(new TextDecoder().decode(await requestBytes(request)));
+    if (params.get('device_code') !== DEVICE_CODE || params.get('grant_type') !== 'urn:ietf:params:oauth:grant-type:device_code') {
+      return HttpResponse.json({ error: 'incorrect_device_code', error_description: 'The device_code provided is not valid.' });
+    }
+
+    deviceFlow.polls.push(Date.now());
+    if (deviceFlow.deny) {
+      return HttpResponse.json({ error: 'access_denied' });
+    }
+    if (deviceFlow.slowDown && deviceFlow.polls.length === 1) {
+      return HttpResponse.json({ error: 'slow_down', interval: 10 });
+    }
+    if (deviceFlow.polls.length <= deviceFlow.pendingPolls) {
+      return HttpResponse.json({ error: 'authorization_pending' });
+    }
+    return HttpResponse.json({ access_token: 'gho_device_token', token_type: 'bearer', scope: 'repo' });
+  }),
+];
+
 // Setup MSW server
-export const server = setupServer(...githubHandlers, ...rawGithubHandlers);
+export const server = setupServer(...githubHandlers, ...rawGithubHandlers, ...lfsHandlers, ...deviceFlowHandlers);
 
 // Utility functions for testing
 export const mockGithubResponses = {
@@ -201,6 +307,8 @@ export const mockGithubResponses = {
 
   // Reset to default handlers
   resetToDefaults: () => {
-    server.resetHandlers(...githubHandlers, ...rawGithubHandlers);
+    server.resetHandlers(...githubHandlers, ...rawGithubHandlers, ...lfsHandlers, ...deviceFlowHandlers);
+    lfsObjects.clear();
+    Object.assign(deviceFlow, { pendingPolls: 1, slowDown: false, deny: false, polls: [] });
   },
 };
\ No newline at end of file
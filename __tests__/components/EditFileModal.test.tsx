@@ -78,6 +78,16 @@ jest.mock('../../src/utils/storageQuota', () => ({
   }
 }));
 
+jest.mock('../../src/utils/imageUtils', () => ({
+  processThumbnailForUpload: jest.fn()
+}));
+
+jest.mock('../../src/components/GitHubImage', () => {
+  return function MockGitHubImage({ filePath, alt }: { filePath: string; alt: string }) {
+    return <img alt={alt} data-testid="github-image" data-path={filePath} />;
+  };
+});
+
 // Mock URL.createObjectURL and revokeObjectURL
 const mockCreateObjectURL = jest.fn(() => 'mock://fake-url');
 const mockRevokeObjectURL = jest.fn();
@@ -206,6 +216,13 @@ describe('EditFileModal', () => {
       expect(screen.getByText(/upload a new thumbnail to replace the current one/i)).toBeInTheDocument();
     });
 
+    it('loads the current thumbnail of an uploaded file from the repository', () => {
+      render(<EditFileModal {...defaultProps} file={{ ...mockFile, uploaded: true }} thumbnail="thumbnails/song.jpg" />);
+
+      expect(screen.getByText('Current thumbnail:')).toBeInTheDocument();
+      expect(screen.getByTestId('github-image')).toHaveAttribute('data-path', 'thumbnails/song.jpg');
+    });
+
     it('shows appropriate message when no thumbnail exists', () => {
       render(<EditFileModal {...defaultProps} />);
 
@@ -380,6 +397,43 @@ describe('EditFileModal', () => {
       consoleSpy.mockRestore();
     });
 
+    it('reports why a repository rename failed', async () => {
+      mockUpdateFileWithThumbnail.mockRejectedValueOnce(new Error('Failed to update ref: 403'));
+      jest.spyOn(console, 'error').mockImplementation();
+
+      render(<EditFileModal {...defaultProps} file={{ ...mockFile, uploaded: true }} />);
+      fireEvent.click(screen.getByText('Save Changes'));
+
+      await waitFor(() => {
+        expect(mockOpenModal).toHaveBeenCalledWith({
+          type: 'error',
+          message: 'Failed to rename the file in the repository: Failed to update ref: 403',
+          title: 'Error'
+        });
+      });
+    });
+
+    it('processes a new thumbnail before renaming an uploaded file', async () => {
+      const { processThumbnailForUpload } = require('../../src/utils/imageUtils');
+      const processed = new Blob(['jpg'], { type: 'image/jpeg' });
+      processThumbnailForUpload.mockResolvedValue({ blob: processed, filename: 'Music_Test Song_Artist Name_2024-01-10.jpg' });
+
+      render(<EditFileModal {...defaultProps} file={{ ...mockFile, uploaded: true }} />);
+      const thumbnailInput = document.querySelector('input[type="file"]') as HTMLInputElement;
+      fireEvent.change(thumbnailInput, { target: { files: [new File(['png'], 'cover.png', { type: 'image/png' })] } });
+      await waitFor(() => expect(screen.getByText('New thumbnail preview:')).toBeInTheDocument());
+      fireEvent.click(screen.getByText('Save Changes'));
+
+      await waitFor(() => {
+        expect(mockUpdateFileWithThumbnail).toHaveBeenCalledWith(
+          'test-file-id',
+          'Music_Test Song_Artist Name_2024-01-10.mp3',
+          expect.objectContaining({ name: 'Music_Test Song_Artist Name_2024-01-10.jpg', type: 'image/jpeg' })
+        );
+      });
+      expect(processThumbnailForUpload).toHaveBeenCalledWith(expect.objectContaining({ name: 'cover.png' }), 'Music_Test Song_Artist Name_2024-01-10.mp3');
+    });
+
     it('allows submission with empty thumbnail', async () => {
       render(<EditFileModal {...defaultProps} />);
 
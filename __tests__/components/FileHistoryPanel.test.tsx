@@ -0,0 +1,157 @@
+import React from 'react';
+import { render, screen, fireEvent } from '@testing-library/react';
+import '@testing-library/jest-dom';
+import FileHistoryPanel from '../../src/components/FileHistoryPanel';
+import type { FileRecord, FileVersion } from '../../src/types';
+
+jest.mock('../../src/utils/githubUtils', () => ({
+  fetchFileHistory: jest.fn()
+}));
+
+jest.mock('../../src/utils/uploadUtils', () => ({
+  restoreFileVersion: jest.fn()
+}));
+
+jest.mock('../../src/stores/uiStore');
+
+jest.mock('../../src/components/GitHubMedia', () => {
+  return function MockGitHubMedia({ filePath, type, gitRef }: { filePath: string; type: string; gitRef?: string }) {
+    return <div data-testid={`github-media-${type}`} data-path={filePath} data-git-ref={gitRef} />;
+  };
+});
+
+jest.mock('../../src/components/GitHubImage', () => {
+  return function MockGitHubImage({ filePath, gitRef }: { filePath: string; gitRef?: string }) {
+    return <div data-testid="github-image" data-path={filePath} data-git-ref={gitRef} />;
+  };
+});
+
+const { fetchFileHistory } = require('../../src/utils/githubUtils');
+const { restoreFileVersion } = require('../../src/utils/uploadUtils');
+const { useUIStore } = require('../../src/stores/uiStore');
+
+describe('FileHistoryPanel', () => {
+  const file = {
+    id: 'remote-current',
+    name: 'new.mp3',
+    type: 'audio',
+    mimeType: 'audio/mpeg',
+    size: 9,
+    created: 0,
+    file: new Blob(),
+    url: 'recordings/new.mp3',
+    path: 'recordings/new.mp3',
+    uploaded: true,
+  } as FileRecord;
+
+  const versions: FileVersion[] = [
+    { commitSha: 'c3c3c3c3c3', path: 'recordings/new.mp3', message: 'Rename old.mp3 to new.mp3', author: 'Ann', date: '2025-03-02T10:00:00Z' },
+    { commitSha: 'c1c1c1c1c1', path: 'recordings/old.mp3', message: 'Upload old.mp3', author: 'Bob', date: '2025-03-01T10:00:00Z' },
+  ];
+
+  const mockOpenModal = jest.fn();
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    useUIStore.mockReturnValue({ openModal: mockOpenModal });
+    fetchFileHistory.mockResolvedValue(versions);
+    restoreFileVersion.mockResolvedValue(undefined);
+  });
+
+  it('lists the commits of the file, following its earlier name', async () => {
+    render(<FileHistoryPanel file={file} onClose={jest.fn()} onRestore={jest.fn()} />);
+
+    expect(await screen.findByText('Rename old.mp3 to new.mp3')).toBeInTheDocument();
+    expect(fetchFileHistory).toHaveBeenCalledWith('recordings/new.mp3');
+    expect(screen.getByText('Upload old.mp3')).toBeInTheDocument();
+    expect(screen.getByText('as old.mp3')).toBeInTheDocument();
+    expect(screen.getByText(/Bob ·/)).toBeInTheDocument();
+    // The newest commit is what the branch holds now
+    expect(screen.getByText('Current')).toBeInTheDocument();
+    expect(screen.getAllByText('Restore')).toHaveLength(1);
+  });
+
+  it('previews an earlier version at its own commit', async () => {
+    render(<FileHistoryPanel file={file} onClose={jest.fn()} onRestore={jest.fn()} />);
+    await screen.findByText('Upload old.mp3');
+
+    fireEvent.click(screen.getAllByText('Preview')[1]);
+
+    const player = screen.getByTestId('github-media-audio');
+    expect(player).toHaveAttribute('data-path', 'recordings/old.mp3');
+    expect(player).toHaveAttribute('data-git-ref', 'c1c1c1c1c1');
+  });
+
+  it('restores an earlier version after confirmation', async () => {
+    const onRestore = jest.fn();
+    render(<FileHistoryPanel file={file} onClose={jest.fn()} onRestore={onRestore} />);
+    await screen.findByText('Upload old.mp3');
+
+    fireEvent.click(screen.getByText('Restore'));
+    expect(restoreFileVersion).not.toHaveBeenCalled();
+    expect(mockOpenModal).toHaveBeenCalledWith(expect.objectContaining({ type: 'confirm', title: 'Restore Version', confirmText: 'Restore' }));
+
+    await mockOpenModal.mock.calls[0][0].onConfirm();
+
+    expect(restoreFileVersion).toHaveBeenCalledWith('recordings/new.mp3', versions[1], 'audio/mpeg');
+    expect(onRestore).toHaveBeenCalled();
+  });
+
+  it('reports failed restores', async () => {
+    restoreFileVersion.mockRejectedValue(new Error('Failed to update ref: 403'));
+    const onRestore = jest.fn();
+    render(<FileHistoryPanel file={file} onClose={jest.fn()} onRestore={onRestore} />);
+    await screen.findByText('Upload old.mp3');
+
+    fireEvent.click(screen.getByText('Restore'));
+    await mockOpenModal.mock.calls[0][0].onConfirm();
+
+    expect(onRestore).not.toHaveBeenCalled();
+    expect(mockOpenModal).toHaveBeenLastCalledWith({
+      type: 'error',
+      title: 'Restore Failed',
+      message: 'Failed to update ref: 403',
+    });
+  });
+
+  it('switches to the thumbnail history', async () => {
+    render(<FileHistoryPanel file={file} thumbnailPath="thumbnails/new.jpg" onClose={jest.fn()} onRestore={jest.fn()} />);
+    await screen.findByText('Upload old.mp3');
+
+    fetchFileHistory.mockResolvedValue([
+      { commitSha: 't2t2t2t2', path: 'thumbnails/new.jpg', message: 'Update thumbnail for new.mp3', author: 'Ann', date: '2025-03-03T10:00:00Z' },
+      { commitSha: 't1t1t1t1', path: 'thumbnails/new.jpg', message: 'Upload new.jpg', author: 'Ann', date: '2025-03-02T10:00:00Z' },
+    ]);
+    fireEvent.click(screen.getByRole('button', { name: 'Thumbnail' }));
+
+    expect(await screen.findByText('Update thumbnail for new.mp3')).toBeInTheDocument();
+    expect(fetchFileHistory).toHaveBeenLastCalledWith('thumbnails/new.jpg');
+
+    fireEvent.click(screen.getAllByText('Preview')[1]);
+    expect(screen.getByTestId('github-image')).toHaveAttribute('data-git-ref', 't1t1t1t1');
+
+    fireEvent.click(screen.getByText('Restore'));
+    await mockOpenModal.mock.calls[0][0].onConfirm();
+    // Thumbnails are not listed in the media manifest, so no type is passed
+    expect(restoreFileVersion).toHaveBeenCalledWith('thumbnails/new.jpg', expect.objectContaining({ commitSha: 't1t1t1t1' }), undefined);
+  });
+
+  it('shows why the history could not be loaded', async () => {
+    fetchFileHistory.mockRejectedValue(new Error('Failed to fetch file history: 500'));
+
+    render(<FileHistoryPanel file={file} onClose={jest.fn()} onRestore={jest.fn()} />);
+
+    expect(await screen.findByText('Failed to fetch file history: 500')).toBeInTheDocument();
+    expect(screen.queryByRole('button', { name: 'Thumbnail' })).not.toBeInTheDocument();
+  });
+
+  it('closes from the header', async () => {
+    const onClose = jest.fn();
+    render(<FileHistoryPanel file={file} onClose={onClose} onRestore={jest.fn()} />);
+    await screen.findByText('Upload old.mp3');
+
+    fireEvent.click(screen.getByTitle('Close'));
+
+    expect(onClose).toHaveBeenCalled();
+  });
+});
@@ -18,8 +18,7 @@ jest.mock('../../src/utils/imageUtils', () => ({
 }));
 
 jest.mock('../../src/utils/uploadUtils', () => ({
-  uploadFile: jest.fn(),
-  uploadThumbnail: jest.fn()
+  restoreFileVersion: jest.fn()
 }));
 
 jest.mock('../../src/hooks/useCombinedFiles');
@@ -39,6 +38,17 @@ jest.mock('../../src/components/EditFileModal', () => {
   };
 });
 
+jest.mock('../../src/components/FileHistoryPanel', () => {
+  return function MockFileHistoryPanel({ thumbnailPath, onClose, onRestore }: { thumbnailPath?: string; onClose: () => void; onRestore: () => void }) {
+    return (
+      <div data-testid="file-history-panel" data-thumbnail-path={thumbnailPath}>
+        <button onClick={() => onClose()}>Close History</button>
+        <button onClick={() => onRestore()}>Restore Version</button>
+      </div>
+    );
+  };
+});
+
 jest.mock('../../src/components/AddMediaModal', () => {
   return function MockAddMediaModal({ onClose, onSave }: { onClose: () => void; onSave: () => void }) {
     return (
@@ -75,9 +85,9 @@ jest.mock('../../src/components/GitHubImage', () => {
 });
 
 jest.mock('../../src/components/GitHubMedia', () => {
-  return function MockGitHubMedia({ filePath, type, className, fallback }: { filePath?: string; type: string; className?: string; fallback?: React.ReactNode }) {
+  return function MockGitHubMedia({ filePath, type, className, fallback, gitRef }: { filePath?: string; type: string; className?: string; fallback?: React.ReactNode; gitRef?: string }) {
     return filePath ? (
-      <div data-testid={`github-media-${type}`} className={className}>
+      <div data-testid={`github-media-${type}`} className={className} data-git-ref={gitRef}>
         {type === 'audio' ? 'GitHub Audio Player' : 'GitHub Video Player'}
       </div>
     ) : (
@@ -91,6 +101,8 @@ jest.mock('../../src/components/icons/DefaultThumbnail', () => ({ className }: {
 jest.mock('../../src/components/icons/PlayIcon', () => ({ width: _width, height: _height }: { width?: number; height?: number }) => <div data-testid="play-icon" />);
 jest.mock('../../src/components/icons/EditIcon', () => ({ width: _width, height: _height }: { width?: number; height?: number }) => <div data-testid="edit-icon" />);
 jest.mock('../../src/components/icons/DeleteIcon', () => ({ width: _width, height: _height }: { width?: number; height?: number }) => <div data-testid="delete-icon" />);
+jest.mock('../../src/components/icons/DownloadIcon', () => ({ className }: { className?: string }) => <div data-testid="download-icon" className={className} />);
+jest.mock('../../src/components/icons/HistoryIcon', () => ({ width: _width, height: _height }: { width?: number; height?: number }) => <div data-testid="history-icon" />);
 jest.mock('../../src/components/icons/UploadIcon', () => ({ className }: { className?: string }) => <div data-testid="upload-icon" className={className} />);
 jest.mock('../../src/components/icons/CheckIcon', () => ({ width: _width, height: _height, className }: { width?: number; height?: number; className?: string }) => <div data-testid="check-icon" className={className} />);
 jest.mock('../../src/components/icons/AudioIcon', () => ({ className, width: _width, height: _height }: { className?: string; width?: number; height?: number }) => <div data-testid="audio-icon" className={className} />);
@@ -148,11 +160,15 @@ describe('FileList', () => {
     loadFilesWithThumbnails: jest.fn(),
     refreshAllFiles: jest.fn(),
     removeFile: jest.fn(),
-    setRemoteError: jest.fn()
+    setRemoteError: jest.fn(),
+    cachingIds: [],
+    makeAvailableOffline: jest.fn(),
+    removeOfflineCopy: jest.fn()
   };
 
   const defaultUploadManager = {
     uploadFile: jest.fn(),
+    uploadSelected: jest.fn(),
     retryUpload: jest.fn()
   };
 
@@ -400,6 +416,96 @@ describe('FileList', () => {
     expect(mockRemoveFile).toHaveBeenCalledWith('2'); // Non-uploaded file ID
   });
 
+  it('asks for confirmation before deleting a file from the repository', async () => {
+    const mockRemoveFile = jest.fn().mockResolvedValue(undefined);
+    const mockOpenModal = jest.fn();
+    const remoteFile = { ...mockFiles[0], id: 'remote-abc', isLocal: false, url: 'media/clip.mp3' };
+    useCombinedFiles.mockReturnValue({
+      ...defaultMockImplementation,
+      files: [remoteFile],
+      removeFile: mockRemoveFile
+    });
+    useUIStore.mockReturnValue({ ...defaultUIStore, openModal: mockOpenModal });
+
+    render(<FileList />);
+    fireEvent.click(screen.getByTitle('Delete from repository'));
+
+    expect(mockRemoveFile).not.toHaveBeenCalled();
+    expect(mockOpenModal).toHaveBeenCalledWith(expect.objectContaining({
+      type: 'confirm',
+      title: 'Delete from Repository',
+      message: expect.stringContaining('permanently removed from the GitHub repository'),
+      confirmText: 'Delete from GitHub',
+    }));
+
+    await mockOpenModal.mock.calls[0][0].onConfirm();
+    expect(mockRemoveFile).toHaveBeenCalledWith('remote-abc');
+  });
+
+  it('reports failed repository deletes', async () => {
+    const mockOpenModal = jest.fn();
+    const remoteFile = { ...mockFiles[0], id: 'remote-abc', isLocal: false, url: 'media/clip.mp3' };
+    useCombinedFiles.mockReturnValue({
+      ...defaultMockImplementation,
+      files: [remoteFile],
+      removeFile: jest.fn().mockRejectedValue(new Error('Failed to update ref: 403'))
+    });
+    useUIStore.mockReturnValue({ ...defaultUIStore, openModal: mockOpenModal });
+
+    render(<FileList />);
+    fireEvent.click(screen.getByTitle('Delete from repository'));
+    await mockOpenModal.mock.calls[0][0].onConfirm();
+
+    expect(mockOpenModal).toHaveBeenLastCalledWith({
+      type: 'error',
+      title: 'Delete Failed',
+      message: 'Failed to update ref: 403',
+    });
+  });
+
+  it('shows the repository subfolder of remote files', () => {
+    const remoteFile = { ...mockFiles[0], id: 'remote-abc', isLocal: false, url: 'media/Podcast/2025/clip.mp3', folder: 'Podcast/2025' };
+    useCombinedFiles.mockReturnValue({
+      ...defaultMockImplementation,
+      files: [remoteFile]
+    });
+
+    render(<FileList />);
+
+    expect(screen.getByTitle('Folder: Podcast/2025')).toHaveTextContent('Podcast/2025');
+  });
+
+  it('opens the edit modal for files in the repository', () => {
+    const remoteFile = { ...mockFiles[0], id: 'remote-abc', isLocal: false, url: 'media/clip.mp3' };
+    useCombinedFiles.mockReturnValue({
+      ...defaultMockImplementation,
+      files: [remoteFile]
+    });
+
+    render(<FileList />);
+    fireEvent.click(screen.getByTitle('Edit in repository'));
+
+    expect(screen.getByTestId('edit-file-modal')).toBeInTheDocument();
+  });
+
+  it('does not offer repository deletes for local or pending review files', () => {
+    const pendingFile = {
+      ...mockFiles[0],
+      id: 'pr-7-clip.mp3',
+      isLocal: false,
+      pullRequest: { number: 7, url: 'https://github.com/owner/repo/pull/7', branch: 'media/clip.mp3' }
+    };
+    useCombinedFiles.mockReturnValue({
+      ...defaultMockImplementation,
+      files: [...mockFiles, pendingFile]
+    });
+
+    render(<FileList />);
+
+    expect(screen.queryByTitle('Delete from repository')).not.toBeInTheDocument();
+    expect(screen.queryByTitle('Edit in repository')).not.toBeInTheDocument();
+  });
+
   // UPLOAD FUNCTIONALITY TESTS
   it('displays upload section for non-uploaded files', () => {
     render(<FileList />);
@@ -433,6 +539,49 @@ describe('FileList', () => {
     expect(screen.getByText('60%')).toBeInTheDocument();
   });
 
+  it('displays bytes sent and time remaining during the transfer', () => {
+    useCombinedFiles.mockReturnValue({
+      ...defaultMockImplementation,
+      uploadState: {
+        '2': {
+          status: 'uploading',
+          progress: 0.4,
+          transfer: {
+            bytesSent: 13002342,
+            totalBytes: 48 * 1024 * 1024,
+            bytesPerSecond: 907008,
+            secondsRemaining: 40,
+          },
+        }
+      }
+    });
+
+    render(<FileList />);
+    const transfer = screen.getByText('12.4 MB of 48 MB, ~40s left');
+    expect(transfer).toHaveAttribute('title', '885.75 KB/s');
+  });
+
+  it('shows queued uploads and their retry attempt', () => {
+    useCombinedFiles.mockReturnValue({
+      ...defaultMockImplementation,
+      uploadState: {
+        '2': { status: 'queued', progress: 0 }
+      }
+    });
+
+    const { rerender } = render(<FileList />);
+    expect(screen.getByText('Queued')).toBeInTheDocument();
+
+    useCombinedFiles.mockReturnValue({
+      ...defaultMockImplementation,
+      uploadState: {
+        '2': { status: 'queued', progress: 0, attempts: 2, error: 'Failed to create blob: 502' }
+      }
+    });
+    rerender(<FileList />);
+    expect(screen.getByText('Retrying (attempt 3 of 6)')).toHaveAttribute('title', 'Failed to create blob: 502');
+  });
+
   it('displays upload success state', () => {
     useCombinedFiles.mockReturnValue({
       ...defaultMockImplementation,
@@ -445,6 +594,47 @@ describe('FileList', () => {
     expect(screen.getAllByText('Uploaded')).toHaveLength(2); // One for uploaded file, one for success state
   });
 
+  it('links files waiting on a pull request instead of marking them uploaded', () => {
+    const pendingFile = {
+      ...mockFiles[0],
+      id: 'pr-7-clip.mp3',
+      isLocal: false,
+      url: 'media/clip.mp3',
+      pullRequest: { number: 7, url: 'https://github.com/owner/repo/pull/7', branch: 'media/clip.mp3' }
+    };
+    useCombinedFiles.mockReturnValue({
+      ...defaultMockImplementation,
+      files: [pendingFile],
+      thumbnails: {}
+    });
+
+    render(<FileList />);
+
+    const link = screen.getByText('Pending review');
+    expect(link.closest('a')).toHaveAttribute('href', 'https://github.com/owner/repo/pull/7');
+    expect(screen.queryByText('Uploaded')).not.toBeInTheDocument();
+
+    fireEvent.click(screen.getByTitle('Preview'));
+    expect(screen.getByTestId('github-media-audio')).toHaveAttribute('data-git-ref', 'media/clip.mp3');
+  });
+
+  it('uploads selected files together', () => {
+    const mockUploadSelected = jest.fn();
+    useUploadManager.mockReturnValue({
+      ...defaultUploadManager,
+      uploadSelected: mockUploadSelected
+    });
+
+    render(<FileList />);
+    expect(screen.queryByText(/Upload selected/)).not.toBeInTheDocument();
+
+    fireEvent.click(screen.getByLabelText(`Select ${mockFiles[1].name} for upload`));
+    fireEvent.click(screen.getByText('Upload selected (1)'));
+
+    expect(mockUploadSelected).toHaveBeenCalledWith([mockFiles[1]]);
+    expect(screen.queryByText(/Upload selected/)).not.toBeInTheDocument();
+  });
+
   it('displays upload error state with retry button', () => {
     const mockRetryUpload = jest.fn();
     useUploadManager.mockReturnValue({
@@ -504,6 +694,152 @@ describe('FileList', () => {
     expect(videoElement).toHaveAttribute('src', 'blob:2');
   });
 
+  describe('Offline copies', () => {
+    const remoteFile = { ...mockFiles[0], id: 'remote-abc', isLocal: false, url: 'media/clip.mp3' };
+
+    it('downloads remote files for offline playback', async () => {
+      const mockMakeAvailableOffline = jest.fn().mockResolvedValue(undefined);
+      useCombinedFiles.mockReturnValue({
+        ...defaultMockImplementation,
+        files: [remoteFile],
+        makeAvailableOffline: mockMakeAvailableOffline
+      });
+
+      render(<FileList />);
+      fireEvent.click(screen.getByTitle('Make available offline'));
+
+      await waitFor(() => expect(mockMakeAvailableOffline).toHaveBeenCalledWith('remote-abc'));
+    });
+
+    it('removes the offline copy of cached files', async () => {
+      const mockRemoveOfflineCopy = jest.fn().mockResolvedValue(undefined);
+      useCombinedFiles.mockReturnValue({
+        ...defaultMockImplementation,
+        files: [{ ...remoteFile, cached: true, offlineUrl: 'blob:offline' }],
+        removeOfflineCopy: mockRemoveOfflineCopy
+      });
+
+      render(<FileList />);
+      expect(screen.getByText('Offline')).toBeInTheDocument();
+      fireEvent.click(screen.getByTitle('Remove offline copy'));
+
+      await waitFor(() => expect(mockRemoveOfflineCopy).toHaveBeenCalledWith('remote-abc'));
+    });
+
+    it('disables the button while downloading', () => {
+      useCombinedFiles.mockReturnValue({
+        ...defaultMockImplementation,
+        files: [remoteFile],
+        cachingIds: ['remote-abc']
+      });
+
+      render(<FileList />);
+
+      expect(screen.getByTitle('Downloading...')).toBeDisabled();
+    });
+
+    it('reports failed downloads', async () => {
+      const mockOpenModal = jest.fn();
+      useCombinedFiles.mockReturnValue({
+        ...defaultMockImplementation,
+        files: [remoteFile],
+        makeAvailableOffline: jest.fn().mockRejectedValue(new Error('Failed to download media/clip.mp3: 404'))
+      });
+      useUIStore.mockReturnValue({ ...defaultUIStore, openModal: mockOpenModal });
+
+      render(<FileList />);
+      fireEvent.click(screen.getByTitle('Make available offline'));
+
+      await waitFor(() => expect(mockOpenModal).toHaveBeenCalledWith({
+        type: 'error',
+        title: 'Download Failed',
+        message: 'Failed to download media/clip.mp3: 404',
+      }));
+    });
+
+    it('plays cached files and their thumbnails from the downloaded copy', () => {
+      useCombinedFiles.mockReturnValue({
+        ...defaultMockImplementation,
+        files: [{ ...remoteFile, cached: true, offlineUrl: 'blob:offline-media', offlineThumbnailUrl: 'blob:offline-thumb' }]
+      });
+
+      const { container } = render(<FileList />);
+      expect(screen.getByAltText('thumbnail')).toHaveAttribute('src', 'blob:offline-thumb');
+
+      fireEvent.click(screen.getByTitle('Preview'));
+
+      expect(screen.queryByTestId('github-media-audio')).not.toBeInTheDocument();
+      expect(container.querySelector('audio')).toHaveAttribute('src', 'blob:offline-media');
+    });
+
+    it('does not offer offline copies for local files', () => {
+      render(<FileList />);
+
+      expect(screen.queryByTitle('Make available offline')).not.toBeInTheDocument();
+    });
+  });
+
+  describe('Version history', () => {
+    const remoteFile = { ...mockFiles[0], id: 'remote-abc', isLocal: false, url: 'media/clip.mp3', path: 'media/clip.mp3' };
+    const remoteThumbnails = {
+      'Music_Audio Test_test_author_2024-06-01': { id: 'remote-thumb', url: 'thumbnails/clip.jpg', isLocal: false }
+    };
+
+    it('opens the history of a remote file with its thumbnail', () => {
+      useCombinedFiles.mockReturnValue({
+        ...defaultMockImplementation,
+        files: [remoteFile],
+        thumbnails: remoteThumbnails
+      });
+
+      render(<FileList />);
+      fireEvent.click(screen.getByTitle('Version history'));
+
+      expect(screen.getByTestId('file-history-panel')).toHaveAttribute('data-thumbnail-path', 'thumbnails/clip.jpg');
+      fireEvent.click(screen.getByText('Close History'));
+      expect(screen.queryByTestId('file-history-panel')).not.toBeInTheDocument();
+    });
+
+    it('reloads the library and drops the stale offline copy after a restore', async () => {
+      const mockLoadFiles = jest.fn().mockResolvedValue(undefined);
+      const mockRemoveOfflineCopy = jest.fn().mockResolvedValue(undefined);
+      const mockOpenModal = jest.fn();
+      useCombinedFiles.mockReturnValue({
+        ...defaultMockImplementation,
+        files: [{ ...remoteFile, cached: true, offlineUrl: 'blob:offline' }],
+        loadFilesWithThumbnails: mockLoadFiles,
+        removeOfflineCopy: mockRemoveOfflineCopy
+      });
+      useUIStore.mockReturnValue({ ...defaultUIStore, openModal: mockOpenModal });
+
+      render(<FileList />);
+      fireEvent.click(screen.getByTitle('Version history'));
+      fireEvent.click(screen.getByText('Restore Version'));
+
+      await waitFor(() => expect(mockOpenModal).toHaveBeenCalledWith(expect.objectContaining({ type: 'success', title: 'Version Restored' })));
+      expect(mockRemoveOfflineCopy).toHaveBeenCalledWith('remote-abc');
+      expect(mockLoadFiles).toHaveBeenCalled();
+      expect(screen.queryByTestId('file-history-panel')).not.toBeInTheDocument();
+    });
+
+    it('is not offered for local or pending review files', () => {
+      const pendingFile = {
+        ...mockFiles[0],
+        id: 'pr-7-clip.mp3',
+        isLocal: false,
+        pullRequest: { number: 7, url: 'https://github.com/owner/repo/pull/7', branch: 'media/clip.mp3' }
+      };
+      useCombinedFiles.mockReturnValue({
+        ...defaultMockImplementation,
+        files: [...mockFiles, pendingFile]
+      });
+
+      render(<FileList />);
+
+      expect(screen.queryByTitle('Version history')).not.toBeInTheDocument();
+    });
+  });
+
   it('displays remote media in preview modal', () => {
     const remoteFiles = [{
       ...mockFiles[0],
@@ -643,7 +979,7 @@ describe('FileList', () => {
     expect(mockOpenModal).toHaveBeenCalledWith({
       type: 'error',
       title: 'Repository Error',
-      message: 'Failed to fetch remote files\n\nShowing local files only. Check your GitHub settings to view remote files.',
+      message: 'Failed to fetch remote files\n\nShowing local files and offline copies only. Check your GitHub settings to view remote files.',
       confirmText: 'OK',
       onConfirm: expect.any(Function)
     });
@@ -52,6 +52,6 @@ describe('GitHubImage', () => {
     await act(async () => {
       render(<GitHubImage filePath="specific/path.jpg" alt="test" />);
     });
-    expect(mockGetUrl).toHaveBeenCalledWith('specific/path.jpg');
+    expect(mockGetUrl).toHaveBeenCalledWith('specific/path.jpg', undefined);
   });
 });
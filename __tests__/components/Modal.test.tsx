@@ -0,0 +1,68 @@
+import React from 'react';
+import { render, screen, fireEvent } from '@testing-library/react';
+import '@testing-library/jest-dom';
+import Modal from '../../src/components/Modal';
+
+describe('Modal', () => {
+  const onClose = jest.fn();
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('renders nothing when closed', () => {
+    const { container } = render(<Modal isOpen={false} onClose={onClose} message="Hidden" />);
+
+    expect(container).toBeEmptyDOMElement();
+  });
+
+  it('confirms and closes', () => {
+    const onConfirm = jest.fn();
+    render(<Modal isOpen onClose={onClose} onConfirm={onConfirm} type="confirm" message="Sure?" confirmText="Yes" />);
+
+    fireEvent.click(screen.getByText('Yes'));
+
+    expect(onConfirm).toHaveBeenCalled();
+    expect(onClose).toHaveBeenCalled();
+  });
+
+  it('cancels from the button and the backdrop', () => {
+    const onCancel = jest.fn();
+    const { container } = render(<Modal isOpen onClose={onClose} onCancel={onCancel} type="confirm" message="Sure?" />);
+
+    fireEvent.click(screen.getByText('Cancel'));
+    fireEvent.click(container.firstChild as Element);
+
+    expect(onCancel).toHaveBeenCalledTimes(2);
+    expect(onClose).toHaveBeenCalledTimes(2);
+  });
+
+  it('offers a third choice on confirm dialogs', () => {
+    const onConfirm = jest.fn();
+    const onAlternative = jest.fn();
+    render(
+      <Modal
+        isOpen
+        onClose={onClose}
+        onConfirm={onConfirm}
+        onAlternative={onAlternative}
+        type="confirm"
+        message="Exists"
+        confirmText="Overwrite"
+        alternativeText="Keep both"
+      />
+    );
+
+    fireEvent.click(screen.getByText('Keep both'));
+
+    expect(onAlternative).toHaveBeenCalled();
+    expect(onConfirm).not.toHaveBeenCalled();
+    expect(onClose).toHaveBeenCalled();
+  });
+
+  it('shows the third choice only on confirm dialogs', () => {
+    render(<Modal isOpen onClose={onClose} type="alert" message="Done" alternativeText="Keep both" />);
+
+    expect(screen.queryByText('Keep both')).not.toBeInTheDocument();
+  });
+});
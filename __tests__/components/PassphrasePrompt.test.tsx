@@ -0,0 +1,45 @@
+import React from 'react';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import PassphrasePrompt from '../../src/components/PassphrasePrompt';
+
+describe('PassphrasePrompt', () => {
+  const onUnlock = jest.fn();
+  const onSignOut = jest.fn();
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('unlocks with the entered passphrase', async () => {
+    onUnlock.mockResolvedValueOnce(true);
+    render(<PassphrasePrompt onUnlock={onUnlock} onSignOut={onSignOut} />);
+
+    fireEvent.change(screen.getByLabelText('Passphrase'), { target: { value: 'correct horse' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Unlock' }));
+
+    await waitFor(() => {
+      expect(onUnlock).toHaveBeenCalledWith('correct horse');
+    });
+    expect(screen.queryByRole('alert')).not.toBeInTheDocument();
+  });
+
+  it('says so when the passphrase is wrong', async () => {
+    onUnlock.mockResolvedValueOnce(false);
+    render(<PassphrasePrompt onUnlock={onUnlock} onSignOut={onSignOut} />);
+
+    fireEvent.change(screen.getByLabelText('Passphrase'), { target: { value: 'battery staple' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Unlock' }));
+
+    expect(await screen.findByRole('alert')).toHaveTextContent('Wrong passphrase');
+    expect(screen.getByLabelText('Passphrase')).toHaveValue('');
+  });
+
+  it('signs out after confirming a forgotten passphrase', () => {
+    render(<PassphrasePrompt onUnlock={onUnlock} onSignOut={onSignOut} />);
+
+    fireEvent.click(screen.getByText('Forgot your passphrase?'));
+    fireEvent.click(screen.getByText('Sign Out'));
+
+    expect(onSignOut).toHaveBeenCalled();
+  });
+});
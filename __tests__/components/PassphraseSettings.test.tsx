@@ -0,0 +1,97 @@
+import React from 'react';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import PassphraseSettings from '../../src/components/PassphraseSettings';
+
+const mockOpenModal = jest.fn();
+const mockChangePassphrase = jest.fn();
+const mockRemovePassphrase = jest.fn();
+const mockEnableTokenPassphrase = jest.fn();
+let mockEncryptedToken: object | null = null;
+
+jest.mock('../../src/stores/uiStore', () => ({
+  useUIStore: () => ({ openModal: mockOpenModal })
+}));
+jest.mock('../../src/stores/authStore', () => ({
+  useAuthStore: () => ({
+    encryptedToken: mockEncryptedToken,
+    changePassphrase: mockChangePassphrase,
+    removePassphrase: mockRemovePassphrase,
+  })
+}));
+jest.mock('../../src/utils/tokenAuth', () => ({
+  enableTokenPassphrase: (passphrase: string) => mockEnableTokenPassphrase(passphrase)
+}));
+
+const type = (name: string, value: string) =>
+  fireEvent.change(document.querySelector(`input[name="${name}"]`)!, { target: { value } });
+
+describe('PassphraseSettings', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockEncryptedToken = null;
+  });
+
+  it('enables a passphrase that was entered twice', async () => {
+    mockEnableTokenPassphrase.mockResolvedValueOnce(undefined);
+    render(<PassphraseSettings />);
+
+    type('newPassphrase', 'correct horse');
+    type('confirmPassphrase', 'correct horse');
+    fireEvent.click(screen.getByText('Enable Passphrase'));
+
+    await waitFor(() => {
+      expect(mockOpenModal).toHaveBeenCalledWith(expect.objectContaining({ title: 'Passphrase Enabled' }));
+    });
+    expect(mockEnableTokenPassphrase).toHaveBeenCalledWith('correct horse');
+  });
+
+  it('rejects short or mismatched passphrases', () => {
+    render(<PassphraseSettings />);
+
+    type('newPassphrase', 'short');
+    fireEvent.click(screen.getByText('Enable Passphrase'));
+    expect(mockOpenModal).toHaveBeenLastCalledWith(expect.objectContaining({ title: 'Passphrase Too Short' }));
+
+    type('newPassphrase', 'correct horse');
+    type('confirmPassphrase', 'correct house');
+    fireEvent.click(screen.getByText('Enable Passphrase'));
+    expect(mockOpenModal).toHaveBeenLastCalledWith(expect.objectContaining({ title: 'Passphrases Differ' }));
+
+    expect(mockEnableTokenPassphrase).not.toHaveBeenCalled();
+  });
+
+  it('changes the passphrase when the current one is right', async () => {
+    mockEncryptedToken = { ciphertext: 'c', iv: 'i', salt: 's', iterations: 1000 };
+    mockChangePassphrase.mockResolvedValueOnce(false).mockResolvedValueOnce(true);
+    render(<PassphraseSettings />);
+
+    type('currentPassphrase', 'wrong');
+    type('newPassphrase', 'battery staple');
+    type('confirmPassphrase', 'battery staple');
+    fireEvent.click(screen.getByText('Change Passphrase'));
+    await waitFor(() => {
+      expect(mockOpenModal).toHaveBeenLastCalledWith(expect.objectContaining({ title: 'Wrong Passphrase' }));
+    });
+
+    type('currentPassphrase', 'correct horse');
+    fireEvent.click(screen.getByText('Change Passphrase'));
+    await waitFor(() => {
+      expect(mockOpenModal).toHaveBeenLastCalledWith(expect.objectContaining({ title: 'Passphrase Changed' }));
+    });
+    expect(mockChangePassphrase).toHaveBeenLastCalledWith('correct horse', 'battery staple');
+  });
+
+  it('removes the passphrase', async () => {
+    mockEncryptedToken = { ciphertext: 'c', iv: 'i', salt: 's', iterations: 1000 };
+    mockRemovePassphrase.mockResolvedValueOnce(true);
+    render(<PassphraseSettings />);
+
+    type('currentPassphrase', 'correct horse');
+    fireEvent.click(screen.getByText('Remove Passphrase'));
+
+    await waitFor(() => {
+      expect(mockOpenModal).toHaveBeenCalledWith(expect.objectContaining({ title: 'Passphrase Removed' }));
+    });
+    expect(mockRemovePassphrase).toHaveBeenCalledWith('correct horse');
+  });
+});
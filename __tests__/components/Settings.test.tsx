@@ -1,16 +1,20 @@
 import React from 'react';
-import { render, screen, fireEvent } from '@testing-library/react';
+import { render, screen, fireEvent, waitFor, act } from '@testing-library/react';
 import '@testing-library/jest-dom';
 import Settings from '../../src/components/Settings';
+import { recordRateLimit, clearRateLimitStatus } from '../../src/utils/rateLimit';
 
+const mockOpenModal = jest.fn();
 jest.mock('../../src/stores/uiStore', () => ({
   useUIStore: () => ({ 
     modal: { isOpen: false, type: null }, 
-    openModal: jest.fn(), 
+    openModal: mockOpenModal, 
     closeModal: jest.fn() 
   })
 }));
 const mockSetAppSettings = jest.fn();
+const mockSetRepositoryCheck = jest.fn();
+let mockRepositoryCheck: unknown = null;
 const mockAppSettings = { 
   repo: '', 
   path: 'media/', 
@@ -23,19 +27,59 @@ const mockAppSettings = {
 jest.mock('../../src/stores/settingsStore', () => ({
   useSettingsStore: jest.fn(() => ({ 
     appSettings: mockAppSettings, 
-    setAppSettings: mockSetAppSettings 
+    setAppSettings: mockSetAppSettings,
+    repositoryCheck: mockRepositoryCheck,
+    setRepositoryCheck: mockSetRepositoryCheck
   }))
 }));
 jest.mock('../../src/stores/authStore', () => ({
   useAuthStore: () => ({ userInfo: { login: 'testuser' }, logout: jest.fn() })
 }));
+let mockLfsUrl = 'https://lfs-proxy.test';
+jest.mock('../../src/utils/lfsConfig', () => ({
+  get GITHUB_LFS_URL() { return mockLfsUrl; }
+}));
 jest.mock('../../src/utils/tokenAuth', () => ({ getStoredUsername: () => 'testuser', clearTokenData: jest.fn() }));
-jest.mock('../../src/utils/appConfig', () => ({ DEFAULT_MEDIA_CATEGORIES: [{ id: 'music', name: 'Music' }] }));
+jest.mock('../../src/utils/appConfig', () => ({ DEFAULT_MEDIA_CATEGORIES: [{ id: 'music', name: 'Music' }], DEFAULT_BRANCH: 'main' }));
+const mockFetchRepositoryBranches = jest.fn();
+const mockCheckRepositoryAccess = jest.fn();
+const mockRepositoryCheckTarget = jest.fn();
+const mockIsForeignPodcastFeed = jest.fn();
+jest.mock('../../src/utils/githubUtils', () => ({
+  fetchRepositoryBranches: (...args: unknown[]) => mockFetchRepositoryBranches(...args),
+  checkRepositoryAccess: () => mockCheckRepositoryAccess(),
+  repositoryCheckTarget: () => mockRepositoryCheckTarget(),
+  isForeignPodcastFeed: (...args: unknown[]) => mockIsForeignPodcastFeed(...args)
+}));
+const mockProfiles = {
+  profiles: [] as Array<{ id: string; name: string; settings: { repo: string } }>,
+  activeProfile: null as { id: string; name: string; settings: { repo: string } } | null,
+  switchProfile: jest.fn(),
+  addProfile: jest.fn(),
+  renameProfile: jest.fn(),
+  removeProfile: jest.fn(),
+  pendingRecordings: jest.fn()
+};
+jest.mock('../../src/hooks/useRepositoryProfiles', () => ({
+  useRepositoryProfiles: () => mockProfiles
+}));
+const mockCreateRepositoryBranch = jest.fn();
+const mockCreateRepositoryFolder = jest.fn();
+jest.mock('../../src/utils/uploadUtils', () => ({
+  createRepositoryBranch: (...args: unknown[]) => mockCreateRepositoryBranch(...args),
+  createRepositoryFolder: (...args: unknown[]) => mockCreateRepositoryFolder(...args)
+}));
 
 describe('Settings', () => {
   beforeEach(() => {
     jest.clearAllMocks();
     mockSetAppSettings.mockClear();
+    mockFetchRepositoryBranches.mockResolvedValue([]);
+    mockRepositoryCheckTarget.mockReturnValue(null);
+    mockIsForeignPodcastFeed.mockResolvedValue(false);
+    mockRepositoryCheck = null;
+    mockProfiles.profiles = [];
+    mockProfiles.activeProfile = null;
   });
   
   afterEach(() => {
@@ -57,6 +101,33 @@ describe('Settings', () => {
     expect(screen.getByText('testuser')).toBeInTheDocument();
   });
 
+  it('shows the remaining API budget', () => {
+    render(<Settings audioFormat="mp3" setAudioFormat={jest.fn()} onLogout={jest.fn()} />);
+    expect(screen.getByText('API budget: not checked yet')).toBeInTheDocument();
+
+    act(() => {
+      recordRateLimit(new Response(null, {
+        status: 200,
+        headers: { 'X-RateLimit-Limit': '5000', 'X-RateLimit-Remaining': '4812' },
+      }));
+    });
+
+    expect(screen.getByText('API budget: 4812 of 5000 requests left')).toBeInTheDocument();
+    act(() => clearRateLimitStatus());
+  });
+
+  it('reports a secondary rate limit separately', () => {
+    render(<Settings audioFormat="mp3" setAudioFormat={jest.fn()} onLogout={jest.fn()} />);
+
+    act(() => {
+      recordRateLimit(new Response(null, { status: 403, headers: { 'X-RateLimit-Remaining': '4000', 'Retry-After': '60' } }));
+    });
+
+    expect(screen.getByText(/^Secondary rate limit hit: requests paused until/)).toBeInTheDocument();
+    expect(screen.queryByText('Uploads and auto-refresh are paused until the budget resets.')).not.toBeInTheDocument();
+    act(() => clearRateLimitStatus());
+  });
+
   it('handles settings without initial app settings', () => {
     // Mock settingsStore with null appSettings for this test
     const mockSetAppSettingsNull = jest.fn();
@@ -96,6 +167,112 @@ describe('Settings', () => {
     expect(widthInput).toHaveValue(640);
   });
 
+  it('loads branches for the repository and saves the selected branch', async () => {
+    mockFetchRepositoryBranches.mockResolvedValue(['main', 'media']);
+    render(<Settings audioFormat="mp3" setAudioFormat={jest.fn()} onLogout={jest.fn()} />);
+
+    fireEvent.change(screen.getByPlaceholderText('my-media-repo'), { target: { value: 'media-repo' } });
+
+    await waitFor(() => {
+      expect(mockFetchRepositoryBranches).toHaveBeenCalledWith('media-repo');
+      expect(screen.getByRole('option', { name: 'media' })).toBeInTheDocument();
+    });
+
+    fireEvent.change(screen.getByDisplayValue('main'), { target: { name: 'branch', value: 'media' } });
+    fireEvent.click(screen.getByText('Save Settings'));
+
+    expect(mockSetAppSettings).toHaveBeenLastCalledWith(expect.objectContaining({ repo: 'media-repo', branch: 'media' }));
+  });
+
+  it('keeps the current branch selectable when branches cannot be loaded', async () => {
+    mockFetchRepositoryBranches.mockRejectedValue(new Error('Not found'));
+    render(<Settings audioFormat="mp3" setAudioFormat={jest.fn()} onLogout={jest.fn()} />);
+
+    fireEvent.change(screen.getByPlaceholderText('my-media-repo'), { target: { value: 'missing-repo' } });
+
+    await waitFor(() => expect(mockFetchRepositoryBranches).toHaveBeenCalledWith('missing-repo'));
+    expect(screen.getByRole('option', { name: 'main' })).toBeInTheDocument();
+  });
+
+  it('saves the pull request publishing mode', () => {
+    render(<Settings audioFormat="mp3" setAudioFormat={jest.fn()} onLogout={jest.fn()} />);
+
+    const publishSelect = screen.getByDisplayValue('Commit directly to the branch');
+    fireEvent.change(publishSelect, { target: { name: 'publishMode', value: 'pullRequest' } });
+    fireEvent.click(screen.getByText('Save Settings'));
+
+    expect(mockSetAppSettings).toHaveBeenLastCalledWith(expect.objectContaining({ publishMode: 'pullRequest' }));
+  });
+
+  it('saves the Git LFS media storage option', () => {
+    render(<Settings audioFormat="mp3" setAudioFormat={jest.fn()} onLogout={jest.fn()} />);
+
+    fireEvent.change(screen.getByDisplayValue('Regular Git files'), { target: { name: 'mediaStorage', value: 'lfs' } });
+    fireEvent.click(screen.getByText('Save Settings'));
+
+    expect(mockSetAppSettings).toHaveBeenLastCalledWith(expect.objectContaining({ mediaStorage: 'lfs' }));
+  });
+
+  it('does not offer Git LFS without an LFS proxy', () => {
+    mockLfsUrl = '';
+    render(<Settings audioFormat="mp3" setAudioFormat={jest.fn()} onLogout={jest.fn()} />);
+
+    expect(screen.queryByText('Git LFS (large recordings)')).not.toBeInTheDocument();
+    expect(screen.getByText(/Git LFS needs an LFS proxy/)).toBeInTheDocument();
+    mockLfsUrl = 'https://lfs-proxy.test';
+  });
+
+  it('saves how many recent items to keep offline', () => {
+    render(<Settings audioFormat="mp3" setAudioFormat={jest.fn()} onLogout={jest.fn()} />);
+
+    const input = document.querySelector('input[name="offlineAutoCacheCount"]') as HTMLInputElement;
+    fireEvent.change(input, { target: { name: 'offlineAutoCacheCount', value: '5' } });
+    fireEvent.click(screen.getByText('Save Settings'));
+
+    expect(mockSetAppSettings).toHaveBeenLastCalledWith(expect.objectContaining({ offlineAutoCacheCount: 5 }));
+  });
+
+  it('saves the podcast feed channel and its episode categories', async () => {
+    render(<Settings audioFormat="mp3" setAudioFormat={jest.fn()} onLogout={jest.fn()} />);
+
+    expect(document.querySelector('input[name="podcastFeed.title"]')).toBeNull();
+    fireEvent.click(screen.getByLabelText('Generate a podcast feed in the repository'));
+    fireEvent.click(screen.getByRole('button', { name: 'Music' }));
+    const title = document.querySelector('input[name="podcastFeed.title"]') as HTMLInputElement;
+    fireEvent.change(title, { target: { name: 'podcastFeed.title', value: 'Team Podcast' } });
+    const baseUrl = document.querySelector('input[name="podcastFeed.baseUrl"]') as HTMLInputElement;
+    fireEvent.change(baseUrl, { target: { name: 'podcastFeed.baseUrl', value: 'https://team.github.io/media' } });
+    fireEvent.click(screen.getByText('Save Settings'));
+
+    await waitFor(() => expect(mockSetAppSettings).toHaveBeenLastCalledWith(expect.objectContaining({
+      podcastFeed: expect.objectContaining({
+        enabled: true,
+        categories: ['Music'],
+        title: 'Team Podcast',
+        baseUrl: 'https://team.github.io/media',
+        path: 'feed.xml',
+      }),
+    })));
+    expect(mockIsForeignPodcastFeed).toHaveBeenCalledWith(expect.objectContaining({
+      podcastFeed: expect.objectContaining({ enabled: true, path: 'feed.xml' }),
+    }));
+  });
+
+  it('refuses a podcast feed path holding a feed the app did not generate', async () => {
+    mockIsForeignPodcastFeed.mockResolvedValue(true);
+    render(<Settings audioFormat="mp3" setAudioFormat={jest.fn()} onLogout={jest.fn()} />);
+
+    fireEvent.click(screen.getByLabelText('Generate a podcast feed in the repository'));
+    fireEvent.click(screen.getByText('Save Settings'));
+
+    await waitFor(() => expect(mockOpenModal).toHaveBeenCalledWith(expect.objectContaining({
+      type: 'alert',
+      title: 'Feed Path In Use',
+      message: expect.stringContaining('feed.xml was not generated by this app'),
+    })));
+    expect(mockSetAppSettings).not.toHaveBeenCalled();
+  });
+
   it('handles save settings correctly', () => {
     render(<Settings audioFormat="mp3" setAudioFormat={jest.fn()} onLogout={jest.fn()} />);
     
@@ -243,6 +420,161 @@ describe('Settings', () => {
   //   expect(screen.getByText('Podcast')).toBeInTheDocument();
   // });
 
+  describe('Repository profiles', () => {
+    const podcast = { id: 'podcast', name: 'Podcast', settings: { repo: 'podcast-repo' } };
+    const lectures = { id: 'lectures', name: 'Lectures', settings: { repo: 'lectures-repo' } };
+
+    it('adds a profile by name', () => {
+      render(<Settings audioFormat="mp3" setAudioFormat={jest.fn()} onLogout={jest.fn()} />);
+
+      fireEvent.change(screen.getByPlaceholderText('New profile name'), { target: { value: ' Lectures ' } });
+      fireEvent.click(screen.getByText('Add Profile'));
+
+      expect(mockProfiles.addProfile).toHaveBeenCalledWith('Lectures');
+    });
+
+    it('renames the active profile when saving', () => {
+      mockProfiles.profiles = [podcast];
+      mockProfiles.activeProfile = podcast;
+      render(<Settings audioFormat="mp3" setAudioFormat={jest.fn()} onLogout={jest.fn()} />);
+
+      fireEvent.change(screen.getByDisplayValue('Podcast'), { target: { value: 'Weekly Podcast' } });
+      fireEvent.click(screen.getByRole('button', { name: /save settings/i }));
+
+      expect(mockProfiles.renameProfile).toHaveBeenCalledWith('podcast', 'Weekly Podcast');
+    });
+
+    it('lists the profiles to switch to', () => {
+      mockProfiles.profiles = [podcast, lectures];
+      mockProfiles.activeProfile = podcast;
+      render(<Settings audioFormat="mp3" setAudioFormat={jest.fn()} onLogout={jest.fn()} />);
+
+      expect(screen.getByText('Lectures (lectures-repo)')).toBeInTheDocument();
+      fireEvent.click(screen.getByText('Switch'));
+
+      expect(mockProfiles.switchProfile).toHaveBeenCalledWith('lectures');
+    });
+
+    describe('deleting a profile', () => {
+      const mockOpenModal = jest.fn();
+      let originalUIMock: unknown;
+
+      beforeEach(() => {
+        mockProfiles.profiles = [podcast, lectures];
+        mockProfiles.activeProfile = podcast;
+        originalUIMock = require('../../src/stores/uiStore').useUIStore;
+        require('../../src/stores/uiStore').useUIStore = jest.fn(() => ({
+          modal: { isOpen: false, type: null },
+          openModal: mockOpenModal,
+          closeModal: jest.fn()
+        }));
+      });
+
+      afterEach(() => {
+        require('../../src/stores/uiStore').useUIStore = originalUIMock;
+      });
+
+      it('deletes a profile after confirmation', async () => {
+        mockProfiles.pendingRecordings.mockResolvedValue(0);
+        mockProfiles.removeProfile.mockResolvedValue(true);
+        render(<Settings audioFormat="mp3" setAudioFormat={jest.fn()} onLogout={jest.fn()} />);
+
+        fireEvent.click(screen.getAllByText('Delete')[1]);
+        await waitFor(() => expect(mockOpenModal).toHaveBeenCalledWith(expect.objectContaining({ type: 'confirm', title: 'Delete Profile' })));
+        await mockOpenModal.mock.calls[0][0].onConfirm();
+
+        expect(mockProfiles.removeProfile).toHaveBeenCalledWith('lectures');
+        expect(mockOpenModal).toHaveBeenCalledTimes(1);
+      });
+
+      it('refuses to delete a profile with recordings not yet uploaded', async () => {
+        mockProfiles.pendingRecordings.mockResolvedValue(2);
+        render(<Settings audioFormat="mp3" setAudioFormat={jest.fn()} onLogout={jest.fn()} />);
+
+        fireEvent.click(screen.getAllByText('Delete')[1]);
+
+        await waitFor(() => expect(mockOpenModal).toHaveBeenCalledWith(expect.objectContaining({
+          type: 'alert',
+          title: 'Profile Still In Use',
+          message: expect.stringContaining('"Lectures" has 2 recordings not yet uploaded')
+        })));
+        expect(mockProfiles.pendingRecordings).toHaveBeenCalledWith('lectures');
+        expect(mockProfiles.removeProfile).not.toHaveBeenCalled();
+      });
+    });
+  });
+
+  describe('Repository check', () => {
+    const check = (items: Array<{ id: string; label: string; status: string; detail?: string }>) => ({
+      target: 'testuser/media@main',
+      items,
+      canUpload: true,
+      defaultBranch: 'main',
+      checkedAt: Date.now()
+    });
+
+    beforeEach(() => {
+      mockRepositoryCheckTarget.mockReturnValue('testuser/media@main');
+    });
+
+    it('checks the repository after saving', async () => {
+      const result = check([{ id: 'repository', label: 'Repository testuser/media', status: 'ok' }]);
+      mockCheckRepositoryAccess.mockResolvedValue(result);
+      render(<Settings audioFormat="mp3" setAudioFormat={jest.fn()} onLogout={jest.fn()} />);
+
+      fireEvent.click(screen.getByRole('button', { name: /save settings/i }));
+
+      await waitFor(() => expect(mockSetRepositoryCheck).toHaveBeenCalledWith(result));
+    });
+
+    it('shows why the check could not run', async () => {
+      mockCheckRepositoryAccess.mockRejectedValue(new Error('Failed to check repository: 500'));
+      render(<Settings audioFormat="mp3" setAudioFormat={jest.fn()} onLogout={jest.fn()} />);
+
+      fireEvent.click(screen.getByText('Check again'));
+
+      expect(await screen.findByText('Failed to check repository: 500')).toBeInTheDocument();
+      expect(mockSetRepositoryCheck).not.toHaveBeenCalled();
+    });
+
+    it('lists the results with fixes for missing folders', async () => {
+      mockRepositoryCheck = check([
+        { id: 'repository', label: 'Repository testuser/media', status: 'ok' },
+        { id: 'mediaFolder', label: 'Media folder', status: 'missing', detail: 'media/ does not exist yet' },
+        { id: 'thumbnailFolder', label: 'Thumbnail folder', status: 'ok', detail: 'thumbnails/' }
+      ]);
+      mockCreateRepositoryFolder.mockResolvedValue(undefined);
+      mockCheckRepositoryAccess.mockResolvedValue(mockRepositoryCheck);
+      render(<Settings audioFormat="mp3" setAudioFormat={jest.fn()} onLogout={jest.fn()} />);
+
+      expect(screen.getByText('media/ does not exist yet')).toBeInTheDocument();
+      expect(screen.queryByText('Create thumbnail folder')).not.toBeInTheDocument();
+      fireEvent.click(screen.getByText('Create media folder'));
+
+      await waitFor(() => expect(mockCheckRepositoryAccess).toHaveBeenCalled());
+      expect(mockCreateRepositoryFolder).toHaveBeenCalledWith('media/');
+    });
+
+    it('offers to create a missing branch from the default branch', async () => {
+      mockRepositoryCheck = check([{ id: 'branch', label: 'Branch main', status: 'missing' }]);
+      mockCreateRepositoryBranch.mockResolvedValue(undefined);
+      mockCheckRepositoryAccess.mockResolvedValue(mockRepositoryCheck);
+      render(<Settings audioFormat="mp3" setAudioFormat={jest.fn()} onLogout={jest.fn()} />);
+
+      fireEvent.click(screen.getByText('Create from main'));
+
+      await waitFor(() => expect(mockCreateRepositoryBranch).toHaveBeenCalledWith('main'));
+    });
+
+    it('ignores a check made for another repository', () => {
+      mockRepositoryCheck = { ...check([{ id: 'repository', label: 'Repository testuser/old', status: 'ok' }]), target: 'testuser/old@main' };
+      render(<Settings audioFormat="mp3" setAudioFormat={jest.fn()} onLogout={jest.fn()} />);
+
+      expect(screen.queryByText('Repository testuser/old')).not.toBeInTheDocument();
+      expect(screen.getByText('Not checked yet. Save the settings to check the repository.')).toBeInTheDocument();
+    });
+  });
+
   describe('SaveButton integration', () => {
     it('renders SaveButton with correct default props', () => {
       render(<Settings audioFormat="mp3" setAudioFormat={jest.fn()} onLogout={jest.fn()} />);
@@ -371,7 +703,7 @@ describe('Settings', () => {
       
       // Check that all card sections have proper padding and margins
       const cardSections = document.querySelectorAll('.p-4.bg-white.rounded-xl.shadow-lg.mb-6');
-      expect(cardSections.length).toBe(4); // GitHub, Repository, Audio, Categories sections
+      expect(cardSections.length).toBe(6); // GitHub, Profiles, Repository, Audio, Categories, Podcast Feed sections
     });
   });
 
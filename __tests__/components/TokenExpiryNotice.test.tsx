@@ -0,0 +1,48 @@
+import React from 'react';
+import { render, screen, fireEvent } from '@testing-library/react';
+import TokenExpiryNotice from '../../src/components/TokenExpiryNotice';
+
+const DAY = 24 * 60 * 60 * 1000;
+const mockSetScreen = jest.fn();
+let mockTokenExpiresAt: number | null = null;
+
+jest.mock('../../src/stores/authStore', () => ({
+  useAuthStore: () => ({ tokenExpiresAt: mockTokenExpiresAt })
+}));
+jest.mock('../../src/stores/uiStore', () => ({
+  useUIStore: () => ({ setScreen: mockSetScreen })
+}));
+
+describe('TokenExpiryNotice', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockTokenExpiresAt = null;
+  });
+
+  it('renders nothing for tokens without an expiry', () => {
+    const { container } = render(<TokenExpiryNotice />);
+    expect(container.firstChild).toBeNull();
+  });
+
+  it('renders nothing while the expiry is far away', () => {
+    mockTokenExpiresAt = Date.now() + 30 * DAY;
+    const { container } = render(<TokenExpiryNotice />);
+    expect(container.firstChild).toBeNull();
+  });
+
+  it('warns in the days before the token expires', () => {
+    mockTokenExpiresAt = Date.now() + 3 * DAY + 60 * 1000;
+    render(<TokenExpiryNotice />);
+
+    expect(screen.getByRole('alert')).toHaveTextContent('Your GitHub token expires in 3 days');
+    fireEvent.click(screen.getByText('Open Settings'));
+    expect(mockSetScreen).toHaveBeenCalledWith('settings');
+  });
+
+  it('says when the token has expired', () => {
+    mockTokenExpiresAt = Date.now() - DAY;
+    render(<TokenExpiryNotice />);
+
+    expect(screen.getByRole('alert')).toHaveTextContent('Your GitHub token has expired.');
+  });
+});
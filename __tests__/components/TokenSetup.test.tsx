@@ -2,6 +2,7 @@ import React from 'react';
 import { render, screen, fireEvent, waitFor } from '@testing-library/react';
 import '@testing-library/jest-dom';
 import TokenSetup from '../../src/components/TokenSetup';
+import { requestDeviceCode, pollDeviceToken } from '../../src/utils/deviceFlow';
 
 // Mock all dependencies before importing component
 jest.mock('../../src/stores/uiStore');
@@ -13,6 +14,15 @@ jest.mock('../../src/utils/standalone');
 jest.mock('../../src/utils/device');
 jest.mock('../../src/components/Modal');
 jest.mock('../../src/components/InstallPrompt');
+let mockOAuthClientId = '';
+jest.mock('../../src/utils/oauthConfig', () => ({
+  get GITHUB_OAUTH_CLIENT_ID() { return mockOAuthClientId; },
+  GITHUB_OAUTH_URL: 'https://github.com'
+}));
+jest.mock('../../src/utils/deviceFlow', () => ({
+  requestDeviceCode: jest.fn(),
+  pollDeviceToken: jest.fn()
+}));
 
 // Mock fetch globally
 global.fetch = jest.fn();
@@ -22,6 +32,7 @@ describe('TokenSetup Component', () => {
   const mockOpenModal = jest.fn();
   const mockCloseModal = jest.fn();
   const mockLogin = jest.fn();
+  const mockSetTokenExpiresAt = jest.fn();
   const mockOnSuccess = jest.fn();
   
   const mockUIStore = {
@@ -32,6 +43,7 @@ describe('TokenSetup Component', () => {
 
   const mockAuthStore = {
     login: mockLogin,
+    setTokenExpiresAt: mockSetTokenExpiresAt,
   };
 
   beforeEach(() => {
@@ -347,6 +359,22 @@ describe('TokenSetup Component', () => {
   });
 
   describe('API Integration - Success Cases', () => {
+    it('stores the token expiry GitHub reports', async () => {
+      (global.fetch as jest.Mock).mockResolvedValueOnce({
+        ok: true,
+        headers: new Headers({ 'github-authentication-token-expiration': '2025-11-01 12:00:00 UTC' }),
+        json: () => Promise.resolve({ login: 'testuser' }),
+      });
+
+      render(<TokenSetup onSuccess={mockOnSuccess} />);
+      fireEvent.change(screen.getByLabelText('GitHub Personal Access Token'), { target: { value: 'github_pat_expiring' } });
+      fireEvent.click(screen.getByRole('button', { name: /verify & continue/i }));
+
+      await waitFor(() => {
+        expect(mockSetTokenExpiresAt).toHaveBeenCalledWith(Date.parse('2025-11-01T12:00:00Z'));
+      });
+    });
+
     it('successfully verifies token and calls onSuccess', async () => {
       const mockUserData = { login: 'testuser', id: 123 };
       (global.fetch as jest.Mock).mockResolvedValueOnce({
@@ -758,6 +786,88 @@ describe('TokenSetup Component', () => {
     });
   });
 
+  describe('GitHub Enterprise Server', () => {
+    const submitWithServer = (server: string, raw = '') => {
+      render(<TokenSetup onSuccess={mockOnSuccess} />);
+      fireEvent.change(screen.getByLabelText('GitHub Personal Access Token'), { target: { value: 'ghp_enterprise' } });
+      fireEvent.click(screen.getByLabelText('Use a GitHub Enterprise Server'));
+      fireEvent.change(screen.getByLabelText('Server address'), { target: { value: server } });
+      if (raw) fireEvent.change(screen.getByLabelText('Raw file URL (optional)'), { target: { value: raw } });
+      fireEvent.click(screen.getByRole('button', { name: /verify & continue/i }));
+    };
+
+    it('verifies the token against the server API and stores its addresses', async () => {
+      (global.fetch as jest.Mock).mockResolvedValueOnce({
+        ok: true,
+        json: () => Promise.resolve({ login: 'enterprise-user' }),
+      });
+
+      submitWithServer('github.example.com', 'https://raw.github.example.com/');
+
+      await waitFor(() => {
+        expect(mockLogin).toHaveBeenCalledWith(
+          {
+            token: 'ghp_enterprise',
+            owner: 'enterprise-user',
+            repo: '',
+            apiBaseUrl: 'https://github.example.com/api/v3',
+            rawBaseUrl: 'https://raw.github.example.com',
+          },
+          { login: 'enterprise-user' }
+        );
+      });
+      expect(global.fetch).toHaveBeenCalledWith('https://github.example.com/api/v3/user', expect.anything());
+    });
+
+    it('links to the token settings of the server', () => {
+      render(<TokenSetup onSuccess={mockOnSuccess} />);
+      fireEvent.click(screen.getByLabelText('Use a GitHub Enterprise Server'));
+      fireEvent.change(screen.getByLabelText('Server address'), { target: { value: 'https://github.example.com' } });
+      fireEvent.click(screen.getByText('How to create a Personal Access Token'));
+
+      expect(screen.getByText('github.example.com/settings/tokens')).toHaveAttribute('href', 'https://github.example.com/settings/tokens');
+    });
+
+    it('rejects addresses the token must not be sent to', async () => {
+      submitWithServer('http://github.example.com');
+
+      await waitFor(() => {
+        expect(mockOpenModal).toHaveBeenCalledWith(expect.objectContaining({ title: 'Invalid Server Address' }));
+      });
+      expect(global.fetch).not.toHaveBeenCalled();
+    });
+
+    it('rejects servers that do not answer like a GitHub API', async () => {
+      (global.fetch as jest.Mock).mockResolvedValueOnce({
+        ok: true,
+        json: () => Promise.resolve({ status: 'ok' }),
+      });
+
+      submitWithServer('intranet.example.com');
+
+      await waitFor(() => {
+        expect(mockOpenModal).toHaveBeenCalledWith({
+          type: 'alert',
+          message: 'intranet.example.com did not respond like a GitHub API. Please check the server address.',
+          title: 'Invalid Server Address'
+        });
+      });
+      expect(mockLogin).not.toHaveBeenCalled();
+    });
+
+    it('names the server when it cannot be reached', async () => {
+      (global.fetch as jest.Mock).mockRejectedValueOnce(new TypeError('Failed to fetch'));
+
+      submitWithServer('github.example.com');
+
+      await waitFor(() => {
+        expect(mockOpenModal).toHaveBeenCalledWith(expect.objectContaining({
+          message: 'Could not reach github.example.com. Please check the server address and your connection.',
+        }));
+      });
+    });
+  });
+
   describe('Edge Cases', () => {
     it('handles malformed JSON response gracefully', async () => {
       (global.fetch as jest.Mock).mockResolvedValueOnce({
@@ -914,4 +1024,97 @@ describe('TokenSetup Component', () => {
       expect(document.activeElement).toBe(submitButton);
     });
   });
-});
\ No newline at end of file
+
+  describe('Sign in with GitHub', () => {
+    const authorization = {
+      deviceCode: 'device-code',
+      userCode: 'WDJB-MJHT',
+      verificationUri: 'https://github.com/login/device',
+      expiresAt: Date.now() + 900000,
+      interval: 5,
+    };
+    const mockRequestDeviceCode = requestDeviceCode as jest.Mock;
+    const mockPollDeviceToken = pollDeviceToken as jest.Mock;
+
+    beforeEach(() => {
+      mockOAuthClientId = 'test-client-id';
+      mockRequestDeviceCode.mockResolvedValue(authorization);
+    });
+
+    afterEach(() => {
+      mockOAuthClientId = '';
+    });
+
+    it('is offered only when an OAuth client ID is configured', () => {
+      mockOAuthClientId = '';
+      render(<TokenSetup onSuccess={mockOnSuccess} />);
+
+      expect(screen.queryByText('Sign in with GitHub')).not.toBeInTheDocument();
+    });
+
+    it('is not offered for GitHub Enterprise Server', () => {
+      render(<TokenSetup onSuccess={mockOnSuccess} />);
+
+      fireEvent.click(screen.getByLabelText('Use a GitHub Enterprise Server'));
+
+      expect(screen.queryByText('Sign in with GitHub')).not.toBeInTheDocument();
+    });
+
+    it('shows the user code and signs in with the authorized token', async () => {
+      let authorize: (token: string) => void = () => {};
+      mockPollDeviceToken.mockImplementation(() => new Promise(resolve => { authorize = resolve; }));
+      (global.fetch as jest.Mock).mockResolvedValueOnce({
+        ok: true,
+        json: () => Promise.resolve({ login: 'testuser' }),
+      });
+      render(<TokenSetup onSuccess={mockOnSuccess} />);
+
+      fireEvent.click(screen.getByText('Sign in with GitHub'));
+
+      expect(await screen.findByText('WDJB-MJHT')).toBeInTheDocument();
+      expect(screen.getByText('Open github.com/login/device').closest('a')).toHaveAttribute('href', 'https://github.com/login/device');
+      expect(mockRequestDeviceCode).toHaveBeenCalledWith(
+        { clientId: 'test-client-id', baseUrl: 'https://github.com' },
+        expect.any(AbortSignal)
+      );
+
+      authorize('gho_device_token');
+
+      await waitFor(() => {
+        expect(mockLogin).toHaveBeenCalledWith({ token: 'gho_device_token', owner: 'testuser', repo: '' }, { login: 'testuser' });
+        expect(mockOnSuccess).toHaveBeenCalled();
+      });
+    });
+
+    it('stops waiting when cancelled', async () => {
+      mockPollDeviceToken.mockImplementation((_options, _authorization, signal: AbortSignal) =>
+        new Promise((_resolve, reject) => {
+          signal.addEventListener('abort', () => reject(new DOMException('Sign-in cancelled', 'AbortError')));
+        })
+      );
+      render(<TokenSetup onSuccess={mockOnSuccess} />);
+
+      fireEvent.click(screen.getByText('Sign in with GitHub'));
+      fireEvent.click(await screen.findByText('Cancel'));
+
+      expect(await screen.findByText('Sign in with GitHub')).toBeInTheDocument();
+      expect(mockOpenModal).not.toHaveBeenCalled();
+      expect(mockLogin).not.toHaveBeenCalled();
+    });
+
+    it('reports why sign-in failed', async () => {
+      mockPollDeviceToken.mockRejectedValueOnce(new Error('Sign-in was cancelled on GitHub.'));
+      render(<TokenSetup onSuccess={mockOnSuccess} />);
+
+      fireEvent.click(screen.getByText('Sign in with GitHub'));
+
+      await waitFor(() => {
+        expect(mockOpenModal).toHaveBeenCalledWith({
+          type: 'alert',
+          message: 'Sign-in was cancelled on GitHub.',
+          title: 'Sign-in Failed'
+        });
+      });
+    });
+  });
+});
@@ -10,6 +10,8 @@ import CloseIcon from '../../../src/components/icons/CloseIcon';
 import DeleteIcon from '../../../src/components/icons/DeleteIcon';
 import EditIcon from '../../../src/components/icons/EditIcon';
 import UploadIcon from '../../../src/components/icons/UploadIcon';
+import DownloadIcon from '../../../src/components/icons/DownloadIcon';
+import HistoryIcon from '../../../src/components/icons/HistoryIcon';
 import VideoIcon from '../../../src/components/icons/VideoIcon';
 import CheckIcon from '../../../src/components/icons/CheckIcon';
 import RecordIcon from '../../../src/components/icons/RecordIcon';
@@ -179,6 +181,34 @@ describe('Icon Components', () => {
     });
   });
 
+  describe('DownloadIcon', () => {
+    it('renders without crashing', () => {
+      const { container } = render(<DownloadIcon />);
+      const svgElement = container.querySelector('svg');
+      expect(svgElement).toBeInTheDocument();
+    });
+
+    it('applies custom className', () => {
+      const { container } = render(<DownloadIcon className="custom-class" />);
+      const svgElement = container.querySelector('svg');
+      expect(svgElement).toHaveClass('custom-class');
+    });
+  });
+
+  describe('HistoryIcon', () => {
+    it('renders without crashing', () => {
+      const { container } = render(<HistoryIcon />);
+      const svgElement = container.querySelector('svg');
+      expect(svgElement).toBeInTheDocument();
+    });
+
+    it('applies custom className', () => {
+      const { container } = render(<HistoryIcon className="custom-class" />);
+      const svgElement = container.querySelector('svg');
+      expect(svgElement).toHaveClass('custom-class');
+    });
+  });
+
   describe('VideoIcon', () => {
     it('renders without crashing', () => {
       const { container } = render(<VideoIcon />);
@@ -284,6 +314,8 @@ describe('Icon Components', () => {
         { component: <DeleteIcon />, name: 'DeleteIcon' },
         { component: <EditIcon />, name: 'EditIcon' },
         { component: <UploadIcon />, name: 'UploadIcon' },
+        { component: <DownloadIcon />, name: 'DownloadIcon' },
+        { component: <HistoryIcon />, name: 'HistoryIcon' },
         { component: <VideoIcon />, name: 'VideoIcon' },
         { component: <CheckIcon />, name: 'CheckIcon' },
         { component: <RecordIcon />, name: 'RecordIcon' },
@@ -313,6 +345,8 @@ describe('Icon Components', () => {
         { component: DeleteIcon, name: 'DeleteIcon' },
         { component: EditIcon, name: 'EditIcon' },
         { component: UploadIcon, name: 'UploadIcon' },
+        { component: DownloadIcon, name: 'DownloadIcon' },
+        { component: HistoryIcon, name: 'HistoryIcon' },
         { component: VideoIcon, name: 'VideoIcon' },
         { component: CheckIcon, name: 'CheckIcon' },
         { component: RecordIcon, name: 'RecordIcon' },
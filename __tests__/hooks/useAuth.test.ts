@@ -6,6 +6,8 @@ jest.mock('../../src/utils/tokenAuth', () => ({
   isAuthenticated: jest.fn(),
   checkTokenValidity: jest.fn(),
   clearTokenData: jest.fn(),
+  isTokenLocked: jest.fn(() => false),
+  unlockToken: jest.fn(),
 }));
 
 jest.mock('../../src/utils/device', () => ({
@@ -13,13 +15,15 @@ jest.mock('../../src/utils/device', () => ({
 }));
 
 // Import mocked functions for type safety
-import { isAuthenticated, checkTokenValidity, clearTokenData } from '../../src/utils/tokenAuth';
+import { isAuthenticated, checkTokenValidity, clearTokenData, isTokenLocked, unlockToken } from '../../src/utils/tokenAuth';
 import { isMobile } from '../../src/utils/device';
 
 const mockIsAuthenticated = isAuthenticated as jest.MockedFunction<typeof isAuthenticated>;
 const mockCheckTokenValidity = checkTokenValidity as jest.MockedFunction<typeof checkTokenValidity>;
 const mockClearTokenData = clearTokenData as jest.MockedFunction<typeof clearTokenData>;
 const mockIsMobile = isMobile as jest.MockedFunction<typeof isMobile>;
+const mockIsTokenLocked = isTokenLocked as jest.MockedFunction<typeof isTokenLocked>;
+const mockUnlockToken = unlockToken as jest.MockedFunction<typeof unlockToken>;
 
 describe('useAuth', () => {
   beforeEach(() => {
@@ -62,6 +66,75 @@ describe('useAuth', () => {
     });
   });
 
+  describe('Passphrase Lock', () => {
+    beforeEach(() => {
+      mockIsMobile.mockReturnValue(true);
+      mockIsTokenLocked.mockReturnValue(true);
+    });
+
+    afterEach(() => {
+      mockIsTokenLocked.mockReturnValue(false);
+    });
+
+    it('waits for the passphrase before checking the token', async () => {
+      const { result } = renderHook(() => useAuth());
+
+      await waitFor(() => {
+        expect(result.current.isLoading).toBe(false);
+      });
+
+      expect(result.current.locked).toBe(true);
+      expect(result.current.authenticated).toBe(false);
+      expect(mockCheckTokenValidity).not.toHaveBeenCalled();
+    });
+
+    it('stays locked after a wrong passphrase', async () => {
+      mockUnlockToken.mockResolvedValueOnce(false);
+      const { result } = renderHook(() => useAuth());
+
+      let unlocked = true;
+      await act(async () => {
+        unlocked = await result.current.unlock('wrong');
+      });
+
+      expect(unlocked).toBe(false);
+      expect(result.current.locked).toBe(true);
+      expect(mockCheckTokenValidity).not.toHaveBeenCalled();
+    });
+
+    it('validates the token once unlocked', async () => {
+      mockUnlockToken.mockResolvedValueOnce(true);
+      mockIsAuthenticated.mockReturnValue(true);
+      mockCheckTokenValidity.mockResolvedValueOnce({ isValid: true, isExpired: false, username: 'user' });
+      const { result } = renderHook(() => useAuth());
+
+      await act(async () => {
+        await result.current.unlock('correct horse');
+      });
+
+      await waitFor(() => {
+        expect(result.current.authenticated).toBe(true);
+      });
+      expect(result.current.locked).toBe(false);
+      expect(mockUnlockToken).toHaveBeenCalledWith('correct horse');
+    });
+
+    it('signs out without the passphrase', async () => {
+      mockIsAuthenticated.mockReturnValue(false);
+      const { result } = renderHook(() => useAuth());
+
+      act(() => {
+        result.current.signOut();
+      });
+
+      await waitFor(() => {
+        expect(result.current.locked).toBe(false);
+      });
+      expect(mockClearTokenData).toHaveBeenCalled();
+      expect(result.current.authenticated).toBe(false);
+    });
+  });
+
   describe('Mobile Environment - Not Authenticated', () => {
     beforeEach(() => {
       mockIsMobile.mockReturnValue(true);
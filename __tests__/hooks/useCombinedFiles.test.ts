@@ -77,6 +77,7 @@ describe('useCombinedFiles', () => {
 
     mockUseGitStore.mockReturnValue({
       remoteThumbnails: mockRemoteThumbnails,
+      pendingPullRequests: [],
     });
 
     mockLoadFiles.mockResolvedValue(undefined);
@@ -206,6 +207,7 @@ describe('useCombinedFiles', () => {
 
       mockUseGitStore.mockReturnValue({
         remoteThumbnails: {}, // No remote thumbnails
+        pendingPullRequests: [],
       });
 
       const { result } = renderHook(() => useCombinedFiles());
@@ -235,6 +237,7 @@ describe('useCombinedFiles', () => {
 
       mockUseGitStore.mockReturnValue({
         remoteThumbnails: {},
+        pendingPullRequests: [],
       });
 
       rerender();
@@ -250,6 +253,7 @@ describe('useCombinedFiles', () => {
 
       // Update mock to add more remote thumbnails
       mockUseGitStore.mockReturnValue({
+        pendingPullRequests: [],
         remoteThumbnails: {
           ...mockRemoteThumbnails,
           'new-remote': {
@@ -506,6 +510,7 @@ describe('useCombinedFiles', () => {
 
       mockUseGitStore.mockReturnValue({
         remoteThumbnails: {}, // No remote thumbnails
+        pendingPullRequests: [],
       });
 
       rerender();
@@ -626,6 +631,7 @@ describe('useCombinedFiles', () => {
     it('should handle null/undefined remote thumbnails', () => {
       mockUseGitStore.mockReturnValue({
         remoteThumbnails: null as unknown as Record<string, import('../../src/types').FileRecord>,
+        pendingPullRequests: [],
       });
 
       const { result } = renderHook(() => useCombinedFiles());
@@ -638,6 +644,7 @@ describe('useCombinedFiles', () => {
       const consoleSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
 
       mockUseGitStore.mockReturnValue({
+        pendingPullRequests: [],
         remoteThumbnails: {
           'malformed': null as unknown as import('../../src/types').FileRecord, // Malformed thumbnail data
         },
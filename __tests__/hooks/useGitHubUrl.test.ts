@@ -49,7 +49,7 @@ describe('useGitHubUrl', () => {
       });
 
       expect(generatedUrl!).toBe(mockUrl);
-      expect(mockGenerateFreshDownloadUrl).toHaveBeenCalledWith('test-file.mp3');
+      expect(mockGenerateFreshDownloadUrl).toHaveBeenCalledWith('test-file.mp3', undefined);
       expect(mockGenerateFreshDownloadUrl).toHaveBeenCalledTimes(1);
     });
 
@@ -76,6 +76,27 @@ describe('useGitHubUrl', () => {
       expect(mockGenerateFreshDownloadUrl).toHaveBeenCalledTimes(1); // Only called once
     });
 
+    it('should cache URLs for the same path on different branches separately', async () => {
+      mockGenerateFreshDownloadUrl
+        .mockResolvedValueOnce('https://raw.githubusercontent.com/main/test-file.mp3')
+        .mockResolvedValueOnce('https://raw.githubusercontent.com/review/test-file.mp3');
+
+      const { result } = renderHook(() => useGitHubUrl());
+
+      let mainUrl: string;
+      let reviewUrl: string;
+      await act(async () => {
+        mainUrl = await result.current.getUrl('test-file.mp3');
+      });
+      await act(async () => {
+        reviewUrl = await result.current.getUrl('test-file.mp3', 'media/test-file.mp3');
+      });
+
+      expect(mainUrl!).toBe('https://raw.githubusercontent.com/main/test-file.mp3');
+      expect(reviewUrl!).toBe('https://raw.githubusercontent.com/review/test-file.mp3');
+      expect(mockGenerateFreshDownloadUrl).toHaveBeenLastCalledWith('test-file.mp3', 'media/test-file.mp3');
+    });
+
     it('should generate new URL after cache expires', async () => {
       const firstUrl = 'https://github.com/user/repo/raw/token1/path/test-file.mp3';
       const secondUrl = 'https://github.com/user/repo/raw/token2/path/test-file.mp3';
@@ -0,0 +1,133 @@
+import { renderHook, act } from '@testing-library/react';
+import { useRepositoryProfiles } from '../../src/hooks/useRepositoryProfiles';
+import { useSettingsStore } from '../../src/stores/settingsStore';
+import type { AppSettings } from '../../src/types';
+
+const mockLoadFiles = jest.fn();
+const mockSwitchProfileCache = jest.fn();
+const mockForgetProfileCache = jest.fn();
+const mockListUploadJobs = jest.fn();
+let mockLocalFiles: Array<{ id: string; profileId?: string }> = [];
+
+jest.mock('../../src/stores/filesStore', () => ({
+  useFilesStore: {
+    getState: () => ({ loadFiles: mockLoadFiles, localFiles: mockLocalFiles }),
+  },
+}));
+
+jest.mock('../../src/utils/uploadQueue', () => ({
+  listUploadJobs: () => mockListUploadJobs(),
+}));
+
+jest.mock('../../src/stores/gitStore', () => ({
+  useGitStore: {
+    getState: () => ({ switchProfileCache: mockSwitchProfileCache, forgetProfileCache: mockForgetProfileCache }),
+  },
+}));
+
+const podcast: AppSettings = {
+  repo: 'podcast',
+  branch: 'main',
+  path: 'media/',
+  thumbnailPath: 'thumbnails/',
+  thumbnailWidth: 320,
+  thumbnailHeight: 240,
+};
+
+describe('useRepositoryProfiles', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockLoadFiles.mockResolvedValue(undefined);
+    mockListUploadJobs.mockResolvedValue([]);
+    mockLocalFiles = [];
+    useSettingsStore.getState().reset();
+    useSettingsStore.getState().setAppSettings(podcast);
+  });
+
+  it('should return the profiles and the active one', () => {
+    const { result } = renderHook(() => useRepositoryProfiles());
+
+    expect(result.current.profiles).toHaveLength(1);
+    expect(result.current.activeProfile).toEqual(expect.objectContaining({ name: 'podcast', settings: podcast }));
+  });
+
+  it('should switch to a new profile and swap the library listing', () => {
+    const podcastId = useSettingsStore.getState().activeProfileId;
+    const { result } = renderHook(() => useRepositoryProfiles());
+
+    let lecturesId = '';
+    act(() => {
+      lecturesId = result.current.addProfile('Lectures');
+    });
+
+    expect(result.current.activeProfile?.name).toBe('Lectures');
+    expect(mockSwitchProfileCache).toHaveBeenCalledWith(podcastId, lecturesId);
+    expect(mockLoadFiles).toHaveBeenCalled();
+  });
+
+  it('should not switch to the profile that is already active', () => {
+    const { result } = renderHook(() => useRepositoryProfiles());
+
+    act(() => {
+      result.current.switchProfile(result.current.activeProfile!.id);
+    });
+
+    expect(mockSwitchProfileCache).not.toHaveBeenCalled();
+    expect(mockLoadFiles).not.toHaveBeenCalled();
+  });
+
+  it('should switch away before removing the active profile', async () => {
+    const podcastId = useSettingsStore.getState().activeProfileId as string;
+    const { result } = renderHook(() => useRepositoryProfiles());
+    let lecturesId = '';
+    act(() => {
+      lecturesId = result.current.addProfile('Lectures');
+    });
+
+    let removed = false;
+    await act(async () => {
+      removed = await result.current.removeProfile(lecturesId);
+    });
+
+    expect(removed).toBe(true);
+    expect(result.current.profiles.map(profile => profile.id)).toEqual([podcastId]);
+    expect(result.current.activeProfile?.id).toBe(podcastId);
+    expect(mockForgetProfileCache).toHaveBeenCalledWith(lecturesId);
+  });
+
+  it('should keep the last profile', async () => {
+    const { result } = renderHook(() => useRepositoryProfiles());
+
+    await act(async () => {
+      await result.current.removeProfile(result.current.activeProfile!.id);
+    });
+
+    expect(result.current.profiles).toHaveLength(1);
+    expect(mockForgetProfileCache).not.toHaveBeenCalled();
+  });
+
+  it('should keep a profile with recordings waiting to be uploaded', async () => {
+    const { result } = renderHook(() => useRepositoryProfiles());
+    let lecturesId = '';
+    act(() => {
+      lecturesId = result.current.addProfile('Lectures');
+    });
+    mockLocalFiles = [{ id: 'local-1', profileId: lecturesId }, { id: 'local-2' }];
+    mockListUploadJobs.mockResolvedValue([
+      { fileId: 'local-1', profileId: lecturesId },
+      { fileId: 'queued-1', profileId: lecturesId },
+      { fileId: 'other', profileId: 'another-profile' },
+    ]);
+
+    await expect(result.current.pendingRecordings(lecturesId)).resolves.toBe(2);
+
+    let removed = true;
+    await act(async () => {
+      removed = await result.current.removeProfile(lecturesId);
+    });
+
+    expect(removed).toBe(false);
+    expect(result.current.profiles.map(profile => profile.id)).toContain(lecturesId);
+    expect(mockForgetProfileCache).not.toHaveBeenCalled();
+  });
+});
@@ -1,11 +1,19 @@
-import { renderHook, act, waitFor } from '@testing-library/react';
+import { renderHook, act } from '@testing-library/react';
 import { useUploadManager } from '../../src/hooks/useUploadManager';
 import type { FileRecord } from '../../src/types';
 
 // Mock dependencies
-jest.mock('../../src/utils/uploadUtils', () => ({
-  uploadFile: jest.fn(),
-  uploadThumbnail: jest.fn(),
+jest.mock('../../src/services/uploadQueueService', () => ({
+  uploadQueueService: {
+    enqueue: jest.fn(),
+    retry: jest.fn(),
+  },
+}));
+
+jest.mock('../../src/utils/githubUtils', () => ({
+  checkRepositoryAccess: jest.fn(),
+  fetchRepositoryPaths: jest.fn(),
+  repositoryCheckTarget: jest.fn(),
 }));
 
 jest.mock('../../src/utils/imageUtils', () => ({
@@ -16,27 +24,37 @@ jest.mock('../../src/hooks/useCombinedFiles', () => ({
   useCombinedFiles: jest.fn(),
 }));
 
-jest.mock('../../src/stores/gitStore', () => ({
-  useGitStore: jest.fn(),
+jest.mock('../../src/stores/settingsStore', () => ({
+  useSettingsStore: jest.fn(),
 }));
 
 jest.mock('../../src/stores/uiStore', () => ({
   useUIStore: jest.fn(),
 }));
 
+jest.mock('../../src/stores/gitStore', () => ({
+  useGitStore: { getState: jest.fn() },
+}));
+
 // Import mocked functions
-import { uploadFile, uploadThumbnail } from '../../src/utils/uploadUtils';
+import { uploadQueueService } from '../../src/services/uploadQueueService';
 import { processThumbnailForUpload } from '../../src/utils/imageUtils';
+import { checkRepositoryAccess, fetchRepositoryPaths, repositoryCheckTarget } from '../../src/utils/githubUtils';
 import { useCombinedFiles } from '../../src/hooks/useCombinedFiles';
-import { useGitStore } from '../../src/stores/gitStore';
+import { useSettingsStore } from '../../src/stores/settingsStore';
 import { useUIStore } from '../../src/stores/uiStore';
+import { useGitStore } from '../../src/stores/gitStore';
 
-const mockUploadFile = uploadFile as jest.MockedFunction<typeof uploadFile>;
-const mockUploadThumbnail = uploadThumbnail as jest.MockedFunction<typeof uploadThumbnail>;
+const mockEnqueue = uploadQueueService.enqueue as jest.MockedFunction<typeof uploadQueueService.enqueue>;
+const mockRetry = uploadQueueService.retry as jest.MockedFunction<typeof uploadQueueService.retry>;
+const mockCheckRepositoryAccess = checkRepositoryAccess as jest.MockedFunction<typeof checkRepositoryAccess>;
+const mockRepositoryCheckTarget = repositoryCheckTarget as jest.MockedFunction<typeof repositoryCheckTarget>;
+const mockFetchRepositoryPaths = fetchRepositoryPaths as jest.MockedFunction<typeof fetchRepositoryPaths>;
 const mockProcessThumbnailForUpload = processThumbnailForUpload as jest.MockedFunction<typeof processThumbnailForUpload>;
 const mockUseCombinedFiles = useCombinedFiles as jest.MockedFunction<typeof useCombinedFiles>;
-const mockUseGitStore = useGitStore as jest.MockedFunction<typeof useGitStore>;
+const mockUseSettingsStore = useSettingsStore as jest.MockedFunction<typeof useSettingsStore>;
 const mockUseUIStore = useUIStore as jest.MockedFunction<typeof useUIStore>;
+const mockGitState = useGitStore.getState as jest.MockedFunction<typeof useGitStore.getState>;
 
 // Mock data
 const mockFile = {
@@ -63,62 +81,57 @@ const mockThumbnail = {
   isLocal: true,
 } as FileRecord;
 
+const processedThumbnail = new Blob(['processed thumbnail'], { type: 'image/jpeg' });
+
 describe('useUploadManager', () => {
   const mockOpenModal = jest.fn();
-  const mockInvalidateCache = jest.fn();
-  const mockRemoveFile = jest.fn();
   const mockSetUploadProgress = jest.fn();
-  const mockForceRefreshFiles = jest.fn();
-  const mockLoadFilesWithThumbnails = jest.fn();
+  const mockSetRepositoryCheck = jest.fn();
+
+  const mockCombinedFiles = (files: FileRecord[], thumbnails: Record<string, FileRecord>) => {
+    mockUseCombinedFiles.mockReturnValue({
+      files,
+      thumbnails,
+      setUploadProgress: mockSetUploadProgress,
+    });
+  };
 
   beforeEach(() => {
     jest.clearAllMocks();
-    jest.useFakeTimers();
 
-    // Setup default mocks
     mockUseUIStore.mockReturnValue({
       openModal: mockOpenModal,
     });
 
-    mockUseGitStore.mockReturnValue({
-      invalidateCache: mockInvalidateCache,
-    });
-
-    mockUseCombinedFiles.mockReturnValue({
-      files: [mockFile],
-      thumbnails: { 'test-audio': mockThumbnail },
-      removeFile: mockRemoveFile,
-      setUploadProgress: mockSetUploadProgress,
-      forceRefreshFiles: mockForceRefreshFiles,
-      loadFilesWithThumbnails: mockLoadFilesWithThumbnails,
+    mockUseSettingsStore.mockReturnValue({
+      appSettings: null,
+      repositoryCheck: null,
+      setRepositoryCheck: mockSetRepositoryCheck,
     });
+    mockRepositoryCheckTarget.mockReturnValue(null);
+    mockGitState.mockReturnValue({
+      fetchRemoteFiles: jest.fn().mockResolvedValue(undefined),
+      remoteFiles: [],
+      remoteThumbnails: {},
+    } as unknown as ReturnType<typeof useGitStore.getState>);
 
-    mockUploadFile.mockImplementation(async (file, progressCallback) => {
-      progressCallback(0.5);
-      progressCallback(1);
-    });
+    mockCombinedFiles([mockFile], { 'test-audio': mockThumbnail });
 
-    mockUploadThumbnail.mockImplementation(async (file, progressCallback) => {
-      progressCallback(0.5);
-      progressCallback(1);
-    });
+    mockEnqueue.mockResolvedValue(undefined);
+    mockRetry.mockResolvedValue(true);
 
     mockProcessThumbnailForUpload.mockResolvedValue({
-      blob: new Blob(['processed thumbnail'], { type: 'image/jpeg' }),
+      blob: processedThumbnail,
       filename: 'test-audio.jpg',
     });
   });
 
-  afterEach(() => {
-    jest.runOnlyPendingTimers();
-    jest.useRealTimers();
-  });
-
   describe('Initial State', () => {
     it('should return upload functions', () => {
       const { result } = renderHook(() => useUploadManager());
 
       expect(typeof result.current.uploadFile).toBe('function');
+      expect(typeof result.current.uploadSelected).toBe('function');
       expect(typeof result.current.retryUpload).toBe('function');
       expect(typeof result.current.getCurrentFiles).toBe('function');
       expect(typeof result.current.getCurrentThumbnails).toBe('function');
@@ -132,17 +145,9 @@ describe('useUploadManager', () => {
     });
   });
 
-  describe('File Upload', () => {
-    it('should upload file successfully without thumbnail', async () => {
-      // Mock no thumbnail
-      mockUseCombinedFiles.mockReturnValue({
-        files: [mockFile],
-        thumbnails: {},
-        removeFile: mockRemoveFile,
-        setUploadProgress: mockSetUploadProgress,
-        forceRefreshFiles: mockForceRefreshFiles,
-        loadFilesWithThumbnails: mockLoadFilesWithThumbnails,
-      });
+  describe('Queueing Uploads', () => {
+    it('should queue a file without thumbnail', async () => {
+      mockCombinedFiles([mockFile], {});
 
       const { result } = renderHook(() => useUploadManager());
 
@@ -150,56 +155,81 @@ describe('useUploadManager', () => {
         await result.current.uploadFile(mockFile);
       });
 
-      expect(mockSetUploadProgress).toHaveBeenCalledWith(mockFile.id, { status: 'uploading', progress: 0 });
-      expect(mockUploadFile).toHaveBeenCalledWith(
-        mockFile.file,
-        expect.any(Function),
-        mockFile.name
+      expect(mockProcessThumbnailForUpload).not.toHaveBeenCalled();
+      expect(mockEnqueue).toHaveBeenCalledWith(
+        [{ fileId: mockFile.id, fileName: 'test-audio.mp3', file: mockFile.file }],
+        'direct'
       );
-      expect(mockSetUploadProgress).toHaveBeenCalledWith(mockFile.id, { status: 'success', progress: 1 });
-      expect(mockUploadThumbnail).not.toHaveBeenCalled();
     });
 
-    it('should upload file with thumbnail', async () => {
+    it('should queue a file with its processed thumbnail', async () => {
       const { result } = renderHook(() => useUploadManager());
 
       await act(async () => {
         await result.current.uploadFile(mockFile);
       });
 
-      expect(mockUploadFile).toHaveBeenCalledWith(
-        mockFile.file,
-        expect.any(Function),
-        mockFile.name
-      );
-      expect(mockProcessThumbnailForUpload).toHaveBeenCalledWith(
-        mockThumbnail.file,
-        mockFile.name
+      expect(mockProcessThumbnailForUpload).toHaveBeenCalledWith(mockThumbnail.file, 'test-audio.mp3');
+      expect(mockEnqueue).toHaveBeenCalledWith(
+        [{
+          fileId: mockFile.id,
+          fileName: 'test-audio.mp3',
+          file: mockFile.file,
+          thumbnail: { fileName: 'test-audio.jpg', file: processedThumbnail },
+        }],
+        'direct'
       );
-      expect(mockUploadThumbnail).toHaveBeenCalledWith(
-        expect.any(Blob),
-        expect.any(Function),
-        'test-audio.jpg'
+    });
+
+    it('should queue without the thumbnail when processing fails', async () => {
+      const consoleSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+      mockProcessThumbnailForUpload.mockRejectedValue(new Error('Thumbnail processing failed'));
+
+      const { result } = renderHook(() => useUploadManager());
+
+      await act(async () => {
+        await result.current.uploadFile(mockFile);
+      });
+
+      expect(consoleSpy).toHaveBeenCalledWith('Error processing thumbnail:', expect.any(Error));
+      expect(mockEnqueue).toHaveBeenCalledWith(
+        [{ fileId: mockFile.id, fileName: 'test-audio.mp3', file: mockFile.file }],
+        'direct'
       );
-      expect(mockSetUploadProgress).toHaveBeenCalledWith(mockFile.id, { status: 'success', progress: 1 });
+
+      consoleSpy.mockRestore();
+    });
+
+    it('should skip thumbnails without file data', async () => {
+      mockCombinedFiles([mockFile], { 'test-audio': { ...mockThumbnail, file: null } as unknown as FileRecord });
+
+      const { result } = renderHook(() => useUploadManager());
+
+      await act(async () => {
+        await result.current.uploadFile(mockFile);
+      });
+
+      expect(mockProcessThumbnailForUpload).not.toHaveBeenCalled();
+      expect(mockEnqueue.mock.calls[0][0][0].thumbnail).toBeUndefined();
     });
 
-    it('should handle upload progress correctly', async () => {
+    it('should queue with the pull request publish mode from settings', async () => {
+      mockUseSettingsStore.mockReturnValue({
+        appSettings: { path: 'media/', thumbnailPath: 'thumbnails/', publishMode: 'pullRequest' },
+      });
+
       const { result } = renderHook(() => useUploadManager());
 
       await act(async () => {
         await result.current.uploadFile(mockFile);
       });
 
-      // Should have been called with progress updates
-      expect(mockSetUploadProgress).toHaveBeenCalledWith(mockFile.id, { status: 'uploading', progress: 0 });
-      expect(mockSetUploadProgress).toHaveBeenCalledWith(mockFile.id, { status: 'uploading', progress: 0.35 }); // 0.5 * 0.7
-      expect(mockSetUploadProgress).toHaveBeenCalledWith(mockFile.id, { status: 'uploading', progress: 0.7 }); // 1 * 0.7
-      expect(mockSetUploadProgress).toHaveBeenCalledWith(mockFile.id, { status: 'success', progress: 1 });
+      expect(mockEnqueue).toHaveBeenCalledWith(expect.any(Array), 'pullRequest');
     });
 
-    it('should handle file without file data', async () => {
-      const fileWithoutData = { ...mockFile, file: null };
+    it('should alert when the file has no data', async () => {
+      const fileWithoutData = { ...mockFile, file: null } as unknown as FileRecord;
+
       const { result } = renderHook(() => useUploadManager());
 
       await act(async () => {
@@ -209,14 +239,13 @@ describe('useUploadManager', () => {
       expect(mockOpenModal).toHaveBeenCalledWith({
         type: 'alert',
         message: 'File data not available for upload.',
-        title: 'Upload Error'
+        title: 'Upload Error',
       });
-      expect(mockUploadFile).not.toHaveBeenCalled();
+      expect(mockEnqueue).not.toHaveBeenCalled();
     });
 
-    it('should handle upload errors', async () => {
-      const errorMessage = 'Upload failed';
-      mockUploadFile.mockRejectedValue(new Error(errorMessage));
+    it('should mark files as failed when they cannot be queued', async () => {
+      mockEnqueue.mockRejectedValue(new Error('QuotaExceededError'));
 
       const { result } = renderHook(() => useUploadManager());
 
@@ -227,13 +256,12 @@ describe('useUploadManager', () => {
       expect(mockSetUploadProgress).toHaveBeenCalledWith(mockFile.id, {
         status: 'error',
         progress: 0,
-        error: errorMessage
+        error: 'QuotaExceededError',
       });
     });
 
-    it('should handle thumbnail processing errors gracefully', async () => {
-      mockProcessThumbnailForUpload.mockRejectedValue(new Error('Thumbnail processing failed'));
-      const consoleSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+    it('should handle non-Error exceptions when queueing', async () => {
+      mockEnqueue.mockRejectedValue('String error');
 
       const { result } = renderHook(() => useUploadManager());
 
@@ -241,258 +269,366 @@ describe('useUploadManager', () => {
         await result.current.uploadFile(mockFile);
       });
 
-      expect(consoleSpy).toHaveBeenCalledWith('Error processing thumbnail:', expect.any(Error));
-      expect(mockUploadFile).toHaveBeenCalled();
-      expect(mockUploadThumbnail).not.toHaveBeenCalled();
-      expect(mockSetUploadProgress).toHaveBeenCalledWith(mockFile.id, { status: 'success', progress: 1 });
+      expect(mockSetUploadProgress).toHaveBeenCalledWith(mockFile.id, {
+        status: 'error',
+        progress: 0,
+        error: 'Upload failed',
+      });
+    });
+  });
 
-      consoleSpy.mockRestore();
+  describe('Repository Check', () => {
+    const check = (canUpload: boolean) => ({
+      target: 'test-owner/test-repo@main',
+      items: [
+        { id: 'repository' as const, label: 'Repository test-owner/test-repo', status: 'ok' as const },
+        canUpload
+          ? { id: 'push' as const, label: 'Permission to push', status: 'ok' as const }
+          : { id: 'push' as const, label: 'Permission to push', status: 'failed' as const, detail: 'The token can read this repository but not write to it' },
+        { id: 'mediaFolder' as const, label: 'Media folder', status: 'missing' as const },
+      ],
+      canUpload,
+      defaultBranch: 'main',
+      checkedAt: 1759752000000,
+    });
+
+    beforeEach(() => {
+      mockRepositoryCheckTarget.mockReturnValue('test-owner/test-repo@main');
     });
 
-    it('should cleanup after successful upload', async () => {
+    it('should check the repository before the first upload', async () => {
+      mockCheckRepositoryAccess.mockResolvedValue(check(true));
+
       const { result } = renderHook(() => useUploadManager());
 
       await act(async () => {
         await result.current.uploadFile(mockFile);
       });
 
-      // Advance timers to trigger the initial cleanup timeout
-      await act(async () => {
-        jest.advanceTimersByTime(4000);
-        // Also advance nested timeouts from refreshWithRetry
-        jest.advanceTimersByTime(1500);
-        jest.advanceTimersByTime(3000);
+      expect(mockSetRepositoryCheck).toHaveBeenCalledWith(check(true));
+      expect(mockEnqueue).toHaveBeenCalled();
+    });
+
+    it('should not check again once the repository passed', async () => {
+      mockUseSettingsStore.mockReturnValue({
+        appSettings: null,
+        repositoryCheck: check(true),
+        setRepositoryCheck: mockSetRepositoryCheck,
       });
 
-      await waitFor(() => {
-        expect(mockRemoveFile).toHaveBeenCalledWith(mockFile.id);
+      const { result } = renderHook(() => useUploadManager());
+
+      await act(async () => {
+        await result.current.uploadFile(mockFile);
       });
 
-      expect(mockInvalidateCache).toHaveBeenCalled();
-      expect(mockForceRefreshFiles).toHaveBeenCalled();
-      expect(mockLoadFilesWithThumbnails).toHaveBeenCalled();
+      expect(mockCheckRepositoryAccess).not.toHaveBeenCalled();
+      expect(mockEnqueue).toHaveBeenCalled();
     });
 
-    it('should cleanup local thumbnail after upload', async () => {
+    it('should refuse to queue when the token cannot push', async () => {
+      mockCheckRepositoryAccess.mockResolvedValue(check(false));
+
       const { result } = renderHook(() => useUploadManager());
 
       await act(async () => {
         await result.current.uploadFile(mockFile);
       });
 
-      // Fast-forward to trigger cleanup
-      act(() => {
-        jest.advanceTimersByTime(4000);
+      expect(mockOpenModal).toHaveBeenCalledWith({
+        type: 'alert',
+        title: 'Repository Not Ready',
+        message: 'Permission to push: The token can read this repository but not write to it. Open Settings to review the repository check.',
       });
+      expect(mockEnqueue).not.toHaveBeenCalled();
+    });
+
+    it('should check the repository of the profile a file was recorded for', async () => {
+      mockUseSettingsStore.mockReturnValue({
+        appSettings: null,
+        activeProfileId: 'podcast',
+        profiles: [{ id: 'lectures', name: 'Lectures', settings: {} }],
+        repositoryCheck: { ...check(true), target: 'test-owner/test-repo@main' },
+        setRepositoryCheck: mockSetRepositoryCheck,
+      });
+      mockRepositoryCheckTarget.mockImplementation(profileId => profileId === 'lectures' ? 'test-owner/lectures@main' : 'test-owner/test-repo@main');
+      mockCheckRepositoryAccess.mockResolvedValue({ ...check(false), target: 'test-owner/lectures@main' });
 
-      await waitFor(() => {
-        expect(mockRemoveFile).toHaveBeenCalledWith(mockFile.id);
-        expect(mockRemoveFile).toHaveBeenCalledWith(mockThumbnail.id);
+      const { result } = renderHook(() => useUploadManager());
+      await act(async () => {
+        await result.current.uploadFile({ ...mockFile, profileId: 'lectures' });
       });
+
+      expect(mockCheckRepositoryAccess).toHaveBeenCalledWith('lectures');
+      // Settings shows the check of the active profile
+      expect(mockSetRepositoryCheck).not.toHaveBeenCalled();
+      expect(mockOpenModal).toHaveBeenCalledWith(expect.objectContaining({
+        title: 'Repository Not Ready',
+        message: expect.stringContaining('"Lectures" profile'),
+      }));
+      expect(mockEnqueue).not.toHaveBeenCalled();
     });
-  });
 
-  describe('Retry Upload', () => {
-    it('should retry upload for failed files', async () => {
+    it('should queue anyway when the check cannot run', async () => {
+      mockCheckRepositoryAccess.mockRejectedValue(new TypeError('Failed to fetch'));
+      const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+
       const { result } = renderHook(() => useUploadManager());
 
       await act(async () => {
-        await result.current.retryUpload(mockFile);
+        await result.current.uploadFile(mockFile);
       });
 
-      expect(mockUploadFile).toHaveBeenCalledWith(
-        mockFile.file,
-        expect.any(Function),
-        mockFile.name
-      );
-      expect(mockSetUploadProgress).toHaveBeenCalledWith(mockFile.id, { status: 'success', progress: 1 });
+      expect(mockSetRepositoryCheck).not.toHaveBeenCalled();
+      expect(mockEnqueue).toHaveBeenCalled();
+      warn.mockRestore();
     });
   });
 
-  describe('Refresh and Retry Logic', () => {
-    it('should handle refresh with retry', async () => {
-      // Mock file that doesn't appear in the list after upload
-      mockUseCombinedFiles.mockReturnValue({
-        files: [], // Empty to simulate file not appearing
-        thumbnails: {},
-        removeFile: mockRemoveFile,
-        setUploadProgress: mockSetUploadProgress,
-        forceRefreshFiles: mockForceRefreshFiles,
-        loadFilesWithThumbnails: mockLoadFilesWithThumbnails,
-      });
+  describe('Upload Selected', () => {
+    const secondFile = { ...mockFile, id: 'test-file-2', name: 'second.mp3' } as FileRecord;
+
+    it('should queue all selected files together', async () => {
+      mockCombinedFiles([mockFile, secondFile], { 'test-audio': mockThumbnail });
 
       const { result } = renderHook(() => useUploadManager());
 
       await act(async () => {
-        await result.current.uploadFile(mockFile);
+        await result.current.uploadSelected([mockFile, secondFile]);
       });
 
-      // Advance timers to trigger refresh retry with nested timeouts
+      expect(mockEnqueue).toHaveBeenCalledTimes(1);
+      const [jobs] = mockEnqueue.mock.calls[0];
+      expect(jobs.map(job => job.fileName)).toEqual(['test-audio.mp3', 'second.mp3']);
+      expect(jobs[0].thumbnail?.fileName).toBe('test-audio.jpg');
+      expect(jobs[1].thumbnail).toBeUndefined();
+    });
+
+    it('should leave out selected files without data', async () => {
+      const { result } = renderHook(() => useUploadManager());
+
       await act(async () => {
-        jest.advanceTimersByTime(4000); // Initial cleanup timeout
-        jest.advanceTimersByTime(1500); // Initial check delay
-        jest.advanceTimersByTime(3000); // Retry delay
+        await result.current.uploadSelected([mockFile, { ...secondFile, file: null } as unknown as FileRecord]);
       });
 
-      expect(mockInvalidateCache).toHaveBeenCalled();
-      expect(mockForceRefreshFiles).toHaveBeenCalled();
-      expect(mockLoadFilesWithThumbnails).toHaveBeenCalled();
+      expect(mockEnqueue.mock.calls[0][0].map(job => job.fileId)).toEqual([mockFile.id]);
     });
 
-    it('should handle refresh errors gracefully', async () => {
-      const consoleSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
-      mockForceRefreshFiles.mockRejectedValue(new Error('Refresh failed'));
+    it('should mark every file as failed when queueing fails', async () => {
+      mockEnqueue.mockRejectedValue(new Error('Storage unavailable'));
 
       const { result } = renderHook(() => useUploadManager());
 
       await act(async () => {
-        await result.current.uploadFile(mockFile);
+        await result.current.uploadSelected([mockFile, secondFile]);
       });
 
-      // Fast-forward to trigger refresh
-      act(() => {
-        jest.advanceTimersByTime(4000);
-      });
+      expect(mockSetUploadProgress).toHaveBeenCalledWith(mockFile.id, expect.objectContaining({ status: 'error' }));
+      expect(mockSetUploadProgress).toHaveBeenCalledWith(secondFile.id, expect.objectContaining({ status: 'error' }));
+    });
 
-      await waitFor(() => {
-        expect(consoleSpy).toHaveBeenCalledWith('Failed to refresh files:', expect.any(Error));
+    it('should alert when no selected file has data', async () => {
+      const { result } = renderHook(() => useUploadManager());
+
+      await act(async () => {
+        await result.current.uploadSelected([{ ...mockFile, file: null } as unknown as FileRecord]);
       });
 
-      consoleSpy.mockRestore();
+      expect(mockOpenModal).toHaveBeenCalledWith(expect.objectContaining({ type: 'alert', title: 'Upload Error' }));
+      expect(mockEnqueue).not.toHaveBeenCalled();
     });
+  });
 
-    it('should handle cleanup errors gracefully', async () => {
-      const consoleSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
-      mockRemoveFile.mockRejectedValue(new Error('Cleanup failed'));
+  describe('Name Collisions', () => {
+    const mockFetchRemoteFiles = jest.fn();
+    const existingFile = { id: 'remote-abc', name: 'test-audio.mp3', path: 'media/test-audio.mp3' } as FileRecord;
+
+    beforeEach(() => {
+      mockUseSettingsStore.mockReturnValue({
+        appSettings: { repo: 'repo', branch: 'main', path: 'media', thumbnailPath: 'thumbnails/', thumbnailWidth: 320, thumbnailHeight: 240 },
+        repositoryCheck: null,
+        setRepositoryCheck: mockSetRepositoryCheck,
+      });
+      mockFetchRemoteFiles.mockResolvedValue(undefined);
+      mockGitState.mockReturnValue({
+        fetchRemoteFiles: mockFetchRemoteFiles,
+        remoteFiles: [existingFile],
+        remoteThumbnails: { 'test-audio': { url: 'thumbnails/test-audio.jpg', isLocal: false } },
+      } as unknown as ReturnType<typeof useGitStore.getState>);
+    });
 
+    // Start an upload and answer the collision dialog with one of its callbacks
+    const uploadAndChoose = async (choice: 'onConfirm' | 'onAlternative' | 'onCancel') => {
       const { result } = renderHook(() => useUploadManager());
-
+      let upload: Promise<void> = Promise.resolve();
       await act(async () => {
-        await result.current.uploadFile(mockFile);
+        upload = result.current.uploadFile(mockFile);
+        await new Promise(resolve => setTimeout(resolve, 0));
+      });
+      expect(mockOpenModal).toHaveBeenCalledWith(expect.objectContaining({
+        type: 'confirm',
+        title: 'File Already Exists',
+        confirmText: 'Overwrite',
+        alternativeText: 'Keep both',
+        cancelText: 'Cancel',
+      }));
+      await act(async () => {
+        mockOpenModal.mock.calls[0][0][choice]();
+        await upload;
       });
+    };
 
-      // Fast-forward to trigger cleanup
-      act(() => {
-        jest.advanceTimersByTime(4000);
-      });
+    it('should queue directly when nothing collides', async () => {
+      mockGitState.mockReturnValue({
+        fetchRemoteFiles: mockFetchRemoteFiles,
+        remoteFiles: [],
+        remoteThumbnails: {},
+      } as unknown as ReturnType<typeof useGitStore.getState>);
 
-      await waitFor(() => {
-        expect(consoleSpy).toHaveBeenCalledWith('Failed to clean up local file after upload:', expect.any(Error));
+      const { result } = renderHook(() => useUploadManager());
+      await act(async () => {
+        await result.current.uploadFile(mockFile);
       });
 
-      consoleSpy.mockRestore();
+      expect(mockFetchRemoteFiles).toHaveBeenCalled();
+      expect(mockOpenModal).not.toHaveBeenCalled();
+      expect(mockEnqueue).toHaveBeenCalled();
     });
-  });
 
-  describe('State Freshness', () => {
-    it('should always return fresh files and thumbnails state', () => {
-      const { result, rerender } = renderHook(() => useUploadManager());
+    it('should overwrite the existing file and thumbnail when chosen', async () => {
+      await uploadAndChoose('onConfirm');
 
-      expect(result.current.getCurrentFiles()).toEqual([mockFile]);
+      const [jobs] = mockEnqueue.mock.calls[0];
+      expect(jobs[0].fileName).toBe('test-audio.mp3');
+      expect(jobs[0].thumbnail?.fileName).toBe('test-audio.jpg');
+    });
 
-      // Update mocked state
-      const newFile = { ...mockFile, id: 'test-file-2' };
-      mockUseCombinedFiles.mockReturnValue({
-        files: [newFile],
-        thumbnails: {},
-        removeFile: mockRemoveFile,
-        setUploadProgress: mockSetUploadProgress,
-        forceRefreshFiles: mockForceRefreshFiles,
-        loadFilesWithThumbnails: mockLoadFilesWithThumbnails,
-      });
+    it('should keep both by numbering the new file and thumbnail', async () => {
+      await uploadAndChoose('onAlternative');
 
-      rerender();
+      expect(mockOpenModal.mock.calls[0][0].message).toContain('"test-audio (2).mp3"');
+      const [jobs] = mockEnqueue.mock.calls[0];
+      expect(jobs[0].fileName).toBe('test-audio (2).mp3');
+      expect(jobs[0].thumbnail?.fileName).toBe('test-audio (2).jpg');
+    });
 
-      expect(result.current.getCurrentFiles()).toEqual([newFile]);
+    it('should not queue anything when cancelled', async () => {
+      await uploadAndChoose('onCancel');
+
+      expect(mockEnqueue).not.toHaveBeenCalled();
+      expect(mockSetUploadProgress).not.toHaveBeenCalled();
     });
 
-    it('should check for uploaded files correctly', () => {
-      const uploadedFile = { ...mockFile, isLocal: false, uploaded: true };
-      mockUseCombinedFiles.mockReturnValue({
-        files: [uploadedFile],
-        thumbnails: {},
-        removeFile: mockRemoveFile,
-        setUploadProgress: mockSetUploadProgress,
-        forceRefreshFiles: mockForceRefreshFiles,
-        loadFilesWithThumbnails: mockLoadFilesWithThumbnails,
+    describe('for files recorded under another profile', () => {
+      const lecturesFile = { ...mockFile, profileId: 'lectures' } as FileRecord;
+
+      beforeEach(() => {
+        mockUseSettingsStore.mockReturnValue({
+          appSettings: { repo: 'repo', branch: 'main', path: 'media', thumbnailPath: 'thumbnails/', thumbnailWidth: 320, thumbnailHeight: 240 },
+          activeProfileId: 'podcast',
+          profiles: [{ id: 'lectures', name: 'Lectures', settings: { repo: 'lectures', branch: 'main', path: 'talks/', thumbnailPath: 'covers/', thumbnailWidth: 320, thumbnailHeight: 240 } }],
+          repositoryCheck: null,
+          setRepositoryCheck: mockSetRepositoryCheck,
+        });
       });
 
-      const { result } = renderHook(() => useUploadManager());
+      it('should check against the repository of that profile', async () => {
+        mockFetchRepositoryPaths.mockResolvedValue(new Set(['talks/test-audio.mp3']));
 
-      // Access the internal checkForUploadedFile logic through getCurrentFiles
-      const files = result.current.getCurrentFiles();
-      const uploadedFiles = files.filter(f => 
-        f.name === mockFile.name && !f.isLocal && f.uploaded
-      );
+        const { result } = renderHook(() => useUploadManager());
+        await act(async () => {
+          void result.current.uploadFile(lecturesFile);
+          await new Promise(resolve => setTimeout(resolve, 0));
+        });
 
-      expect(uploadedFiles.length).toBe(1);
-    });
-  });
+        expect(mockFetchRepositoryPaths).toHaveBeenCalledWith('lectures');
+        expect(mockFetchRemoteFiles).not.toHaveBeenCalled();
+        expect(mockOpenModal).toHaveBeenCalledWith(expect.objectContaining({ title: 'File Already Exists' }));
+      });
 
-  describe('Edge Cases', () => {
-    it('should handle non-Error exceptions in upload', async () => {
-      mockUploadFile.mockRejectedValue('String error');
+      it('should not ask about a same-named file in the active repository', async () => {
+        mockFetchRepositoryPaths.mockResolvedValue(new Set());
 
-      const { result } = renderHook(() => useUploadManager());
+        const { result } = renderHook(() => useUploadManager());
+        await act(async () => {
+          await result.current.uploadFile(lecturesFile);
+        });
 
-      await act(async () => {
-        await result.current.uploadFile(mockFile);
+        expect(mockOpenModal).not.toHaveBeenCalled();
+        expect(mockEnqueue).toHaveBeenCalledWith([expect.objectContaining({ profileId: 'lectures', fileName: 'test-audio.mp3' })], 'direct');
       });
 
-      expect(mockSetUploadProgress).toHaveBeenCalledWith(mockFile.id, {
-        status: 'error',
-        progress: 0,
-        error: 'Upload failed'
+      it('should fall back to the cached listing of that profile', async () => {
+        const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+        mockFetchRepositoryPaths.mockRejectedValue(new Error('Failed to fetch'));
+        mockGitState.mockReturnValue({
+          fetchRemoteFiles: mockFetchRemoteFiles,
+          remoteFiles: [],
+          remoteThumbnails: {},
+          profileCaches: { lectures: { remoteFiles: [{ ...existingFile, path: 'talks/test-audio.mp3' }], remoteThumbnails: {} } },
+        } as unknown as ReturnType<typeof useGitStore.getState>);
+
+        const { result } = renderHook(() => useUploadManager());
+        await act(async () => {
+          void result.current.uploadFile(lecturesFile);
+          await new Promise(resolve => setTimeout(resolve, 0));
+        });
+
+        expect(mockOpenModal).toHaveBeenCalledWith(expect.objectContaining({ title: 'File Already Exists' }));
+        warn.mockRestore();
       });
     });
 
-    it('should handle missing thumbnail file', async () => {
-      const thumbnailWithoutFile = { ...mockThumbnail, file: null };
-      mockUseCombinedFiles.mockReturnValue({
-        files: [mockFile],
-        thumbnails: { 'test-audio': thumbnailWithoutFile },
-        removeFile: mockRemoveFile,
-        setUploadProgress: mockSetUploadProgress,
-        forceRefreshFiles: mockForceRefreshFiles,
-        loadFilesWithThumbnails: mockLoadFilesWithThumbnails,
-      });
+    it('should check against the cached listing when the refresh fails', async () => {
+      const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+      mockFetchRemoteFiles.mockRejectedValue(new Error('Failed to fetch'));
+
+      await uploadAndChoose('onCancel');
+
+      expect(mockEnqueue).not.toHaveBeenCalled();
+      warn.mockRestore();
+    });
+  });
 
+  describe('Retry Upload', () => {
+    it('should retry the queued job for a failed file', async () => {
       const { result } = renderHook(() => useUploadManager());
 
       await act(async () => {
-        await result.current.uploadFile(mockFile);
+        await result.current.retryUpload(mockFile);
       });
 
-      expect(mockProcessThumbnailForUpload).not.toHaveBeenCalled();
-      expect(mockUploadThumbnail).not.toHaveBeenCalled();
-      expect(mockSetUploadProgress).toHaveBeenCalledWith(mockFile.id, { status: 'success', progress: 1 });
+      expect(mockRetry).toHaveBeenCalledWith(mockFile.id);
+      expect(mockEnqueue).not.toHaveBeenCalled();
     });
 
-    it('should handle thumbnail cleanup errors gracefully', async () => {
-      const consoleSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
-      mockRemoveFile.mockImplementation((id) => {
-        if (id === mockThumbnail.id) {
-          throw new Error('Thumbnail cleanup failed');
-        }
-        return Promise.resolve();
-      });
+    it('should queue the file again when it has no job', async () => {
+      mockRetry.mockResolvedValue(false);
 
       const { result } = renderHook(() => useUploadManager());
 
       await act(async () => {
-        await result.current.uploadFile(mockFile);
+        await result.current.retryUpload(mockFile);
       });
 
-      // Fast-forward to trigger cleanup
-      act(() => {
-        jest.advanceTimersByTime(4000);
-      });
+      expect(mockEnqueue).toHaveBeenCalledWith([expect.objectContaining({ fileId: mockFile.id })], 'direct');
+    });
+  });
 
-      await waitFor(() => {
-        expect(consoleSpy).toHaveBeenCalledWith('Failed to clean up local thumbnail:', expect.any(Error));
-      });
+  describe('State Freshness', () => {
+    it('should always return fresh files and thumbnails state', () => {
+      const { result, rerender } = renderHook(() => useUploadManager());
 
-      consoleSpy.mockRestore();
+      expect(result.current.getCurrentFiles()).toEqual([mockFile]);
+
+      // Update mocked state
+      const newFile = { ...mockFile, id: 'test-file-2' };
+      mockCombinedFiles([newFile], {});
+
+      rerender();
+
+      expect(result.current.getCurrentFiles()).toEqual([newFile]);
+      expect(result.current.getCurrentThumbnails()).toEqual({});
     });
   });
-});
\ No newline at end of file
+});
@@ -0,0 +1,115 @@
+// Tests for Base64WorkerService
+
+import type { Base64EncodingMessage, Base64EncodingResponse } from '../../src/types/workers';
+
+jest.mock('../../src/utils/base64Stream', () => ({
+  composeBase64JsonBlob: jest.fn(),
+}));
+
+describe('Base64WorkerService', () => {
+  let base64WorkerService: typeof import('../../src/services/base64WorkerService').base64WorkerService;
+  let mockCompose: jest.Mock;
+  let mockWorker: {
+    postMessage: jest.Mock;
+    terminate: jest.Mock;
+    onmessage: ((event: MessageEvent<Base64EncodingResponse>) => void) | null;
+    onerror: ((error: ErrorEvent) => void) | null;
+  };
+  let originalWorker: typeof Worker;
+
+  beforeAll(() => {
+    originalWorker = global.Worker;
+  });
+
+  beforeEach(() => {
+    // Fresh import to reset singleton state
+    jest.resetModules();
+    base64WorkerService = require('../../src/services/base64WorkerService').base64WorkerService;
+    mockCompose = require('../../src/utils/base64Stream').composeBase64JsonBlob;
+
+    mockWorker = {
+      postMessage: jest.fn(),
+      terminate: jest.fn(),
+      onmessage: null,
+      onerror: null,
+    };
+    global.Worker = jest.fn().mockImplementation(() => mockWorker);
+  });
+
+  afterAll(() => {
+    global.Worker = originalWorker;
+  });
+
+  const lastMessage = (): Base64EncodingMessage => mockWorker.postMessage.mock.calls.at(-1)[0];
+  const reply = (response: Base64EncodingResponse) =>
+    mockWorker.onmessage!({ data: response } as MessageEvent<Base64EncodingResponse>);
+
+  it('sends the file to the worker and resolves with its body', async () => {
+    const file = new Blob(['audio']);
+    const body = new Blob(['{"content":"YXVkaW8="}']);
+
+    const promise = base64WorkerService.encodeJsonBody(file, '{"content":"', '"}');
+    const message = lastMessage();
+    reply({ type: 'encoding-complete', id: message.id, data: body });
+
+    await expect(promise).resolves.toBe(body);
+    expect(message).toEqual({
+      type: 'encode-json-body',
+      id: expect.stringMatching(/^encode-/),
+      data: { file, prefix: '{"content":"', suffix: '"}' },
+    });
+    expect(global.Worker).toHaveBeenCalledTimes(1);
+  });
+
+  it('reuses one worker across encodings', async () => {
+    const first = base64WorkerService.encodeJsonBody(new Blob(['a']), '', '');
+    reply({ type: 'encoding-complete', id: lastMessage().id, data: new Blob(['a']) });
+    await first;
+
+    const second = base64WorkerService.encodeJsonBody(new Blob(['b']), '', '');
+    reply({ type: 'encoding-complete', id: lastMessage().id, data: new Blob(['b']) });
+    await second;
+
+    expect(global.Worker).toHaveBeenCalledTimes(1);
+  });
+
+  it('rejects when the worker reports an error', async () => {
+    const promise = base64WorkerService.encodeJsonBody(new Blob(['audio']), '', '');
+    reply({ type: 'error', id: lastMessage().id, error: 'Read failed' });
+
+    await expect(promise).rejects.toThrow('Read failed');
+  });
+
+  it('rejects pending encodings and restarts the worker after a crash', async () => {
+    const errorSpy = jest.spyOn(console, 'error').mockImplementation();
+    const promise = base64WorkerService.encodeJsonBody(new Blob(['audio']), '', '');
+    mockWorker.onerror!({} as ErrorEvent);
+
+    await expect(promise).rejects.toThrow('Base64 worker failed');
+    expect(mockWorker.terminate).toHaveBeenCalled();
+
+    base64WorkerService.encodeJsonBody(new Blob(['audio']), '', '');
+    expect(global.Worker).toHaveBeenCalledTimes(2);
+    errorSpy.mockRestore();
+  });
+
+  it('encodes on the main thread when workers are unavailable', async () => {
+    // @ts-expect-error - simulating an environment without Web Workers
+    delete global.Worker;
+    const body = new Blob(['{}']);
+    mockCompose.mockResolvedValue(body);
+    const file = new Blob(['audio']);
+
+    await expect(base64WorkerService.encodeJsonBody(file, '{', '}')).resolves.toBe(body);
+    expect(mockCompose).toHaveBeenCalledWith(file, '{', '}');
+  });
+
+  it('rejects pending encodings on destroy', async () => {
+    const promise = base64WorkerService.encodeJsonBody(new Blob(['audio']), '', '');
+
+    base64WorkerService.destroy();
+
+    await expect(promise).rejects.toThrow('Service destroyed');
+    expect(mockWorker.terminate).toHaveBeenCalled();
+  });
+});
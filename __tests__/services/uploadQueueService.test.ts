@@ -0,0 +1,441 @@
+// Tests for UploadQueueService
+
+import type { NewUploadJob, UploadJob } from '../../src/types';
+
+jest.mock('../../src/utils/uploadUtils', () => ({
+  getUploadConfig: jest.fn(() => ({ token: 'test-token', owner: 'test-owner', repo: 'test-repo' })),
+  uploadFilesBatch: jest.fn(),
+  uploadFilesAsPullRequest: jest.fn(),
+}));
+
+const mockSetUploadProgress = jest.fn();
+const mockRemoveFile = jest.fn();
+const mockRefreshFiles = jest.fn();
+let mockFiles: Array<{ name: string; isLocal: boolean; uploaded?: boolean }> = [];
+
+jest.mock('../../src/stores/filesStore', () => ({
+  useFilesStore: {
+    getState: jest.fn(() => ({
+      setUploadProgress: mockSetUploadProgress,
+      removeFile: mockRemoveFile,
+      refreshFiles: mockRefreshFiles,
+      files: mockFiles,
+    })),
+  },
+}));
+
+const mockInvalidateCache = jest.fn();
+const mockAddPendingPullRequest = jest.fn();
+
+jest.mock('../../src/utils/backgroundSync', () => ({
+  registerUploadSync: jest.fn(),
+}));
+
+jest.mock('../../src/utils/rateLimit', () => ({
+  rateLimitWait: jest.fn(),
+  rateLimitMessage: jest.fn(() => 'GitHub API rate limit reached, paused until 14:05'),
+}));
+
+jest.mock('../../src/utils/tokenAuth', () => ({
+  isPassphraseEnabled: jest.fn(() => false),
+}));
+
+jest.mock('../../src/stores/gitStore', () => ({
+  useGitStore: {
+    getState: jest.fn(() => ({
+      invalidateCache: mockInvalidateCache,
+      addPendingPullRequest: mockAddPendingPullRequest,
+    })),
+  },
+}));
+
+import { getUploadConfig, uploadFilesBatch, uploadFilesAsPullRequest } from '../../src/utils/uploadUtils';
+import { registerUploadSync } from '../../src/utils/backgroundSync';
+import { rateLimitWait } from '../../src/utils/rateLimit';
+import { isPassphraseEnabled } from '../../src/utils/tokenAuth';
+import {
+  completeUploadJobs,
+  enqueueUploadJobs,
+  listUploadJobs,
+  removeUploadJobs,
+  takeCompletedUploads,
+  updateUploadJobs,
+} from '../../src/utils/uploadQueue';
+
+const mockGetUploadConfig = getUploadConfig as jest.MockedFunction<typeof getUploadConfig>;
+const mockUploadFilesBatch = uploadFilesBatch as jest.MockedFunction<typeof uploadFilesBatch>;
+const mockUploadFilesAsPullRequest = uploadFilesAsPullRequest as jest.MockedFunction<typeof uploadFilesAsPullRequest>;
+const mockRegisterUploadSync = registerUploadSync as jest.MockedFunction<typeof registerUploadSync>;
+const mockRateLimitWait = rateLimitWait as jest.MockedFunction<typeof rateLimitWait>;
+
+const newJob = (fileId: string, withThumbnail = false): NewUploadJob => ({
+  fileId,
+  fileName: `${fileId}.mp3`,
+  file: new Blob([fileId], { type: 'audio/mp3' }),
+  thumbnail: withThumbnail ? { fileName: `${fileId}.jpg`, file: new Blob(['thumb']) } : undefined,
+});
+
+const uploadedNames = (call: number) =>
+  mockUploadFilesBatch.mock.calls[call][0].map(item => `${item.pathType}:${item.fileName}`);
+
+describe('UploadQueueService', () => {
+  let uploadQueueService: typeof import('../../src/services/uploadQueueService').uploadQueueService;
+  let onLineSpy: jest.SpyInstance;
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    // IndexedDB callbacks run on setImmediate, which has to stay real
+    jest.useFakeTimers({ doNotFake: ['setImmediate', 'queueMicrotask', 'nextTick'] });
+    mockFiles = [];
+    onLineSpy = jest.spyOn(navigator, 'onLine', 'get').mockReturnValue(true);
+    mockUploadFilesBatch.mockResolvedValue(undefined);
+    mockRefreshFiles.mockResolvedValue(undefined);
+    mockRegisterUploadSync.mockResolvedValue(true);
+    mockRateLimitWait.mockReturnValue(0);
+
+    const jobs = await listUploadJobs();
+    await removeUploadJobs(jobs.map(job => job.id));
+    await takeCompletedUploads();
+
+    // Fresh import to reset singleton state
+    jest.isolateModules(() => {
+      uploadQueueService = require('../../src/services/uploadQueueService').uploadQueueService;
+    });
+  });
+
+  afterEach(() => {
+    uploadQueueService.destroy();
+    onLineSpy.mockRestore();
+    jest.useRealTimers();
+  });
+
+  it('commits a queued file with its thumbnail and removes the job', async () => {
+    await uploadQueueService.enqueue([newJob('a', true)], 'direct');
+
+    expect(uploadedNames(0)).toEqual(['media:a.mp3', 'thumbnail:a.jpg']);
+    expect(await listUploadJobs()).toEqual([]);
+    expect(mockSetUploadProgress).toHaveBeenCalledWith('a', { status: 'queued', progress: 0 });
+    expect(mockSetUploadProgress).toHaveBeenCalledWith('a', { status: 'uploading', progress: 0 });
+    expect(mockSetUploadProgress).toHaveBeenLastCalledWith('a', { status: 'success', progress: 1 });
+  });
+
+  it('reports upload progress for every file in the batch', async () => {
+    const transfer = { bytesSent: 1, totalBytes: 2, bytesPerSecond: 1, secondsRemaining: 1 };
+    mockUploadFilesBatch.mockImplementation(async (_items, onProgress) => {
+      onProgress?.(0.5, transfer);
+    });
+
+    await uploadQueueService.enqueue([newJob('a'), newJob('b')], 'direct');
+
+    expect(mockUploadFilesBatch).toHaveBeenCalledTimes(1);
+    expect(uploadedNames(0)).toEqual(['media:a.mp3', 'media:b.mp3']);
+    expect(mockSetUploadProgress).toHaveBeenCalledWith('a', { status: 'uploading', progress: 0.5, transfer });
+    expect(mockSetUploadProgress).toHaveBeenCalledWith('b', { status: 'uploading', progress: 0.5, transfer });
+  });
+
+  it('processes batches in the order they were queued', async () => {
+    await enqueueUploadJobs([newJob('a')], 'direct');
+    await enqueueUploadJobs([newJob('b')], 'direct');
+
+    await uploadQueueService.process();
+
+    expect(uploadedNames(0)).toEqual(['media:a.mp3']);
+    expect(uploadedNames(1)).toEqual(['media:b.mp3']);
+  });
+
+  it('opens a pull request for batches queued in pull request mode', async () => {
+    const pullRequest = {
+      number: 7, url: 'https://github.com/o/r/pull/7', branch: 'media/a.mp3', title: 'Add a.mp3', created: 1, files: [],
+    };
+    mockUploadFilesAsPullRequest.mockResolvedValue(pullRequest);
+
+    await uploadQueueService.enqueue([newJob('a')], 'pullRequest');
+
+    expect(mockUploadFilesBatch).not.toHaveBeenCalled();
+    expect(mockAddPendingPullRequest).toHaveBeenCalledWith(pullRequest, undefined);
+  });
+
+  it('retries failures with exponential backoff', async () => {
+    mockUploadFilesBatch
+      .mockRejectedValueOnce(new Error('Failed to create blob: 502'))
+      .mockRejectedValueOnce(new Error('Failed to create blob: 502'))
+      .mockResolvedValueOnce(undefined);
+
+    await uploadQueueService.enqueue([newJob('a')], 'direct');
+
+    let [job] = await listUploadJobs();
+    expect(job).toEqual(expect.objectContaining({ status: 'queued', attempts: 1, lastError: 'Failed to create blob: 502' }));
+    expect(mockSetUploadProgress).toHaveBeenLastCalledWith('a', {
+      status: 'queued', progress: 0, attempts: 1, error: 'Failed to create blob: 502',
+    });
+
+    // First retry after 5 seconds
+    await jest.advanceTimersByTimeAsync(4999);
+    expect(mockUploadFilesBatch).toHaveBeenCalledTimes(1);
+    await jest.advanceTimersByTimeAsync(1);
+    await uploadQueueService.process();
+    expect(mockUploadFilesBatch).toHaveBeenCalledTimes(2);
+
+    [job] = await listUploadJobs();
+    expect(job.attempts).toBe(2);
+
+    // Second retry waits twice as long
+    await jest.advanceTimersByTimeAsync(10000);
+    await uploadQueueService.process();
+    expect(mockUploadFilesBatch).toHaveBeenCalledTimes(3);
+    expect(await listUploadJobs()).toEqual([]);
+  });
+
+  it('holds later batches until the first one goes through', async () => {
+    mockUploadFilesBatch.mockRejectedValueOnce(new Error('Failed to update ref: 500'));
+    await enqueueUploadJobs([newJob('a')], 'direct');
+    await enqueueUploadJobs([newJob('b')], 'direct');
+
+    await uploadQueueService.process();
+
+    expect(mockUploadFilesBatch).toHaveBeenCalledTimes(1);
+    expect(uploadedNames(0)).toEqual(['media:a.mp3']);
+  });
+
+  it('marks a job failed after the last attempt and moves on', async () => {
+    const [job] = await enqueueUploadJobs([newJob('a')], 'direct');
+    await enqueueUploadJobs([newJob('b')], 'direct');
+    await updateUploadJobs([{ ...job, attempts: 5 }]);
+    mockUploadFilesBatch.mockRejectedValueOnce(new Error('Failed to create blob: 403'));
+
+    await uploadQueueService.process();
+
+    const jobs = await listUploadJobs();
+    expect(jobs).toEqual([expect.objectContaining({ fileId: 'a', status: 'failed', attempts: 6 })]);
+    expect(mockSetUploadProgress).toHaveBeenCalledWith('a', { status: 'error', progress: 0, error: 'Failed to create blob: 403' });
+    expect(uploadedNames(1)).toEqual(['media:b.mp3']);
+  });
+
+  it('retries a failed job from scratch', async () => {
+    const [job] = await enqueueUploadJobs([newJob('a')], 'direct');
+    await updateUploadJobs([{ ...job, status: 'failed', attempts: 6 }]);
+
+    await expect(uploadQueueService.retry('a')).resolves.toBe(true);
+
+    expect(uploadedNames(0)).toEqual(['media:a.mp3']);
+    await expect(uploadQueueService.retry('unknown')).resolves.toBe(false);
+  });
+
+  it('waits while offline and resumes when the connection returns', async () => {
+    onLineSpy.mockReturnValue(false);
+    await uploadQueueService.start();
+    await uploadQueueService.enqueue([newJob('a')], 'direct');
+
+    expect(mockUploadFilesBatch).not.toHaveBeenCalled();
+
+    onLineSpy.mockReturnValue(true);
+    window.dispatchEvent(new Event('online'));
+    await uploadQueueService.process();
+
+    expect(uploadedNames(0)).toEqual(['media:a.mp3']);
+  });
+
+  it('does not count failures caused by losing the connection', async () => {
+    mockUploadFilesBatch.mockImplementationOnce(async () => {
+      onLineSpy.mockReturnValue(false);
+      throw new TypeError('Failed to fetch');
+    });
+
+    await uploadQueueService.enqueue([newJob('a')], 'direct');
+
+    const [job] = await listUploadJobs();
+    expect(job).toEqual(expect.objectContaining({ status: 'queued', attempts: 0 }));
+  });
+
+  it('waits for the rate limit to reset instead of uploading', async () => {
+    mockRateLimitWait.mockReturnValue(60000);
+
+    await uploadQueueService.enqueue([newJob('a')], 'direct');
+
+    expect(mockUploadFilesBatch).not.toHaveBeenCalled();
+    expect(mockSetUploadProgress).toHaveBeenLastCalledWith('a', {
+      status: 'queued', progress: 0, attempts: 0, error: 'GitHub API rate limit reached, paused until 14:05',
+    });
+
+    mockRateLimitWait.mockReturnValue(0);
+    await jest.advanceTimersByTimeAsync(60000);
+    await uploadQueueService.process();
+
+    expect(uploadedNames(0)).toEqual(['media:a.mp3']);
+  });
+
+  it('does not count failures caused by the rate limit', async () => {
+    mockUploadFilesBatch.mockImplementationOnce(async () => {
+      mockRateLimitWait.mockReturnValue(60000);
+      throw new Error('Failed to create blob: 403');
+    });
+
+    await uploadQueueService.enqueue([newJob('a')], 'direct');
+
+    const [job] = await listUploadJobs();
+    expect(job).toEqual(expect.objectContaining({ status: 'queued', attempts: 0 }));
+    expect(mockUploadFilesBatch).toHaveBeenCalledTimes(1);
+  });
+
+  it('restores queued jobs on start and resumes them', async () => {
+    const [interrupted] = await enqueueUploadJobs([newJob('a')], 'direct');
+    const [failed] = await enqueueUploadJobs([newJob('b')], 'direct');
+    // An upload killed mid-flight is still marked as uploading
+    await updateUploadJobs([
+      { ...interrupted, status: 'uploading' } as UploadJob,
+      { ...failed, status: 'failed', attempts: 6, lastError: 'Bad credentials' },
+    ]);
+
+    await uploadQueueService.start();
+
+    expect(mockSetUploadProgress).toHaveBeenCalledWith('a', { status: 'queued', progress: 0, attempts: 0 });
+    expect(mockSetUploadProgress).toHaveBeenCalledWith('b', { status: 'error', progress: 0, error: 'Bad credentials' });
+    expect(mockUploadFilesBatch).toHaveBeenCalledTimes(1);
+    expect(uploadedNames(0)).toEqual(['media:a.mp3']);
+  });
+
+  it('does not queue a file twice while it is waiting', async () => {
+    onLineSpy.mockReturnValue(false);
+    await uploadQueueService.enqueue([newJob('a')], 'direct');
+    await uploadQueueService.enqueue([newJob('a')], 'direct');
+
+    expect(await listUploadJobs()).toHaveLength(1);
+  });
+
+  it('removes local copies and refreshes the library after an upload', async () => {
+    mockRefreshFiles.mockImplementation(async () => {
+      mockFiles = [{ name: 'a.mp3', isLocal: false, uploaded: true }];
+    });
+
+    await uploadQueueService.enqueue([newJob('a')], 'direct');
+    expect(mockRemoveFile).not.toHaveBeenCalled();
+
+    await jest.advanceTimersByTimeAsync(4000);
+
+    expect(mockRemoveFile).toHaveBeenCalledWith('a');
+    expect(mockInvalidateCache).toHaveBeenCalled();
+    expect(mockRefreshFiles).toHaveBeenCalledTimes(1);
+  });
+
+  it('keeps refreshing until the upload is listed', async () => {
+    await uploadQueueService.enqueue([newJob('a')], 'direct');
+
+    await jest.advanceTimersByTimeAsync(4000);
+    await jest.advanceTimersByTimeAsync(3000);
+    await jest.advanceTimersByTimeAsync(3000);
+    await jest.advanceTimersByTimeAsync(3000);
+
+    expect(mockRefreshFiles).toHaveBeenCalledTimes(3);
+  });
+
+  it('hands uploads queued offline to the service worker', async () => {
+    onLineSpy.mockReturnValue(false);
+
+    await uploadQueueService.enqueue([newJob('a')], 'direct');
+
+    expect(mockRegisterUploadSync).toHaveBeenCalledWith([expect.objectContaining({ owner: 'test-owner' })]);
+  });
+
+  it('keeps the token away from the service worker in passphrase mode', async () => {
+    onLineSpy.mockReturnValue(false);
+    (isPassphraseEnabled as jest.Mock).mockReturnValueOnce(true);
+
+    await uploadQueueService.enqueue([newJob('a')], 'direct');
+
+    expect(mockRegisterUploadSync).not.toHaveBeenCalled();
+    expect(await listUploadJobs()).toHaveLength(1);
+  });
+
+  it('hands the service worker the configuration of every queued profile', async () => {
+    onLineSpy.mockReturnValue(false);
+
+    await uploadQueueService.enqueue([{ ...newJob('a'), profileId: 'podcast' }], 'direct');
+    await uploadQueueService.enqueue([{ ...newJob('b'), profileId: 'lectures' }], 'direct');
+
+    expect(mockGetUploadConfig).toHaveBeenCalledWith('podcast');
+    expect(mockGetUploadConfig).toHaveBeenCalledWith('lectures');
+    expect(mockRegisterUploadSync.mock.calls[1][0]).toHaveLength(2);
+  });
+
+  it('uploads to the profile a batch was queued for', async () => {
+    await uploadQueueService.enqueue([{ ...newJob('a'), profileId: 'lectures' }], 'direct');
+    await jest.advanceTimersByTimeAsync(4000);
+
+    expect(mockUploadFilesBatch).toHaveBeenCalledWith(expect.any(Array), expect.any(Function), 'lectures');
+    // Not the active profile, so its listing is refreshed when switching to it
+    expect(mockInvalidateCache).toHaveBeenCalledWith('lectures');
+    expect(mockRefreshFiles).not.toHaveBeenCalled();
+  });
+
+  it('cleans up uploads the service worker finished while no window was open', async () => {
+    const [job] = await enqueueUploadJobs([{ ...newJob('a'), profileId: 'lectures' }], 'direct');
+    await completeUploadJobs([job]);
+    mockFiles = [{ name: 'a.mp3', isLocal: false, uploaded: true }];
+
+    await uploadQueueService.start();
+    expect(mockSetUploadProgress).toHaveBeenCalledWith('a', { status: 'success', progress: 1 });
+    await jest.advanceTimersByTimeAsync(4000);
+
+    expect(mockRemoveFile).toHaveBeenCalledWith('a');
+    expect(mockInvalidateCache).toHaveBeenCalledWith('lectures');
+    expect(mockUploadFilesBatch).not.toHaveBeenCalled();
+  });
+
+  describe('service worker messages', () => {
+    let dispatchMessage: (data: unknown) => void;
+
+    beforeEach(async () => {
+      const target = new EventTarget();
+      Object.defineProperty(navigator, 'serviceWorker', { value: target, configurable: true });
+      dispatchMessage = data => target.dispatchEvent(new MessageEvent('message', { data }));
+      await uploadQueueService.start();
+    });
+
+    afterEach(() => {
+      delete (navigator as { serviceWorker?: unknown }).serviceWorker;
+    });
+
+    it('shows uploads finished in the background and cleans up', async () => {
+      mockRefreshFiles.mockImplementation(async () => {
+        mockFiles = [{ name: 'a.mp3', isLocal: false, uploaded: true }];
+      });
+
+      const [job] = await enqueueUploadJobs([newJob('a')], 'direct');
+      await completeUploadJobs([job]);
+
+      dispatchMessage({ type: 'upload-complete', fileIds: ['a'], fileNames: ['a.mp3'], profileId: job.profileId });
+      await jest.advanceTimersByTimeAsync(0);
+      await listUploadJobs();
+
+      expect(mockSetUploadProgress).toHaveBeenCalledWith('a', { status: 'success', progress: 1 });
+      await jest.advanceTimersByTimeAsync(4000);
+      expect(mockRemoveFile).toHaveBeenCalledWith('a');
+      expect(mockRefreshFiles).toHaveBeenCalled();
+      expect(await takeCompletedUploads()).toEqual([]);
+    });
+
+    it('ignores completions already handled', async () => {
+      dispatchMessage({ type: 'upload-complete', fileIds: ['a'], fileNames: ['a.mp3'] });
+      await jest.advanceTimersByTimeAsync(0);
+      await listUploadJobs();
+      await jest.advanceTimersByTimeAsync(4000);
+
+      expect(mockSetUploadProgress).not.toHaveBeenCalledWith('a', { status: 'success', progress: 1 });
+      expect(mockRemoveFile).not.toHaveBeenCalled();
+    });
+
+    it('shows failures from the background from the stored jobs', async () => {
+      const [job] = await enqueueUploadJobs([newJob('a')], 'direct');
+      await updateUploadJobs([{ ...job, attempts: 1, lastError: 'Failed to create tree' }]);
+      mockSetUploadProgress.mockClear();
+
+      dispatchMessage({ type: 'upload-failed', fileIds: ['a'], error: 'Failed to create tree' });
+      await jest.advanceTimersByTimeAsync(0);
+      await listUploadJobs();
+
+      expect(mockSetUploadProgress).toHaveBeenCalledWith('a', {
+        status: 'queued', progress: 0, attempts: 1, error: 'Failed to create tree',
+      });
+    });
+  });
+});
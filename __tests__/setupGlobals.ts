@@ -291,6 +291,8 @@ Object.defineProperty(global, 'crypto', {
       const v = c === 'x' ? r : (r & 0x3 | 0x8);
       return v.toString(16);
     }),
+    // Real WebCrypto from Node for token encryption
+    subtle: (require('crypto') as typeof import('crypto')).webcrypto.subtle,
   },
 });
 
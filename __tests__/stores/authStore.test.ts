@@ -18,6 +18,7 @@ Object.defineProperty(window, 'localStorage', {
 });
 
 import { useAuthStore } from '../../src/stores/authStore';
+import { recordTokenExpiration } from '../../src/utils/tokenExpiration';
 
 describe('AuthStore', () => {
   beforeEach(() => {
@@ -36,6 +37,8 @@ describe('AuthStore', () => {
       githubConfig: null,
       userInfo: null,
       tokenTimestamp: null,
+      tokenExpiresAt: null,
+      encryptedToken: null,
     });
 
     // Clear any localStorage entries
@@ -236,6 +239,112 @@ describe('AuthStore', () => {
     });
   });
 
+  describe('Token Expiry', () => {
+    const expiring = new Response(null, {
+      headers: { 'github-authentication-token-expiration': '2025-11-01 12:00:00 UTC' },
+    });
+
+    it('stores the expiry reported by GitHub API responses while signed in', () => {
+      const { result } = renderHook(() => useAuthStore());
+      act(() => {
+        result.current.login({ token: 'token', owner: 'user', repo: 'repo' });
+      });
+
+      act(() => {
+        recordTokenExpiration(expiring);
+      });
+
+      expect(result.current.tokenExpiresAt).toBe(Date.parse('2025-11-01T12:00:00Z'));
+    });
+
+    it('ignores reported expiries while signed out', () => {
+      recordTokenExpiration(expiring);
+
+      expect(useAuthStore.getState().tokenExpiresAt).toBeNull();
+    });
+
+    it('forgets the expiry on logout and on a new login', () => {
+      const { result } = renderHook(() => useAuthStore());
+      act(() => {
+        result.current.login({ token: 'token', owner: 'user', repo: 'repo' });
+        result.current.setTokenExpiresAt(Date.now());
+      });
+      act(() => {
+        result.current.login({ token: 'other', owner: 'user', repo: 'repo' });
+      });
+      expect(result.current.tokenExpiresAt).toBeNull();
+
+      act(() => {
+        result.current.setTokenExpiresAt(Date.now());
+        result.current.logout();
+      });
+      expect(result.current.tokenExpiresAt).toBeNull();
+    });
+  });
+
+  describe('Token Passphrase', () => {
+    const config = { token: 'ghp_secret', owner: 'user', repo: 'repo' };
+
+    const lastPersisted = () => JSON.parse(mockLocalStorage.setItem.mock.calls.at(-1)[1]).state;
+
+    it('persists only the encrypted token once a passphrase is set', async () => {
+      useAuthStore.getState().login(config);
+
+      await useAuthStore.getState().enablePassphrase('correct horse');
+
+      const state = useAuthStore.getState();
+      expect(state.encryptedToken).not.toBeNull();
+      expect(state.githubConfig?.token).toBe('ghp_secret'); // Still usable this session
+      expect(lastPersisted().githubConfig.token).toBe('');
+      expect(JSON.stringify(lastPersisted())).not.toContain('ghp_secret');
+    });
+
+    it('unlocks the token with the right passphrase only', async () => {
+      useAuthStore.getState().login(config);
+      await useAuthStore.getState().enablePassphrase('correct horse');
+      // Cold start: the token isn't in storage
+      useAuthStore.setState({ githubConfig: { ...config, token: '' } });
+
+      await expect(useAuthStore.getState().unlock('battery staple')).resolves.toBe(false);
+      expect(useAuthStore.getState().githubConfig?.token).toBe('');
+
+      await expect(useAuthStore.getState().unlock('correct horse')).resolves.toBe(true);
+      expect(useAuthStore.getState().githubConfig?.token).toBe('ghp_secret');
+    });
+
+    it('changes the passphrase after checking the current one', async () => {
+      useAuthStore.getState().login(config);
+      await useAuthStore.getState().enablePassphrase('correct horse');
+
+      await expect(useAuthStore.getState().changePassphrase('wrong', 'battery staple')).resolves.toBe(false);
+      await expect(useAuthStore.getState().changePassphrase('correct horse', 'battery staple')).resolves.toBe(true);
+
+      useAuthStore.setState({ githubConfig: { ...config, token: '' } });
+      await expect(useAuthStore.getState().unlock('correct horse')).resolves.toBe(false);
+      await expect(useAuthStore.getState().unlock('battery staple')).resolves.toBe(true);
+    });
+
+    it('stores the token without encryption again once the passphrase is removed', async () => {
+      useAuthStore.getState().login(config);
+      await useAuthStore.getState().enablePassphrase('correct horse');
+
+      await expect(useAuthStore.getState().removePassphrase('wrong')).resolves.toBe(false);
+      await expect(useAuthStore.getState().removePassphrase('correct horse')).resolves.toBe(true);
+
+      expect(useAuthStore.getState().encryptedToken).toBeNull();
+      expect(lastPersisted().githubConfig.token).toBe('ghp_secret');
+    });
+
+    it('forgets the encrypted token on logout', async () => {
+      useAuthStore.getState().login(config);
+      await useAuthStore.getState().enablePassphrase('correct horse');
+
+      useAuthStore.getState().logout();
+
+      expect(useAuthStore.getState().encryptedToken).toBeNull();
+    });
+  });
+
   describe('State Selectors', () => {
     it('should allow selecting specific state slices', () => {
       const { result: authResult } = renderHook(() => 
@@ -17,6 +17,13 @@ jest.mock('../../src/utils/persistentStorage', () => ({
   cleanupBlobUrls: jest.fn(),
 }));
 
+jest.mock('../../src/utils/offlineCache', () => ({
+  saveOfflineCopy: jest.fn(),
+  loadOfflineCopy: jest.fn(),
+  deleteOfflineCopy: jest.fn(),
+  recentRemoteFiles: jest.requireActual('../../src/utils/offlineCache').recentRemoteFiles,
+}));
+
 jest.mock('../../src/utils/fileDeduplication', () => ({
   combineAndDeduplicateFiles: jest.fn(),
   findFilesToRemove: jest.fn(),
@@ -25,8 +32,10 @@ jest.mock('../../src/utils/fileDeduplication', () => ({
 // Import after mocking
 import { useFilesStore } from '../../src/stores/filesStore';
 import { useGitStore } from '../../src/stores/gitStore';
+import { useSettingsStore } from '../../src/stores/settingsStore';
 import { createFileRecord, restoreFileRecord, cleanupBlobUrls } from '../../src/utils/persistentStorage';
 import { combineAndDeduplicateFiles, findFilesToRemove } from '../../src/utils/fileDeduplication';
+import { saveOfflineCopy, loadOfflineCopy, deleteOfflineCopy } from '../../src/utils/offlineCache';
 
 const mockUseGitStore = useGitStore as jest.Mocked<typeof useGitStore>;
 const mockCreateFileRecord = createFileRecord as jest.MockedFunction<typeof createFileRecord>;
@@ -34,6 +43,9 @@ const mockRestoreFileRecord = restoreFileRecord as jest.MockedFunction<typeof re
 const mockCleanupBlobUrls = cleanupBlobUrls as jest.MockedFunction<typeof cleanupBlobUrls>;
 const mockCombineAndDeduplicateFiles = combineAndDeduplicateFiles as jest.MockedFunction<typeof combineAndDeduplicateFiles>;
 const mockFindFilesToRemove = findFilesToRemove as jest.MockedFunction<typeof findFilesToRemove>;
+const mockSaveOfflineCopy = saveOfflineCopy as jest.MockedFunction<typeof saveOfflineCopy>;
+const mockLoadOfflineCopy = loadOfflineCopy as jest.MockedFunction<typeof loadOfflineCopy>;
+const mockDeleteOfflineCopy = deleteOfflineCopy as jest.MockedFunction<typeof deleteOfflineCopy>;
 
 // Mock data
 const mockFileRecord = {
@@ -83,6 +95,8 @@ describe('filesStore', () => {
       uploadState: {},
       lastRefresh: 0,
       remoteError: null,
+      offlineFiles: {},
+      cachingIds: [],
     });
   });
 
@@ -191,6 +205,34 @@ describe('filesStore', () => {
       expect(result.current.files).toHaveLength(0);
     });
 
+    it('should delete remote files from the repository', async () => {
+      const mockDeleteRemoteFile = jest.fn().mockResolvedValue(undefined);
+      mockUseGitStore.getState.mockReturnValue({ ...mockGitStoreState, deleteRemoteFile: mockDeleteRemoteFile });
+      const remoteFile = { ...mockFileRecord, id: 'remote-abc', uploaded: true, isLocal: false } as EnhancedFileRecord;
+      useFilesStore.setState({ files: [remoteFile, mockEnhancedFile] });
+
+      await act(async () => {
+        await useFilesStore.getState().removeFile('remote-abc');
+      });
+
+      expect(mockDeleteRemoteFile).toHaveBeenCalledWith('remote-abc');
+      expect(mockFindFilesToRemove).not.toHaveBeenCalled();
+      expect(useFilesStore.getState().files.map(file => file.id)).toEqual(['test-file-1']);
+    });
+
+    it('should keep remote files when the repository delete fails', async () => {
+      const consoleSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+      const mockDeleteRemoteFile = jest.fn().mockRejectedValue(new Error('Failed to update ref: 403'));
+      mockUseGitStore.getState.mockReturnValue({ ...mockGitStoreState, deleteRemoteFile: mockDeleteRemoteFile });
+      const remoteFile = { ...mockFileRecord, id: 'remote-abc', uploaded: true, isLocal: false } as EnhancedFileRecord;
+      useFilesStore.setState({ files: [remoteFile] });
+
+      await expect(useFilesStore.getState().removeFile('remote-abc')).rejects.toThrow('Failed to update ref: 403');
+
+      expect(useFilesStore.getState().files).toHaveLength(1);
+      consoleSpy.mockRestore();
+    });
+
     it('should update file', () => {
       const { result } = renderHook(() => useFilesStore());
 
@@ -316,6 +358,191 @@ describe('filesStore', () => {
     });
   });
 
+  describe('Repository Profiles', () => {
+    afterEach(() => {
+      useSettingsStore.setState({ activeProfileId: null });
+    });
+
+    it('should tag saved recordings with the active profile', async () => {
+      useSettingsStore.setState({ activeProfileId: 'podcast' });
+      const blob = new Blob(['audio'], { type: 'audio/mp3' });
+      const metadata = { name: 'a.mp3', type: 'audio', mimeType: 'audio/mp3', size: 5, duration: 1, created: 1 } as FileMetadata;
+
+      await act(async () => {
+        await useFilesStore.getState().saveFile(blob, metadata);
+      });
+
+      expect(mockCreateFileRecord).toHaveBeenCalledWith(blob, { ...metadata, profileId: 'podcast' });
+    });
+
+    it('should only list local recordings of the active profile', async () => {
+      useSettingsStore.setState({ activeProfileId: 'podcast' });
+      const podcastFile = { ...mockFileRecord, id: 'podcast-file', profileId: 'podcast' };
+      const lectureFile = { ...mockFileRecord, id: 'lecture-file', profileId: 'lectures' };
+      const olderFile = { ...mockFileRecord, id: 'older-file' };
+      mockRestoreFileRecord.mockImplementation(async (file) => file);
+      useFilesStore.setState({ localFiles: [podcastFile, lectureFile, olderFile] });
+
+      await act(async () => {
+        await useFilesStore.getState().loadFiles();
+      });
+
+      expect(mockCombineAndDeduplicateFiles.mock.calls[0][0].map(file => file.id)).toEqual(['podcast-file', 'older-file']);
+      // Recordings for the other profile are kept for when it is active again
+      expect(useFilesStore.getState().localFiles).toHaveLength(3);
+    });
+  });
+
+  describe('Offline Copies', () => {
+    const remoteFile = { ...mockFileRecord, id: 'remote-abc', name: 'clip.mp3', path: 'media/clip.mp3', url: 'media/clip.mp3', uploaded: true, isLocal: false } as EnhancedFileRecord;
+    const entry = { size: 10, cachedAt: 1000, hasThumbnail: true };
+    const copy = { media: new Blob(['media']), thumbnail: new Blob(['thumb']) };
+
+    beforeEach(() => {
+      mockSaveOfflineCopy.mockResolvedValue(entry);
+      mockLoadOfflineCopy.mockResolvedValue(copy);
+      mockDeleteOfflineCopy.mockResolvedValue(undefined);
+    });
+
+    afterEach(() => {
+      useSettingsStore.setState({ appSettings: null });
+    });
+
+    it('should download a remote file with its thumbnail', async () => {
+      mockUseGitStore.getState.mockReturnValue({
+        ...mockGitStoreState,
+        remoteThumbnails: { clip: { url: 'thumbnails/clip.jpg', isLocal: false } },
+      });
+      useFilesStore.setState({ files: [remoteFile] });
+
+      await act(async () => {
+        await useFilesStore.getState().makeAvailableOffline('remote-abc');
+      });
+
+      expect(mockSaveOfflineCopy).toHaveBeenCalledWith(remoteFile, 'thumbnails/clip.jpg');
+      const state = useFilesStore.getState();
+      expect(state.offlineFiles).toEqual({ 'remote-abc': entry });
+      expect(state.files[0]).toEqual(expect.objectContaining({ cached: true, offlineUrl: expect.any(String), offlineThumbnailUrl: expect.any(String) }));
+      expect(state.cachingIds).toEqual([]);
+    });
+
+    it('should not download local files', async () => {
+      useFilesStore.setState({ files: [mockEnhancedFile] });
+
+      await act(async () => {
+        await useFilesStore.getState().makeAvailableOffline('test-file-1');
+      });
+
+      expect(mockSaveOfflineCopy).not.toHaveBeenCalled();
+    });
+
+    it('should report failed downloads', async () => {
+      const consoleSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+      mockSaveOfflineCopy.mockRejectedValue(new Error('Failed to download media/clip.mp3: 404'));
+      useFilesStore.setState({ files: [remoteFile] });
+
+      await expect(useFilesStore.getState().makeAvailableOffline('remote-abc')).rejects.toThrow('404');
+
+      expect(useFilesStore.getState().offlineFiles).toEqual({});
+      expect(useFilesStore.getState().cachingIds).toEqual([]);
+      consoleSpy.mockRestore();
+    });
+
+    it('should remove an offline copy', async () => {
+      useFilesStore.setState({
+        files: [{ ...remoteFile, cached: true, offlineUrl: 'blob:media' }],
+        offlineFiles: { 'remote-abc': entry },
+      });
+
+      await act(async () => {
+        await useFilesStore.getState().removeOfflineCopy('remote-abc');
+      });
+
+      expect(mockDeleteOfflineCopy).toHaveBeenCalledWith('remote-abc');
+      expect(useFilesStore.getState().offlineFiles).toEqual({});
+      expect(useFilesStore.getState().files[0].cached).toBeUndefined();
+      expect(useFilesStore.getState().files[0].offlineUrl).toBeUndefined();
+    });
+
+    it('should pass offline copies to the combined list and restore their blob URLs', async () => {
+      useFilesStore.setState({ offlineFiles: { 'remote-abc': entry } });
+      mockCombineAndDeduplicateFiles.mockReturnValue([{ ...remoteFile, cached: true }]);
+
+      await act(async () => {
+        await useFilesStore.getState().loadFiles();
+      });
+
+      expect(mockCombineAndDeduplicateFiles).toHaveBeenCalledWith([], [], undefined, { 'remote-abc': entry });
+      expect(mockLoadOfflineCopy).toHaveBeenCalledWith('remote-abc', entry);
+      expect(useFilesStore.getState().files[0].offlineUrl).toEqual(expect.any(String));
+    });
+
+    it('should forget offline copies whose blobs were evicted', async () => {
+      useFilesStore.setState({ offlineFiles: { 'remote-abc': entry } });
+      mockCombineAndDeduplicateFiles.mockReturnValue([{ ...remoteFile, cached: true }]);
+      mockLoadOfflineCopy.mockResolvedValue(null);
+
+      await act(async () => {
+        await useFilesStore.getState().loadFiles();
+      });
+
+      expect(useFilesStore.getState().offlineFiles).toEqual({});
+      expect(useFilesStore.getState().files[0].cached).toBeUndefined();
+    });
+
+    it('should keep listing offline copies when the repository cannot be reached', async () => {
+      const consoleSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+      const streamedFile = { ...remoteFile, id: 'remote-def', name: 'other.mp3' };
+      mockFetchRemoteFiles.mockRejectedValue(new Error('Failed to fetch'));
+      mockUseGitStore.getState.mockReturnValue({ ...mockGitStoreState, remoteFiles: [remoteFile, streamedFile] });
+      useFilesStore.setState({ offlineFiles: { 'remote-abc': entry } });
+
+      await act(async () => {
+        await useFilesStore.getState().loadFiles();
+      });
+
+      expect(mockCombineAndDeduplicateFiles.mock.calls[0][1]).toEqual([remoteFile]);
+      consoleSpy.mockRestore();
+    });
+
+    it('should auto-cache the most recent remote files', async () => {
+      const olderFile = { ...remoteFile, id: 'remote-old', name: 'old.mp3' };
+      useSettingsStore.setState({ appSettings: { repo: 'repo', branch: 'main', path: 'media/', thumbnailPath: 'thumbnails/', thumbnailWidth: 320, thumbnailHeight: 240, offlineAutoCacheCount: 1 } });
+      useFilesStore.setState({ files: [mockEnhancedFile, remoteFile, olderFile] });
+
+      await act(async () => {
+        await useFilesStore.getState().autoCacheRecent();
+      });
+
+      expect(mockSaveOfflineCopy).toHaveBeenCalledTimes(1);
+      expect(mockSaveOfflineCopy).toHaveBeenCalledWith(remoteFile, undefined);
+      expect(useFilesStore.getState().offlineFiles).toEqual({ 'remote-abc': { ...entry, auto: true } });
+    });
+
+    it('should drop automatic copies that are no longer recent but keep manual ones', async () => {
+      const olderFile = { ...remoteFile, id: 'remote-old', name: 'old.mp3' };
+      const manualFile = { ...remoteFile, id: 'remote-manual', name: 'manual.mp3' };
+      useSettingsStore.setState({ appSettings: { repo: 'repo', branch: 'main', path: 'media/', thumbnailPath: 'thumbnails/', thumbnailWidth: 320, thumbnailHeight: 240, offlineAutoCacheCount: 1 } });
+      useFilesStore.setState({
+        files: [remoteFile, olderFile, manualFile],
+        offlineFiles: {
+          'remote-abc': { ...entry, auto: true },
+          'remote-old': { ...entry, auto: true },
+          'remote-manual': entry,
+        },
+      });
+
+      await act(async () => {
+        await useFilesStore.getState().autoCacheRecent();
+      });
+
+      expect(mockDeleteOfflineCopy).toHaveBeenCalledTimes(1);
+      expect(mockDeleteOfflineCopy).toHaveBeenCalledWith('remote-old');
+      expect(mockSaveOfflineCopy).not.toHaveBeenCalled();
+      expect(Object.keys(useFilesStore.getState().offlineFiles)).toEqual(['remote-abc', 'remote-manual']);
+    });
+  });
+
   describe('Refresh Files', () => {
     it('should refresh files with force refresh', async () => {
       const { result } = renderHook(() => useFilesStore());
@@ -445,6 +672,31 @@ describe('filesStore', () => {
       );
     });
 
+    it('should rename remote files in the repository', async () => {
+      const remoteFile = { ...mockFileRecord, id: 'remote-abc', name: 'old.mp3', url: 'media/old.mp3', uploaded: true, isLocal: false } as EnhancedFileRecord;
+      const mockRenameRemoteFile = jest.fn().mockResolvedValue(undefined);
+      mockUseGitStore.getState.mockReturnValue({
+        ...mockGitStoreState,
+        renameRemoteFile: mockRenameRemoteFile,
+        remoteFiles: [{ ...remoteFile, name: 'new.mp3', url: 'media/new.mp3', path: 'media/new.mp3' }],
+      });
+      useFilesStore.setState({ files: [remoteFile] });
+      const thumbnailFile = new File(['thumbnail data'], 'thumbnail.jpg', { type: 'image/jpeg' });
+
+      await act(async () => {
+        await useFilesStore.getState().updateFileWithThumbnail('remote-abc', 'new.mp3', thumbnailFile);
+      });
+
+      expect(mockRenameRemoteFile).toHaveBeenCalledWith('remote-abc', 'new.mp3', thumbnailFile);
+      expect(mockCreateFileRecord).not.toHaveBeenCalled();
+      expect(useFilesStore.getState().files[0]).toEqual(expect.objectContaining({
+        name: 'new.mp3',
+        url: 'media/new.mp3',
+        path: 'media/new.mp3',
+        isLocal: false,
+      }));
+    });
+
     it('should handle file not found error', async () => {
       const { result } = renderHook(() => useFilesStore());
 
@@ -1,11 +1,20 @@
 import { act, renderHook } from '@testing-library/react';
 import { useGitStore } from '../../src/stores/gitStore';
-import type { FileRecord } from '../../src/types';
+import type { FileRecord, PendingPullRequest } from '../../src/types';
 
 // Mock dependencies
 jest.mock('../../src/utils/githubUtils', () => ({
   fetchRemoteFiles: jest.fn(),
   fetchRemoteThumbnails: jest.fn(),
+  fetchPullRequestState: jest.fn(),
+  fetchHeadSha: jest.fn(),
+  fetchRemoteChanges: jest.fn(),
+}));
+
+jest.mock('../../src/utils/uploadUtils', () => ({
+  deleteFilesFromRepository: jest.fn(),
+  renameFilesInRepository: jest.fn(),
+  getUploadConfig: jest.fn(() => ({ thumbnailPath: 'thumbnails/' })),
 }));
 
 jest.mock('../../src/stores/authStore', () => ({
@@ -20,12 +29,19 @@ jest.mock('../../src/stores/settingsStore', () => ({
   },
 }));
 
-import { fetchRemoteFiles, fetchRemoteThumbnails } from '../../src/utils/githubUtils';
+import { fetchRemoteFiles, fetchRemoteThumbnails, fetchPullRequestState, fetchHeadSha, fetchRemoteChanges } from '../../src/utils/githubUtils';
+import { deleteFilesFromRepository, renameFilesInRepository } from '../../src/utils/uploadUtils';
 import { useAuthStore } from '../../src/stores/authStore';
 import { useSettingsStore } from '../../src/stores/settingsStore';
+import { recordRateLimit, clearRateLimitStatus } from '../../src/utils/rateLimit';
 
 const mockFetchRemoteFiles = fetchRemoteFiles as jest.MockedFunction<typeof fetchRemoteFiles>;
 const mockFetchRemoteThumbnails = fetchRemoteThumbnails as jest.MockedFunction<typeof fetchRemoteThumbnails>;
+const mockFetchPullRequestState = fetchPullRequestState as jest.MockedFunction<typeof fetchPullRequestState>;
+const mockFetchHeadSha = fetchHeadSha as jest.MockedFunction<typeof fetchHeadSha>;
+const mockFetchRemoteChanges = fetchRemoteChanges as jest.MockedFunction<typeof fetchRemoteChanges>;
+const mockDeleteFilesFromRepository = deleteFilesFromRepository as jest.MockedFunction<typeof deleteFilesFromRepository>;
+const mockRenameFilesInRepository = renameFilesInRepository as jest.MockedFunction<typeof renameFilesInRepository>;
 const mockUseAuthStore = useAuthStore as jest.Mocked<typeof useAuthStore>;
 const mockUseSettingsStore = useSettingsStore as jest.Mocked<typeof useSettingsStore>;
 
@@ -114,18 +130,8 @@ describe('gitStore', () => {
     mockUseSettingsStore.getState.mockReturnValue(mockSettingsState);
     mockFetchRemoteFiles.mockResolvedValue(mockRemoteFiles);
     mockFetchRemoteThumbnails.mockResolvedValue(mockRemoteThumbnails);
-    
-    // Mock fetch response
-    (global.fetch as jest.MockedFunction<typeof fetch>).mockResolvedValue({
-      ok: true,
-      json: () => Promise.resolve([{
-        commit: {
-          committer: {
-            date: new Date().toISOString(),
-          },
-        },
-      }]),
-    } as Response);
+    mockFetchHeadSha.mockResolvedValue('head-1');
+    mockFetchRemoteChanges.mockResolvedValue(null);
 
     // Reset store
     useGitStore.setState({
@@ -134,7 +140,9 @@ describe('gitStore', () => {
       isLoadingRemote: false,
       lastRemoteFetch: 0,
       remoteError: null,
-      lastCommitTimestamp: 0,
+      lastHeadSha: null,
+      pendingPullRequests: [],
+      profileCaches: {},
     });
   });
 
@@ -147,7 +155,7 @@ describe('gitStore', () => {
       expect(result.current.isLoadingRemote).toBe(false);
       expect(result.current.lastRemoteFetch).toBe(0);
       expect(result.current.remoteError).toBeNull();
-      expect(result.current.lastCommitTimestamp).toBe(0);
+      expect(result.current.lastHeadSha).toBeNull();
     });
   });
 
@@ -193,19 +201,19 @@ describe('gitStore', () => {
       act(() => {
         useGitStore.setState({ 
           lastRemoteFetch: Date.now(),
-          lastCommitTimestamp: Date.now()
+          lastHeadSha: 'head-1'
         });
       });
 
       expect(result.current.lastRemoteFetch).toBeGreaterThan(0);
-      expect(result.current.lastCommitTimestamp).toBeGreaterThan(0);
+      expect(result.current.lastHeadSha).toBe('head-1');
 
       act(() => {
         result.current.invalidateCache();
       });
 
       expect(result.current.lastRemoteFetch).toBe(0);
-      expect(result.current.lastCommitTimestamp).toBe(0);
+      expect(result.current.lastHeadSha).toBeNull();
     });
 
     it('should reset state', () => {
@@ -219,7 +227,7 @@ describe('gitStore', () => {
           isLoadingRemote: true,
           lastRemoteFetch: Date.now(),
           remoteError: 'error',
-          lastCommitTimestamp: Date.now(),
+          lastHeadSha: 'head-1',
         });
       });
 
@@ -232,7 +240,7 @@ describe('gitStore', () => {
       expect(result.current.isLoadingRemote).toBe(false);
       expect(result.current.lastRemoteFetch).toBe(0);
       expect(result.current.remoteError).toBeNull();
-      expect(result.current.lastCommitTimestamp).toBe(0);
+      expect(result.current.lastHeadSha).toBeNull();
     });
   });
 
@@ -301,6 +309,25 @@ describe('gitStore', () => {
       expect(mockFetchRemoteFiles).toHaveBeenCalled();
     });
 
+    it('should not refresh while the rate limit is exhausted', async () => {
+      const { result } = renderHook(() => useGitStore());
+      recordRateLimit(new Response(null, {
+        status: 403,
+        headers: { 'X-RateLimit-Remaining': '0', 'X-RateLimit-Reset': String(Math.floor(Date.now() / 1000) + 600) },
+      }));
+
+      act(() => {
+        useGitStore.setState({ lastRemoteFetch: Date.now() - (6 * 60 * 1000) });
+      });
+
+      await act(async () => {
+        await result.current.autoRefreshIfStale();
+      });
+
+      expect(mockFetchRemoteFiles).not.toHaveBeenCalled();
+      clearRateLimitStatus();
+    });
+
     it('should not refresh when data is fresh', async () => {
       const { result } = renderHook(() => useGitStore());
 
@@ -397,105 +424,442 @@ describe('gitStore', () => {
       });
     });
 
-    it('should handle commit API errors', async () => {
-      (global.fetch as jest.MockedFunction<typeof fetch>).mockRejectedValue(new Error('API error'));
+    it('should list the repository when the branch cannot be read', async () => {
+      jest.spyOn(console, 'warn').mockImplementation(() => {});
+      mockFetchHeadSha.mockRejectedValue(new Error('API error'));
 
       const { result } = renderHook(() => useGitStore());
 
       await act(async () => {
-        await result.current.fetchRemoteFiles(true);
+        await result.current.fetchRemoteFiles();
       });
 
       // Should still complete successfully
       expect(result.current.remoteFiles).toEqual(mockRemoteFiles);
+      expect(result.current.lastHeadSha).toBeNull();
     });
+  });
 
-    it('should handle empty commit response', async () => {
-      (global.fetch as jest.MockedFunction<typeof fetch>).mockResolvedValue({
-        ok: true,
-        json: () => Promise.resolve([]),
-      } as Response);
+  describe('Incremental Sync', () => {
+    const cachedFile = (name: string, sha: string): FileRecord => ({
+      ...mockRemoteFiles[0],
+      id: `remote-${sha}`,
+      name,
+      url: `media/${name}`,
+      path: `media/${name}`,
+      sha,
+    });
 
-      const { result } = renderHook(() => useGitStore());
+    beforeEach(() => {
+      useGitStore.setState({
+        remoteFiles: [cachedFile('a.mp3', 'sha-a'), cachedFile('b.mp3', 'sha-b')],
+        remoteThumbnails: {
+          a: { url: 'thumbnails/a.jpg', isLocal: false, sha: 'thumb-a' },
+          b: { url: 'thumbnails/b.jpg', isLocal: false, sha: 'thumb-b' },
+        },
+        lastRemoteFetch: Date.now() - 60 * 60 * 1000,
+        lastHeadSha: 'head-1',
+      });
+    });
+
+    it('remembers the commit a full listing was read at', async () => {
+      useGitStore.setState({ lastRemoteFetch: 0, lastHeadSha: null });
 
       await act(async () => {
-        await result.current.fetchRemoteFiles(true);
+        await useGitStore.getState().fetchRemoteFiles();
       });
 
-      expect(result.current.lastCommitTimestamp).toBeGreaterThan(0);
+      expect(mockFetchRemoteFiles).toHaveBeenCalled();
+      expect(useGitStore.getState().lastHeadSha).toBe('head-1');
     });
 
-    it('should handle failed commit response', async () => {
-      (global.fetch as jest.MockedFunction<typeof fetch>).mockResolvedValue({
-        ok: false,
-        status: 404,
-      } as Response);
+    it('skips the listing when the branch has not moved', async () => {
+      await act(async () => {
+        await useGitStore.getState().fetchRemoteFiles();
+      });
 
-      const { result } = renderHook(() => useGitStore());
+      expect(mockFetchRemoteChanges).not.toHaveBeenCalled();
+      expect(mockFetchRemoteFiles).not.toHaveBeenCalled();
+      expect(useGitStore.getState().lastRemoteFetch).toBeGreaterThan(Date.now() - 1000);
+    });
+
+    it('patches the cached listing with the changes since the last commit', async () => {
+      mockFetchHeadSha.mockResolvedValue('head-2');
+      mockFetchRemoteChanges.mockResolvedValue({
+        removedPaths: ['media/a.mp3', 'thumbnails/a.jpg'],
+        files: [cachedFile('c.mp3', 'sha-c')],
+        thumbnails: { c: { url: 'thumbnails/c.jpg', isLocal: false, sha: 'thumb-c' } },
+      });
 
       await act(async () => {
-        await result.current.fetchRemoteFiles(true);
+        await useGitStore.getState().fetchRemoteFiles();
       });
 
-      expect(result.current.lastCommitTimestamp).toBeGreaterThan(0);
+      expect(mockFetchRemoteChanges).toHaveBeenCalledWith('head-1', 'head-2');
+      expect(mockFetchRemoteFiles).not.toHaveBeenCalled();
+      const state = useGitStore.getState();
+      expect(state.remoteFiles.map(file => file.name)).toEqual(['b.mp3', 'c.mp3']);
+      expect(Object.keys(state.remoteThumbnails).sort()).toEqual(['b', 'c']);
+      expect(state.lastHeadSha).toBe('head-2');
+      expect(state.isLoadingRemote).toBe(false);
+    });
+
+    it('replaces rewritten files instead of listing them twice', async () => {
+      mockFetchHeadSha.mockResolvedValue('head-2');
+      mockFetchRemoteChanges.mockResolvedValue({
+        removedPaths: ['media/b.mp3'],
+        files: [cachedFile('b.mp3', 'sha-b2')],
+        thumbnails: {},
+      });
+
+      await act(async () => {
+        await useGitStore.getState().fetchRemoteFiles();
+      });
+
+      expect(useGitStore.getState().remoteFiles.map(file => file.id)).toEqual(['remote-sha-a', 'remote-sha-b2']);
+    });
+
+    it('lists the whole repository when the changes cannot be patched in', async () => {
+      mockFetchHeadSha.mockResolvedValue('head-2');
+      mockFetchRemoteChanges.mockResolvedValue(null);
+
+      await act(async () => {
+        await useGitStore.getState().fetchRemoteFiles();
+      });
+
+      expect(mockFetchRemoteFiles).toHaveBeenCalled();
+      expect(useGitStore.getState().remoteFiles).toEqual(mockRemoteFiles);
+      expect(useGitStore.getState().lastHeadSha).toBe('head-2');
+    });
+
+    it('lists the whole repository when forced', async () => {
+      await act(async () => {
+        await useGitStore.getState().fetchRemoteFiles(true);
+      });
+
+      expect(mockFetchRemoteChanges).not.toHaveBeenCalled();
+      expect(mockFetchRemoteFiles).toHaveBeenCalled();
+    });
+
+    it('keeps the cache and reports compare failures', async () => {
+      mockFetchHeadSha.mockResolvedValue('head-2');
+      mockFetchRemoteChanges.mockRejectedValue(new Error('Failed to compare commits: 500'));
+
+      await expect(useGitStore.getState().fetchRemoteFiles()).rejects.toThrow('Failed to compare commits: 500');
+
+      const state = useGitStore.getState();
+      expect(state.remoteError).toBe('Failed to compare commits: 500');
+      expect(state.lastHeadSha).toBe('head-1');
+      expect(state.remoteFiles).toHaveLength(2);
     });
   });
 
-  describe('Repository Commit Logic', () => {
-    it('should parse commit timestamp correctly', async () => {
-      const testDate = new Date('2023-01-01T12:00:00Z');
-      (global.fetch as jest.MockedFunction<typeof fetch>).mockResolvedValue({
-        ok: true,
-        json: () => Promise.resolve([{
-          commit: {
-            committer: {
-              date: testDate.toISOString(),
-            },
-          },
-        }]),
-      } as Response);
+  describe('Pending Pull Requests', () => {
+    const pendingPullRequest = (number: number): PendingPullRequest => ({
+      number,
+      url: `https://github.com/test-owner/test-repo/pull/${number}`,
+      branch: `media/file-${number}.mp3`,
+      title: `Add file-${number}.mp3`,
+      created: 1000,
+      files: [{ fileName: `file-${number}.mp3`, path: `media/file-${number}.mp3`, pathType: 'media' }],
+    });
 
+    it('adds pull requests without duplicating them', () => {
       const { result } = renderHook(() => useGitStore());
 
+      act(() => {
+        result.current.addPendingPullRequest(pendingPullRequest(1));
+        result.current.addPendingPullRequest(pendingPullRequest(2));
+        result.current.addPendingPullRequest(pendingPullRequest(1));
+      });
+
+      expect(result.current.pendingPullRequests.map(pr => pr.number)).toEqual([2, 1]);
+    });
+
+    it('drops merged and closed pull requests and invalidates the cache', async () => {
+      useGitStore.setState({
+        pendingPullRequests: [pendingPullRequest(1), pendingPullRequest(2), pendingPullRequest(3)],
+        lastRemoteFetch: 123,
+        lastHeadSha: 'head-1',
+      });
+      mockFetchPullRequestState.mockImplementation(async (number) =>
+        number === 1 ? 'open' : number === 2 ? 'merged' : 'closed'
+      );
+
       await act(async () => {
-        await result.current.fetchRemoteFiles(true);
+        await useGitStore.getState().refreshPendingPullRequests();
       });
 
-      expect(result.current.lastCommitTimestamp).toBe(testDate.getTime());
+      const state = useGitStore.getState();
+      expect(state.pendingPullRequests.map(pr => pr.number)).toEqual([1]);
+      expect(state.lastRemoteFetch).toBe(0);
+      expect(state.lastHeadSha).toBeNull();
     });
 
-    it('should skip fetch when repository unchanged', async () => {
-      const { result } = renderHook(() => useGitStore());
+    it('keeps pull requests whose state cannot be checked', async () => {
+      const consoleSpy = jest.spyOn(console, 'warn').mockImplementation(() => {});
+      useGitStore.setState({ pendingPullRequests: [pendingPullRequest(1)], lastRemoteFetch: 123 });
+      mockFetchPullRequestState.mockRejectedValue(new Error('Network error'));
 
-      // First fetch
       await act(async () => {
-        await result.current.fetchRemoteFiles(true);
+        await useGitStore.getState().refreshPendingPullRequests();
       });
 
-      const commitTime = result.current.lastCommitTimestamp;
+      expect(useGitStore.getState().pendingPullRequests).toHaveLength(1);
+      expect(useGitStore.getState().lastRemoteFetch).toBe(123);
+      consoleSpy.mockRestore();
+    });
 
-      // Mock same commit time
-      (global.fetch as jest.MockedFunction<typeof fetch>).mockResolvedValue({
-        ok: true,
-        json: () => Promise.resolve([{
-          commit: {
-            committer: {
-              date: new Date(commitTime).toISOString(),
-            },
-          },
-        }]),
-      } as Response);
+    it('checks pending pull requests whenever remote files are fetched', async () => {
+      useGitStore.setState({ pendingPullRequests: [pendingPullRequest(1)] });
+      mockFetchPullRequestState.mockResolvedValue('merged');
 
-      // Reset mock call count
-      mockFetchRemoteFiles.mockClear();
+      await act(async () => {
+        await useGitStore.getState().fetchRemoteFiles();
+      });
 
-      // Second fetch should skip
+      expect(mockFetchPullRequestState).toHaveBeenCalledWith(1);
+      expect(useGitStore.getState().pendingPullRequests).toEqual([]);
+      expect(mockFetchRemoteFiles).toHaveBeenCalled();
+    });
+
+    it('does not contact GitHub when nothing is pending', async () => {
       await act(async () => {
-        await result.current.fetchRemoteFiles(false);
+        await useGitStore.getState().refreshPendingPullRequests();
+      });
+
+      expect(mockFetchPullRequestState).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Remote Delete', () => {
+    const remoteFile = (id: string, name: string): FileRecord => ({
+      ...mockRemoteFiles[0],
+      id,
+      name,
+      url: `media/${name}`,
+    });
+
+    beforeEach(() => {
+      mockDeleteFilesFromRepository.mockResolvedValue(undefined);
+      useGitStore.setState({
+        remoteFiles: [remoteFile('remote-a', 'a.mp3'), remoteFile('remote-b', 'b.mp3')],
+        remoteThumbnails: {
+          a: { url: 'thumbnails/a.jpg', isLocal: false },
+          b: { url: 'thumbnails/b.jpg', isLocal: false },
+        },
       });
+    });
 
-      // Should not have fetched again
+    it('deletes the media file and its thumbnail in one commit', async () => {
+      await act(async () => {
+        await useGitStore.getState().deleteRemoteFile('remote-a');
+      });
+
+      expect(mockDeleteFilesFromRepository).toHaveBeenCalledWith('a.mp3', ['media/a.mp3', 'thumbnails/a.jpg']);
+      const state = useGitStore.getState();
+      expect(state.remoteFiles.map(file => file.id)).toEqual(['remote-b']);
+      expect(Object.keys(state.remoteThumbnails)).toEqual(['b']);
       expect(mockFetchRemoteFiles).not.toHaveBeenCalled();
     });
+
+    it('deletes files without a thumbnail', async () => {
+      useGitStore.setState({ remoteThumbnails: {} });
+
+      await act(async () => {
+        await useGitStore.getState().deleteRemoteFile('remote-b');
+      });
+
+      expect(mockDeleteFilesFromRepository).toHaveBeenCalledWith('b.mp3', ['media/b.mp3']);
+    });
+
+    it('keeps the listing when the commit fails', async () => {
+      mockDeleteFilesFromRepository.mockRejectedValue(new Error('Failed to update ref: 403'));
+
+      await expect(useGitStore.getState().deleteRemoteFile('remote-a')).rejects.toThrow('Failed to update ref: 403');
+
+      expect(useGitStore.getState().remoteFiles).toHaveLength(2);
+    });
+
+    it('rejects unknown files', async () => {
+      await expect(useGitStore.getState().deleteRemoteFile('remote-missing')).rejects.toThrow('File not found in repository');
+      expect(mockDeleteFilesFromRepository).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Remote Rename', () => {
+    const remoteFile: FileRecord = {
+      ...mockRemoteFiles[0],
+      id: 'remote-media-sha',
+      name: 'Music_Old_Me_2025-01-01.mp3',
+      url: 'https://raw.githubusercontent.com/owner/repo/main/media/Music_Old_Me_2025-01-01.mp3',
+      path: 'media/Music_Old_Me_2025-01-01.mp3',
+      sha: 'media-sha',
+    };
+
+    beforeEach(() => {
+      mockRenameFilesInRepository.mockResolvedValue([]);
+      useGitStore.setState({
+        remoteFiles: [remoteFile],
+        remoteThumbnails: {
+          'Music_Old_Me_2025-01-01': { url: 'thumbnails/Music_Old_Me_2025-01-01.png', isLocal: false, sha: 'thumb-sha' },
+        },
+      });
+    });
+
+    it('moves the media file and its thumbnail using the existing blobs', async () => {
+      await act(async () => {
+        await useGitStore.getState().renameRemoteFile('remote-media-sha', 'Music_New_Me_2025-01-01.mp3');
+      });
+
+      expect(mockRenameFilesInRepository).toHaveBeenCalledWith(
+        'Rename Music_Old_Me_2025-01-01.mp3 to Music_New_Me_2025-01-01.mp3',
+        [
+          { from: 'media/Music_Old_Me_2025-01-01.mp3', to: 'media/Music_New_Me_2025-01-01.mp3', sha: 'media-sha' },
+          { from: 'thumbnails/Music_Old_Me_2025-01-01.png', to: 'thumbnails/Music_New_Me_2025-01-01.png', sha: 'thumb-sha' },
+        ],
+        [],
+        []
+      );
+      const state = useGitStore.getState();
+      expect(state.remoteFiles[0]).toEqual(expect.objectContaining({
+        id: 'remote-media-sha',
+        name: 'Music_New_Me_2025-01-01.mp3',
+        url: 'media/Music_New_Me_2025-01-01.mp3',
+        path: 'media/Music_New_Me_2025-01-01.mp3',
+      }));
+      expect(state.remoteThumbnails).toEqual({
+        'Music_New_Me_2025-01-01': { url: 'thumbnails/Music_New_Me_2025-01-01.png', isLocal: false, sha: 'thumb-sha' },
+      });
+    });
+
+    it('replaces the thumbnail in the same commit', async () => {
+      const processed = new Blob(['jpg'], { type: 'image/jpeg' });
+      mockRenameFilesInRepository.mockResolvedValue(['new-thumb-sha']);
+
+      await act(async () => {
+        await useGitStore.getState().renameRemoteFile('remote-media-sha', 'Music_New_Me_2025-01-01.mp3', processed);
+      });
+
+      expect(mockRenameFilesInRepository).toHaveBeenCalledWith(
+        'Rename Music_Old_Me_2025-01-01.mp3 to Music_New_Me_2025-01-01.mp3',
+        [{ from: 'media/Music_Old_Me_2025-01-01.mp3', to: 'media/Music_New_Me_2025-01-01.mp3', sha: 'media-sha' }],
+        [{ path: 'thumbnails/Music_New_Me_2025-01-01.jpg', file: processed }],
+        ['thumbnails/Music_Old_Me_2025-01-01.png']
+      );
+      expect(useGitStore.getState().remoteThumbnails).toEqual({
+        'Music_New_Me_2025-01-01': { url: 'thumbnails/Music_New_Me_2025-01-01.jpg', isLocal: false, sha: 'new-thumb-sha' },
+      });
+    });
+
+    it('adds a thumbnail without renaming when only the thumbnail changes', async () => {
+      const processed = new Blob(['jpg'], { type: 'image/jpeg' });
+      useGitStore.setState({ remoteThumbnails: {} });
+
+      await act(async () => {
+        await useGitStore.getState().renameRemoteFile('remote-media-sha', remoteFile.name, processed);
+      });
+
+      expect(mockRenameFilesInRepository).toHaveBeenCalledWith(
+        'Update thumbnail for Music_Old_Me_2025-01-01.mp3',
+        [],
+        [{ path: 'thumbnails/Music_Old_Me_2025-01-01.jpg', file: processed }],
+        []
+      );
+    });
+
+    it('does not commit when nothing changed', async () => {
+      await useGitStore.getState().renameRemoteFile('remote-media-sha', remoteFile.name);
+
+      expect(mockRenameFilesInRepository).not.toHaveBeenCalled();
+    });
+
+    it('keeps the listing when the commit fails', async () => {
+      mockRenameFilesInRepository.mockRejectedValue(new Error('Failed to update ref: 403'));
+
+      await expect(useGitStore.getState().renameRemoteFile('remote-media-sha', 'Music_New_Me_2025-01-01.mp3'))
+        .rejects.toThrow('Failed to update ref: 403');
+
+      expect(useGitStore.getState().remoteFiles[0].name).toBe('Music_Old_Me_2025-01-01.mp3');
+    });
+
+    it('asks for a refresh when the cached thumbnail has no blob SHA', async () => {
+      useGitStore.setState({
+        remoteThumbnails: { 'Music_Old_Me_2025-01-01': { url: 'thumbnails/Music_Old_Me_2025-01-01.jpg', isLocal: false } },
+      });
+
+      await expect(useGitStore.getState().renameRemoteFile('remote-media-sha', 'Music_New_Me_2025-01-01.mp3'))
+        .rejects.toThrow('Refresh the library');
+      expect(mockRenameFilesInRepository).not.toHaveBeenCalled();
+    });
   });
-});
\ No newline at end of file
+
+  describe('Repository Profiles', () => {
+    const lecture = { ...mockRemoteFiles[0], id: 'lecture-1', name: 'lecture.mp3' };
+
+    it('keeps each profile\'s listing when switching', () => {
+      useGitStore.setState({ remoteFiles: mockRemoteFiles, lastRemoteFetch: 123, lastHeadSha: 'podcast-head' });
+
+      act(() => {
+        useGitStore.getState().switchProfileCache('podcast', 'lectures');
+      });
+      expect(useGitStore.getState()).toEqual(expect.objectContaining({ remoteFiles: [], lastRemoteFetch: 0, lastHeadSha: null }));
+
+      act(() => {
+        useGitStore.setState({ remoteFiles: [lecture], lastRemoteFetch: 456, lastHeadSha: 'lectures-head' });
+        useGitStore.getState().switchProfileCache('lectures', 'podcast');
+      });
+
+      const state = useGitStore.getState();
+      expect(state).toEqual(expect.objectContaining({ remoteFiles: mockRemoteFiles, lastRemoteFetch: 123, lastHeadSha: 'podcast-head' }));
+      expect(Object.keys(state.profileCaches)).toEqual(['lectures']);
+      expect(state.profileCaches.lectures.remoteFiles).toEqual([lecture]);
+    });
+
+    it('drops a listing that finishes loading after a switch', async () => {
+      let finishListing: (files: FileRecord[]) => void = () => {};
+      mockFetchRemoteFiles.mockReturnValue(new Promise(resolve => { finishListing = resolve; }));
+
+      const loading = useGitStore.getState().fetchRemoteFiles(true);
+      act(() => {
+        useGitStore.getState().switchProfileCache('podcast', 'lectures');
+      });
+      await act(async () => {
+        finishListing(mockRemoteFiles);
+        await loading;
+      });
+
+      expect(useGitStore.getState().remoteFiles).toEqual([]);
+      expect(useGitStore.getState().profileCaches.podcast.remoteFiles).toEqual([]);
+    });
+
+    it('updates the cached listing of an inactive profile', () => {
+      mockUseSettingsStore.getState.mockReturnValue({ ...mockSettingsState, activeProfileId: 'podcast' });
+      useGitStore.setState({
+        lastRemoteFetch: 123,
+        profileCaches: { lectures: { remoteFiles: [lecture], remoteThumbnails: {}, lastRemoteFetch: 456, lastHeadSha: 'lectures-head', pendingPullRequests: [] } },
+      });
+
+      act(() => {
+        useGitStore.getState().invalidateCache('lectures');
+        useGitStore.getState().addPendingPullRequest({ number: 7, url: '', branch: 'media/a.mp3', title: 'Add a.mp3', created: 1, files: [] }, 'lectures');
+      });
+
+      const state = useGitStore.getState();
+      expect(state.lastRemoteFetch).toBe(123);
+      expect(state.pendingPullRequests).toEqual([]);
+      expect(state.profileCaches.lectures).toEqual(expect.objectContaining({ lastRemoteFetch: 0, lastHeadSha: null }));
+      expect(state.profileCaches.lectures.pendingPullRequests.map(pr => pr.number)).toEqual([7]);
+    });
+
+    it('forgets the listing of a removed profile', () => {
+      useGitStore.setState({ profileCaches: { lectures: { remoteFiles: [lecture], remoteThumbnails: {}, lastRemoteFetch: 456, lastHeadSha: null, pendingPullRequests: [] } } });
+
+      act(() => {
+        useGitStore.getState().forgetProfileCache('lectures');
+      });
+
+      expect(useGitStore.getState().profileCaches).toEqual({});
+    });
+  });
+});
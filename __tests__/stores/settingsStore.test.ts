@@ -29,6 +29,8 @@ describe('settingsStore', () => {
     useSettingsStore.setState({
       audioFormat: 'mp3',
       appSettings: null,
+      profiles: [],
+      activeProfileId: null,
     });
     localStorageMock.clear();
     jest.clearAllMocks();
@@ -183,6 +185,7 @@ describe('settingsStore', () => {
 
       expect(result.current.appSettings).toEqual({
         repo: 'new-repo',
+        branch: 'main',
         path: 'new-path/',
         thumbnailPath: '',
         thumbnailWidth: 320,
@@ -324,6 +327,7 @@ describe('settingsStore', () => {
 
       expect(result.current.appSettings).toEqual({
         repo: 'test-repo',
+        branch: 'main',
         path: '',
         thumbnailPath: '',
         thumbnailWidth: 320,
@@ -369,6 +373,7 @@ describe('settingsStore', () => {
 
       expect(result.current.appSettings).toEqual({
         repo: '',
+        branch: 'main',
         path: '',
         thumbnailPath: '',
         thumbnailWidth: 320,
@@ -402,6 +407,7 @@ describe('settingsStore', () => {
 
       expect(result.current.appSettings).toEqual({
         repo: 'first',
+        branch: 'main',
         path: 'second/',
         thumbnailPath: '',
         thumbnailWidth: 800,
@@ -410,4 +416,85 @@ describe('settingsStore', () => {
       });
     });
   });
-});
\ No newline at end of file
+
+  describe('Repository Profiles', () => {
+    const podcast: AppSettings = {
+      repo: 'podcast',
+      branch: 'main',
+      path: 'episodes/',
+      thumbnailPath: 'covers/',
+      thumbnailWidth: 320,
+      thumbnailHeight: 240,
+      customCategories: [{ id: 'Interview', name: 'Interview' }],
+    };
+
+    it('should turn the first saved settings into a profile', () => {
+      act(() => {
+        useSettingsStore.getState().setAppSettings(podcast);
+      });
+
+      const { profiles, activeProfileId } = useSettingsStore.getState();
+      expect(profiles).toEqual([{ id: activeProfileId, name: 'podcast', settings: podcast }]);
+    });
+
+    it('should keep each profile\'s settings when switching', () => {
+      const store = useSettingsStore.getState();
+      act(() => {
+        store.setAppSettings(podcast);
+      });
+      const podcastId = useSettingsStore.getState().activeProfileId as string;
+
+      let lecturesId = '';
+      act(() => {
+        lecturesId = useSettingsStore.getState().addProfile('Lectures');
+      });
+      // Adding does not switch by itself
+      expect(useSettingsStore.getState().activeProfileId).toBe(podcastId);
+
+      act(() => {
+        useSettingsStore.getState().switchProfile(lecturesId);
+      });
+      expect(useSettingsStore.getState().appSettings).toEqual({ ...podcast, repo: '' });
+
+      act(() => {
+        useSettingsStore.getState().updateAppSettings({ repo: 'lectures', path: 'lectures/' });
+        useSettingsStore.getState().switchProfile(podcastId);
+      });
+      expect(useSettingsStore.getState().appSettings).toEqual(podcast);
+
+      act(() => {
+        useSettingsStore.getState().switchProfile(lecturesId);
+      });
+      expect(useSettingsStore.getState().appSettings).toEqual(expect.objectContaining({ repo: 'lectures', path: 'lectures/' }));
+    });
+
+    it('should rename profiles and keep the active one when removing', () => {
+      act(() => {
+        useSettingsStore.getState().setAppSettings(podcast);
+      });
+      const podcastId = useSettingsStore.getState().activeProfileId as string;
+      let notesId = '';
+      act(() => {
+        notesId = useSettingsStore.getState().addProfile('Notes');
+        useSettingsStore.getState().renameProfile(podcastId, 'Podcast');
+        useSettingsStore.getState().removeProfile(podcastId);
+      });
+
+      expect(useSettingsStore.getState().profiles.map(profile => profile.name)).toEqual(['Podcast', 'Notes']);
+
+      act(() => {
+        useSettingsStore.getState().removeProfile(notesId);
+      });
+      expect(useSettingsStore.getState().profiles.map(profile => profile.id)).toEqual([podcastId]);
+    });
+
+    it('should ignore switching to an unknown profile', () => {
+      act(() => {
+        useSettingsStore.getState().setAppSettings(podcast);
+        useSettingsStore.getState().switchProfile('missing');
+      });
+
+      expect(useSettingsStore.getState().appSettings).toEqual(podcast);
+    });
+  });
+});
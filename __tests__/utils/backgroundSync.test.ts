@@ -0,0 +1,194 @@
+import { registerUploadSync, runQueuedUploads, UPLOAD_SYNC_TAG } from '../../src/utils/backgroundSync';
+import * as uploadQueue from '../../src/utils/uploadQueue';
+import {
+  enqueueUploadJobs,
+  listUploadJobs,
+  removeUploadJobs,
+  updateUploadJobs,
+  takeCompletedUploads,
+  saveUploadConfig,
+  loadUploadConfig,
+} from '../../src/utils/uploadQueue';
+import type { GitHubConfig, NewUploadJob } from '../../src/types';
+
+jest.mock('../../src/utils/gitDataUtils', () => ({
+  commitFilesBatch: jest.fn(),
+}));
+
+import { commitFilesBatch } from '../../src/utils/gitDataUtils';
+
+const mockCommitFilesBatch = commitFilesBatch as jest.MockedFunction<typeof commitFilesBatch>;
+
+const config: GitHubConfig = {
+  token: 'test-token',
+  owner: 'test-owner',
+  repo: 'test-repo',
+  branch: 'main',
+  path: 'media/',
+  thumbnailPath: 'thumbnails/',
+  thumbnailWidth: 320,
+  thumbnailHeight: 240,
+};
+
+const newJob = (fileId: string, withThumbnail = false): NewUploadJob => ({
+  fileId,
+  fileName: `${fileId}.mp3`,
+  file: new Blob([fileId], { type: 'audio/mp3' }),
+  thumbnail: withThumbnail ? { fileName: `${fileId}.jpg`, file: new Blob(['thumb']) } : undefined,
+});
+
+const setServiceWorker = (value: unknown) => {
+  Object.defineProperty(navigator, 'serviceWorker', { value, configurable: true });
+};
+
+describe('backgroundSync', () => {
+  beforeEach(async () => {
+    const jobs = await listUploadJobs();
+    await removeUploadJobs(jobs.map(job => job.id));
+    await takeCompletedUploads();
+    mockCommitFilesBatch.mockResolvedValue(undefined);
+  });
+
+  describe('registerUploadSync', () => {
+    afterEach(() => {
+      delete (navigator as { serviceWorker?: unknown }).serviceWorker;
+    });
+
+    it('saves the configuration and registers the sync tag', async () => {
+      const register = jest.fn().mockResolvedValue(undefined);
+      setServiceWorker({ getRegistration: jest.fn().mockResolvedValue({ sync: { register } }) });
+
+      await expect(registerUploadSync([config, { ...config, repo: 'lectures', profileId: 'lectures' }])).resolves.toBe(true);
+
+      expect(register).toHaveBeenCalledWith(UPLOAD_SYNC_TAG);
+      await expect(loadUploadConfig()).resolves.toEqual(config);
+      await expect(loadUploadConfig('lectures')).resolves.toEqual(expect.objectContaining({ repo: 'lectures' }));
+    });
+
+    it('does nothing without a service worker', async () => {
+      await expect(registerUploadSync([config])).resolves.toBe(false);
+    });
+
+    it('does nothing when Background Sync is unsupported', async () => {
+      setServiceWorker({ getRegistration: jest.fn().mockResolvedValue({}) });
+
+      await expect(registerUploadSync([config])).resolves.toBe(false);
+    });
+
+    it('does nothing without an upload configuration', async () => {
+      const getRegistration = jest.fn();
+      setServiceWorker({ getRegistration });
+
+      await expect(registerUploadSync([])).resolves.toBe(false);
+      expect(getRegistration).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('runQueuedUploads', () => {
+    const notify = jest.fn();
+
+    beforeEach(async () => {
+      await saveUploadConfig(config);
+    });
+
+    it('commits each batch in order and reports completion', async () => {
+      await enqueueUploadJobs([newJob('a', true), newJob('b')], 'direct');
+      await enqueueUploadJobs([newJob('c')], 'direct');
+
+      await runQueuedUploads(notify);
+
+      expect(mockCommitFilesBatch).toHaveBeenCalledTimes(2);
+      expect(mockCommitFilesBatch.mock.calls[0][0]).toEqual(config);
+      expect(mockCommitFilesBatch.mock.calls[0][1].map(item => item.fileName)).toEqual(['a.mp3', 'a.jpg', 'b.mp3']);
+      expect(notify).toHaveBeenNthCalledWith(1, { type: 'upload-complete', fileIds: ['a', 'b'], fileNames: ['a.mp3', 'b.mp3'] });
+      expect(notify).toHaveBeenNthCalledWith(2, { type: 'upload-complete', fileIds: ['c'], fileNames: ['c.mp3'] });
+      expect(await listUploadJobs()).toEqual([]);
+    });
+
+    it('records the failure and rejects so the sync runs again', async () => {
+      mockCommitFilesBatch.mockRejectedValue(new Error('Failed to update ref: 500'));
+      await enqueueUploadJobs([newJob('a')], 'direct');
+      await enqueueUploadJobs([newJob('b')], 'direct');
+
+      await expect(runQueuedUploads(notify)).rejects.toThrow('Failed to update ref: 500');
+
+      expect(mockCommitFilesBatch).toHaveBeenCalledTimes(1);
+      expect(notify).toHaveBeenCalledWith({ type: 'upload-failed', fileIds: ['a'], error: 'Failed to update ref: 500' });
+      const jobs = await listUploadJobs();
+      expect(jobs[0]).toEqual(expect.objectContaining({ fileId: 'a', status: 'queued', attempts: 1 }));
+    });
+
+    it('leaves pull request batches for the app and commits the batches after them', async () => {
+      await enqueueUploadJobs([newJob('a')], 'pullRequest');
+      await enqueueUploadJobs([newJob('b')], 'direct');
+
+      await runQueuedUploads(notify);
+
+      expect(mockCommitFilesBatch).toHaveBeenCalledTimes(1);
+      expect(mockCommitFilesBatch.mock.calls[0][1].map(item => item.fileName)).toEqual(['b.mp3']);
+      expect((await listUploadJobs()).map(job => job.fileId)).toEqual(['a']);
+    });
+
+    it('waits out the backoff of failed jobs and rejects so the sync runs again', async () => {
+      const [a] = await enqueueUploadJobs([newJob('a')], 'direct');
+      await updateUploadJobs([{ ...a, attempts: 1, nextAttemptAt: Date.now() + 60_000 }]);
+      await enqueueUploadJobs([newJob('b')], 'direct');
+
+      await expect(runQueuedUploads(notify)).rejects.toThrow('Queued uploads are waiting to be retried');
+
+      expect(mockCommitFilesBatch).toHaveBeenCalledTimes(1);
+      expect(mockCommitFilesBatch.mock.calls[0][1].map(item => item.fileName)).toEqual(['b.mp3']);
+      expect(await listUploadJobs()).toEqual([expect.objectContaining({ fileId: 'a', attempts: 1 })]);
+    });
+
+    it('retries jobs whose backoff has expired', async () => {
+      const [a] = await enqueueUploadJobs([newJob('a')], 'direct');
+      await updateUploadJobs([{ ...a, attempts: 1, nextAttemptAt: Date.now() - 1000 }]);
+
+      await runQueuedUploads(notify);
+
+      expect(mockCommitFilesBatch).toHaveBeenCalledTimes(1);
+      expect(await listUploadJobs()).toEqual([]);
+    });
+
+    it('commits each batch with the configuration of its profile', async () => {
+      await saveUploadConfig({ ...config, repo: 'lectures', profileId: 'lectures' });
+      await enqueueUploadJobs([{ ...newJob('a'), profileId: 'lectures' }], 'direct');
+      await enqueueUploadJobs([newJob('b')], 'direct');
+
+      await runQueuedUploads(notify);
+
+      expect(mockCommitFilesBatch.mock.calls[0][0].repo).toBe('lectures');
+      expect(mockCommitFilesBatch.mock.calls[1][0].repo).toBe('test-repo');
+      expect(notify).toHaveBeenCalledWith(expect.objectContaining({ type: 'upload-complete', fileIds: ['a'], profileId: 'lectures' }));
+    });
+
+    it('records committed uploads for the app to clean up on its next start', async () => {
+      await enqueueUploadJobs([newJob('a'), newJob('b')], 'direct');
+
+      await runQueuedUploads(notify);
+
+      expect((await takeCompletedUploads()).map(upload => upload.fileName)).toEqual(['a.mp3', 'b.mp3']);
+    });
+
+    it('leaves batches for a profile without a saved configuration to the app', async () => {
+      await enqueueUploadJobs([{ ...newJob('a'), profileId: 'unknown' }], 'direct');
+      await enqueueUploadJobs([newJob('b')], 'direct');
+
+      await runQueuedUploads(notify);
+
+      expect(mockCommitFilesBatch).toHaveBeenCalledTimes(1);
+      expect(mockCommitFilesBatch.mock.calls[0][1].map(item => item.fileName)).toEqual(['b.mp3']);
+      expect((await listUploadJobs()).map(job => job.fileId)).toEqual(['a']);
+    });
+
+    it('does nothing until the app has saved a configuration', async () => {
+      jest.spyOn(uploadQueue, 'loadUploadConfig').mockResolvedValueOnce(null);
+      await enqueueUploadJobs([newJob('a')], 'direct');
+
+      await runQueuedUploads(notify);
+
+      expect(mockCommitFilesBatch).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,106 @@
+import { Blob as NodeBlob } from 'buffer';
+import { ReadableStream as NodeReadableStream } from 'stream/web';
+import { TextEncoder as NodeTextEncoder } from 'util';
+import {
+  BASE64_CHUNK_SIZE,
+  bytesToBase64,
+  base64Chunks,
+  createBase64JsonStream,
+  composeBase64JsonBlob,
+} from '../../src/utils/base64Stream';
+
+// Real byte-level blobs and streams; the global mocks do not slice or stream
+const bytes = (length: number) => Uint8Array.from({ length }, (_, i) => (i * 31) % 256);
+const nodeBlob = (data: Uint8Array) => new NodeBlob([data]) as unknown as Blob;
+
+async function readText(stream: ReadableStream<Uint8Array>): Promise<string> {
+  const reader = stream.getReader();
+  const parts: Uint8Array[] = [];
+  for (let result = await reader.read(); !result.done; result = await reader.read()) {
+    parts.push(result.value);
+  }
+  return Buffer.concat(parts).toString();
+}
+
+describe('base64Stream', () => {
+  const originalReadableStream = global.ReadableStream;
+  const originalTextEncoder = global.TextEncoder;
+  const originalBlob = global.Blob;
+
+  beforeAll(() => {
+    global.ReadableStream = NodeReadableStream as unknown as typeof ReadableStream;
+    global.TextEncoder = NodeTextEncoder as unknown as typeof TextEncoder;
+    global.Blob = NodeBlob as unknown as typeof Blob;
+  });
+
+  afterAll(() => {
+    global.ReadableStream = originalReadableStream;
+    global.TextEncoder = originalTextEncoder;
+    global.Blob = originalBlob;
+  });
+
+  it('keeps chunks aligned to whole base64 groups', () => {
+    expect(BASE64_CHUNK_SIZE % 3).toBe(0);
+  });
+
+  it('encodes bytes like Buffer does', () => {
+    const data = bytes(100000);
+    expect(bytesToBase64(data)).toBe(Buffer.from(data).toString('base64'));
+    expect(bytesToBase64(new Uint8Array())).toBe('');
+  });
+
+  it('yields one encoded string per chunk', async () => {
+    const data = bytes(3000);
+    const chunks: string[] = [];
+
+    for await (const chunk of base64Chunks(nodeBlob(data), 999)) {
+      chunks.push(chunk);
+    }
+
+    expect(chunks).toHaveLength(4);
+    expect(chunks.join('')).toBe(Buffer.from(data).toString('base64'));
+  });
+
+  it('streams a JSON body that decodes to the original bytes', async () => {
+    const data = bytes(10000);
+    const stream = createBase64JsonStream(nodeBlob(data), '{"content":"', '","encoding":"base64"}', 3 * 1024);
+
+    const body = await readText(stream);
+
+    expect(JSON.parse(body)).toEqual({
+      content: Buffer.from(data).toString('base64'),
+      encoding: 'base64',
+    });
+  });
+
+  it('only reads the file as the stream is pulled', async () => {
+    const file = nodeBlob(bytes(30000));
+    const sliceSpy = jest.spyOn(file, 'slice');
+    const reader = createBase64JsonStream(file, '{', '}', 3000).getReader();
+
+    await reader.read(); // prefix
+    await reader.read(); // first chunk
+
+    // The stream may buffer one chunk ahead, never the whole file
+    expect(sliceSpy.mock.calls.length).toBeLessThanOrEqual(2);
+
+    await reader.cancel();
+  });
+
+  it('reports file bytes as chunks are read', async () => {
+    const onBytesRead = jest.fn();
+
+    await readText(createBase64JsonStream(nodeBlob(bytes(7000)), '{', '}', 3000, onBytesRead));
+
+    expect(onBytesRead.mock.calls).toEqual([[3000], [6000], [7000]]);
+  });
+
+  it('composes the same body as a Blob', async () => {
+    const data = bytes(10000);
+
+    const body = await composeBase64JsonBlob(nodeBlob(data), '{"content":"', '"}', 3 * 1024);
+
+    expect(body.type).toBe('application/json');
+    expect(JSON.parse(await body.text())).toEqual({ content: Buffer.from(data).toString('base64') });
+  });
+});
@@ -0,0 +1,105 @@
+import { requestDeviceCode, pollDeviceToken } from '../../src/utils/deviceFlow';
+import { server, deviceFlow, mockGithubResponses } from '../__mocks__/server';
+
+const options = { clientId: 'test-client-id', baseUrl: 'https://github.com' };
+const NOW = new Date('2025-10-06T12:00:00Z').getTime();
+
+describe('deviceFlow', () => {
+  beforeAll(() => {
+    server.listen({ onUnhandledRequest: 'error' });
+  });
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: NOW });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    mockGithubResponses.resetToDefaults();
+  });
+
+  afterAll(() => {
+    server.close();
+  });
+
+  // Poll to completion, letting fake time pass in steps of one second
+  async function poll(authorization: Awaited<ReturnType<typeof requestDeviceCode>>, signal?: AbortSignal) {
+    let outcome: { token?: string; error?: Error } | null = null;
+    pollDeviceToken(options, authorization, signal).then(
+      token => { outcome = { token }; },
+      error => { outcome = { error }; }
+    );
+    for (let i = 0; i < 120 && !outcome; i++) {
+      await jest.advanceTimersByTimeAsync(1000);
+    }
+    return outcome as unknown as { token?: string; error?: Error };
+  }
+
+  it('asks GitHub for a user code', async () => {
+    const authorization = await requestDeviceCode(options);
+
+    expect(authorization).toEqual({
+      deviceCode: 'test-device-code',
+      userCode: 'WDJB-MJHT',
+      verificationUri: 'https://github.com/login/device',
+      expiresAt: NOW + 900 * 1000,
+      interval: 5,
+    });
+  });
+
+  it('fails for an unknown client ID', async () => {
+    await expect(requestDeviceCode({ ...options, clientId: 'unknown' })).rejects.toThrow('404');
+  });
+
+  it('polls at the interval GitHub names until the code is authorized', async () => {
+    deviceFlow.pendingPolls = 2;
+    const authorization = await requestDeviceCode(options);
+
+    const { token } = await poll(authorization);
+
+    expect(token).toBe('gho_device_token');
+    expect(deviceFlow.polls).toEqual([NOW + 5000, NOW + 10000, NOW + 15000]);
+  });
+
+  it('waits longer after slow_down', async () => {
+    deviceFlow.slowDown = true;
+    const authorization = await requestDeviceCode(options);
+
+    const { token } = await poll(authorization);
+
+    expect(token).toBe('gho_device_token');
+    // The first poll is told to slow down to 10 seconds
+    expect(deviceFlow.polls).toEqual([NOW + 5000, NOW + 15000]);
+  });
+
+  it('stops when the user denies access', async () => {
+    deviceFlow.deny = true;
+    const authorization = await requestDeviceCode(options);
+
+    const { error } = await poll(authorization);
+
+    expect(error?.message).toBe('Sign-in was cancelled on GitHub.');
+  });
+
+  it('stops once the code has expired', async () => {
+    deviceFlow.pendingPolls = Infinity;
+    const authorization = await requestDeviceCode(options);
+
+    const { error } = await poll({ ...authorization, expiresAt: NOW + 12000 });
+
+    expect(error?.message).toBe('The sign-in code expired. Please start again.');
+    expect(deviceFlow.polls).toHaveLength(2);
+  });
+
+  it('stops polling when aborted', async () => {
+    deviceFlow.pendingPolls = Infinity;
+    const authorization = await requestDeviceCode(options);
+    const controller = new AbortController();
+    setTimeout(() => controller.abort(), 7000);
+
+    const { error } = await poll(authorization, controller.signal);
+
+    expect(error?.name).toBe('AbortError');
+    expect(deviceFlow.polls).toHaveLength(1);
+  });
+});
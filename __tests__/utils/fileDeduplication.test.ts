@@ -3,7 +3,7 @@ import {
   deduplicateById,
   findFilesToRemove,
 } from '../../src/utils/fileDeduplication';
-import type { FileRecord } from '../../src/types';
+import type { FileRecord, PendingPullRequest } from '../../src/types';
 
 // Mock the sortFilesByDate function from fileUtils
 jest.mock('../../src/utils/fileUtils', () => ({
@@ -106,9 +106,9 @@ describe('fileDeduplication utilities', () => {
     });
 
     describe('deduplication logic', () => {
-      it('removes remote files with same name as local files', () => {
+      it('removes remote files with same name as uploaded local files', () => {
         const localFiles: FileRecord[] = [
-          createMockFile({ id: 'local-1', name: 'duplicate.mp3', type: 'audio' }),
+          createMockFile({ id: 'local-1', name: 'duplicate.mp3', type: 'audio', uploaded: true }),
         ];
 
         const remoteFiles: FileRecord[] = [
@@ -124,6 +124,19 @@ describe('fileDeduplication utilities', () => {
         expect(result.find(f => f.id === 'remote-1')).toBeUndefined();
       });
 
+      it('keeps remote files with the same name as a recording that is not uploaded yet', () => {
+        const localFiles: FileRecord[] = [
+          createMockFile({ id: 'local-1', name: 'Podcast_Weekly_Team_2025-03-01.mp3', type: 'audio', uploaded: false }),
+        ];
+        const remoteFiles: FileRecord[] = [
+          createMockFile({ id: 'remote-1', name: 'Podcast_Weekly_Team_2025-03-01.mp3', type: 'audio' }),
+        ];
+
+        const result = combineAndDeduplicateFiles(localFiles, remoteFiles);
+
+        expect(result.map(f => f.id).sort()).toEqual(['local-1', 'remote-1']);
+      });
+
       it('removes remote files with same ID as local files', () => {
         const localFiles: FileRecord[] = [
           createMockFile({ id: 'duplicate-id', name: 'local.mp3', type: 'audio' }),
@@ -224,6 +237,82 @@ describe('fileDeduplication utilities', () => {
         );
       });
     });
+
+    describe('pending pull requests', () => {
+      const pullRequest: PendingPullRequest = {
+        number: 7,
+        url: 'https://github.com/owner/repo/pull/7',
+        branch: 'media/clip.mp4',
+        title: 'Add clip.mp4',
+        created: 5000,
+        files: [
+          { fileName: 'clip.mp4', path: 'media/clip.mp4', pathType: 'media' },
+          { fileName: 'clip.jpg', path: 'thumbnails/clip.jpg', pathType: 'thumbnail' },
+        ],
+      };
+
+      it('lists media files of open pull requests with their pull request', () => {
+        const result = combineAndDeduplicateFiles([], [], [pullRequest]);
+
+        expect(result).toHaveLength(1);
+        expect(result[0]).toMatchObject({
+          id: 'pr-7-clip.mp4',
+          name: 'clip.mp4',
+          type: 'video',
+          url: 'media/clip.mp4',
+          isLocal: false,
+          uploaded: true,
+          pullRequest: { number: 7, url: 'https://github.com/owner/repo/pull/7', branch: 'media/clip.mp4' },
+        });
+      });
+
+      it('prefers the branch copy once the pull request has been merged', () => {
+        const remoteFiles: FileRecord[] = [
+          createMockFile({ id: 'remote-1', name: 'clip.mp4', type: 'video' }),
+        ];
+
+        const result = combineAndDeduplicateFiles([], remoteFiles, [pullRequest]);
+
+        expect(result).toHaveLength(1);
+        expect(result[0].id).toBe('remote-1');
+        expect(result[0].pullRequest).toBeUndefined();
+      });
+
+      it('prefers the local copy while it is still being cleaned up', () => {
+        const localFiles: FileRecord[] = [
+          createMockFile({ id: 'local-1', name: 'clip.mp4', type: 'video', uploaded: true }),
+        ];
+
+        const result = combineAndDeduplicateFiles(localFiles, [], [pullRequest]);
+
+        expect(result).toHaveLength(1);
+        expect(result[0].id).toBe('local-1');
+      });
+    });
+
+    describe('offline copies', () => {
+      it('marks remote files with a downloaded copy as cached', () => {
+        const remoteFiles: FileRecord[] = [
+          createMockFile({ id: 'remote-1', name: 'kept.mp3' }),
+          createMockFile({ id: 'remote-2', name: 'streamed.mp3' }),
+        ];
+        const offlineFiles = { 'remote-1': { size: 1024, cachedAt: 1000, hasThumbnail: false } };
+
+        const result = combineAndDeduplicateFiles([], remoteFiles, [], offlineFiles);
+
+        expect(result.find(f => f.id === 'remote-1')?.cached).toBe(true);
+        expect(result.find(f => f.id === 'remote-2')?.cached).toBeUndefined();
+      });
+
+      it('does not mark local files as cached', () => {
+        const localFiles: FileRecord[] = [createMockFile({ id: 'local-1', name: 'local.mp3' })];
+        const offlineFiles = { 'local-1': { size: 1024, cachedAt: 1000, hasThumbnail: false } };
+
+        const result = combineAndDeduplicateFiles(localFiles, [], [], offlineFiles);
+
+        expect(result[0].cached).toBeUndefined();
+      });
+    });
   });
 
   describe('deduplicateById', () => {
@@ -10,6 +10,7 @@ import {
   decodeWebmToPCM,
   encodeWAV,
   sortFilesByDate,
+  withCopySuffix,
 } from '../../src/utils/fileUtils';
 import type { FileMetadata } from '../../src/types';
 
@@ -437,6 +438,30 @@ describe('fileUtils', () => {
         expect(parseMediaFileName(undefined as unknown as string)).toBe(null);
       });
     });
+
+    describe('withCopySuffix', () => {
+      it('numbers the title of standard file names', () => {
+        const renamed = withCopySuffix('Podcast_Weekly_Team_2025-03-01.mp3', 2);
+
+        expect(renamed).toBe('Podcast_Weekly (2)_Team_2025-03-01.mp3');
+        expect(parseMediaFileName(renamed)).toEqual({
+          category: 'Podcast',
+          title: 'Weekly (2)',
+          author: 'Team',
+          date: '2025-03-01',
+          extension: 'mp3',
+        });
+      });
+
+      it('numbers standard file names without a date', () => {
+        expect(withCopySuffix('Music_My Song_Artist.mp3', 3)).toBe('Music_My Song (3)_Artist.mp3');
+      });
+
+      it('numbers other file names before the extension', () => {
+        expect(withCopySuffix('recording.final.wav', 2)).toBe('recording.final (2).wav');
+        expect(withCopySuffix('recording', 2)).toBe('recording (2)');
+      });
+    });
   });
 
   describe('File Validation', () => {
@@ -0,0 +1,133 @@
+import { githubFetch, clearGitHubCache } from '../../src/utils/githubFetch';
+import { getRateLimitStatus, clearRateLimitStatus } from '../../src/utils/rateLimit';
+import { subscribeTokenExpiration } from '../../src/utils/tokenExpiration';
+
+const REF_URL = 'https://api.github.com/repos/test-owner/test-repo/git/refs/heads/main';
+const init = { headers: { Authorization: 'Bearer test-token' } };
+
+const jsonResponse = (body: unknown, headers: Record<string, string> = {}, status = 200) =>
+  new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json', ...headers } });
+
+describe('githubFetch', () => {
+  beforeEach(async () => {
+    await clearGitHubCache();
+    (global.fetch as jest.Mock).mockReset();
+  });
+
+  it('sends the request unchanged when nothing is cached', async () => {
+    (global.fetch as jest.Mock).mockResolvedValueOnce({ ok: true, status: 200, json: () => Promise.resolve({}) });
+
+    await githubFetch(REF_URL, init);
+
+    expect(global.fetch).toHaveBeenCalledWith(REF_URL, init);
+  });
+
+  it('revalidates with the ETag and serves a 304 from the cache', async () => {
+    (global.fetch as jest.Mock)
+      .mockResolvedValueOnce(jsonResponse({ object: { sha: 'abc' } }, { ETag: '"etag-1"' }))
+      .mockResolvedValueOnce(new Response(null, { status: 304 }));
+
+    await githubFetch(REF_URL, init);
+    const response = await githubFetch(REF_URL, init);
+
+    expect(global.fetch).toHaveBeenLastCalledWith(REF_URL, {
+      headers: { Authorization: 'Bearer test-token', 'If-None-Match': '"etag-1"' },
+    });
+    expect(response.status).toBe(200);
+    await expect(response.json()).resolves.toEqual({ object: { sha: 'abc' } });
+  });
+
+  it('revalidates with Last-Modified when there is no ETag', async () => {
+    (global.fetch as jest.Mock)
+      .mockResolvedValueOnce(jsonResponse([], { 'Last-Modified': 'Mon, 06 Oct 2025 10:00:00 GMT' }))
+      .mockResolvedValueOnce(new Response(null, { status: 304 }));
+
+    await githubFetch(REF_URL, init);
+    await githubFetch(REF_URL, init);
+
+    expect((global.fetch as jest.Mock).mock.calls[1][1].headers['If-Modified-Since']).toBe('Mon, 06 Oct 2025 10:00:00 GMT');
+  });
+
+  it('replaces the cached copy when the resource changed', async () => {
+    (global.fetch as jest.Mock)
+      .mockResolvedValueOnce(jsonResponse({ object: { sha: 'abc' } }, { ETag: '"etag-1"' }))
+      .mockResolvedValueOnce(jsonResponse({ object: { sha: 'def' } }, { ETag: '"etag-2"' }))
+      .mockResolvedValueOnce(new Response(null, { status: 304 }));
+
+    await githubFetch(REF_URL, init);
+    await githubFetch(REF_URL, init);
+    const response = await githubFetch(REF_URL, init);
+
+    expect((global.fetch as jest.Mock).mock.calls[2][1].headers['If-None-Match']).toBe('"etag-2"');
+    await expect(response.json()).resolves.toEqual({ object: { sha: 'def' } });
+  });
+
+  it('keeps separate copies per media type and account', async () => {
+    const rawInit = { headers: { ...init.headers, Accept: 'application/vnd.github.raw+json' } };
+    const otherAccountInit = { headers: { Authorization: 'Bearer other-token' } };
+    (global.fetch as jest.Mock)
+      .mockResolvedValueOnce(jsonResponse({ content: 'e30=' }, { ETag: '"json"' }))
+      .mockResolvedValueOnce(new Response('{}', { status: 200, headers: { ETag: '"raw"' } }))
+      .mockResolvedValueOnce(new Response(null, { status: 304 }));
+
+    await githubFetch(REF_URL, init);
+    await githubFetch(REF_URL, rawInit);
+    const raw = await githubFetch(REF_URL, rawInit);
+
+    expect((global.fetch as jest.Mock).mock.calls[1][1]).toEqual(rawInit);
+    expect((global.fetch as jest.Mock).mock.calls[2][1].headers['If-None-Match']).toBe('"raw"');
+    await expect(raw.text()).resolves.toBe('{}');
+
+    (global.fetch as jest.Mock).mockResolvedValueOnce(jsonResponse({}));
+    await githubFetch(REF_URL, otherAccountInit);
+    expect(global.fetch).toHaveBeenLastCalledWith(REF_URL, otherAccountInit);
+  });
+
+  it('does not cache writes or requests outside the API', async () => {
+    (global.fetch as jest.Mock).mockImplementation(() => Promise.resolve(jsonResponse({}, { ETag: '"etag-1"' })));
+    const rawUrl = 'https://raw.githubusercontent.com/test-owner/test-repo/main/media/a.mp3';
+    const write = { method: 'PATCH', headers: { Authorization: 'Bearer test-token' }, body: '{}' };
+
+    await githubFetch(rawUrl);
+    await githubFetch(rawUrl);
+    await githubFetch(REF_URL, write);
+    await githubFetch(REF_URL, write);
+
+    expect(global.fetch).toHaveBeenNthCalledWith(2, rawUrl, {});
+    expect(global.fetch).toHaveBeenNthCalledWith(4, REF_URL, write);
+  });
+
+  it('records the rate limit from every response, 304s included', async () => {
+    clearRateLimitStatus();
+    (global.fetch as jest.Mock)
+      .mockResolvedValueOnce(jsonResponse({}, { ETag: '"etag-1"', 'X-RateLimit-Remaining': '4999' }))
+      .mockResolvedValueOnce(new Response(null, { status: 304, headers: { 'X-RateLimit-Remaining': '4998' } }));
+
+    await githubFetch(REF_URL, init);
+    expect(getRateLimitStatus().remaining).toBe(4999);
+    await githubFetch(REF_URL, init);
+    expect(getRateLimitStatus().remaining).toBe(4998);
+  });
+
+  it('reports the token expiry of every response', async () => {
+    const listener = jest.fn();
+    const unsubscribe = subscribeTokenExpiration(listener);
+    (global.fetch as jest.Mock)
+      .mockResolvedValueOnce(jsonResponse({}, { 'github-authentication-token-expiration': '2025-11-01 12:00:00 UTC' }));
+
+    await githubFetch(REF_URL, { ...init, method: 'PATCH' });
+    unsubscribe();
+
+    expect(listener).toHaveBeenCalledWith(Date.parse('2025-11-01T12:00:00Z'));
+  });
+
+  it('forgets cached responses when cleared', async () => {
+    (global.fetch as jest.Mock).mockImplementation(() => Promise.resolve(jsonResponse({}, { ETag: '"etag-1"' })));
+
+    await githubFetch(REF_URL, init);
+    await clearGitHubCache();
+    await githubFetch(REF_URL, init);
+
+    expect(global.fetch).toHaveBeenLastCalledWith(REF_URL, init);
+  });
+});
@@ -2,8 +2,24 @@ import {
   generateFreshDownloadUrl,
   fetchRemoteFiles,
   fetchRemoteThumbnails,
+  fetchRepositoryBranches,
+  fetchPullRequestState,
   extractDateFromFilename,
+  fetchHeadSha,
+  fetchRemoteChanges,
+  fetchFileHistory,
+  checkRepositoryAccess,
+  repositoryCheckTarget,
+  fetchRepositoryPaths,
+  isForeignPodcastFeed,
 } from '../../src/utils/githubUtils';
+import { buildPodcastFeed } from '../../src/utils/podcastFeed';
+import { clearRateLimitStatus } from '../../src/utils/rateLimit';
+
+jest.mock('../../src/utils/lfsUtils', () => ({
+  ...jest.requireActual('../../src/utils/lfsUtils'),
+  fetchLfsDownloadUrl: jest.fn(),
+}));
 
 // Mock stores
 jest.mock('../../src/stores/authStore', () => ({
@@ -18,9 +34,23 @@ jest.mock('../../src/stores/settingsStore', () => ({
   },
 }));
 
+import { fetchLfsDownloadUrl } from '../../src/utils/lfsUtils';
+
+const mockFetchLfsDownloadUrl = fetchLfsDownloadUrl as jest.MockedFunction<typeof fetchLfsDownloadUrl>;
+
 // Mock fetch
 global.fetch = jest.fn();
 
+// Recursive Git Trees API listing of the branch
+const gitTree = (tree: Array<{ path: string; type: string; sha?: string; size?: number }>, truncated = false) => ({
+  sha: 'root-tree-sha',
+  tree,
+  truncated,
+});
+
+// No media manifest in the repository, so listings describe every file themselves
+const manifestMissing = { ok: false, status: 404 };
+
 // Mock console.log to prevent spam during tests
 global.console.log = jest.fn();
 
@@ -30,6 +60,7 @@ describe('githubUtils', () => {
 
   beforeEach(() => {
     jest.clearAllMocks();
+    clearRateLimitStatus();
     
     // Get the mocked stores
     mockUseAuthStore = require('../../src/stores/authStore').useAuthStore;
@@ -71,7 +102,7 @@ describe('githubUtils', () => {
 
         expect(result).toBe('https://raw.githubusercontent.com/test-owner/test-repo/main/recordings/test.mp3');
         expect(global.fetch).toHaveBeenCalledWith(
-          'https://api.github.com/repos/test-owner/test-repo/contents/recordings/test.mp3',
+          'https://api.github.com/repos/test-owner/test-repo/contents/recordings/test.mp3?ref=main',
           {
             headers: {
               Authorization: 'Bearer test-token',
@@ -183,20 +214,16 @@ describe('githubUtils', () => {
       it('fetches files from GitHub repository', async () => {
         const mockFiles = [
           {
-            name: 'test1.mp3',
             path: 'recordings/test1.mp3',
             sha: 'sha1',
             size: 1024,
-            download_url: 'https://raw.githubusercontent.com/test-owner/test-repo/main/recordings/test1.mp3',
-            type: 'file',
+            type: 'blob',
           },
           {
-            name: 'test2.wav',
             path: 'recordings/test2.wav',
             sha: 'sha2',
             size: 2048,
-            download_url: 'https://raw.githubusercontent.com/test-owner/test-repo/main/recordings/test2.wav',
-            type: 'file',
+            type: 'blob',
           },
         ];
 
@@ -206,9 +233,10 @@ describe('githubUtils', () => {
             ok: true,
             json: () => Promise.resolve({ name: 'test-repo' }),
           })
+          .mockResolvedValueOnce(manifestMissing)
           .mockResolvedValueOnce({
             ok: true,
-            json: () => Promise.resolve(mockFiles),
+            json: () => Promise.resolve(gitTree(mockFiles)),
           });
 
         const result = await fetchRemoteFiles();
@@ -224,7 +252,7 @@ describe('githubUtils', () => {
           }
         );
         expect(global.fetch).toHaveBeenCalledWith(
-          'https://api.github.com/repos/test-owner/test-repo/contents/recordings',
+          'https://api.github.com/repos/test-owner/test-repo/git/trees/main?recursive=1',
           {
             headers: { Authorization: 'Bearer test-token' },
             cache: 'default'
@@ -239,9 +267,10 @@ describe('githubUtils', () => {
             ok: true,
             json: () => Promise.resolve({ name: 'test-repo' }),
           })
+          .mockResolvedValueOnce(manifestMissing)
           .mockResolvedValueOnce({
             ok: true,
-            json: () => Promise.resolve([]),
+            json: () => Promise.resolve(gitTree([])),
           });
 
         const result = await fetchRemoteFiles();
@@ -252,17 +281,14 @@ describe('githubUtils', () => {
       it('filters out directories', async () => {
         const mockResponse = [
           {
-            name: 'test.mp3',
             path: 'recordings/test.mp3',
-            type: 'file',
+            type: 'blob',
             size: 1024,
             sha: 'sha1',
-            download_url: 'https://example.com/test.mp3',
           },
           {
-            name: 'subfolder',
             path: 'recordings/subfolder',
-            type: 'dir',
+            type: 'tree',
           },
         ];
 
@@ -272,9 +298,10 @@ describe('githubUtils', () => {
             ok: true,
             json: () => Promise.resolve({ name: 'test-repo' }),
           })
+          .mockResolvedValueOnce(manifestMissing)
           .mockResolvedValueOnce({
             ok: true,
-            json: () => Promise.resolve(mockResponse),
+            json: () => Promise.resolve(gitTree(mockResponse)),
           });
 
         const result = await fetchRemoteFiles();
@@ -283,6 +310,68 @@ describe('githubUtils', () => {
         expect(result[0].name).toBe('test.mp3');
         expect(result[0].type).toBe('audio');
       });
+
+      it('lists media in subfolders with their folder path', async () => {
+        (global.fetch as jest.Mock).mockImplementation((url: string) => {
+          if (url.endsWith('/git/trees/main?recursive=1')) {
+            return Promise.resolve({
+              ok: true,
+              json: () => Promise.resolve(gitTree([
+                { path: 'README.md', type: 'blob', sha: 'readme', size: 10 },
+                { path: 'recordings', type: 'tree', sha: 'recordings-tree' },
+                { path: 'recordings/top.mp3', type: 'blob', sha: 'top', size: 4096 },
+                { path: 'recordings/Podcast', type: 'tree', sha: 'podcast-tree' },
+                { path: 'recordings/Podcast/2025/episode.mp3', type: 'blob', sha: 'episode', size: 4096 },
+                { path: 'recordings-old/stale.mp3', type: 'blob', sha: 'stale', size: 4096 },
+              ])),
+            });
+          }
+          return Promise.resolve({ ok: true, json: () => Promise.resolve({}) });
+        });
+
+        const result = await fetchRemoteFiles();
+
+        expect(result.map(file => [file.name, file.folder, file.path])).toEqual(expect.arrayContaining([
+          ['top.mp3', '', 'recordings/top.mp3'],
+          ['episode.mp3', 'Podcast/2025', 'recordings/Podcast/2025/episode.mp3'],
+        ]));
+        expect(result).toHaveLength(2);
+      });
+
+      it('walks subtrees when the recursive listing is truncated', async () => {
+        const responses: Record<string, unknown> = {
+          // Whole branch: too large, cut short before reaching the recordings
+          'git/trees/main?recursive=1': gitTree([{ path: 'assets/a.png', type: 'blob', sha: 'a', size: 1 }], true),
+          'git/trees/root-tree-sha': gitTree([
+            { path: 'assets', type: 'tree', sha: 'assets-tree' },
+            { path: 'recordings', type: 'tree', sha: 'recordings-tree' },
+          ]),
+          // Recordings folder: still too large, so list it level by level
+          'git/trees/recordings-tree?recursive=1': gitTree([], true),
+          'git/trees/recordings-tree': gitTree([
+            { path: 'top.mp3', type: 'blob', sha: 'top', size: 4096 },
+            { path: 'Podcast', type: 'tree', sha: 'podcast-tree' },
+          ]),
+          'git/trees/podcast-tree?recursive=1': gitTree([
+            { path: '2025', type: 'tree', sha: 'year-tree' },
+            { path: '2025/episode.mp3', type: 'blob', sha: 'episode', size: 4096 },
+          ]),
+        };
+        (global.fetch as jest.Mock).mockImplementation((url: string) => {
+          const key = Object.keys(responses).find(path => url.endsWith(`/${path}`));
+          return Promise.resolve(key
+            ? { ok: true, json: () => Promise.resolve(responses[key]) }
+            : { ok: true, json: () => Promise.resolve({}) });
+        });
+
+        const result = await fetchRemoteFiles();
+
+        expect(result.map(file => file.path).sort()).toEqual([
+          'recordings/Podcast/2025/episode.mp3',
+          'recordings/top.mp3',
+        ]);
+        expect(result.find(file => file.name === 'episode.mp3')?.folder).toBe('Podcast/2025');
+      });
     });
 
     describe('error handling', () => {
@@ -304,7 +393,7 @@ describe('githubUtils', () => {
           });
         });
 
-        await expect(fetchRemoteFiles()).rejects.toThrow('GitHub API rate limit exceeded or repository access denied');
+        await expect(fetchRemoteFiles()).rejects.toThrow('Access to the repository was denied');
       });
 
       it('handles rate limiting', async () => {
@@ -313,11 +402,15 @@ describe('githubUtils', () => {
             ok: false,
             status: 403,
             statusText: 'Rate Limited',
+            headers: new Map([
+              ['X-RateLimit-Remaining', '0'],
+              ['X-RateLimit-Reset', String(Math.floor(Date.now() / 1000) + 600)],
+            ]),
             json: () => Promise.resolve({}),
           });
         });
 
-        await expect(fetchRemoteFiles()).rejects.toThrow('GitHub API rate limit exceeded or repository access denied');
+        await expect(fetchRemoteFiles()).rejects.toThrow(/^GitHub API rate limit reached, paused until /);
       });
 
       it('handles network errors', async () => {
@@ -335,25 +428,23 @@ describe('githubUtils', () => {
       it('fetches thumbnails from GitHub repository', async () => {
         const mockThumbnails = [
           {
-            name: 'thumb1.jpg',
             path: 'thumbnails/thumb1.jpg',
             sha: 'sha1',
             size: 512,
-            download_url: 'https://raw.githubusercontent.com/test-owner/test-repo/main/thumbnails/thumb1.jpg',
-            type: 'file',
+            type: 'blob',
           },
         ];
 
         (global.fetch as jest.Mock).mockResolvedValueOnce({
           ok: true,
-          json: () => Promise.resolve(mockThumbnails),
+          json: () => Promise.resolve(gitTree(mockThumbnails)),
         });
 
         const result = await fetchRemoteThumbnails();
 
-        expect(result).toEqual({ thumb1: { url: 'thumbnails/thumb1.jpg', isLocal: false } });
+        expect(result).toEqual({ thumb1: { url: 'thumbnails/thumb1.jpg', isLocal: false, sha: 'sha1' } });
         expect(global.fetch).toHaveBeenCalledWith(
-          'https://api.github.com/repos/test-owner/test-repo/contents/thumbnails',
+          'https://api.github.com/repos/test-owner/test-repo/git/trees/main?recursive=1',
           {
             headers: {
               Authorization: 'Bearer test-token',
@@ -364,17 +455,31 @@ describe('githubUtils', () => {
       });
 
       it('handles missing thumbnails directory', async () => {
-        // Mock 404 for thumbnails directory - should return empty object, not throw
         (global.fetch as jest.Mock).mockResolvedValue({
-          ok: false,
-          status: 404,
-          statusText: 'Not Found',
-          json: () => Promise.resolve({}),
+          ok: true,
+          json: () => Promise.resolve(gitTree([
+            { path: 'recordings/test.mp3', type: 'blob', sha: 'media', size: 1024 },
+          ])),
         });
 
         const result = await fetchRemoteThumbnails();
         expect(result).toEqual({});
       });
+
+      it('finds thumbnails in subfolders', async () => {
+        (global.fetch as jest.Mock).mockResolvedValue({
+          ok: true,
+          json: () => Promise.resolve(gitTree([
+            { path: 'thumbnails/Podcast', type: 'tree', sha: 'podcast-tree' },
+            { path: 'thumbnails/Podcast/episode.jpg', type: 'blob', sha: 'episode-thumb', size: 512 },
+          ])),
+        });
+
+        const result = await fetchRemoteThumbnails();
+        expect(result).toEqual({
+          episode: { url: 'thumbnails/Podcast/episode.jpg', isLocal: false, sha: 'episode-thumb' },
+        });
+      });
     });
 
     describe('error handling', () => {
@@ -401,6 +506,660 @@ describe('githubUtils', () => {
     });
   });
 
+  describe('configured branch', () => {
+    beforeEach(() => {
+      mockUseSettingsStore.getState.mockReturnValue({
+        appSettings: {
+          repo: 'test-repo',
+          branch: 'media',
+          path: 'recordings/',
+          thumbnailPath: 'thumbnails/',
+          thumbnailWidth: 320,
+          thumbnailHeight: 240,
+        },
+      });
+    });
+
+    it('reads directory listings from the configured branch', async () => {
+      (global.fetch as jest.Mock).mockResolvedValue({
+        ok: true,
+        json: () => Promise.resolve(gitTree([])),
+      });
+
+      await fetchRemoteFiles();
+      await fetchRemoteThumbnails();
+
+      expect(global.fetch).toHaveBeenCalledWith(
+        'https://api.github.com/repos/test-owner/test-repo/git/trees/media?recursive=1',
+        expect.any(Object)
+      );
+      expect(global.fetch).toHaveBeenCalledWith(
+        'https://api.github.com/repos/test-owner/test-repo/contents/recordings/index.json?ref=media',
+        expect.objectContaining({ cache: 'no-cache' })
+      );
+      expect(global.fetch).not.toHaveBeenCalledWith(expect.stringMatching(/\/contents\/(?!recordings\/index\.json)/), expect.anything());
+    });
+
+    it('uses the configured branch for fresh and fallback download URLs', async () => {
+      (global.fetch as jest.Mock).mockRejectedValueOnce(new Error('Network error'));
+
+      const result = await generateFreshDownloadUrl('recordings/test.mp3');
+
+      expect(global.fetch).toHaveBeenCalledWith(
+        'https://api.github.com/repos/test-owner/test-repo/contents/recordings/test.mp3?ref=media',
+        expect.any(Object)
+      );
+      expect(result).toBe('https://raw.githubusercontent.com/test-owner/test-repo/media/recordings/test.mp3');
+    });
+
+    it('reads from an explicit ref instead of the configured branch', async () => {
+      (global.fetch as jest.Mock).mockResolvedValueOnce({
+        ok: true,
+        json: () => Promise.resolve({ download_url: 'https://raw.githubusercontent.com/pr-file' }),
+      });
+
+      const result = await generateFreshDownloadUrl('recordings/test.mp3', 'media/test.mp3');
+
+      expect(global.fetch).toHaveBeenCalledWith(
+        'https://api.github.com/repos/test-owner/test-repo/contents/recordings/test.mp3?ref=media%2Ftest.mp3',
+        expect.any(Object)
+      );
+      expect(result).toBe('https://raw.githubusercontent.com/pr-file');
+    });
+  });
+
+  describe('fetchRepositoryBranches', () => {
+    it('returns branch names of the repository', async () => {
+      (global.fetch as jest.Mock).mockResolvedValueOnce({
+        ok: true,
+        json: () => Promise.resolve([{ name: 'main' }, { name: 'media' }]),
+      });
+
+      const result = await fetchRepositoryBranches('test-repo');
+
+      expect(result).toEqual(['main', 'media']);
+      expect(global.fetch).toHaveBeenCalledWith(
+        'https://api.github.com/repos/test-owner/test-repo/branches?per_page=100&page=1',
+        expect.objectContaining({ headers: { Authorization: 'Bearer test-token' } })
+      );
+    });
+
+    it('follows pagination until a partial page', async () => {
+      const fullPage = Array.from({ length: 100 }, (_, i) => ({ name: `branch-${i}` }));
+      (global.fetch as jest.Mock)
+        .mockResolvedValueOnce({ ok: true, json: () => Promise.resolve(fullPage) })
+        .mockResolvedValueOnce({ ok: true, json: () => Promise.resolve([{ name: 'last' }]) });
+
+      const result = await fetchRepositoryBranches('test-repo');
+
+      expect(result).toHaveLength(101);
+      expect(result[100]).toBe('last');
+    });
+
+    it('returns an empty list without a token or repository', async () => {
+      mockUseAuthStore.getState.mockReturnValue({ githubConfig: null });
+
+      await expect(fetchRepositoryBranches('test-repo')).resolves.toEqual([]);
+      expect(global.fetch).not.toHaveBeenCalled();
+    });
+
+    it('throws when the branches request fails', async () => {
+      (global.fetch as jest.Mock).mockResolvedValueOnce({ ok: false, status: 404 });
+
+      await expect(fetchRepositoryBranches('missing-repo')).rejects.toThrow('Failed to fetch branches: 404');
+    });
+  });
+
+  describe('Git LFS pointers', () => {
+    const oid = 'c'.repeat(64);
+    const pointerContent = Buffer.from(
+      `version https://git-lfs.github.com/spec/v1\noid sha256:${oid}\nsize 52428800\n`
+    ).toString('base64');
+
+    it('reports the real size of media files stored as LFS pointers', async () => {
+      (global.fetch as jest.Mock).mockImplementation((url: string) => {
+        if (url.endsWith('/git/trees/main?recursive=1')) {
+          return Promise.resolve({
+            ok: true,
+            json: () => Promise.resolve(gitTree([
+              { path: 'recordings/big.mp4', sha: 'sha-big', size: 132, type: 'blob' },
+              { path: 'recordings/small.mp3', sha: 'sha-small', size: 4096, type: 'blob' },
+            ])),
+          });
+        }
+        if (url.endsWith('/contents/recordings/big.mp4?ref=main')) {
+          return Promise.resolve({ ok: true, json: () => Promise.resolve({ content: pointerContent }) });
+        }
+        return Promise.resolve({ ok: true, json: () => Promise.resolve({}) });
+      });
+
+      const result = await fetchRemoteFiles();
+
+      const big = result.find(file => file.name === 'big.mp4');
+      const small = result.find(file => file.name === 'small.mp3');
+      expect(big).toMatchObject({ size: 52428800 });
+      expect(small).toMatchObject({ size: 4096 });
+      // Only the small file was inspected
+      expect(global.fetch).not.toHaveBeenCalledWith(
+        expect.stringContaining('/contents/recordings/small.mp3'),
+        expect.anything()
+      );
+    });
+
+    it('resolves the LFS download URL for pointer files', async () => {
+      (global.fetch as jest.Mock).mockResolvedValueOnce({
+        ok: true,
+        json: () => Promise.resolve({
+          size: 132,
+          content: pointerContent,
+          download_url: 'https://raw.githubusercontent.com/test-owner/test-repo/main/recordings/big.mp4',
+        }),
+      });
+      mockFetchLfsDownloadUrl.mockResolvedValue('https://lfs.example/objects/big');
+
+      const result = await generateFreshDownloadUrl('recordings/big.mp4');
+
+      expect(result).toBe('https://lfs.example/objects/big');
+      expect(mockFetchLfsDownloadUrl).toHaveBeenCalledWith(
+        expect.objectContaining({ owner: 'test-owner', repo: 'test-repo' }),
+        { oid, size: 52428800 },
+        'main'
+      );
+    });
+
+    it('falls back to the media host when the LFS batch API fails', async () => {
+      (global.fetch as jest.Mock).mockResolvedValueOnce({
+        ok: true,
+        json: () => Promise.resolve({ size: 132, content: pointerContent, download_url: 'raw-url' }),
+      });
+      mockFetchLfsDownloadUrl.mockRejectedValue(new Error('LFS batch download failed: 403'));
+
+      const result = await generateFreshDownloadUrl('recordings/big.mp4');
+
+      expect(result).toBe('https://media.githubusercontent.com/media/test-owner/test-repo/main/recordings/big.mp4');
+    });
+  });
+
+  describe('media manifest', () => {
+    const manifest = {
+      version: 1,
+      updated: '2025-03-01T10:00:00.000Z',
+      files: [
+        {
+          path: 'recordings/Podcast_Weekly_Team_2025-03-01.mp3',
+          title: 'Weekly',
+          author: 'Team',
+          category: 'Podcast',
+          date: '2025-03-01',
+          duration: 125,
+          size: 52428800,
+          mimeType: 'audio/mpeg',
+          sha: 'sha-weekly',
+        },
+        {
+          path: 'recordings/old.mp3',
+          title: 'old',
+          author: '',
+          category: '',
+          date: '',
+          size: 10,
+          mimeType: 'audio/mpeg',
+          sha: 'sha-before-edit',
+        },
+      ],
+    };
+
+    const mockRepository = (manifestResponse: unknown) => {
+      (global.fetch as jest.Mock).mockImplementation((url: string) => {
+        if (url.includes('/contents/recordings/index.json')) {
+          return Promise.resolve(manifestResponse);
+        }
+        if (url.endsWith('/git/trees/main?recursive=1')) {
+          return Promise.resolve({
+            ok: true,
+            json: () => Promise.resolve(gitTree([
+              { path: 'recordings/index.json', sha: 'sha-index', size: 600, type: 'blob' },
+              { path: 'recordings/Podcast_Weekly_Team_2025-03-01.mp3', sha: 'sha-weekly', size: 132, type: 'blob' },
+              { path: 'recordings/old.mp3', sha: 'sha-after-edit', size: 4096, type: 'blob' },
+            ])),
+          });
+        }
+        return Promise.resolve({ ok: true, json: () => Promise.resolve({}) });
+      });
+    };
+
+    it('takes size, duration and type from the manifest without inspecting the file', async () => {
+      mockRepository({ ok: true, json: () => Promise.resolve(manifest) });
+
+      const result = await fetchRemoteFiles();
+
+      expect(result).toHaveLength(2);
+      expect(result.find(file => file.id === 'remote-sha-weekly')).toMatchObject({
+        size: 52428800,
+        duration: 125,
+        mimeType: 'audio/mpeg',
+        url: 'recordings/Podcast_Weekly_Team_2025-03-01.mp3',
+      });
+      expect(global.fetch).toHaveBeenCalledWith(
+        expect.stringContaining('/contents/recordings/index.json?ref=main'),
+        expect.objectContaining({ headers: expect.objectContaining({ Accept: 'application/vnd.github.raw+json' }) })
+      );
+      expect(global.fetch).not.toHaveBeenCalledWith(
+        expect.stringContaining('/contents/recordings/Podcast_Weekly_Team_2025-03-01.mp3'),
+        expect.anything()
+      );
+    });
+
+    it('describes files changed since the manifest was written from the listing', async () => {
+      mockRepository({ ok: true, json: () => Promise.resolve(manifest) });
+
+      const result = await fetchRemoteFiles();
+
+      expect(result.find(file => file.id === 'remote-sha-after-edit')).toMatchObject({ size: 4096, duration: 0 });
+    });
+
+    it('lists the repository when the manifest cannot be read', async () => {
+      const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+      mockRepository({ ok: false, status: 500 });
+
+      const result = await fetchRemoteFiles();
+
+      expect(result).toHaveLength(2);
+      expect(warn).toHaveBeenCalledWith('Could not read the media manifest:', expect.any(Error));
+      warn.mockRestore();
+    });
+  });
+
+  describe('fetchPullRequestState', () => {
+    it.each([
+      [{ state: 'open', merged_at: null }, 'open'],
+      [{ state: 'closed', merged_at: '2024-06-07T10:00:00Z' }, 'merged'],
+      [{ state: 'closed', merged_at: null }, 'closed'],
+    ])('maps %o to %s', async (pullRequest, expected) => {
+      (global.fetch as jest.Mock).mockResolvedValueOnce({
+        ok: true,
+        json: () => Promise.resolve(pullRequest),
+      });
+
+      await expect(fetchPullRequestState(7)).resolves.toBe(expected);
+      expect(global.fetch).toHaveBeenCalledWith(
+        'https://api.github.com/repos/test-owner/test-repo/pulls/7',
+        expect.objectContaining({ headers: { Authorization: 'Bearer test-token' } })
+      );
+    });
+
+    it('throws when the pull request cannot be read', async () => {
+      (global.fetch as jest.Mock).mockResolvedValueOnce({ ok: false, status: 404 });
+
+      await expect(fetchPullRequestState(7)).rejects.toThrow('Failed to fetch pull request: 404');
+    });
+  });
+
+  describe('GitHub Enterprise Server', () => {
+    beforeEach(() => {
+      mockUseAuthStore.getState.mockReturnValue({
+        isAuthenticated: true,
+        githubConfig: {
+          token: 'test-token',
+          owner: 'test-owner',
+          apiBaseUrl: 'https://github.example.com/api/v3',
+        },
+      });
+    });
+
+    it('sends API requests to the configured server', async () => {
+      (global.fetch as jest.Mock).mockResolvedValueOnce({
+        ok: true,
+        json: () => Promise.resolve({ object: { sha: 'head-sha' } }),
+      });
+
+      await fetchHeadSha();
+
+      expect(global.fetch).toHaveBeenCalledWith(
+        'https://github.example.com/api/v3/repos/test-owner/test-repo/git/ref/heads/main',
+        expect.anything()
+      );
+    });
+
+    it('falls back to the raw URL of the server', async () => {
+      (global.fetch as jest.Mock).mockResolvedValueOnce({ ok: false, status: 500 });
+
+      await expect(generateFreshDownloadUrl('recordings/test.mp3'))
+        .resolves.toBe('https://github.example.com/raw/test-owner/test-repo/main/recordings/test.mp3');
+    });
+  });
+
+  describe('fetchHeadSha', () => {
+    it('reads the branch ref, revalidating any cached response', async () => {
+      (global.fetch as jest.Mock).mockResolvedValueOnce({
+        ok: true,
+        json: () => Promise.resolve({ object: { sha: 'head-sha' } }),
+      });
+
+      await expect(fetchHeadSha()).resolves.toBe('head-sha');
+      expect(global.fetch).toHaveBeenCalledWith(
+        'https://api.github.com/repos/test-owner/test-repo/git/ref/heads/main',
+        { headers: { Authorization: 'Bearer test-token' }, cache: 'no-cache' }
+      );
+    });
+
+    it('returns null for an empty repository', async () => {
+      (global.fetch as jest.Mock).mockResolvedValueOnce({ ok: false, status: 409 });
+
+      await expect(fetchHeadSha()).resolves.toBeNull();
+    });
+
+    it('throws when the branch cannot be read', async () => {
+      (global.fetch as jest.Mock).mockResolvedValueOnce({ ok: false, status: 500 });
+
+      await expect(fetchHeadSha()).rejects.toThrow('Failed to read branch: 500');
+    });
+  });
+
+  describe('fetchRepositoryPaths', () => {
+    it('lists the media and thumbnail paths on the branch of a profile', async () => {
+      mockUseSettingsStore.getState.mockReturnValue({
+        activeProfileId: 'podcast',
+        appSettings: { repo: 'test-repo', path: 'recordings/', thumbnailPath: 'thumbnails/' },
+        profiles: [{ id: 'lectures', name: 'Lectures', settings: { repo: 'lectures', path: 'talks/', thumbnailPath: 'covers/' } }],
+      });
+      (global.fetch as jest.Mock).mockResolvedValue({
+        ok: true,
+        json: () => Promise.resolve(gitTree([
+          { path: 'talks', type: 'tree' },
+          { path: 'talks/intro.mp3', type: 'blob' },
+          { path: 'covers/intro.jpg', type: 'blob' },
+          { path: 'recordings/other.mp3', type: 'blob' },
+        ])),
+      });
+
+      const paths = await fetchRepositoryPaths('lectures');
+
+      expect(paths).toEqual(new Set(['talks/intro.mp3', 'covers/intro.jpg']));
+      expect((global.fetch as jest.Mock).mock.calls[0][0]).toBe('https://api.github.com/repos/test-owner/lectures/git/trees/main?recursive=1');
+    });
+  });
+
+  describe('isForeignPodcastFeed', () => {
+    const podcastFeed = {
+      enabled: true,
+      path: 'feed.xml',
+      categories: [],
+      title: 'Team Podcast',
+      description: '',
+      ownerName: '',
+      ownerEmail: '',
+      baseUrl: 'https://team.github.io/media',
+    };
+    const settings = { repo: 'podcast-repo', path: 'recordings/', thumbnailPath: 'thumbnails/', thumbnailWidth: 320, thumbnailHeight: 240, podcastFeed };
+    const feedFile = (text: string) => ({ ok: true, status: 200, text: () => Promise.resolve(text) });
+
+    it('reports a feed the app did not generate on the branch being saved', async () => {
+      (global.fetch as jest.Mock).mockResolvedValue(feedFile('<rss version="2.0"><channel><title>Our Show</title></channel></rss>'));
+
+      await expect(isForeignPodcastFeed({ ...settings, branch: 'drafts' })).resolves.toBe(true);
+      expect((global.fetch as jest.Mock).mock.calls[0][0]).toBe('https://api.github.com/repos/test-owner/podcast-repo/contents/feed.xml?ref=drafts');
+    });
+
+    it('accepts a feed the app generated or a free path', async () => {
+      (global.fetch as jest.Mock).mockResolvedValueOnce(feedFile(buildPodcastFeed(null, podcastFeed)));
+      await expect(isForeignPodcastFeed(settings)).resolves.toBe(false);
+
+      (global.fetch as jest.Mock).mockResolvedValueOnce({ ok: false, status: 404 });
+      await expect(isForeignPodcastFeed(settings)).resolves.toBe(false);
+    });
+
+    it('does not look when the feed is off', async () => {
+      await expect(isForeignPodcastFeed({ ...settings, podcastFeed: { ...podcastFeed, enabled: false } })).resolves.toBe(false);
+      expect(global.fetch).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('checkRepositoryAccess', () => {
+    const REPO_URL = 'https://api.github.com/repos/test-owner/test-repo';
+    const respond = (responses: Record<string, { status: number; body?: unknown }>) => {
+      (global.fetch as jest.Mock).mockImplementation((url: string) => {
+        const response = responses[url] || { status: 404 };
+        return Promise.resolve({
+          ok: response.status < 300,
+          status: response.status,
+          headers: new Map(),
+          json: () => Promise.resolve(response.body),
+        });
+      });
+    };
+    const statuses = (check: { items: Array<{ id: string; status: string }> }) =>
+      Object.fromEntries(check.items.map(item => [item.id, item.status]));
+
+    it('identifies the repository and branch being checked', () => {
+      expect(repositoryCheckTarget()).toBe('test-owner/test-repo@main');
+    });
+
+    it('identifies the repository of another profile', () => {
+      mockUseSettingsStore.getState.mockReturnValue({
+        activeProfileId: 'podcast',
+        appSettings: { repo: 'test-repo', path: 'recordings/', thumbnailPath: 'thumbnails/' },
+        profiles: [{ id: 'lectures', name: 'Lectures', settings: { repo: 'lectures', branch: 'media', path: 'talks/', thumbnailPath: 'covers/' } }],
+      });
+
+      expect(repositoryCheckTarget('lectures')).toBe('test-owner/lectures@media');
+      expect(repositoryCheckTarget('podcast')).toBe('test-owner/test-repo@main');
+      expect(repositoryCheckTarget('removed')).toBeNull();
+    });
+
+    it('passes a writable repository with its branch and folders', async () => {
+      respond({
+        [REPO_URL]: { status: 200, body: { default_branch: 'main', permissions: { push: true } } },
+        [`${REPO_URL}/git/ref/heads/main`]: { status: 200, body: { object: { sha: 'head-sha' } } },
+        [`${REPO_URL}/contents/recordings?ref=main`]: { status: 200, body: [] },
+        [`${REPO_URL}/contents/thumbnails?ref=main`]: { status: 200, body: [] },
+      });
+
+      const check = await checkRepositoryAccess();
+
+      expect(statuses(check)).toEqual({ repository: 'ok', push: 'ok', branch: 'ok', mediaFolder: 'ok', thumbnailFolder: 'ok' });
+      expect(check).toEqual(expect.objectContaining({ target: 'test-owner/test-repo@main', canUpload: true, defaultBranch: 'main' }));
+      expect(global.fetch).toHaveBeenCalledWith(REPO_URL, { headers: { Authorization: 'Bearer test-token' }, cache: 'no-cache' });
+    });
+
+    it('reports missing folders without blocking uploads', async () => {
+      respond({
+        [REPO_URL]: { status: 200, body: { default_branch: 'main', permissions: { push: true } } },
+        [`${REPO_URL}/git/ref/heads/main`]: { status: 200, body: { object: { sha: 'head-sha' } } },
+        [`${REPO_URL}/contents/thumbnails?ref=main`]: { status: 200, body: { type: 'file' } },
+      });
+
+      const check = await checkRepositoryAccess();
+
+      expect(check.items.slice(3)).toEqual([
+        { id: 'mediaFolder', label: 'Media folder', status: 'missing', detail: 'recordings/ does not exist yet' },
+        { id: 'thumbnailFolder', label: 'Thumbnail folder', status: 'failed', detail: 'thumbnails is a file, not a folder' },
+      ]);
+      expect(check.canUpload).toBe(true);
+    });
+
+    it('blocks uploads without push permission or a branch', async () => {
+      mockUseSettingsStore.getState.mockReturnValue({
+        appSettings: { repo: 'test-repo', branch: 'media', path: 'recordings/', thumbnailPath: '' },
+      });
+      respond({
+        [REPO_URL]: { status: 200, body: { default_branch: 'main', permissions: { push: false } } },
+      });
+
+      const check = await checkRepositoryAccess();
+
+      expect(statuses(check)).toEqual({ repository: 'ok', push: 'failed', branch: 'missing', mediaFolder: 'skipped', thumbnailFolder: 'skipped' });
+      expect(check.items[2].detail).toBe('Can be created from main');
+      expect(check.canUpload).toBe(false);
+    });
+
+    it('accepts an empty repository, which the first upload sets up', async () => {
+      respond({
+        [REPO_URL]: { status: 200, body: { default_branch: 'main', permissions: { push: true } } },
+        [`${REPO_URL}/git/ref/heads/main`]: { status: 409 },
+      });
+
+      const check = await checkRepositoryAccess();
+
+      expect(statuses(check)).toEqual({ repository: 'ok', push: 'ok', branch: 'ok', mediaFolder: 'skipped', thumbnailFolder: 'skipped' });
+      expect(check.canUpload).toBe(true);
+    });
+
+    it('fails a repository the token cannot see', async () => {
+      respond({});
+
+      const check = await checkRepositoryAccess();
+
+      expect(check.items[0]).toEqual({
+        id: 'repository',
+        label: 'Repository test-owner/test-repo',
+        status: 'failed',
+        detail: 'Not found, or the token has no access to it',
+      });
+      expect(check.canUpload).toBe(false);
+      expect(global.fetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('throws when GitHub cannot answer', async () => {
+      respond({ [REPO_URL]: { status: 502 } });
+
+      await expect(checkRepositoryAccess()).rejects.toThrow('Failed to check repository: 502');
+    });
+  });
+
+  describe('fetchRemoteChanges', () => {
+    const compareResponse = (status: string, files: unknown[]) => ({
+      ok: true,
+      json: () => Promise.resolve({ status, files }),
+    });
+
+    it('reports removed, renamed and added files under the media and thumbnail paths', async () => {
+      (global.fetch as jest.Mock).mockImplementation((url: string) => {
+        if (url.endsWith('/compare/base-sha...head-sha')) {
+          return Promise.resolve(compareResponse('ahead', [
+            { filename: 'recordings/old.mp3', status: 'removed', sha: 'old' },
+            { filename: 'recordings/Podcast/new-name.mp3', previous_filename: 'recordings/Podcast/old-name.mp3', status: 'renamed', sha: 'renamed' },
+            { filename: 'thumbnails/new-name.jpg', previous_filename: 'thumbnails/old-name.jpg', status: 'renamed', sha: 'renamed-thumb' },
+            { filename: 'README.md', status: 'modified', sha: 'readme' },
+          ]));
+        }
+        if (url.includes('/contents/recordings/Podcast/new-name.mp3?ref=head-sha')) {
+          return Promise.resolve({ ok: true, json: () => Promise.resolve({ sha: 'renamed', size: 2048 }) });
+        }
+        return Promise.resolve({ ok: true, json: () => Promise.resolve({}) });
+      });
+
+      const changes = await fetchRemoteChanges('base-sha', 'head-sha');
+
+      expect(changes?.removedPaths).toEqual([
+        'recordings/old.mp3',
+        'recordings/Podcast/old-name.mp3',
+        'thumbnails/old-name.jpg',
+        'README.md',
+      ]);
+      expect(changes?.files).toHaveLength(1);
+      expect(changes?.files[0]).toMatchObject({
+        id: 'remote-renamed',
+        name: 'new-name.mp3',
+        path: 'recordings/Podcast/new-name.mp3',
+        folder: 'Podcast',
+        size: 2048,
+      });
+      expect(changes?.thumbnails).toEqual({
+        'new-name': { url: 'thumbnails/new-name.jpg', isLocal: false, sha: 'renamed-thumb' },
+      });
+      // Only the changed media file needed a request of its own
+      expect(global.fetch).not.toHaveBeenCalledWith(expect.stringContaining('/contents/README.md'), expect.anything());
+      expect(global.fetch).not.toHaveBeenCalledWith(expect.stringContaining('/contents/thumbnails/'), expect.anything());
+    });
+
+    it('cannot patch when the branch history was rewritten', async () => {
+      (global.fetch as jest.Mock).mockResolvedValueOnce(compareResponse('diverged', []));
+
+      await expect(fetchRemoteChanges('base-sha', 'head-sha')).resolves.toBeNull();
+    });
+
+    it('cannot patch when the cached commit no longer exists', async () => {
+      (global.fetch as jest.Mock).mockResolvedValueOnce({ ok: false, status: 404 });
+
+      await expect(fetchRemoteChanges('base-sha', 'head-sha')).resolves.toBeNull();
+    });
+
+    it('cannot patch when more files changed than the compare API lists', async () => {
+      const files = Array.from({ length: 300 }, (_, index) => ({ filename: `recordings/${index}.mp3`, status: 'added', sha: `${index}` }));
+      (global.fetch as jest.Mock).mockResolvedValueOnce(compareResponse('ahead', files));
+
+      await expect(fetchRemoteChanges('base-sha', 'head-sha')).resolves.toBeNull();
+      expect(global.fetch).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('fetchFileHistory', () => {
+    const commit = (sha: string, message: string, parents: string[] = [], files?: unknown[]) => ({
+      sha,
+      commit: { message, author: { name: 'Ann', date: '2025-03-01T10:00:00Z' } },
+      author: { login: 'ann' },
+      parents: parents.map(parent => ({ sha: parent })),
+      files,
+    });
+    const jsonResponse = (data: unknown) => ({ ok: true, json: () => Promise.resolve(data) });
+
+    it('lists the commits of a file, newest first', async () => {
+      (global.fetch as jest.Mock)
+        .mockResolvedValueOnce(jsonResponse([
+          commit('c2', 'Restore clip.mp3 from c1\n\nDetails', ['c1']),
+          commit('c1', 'Upload clip.mp3'),
+        ]));
+
+      await expect(fetchFileHistory('recordings/clip.mp3')).resolves.toEqual([
+        { commitSha: 'c2', path: 'recordings/clip.mp3', message: 'Restore clip.mp3 from c1', author: 'Ann', date: '2025-03-01T10:00:00Z' },
+        { commitSha: 'c1', path: 'recordings/clip.mp3', message: 'Upload clip.mp3', author: 'Ann', date: '2025-03-01T10:00:00Z' },
+      ]);
+      expect(global.fetch).toHaveBeenCalledWith(
+        'https://api.github.com/repos/test-owner/test-repo/commits?sha=main&path=recordings%2Fclip.mp3&per_page=100',
+        expect.objectContaining({ cache: 'no-cache' })
+      );
+    });
+
+    it('follows the file across renames', async () => {
+      (global.fetch as jest.Mock)
+        .mockResolvedValueOnce(jsonResponse([commit('c3', 'Rename old.mp3 to new.mp3', ['c2'])]))
+        .mockResolvedValueOnce(jsonResponse(commit('c3', 'Rename old.mp3 to new.mp3', ['c2'], [
+          { filename: 'recordings/new.mp3', previous_filename: 'recordings/old.mp3', status: 'renamed', sha: 'blob' },
+        ])))
+        .mockResolvedValueOnce(jsonResponse([commit('c1', 'Upload old.mp3')]));
+
+      const history = await fetchFileHistory('recordings/new.mp3');
+
+      expect(history.map(version => [version.commitSha, version.path])).toEqual([
+        ['c3', 'recordings/new.mp3'],
+        ['c1', 'recordings/old.mp3'],
+      ]);
+      const calls = (global.fetch as jest.Mock).mock.calls;
+      expect(calls[1][0]).toBe('https://api.github.com/repos/test-owner/test-repo/commits/c3');
+      expect(calls[2][0]).toBe('https://api.github.com/repos/test-owner/test-repo/commits?sha=c2&path=recordings%2Fold.mp3&per_page=100');
+      // The first commit has no parent to continue from
+      expect(calls).toHaveLength(3);
+    });
+
+    it('stops when the oldest commit added the file', async () => {
+      (global.fetch as jest.Mock)
+        .mockResolvedValueOnce(jsonResponse([commit('c2', 'Upload clip.mp3', ['c1'])]))
+        .mockResolvedValueOnce(jsonResponse(commit('c2', 'Upload clip.mp3', ['c1'], [
+          { filename: 'recordings/clip.mp3', status: 'added', sha: 'blob' },
+        ])));
+
+      await expect(fetchFileHistory('recordings/clip.mp3')).resolves.toHaveLength(1);
+      expect(global.fetch).toHaveBeenCalledTimes(2);
+    });
+
+    it('reports failed requests', async () => {
+      (global.fetch as jest.Mock).mockResolvedValueOnce({ ok: false, status: 500, headers: new Headers() });
+
+      await expect(fetchFileHistory('recordings/clip.mp3')).rejects.toThrow('Failed to fetch file history: 500');
+    });
+  });
+
   describe('extractDateFromFilename', () => {
     it('extracts date from standard filename format', () => {
       const result = extractDateFromFilename('Music_Song_Artist_2025-01-15.mp3');
@@ -424,23 +1183,19 @@ describe('githubUtils', () => {
       
       const mockFiles = [
         {
-          name: 'Recording 1.mp3',
           path: 'recordings/Recording 1.mp3',
           sha: 'sha1',
           size: 1000000,
-          download_url: 'https://raw.githubusercontent.com/test-owner/test-repo/main/recordings/Recording%201.mp3',
-          type: 'file',
+          type: 'blob',
         },
       ];
 
       const mockThumbnails = [
         {
-          name: 'thumb1.jpg',
           path: 'thumbnails/thumb1.jpg',
           sha: 'thumb1',
           size: 50000,
-          download_url: 'https://raw.githubusercontent.com/test-owner/test-repo/main/thumbnails/thumb1.jpg',
-          type: 'file',
+          type: 'blob',
         },
       ];
 
@@ -451,9 +1206,10 @@ describe('githubUtils', () => {
           ok: true,
           json: () => Promise.resolve({ name: 'test-repo' }),
         })
+        .mockResolvedValueOnce(manifestMissing)
         .mockResolvedValueOnce({
           ok: true,
-          json: () => Promise.resolve(mockFiles),
+          json: () => Promise.resolve(gitTree(mockFiles)),
         })
         .mockResolvedValueOnce({
           ok: true,
@@ -461,7 +1217,7 @@ describe('githubUtils', () => {
         })
         .mockResolvedValueOnce({
           ok: true,
-          json: () => Promise.resolve(mockThumbnails),
+          json: () => Promise.resolve(gitTree(mockThumbnails)),
         });
 
       console.log('Starting fetchRemoteFiles...');
@@ -474,7 +1230,7 @@ describe('githubUtils', () => {
       expect(files).toHaveLength(1);
       expect(files[0].name).toBe('Recording 1.mp3');
       expect(files[0].type).toBe('audio');
-      expect(thumbnails).toEqual({ thumb1: { url: 'thumbnails/thumb1.jpg', isLocal: false } });
+      expect(thumbnails).toEqual({ thumb1: { url: 'thumbnails/thumb1.jpg', isLocal: false, sha: 'thumb1' } });
     });
 
     it('handles errors gracefully in complete workflow', async () => {
@@ -492,28 +1248,22 @@ describe('githubUtils', () => {
       it('handles non-media files (returns null for parseRemoteFile)', async () => {
         const mockFiles = [
           {
-            name: 'README.md',
             path: 'recordings/README.md',
             sha: 'sha1',
             size: 1024,
-            download_url: 'https://raw.githubusercontent.com/test-owner/test-repo/main/recordings/README.md',
-            type: 'file',
+            type: 'blob',
           },
           {
-            name: 'config.json',
             path: 'recordings/config.json',
             sha: 'sha2',
             size: 512,
-            download_url: 'https://raw.githubusercontent.com/test-owner/test-repo/main/recordings/config.json',
-            type: 'file',
+            type: 'blob',
           },
           {
-            name: 'test.mp3',
             path: 'recordings/test.mp3',
             sha: 'sha3',
             size: 2048,
-            download_url: 'https://raw.githubusercontent.com/test-owner/test-repo/main/recordings/test.mp3',
-            type: 'file',
+            type: 'blob',
           },
         ];
 
@@ -524,9 +1274,10 @@ describe('githubUtils', () => {
             ok: true,
             json: () => Promise.resolve({ name: 'test-repo' }),
           })
+          .mockResolvedValueOnce(manifestMissing)
           .mockResolvedValueOnce({
             ok: true,
-            json: () => Promise.resolve(mockFiles),
+            json: () => Promise.resolve(gitTree(mockFiles)),
           })
           .mockResolvedValueOnce({
             ok: true,  // URL validation for mp3 file
@@ -544,36 +1295,28 @@ describe('githubUtils', () => {
       it('handles different video file extensions', async () => {
         const mockFiles = [
           {
-            name: 'test.mp4',
             path: 'recordings/test.mp4',
             sha: 'sha1',
             size: 5000000,
-            download_url: 'https://raw.githubusercontent.com/test-owner/test-repo/main/recordings/test.mp4',
-            type: 'file',
+            type: 'blob',
           },
           {
-            name: 'test.webm',
             path: 'recordings/test.webm',
             sha: 'sha2',
             size: 4000000,
-            download_url: 'https://raw.githubusercontent.com/test-owner/test-repo/main/recordings/test.webm',
-            type: 'file',
+            type: 'blob',
           },
           {
-            name: 'test.avi',
             path: 'recordings/test.avi',
             sha: 'sha3',
             size: 6000000,
-            download_url: 'https://raw.githubusercontent.com/test-owner/test-repo/main/recordings/test.avi',
-            type: 'file',
+            type: 'blob',
           },
           {
-            name: 'test.mov',
             path: 'recordings/test.mov',
             sha: 'sha4',
             size: 7000000,
-            download_url: 'https://raw.githubusercontent.com/test-owner/test-repo/main/recordings/test.mov',
-            type: 'file',
+            type: 'blob',
           },
         ];
 
@@ -583,9 +1326,10 @@ describe('githubUtils', () => {
             ok: true,
             json: () => Promise.resolve({ name: 'test-repo' }),
           })
+          .mockResolvedValueOnce(manifestMissing)
           .mockResolvedValueOnce({
             ok: true,
-            json: () => Promise.resolve(mockFiles),
+            json: () => Promise.resolve(gitTree(mockFiles)),
           })
           // URL validations for all video files
           .mockResolvedValue({
@@ -610,36 +1354,28 @@ describe('githubUtils', () => {
       it('handles different audio file extensions', async () => {
         const mockFiles = [
           {
-            name: 'test.mp3',
             path: 'recordings/test.mp3',
             sha: 'sha1',
             size: 3000000,
-            download_url: 'https://raw.githubusercontent.com/test-owner/test-repo/main/recordings/test.mp3',
-            type: 'file',
+            type: 'blob',
           },
           {
-            name: 'test.wav',
             path: 'recordings/test.wav',
             sha: 'sha2',
             size: 8000000,
-            download_url: 'https://raw.githubusercontent.com/test-owner/test-repo/main/recordings/test.wav',
-            type: 'file',
+            type: 'blob',
           },
           {
-            name: 'test.m4a',
             path: 'recordings/test.m4a',
             sha: 'sha3',
             size: 4000000,
-            download_url: 'https://raw.githubusercontent.com/test-owner/test-repo/main/recordings/test.m4a',
-            type: 'file',
+            type: 'blob',
           },
           {
-            name: 'test.aac',
             path: 'recordings/test.aac',
             sha: 'sha4',
             size: 2500000,
-            download_url: 'https://raw.githubusercontent.com/test-owner/test-repo/main/recordings/test.aac',
-            type: 'file',
+            type: 'blob',
           },
         ];
 
@@ -649,9 +1385,10 @@ describe('githubUtils', () => {
             ok: true,
             json: () => Promise.resolve({ name: 'test-repo' }),
           })
+          .mockResolvedValueOnce(manifestMissing)
           .mockResolvedValueOnce({
             ok: true,
-            json: () => Promise.resolve(mockFiles),
+            json: () => Promise.resolve(gitTree(mockFiles)),
           })
           // URL validations for all audio files
           .mockResolvedValue({
@@ -709,7 +1446,7 @@ describe('githubUtils', () => {
           text: () => Promise.resolve(''),
         });
 
-        await expect(fetchRemoteFiles()).rejects.toThrow('GitHub API rate limit exceeded or repository access denied');
+        await expect(fetchRemoteFiles()).rejects.toThrow('Access to the repository was denied');
       });
 
       it('handles repository access errors - generic', async () => {
@@ -725,13 +1462,14 @@ describe('githubUtils', () => {
         await expect(fetchRemoteFiles()).rejects.toThrow('HTTP 500: Internal Server Error');
       });
 
-      it('handles media path not found (404)', async () => {
+      it('handles missing branch (404)', async () => {
         const mockFetch = global.fetch as jest.Mock;
         mockFetch
           .mockResolvedValueOnce({
             ok: true,
             json: () => Promise.resolve({ name: 'test-repo' }),
           })
+          .mockResolvedValueOnce(manifestMissing)
           .mockResolvedValueOnce({
             ok: false,
             status: 404,
@@ -743,7 +1481,7 @@ describe('githubUtils', () => {
         // Should not throw error, just log and return empty array
         const files = await fetchRemoteFiles();
         expect(files).toEqual([]);
-        expect(console.log).toHaveBeenCalledWith('Media path not found (404), continuing...');
+        expect(console.log).toHaveBeenCalledWith('Tree main not found (404), continuing...');
       });
 
       it('handles media path access errors - 401', async () => {
@@ -753,6 +1491,7 @@ describe('githubUtils', () => {
             ok: true,
             json: () => Promise.resolve({ name: 'test-repo' }),
           })
+          .mockResolvedValueOnce(manifestMissing)
           .mockResolvedValueOnce({
             ok: false,
             status: 401,
@@ -771,6 +1510,7 @@ describe('githubUtils', () => {
             ok: true,
             json: () => Promise.resolve({ name: 'test-repo' }),
           })
+          .mockResolvedValueOnce(manifestMissing)
           .mockResolvedValueOnce({
             ok: false,
             status: 403,
@@ -779,7 +1519,7 @@ describe('githubUtils', () => {
             text: () => Promise.resolve(''),
           });
 
-        await expect(fetchRemoteFiles()).rejects.toThrow('GitHub API rate limit exceeded or repository access denied');
+        await expect(fetchRemoteFiles()).rejects.toThrow('Access to the repository was denied');
       });
 
       it('handles media path access errors - generic', async () => {
@@ -789,6 +1529,7 @@ describe('githubUtils', () => {
             ok: true,
             json: () => Promise.resolve({ name: 'test-repo' }),
           })
+          .mockResolvedValueOnce(manifestMissing)
           .mockResolvedValueOnce({
             ok: false,
             status: 500,
@@ -803,20 +1544,16 @@ describe('githubUtils', () => {
       it('handles URL validation errors gracefully', async () => {
         const mockFiles = [
           {
-            name: 'test1.mp3',
             path: 'recordings/test1.mp3',
             sha: 'sha1',
             size: 1024,
-            download_url: 'https://raw.githubusercontent.com/test-owner/test-repo/main/recordings/test1.mp3',
-            type: 'file',
+            type: 'blob',
           },
           {
-            name: 'test2.mp3',
             path: 'recordings/test2.mp3',
             sha: 'sha2',
             size: 2048,
-            download_url: 'https://raw.githubusercontent.com/test-owner/test-repo/main/recordings/test2.mp3',
-            type: 'file',
+            type: 'blob',
           },
         ];
 
@@ -827,9 +1564,10 @@ describe('githubUtils', () => {
             json: () => Promise.resolve({ name: 'test-repo' }),
             text: () => Promise.resolve(''),
           })
+          .mockResolvedValueOnce(manifestMissing)
           .mockResolvedValueOnce({
             ok: true,
-            json: () => Promise.resolve(mockFiles),
+            json: () => Promise.resolve(gitTree(mockFiles)),
             text: () => Promise.resolve(''),
           });
 
@@ -843,7 +1581,7 @@ describe('githubUtils', () => {
     });
 
     describe('fetchRemoteThumbnails - Additional coverage', () => {
-      it('handles thumbnail path not found (404)', async () => {
+      it('handles missing branch for thumbnails (404)', async () => {
         (global.fetch as jest.Mock).mockResolvedValueOnce({
           ok: false,
           status: 404,
@@ -855,7 +1593,7 @@ describe('githubUtils', () => {
         // Should not throw error, just log and return empty object
         const thumbnails = await fetchRemoteThumbnails();
         expect(thumbnails).toEqual({});
-        expect(console.log).toHaveBeenCalledWith('Thumbnail path not found (404), continuing...');
+        expect(console.log).toHaveBeenCalledWith('Tree main not found (404), continuing...');
       });
 
       it('handles thumbnail path access errors - 401', async () => {
@@ -863,7 +1601,7 @@ describe('githubUtils', () => {
           ok: false,
           status: 401,
           statusText: 'Unauthorized',
-          json: () => Promise.resolve([]),
+          json: () => Promise.resolve(gitTree([])),
           text: () => Promise.resolve(''),
         });
 
@@ -875,11 +1613,11 @@ describe('githubUtils', () => {
           ok: false,
           status: 403,
           statusText: 'Forbidden',
-          json: () => Promise.resolve([]),
+          json: () => Promise.resolve(gitTree([])),
           text: () => Promise.resolve(''),
         });
 
-        await expect(fetchRemoteThumbnails()).rejects.toThrow('GitHub API rate limit exceeded or repository access denied');
+        await expect(fetchRemoteThumbnails()).rejects.toThrow('Access to the repository was denied');
       });
 
       it('handles thumbnail path access errors - generic', async () => {
@@ -887,7 +1625,7 @@ describe('githubUtils', () => {
           ok: false,
           status: 500,
           statusText: 'Internal Server Error',
-          json: () => Promise.resolve([]),
+          json: () => Promise.resolve(gitTree([])),
           text: () => Promise.resolve(''),
         });
 
@@ -897,27 +1635,23 @@ describe('githubUtils', () => {
       it('handles thumbnail validation errors gracefully', async () => {
         const mockThumbnails = [
           {
-            name: 'thumb1.jpg',
             path: 'thumbnails/thumb1.jpg',
             sha: 'thumb1',
             size: 50000,
-            download_url: 'https://raw.githubusercontent.com/test-owner/test-repo/main/thumbnails/thumb1.jpg',
-            type: 'file',
+            type: 'blob',
           },
           {
-            name: 'thumb2.jpg',
             path: 'thumbnails/thumb2.jpg',
             sha: 'thumb2',
             size: 60000,
-            download_url: 'https://raw.githubusercontent.com/test-owner/test-repo/main/thumbnails/thumb2.jpg',
-            type: 'file',
+            type: 'blob',
           },
         ];
 
         const mockFetch = global.fetch as jest.Mock;
         mockFetch.mockResolvedValueOnce({
           ok: true,
-          json: () => Promise.resolve(mockThumbnails),
+          json: () => Promise.resolve(gitTree(mockThumbnails)),
           text: () => Promise.resolve(''),
         });
 
@@ -928,12 +1662,14 @@ describe('githubUtils', () => {
         expect(thumbnails.thumb1).toEqual({
           url: 'thumbnails/thumb1.jpg',
           isLocal: false,
+          sha: 'thumb1',
         });
 
         expect(thumbnails).toHaveProperty('thumb2');
         expect(thumbnails.thumb2).toEqual({
           url: 'thumbnails/thumb2.jpg',
           isLocal: false,
+          sha: 'thumb2',
         });
 
         // Since we removed URL validation, no console.warn should be called
@@ -943,28 +1679,22 @@ describe('githubUtils', () => {
       it('handles mixed file types in thumbnail directory', async () => {
         const mockFiles = [
           {
-            name: 'thumb1.jpg',
             path: 'thumbnails/thumb1.jpg',
             sha: 'thumb1',
             size: 50000,
-            download_url: 'https://raw.githubusercontent.com/test-owner/test-repo/main/thumbnails/thumb1.jpg',
-            type: 'file',
+            type: 'blob',
           },
           {
-            name: 'thumb2.png',
             path: 'thumbnails/thumb2.png',
             sha: 'thumb2',
             size: 60000,
-            download_url: 'https://raw.githubusercontent.com/test-owner/test-repo/main/thumbnails/thumb2.png',
-            type: 'file',
+            type: 'blob',
           },
           {
-            name: 'not-a-thumbnail.txt',
             path: 'thumbnails/not-a-thumbnail.txt',
             sha: 'txt1',
             size: 1000,
-            download_url: 'https://raw.githubusercontent.com/test-owner/test-repo/main/thumbnails/not-a-thumbnail.txt',
-            type: 'file',
+            type: 'blob',
           },
         ];
 
@@ -972,7 +1702,7 @@ describe('githubUtils', () => {
         mockFetch
           .mockResolvedValueOnce({
             ok: true,
-            json: () => Promise.resolve(mockFiles),
+            json: () => Promise.resolve(gitTree(mockFiles)),
             text: () => Promise.resolve(''),
           })
           // URL validations for image files
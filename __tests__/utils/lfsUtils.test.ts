@@ -0,0 +1,167 @@
+import { Blob as NodeBlob } from 'buffer';
+import { createHash } from 'crypto';
+import {
+  createLfsPointer,
+  parseLfsPointer,
+  decodeLfsPointer,
+  lfsAttributesLines,
+  sha256Hex,
+  uploadLfsObject,
+  fetchLfsDownloadUrl,
+} from '../../src/utils/lfsUtils';
+import * as transferProgress from '../../src/utils/transferProgress';
+import { server, lfsObjects, mockGithubResponses } from '../__mocks__/server';
+import type { GitHubConfig } from '../../src/types';
+
+const config: GitHubConfig = {
+  token: 'test-token',
+  owner: 'test-owner',
+  repo: 'test-repo',
+  branch: 'main',
+  path: 'media/',
+  thumbnailPath: 'thumbnails/',
+  thumbnailWidth: 320,
+  thumbnailHeight: 240,
+};
+
+const oid = 'a'.repeat(64);
+
+describe('lfsUtils', () => {
+  describe('pointer files', () => {
+    it('creates a spec-compliant pointer', () => {
+      expect(createLfsPointer({ oid, size: 1234 })).toBe(
+        `version https://git-lfs.github.com/spec/v1\noid sha256:${oid}\nsize 1234\n`
+      );
+    });
+
+    it('parses pointers it created', () => {
+      expect(parseLfsPointer(createLfsPointer({ oid, size: 52428800 }))).toEqual({ oid, size: 52428800 });
+    });
+
+    it.each([
+      ['regular file content', 'ID3 audio bytes'],
+      ['another spec version', `version https://example.com/spec\noid sha256:${oid}\nsize 1\n`],
+      ['a malformed oid', 'version https://git-lfs.github.com/spec/v1\noid sha256:xyz\nsize 1\n'],
+      ['a missing size', `version https://git-lfs.github.com/spec/v1\noid sha256:${oid}\n`],
+    ])('rejects %s', (_, text) => {
+      expect(parseLfsPointer(text)).toBeNull();
+    });
+
+    it('decodes base64 content from the Contents API', () => {
+      const content = Buffer.from(createLfsPointer({ oid, size: 10 })).toString('base64');
+      // The Contents API wraps base64 at 60 characters
+      const wrapped = content.replace(/(.{60})/g, '$1\n');
+
+      expect(decodeLfsPointer(wrapped)).toEqual({ oid, size: 10 });
+      expect(decodeLfsPointer('not base64!')).toBeNull();
+    });
+
+    it('builds .gitattributes lines for the media extensions of a directory', () => {
+      const lines = lfsAttributesLines('media/');
+
+      expect(lines).toContain('media/**/*.mp3 filter=lfs diff=lfs merge=lfs -text');
+      expect(lines).toContain('media/**/*.webm filter=lfs diff=lfs merge=lfs -text');
+      expect(lfsAttributesLines('media')).toEqual(lines);
+      // The manifest and feed stay plain blobs
+      expect(lines.some(line => line.startsWith('media/** ') || line.includes('*.json') || line.includes('*.xml'))).toBe(false);
+    });
+  });
+
+  describe('object hashing', () => {
+    const bytes = Uint8Array.from({ length: 5000 }, (_, i) => (i * 31) % 256);
+
+    it('hashes a file in chunks', async () => {
+      const file = new NodeBlob([bytes]) as unknown as Blob;
+      const slice = jest.spyOn(file, 'slice');
+
+      await expect(sha256Hex(file, 1000)).resolves.toBe(createHash('sha256').update(bytes).digest('hex'));
+      expect(slice).toHaveBeenCalledTimes(5);
+    });
+
+    it('hashes an empty file', async () => {
+      await expect(sha256Hex(new NodeBlob([]) as unknown as Blob))
+        .resolves.toBe(createHash('sha256').update('').digest('hex'));
+    });
+  });
+
+  describe('LFS batch API', () => {
+    beforeAll(() => {
+      server.listen({ onUnhandledRequest: 'error' });
+    });
+
+    afterEach(() => {
+      mockGithubResponses.resetToDefaults();
+    });
+
+    afterAll(() => {
+      server.close();
+    });
+
+    const recording = () => new NodeBlob(['recorded audio bytes']) as unknown as Blob;
+    const recordingOid = createHash('sha256').update('recorded audio bytes').digest('hex');
+
+    it('hashes, uploads and verifies a new object', async () => {
+      const pointer = await uploadLfsObject(config, recording());
+
+      expect(pointer).toEqual({ oid: recordingOid, size: 20 });
+      expect(Buffer.from(lfsObjects.get(recordingOid)!).toString()).toBe('recorded audio bytes');
+    });
+
+    it('reports the bytes sent to the LFS store', async () => {
+      const send = jest.spyOn(transferProgress, 'sendWithUploadProgress').mockImplementation(async (_url, _init, body, onUploadProgress) => {
+        onUploadProgress(10, body.size);
+        lfsObjects.set(recordingOid, new Uint8Array(await body.arrayBuffer()));
+        onUploadProgress(body.size, body.size);
+        return new Response(null, { status: 200 });
+      });
+      const onBytesSent = jest.fn();
+
+      await uploadLfsObject(config, recording(), onBytesSent);
+
+      expect(send).toHaveBeenCalledWith(`https://lfs.test/objects/${recordingOid}`, expect.objectContaining({ method: 'PUT' }), expect.anything(), expect.any(Function));
+      expect(onBytesSent.mock.calls).toEqual([[10], [20]]);
+      send.mockRestore();
+    });
+
+    it('skips the upload when the server already has the object', async () => {
+      lfsObjects.set(recordingOid, new Uint8Array([1]));
+
+      await uploadLfsObject(config, recording());
+
+      // The stored bytes were not replaced
+      expect(lfsObjects.get(recordingOid)).toEqual(new Uint8Array([1]));
+    });
+
+    it('resolves the download URL of a stored object', async () => {
+      await uploadLfsObject(config, recording());
+
+      await expect(fetchLfsDownloadUrl(config, { oid: recordingOid, size: 20 }))
+        .resolves.toBe(`https://lfs.test/objects/${recordingOid}`);
+    });
+
+    it('reports objects the server does not have', async () => {
+      await expect(fetchLfsDownloadUrl(config, { oid, size: 20 }))
+        .rejects.toThrow('LFS download rejected: 404 Object does not exist');
+    });
+
+    it('sends batch requests through the LFS proxy', async () => {
+      const fetchSpy = jest.spyOn(global, 'fetch');
+
+      await uploadLfsObject(config, recording());
+
+      expect(fetchSpy.mock.calls[0][0]).toBe('https://lfs-proxy.test/test-owner/test-repo.git/info/lfs/objects/batch');
+      fetchSpy.mockRestore();
+    });
+
+    it('refuses LFS requests without a proxy', async () => {
+      let lfs: typeof import('../../src/utils/lfsUtils') | undefined;
+      jest.isolateModules(() => {
+        jest.doMock('../../src/utils/lfsConfig', () => ({ GITHUB_LFS_URL: '' }));
+        lfs = require('../../src/utils/lfsUtils');
+      });
+
+      expect(lfs!.isLfsAvailable()).toBe(false);
+      await expect(lfs!.fetchLfsDownloadUrl(config, { oid, size: 20 })).rejects.toThrow('no LFS proxy is configured');
+    });
+  });
+});
@@ -0,0 +1,261 @@
+import type { GitHubConfig, MediaManifest, MediaManifestEntry } from '../../src/types';
+import {
+  describesTreeChanges,
+  listsTreeMedia,
+  mediaManifestPath,
+  mediaManifestDetails,
+  readMediaManifest,
+  seedMediaManifest,
+  serializeMediaManifest,
+  touchesMediaManifest,
+  updateMediaManifest,
+} from '../../src/utils/mediaManifest';
+import { blobTreeItem, deletionTreeItem } from '../../src/utils/gitDataUtils';
+
+const config = {
+  token: 'test-token',
+  owner: 'test-owner',
+  repo: 'test-repo',
+  branch: 'main',
+  path: 'media/',
+  thumbnailPath: 'thumbnails/',
+} as GitHubConfig;
+
+const entry = (overrides: Partial<MediaManifestEntry> = {}): MediaManifestEntry => ({
+  path: 'media/Podcast_Weekly_Team_2025-03-01.mp3',
+  thumbnailPath: 'thumbnails/Podcast_Weekly_Team_2025-03-01.jpg',
+  title: 'Weekly',
+  author: 'Team',
+  category: 'Podcast',
+  date: '2025-03-01',
+  duration: 125,
+  size: 2048,
+  mimeType: 'audio/mpeg',
+  sha: 'weekly-sha',
+  ...overrides,
+});
+
+const manifestOf = (...files: MediaManifestEntry[]): MediaManifest => ({
+  version: 1,
+  updated: '2025-03-01T10:00:00.000Z',
+  files,
+});
+
+describe('mediaManifest', () => {
+  describe('mediaManifestPath', () => {
+    it('keeps the manifest in the media folder', () => {
+      expect(mediaManifestPath(config)).toBe('media/index.json');
+    });
+  });
+
+  describe('touchesMediaManifest', () => {
+    it('notices media and thumbnail changes only', () => {
+      expect(touchesMediaManifest(config, [deletionTreeItem('thumbnails/clip.jpg')])).toBe(true);
+      expect(touchesMediaManifest(config, [blobTreeItem('media/clip.webm', 'sha')])).toBe(true);
+      expect(touchesMediaManifest(config, [blobTreeItem('.gitattributes', 'sha')])).toBe(false);
+      expect(touchesMediaManifest(config, [blobTreeItem('media/.gitkeep', 'sha')])).toBe(false);
+    });
+  });
+
+  describe('mediaManifestDetails', () => {
+    it('describes a file about to be committed', () => {
+      expect(mediaManifestDetails(new Blob(['abc'], { type: 'audio/mpeg' }), 12)).toEqual({ size: 3, mimeType: 'audio/mpeg', duration: 12 });
+      expect(mediaManifestDetails(new Blob(['abc']))).toEqual({ size: 3, mimeType: 'application/octet-stream' });
+    });
+  });
+
+  describe('updateMediaManifest', () => {
+    it('adds uploaded media with metadata from its file name and its thumbnail', () => {
+      const manifest = updateMediaManifest(null, config, [
+        blobTreeItem('media/News_Update_Ann_2025-04-02.mp4', 'video-sha'),
+        blobTreeItem('thumbnails/News_Update_Ann_2025-04-02.jpg', 'thumb-sha'),
+      ], {
+        'media/News_Update_Ann_2025-04-02.mp4': { size: 4096, mimeType: 'video/mp4', duration: 30 },
+      });
+
+      expect(manifest).toEqual({
+        version: 1,
+        updated: expect.any(String),
+        files: [{
+          path: 'media/News_Update_Ann_2025-04-02.mp4',
+          thumbnailPath: 'thumbnails/News_Update_Ann_2025-04-02.jpg',
+          title: 'Update',
+          author: 'Ann',
+          category: 'News',
+          date: '2025-04-02',
+          duration: 30,
+          size: 4096,
+          mimeType: 'video/mp4',
+          sha: 'video-sha',
+        }],
+      });
+    });
+
+    it('uses the file name as title when it does not follow the naming scheme', () => {
+      const manifest = updateMediaManifest(null, config, [blobTreeItem('media/interview.mp3', 'sha')], {
+        'media/interview.mp3': { size: 1, mimeType: 'audio/mpeg' },
+      });
+
+      expect(manifest.files[0]).toMatchObject({ title: 'interview', author: '', category: '', date: '' });
+    });
+
+    it('moves renamed media, keeping what the new name does not tell', () => {
+      const manifest = updateMediaManifest(manifestOf(entry()), config, [
+        deletionTreeItem('media/Podcast_Weekly_Team_2025-03-01.mp3'),
+        deletionTreeItem('thumbnails/Podcast_Weekly_Team_2025-03-01.jpg'),
+        blobTreeItem('media/Podcast_Monthly_Team_2025-03-01.mp3', 'weekly-sha'),
+        blobTreeItem('thumbnails/Podcast_Monthly_Team_2025-03-01.jpg', 'thumb-sha'),
+      ]);
+
+      expect(manifest.files).toEqual([entry({
+        path: 'media/Podcast_Monthly_Team_2025-03-01.mp3',
+        thumbnailPath: 'thumbnails/Podcast_Monthly_Team_2025-03-01.jpg',
+        title: 'Monthly',
+      })]);
+    });
+
+    it('removes deleted media and forgets deleted thumbnails', () => {
+      const other = entry({ path: 'media/other.mp3', thumbnailPath: 'thumbnails/other.jpg', sha: 'other-sha' });
+      const manifest = updateMediaManifest(manifestOf(entry(), other), config, [
+        deletionTreeItem('media/Podcast_Weekly_Team_2025-03-01.mp3'),
+        deletionTreeItem('thumbnails/Podcast_Weekly_Team_2025-03-01.jpg'),
+        deletionTreeItem('thumbnails/other.jpg'),
+      ]);
+
+      expect(manifest.files).toEqual([{ ...other, thumbnailPath: undefined }]);
+      expect(serializeMediaManifest(manifest)).not.toContain('thumbnailPath');
+    });
+
+    it('replaces the entry of overwritten media', () => {
+      const manifest = updateMediaManifest(manifestOf(entry()), config, [
+        blobTreeItem('media/Podcast_Weekly_Team_2025-03-01.mp3', 'new-sha'),
+      ], {
+        'media/Podcast_Weekly_Team_2025-03-01.mp3': { size: 10, mimeType: 'audio/mpeg' },
+      });
+
+      expect(manifest.files).toEqual([entry({ sha: 'new-sha', size: 10, duration: undefined })]);
+    });
+
+    it('skips media moved from a path it never listed', () => {
+      const manifest = updateMediaManifest(null, config, [
+        deletionTreeItem('media/unknown.mp3'),
+        blobTreeItem('media/renamed.mp3', 'unknown-sha'),
+      ]);
+
+      expect(manifest.files).toEqual([]);
+    });
+  });
+
+  describe('describesTreeChanges', () => {
+    it('accepts uploads with details and media it lists at the path or under the blob SHA', () => {
+      const manifest = manifestOf(entry());
+
+      expect(describesTreeChanges(manifest, config, [blobTreeItem('media/new.mp3', 'new-sha')], {
+        'media/new.mp3': { size: 10, mimeType: 'audio/mpeg' },
+      })).toBe(true);
+      expect(describesTreeChanges(manifest, config, [
+        deletionTreeItem('media/Podcast_Weekly_Team_2025-03-01.mp3'),
+        blobTreeItem('media/renamed.mp3', 'weekly-sha'),
+      ])).toBe(true);
+      expect(describesTreeChanges(manifest, config, [blobTreeItem('thumbnails/other.jpg', 'jpg-sha')])).toBe(true);
+    });
+
+    it('rejects media moved from a path it never listed', () => {
+      expect(describesTreeChanges(manifestOf(entry()), config, [
+        deletionTreeItem('media/unlisted.mp3'),
+        blobTreeItem('media/renamed.mp3', 'unlisted-sha'),
+      ])).toBe(false);
+    });
+  });
+
+  const listed = (path: string, sha: string, size: number) => ({ path, mode: '100644', type: 'blob' as const, sha, size });
+
+  describe('listsTreeMedia', () => {
+    const weekly = listed('media/Podcast_Weekly_Team_2025-03-01.mp3', 'weekly-sha', 2048);
+
+    it('accepts a manifest listing every media file of the tree at its blob', () => {
+      expect(listsTreeMedia(manifestOf(entry()), config, [
+        weekly,
+        listed('media/index.json', 'json-sha', 400),
+        listed('thumbnails/Podcast_Weekly_Team_2025-03-01.jpg', 'jpg-sha', 300),
+      ])).toBe(true);
+    });
+
+    it('rejects a manifest missing media committed without the app', () => {
+      expect(listsTreeMedia(manifestOf(entry()), config, [weekly, listed('media/merged.mp3', 'merged-sha', 512)])).toBe(false);
+      expect(listsTreeMedia(manifestOf(entry()), config, [{ ...weekly, sha: 'overwritten-sha' }])).toBe(false);
+      expect(listsTreeMedia(manifestOf(entry()), config, [])).toBe(false);
+    });
+  });
+
+  describe('seedMediaManifest', () => {
+    it('lists the media already in the repository with their thumbnails', () => {
+      const manifest = seedMediaManifest(config, [
+        listed('media/Podcast_Weekly_Team_2025-03-01.mp3', 'weekly-sha', 2048),
+        listed('media/interview.mov', 'mov-sha', 4096),
+        listed('media/notes.txt', 'txt-sha', 12),
+        { path: 'media/archive', mode: '040000', type: 'tree', sha: 'archive-sha' },
+        listed('thumbnails/Podcast_Weekly_Team_2025-03-01.jpg', 'jpg-sha', 300),
+      ]);
+
+      expect(manifest.files).toEqual([
+        { path: 'media/interview.mov', title: 'interview', author: '', category: '', date: '', size: 4096, mimeType: 'video/quicktime', sha: 'mov-sha' },
+        entry({ duration: undefined }),
+      ]);
+    });
+
+    it('keeps earlier entries whose blob is unchanged', () => {
+      const manifest = seedMediaManifest(config, [
+        listed('media/Podcast_Weekly_Team_2025-03-01.mp3', 'weekly-sha', 130),
+        listed('media/replaced.mp3', 'replaced-sha', 64),
+      ], manifestOf(entry(), entry({ path: 'media/replaced.mp3', thumbnailPath: undefined, sha: 'old-sha' })));
+
+      expect(manifest.files).toEqual([
+        entry({ thumbnailPath: undefined }),
+        expect.objectContaining({ path: 'media/replaced.mp3', size: 64, sha: 'replaced-sha' }),
+      ]);
+    });
+  });
+
+  describe('readMediaManifest', () => {
+    const mockFetch = () => global.fetch as jest.Mock;
+
+    beforeEach(() => {
+      mockFetch().mockReset();
+    });
+
+    it('reads the raw manifest at a commit', async () => {
+      const manifest = manifestOf(entry());
+      mockFetch().mockResolvedValueOnce({ ok: true, status: 200, json: () => Promise.resolve(manifest) });
+
+      await expect(readMediaManifest(config, 'commit-sha')).resolves.toEqual(manifest);
+      expect(mockFetch()).toHaveBeenCalledWith(
+        'https://api.github.com/repos/test-owner/test-repo/contents/media/index.json?ref=commit-sha',
+        expect.objectContaining({
+          headers: { Authorization: 'Bearer test-token', Accept: 'application/vnd.github.raw+json' },
+        })
+      );
+    });
+
+    it('resolves null when there is no manifest yet', async () => {
+      mockFetch().mockResolvedValueOnce({ ok: false, status: 404 });
+
+      await expect(readMediaManifest(config, 'main')).resolves.toBeNull();
+    });
+
+    it('resolves null for a manifest that has to be rebuilt', async () => {
+      const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+      mockFetch().mockResolvedValueOnce({ ok: true, status: 200, json: () => Promise.resolve({ recordings: [] }) });
+
+      await expect(readMediaManifest(config, 'main')).resolves.toBeNull();
+      expect(warn).toHaveBeenCalledWith('media/index.json is not a valid media manifest, rebuilding it');
+      warn.mockRestore();
+    });
+
+    it('throws when the manifest cannot be read', async () => {
+      mockFetch().mockResolvedValueOnce({ ok: false, status: 500 });
+
+      await expect(readMediaManifest(config, 'main')).rejects.toThrow('Failed to read media manifest: 500');
+    });
+  });
+});
@@ -0,0 +1,70 @@
+import { findNameCollisions, keepBothNames } from '../../src/utils/nameCollisions';
+import type { NewUploadJob } from '../../src/types';
+
+const folders = { path: 'media/', thumbnailPath: 'thumbnails/' };
+
+const job = (fileName: string, thumbnail = true): NewUploadJob => ({
+  fileId: `local-${fileName}`,
+  fileName,
+  file: new Blob(['audio']),
+  ...(thumbnail ? { thumbnail: { fileName: fileName.replace(/\.[^.]+$/, '.jpg'), file: new Blob(['image']) } } : {}),
+});
+
+describe('nameCollisions', () => {
+  describe('findNameCollisions', () => {
+    it('finds jobs whose media path already exists', () => {
+      const jobs = [job('Podcast_Weekly_Team_2025-03-01.mp3'), job('Podcast_Other_Team_2025-03-01.mp3')];
+      const existing = new Set(['media/Podcast_Weekly_Team_2025-03-01.mp3']);
+
+      expect(findNameCollisions(jobs, existing, folders)).toEqual([jobs[0]]);
+    });
+
+    it('finds jobs whose thumbnail path already exists', () => {
+      const jobs = [job('clip.mp3')];
+
+      expect(findNameCollisions(jobs, new Set(['thumbnails/clip.jpg']), folders)).toEqual(jobs);
+    });
+
+    it('finds jobs that clash with an earlier job of the same batch', () => {
+      const jobs = [job('clip.mp3'), job('clip.mp3')];
+
+      expect(findNameCollisions(jobs, new Set(), folders)).toEqual([jobs[1]]);
+    });
+
+    it('ignores files in other folders', () => {
+      expect(findNameCollisions([job('clip.mp3')], new Set(['media/2024/clip.mp3']), folders)).toEqual([]);
+    });
+  });
+
+  describe('keepBothNames', () => {
+    it('numbers colliding media and thumbnails together', () => {
+      const existing = new Set(['media/Podcast_Weekly_Team_2025-03-01.mp3', 'thumbnails/Podcast_Weekly_Team_2025-03-01.jpg']);
+
+      const [renamed] = keepBothNames([job('Podcast_Weekly_Team_2025-03-01.mp3')], existing, folders);
+
+      expect(renamed.fileName).toBe('Podcast_Weekly (2)_Team_2025-03-01.mp3');
+      expect(renamed.thumbnail?.fileName).toBe('Podcast_Weekly (2)_Team_2025-03-01.jpg');
+    });
+
+    it('skips copy numbers that are taken as well', () => {
+      const existing = new Set(['media/clip.mp3', 'media/clip (2).mp3', 'thumbnails/clip (3).jpg']);
+
+      const [renamed] = keepBothNames([job('clip.mp3')], existing, folders);
+
+      expect(renamed.fileName).toBe('clip (4).mp3');
+      expect(renamed.thumbnail?.fileName).toBe('clip (4).jpg');
+    });
+
+    it('leaves jobs without collisions unchanged', () => {
+      const jobs = [job('clip.mp3', false)];
+
+      expect(keepBothNames(jobs, new Set(['media/other.mp3']), folders)[0]).toBe(jobs[0]);
+    });
+
+    it('numbers clashing jobs of the same batch apart', () => {
+      const renamed = keepBothNames([job('clip.mp3'), job('clip.mp3')], new Set(), folders);
+
+      expect(renamed.map(renamedJob => renamedJob.fileName)).toEqual(['clip.mp3', 'clip (2).mp3']);
+    });
+  });
+});
@@ -0,0 +1,138 @@
+import type { EnhancedFileRecord } from '../../src/types';
+
+const mockBlobs = new Map<string, Blob>();
+
+jest.mock('../../src/utils/githubUtils', () => ({
+  generateFreshDownloadUrl: jest.fn(async (filePath: string) => `https://raw.example.com/${filePath}`),
+}));
+
+jest.mock('../../src/utils/persistentStorage', () => ({
+  storeBlobInIndexedDB: jest.fn(async (key: string, blob: Blob) => { mockBlobs.set(key, blob); }),
+  getBlobFromIndexedDB: jest.fn(async (key: string) => mockBlobs.get(key) || null),
+  deleteBlobFromIndexedDB: jest.fn(async (key: string) => { mockBlobs.delete(key); }),
+}));
+
+import {
+  downloadRemoteFile,
+  saveOfflineCopy,
+  loadOfflineCopy,
+  deleteOfflineCopy,
+  recentRemoteFiles,
+} from '../../src/utils/offlineCache';
+import { generateFreshDownloadUrl } from '../../src/utils/githubUtils';
+
+const mockFetch = global.fetch as jest.MockedFunction<typeof fetch>;
+
+function blobResponse(content: string, status = 200): Response {
+  return {
+    ok: status >= 200 && status < 300,
+    status,
+    blob: async () => new Blob([content]),
+  } as unknown as Response;
+}
+
+const remoteFile = (overrides: Partial<EnhancedFileRecord> = {}): EnhancedFileRecord => ({
+  id: 'remote-abc',
+  name: 'clip.mp3',
+  type: 'audio',
+  mimeType: 'audio/mp3',
+  size: 4,
+  created: 0,
+  file: undefined as unknown as Blob,
+  url: 'media/clip.mp3',
+  path: 'media/clip.mp3',
+  isLocal: false,
+  ...overrides,
+});
+
+describe('offlineCache', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockBlobs.clear();
+    mockFetch.mockReset();
+  });
+
+  describe('downloadRemoteFile', () => {
+    it('downloads the file from a fresh download URL', async () => {
+      mockFetch.mockResolvedValue(blobResponse('media'));
+
+      const blob = await downloadRemoteFile('media/clip.mp3', 'feature');
+
+      expect(generateFreshDownloadUrl).toHaveBeenCalledWith('media/clip.mp3', 'feature');
+      expect(mockFetch).toHaveBeenCalledWith('https://raw.example.com/media/clip.mp3');
+      expect(blob.size).toBe(5);
+    });
+
+    it('throws when the download fails', async () => {
+      mockFetch.mockResolvedValue(blobResponse('', 404));
+
+      await expect(downloadRemoteFile('media/clip.mp3')).rejects.toThrow('Failed to download media/clip.mp3: 404');
+    });
+  });
+
+  describe('saveOfflineCopy', () => {
+    it('stores the media and thumbnail under the file id', async () => {
+      mockFetch.mockImplementation(async (url) => blobResponse(String(url).endsWith('.jpg') ? 'thumb' : 'media'));
+
+      const entry = await saveOfflineCopy(remoteFile(), 'thumbnails/clip.jpg');
+
+      expect(entry).toEqual({ size: 10, cachedAt: expect.any(Number), hasThumbnail: true });
+      const copy = await loadOfflineCopy('remote-abc', entry);
+      expect(copy?.media.size).toBe(5);
+      expect(copy?.thumbnail?.size).toBe(5);
+    });
+
+    it('keeps the media when the thumbnail cannot be downloaded', async () => {
+      const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+      mockFetch.mockImplementation(async (url) => String(url).endsWith('.jpg') ? blobResponse('', 404) : blobResponse('media'));
+
+      const entry = await saveOfflineCopy(remoteFile(), 'thumbnails/clip.jpg');
+
+      expect(entry.hasThumbnail).toBe(false);
+      expect(await loadOfflineCopy('remote-abc', entry)).toEqual({ media: expect.any(Blob), thumbnail: null });
+      warn.mockRestore();
+    });
+
+    it('stores nothing when the media download fails', async () => {
+      mockFetch.mockResolvedValue(blobResponse('', 500));
+
+      await expect(saveOfflineCopy(remoteFile())).rejects.toThrow('Failed to download');
+      expect(mockBlobs.size).toBe(0);
+    });
+  });
+
+  describe('loadOfflineCopy', () => {
+    it('returns null once the media blob is gone', async () => {
+      expect(await loadOfflineCopy('remote-missing', { size: 1, cachedAt: 0, hasThumbnail: false })).toBeNull();
+    });
+  });
+
+  describe('deleteOfflineCopy', () => {
+    it('removes the media and thumbnail blobs', async () => {
+      mockFetch.mockResolvedValue(blobResponse('data'));
+      await saveOfflineCopy(remoteFile(), 'thumbnails/clip.jpg');
+
+      await deleteOfflineCopy('remote-abc');
+
+      expect(mockBlobs.size).toBe(0);
+    });
+  });
+
+  describe('recentRemoteFiles', () => {
+    const files = [
+      remoteFile({ id: 'local-1', isLocal: true }),
+      remoteFile({ id: 'remote-1' }),
+      remoteFile({ id: 'pr-2-clip.mp3', pullRequest: { number: 2, url: '', branch: 'media/clip.mp3' } }),
+      remoteFile({ id: 'remote-2' }),
+      remoteFile({ id: 'remote-3' }),
+    ];
+
+    it('picks the first remote files on the branch', () => {
+      expect(recentRemoteFiles(files, 2).map(file => file.id)).toEqual(['remote-1', 'remote-2']);
+    });
+
+    it('picks nothing when auto-caching is off', () => {
+      expect(recentRemoteFiles(files, 0)).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,164 @@
+import type { GitHubConfig, MediaManifest, MediaManifestEntry, PodcastFeedSettings } from '../../src/types';
+import {
+  buildPodcastFeed,
+  feedUrl,
+  formatFeedDuration,
+  isGeneratedFeed,
+  podcastEpisodes,
+  podcastFeedChanged,
+  podcastFeedPath,
+  readPodcastFeed,
+} from '../../src/utils/podcastFeed';
+
+const settings: PodcastFeedSettings = {
+  enabled: true,
+  path: 'feed.xml',
+  categories: ['Podcast'],
+  title: 'Team & Friends',
+  description: 'Weekly news',
+  ownerName: 'Team',
+  ownerEmail: 'team@example.com',
+  baseUrl: 'https://team.github.io/media/',
+};
+
+const entry = (overrides: Partial<MediaManifestEntry> = {}): MediaManifestEntry => ({
+  path: 'media/Podcast_Weekly_Team_2025-03-01.mp3',
+  thumbnailPath: 'thumbnails/Podcast_Weekly_Team_2025-03-01.jpg',
+  title: 'Weekly',
+  author: 'Team',
+  category: 'Podcast',
+  date: '2025-03-01',
+  duration: 125,
+  size: 2048,
+  mimeType: 'audio/mpeg',
+  sha: 'weekly-sha',
+  ...overrides,
+});
+
+const manifestOf = (...files: MediaManifestEntry[]): MediaManifest => ({
+  version: 1,
+  updated: '2025-03-01T10:00:00.000Z',
+  files,
+});
+
+describe('podcastFeed', () => {
+  describe('podcastFeedPath', () => {
+    it('falls back to feed.xml at the repository root', () => {
+      expect(podcastFeedPath({ ...settings, path: '/podcast/feed.xml' })).toBe('podcast/feed.xml');
+      expect(podcastFeedPath({ ...settings, path: ' ' })).toBe('feed.xml');
+    });
+  });
+
+  describe('feedUrl', () => {
+    it('encodes each path segment below the base URL', () => {
+      expect(feedUrl(settings, 'media/Weekly (2).mp3')).toBe('https://team.github.io/media/media/Weekly%20(2).mp3');
+    });
+  });
+
+  describe('formatFeedDuration', () => {
+    it('formats minutes and hours', () => {
+      expect(formatFeedDuration(65.4)).toBe('1:05');
+      expect(formatFeedDuration(3725)).toBe('1:02:05');
+    });
+  });
+
+  describe('podcastEpisodes', () => {
+    it('lists recordings of the feed categories, newest first', () => {
+      const older = entry({ path: 'media/older.mp3', date: '2025-02-01', sha: 'older-sha' });
+      const music = entry({ path: 'media/song.mp3', category: 'Music', sha: 'song-sha' });
+      const newer = entry({ path: 'media/newer.mp3', date: '2025-04-01', sha: 'newer-sha' });
+
+      expect(podcastEpisodes(manifestOf(older, music, newer), settings)).toEqual([newer, older]);
+      expect(podcastEpisodes(null, settings)).toEqual([]);
+    });
+  });
+
+  describe('podcastFeedChanged', () => {
+    const published = buildPodcastFeed(manifestOf(entry()), settings, new Date('2025-03-02T08:00:00Z'));
+
+    it('ignores changes outside the feed categories and the build date', () => {
+      expect(podcastFeedChanged(settings, published, manifestOf(entry(), entry({ path: 'media/song.mp3', category: 'Music' })))).toBe(false);
+      expect(podcastFeedChanged(settings, published, manifestOf(entry({ title: 'Monthly' })))).toBe(true);
+      expect(podcastFeedChanged(settings, null, manifestOf(entry()))).toBe(true);
+    });
+
+    it('notices changed channel settings', () => {
+      expect(podcastFeedChanged({ ...settings, title: 'Renamed Show' }, published, manifestOf(entry()))).toBe(true);
+      expect(podcastFeedChanged({ ...settings, baseUrl: 'https://example.com/podcast' }, published, manifestOf(entry()))).toBe(true);
+    });
+  });
+
+  describe('buildPodcastFeed', () => {
+    it('renders the channel and an episode per recording', () => {
+      const feed = buildPodcastFeed(manifestOf(entry()), settings, new Date('2025-03-02T08:00:00Z'));
+
+      expect(feed).toContain('<title>Team &amp; Friends</title>');
+      expect(feed).toContain('<link>https://team.github.io/media</link>');
+      expect(feed).toContain('<atom:link href="https://team.github.io/media/feed.xml" rel="self" type="application/rss+xml"/>');
+      expect(feed).toContain('<lastBuildDate>Sun, 02 Mar 2025 08:00:00 GMT</lastBuildDate>');
+      expect(isGeneratedFeed(feed)).toBe(true);
+      expect(feed).toContain('<itunes:email>team@example.com</itunes:email>');
+      expect(feed).toContain('<enclosure url="https://team.github.io/media/media/Podcast_Weekly_Team_2025-03-01.mp3" length="2048" type="audio/mpeg"/>');
+      expect(feed).toContain('<guid isPermaLink="false">media/Podcast_Weekly_Team_2025-03-01.mp3</guid>');
+      expect(feed).toContain('<pubDate>Sat, 01 Mar 2025 00:00:00 GMT</pubDate>');
+      expect(feed).toContain('<itunes:duration>2:05</itunes:duration>');
+      expect(feed).toContain('<itunes:image href="https://team.github.io/media/thumbnails/Podcast_Weekly_Team_2025-03-01.jpg"/>');
+    });
+
+    it('keeps the episode guid when the file is overwritten', () => {
+      const guid = (feed: string) => feed.match(/<guid[^>]*>([^<]*)<\/guid>/)?.[1];
+
+      expect(guid(buildPodcastFeed(manifestOf(entry({ sha: 'restored-sha' })), settings)))
+        .toBe(guid(buildPodcastFeed(manifestOf(entry()), settings)));
+    });
+
+    it('leaves out what the manifest does not know', () => {
+      const feed = buildPodcastFeed(manifestOf(entry({ author: '', date: '', duration: undefined, thumbnailPath: undefined })), settings);
+
+      expect(feed).toContain('<description>Weekly</description>');
+      expect(feed).not.toContain('<pubDate>');
+      expect(feed).not.toContain('<itunes:duration>');
+      expect(feed).not.toContain('<itunes:image');
+    });
+  });
+
+  describe('isGeneratedFeed', () => {
+    it('does not claim feeds written by hand or by other tools', () => {
+      expect(isGeneratedFeed('<rss version="2.0"><channel><title>Our Show</title></channel></rss>')).toBe(false);
+      expect(isGeneratedFeed('<rss version="2.0"><channel><generator>Jekyll</generator></channel></rss>')).toBe(false);
+    });
+  });
+
+  describe('readPodcastFeed', () => {
+    const config = { token: 'test-token', owner: 'test-owner', repo: 'test-repo', branch: 'main' } as GitHubConfig;
+    const mockFetch = () => global.fetch as jest.Mock;
+
+    beforeEach(() => {
+      mockFetch().mockReset();
+    });
+
+    it('reads the raw file at the feed path', async () => {
+      mockFetch().mockResolvedValueOnce({ ok: true, status: 200, text: () => Promise.resolve('<rss/>') });
+
+      await expect(readPodcastFeed(config, settings, 'commit-sha')).resolves.toBe('<rss/>');
+      expect(mockFetch()).toHaveBeenCalledWith(
+        'https://api.github.com/repos/test-owner/test-repo/contents/feed.xml?ref=commit-sha',
+        expect.objectContaining({
+          headers: { Authorization: 'Bearer test-token', Accept: 'application/vnd.github.raw+json' },
+        })
+      );
+    });
+
+    it('resolves null when there is no feed yet', async () => {
+      mockFetch().mockResolvedValueOnce({ ok: false, status: 404 });
+
+      await expect(readPodcastFeed(config, settings, 'main')).resolves.toBeNull();
+    });
+
+    it('throws when the feed cannot be read', async () => {
+      mockFetch().mockResolvedValueOnce({ ok: false, status: 500 });
+
+      await expect(readPodcastFeed(config, settings, 'main')).rejects.toThrow('Failed to read podcast feed: 500');
+    });
+  });
+});
@@ -0,0 +1,103 @@
+import {
+  recordRateLimit,
+  getRateLimitStatus,
+  rateLimitWait,
+  isRateLimited,
+  rateLimitMessage,
+  subscribeRateLimit,
+  clearRateLimitStatus,
+} from '../../src/utils/rateLimit';
+
+const NOW = new Date('2025-10-06T12:00:00Z').getTime();
+const RESET_SECONDS = NOW / 1000 + 600;
+
+const response = (status: number, headers: Record<string, string>) =>
+  new Response(null, { status, headers });
+
+describe('rateLimit', () => {
+  beforeEach(() => {
+    jest.spyOn(Date, 'now').mockReturnValue(NOW);
+    clearRateLimitStatus();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('records the remaining quota and reset time', () => {
+    recordRateLimit(response(200, {
+      'X-RateLimit-Limit': '5000',
+      'X-RateLimit-Remaining': '4812',
+      'X-RateLimit-Reset': String(RESET_SECONDS),
+      'X-RateLimit-Resource': 'core',
+    }));
+
+    expect(getRateLimitStatus()).toEqual({
+      limit: 5000,
+      remaining: 4812,
+      resetAt: RESET_SECONDS * 1000,
+      secondaryUntil: null,
+      updatedAt: NOW,
+    });
+    expect(rateLimitWait()).toBe(0);
+  });
+
+  it('waits for the reset once the quota is used up', () => {
+    const refused = response(403, {
+      'X-RateLimit-Limit': '5000',
+      'X-RateLimit-Remaining': '0',
+      'X-RateLimit-Reset': String(RESET_SECONDS),
+    });
+    recordRateLimit(refused);
+
+    expect(rateLimitWait()).toBe(600000);
+    expect(isRateLimited(refused)).toBe(true);
+    expect(rateLimitMessage()).toMatch(/^GitHub API rate limit reached, paused until /);
+    expect(rateLimitWait(NOW + 600000)).toBe(0);
+  });
+
+  it('tracks secondary rate limits separately from the quota', () => {
+    recordRateLimit(response(403, {
+      'X-RateLimit-Limit': '5000',
+      'X-RateLimit-Remaining': '4000',
+      'X-RateLimit-Reset': String(RESET_SECONDS),
+      'Retry-After': '30',
+    }));
+
+    expect(getRateLimitStatus()).toEqual(expect.objectContaining({ remaining: 4000, secondaryUntil: NOW + 30000 }));
+    expect(rateLimitWait()).toBe(30000);
+    expect(rateLimitMessage()).toMatch(/^GitHub secondary rate limit reached/);
+  });
+
+  it('waits a minute on a 429 without a retry time', () => {
+    recordRateLimit(response(429, {}));
+
+    expect(rateLimitWait()).toBe(60000);
+  });
+
+  it('treats a plain 403 as denied access', () => {
+    const denied = response(403, {});
+    recordRateLimit(denied);
+
+    expect(isRateLimited(denied)).toBe(false);
+    expect(getRateLimitStatus().updatedAt).toBeNull();
+  });
+
+  it('ignores quotas other than the core API', () => {
+    recordRateLimit(response(200, { 'X-RateLimit-Remaining': '0', 'X-RateLimit-Resource': 'search' }));
+
+    expect(getRateLimitStatus().remaining).toBeNull();
+  });
+
+  it('notifies subscribers of changes', () => {
+    const listener = jest.fn();
+    const unsubscribe = subscribeRateLimit(listener);
+
+    recordRateLimit(response(200, { 'X-RateLimit-Remaining': '10' }));
+    recordRateLimit(response(200, {}));
+    unsubscribe();
+    recordRateLimit(response(200, { 'X-RateLimit-Remaining': '9' }));
+
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+});
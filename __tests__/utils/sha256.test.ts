@@ -0,0 +1,33 @@
+import { createHash } from 'crypto';
+import { createSha256 } from '../../src/utils/sha256';
+
+const bytes = (length: number) => Uint8Array.from({ length }, (_, i) => (i * 31 + 7) % 256);
+const expected = (data: Uint8Array) => createHash('sha256').update(data).digest('hex');
+
+describe('createSha256', () => {
+  it('hashes the empty message', () => {
+    expect(createSha256().digestHex()).toBe('e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855');
+  });
+
+  it('hashes a known message', () => {
+    const hash = createSha256();
+    hash.update(new TextEncoder().encode('abc'));
+    expect(hash.digestHex()).toBe('ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad');
+  });
+
+  it.each([55, 56, 63, 64, 65, 1000])('pads a %i byte message', (length) => {
+    const data = bytes(length);
+    const hash = createSha256();
+    hash.update(data);
+    expect(hash.digestHex()).toBe(expected(data));
+  });
+
+  it.each([1, 7, 63, 64, 1000])('gives the same digest when fed %i bytes at a time', (size) => {
+    const data = bytes(4099);
+    const hash = createSha256();
+    for (let offset = 0; offset < data.length; offset += size) {
+      hash.update(data.subarray(offset, offset + size));
+    }
+    expect(hash.digestHex()).toBe(expected(data));
+  });
+});
@@ -3,12 +3,17 @@ import {
   getStoredToken,
   getStoredUsername,
   getTokenTimestamp,
-  isTokenLikelyExpired,
+  getTokenExpiresAt,
   checkTokenValidity,
   clearTokenData,
   storeTokenData,
   isAuthenticated,
+  isPassphraseEnabled,
+  isTokenLocked,
+  enableTokenPassphrase,
+  unlockToken,
 } from '../../src/utils/tokenAuth';
+import { saveUploadConfig, loadUploadConfig, enqueueUploadJobs, listUploadJobs } from '../../src/utils/uploadQueue';
 
 // Mock the auth store
 jest.mock('../../src/stores/authStore', () => ({
@@ -56,6 +61,7 @@ describe('tokenAuth utilities', () => {
           isValid: true,
           isExpired: false,
           username: 'testuser',
+          expiresAt: null,
         });
         expect(global.fetch).toHaveBeenCalledWith('https://api.github.com/user', {
           headers: {
@@ -66,6 +72,33 @@ describe('tokenAuth utilities', () => {
       });
     });
 
+    it('reports the expiry GitHub sends for the token', async () => {
+      (global.fetch as jest.Mock).mockResolvedValueOnce({
+        ok: true,
+        headers: new Headers({ 'github-authentication-token-expiration': '2025-11-01 12:00:00 UTC' }),
+        json: () => Promise.resolve({ login: 'testuser' }),
+      });
+
+      const result = await validateToken('expiring-token');
+
+      expect(result.expiresAt).toBe(Date.parse('2025-11-01T12:00:00Z'));
+    });
+
+    it('validates against the GitHub Enterprise Server of the stored config', async () => {
+      mockUseAuthStore.getState.mockReturnValue({
+        isAuthenticated: true,
+        githubConfig: { token: 'token', owner: 'user', repo: '', apiBaseUrl: 'https://github.example.com/api/v3' },
+      });
+      (global.fetch as jest.Mock).mockResolvedValueOnce({
+        ok: true,
+        json: () => Promise.resolve({ login: 'user' }),
+      });
+
+      await validateToken('token');
+
+      expect(global.fetch).toHaveBeenCalledWith('https://github.example.com/api/v3/user', expect.anything());
+    });
+
     describe('invalid/expired tokens', () => {
       it('handles expired/invalid token (401)', async () => {
         (global.fetch as jest.Mock).mockResolvedValueOnce({
@@ -322,79 +355,34 @@ describe('tokenAuth utilities', () => {
     });
   });
 
-  describe('isTokenLikelyExpired', () => {
-    describe('fresh tokens', () => {
-      it('returns false for recent tokens', () => {
-        const recentTimestamp = Date.now() - (30 * 24 * 60 * 60 * 1000); // 30 days ago
-        mockUseAuthStore.getState.mockReturnValue({
-          tokenTimestamp: recentTimestamp,
-        });
-
-        const result = isTokenLikelyExpired();
-
-        expect(result).toBe(false);
-      });
-    });
-
-    describe('old tokens', () => {
-      it('returns true for tokens older than 90 days', () => {
-        const oldTimestamp = Date.now() - (100 * 24 * 60 * 60 * 1000); // 100 days ago
-        mockUseAuthStore.getState.mockReturnValue({
-          tokenTimestamp: oldTimestamp,
-        });
+  describe('getTokenExpiresAt', () => {
+    it('returns the expiry stored from GitHub', () => {
+      const expiresAt = Date.now() + 1000;
+      mockUseAuthStore.getState.mockReturnValue({ tokenExpiresAt: expiresAt });
 
-        const result = isTokenLikelyExpired();
-
-        expect(result).toBe(true);
-      });
-
-      it('returns true when no timestamp is available', () => {
-        mockUseAuthStore.getState.mockReturnValue({
-          tokenTimestamp: null,
-        });
-
-        const result = isTokenLikelyExpired();
-
-        expect(result).toBe(true);
-      });
+      expect(getTokenExpiresAt()).toBe(expiresAt);
     });
 
-    describe('edge cases', () => {
-      it('handles exactly 90 days old token', () => {
-        const exactlyNinetyDays = Date.now() - (90 * 24 * 60 * 60 * 1000);
-        mockUseAuthStore.getState.mockReturnValue({
-          tokenTimestamp: exactlyNinetyDays,
-        });
-
-        const result = isTokenLikelyExpired();
-
-        expect(result).toBe(false);
-      });
-
-      it('handles slightly over 90 days old token', () => {
-        const slightlyOver = Date.now() - (90 * 24 * 60 * 60 * 1000 + 1000);
-        mockUseAuthStore.getState.mockReturnValue({
-          tokenTimestamp: slightlyOver,
-        });
-
-        const result = isTokenLikelyExpired();
+    it('returns null when the expiry is unknown', () => {
+      mockUseAuthStore.getState.mockReturnValue({});
 
-        expect(result).toBe(true);
-      });
+      expect(getTokenExpiresAt()).toBeNull();
     });
   });
 
   describe('checkTokenValidity', () => {
     describe('valid tokens', () => {
-      it('validates fresh token with API', async () => {
-        const recentTimestamp = Date.now() - (30 * 24 * 60 * 60 * 1000);
+      it('validates old tokens with the API instead of guessing from their age', async () => {
+        const setTokenExpiresAt = jest.fn();
         mockUseAuthStore.getState.mockReturnValue({
           isAuthenticated: true,
           githubConfig: {
             token: 'valid-token',
             owner: 'user',
           },
-          tokenTimestamp: recentTimestamp,
+          tokenTimestamp: Date.now() - (400 * 24 * 60 * 60 * 1000),
+          tokenExpiresAt: null,
+          setTokenExpiresAt,
         });
 
         (global.fetch as jest.Mock).mockResolvedValueOnce({
@@ -408,7 +396,28 @@ describe('tokenAuth utilities', () => {
           isValid: true,
           isExpired: false,
           username: 'user',
+          expiresAt: null,
         });
+        expect(setTokenExpiresAt).toHaveBeenCalledWith(null);
+      });
+
+      it('stores the expiry reported by GitHub', async () => {
+        const setTokenExpiresAt = jest.fn();
+        mockUseAuthStore.getState.mockReturnValue({
+          isAuthenticated: true,
+          githubConfig: { token: 'valid-token', owner: 'user' },
+          tokenExpiresAt: null,
+          setTokenExpiresAt,
+        });
+        (global.fetch as jest.Mock).mockResolvedValueOnce({
+          ok: true,
+          headers: new Headers({ 'github-authentication-token-expiration': '2099-01-07 09:30:00 -0800' }),
+          json: () => Promise.resolve({ login: 'user' }),
+        });
+
+        await checkTokenValidity();
+
+        expect(setTokenExpiresAt).toHaveBeenCalledWith(Date.parse('2099-01-07T09:30:00-08:00'));
       });
     });
 
@@ -430,15 +439,15 @@ describe('tokenAuth utilities', () => {
     });
 
     describe('expired tokens', () => {
-      it('returns expired for old tokens without API call', async () => {
-        const oldTimestamp = Date.now() - (100 * 24 * 60 * 60 * 1000);
+      it('returns expired without API call once the reported expiry has passed', async () => {
         mockUseAuthStore.getState.mockReturnValue({
           isAuthenticated: true,
           githubConfig: {
             token: 'old-token',
             owner: 'user',
           },
-          tokenTimestamp: oldTimestamp,
+          tokenTimestamp: Date.now() - (8 * 24 * 60 * 60 * 1000),
+          tokenExpiresAt: Date.now() - 1000,
         });
 
         const result = await checkTokenValidity();
@@ -446,7 +455,7 @@ describe('tokenAuth utilities', () => {
         expect(result).toEqual({
           isValid: false,
           isExpired: true,
-          error: 'Token is likely expired based on age',
+          error: 'Token has expired',
         });
         expect(global.fetch).not.toHaveBeenCalled();
       });
@@ -492,6 +501,17 @@ describe('tokenAuth utilities', () => {
 
         expect(mockLogout).toHaveBeenCalled();
       });
+
+      it('removes the saved token and queued uploads of the service worker', async () => {
+        mockUseAuthStore.getState.mockReturnValue({ logout: jest.fn() });
+        await saveUploadConfig({ token: 'ghp_secret', owner: 'user', repo: 'repo' });
+        await enqueueUploadJobs([{ fileId: 'file-1', fileName: 'a.mp3', file: new Blob(['a']) }], 'direct');
+
+        clearTokenData();
+
+        await expect(loadUploadConfig()).resolves.toBeNull();
+        await expect(listUploadJobs()).resolves.toEqual([]);
+      });
     });
 
     describe('error handling', () => {
@@ -634,6 +654,53 @@ describe('tokenAuth utilities', () => {
     });
   });
 
+  describe('passphrase mode', () => {
+    const encryptedToken = { ciphertext: 'c', iv: 'i', salt: 's', iterations: 1000 };
+
+    it('reports whether the token is encrypted', () => {
+      mockUseAuthStore.getState.mockReturnValue({ encryptedToken });
+      expect(isPassphraseEnabled()).toBe(true);
+
+      mockUseAuthStore.getState.mockReturnValue({ encryptedToken: null });
+      expect(isPassphraseEnabled()).toBe(false);
+    });
+
+    it('is locked until the encrypted token is decrypted', () => {
+      mockUseAuthStore.getState.mockReturnValue({
+        isAuthenticated: true,
+        githubConfig: { token: '', owner: 'user' },
+        encryptedToken,
+      });
+      expect(isTokenLocked()).toBe(true);
+
+      mockUseAuthStore.getState.mockReturnValue({
+        isAuthenticated: true,
+        githubConfig: { token: 'ghp_secret', owner: 'user' },
+        encryptedToken,
+      });
+      expect(isTokenLocked()).toBe(false);
+    });
+
+    it('removes the plain token from the service worker configuration', async () => {
+      const enablePassphrase = jest.fn().mockResolvedValue(undefined);
+      mockUseAuthStore.getState.mockReturnValue({ enablePassphrase });
+      await saveUploadConfig({ token: 'ghp_secret', owner: 'user', repo: 'repo' });
+
+      await enableTokenPassphrase('correct horse');
+
+      expect(enablePassphrase).toHaveBeenCalledWith('correct horse');
+      await expect(loadUploadConfig()).resolves.toBeNull();
+    });
+
+    it('unlocks the token through the store', async () => {
+      const unlock = jest.fn().mockResolvedValue(true);
+      mockUseAuthStore.getState.mockReturnValue({ unlock });
+
+      await expect(unlockToken('correct horse')).resolves.toBe(true);
+      expect(unlock).toHaveBeenCalledWith('correct horse');
+    });
+  });
+
   describe('integration tests', () => {
     it('handles complete authentication workflow', async () => {
       // Start unauthenticated
@@ -693,22 +760,22 @@ describe('tokenAuth utilities', () => {
     });
 
     it('handles token expiration workflow', async () => {
-      // Old token
-      const oldTimestamp = Date.now() - (100 * 24 * 60 * 60 * 1000);
+      // Token GitHub reported as expiring yesterday
       mockUseAuthStore.getState.mockReturnValue({
         isAuthenticated: true,
         githubConfig: {
           token: 'old-token',
           owner: 'user',
         },
-        tokenTimestamp: oldTimestamp,
+        tokenTimestamp: Date.now() - (8 * 24 * 60 * 60 * 1000),
+        tokenExpiresAt: Date.now() - (24 * 60 * 60 * 1000),
       });
 
-      expect(isTokenLikelyExpired()).toBe(true);
+      expect(getTokenExpiresAt()).toBeLessThan(Date.now());
       expect(await checkTokenValidity()).toEqual({
         isValid: false,
         isExpired: true,
-        error: 'Token is likely expired based on age',
+        error: 'Token has expired',
       });
     });
   });
@@ -0,0 +1,45 @@
+import { encryptToken, decryptToken, isTokenEncryptionSupported } from '../../src/utils/tokenCrypto';
+
+// Few iterations keep the tests fast; the format is the same
+const ITERATIONS = 1000;
+
+describe('tokenCrypto', () => {
+  it('decrypts a token with the passphrase it was encrypted with', async () => {
+    const encrypted = await encryptToken('ghp_secret', 'correct horse', ITERATIONS);
+
+    await expect(decryptToken(encrypted, 'correct horse')).resolves.toBe('ghp_secret');
+  });
+
+  it('never stores the token in the clear', async () => {
+    const encrypted = await encryptToken('ghp_secret', 'correct horse', ITERATIONS);
+
+    expect(JSON.stringify(encrypted)).not.toContain('ghp_secret');
+    expect(encrypted.iterations).toBe(ITERATIONS);
+  });
+
+  it('uses a fresh salt and IV every time', async () => {
+    const first = await encryptToken('ghp_secret', 'correct horse', ITERATIONS);
+    const second = await encryptToken('ghp_secret', 'correct horse', ITERATIONS);
+
+    expect(second.salt).not.toBe(first.salt);
+    expect(second.iv).not.toBe(first.iv);
+    expect(second.ciphertext).not.toBe(first.ciphertext);
+  });
+
+  it('rejects a wrong passphrase', async () => {
+    const encrypted = await encryptToken('ghp_secret', 'correct horse', ITERATIONS);
+
+    await expect(decryptToken(encrypted, 'battery staple')).rejects.toThrow('Wrong passphrase');
+  });
+
+  it('rejects altered ciphertext', async () => {
+    const encrypted = await encryptToken('ghp_secret', 'correct horse', ITERATIONS);
+    const altered = { ...encrypted, ciphertext: btoa('x'.repeat(26)) };
+
+    await expect(decryptToken(altered, 'correct horse')).rejects.toThrow('Wrong passphrase');
+  });
+
+  it('reports WebCrypto support', () => {
+    expect(isTokenEncryptionSupported()).toBe(true);
+  });
+});
@@ -0,0 +1,67 @@
+import {
+  parseTokenExpiration,
+  tokenExpirationOf,
+  recordTokenExpiration,
+  subscribeTokenExpiration,
+  tokenExpiryWarningDays,
+  TOKEN_EXPIRY_WARNING_DAYS,
+} from '../../src/utils/tokenExpiration';
+
+const DAY = 24 * 60 * 60 * 1000;
+const NOW = new Date('2025-10-06T12:00:00Z').getTime();
+
+const response = (headers: Record<string, string>) => new Response(null, { status: 200, headers });
+
+describe('tokenExpiration', () => {
+  describe('parseTokenExpiration', () => {
+    it.each([
+      ['2025-11-01 12:00:00 UTC', '2025-11-01T12:00:00Z'],
+      ['2025-11-01 12:00:00 -0700', '2025-11-01T12:00:00-07:00'],
+      ['2025-11-01 12:00:00 +05:30', '2025-11-01T12:00:00+05:30'],
+      ['2025-11-01T12:00:00Z', '2025-11-01T12:00:00Z'],
+    ])('reads %j', (value, iso) => {
+      expect(parseTokenExpiration(value)).toBe(Date.parse(iso));
+    });
+
+    it.each([null, undefined, '', 'never', '2025-13-45 99:00:00 UTC'])('ignores %j', (value) => {
+      expect(parseTokenExpiration(value)).toBeNull();
+    });
+  });
+
+  it('reads the expiry of a response', () => {
+    expect(tokenExpirationOf(response({ 'github-authentication-token-expiration': '2025-11-01 12:00:00 UTC' })))
+      .toBe(Date.parse('2025-11-01T12:00:00Z'));
+    expect(tokenExpirationOf(response({}))).toBeNull();
+  });
+
+  it('tells listeners about reported expiries only', () => {
+    const listener = jest.fn();
+    const unsubscribe = subscribeTokenExpiration(listener);
+
+    recordTokenExpiration(response({}));
+    recordTokenExpiration(response({ 'github-authentication-token-expiration': '2025-11-01 12:00:00 UTC' }));
+    unsubscribe();
+    recordTokenExpiration(response({ 'github-authentication-token-expiration': '2025-12-01 12:00:00 UTC' }));
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledWith(Date.parse('2025-11-01T12:00:00Z'));
+  });
+
+  describe('tokenExpiryWarningDays', () => {
+    it('stays quiet for tokens without an expiry or expiring later', () => {
+      expect(tokenExpiryWarningDays(null, NOW)).toBeNull();
+      expect(tokenExpiryWarningDays(NOW + (TOKEN_EXPIRY_WARNING_DAYS + 1) * DAY, NOW)).toBeNull();
+    });
+
+    it('counts the whole days left within the warning window', () => {
+      expect(tokenExpiryWarningDays(NOW + TOKEN_EXPIRY_WARNING_DAYS * DAY, NOW)).toBe(TOKEN_EXPIRY_WARNING_DAYS);
+      expect(tokenExpiryWarningDays(NOW + 2.5 * DAY, NOW)).toBe(2);
+      expect(tokenExpiryWarningDays(NOW + 60 * 1000, NOW)).toBe(0);
+    });
+
+    it('turns negative once the token has expired', () => {
+      expect(tokenExpiryWarningDays(NOW, NOW)).toBe(-1);
+      expect(tokenExpiryWarningDays(NOW - 3 * DAY, NOW)).toBe(-1);
+    });
+  });
+});
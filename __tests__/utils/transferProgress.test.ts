@@ -0,0 +1,69 @@
+import { createTransferTracker, formatTransfer, formatThroughput } from '../../src/utils/transferProgress';
+
+describe('transferProgress', () => {
+  describe('createTransferTracker', () => {
+    let now: number;
+
+    beforeEach(() => {
+      now = 1000000;
+      jest.spyOn(Date, 'now').mockImplementation(() => now);
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('has no estimate before any time has passed', () => {
+      const track = createTransferTracker(1000);
+
+      expect(track(0)).toEqual({ bytesSent: 0, totalBytes: 1000, bytesPerSecond: 0, secondsRemaining: null });
+    });
+
+    it('averages throughput since the start and estimates the remaining time', () => {
+      const track = createTransferTracker(10 * 1024 * 1024);
+
+      now += 2000;
+      const transfer = track(2 * 1024 * 1024);
+
+      expect(transfer.bytesPerSecond).toBe(1024 * 1024);
+      expect(transfer.secondsRemaining).toBe(8);
+    });
+
+    it('reaches zero remaining once everything is sent', () => {
+      const track = createTransferTracker(500);
+
+      now += 1000;
+      expect(track(500).secondsRemaining).toBe(0);
+    });
+  });
+
+  describe('formatTransfer', () => {
+    const transfer = (bytesSent: number, secondsRemaining: number | null) => ({
+      bytesSent,
+      totalBytes: 48 * 1024 * 1024,
+      bytesPerSecond: 1,
+      secondsRemaining,
+    });
+
+    it('shows bytes sent, total and seconds left', () => {
+      expect(formatTransfer(transfer(13002342, 40.4))).toBe('12.4 MB of 48 MB, ~40s left');
+    });
+
+    it('switches to minutes for long transfers', () => {
+      expect(formatTransfer(transfer(1024 * 1024, 150))).toBe('1 MB of 48 MB, ~3 min left');
+    });
+
+    it('never shows less than a second while bytes remain', () => {
+      expect(formatTransfer(transfer(1024 * 1024, 0.2))).toBe('1 MB of 48 MB, ~1s left');
+    });
+
+    it('leaves out the estimate when there is none or the transfer is done', () => {
+      expect(formatTransfer(transfer(0, null))).toBe('0 Bytes of 48 MB');
+      expect(formatTransfer(transfer(48 * 1024 * 1024, 0))).toBe('48 MB of 48 MB');
+    });
+  });
+
+  it('formats throughput per second', () => {
+    expect(formatThroughput(1.5 * 1024 * 1024)).toBe('1.5 MB/s');
+  });
+});
@@ -0,0 +1,200 @@
+import {
+  enqueueUploadJobs,
+  listUploadJobs,
+  updateUploadJobs,
+  removeUploadJobs,
+  clearUploadJobs,
+  completeUploadJobs,
+  takeCompletedUploads,
+  uploadRetryDelay,
+  recordUploadFailure,
+  uploadJobItems,
+  withUploadQueueLock,
+  saveUploadConfig,
+  loadUploadConfig,
+  clearUploadConfigs,
+  MAX_UPLOAD_ATTEMPTS,
+} from '../../src/utils/uploadQueue';
+import type { GitHubConfig, NewUploadJob } from '../../src/types';
+
+const newJob = (fileId: string, withThumbnail = false): NewUploadJob => ({
+  fileId,
+  fileName: `${fileId}.mp3`,
+  file: new Blob([fileId], { type: 'audio/mp3' }),
+  thumbnail: withThumbnail ? { fileName: `${fileId}.jpg`, file: new Blob(['thumb']) } : undefined,
+});
+
+describe('uploadQueue', () => {
+  beforeEach(async () => {
+    const jobs = await listUploadJobs();
+    await removeUploadJobs(jobs.map(job => job.id));
+    await takeCompletedUploads();
+  });
+
+  it('stores queued jobs with their thumbnail and publish mode', async () => {
+    const [job] = await enqueueUploadJobs([newJob('a', true)], 'pullRequest');
+
+    expect(job).toEqual(expect.objectContaining({
+      fileId: 'a',
+      fileName: 'a.mp3',
+      publishMode: 'pullRequest',
+      status: 'queued',
+      attempts: 0,
+    }));
+    expect(job.thumbnail?.fileName).toBe('a.jpg');
+
+    const [stored] = await listUploadJobs();
+    expect(stored.id).toBe(job.id);
+    expect(stored.thumbnail?.fileName).toBe('a.jpg');
+  });
+
+  it('keeps jobs in the order they were queued', async () => {
+    await enqueueUploadJobs([newJob('a'), newJob('b')], 'direct');
+    await enqueueUploadJobs([newJob('c')], 'direct');
+
+    const jobs = await listUploadJobs();
+    expect(jobs.map(job => job.fileId)).toEqual(['a', 'b', 'c']);
+  });
+
+  it('groups jobs queued together into one batch', async () => {
+    const first = await enqueueUploadJobs([newJob('a'), newJob('b')], 'direct');
+    const second = await enqueueUploadJobs([newJob('c')], 'direct');
+
+    expect(first[0].batchId).toBe(first[1].batchId);
+    expect(second[0].batchId).not.toBe(first[0].batchId);
+  });
+
+  it('replaces an earlier job for the same file', async () => {
+    const [old] = await enqueueUploadJobs([newJob('a'), newJob('b')], 'direct');
+    await enqueueUploadJobs([newJob('a')], 'direct');
+
+    const jobs = await listUploadJobs();
+    expect(jobs.map(job => job.fileId)).toEqual(['b', 'a']);
+    expect(jobs.some(job => job.id === old.id)).toBe(false);
+  });
+
+  it('updates and removes jobs', async () => {
+    const [a, b] = await enqueueUploadJobs([newJob('a'), newJob('b')], 'direct');
+
+    await updateUploadJobs([{ ...a, attempts: 2, lastError: 'Failed to create blob: 502' }]);
+    await removeUploadJobs([b.id]);
+
+    const jobs = await listUploadJobs();
+    expect(jobs).toHaveLength(1);
+    expect(jobs[0]).toEqual(expect.objectContaining({ id: a.id, attempts: 2, lastError: 'Failed to create blob: 502' }));
+  });
+
+  it('removes every job', async () => {
+    await enqueueUploadJobs([newJob('a'), newJob('b')], 'direct');
+
+    await clearUploadJobs();
+
+    await expect(listUploadJobs()).resolves.toEqual([]);
+  });
+
+  it('records completed jobs until they are taken', async () => {
+    const [a, b] = await enqueueUploadJobs([newJob('a'), { ...newJob('b'), profileId: 'lectures' }], 'direct');
+
+    await completeUploadJobs([a, b]);
+
+    await expect(listUploadJobs()).resolves.toEqual([]);
+    await expect(takeCompletedUploads(['b'])).resolves.toEqual([{ fileId: 'b', fileName: 'b.mp3', profileId: 'lectures' }]);
+    await expect(takeCompletedUploads()).resolves.toEqual([expect.objectContaining({ fileId: 'a', fileName: 'a.mp3' })]);
+    await expect(takeCompletedUploads()).resolves.toEqual([]);
+  });
+
+  it('backs off exponentially up to ten minutes', () => {
+    expect(uploadRetryDelay(1)).toBe(5000);
+    expect(uploadRetryDelay(2)).toBe(10000);
+    expect(uploadRetryDelay(3)).toBe(20000);
+    expect(uploadRetryDelay(20)).toBe(10 * 60 * 1000);
+    expect(MAX_UPLOAD_ATTEMPTS).toBeGreaterThan(1);
+  });
+
+  describe('recordUploadFailure', () => {
+    let onLineSpy: jest.SpyInstance;
+
+    beforeEach(() => {
+      onLineSpy = jest.spyOn(navigator, 'onLine', 'get').mockReturnValue(true);
+    });
+
+    afterEach(() => {
+      onLineSpy.mockRestore();
+    });
+
+    it('counts an attempt and schedules the next one', async () => {
+      const [job] = await enqueueUploadJobs([newJob('a')], 'direct');
+      const before = Date.now();
+
+      const [updated] = await recordUploadFailure([job], new Error('Failed to create tree'));
+
+      expect(updated).toEqual(expect.objectContaining({ status: 'queued', attempts: 1, lastError: 'Failed to create tree' }));
+      expect(updated.nextAttemptAt).toBeGreaterThanOrEqual(before + uploadRetryDelay(1));
+      expect((await listUploadJobs())[0]).toEqual(updated);
+    });
+
+    it('marks jobs failed once they run out of attempts', async () => {
+      const [job] = await enqueueUploadJobs([newJob('a')], 'direct');
+
+      const [updated] = await recordUploadFailure([{ ...job, attempts: MAX_UPLOAD_ATTEMPTS - 1 }], 'boom');
+
+      expect(updated).toEqual(expect.objectContaining({ status: 'failed', attempts: MAX_UPLOAD_ATTEMPTS, lastError: 'Upload failed' }));
+    });
+
+    it('does not count failures while offline', async () => {
+      onLineSpy.mockReturnValue(false);
+      const [job] = await enqueueUploadJobs([newJob('a')], 'direct');
+
+      const [updated] = await recordUploadFailure([job], new TypeError('Failed to fetch'));
+
+      expect(updated.attempts).toBe(0);
+      expect(updated.nextAttemptAt).toBeLessThanOrEqual(Date.now());
+    });
+  });
+
+  it('turns a job into media and thumbnail upload items', async () => {
+    const [job] = await enqueueUploadJobs([newJob('a', true)], 'direct');
+
+    expect(uploadJobItems(job).map(item => `${item.pathType}:${item.fileName}`)).toEqual(['media:a.mp3', 'thumbnail:a.jpg']);
+  });
+
+  it('keeps the upload configuration for the service worker', async () => {
+    const config: GitHubConfig = {
+      token: 'test-token',
+      owner: 'test-owner',
+      repo: 'test-repo',
+      branch: 'main',
+      path: 'media/',
+      thumbnailPath: 'thumbnails/',
+      thumbnailWidth: 320,
+      thumbnailHeight: 240,
+    };
+
+    await saveUploadConfig(config);
+
+    await expect(loadUploadConfig()).resolves.toEqual(config);
+  });
+
+  it('removes every saved upload configuration', async () => {
+    await saveUploadConfig({ token: 't', owner: 'o', repo: 'a', profileId: 'podcast' });
+    await saveUploadConfig({ token: 't', owner: 'o', repo: 'b' });
+
+    await clearUploadConfigs();
+
+    await expect(loadUploadConfig('podcast')).resolves.toBeNull();
+    await expect(loadUploadConfig()).resolves.toBeNull();
+  });
+
+  it('runs queue steps under a Web Lock when available', async () => {
+    await expect(withUploadQueueLock(async () => 'no locks')).resolves.toBe('no locks');
+
+    const request = jest.fn((_name: string, step: () => Promise<unknown>) => step());
+    Object.defineProperty(navigator, 'locks', { value: { request }, configurable: true });
+    try {
+      await expect(withUploadQueueLock(async () => 'locked')).resolves.toBe('locked');
+      expect(request).toHaveBeenCalledWith('media-recorder-upload-queue', expect.any(Function));
+    } finally {
+      delete (navigator as { locks?: unknown }).locks;
+    }
+  });
+});
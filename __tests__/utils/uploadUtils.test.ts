@@ -1,7 +1,32 @@
 import {
-  uploadFile,
-  uploadThumbnail,
+  uploadFilesBatch,
+  uploadFilesAsPullRequest,
+  deleteFilesFromRepository,
+  renameFilesInRepository,
+  restoreFileVersion,
+  createRepositoryBranch,
+  createRepositoryFolder,
+  getUploadConfig,
 } from '../../src/utils/uploadUtils';
+import { clearRateLimitStatus, rateLimitWait } from '../../src/utils/rateLimit';
+import { subscribeTokenExpiration } from '../../src/utils/tokenExpiration';
+
+jest.mock('../../src/utils/lfsUtils', () => ({
+  ...jest.requireActual('../../src/utils/lfsUtils'),
+  uploadLfsObject: jest.fn(),
+  isLfsAvailable: jest.fn(() => true),
+}));
+
+jest.mock('../../src/utils/base64Stream', () => ({
+  ...jest.requireActual('../../src/utils/base64Stream'),
+  supportsRequestStreams: jest.fn(() => false),
+}));
+
+jest.mock('../../src/services/base64WorkerService', () => ({
+  base64WorkerService: {
+    encodeJsonBody: jest.fn(),
+  },
+}));
 
 // Mock the stores
 jest.mock('../../src/stores/authStore', () => ({
@@ -16,6 +41,16 @@ jest.mock('../../src/stores/settingsStore', () => ({
   },
 }));
 
+import { uploadLfsObject, lfsAttributesLines, isLfsAvailable } from '../../src/utils/lfsUtils';
+import { supportsRequestStreams, BASE64_CHUNK_SIZE } from '../../src/utils/base64Stream';
+import { base64WorkerService } from '../../src/services/base64WorkerService';
+import { buildPodcastFeed } from '../../src/utils/podcastFeed';
+
+const mockUploadLfsObject = uploadLfsObject as jest.MockedFunction<typeof uploadLfsObject>;
+const mockIsLfsAvailable = isLfsAvailable as jest.MockedFunction<typeof isLfsAvailable>;
+const mockSupportsRequestStreams = supportsRequestStreams as jest.MockedFunction<typeof supportsRequestStreams>;
+const mockEncodeJsonBody = base64WorkerService.encodeJsonBody as jest.MockedFunction<typeof base64WorkerService.encodeJsonBody>;
+
 // Mock fetch
 global.fetch = jest.fn();
 
@@ -38,6 +73,16 @@ if (!global.testUtils) {
 // Mock btoa for base64 encoding
 global.btoa = jest.fn((str: string) => Buffer.from(str, 'binary').toString('base64'));
 
+// Recursive listing of the base tree, which the media manifest is checked against and seeded from
+const treeListing = (entries: unknown[] = []) => ({
+  ok: true,
+  json: () => Promise.resolve({ sha: 'tree-sha', tree: entries, truncated: false }),
+});
+
+// Tree listing holding the media a manifest lists, so the manifest is up to date
+const manifestTreeListing = (manifest: { files: Array<{ path: string; sha: string; size: number }> }) =>
+  treeListing(manifest.files.map(file => ({ path: file.path, mode: '100644', type: 'blob', sha: file.sha, size: file.size })));
+
 describe('uploadUtils', () => {
   let mockUseAuthStore: jest.MockedFunction<() => unknown>;
   let mockUseSettingsStore: jest.MockedFunction<() => unknown>;
@@ -47,6 +92,7 @@ describe('uploadUtils', () => {
     
     // Reset the fetch mock completely and set up a fresh mock
     global.fetch = jest.fn();
+    mockEncodeJsonBody.mockResolvedValue(new Blob(['encoded-body']));
     
     // Get the mocked stores
     mockUseAuthStore = require('../../src/stores/authStore').useAuthStore;
@@ -72,599 +118,1281 @@ describe('uploadUtils', () => {
     });
   });
 
-  describe('uploadFile', () => {
-    describe('successful uploads', () => {
-      it('uploads file to media path', async () => {
-        const mockFile = new Blob(['test-content'], { type: 'audio/mp3' });
-        const progressCallback = jest.fn();
-
-        // Mock empty repository (first upload)
-        (global.fetch as jest.Mock)
-          .mockResolvedValueOnce({
-            ok: false,
-            status: 404,
-          }) // getLatestCommitSha - empty repo
-          .mockResolvedValueOnce({
-            ok: true,
-            json: () => Promise.resolve({ sha: 'blob-sha' }),
-          }); // uploadFileContentsAPI
-
-        await uploadFile(mockFile, progressCallback, 'test-audio.mp3');
-
-        expect(progressCallback).toHaveBeenCalledWith(0.1);
-        expect(progressCallback).toHaveBeenCalledWith(0.5);
-        expect(progressCallback).toHaveBeenCalledWith(1);
-        
-        expect(global.fetch).toHaveBeenCalledWith(
-          'https://api.github.com/repos/test-owner/test-repo/git/refs/heads/main',
-          expect.objectContaining({
-            headers: { Authorization: 'Bearer test-token' },
-          })
-        );
+  describe('configured branch', () => {
+    beforeEach(() => {
+      mockUseSettingsStore.getState.mockReturnValue({
+        appSettings: {
+          repo: 'test-repo',
+          branch: 'media',
+          path: 'recordings/',
+          thumbnailPath: 'thumbnails/',
+          thumbnailWidth: 320,
+          thumbnailHeight: 240,
+        },
       });
+    });
 
-      it('uploads file without progress callback', async () => {
-        const mockFile = new Blob(['test-content'], { type: 'audio/mp3' });
+    it('reads and updates the configured branch ref', async () => {
+      (global.fetch as jest.Mock).mockImplementation((url: string) => {
+        if (url.includes('/heads/')) {
+          return Promise.resolve({ ok: true, json: () => Promise.resolve({ object: { sha: 'commit-sha' } }) });
+        }
+        if (url.includes('/git/trees/')) {
+          return Promise.resolve(treeListing());
+        }
+        if (url.includes('/git/commits/')) {
+          return Promise.resolve({ ok: true, json: () => Promise.resolve({ tree: { sha: 'tree-sha' } }) });
+        }
+        return Promise.resolve({ ok: true, json: () => Promise.resolve({ sha: 'sha' }) });
+      });
 
-        // Mock empty repository
-        (global.fetch as jest.Mock)
-          .mockResolvedValueOnce({
-            ok: false,
-            status: 404,
-          })
-          .mockResolvedValueOnce({
-            ok: true,
-            json: () => Promise.resolve({ sha: 'blob-sha' }),
-          });
+      await uploadFilesBatch([{ file: new Blob(['a']), fileName: 'branch.mp3', pathType: 'media' }]);
 
-        await expect(uploadFile(mockFile, undefined, 'test.mp3')).resolves.toBeUndefined();
+      const refCalls = (global.fetch as jest.Mock).mock.calls.filter(([url]) => url.includes('/heads/'));
+      expect(refCalls.length).toBeGreaterThan(0);
+      refCalls.forEach(([url]) => {
+        expect(url).toMatch(/^https:\/\/api\.github\.com\/repos\/test-owner\/test-repo\/git\/refs?\/heads\/media$/);
       });
+    });
 
-      it('generates filename when not provided', async () => {
-        const mockFile = new Blob(['test-content'], { type: 'audio/mp3' });
+    it('commits to the configured branch through the Contents API', async () => {
+      (global.fetch as jest.Mock)
+        .mockResolvedValueOnce({ ok: false, status: 404 })
+        .mockResolvedValueOnce({ ok: true, json: () => Promise.resolve({}) });
 
-        // Mock empty repository
-        (global.fetch as jest.Mock)
-          .mockResolvedValueOnce({
-            ok: false,
-            status: 404,
-          })
-          .mockResolvedValueOnce({
-            ok: true,
-            json: () => Promise.resolve({ sha: 'blob-sha' }),
-          });
+      await uploadFilesBatch([{ file: new Blob(['a']), fileName: 'branch.mp3', pathType: 'media' }]);
 
-        await expect(uploadFile(mockFile)).resolves.toBeUndefined();
+      const [, putOptions] = (global.fetch as jest.Mock).mock.calls[1];
+      expect(JSON.parse(putOptions.body).branch).toBe('media');
+    });
+  });
 
-        // Should upload with generated filename
-        expect(global.fetch).toHaveBeenCalledWith(
-          expect.stringContaining('contents/recordings/media-'),
-          expect.any(Object)
-        );
+  describe('GitHub Enterprise Server', () => {
+    it('commits through the configured API base URL', async () => {
+      mockUseAuthStore.getState.mockReturnValue({
+        isAuthenticated: true,
+        githubConfig: {
+          token: 'test-token',
+          owner: 'test-owner',
+          apiBaseUrl: 'https://github.example.com/api/v3',
+        },
+      });
+      (global.fetch as jest.Mock).mockImplementation((url: string) => {
+        if (url.includes('/heads/')) {
+          return Promise.resolve({ ok: true, json: () => Promise.resolve({ object: { sha: 'commit-sha' } }) });
+        }
+        if (url.includes('/git/trees/')) {
+          return Promise.resolve(treeListing());
+        }
+        if (url.includes('/git/commits/')) {
+          return Promise.resolve({ ok: true, json: () => Promise.resolve({ tree: { sha: 'tree-sha' } }) });
+        }
+        return Promise.resolve({ ok: true, json: () => Promise.resolve({ sha: 'sha' }) });
       });
-    });
 
-    describe('existing repository uploads', () => {
-      it('uploads to existing repository using Git Data API', async () => {
-        const mockFile = new Blob(['test-content'], { type: 'audio/mp3' });
-        const progressCallback = jest.fn();
-
-        // Mock existing repository flow - ensure proper response structure
-        (global.fetch as jest.Mock)
-          .mockImplementation((url: string) => {
-            if (url.includes('/git/refs/heads/')) {
-              return Promise.resolve({
-                ok: true,
-                json: () => Promise.resolve({ object: { sha: 'commit-sha' } }),
-              });
-            }
-            if (url.includes('/git/commits/')) {
-              return Promise.resolve({
-                ok: true,
-                json: () => Promise.resolve({ tree: { sha: 'tree-sha' } }),
-              });
-            }
-            if (url.includes('/git/blobs')) {
-              return Promise.resolve({
-                ok: true,
-                json: () => Promise.resolve({ sha: 'blob-sha' }),
-              });
-            }
-            if (url.includes('/git/trees')) {
-              return Promise.resolve({
-                ok: true,
-                json: () => Promise.resolve({ sha: 'new-tree-sha' }),
-              });
-            }
-            if (url.includes('/git/commits') && !url.includes('/git/commits/')) {
-              return Promise.resolve({
-                ok: true,
-                json: () => Promise.resolve({ sha: 'new-commit-sha' }),
-              });
-            }
-            if (url.includes('/git/refs/heads/') && url.includes('PATCH')) {
-              return Promise.resolve({
-                ok: true,
-                json: () => Promise.resolve({}),
-              });
-            }
-            return Promise.resolve({
-              ok: true,
-              json: () => Promise.resolve({}),
-            });
-          });
+      await uploadFilesBatch([{ file: new Blob(['a']), fileName: 'a.mp3', pathType: 'media' }]);
 
-        await uploadFile(mockFile, progressCallback, 'existing-repo.mp3');
+      const urls = (global.fetch as jest.Mock).mock.calls.map(([url]) => url);
+      expect(urls.length).toBeGreaterThan(0);
+      urls.forEach(url => expect(url).toMatch(/^https:\/\/github\.example\.com\/api\/v3\/repos\/test-owner\/test-repo\//));
+    });
+  });
 
-        expect(progressCallback).toHaveBeenCalledWith(0.1);
-        expect(progressCallback).toHaveBeenCalledWith(0.2);
-        expect(progressCallback).toHaveBeenCalledWith(0.3);
-        expect(progressCallback).toHaveBeenCalledWith(0.6);
-        expect(progressCallback).toHaveBeenCalledWith(0.8);
-        expect(progressCallback).toHaveBeenCalledWith(0.9);
-        expect(progressCallback).toHaveBeenCalledWith(1);
+  describe('uploadFilesBatch', () => {
+    const mockExistingRepository = (
+      onPatch?: () => { ok: boolean; status?: number; text?: () => Promise<string> },
+      manifest?: unknown,
+      feed?: string
+    ) => {
+      (global.fetch as jest.Mock).mockImplementation((url: string, options: RequestInit) => {
+        if (url.includes('/contents/recordings/index.json')) {
+          return Promise.resolve(manifest ? { ok: true, json: () => Promise.resolve(manifest) } : { ok: false, status: 404 });
+        }
+        if (url.includes('/contents/feed.xml')) {
+          return Promise.resolve(feed === undefined ? { ok: false, status: 404 } : { ok: true, text: () => Promise.resolve(feed) });
+        }
+        if (url.includes('/heads/')) {
+          if (options?.method === 'PATCH') {
+            return Promise.resolve(onPatch ? onPatch() : { ok: true, json: () => Promise.resolve({}) });
+          }
+          return Promise.resolve({ ok: true, json: () => Promise.resolve({ object: { sha: 'commit-sha' } }) });
+        }
+        if (url.includes('/git/trees/')) {
+          return Promise.resolve(manifest ? manifestTreeListing(manifest as { files: [] }) : treeListing());
+        }
+        if (url.includes('/git/commits/')) {
+          return Promise.resolve({ ok: true, json: () => Promise.resolve({ tree: { sha: 'tree-sha' } }) });
+        }
+        if (url.includes('/git/blobs')) {
+          const content = JSON.parse(options.body as string).content;
+          return Promise.resolve({ ok: true, json: () => Promise.resolve({ sha: `blob-${content}` }) });
+        }
+        if (url.includes('/git/trees')) {
+          return Promise.resolve({ ok: true, json: () => Promise.resolve({ sha: 'new-tree-sha' }) });
+        }
+        if (url.includes('/git/commits')) {
+          return Promise.resolve({ ok: true, json: () => Promise.resolve({ sha: 'new-commit-sha' }) });
+        }
+        return Promise.resolve({ ok: true, json: () => Promise.resolve({}) });
       });
+    };
 
-      it('retries on conflict errors', async () => {
-        const mockFile = new Blob(['test-content'], { type: 'audio/mp3' });
-
-        // Track number of calls to updateRef endpoint to simulate conflict then success
-        let updateRefCalls = 0;
-
-        (global.fetch as jest.Mock)
-          .mockImplementation((url: string, options: RequestInit) => {
-            if (url.includes('/git/refs/heads/')) {
-              if (options?.method === 'PATCH') {
-                // updateRef - first call fails with 409, second succeeds
-                updateRefCalls++;
-                if (updateRefCalls === 1) {
-                  return Promise.resolve({
-                    ok: false,
-                    status: 409,
-                    text: () => Promise.resolve('Conflict error'),
-                  });
-                } else {
-                  return Promise.resolve({
-                    ok: true,
-                    json: () => Promise.resolve({}),
-                  });
-                }
-              } else {
-                // getLatestCommitSha - always succeeds
-                return Promise.resolve({
-                  ok: true,
-                  json: () => Promise.resolve({ object: { sha: 'commit-sha' } }),
-                });
-              }
-            }
-            if (url.includes('/git/commits/')) {
-              return Promise.resolve({
-                ok: true,
-                json: () => Promise.resolve({ tree: { sha: 'tree-sha' } }),
-              });
-            }
-            if (url.includes('/git/blobs')) {
-              return Promise.resolve({
-                ok: true,
-                json: () => Promise.resolve({ sha: 'blob-sha' }),
-              });
-            }
-            if (url.includes('/git/trees')) {
-              return Promise.resolve({
-                ok: true,
-                json: () => Promise.resolve({ sha: 'new-tree-sha' }),
-              });
-            }
-            if (url.includes('/git/commits') && !url.includes('/git/commits/')) {
-              return Promise.resolve({
-                ok: true,
-                json: () => Promise.resolve({ sha: 'new-commit-sha' }),
-              });
-            }
-            return Promise.resolve({
-              ok: true,
-              json: () => Promise.resolve({}),
-            });
-          });
+    const callsTo = (fragment: string, method?: string) =>
+      (global.fetch as jest.Mock).mock.calls.filter(([url, options]) =>
+        url.includes(fragment) && (!method || options?.method === method)
+      );
+
+    it('commits every media file and thumbnail in a single tree, commit and ref update', async () => {
+      mockExistingRepository();
+      const progressCallback = jest.fn();
+
+      await uploadFilesBatch([
+        { file: new Blob(['a'], { type: 'audio/mp3' }), fileName: 'a.mp3', pathType: 'media' },
+        { file: new Blob(['b'], { type: 'image/jpeg' }), fileName: 'a.jpg', pathType: 'thumbnail' },
+        { file: new Blob(['c'], { type: 'audio/mp3' }), fileName: 'c.mp3', pathType: 'media' },
+      ], progressCallback);
+
+      // Three files plus the media manifest
+      expect(callsTo('/git/blobs')).toHaveLength(4);
+      expect(callsTo('/git/trees', 'POST')).toHaveLength(1);
+      expect(callsTo('/git/refs/heads/main', 'PATCH')).toHaveLength(1);
+
+      const treeBody = JSON.parse(callsTo('/git/trees', 'POST')[0][1].body);
+      expect(treeBody.base_tree).toBe('tree-sha');
+      expect(treeBody.tree.map((item: { path: string }) => item.path)).toEqual([
+        'recordings/a.mp3',
+        'thumbnails/a.jpg',
+        'recordings/c.mp3',
+        'recordings/index.json',
+      ]);
+
+      const commitCalls = callsTo('/git/commits', 'POST');
+      expect(commitCalls).toHaveLength(1);
+      const commitBody = JSON.parse(commitCalls[0][1].body);
+      expect(commitBody.message).toBe('Upload 3 files\n\n- a.mp3\n- a.jpg\n- c.mp3');
+      expect(commitBody.parents).toEqual(['commit-sha']);
 
-        await expect(uploadFile(mockFile, undefined, 'retry-test.mp3')).resolves.toBeUndefined();
+      // Bytes are counted across the whole batch
+      expect(progressCallback).toHaveBeenCalledWith(
+        expect.closeTo(0.1 + 0.7 / 3),
+        expect.objectContaining({ bytesSent: 1, totalBytes: 3 })
+      );
+      expect(progressCallback).toHaveBeenCalledWith(expect.closeTo(0.8), expect.objectContaining({ bytesSent: 3, totalBytes: 3 }));
+      expect(progressCallback).toHaveBeenLastCalledWith(1);
+    });
+
+    it('retries only the commit steps on ref conflicts', async () => {
+      let patchCalls = 0;
+      mockExistingRepository(() => {
+        patchCalls++;
+        return patchCalls === 1
+          ? { ok: false, status: 409, text: () => Promise.resolve('Conflict') }
+          : { ok: true };
       });
+
+      await uploadFilesBatch([
+        { file: new Blob(['a']), fileName: 'a.mp3', pathType: 'media' },
+        { file: new Blob(['b']), fileName: 'b.mp3', pathType: 'media' },
+      ]);
+
+      // The files are uploaded once; the manifest is rebuilt on the new head
+      expect(callsTo('/git/blobs')).toHaveLength(4);
+      expect(callsTo('/contents/recordings/index.json')).toHaveLength(2);
+      expect(callsTo('/git/trees', 'POST')).toHaveLength(2);
+      expect(callsTo('/git/refs/heads/main', 'PATCH')).toHaveLength(2);
     });
 
-    describe('error handling', () => {
-      it('throws error when configuration is missing', async () => {
-        mockUseAuthStore.getState.mockReturnValue({
-          isAuthenticated: false,
-        });
+    it('lists the media files with their thumbnails in the media manifest', async () => {
+      mockExistingRepository(undefined, {
+        version: 1,
+        updated: '2025-01-01T00:00:00.000Z',
+        files: [{ path: 'recordings/old.mp3', title: 'old', author: '', category: '', date: '', size: 9, mimeType: 'audio/mpeg', sha: 'old-sha' }],
+      });
+
+      await uploadFilesBatch([
+        { file: new Blob(['a'], { type: 'audio/mpeg' }), fileName: 'News_Update_Ann_2025-03-01.mp3', pathType: 'media', duration: 42 },
+        { file: new Blob(['b'], { type: 'image/jpeg' }), fileName: 'News_Update_Ann_2025-03-01.jpg', pathType: 'thumbnail' },
+      ]);
 
-        const mockFile = new Blob(['test-content']);
+      const manifestBlob = callsTo('/git/blobs')[2];
+      const manifest = JSON.parse(Buffer.from(JSON.parse(manifestBlob[1].body).content, 'base64').toString());
+      expect(manifest.files).toEqual([
+        {
+          path: 'recordings/News_Update_Ann_2025-03-01.mp3',
+          thumbnailPath: 'thumbnails/News_Update_Ann_2025-03-01.jpg',
+          title: 'Update',
+          author: 'Ann',
+          category: 'News',
+          date: '2025-03-01',
+          duration: 42,
+          size: 1,
+          mimeType: 'audio/mpeg',
+          sha: `blob-${Buffer.from('a').toString('base64')}`,
+        },
+        expect.objectContaining({ path: 'recordings/old.mp3', sha: 'old-sha' }),
+      ]);
+      expect(callsTo('/contents/recordings/index.json')[0][0]).toContain('?ref=commit-sha');
+    });
 
-        await expect(uploadFile(mockFile)).rejects.toThrow('Upload configuration is missing. Please configure your GitHub token and repository in Settings.');
+    it('seeds the first media manifest with the recordings already in the repository', async () => {
+      const pointer = `version https://git-lfs.github.com/spec/v1\noid sha256:${'c'.repeat(64)}\nsize 8192\n`;
+      mockExistingRepository();
+      const baseImplementation = (global.fetch as jest.Mock).getMockImplementation()!;
+      (global.fetch as jest.Mock).mockImplementation((url: string, options: RequestInit) => {
+        if (url.includes('/git/trees/tree-sha?recursive=1')) {
+          return Promise.resolve(treeListing([
+            { path: 'README.md', mode: '100644', type: 'blob', sha: 'readme-sha', size: 40 },
+            { path: 'recordings', mode: '040000', type: 'tree', sha: 'recordings-sha' },
+            { path: 'recordings/old.mp3', mode: '100644', type: 'blob', sha: 'old-sha', size: 4096 },
+            { path: 'recordings/stored.m4a', mode: '100644', type: 'blob', sha: 'pointer-sha', size: pointer.length },
+            { path: 'thumbnails/old.jpg', mode: '100644', type: 'blob', sha: 'old-jpg-sha', size: 900 },
+          ]));
+        }
+        if (url.endsWith('/git/blobs/pointer-sha')) {
+          return Promise.resolve({ ok: true, json: () => Promise.resolve({ content: Buffer.from(pointer).toString('base64'), encoding: 'base64' }) });
+        }
+        return baseImplementation(url, options);
       });
 
-      it('throws error when token is missing', async () => {
-        mockUseAuthStore.getState.mockReturnValue({
-          isAuthenticated: true,
-          githubConfig: {
-            token: '',
-            owner: 'test-owner',
-          },
-        });
+      await uploadFilesBatch([
+        { file: new Blob(['a'], { type: 'audio/mpeg' }), fileName: 'new.mp3', pathType: 'media' },
+      ]);
 
-        const mockFile = new Blob(['test-content']);
+      const manifestBlob = callsTo('/git/blobs', 'POST')[1];
+      const manifest = JSON.parse(Buffer.from(JSON.parse(manifestBlob[1].body).content, 'base64').toString());
+      expect(manifest.files).toEqual([
+        expect.objectContaining({ path: 'recordings/new.mp3', size: 1 }),
+        { path: 'recordings/old.mp3', thumbnailPath: 'thumbnails/old.jpg', title: 'old', author: '', category: '', date: '', size: 4096, mimeType: 'audio/mpeg', sha: 'old-sha' },
+        // Small media files are read, as they may be LFS pointers
+        expect.objectContaining({ path: 'recordings/stored.m4a', size: 8192, mimeType: 'audio/mp4', sha: 'pointer-sha' }),
+      ]);
+    });
 
-        await expect(uploadFile(mockFile)).rejects.toThrow('Upload configuration is missing');
+    it('adds media merged from a pull request to the manifest', async () => {
+      const manifest = {
+        version: 1,
+        updated: '2025-01-01T00:00:00.000Z',
+        files: [{ path: 'recordings/old.mp3', title: 'old', author: '', category: '', date: '', size: 4096, mimeType: 'audio/mpeg', sha: 'old-sha' }],
+      };
+      mockExistingRepository(undefined, manifest);
+      const baseImplementation = (global.fetch as jest.Mock).getMockImplementation()!;
+      (global.fetch as jest.Mock).mockImplementation((url: string, options: RequestInit) => {
+        if (url.includes('/git/trees/tree-sha?recursive=1')) {
+          return Promise.resolve(treeListing([
+            { path: 'recordings/old.mp3', mode: '100644', type: 'blob', sha: 'old-sha', size: 4096 },
+            { path: 'recordings/merged.mp3', mode: '100644', type: 'blob', sha: 'merged-sha', size: 2048 },
+          ]));
+        }
+        return baseImplementation(url, options);
       });
 
-      it('throws error when owner is missing', async () => {
-        mockUseAuthStore.getState.mockReturnValue({
-          isAuthenticated: true,
-          githubConfig: {
-            token: 'test-token',
-            owner: '',
-          },
-        });
+      await uploadFilesBatch([
+        { file: new Blob(['a'], { type: 'audio/mpeg' }), fileName: 'new.mp3', pathType: 'media' },
+      ]);
 
-        const mockFile = new Blob(['test-content']);
+      const manifestBlob = callsTo('/git/blobs', 'POST')[1];
+      const written = JSON.parse(Buffer.from(JSON.parse(manifestBlob[1].body).content, 'base64').toString());
+      expect(written.files.map((file: { path: string }) => file.path)).toEqual([
+        'recordings/merged.mp3',
+        'recordings/new.mp3',
+        'recordings/old.mp3',
+      ]);
+    });
 
-        await expect(uploadFile(mockFile)).rejects.toThrow('Upload configuration is missing');
+    it('rewrites the podcast feed in the same tree when an episode is added', async () => {
+      mockUseSettingsStore.getState.mockReturnValue({
+        appSettings: {
+          repo: 'test-repo',
+          path: 'recordings/',
+          thumbnailPath: 'thumbnails/',
+          podcastFeed: {
+            enabled: true,
+            path: 'feed.xml',
+            categories: ['Podcast'],
+            title: 'Team Podcast',
+            description: 'Weekly news',
+            ownerName: 'Team',
+            ownerEmail: 'team@example.com',
+            baseUrl: 'https://team.github.io/media',
+          },
+        },
       });
+      mockExistingRepository();
+
+      await uploadFilesBatch([
+        { file: new Blob(['a'], { type: 'audio/mpeg' }), fileName: 'Podcast_Weekly_Team_2025-03-01.mp3', pathType: 'media', duration: 42 },
+      ]);
+
+      const treeBody = JSON.parse(callsTo('/git/trees', 'POST')[0][1].body);
+      expect(treeBody.tree.map((item: { path: string }) => item.path)).toEqual([
+        'recordings/Podcast_Weekly_Team_2025-03-01.mp3',
+        'recordings/index.json',
+        'feed.xml',
+      ]);
+      const feedBlob = JSON.parse(callsTo('/git/blobs')[2][1].body).content;
+      const feed = Buffer.from(feedBlob, 'base64').toString();
+      expect(feed).toContain('<title>Team Podcast</title>');
+      expect(feed).toContain('<enclosure url="https://team.github.io/media/recordings/Podcast_Weekly_Team_2025-03-01.mp3" length="1" type="audio/mpeg"/>');
+      expect(feed).toContain('<itunes:duration>0:42</itunes:duration>');
+    });
 
-      it('throws error when repo is missing', async () => {
+    describe('existing podcast feed', () => {
+      beforeEach(() => {
         mockUseSettingsStore.getState.mockReturnValue({
           appSettings: {
-            repo: '',
+            repo: 'test-repo',
             path: 'recordings/',
             thumbnailPath: 'thumbnails/',
+            podcastFeed: {
+              enabled: true,
+              path: 'feed.xml',
+              categories: ['Podcast'],
+              title: 'Team Podcast',
+              description: '',
+              ownerName: '',
+              ownerEmail: '',
+              baseUrl: 'https://team.github.io/media',
+            },
           },
         });
+      });
 
-        const mockFile = new Blob(['test-content']);
+      const upload = () => uploadFilesBatch([
+        { file: new Blob(['a'], { type: 'audio/mpeg' }), fileName: 'Podcast_Weekly_Team_2025-03-01.mp3', pathType: 'media' },
+      ]);
 
-        await expect(uploadFile(mockFile)).rejects.toThrow('Upload configuration is missing');
+      it('replaces a feed it generated, keeping the episodes already in the repository', async () => {
+        mockExistingRepository(undefined, undefined, buildPodcastFeed(null, mockUseSettingsStore.getState().appSettings.podcastFeed));
+        const baseImplementation = (global.fetch as jest.Mock).getMockImplementation()!;
+        (global.fetch as jest.Mock).mockImplementation((url: string, options: RequestInit) => (
+          url.includes('/git/trees/tree-sha?recursive=1')
+            ? Promise.resolve(treeListing([
+              { path: 'recordings/Podcast_Earlier_Team_2025-02-01.mp3', mode: '100644', type: 'blob', sha: 'earlier-sha', size: 4096 },
+            ]))
+            : baseImplementation(url, options)
+        ));
+
+        await upload();
+
+        const feedBlob = JSON.parse(callsTo('/git/blobs', 'POST')[2][1].body).content;
+        const feed = Buffer.from(feedBlob, 'base64').toString();
+        expect(feed).toContain('https://team.github.io/media/recordings/Podcast_Weekly_Team_2025-03-01.mp3');
+        expect(feed).toContain('<enclosure url="https://team.github.io/media/recordings/Podcast_Earlier_Team_2025-02-01.mp3" length="4096" type="audio/mpeg"/>');
+        expect(callsTo('/contents/feed.xml')[0][0]).toContain('?ref=commit-sha');
       });
 
-      it('handles API errors in Contents API upload', async () => {
-        const mockFile = new Blob(['test-content'], { type: 'audio/mp3' });
-
-        (global.fetch as jest.Mock)
-          .mockResolvedValueOnce({
-            ok: false,
-            status: 404,
-          }) // getLatestCommitSha - empty repo
-          .mockResolvedValueOnce({
-            ok: false,
-            status: 422,
-            text: () => Promise.resolve('Validation failed'),
-          }); // uploadFileContentsAPI fails
-
-        await expect(uploadFile(mockFile, undefined, 'failed.mp3')).rejects.toThrow('Failed to upload file: 422 Validation failed');
+      it('republishes the feed when its channel settings changed', async () => {
+        const { podcastFeed } = mockUseSettingsStore.getState().appSettings;
+        mockExistingRepository(undefined, undefined, buildPodcastFeed(null, { ...podcastFeed, title: 'Old Title' }));
+
+        await uploadFilesBatch([
+          { file: new Blob(['a'], { type: 'audio/mpeg' }), fileName: 'Music_Song_Team_2025-03-01.mp3', pathType: 'media' },
+        ]);
+
+        const treeBody = JSON.parse(callsTo('/git/trees', 'POST')[0][1].body);
+        expect(treeBody.tree.map((item: { path: string }) => item.path)).toContain('feed.xml');
       });
 
-      it('exhausts retries on persistent conflicts', async () => {
-        const mockFile = new Blob(['test-content'], { type: 'audio/mp3' });
-
-        // Mock all updateRef attempts to fail with 409 (3 attempts total)
-        (global.fetch as jest.Mock)
-          .mockImplementation((url: string, options: RequestInit) => {
-            if (url.includes('/git/refs/heads/')) {
-              if (options?.method === 'PATCH') {
-                // updateRef - always fails with 409
-                return Promise.resolve({
-                  ok: false,
-                  status: 409,
-                  text: () => Promise.resolve('Conflict'),
-                });
-              } else {
-                // getLatestCommitSha - always succeeds
-                return Promise.resolve({
-                  ok: true,
-                  json: () => Promise.resolve({ object: { sha: 'commit-sha' } }),
-                });
-              }
-            }
-            if (url.includes('/git/commits/')) {
-              return Promise.resolve({
-                ok: true,
-                json: () => Promise.resolve({ tree: { sha: 'tree-sha' } }),
-              });
-            }
-            if (url.includes('/git/blobs')) {
-              return Promise.resolve({
-                ok: true,
-                json: () => Promise.resolve({ sha: 'blob-sha' }),
-              });
-            }
-            if (url.includes('/git/trees')) {
-              return Promise.resolve({
-                ok: true,
-                json: () => Promise.resolve({ sha: 'new-tree-sha' }),
-              });
-            }
-            if (url.includes('/git/commits') && !url.includes('/git/commits/')) {
-              return Promise.resolve({
-                ok: true,
-                json: () => Promise.resolve({ sha: 'new-commit-sha' }),
-              });
-            }
-            return Promise.resolve({
-              ok: true,
-              json: () => Promise.resolve({}),
-            });
-          });
+      it('uploads without replacing a feed it did not generate', async () => {
+        const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+        mockExistingRepository(undefined, undefined, '<rss version="2.0"><channel><title>Our Show</title></channel></rss>');
+
+        await upload();
 
-        await expect(uploadFile(mockFile, undefined, 'persistent-conflict.mp3')).rejects.toThrow('Failed to update ref: 409 Conflict');
+        const treeBody = JSON.parse(callsTo('/git/trees', 'POST')[0][1].body);
+        expect(treeBody.tree.map((item: { path: string }) => item.path)).not.toContain('feed.xml');
+        expect(callsTo('/git/refs/heads/main', 'PATCH')).toHaveLength(1);
+        expect(warn).toHaveBeenCalledWith(expect.stringContaining('feed.xml was not generated by this app'));
+        warn.mockRestore();
       });
     });
 
-    describe('edge cases', () => {
-      it('handles empty repository (409 status)', async () => {
-        const mockFile = new Blob(['test-content'], { type: 'audio/mp3' });
+    it('leaves the podcast feed alone for uploads outside its categories', async () => {
+      const podcastFeed = {
+        enabled: true,
+        path: 'feed.xml',
+        categories: ['Podcast'],
+        title: 'Team Podcast',
+        description: '',
+        ownerName: '',
+        ownerEmail: '',
+        baseUrl: 'https://team.github.io/media',
+      };
+      mockUseSettingsStore.getState.mockReturnValue({
+        appSettings: { repo: 'test-repo', path: 'recordings/', thumbnailPath: 'thumbnails/', podcastFeed },
+      });
+      mockExistingRepository(undefined, undefined, buildPodcastFeed(null, podcastFeed));
 
-        (global.fetch as jest.Mock)
-          .mockResolvedValueOnce({
-            ok: false,
-            status: 409, // GitHub returns 409 for empty repos
-          }) // getLatestCommitSha - empty repo
-          .mockResolvedValueOnce({
-            ok: true,
-            json: () => Promise.resolve({ sha: 'blob-sha' }),
-          }); // uploadFileContentsAPI
+      await uploadFilesBatch([
+        { file: new Blob(['a'], { type: 'audio/mpeg' }), fileName: 'Music_Song_Team_2025-03-01.mp3', pathType: 'media' },
+      ]);
 
-        await expect(uploadFile(mockFile, undefined, 'empty-repo.mp3')).resolves.toBeUndefined();
+      const treeBody = JSON.parse(callsTo('/git/trees', 'POST')[0][1].body);
+      expect(treeBody.tree.map((item: { path: string }) => item.path)).not.toContain('feed.xml');
+    });
+
+    it('uses the Contents API for the first file of an empty repository', async () => {
+      let refCalls = 0;
+      (global.fetch as jest.Mock).mockImplementation((url: string, options: RequestInit) => {
+        if (url.includes('/heads/') && options?.method !== 'PATCH') {
+          refCalls++;
+          return Promise.resolve(refCalls === 1
+            ? { ok: false, status: 409 }
+            : { ok: true, json: () => Promise.resolve({ object: { sha: 'initial-sha' } }) });
+        }
+        if (url.includes('/git/trees/')) {
+          return Promise.resolve(treeListing());
+        }
+        if (url.includes('/git/commits/')) {
+          return Promise.resolve({ ok: true, json: () => Promise.resolve({ tree: { sha: 'tree-sha' } }) });
+        }
+        if (url.includes('/contents/recordings/index.json')) {
+          return Promise.resolve({ ok: false, status: 404 });
+        }
+        if (url.includes('/contents/recordings/a.mp3')) {
+          return Promise.resolve({ ok: true, json: () => Promise.resolve({ content: { sha: 'first-sha' } }) });
+        }
+        return Promise.resolve({ ok: true, json: () => Promise.resolve({ sha: 'sha' }) });
       });
 
-      it('handles large files', async () => {
-        const largeContent = new ArrayBuffer(10 * 1024 * 1024); // 10MB
-        const mockFile = new Blob([largeContent], { type: 'audio/wav' });
+      await uploadFilesBatch([
+        { file: new Blob(['a']), fileName: 'a.mp3', pathType: 'media' },
+        { file: new Blob(['b']), fileName: 'a.jpg', pathType: 'thumbnail' },
+      ]);
 
-        (global.fetch as jest.Mock)
-          .mockResolvedValueOnce({
-            ok: false,
-            status: 404,
-          }) // getLatestCommitSha - empty repo
-          .mockResolvedValueOnce({
-            ok: true,
-            json: () => Promise.resolve({ sha: 'blob-sha' }),
-          }); // uploadFileContentsAPI
+      expect(callsTo('contents/recordings/a.mp3', 'PUT')).toHaveLength(1);
+      // The thumbnail plus a manifest listing the media file committed first
+      expect(callsTo('/git/blobs')).toHaveLength(2);
+      const manifestBlob = JSON.parse(callsTo('/git/blobs')[1][1].body).content;
+      expect(JSON.parse(Buffer.from(manifestBlob, 'base64').toString()).files).toEqual([
+        expect.objectContaining({ path: 'recordings/a.mp3', thumbnailPath: 'thumbnails/a.jpg', sha: 'first-sha' }),
+      ]);
+      const treeBody = JSON.parse(callsTo('/git/trees', 'POST')[0][1].body);
+      expect(treeBody.tree).toEqual([
+        { path: 'thumbnails/a.jpg', mode: '100644', type: 'blob', sha: 'sha' },
+        { path: 'recordings/index.json', mode: '100644', type: 'blob', sha: 'sha' },
+      ]);
+    });
 
-        await expect(uploadFile(mockFile, undefined, 'large-file.wav')).resolves.toBeUndefined();
-      });
+    it('throws error when configuration is missing', async () => {
+      mockUseAuthStore.getState.mockReturnValue({ isAuthenticated: false });
 
-      it('handles paths without trailing slashes', async () => {
-        mockUseSettingsStore.getState.mockReturnValue({
-          appSettings: {
-            repo: 'test-repo',
-            path: 'recordings', // No trailing slash
-            thumbnailPath: 'thumbnails', // No trailing slash
-            thumbnailWidth: 320,
-            thumbnailHeight: 240,
-          },
-        });
+      await expect(uploadFilesBatch([
+        { file: new Blob(['a']), fileName: 'a.mp3', pathType: 'media' },
+      ])).rejects.toThrow('Upload configuration is missing');
+    });
 
-        const mockFile = new Blob(['test-content'], { type: 'audio/mp3' });
+    it('does nothing for an empty batch', async () => {
+      await uploadFilesBatch([]);
+      expect(global.fetch).not.toHaveBeenCalled();
+    });
+  });
 
-        (global.fetch as jest.Mock)
-          .mockResolvedValueOnce({
-            ok: false,
-            status: 404,
-          }) // getLatestCommitSha - empty repo
-          .mockResolvedValueOnce({
+  describe('uploadFilesAsPullRequest', () => {
+    const mockPullRequestFlow = (options: { existingBranches?: string[]; latestSha?: string | null } = {}) => {
+      const existingBranches = new Set(options.existingBranches || []);
+      (global.fetch as jest.Mock).mockImplementation((url: string, init: RequestInit) => {
+        if (url.endsWith('/git/refs') && init?.method === 'POST') {
+          const ref = JSON.parse(init.body as string).ref;
+          if (existingBranches.has(ref)) {
+            return Promise.resolve({ ok: false, status: 422, text: () => Promise.resolve('Reference already exists') });
+          }
+          return Promise.resolve({ ok: true, json: () => Promise.resolve({ ref }) });
+        }
+        if (url.includes('/heads/')) {
+          if (options.latestSha === null) {
+            return Promise.resolve({ ok: false, status: 409 });
+          }
+          return Promise.resolve({ ok: true, json: () => Promise.resolve({ object: { sha: options.latestSha || 'base-sha' } }) });
+        }
+        if (url.includes('/git/commits/')) {
+          return Promise.resolve({ ok: true, json: () => Promise.resolve({ tree: { sha: 'base-tree' } }) });
+        }
+        if (url.includes('/git/blobs')) {
+          return Promise.resolve({ ok: true, json: () => Promise.resolve({ sha: 'blob-sha' }) });
+        }
+        if (url.includes('/git/trees')) {
+          return Promise.resolve({ ok: true, json: () => Promise.resolve({ sha: 'new-tree' }) });
+        }
+        if (url.includes('/git/commits')) {
+          return Promise.resolve({ ok: true, json: () => Promise.resolve({ sha: 'new-commit' }) });
+        }
+        if (url.endsWith('/pulls')) {
+          return Promise.resolve({
             ok: true,
-            json: () => Promise.resolve({ sha: 'blob-sha' }),
-          }); // uploadFileContentsAPI
+            json: () => Promise.resolve({ number: 7, html_url: 'https://github.com/test-owner/test-repo/pull/7' }),
+          });
+        }
+        return Promise.resolve({ ok: true, json: () => Promise.resolve({}) });
+      });
+    };
 
-        await expect(uploadFile(mockFile, undefined, 'no-slash.mp3')).resolves.toBeUndefined();
+    const callsTo = (fragment: string, method?: string) =>
+      (global.fetch as jest.Mock).mock.calls.filter(([url, options]) =>
+        url.endsWith(fragment) && (!method || options?.method === method)
+      );
 
-        // Should still upload to correct path with added slash
-        expect(global.fetch).toHaveBeenCalledWith(
-          expect.stringContaining('contents/recordings/no-slash.mp3'),
-          expect.any(Object)
-        );
+    const items = [
+      { file: new Blob(['a'], { type: 'audio/mp3' }), fileName: 'Music_My Song_Jane_2024-06-07.mp3', pathType: 'media' as const },
+      { file: new Blob(['b'], { type: 'image/jpeg' }), fileName: 'Music_My Song_Jane_2024-06-07.jpg', pathType: 'thumbnail' as const },
+    ];
+
+    it('commits to a new media branch and opens a pull request against the configured branch', async () => {
+      mockPullRequestFlow();
+      const progressCallback = jest.fn();
+
+      const result = await uploadFilesAsPullRequest(items, progressCallback);
+
+      const refBody = JSON.parse(callsTo('/git/refs', 'POST')[0][1].body);
+      expect(refBody).toEqual({ ref: 'refs/heads/upload/Music_My-Song_Jane_2024-06-07.mp3', sha: 'new-commit' });
+
+      const commitBody = JSON.parse(callsTo('/git/commits', 'POST')[0][1].body);
+      expect(commitBody.parents).toEqual(['base-sha']);
+
+      const pullBody = JSON.parse(callsTo('/pulls', 'POST')[0][1].body);
+      expect(pullBody.title).toBe('Add Music_My Song_Jane_2024-06-07.mp3');
+      expect(pullBody.head).toBe('upload/Music_My-Song_Jane_2024-06-07.mp3');
+      expect(pullBody.base).toBe('main');
+      expect(pullBody.body).toContain('`recordings/Music_My Song_Jane_2024-06-07.mp3`');
+      expect(pullBody.body).toContain('`thumbnails/Music_My Song_Jane_2024-06-07.jpg`');
+
+      // The base branch itself is never moved
+      expect((global.fetch as jest.Mock).mock.calls.some(([, options]) => options?.method === 'PATCH')).toBe(false);
+
+      expect(result).toMatchObject({
+        number: 7,
+        url: 'https://github.com/test-owner/test-repo/pull/7',
+        branch: 'upload/Music_My-Song_Jane_2024-06-07.mp3',
+        files: [
+          { fileName: 'Music_My Song_Jane_2024-06-07.mp3', path: 'recordings/Music_My Song_Jane_2024-06-07.mp3', pathType: 'media' },
+          { fileName: 'Music_My Song_Jane_2024-06-07.jpg', path: 'thumbnails/Music_My Song_Jane_2024-06-07.jpg', pathType: 'thumbnail' },
+        ],
       });
+      expect(progressCallback).toHaveBeenLastCalledWith(1);
     });
-  });
 
-  describe('uploadThumbnail', () => {
-    describe('successful uploads', () => {
-      it('uploads thumbnail to thumbnail path', async () => {
-        const mockThumbnail = new Blob(['thumbnail-content'], { type: 'image/jpeg' });
-        const progressCallback = jest.fn();
-
-        (global.fetch as jest.Mock)
-          .mockResolvedValueOnce({
-            ok: false,
-            status: 404,
-          }) // getLatestCommitSha - empty repo
-          .mockResolvedValueOnce({
-            ok: true,
-            json: () => Promise.resolve({ sha: 'blob-sha' }),
-          }); // uploadFileContentsAPI
+    it('picks a unique branch name when the media branch already exists', async () => {
+      mockPullRequestFlow({ existingBranches: ['refs/heads/upload/Music_My-Song_Jane_2024-06-07.mp3'] });
 
-        await uploadThumbnail(mockThumbnail, progressCallback, 'test-thumb.jpg');
+      const result = await uploadFilesAsPullRequest(items);
 
-        expect(progressCallback).toHaveBeenCalledWith(0.1);
-        expect(progressCallback).toHaveBeenCalledWith(0.5);
-        expect(progressCallback).toHaveBeenCalledWith(1);
+      expect(callsTo('/git/refs', 'POST')).toHaveLength(2);
+      expect(result.branch).toMatch(/^upload\/Music_My-Song_Jane_2024-06-07\.mp3-\d+$/);
+      expect(JSON.parse(callsTo('/pulls', 'POST')[0][1].body).head).toBe(result.branch);
+    });
 
-        // Should upload to thumbnail path
-        expect(global.fetch).toHaveBeenCalledWith(
-          expect.stringContaining('contents/thumbnails/test-thumb.jpg'),
-          expect.any(Object)
-        );
+    it('keeps pull request branches out of the way of the target branch', async () => {
+      mockUseSettingsStore.getState.mockReturnValue({
+        appSettings: { repo: 'test-repo', branch: 'upload', path: 'recordings/', thumbnailPath: 'thumbnails/' },
       });
+      mockPullRequestFlow();
 
-      it('generates filename for thumbnail when not provided', async () => {
-        const mockThumbnail = new Blob(['thumbnail-content'], { type: 'image/jpeg' });
+      const result = await uploadFilesAsPullRequest(items);
 
-        (global.fetch as jest.Mock)
-          .mockResolvedValueOnce({
-            ok: false,
-            status: 404,
-          }) // getLatestCommitSha - empty repo
-          .mockResolvedValueOnce({
-            ok: true,
-            json: () => Promise.resolve({ sha: 'blob-sha' }),
-          }); // uploadFileContentsAPI
+      expect(result.branch).toBe('media-upload/Music_My-Song_Jane_2024-06-07.mp3');
+      expect(JSON.parse(callsTo('/pulls', 'POST')[0][1].body).base).toBe('upload');
+    });
+
+    it('titles multi-recording pull requests by count', async () => {
+      mockPullRequestFlow();
 
-        await expect(uploadThumbnail(mockThumbnail)).resolves.toBeUndefined();
+      await uploadFilesAsPullRequest([
+        { file: new Blob(['a']), fileName: 'a.mp3', pathType: 'media' },
+        { file: new Blob(['c']), fileName: 'c.mp3', pathType: 'media' },
+      ]);
+
+      expect(JSON.parse(callsTo('/pulls', 'POST')[0][1].body).title).toBe('Add 2 recordings');
+    });
+
+    it('refuses to open a pull request against an empty branch', async () => {
+      mockPullRequestFlow({ latestSha: null });
+
+      await expect(uploadFilesAsPullRequest(items)).rejects.toThrow("Branch 'main' has no commits yet");
+      expect(callsTo('/pulls')).toHaveLength(0);
+    });
+
+    it('surfaces pull request creation failures', async () => {
+      mockPullRequestFlow();
+      const baseImplementation = (global.fetch as jest.Mock).getMockImplementation()!;
+      (global.fetch as jest.Mock).mockImplementation((url: string, init: RequestInit) =>
+        url.endsWith('/pulls')
+          ? Promise.resolve({ ok: false, status: 403, text: () => Promise.resolve('Forbidden') })
+          : baseImplementation(url, init)
+      );
 
-        // Should generate filename with media- prefix
-        expect(global.fetch).toHaveBeenCalledWith(
-          expect.stringContaining('contents/thumbnails/media-'),
-          expect.any(Object)
-        );
+      await expect(uploadFilesAsPullRequest(items)).rejects.toThrow('Failed to create pull request: 403 Forbidden');
+    });
+  });
+
+  describe('Git LFS media storage', () => {
+    const oid = 'b'.repeat(64);
+    const pointerText = `version https://git-lfs.github.com/spec/v1\noid sha256:${oid}\nsize 11\n`;
+    const lfsLines = lfsAttributesLines('recordings/').map(line => `${line}\n`).join('');
+
+    const mockLfsRepository = (gitattributes?: string) => {
+      (global.fetch as jest.Mock).mockImplementation((url: string, options: RequestInit) => {
+        if (url.includes('/contents/recordings/index.json')) {
+          return Promise.resolve({ ok: false, status: 404 });
+        }
+        if (url.includes('/contents/.gitattributes')) {
+          return Promise.resolve(gitattributes === undefined
+            ? { ok: false, status: 404 }
+            : { ok: true, json: () => Promise.resolve({ content: Buffer.from(gitattributes).toString('base64') }) });
+        }
+        if (url.includes('/heads/')) {
+          if (options?.method === 'PATCH') return Promise.resolve({ ok: true });
+          return Promise.resolve({ ok: true, json: () => Promise.resolve({ object: { sha: 'commit-sha' } }) });
+        }
+        if (url.includes('/git/trees/')) {
+          return Promise.resolve(treeListing());
+        }
+        if (url.includes('/git/commits/')) {
+          return Promise.resolve({ ok: true, json: () => Promise.resolve({ tree: { sha: 'tree-sha' } }) });
+        }
+        if (url.includes('/git/blobs')) {
+          const content = Buffer.from(JSON.parse(options.body as string).content, 'base64').toString();
+          return Promise.resolve({ ok: true, json: () => Promise.resolve({ sha: `blob:${content}` }) });
+        }
+        if (url.includes('/git/trees')) {
+          return Promise.resolve({ ok: true, json: () => Promise.resolve({ sha: 'new-tree-sha' }) });
+        }
+        return Promise.resolve({ ok: true, json: () => Promise.resolve({ sha: 'new-commit-sha' }) });
       });
+    };
+
+    const treeEntries = () => {
+      const treeCall = (global.fetch as jest.Mock).mock.calls.find(([url, init]) => url.includes('/git/trees') && init?.method === 'POST');
+      return JSON.parse(treeCall[1].body).tree as Array<{ path: string; sha: string }>;
+    };
+
+    beforeEach(() => {
+      mockUseSettingsStore.getState.mockReturnValue({
+        appSettings: {
+          repo: 'test-repo',
+          path: 'recordings/',
+          thumbnailPath: 'thumbnails/',
+          thumbnailWidth: 320,
+          thumbnailHeight: 240,
+          mediaStorage: 'lfs',
+        },
+      });
+      mockUploadLfsObject.mockResolvedValue({ oid, size: 11 });
+      mockIsLfsAvailable.mockReturnValue(true);
     });
 
-    describe('error handling', () => {
-      it('throws error when configuration is missing', async () => {
-        mockUseAuthStore.getState.mockReturnValue({
-          isAuthenticated: false,
-        });
+    it('stores media in LFS and commits a pointer file plus .gitattributes', async () => {
+      mockLfsRepository();
+      const media = new Blob(['audio bytes'], { type: 'audio/mp3' });
+
+      await uploadFilesBatch([{ file: media, fileName: 'test.mp3', pathType: 'media' }]);
+
+      expect(mockUploadLfsObject).toHaveBeenCalledWith(expect.objectContaining({ repo: 'test-repo' }), media, undefined);
+      expect(treeEntries()).toEqual([
+        { path: 'recordings/test.mp3', mode: '100644', type: 'blob', sha: `blob:${pointerText}` },
+        {
+          path: '.gitattributes',
+          mode: '100644',
+          type: 'blob',
+          sha: `blob:${lfsLines}`,
+        },
+        {
+          path: 'recordings/index.json',
+          mode: '100644',
+          type: 'blob',
+          // The manifest reports the size of the recording, not of its pointer
+          sha: expect.stringContaining('"size": 11'),
+        },
+      ]);
+    });
+
+    it('appends to an existing .gitattributes and leaves tracked paths alone', async () => {
+      mockLfsRepository('*.png binary');
+      await uploadFilesBatch([{ file: new Blob(['audio bytes']), fileName: 'test.mp3', pathType: 'media' }]);
+      expect(treeEntries()[1].sha).toBe(`blob:*.png binary\n${lfsLines}`);
+
+      (global.fetch as jest.Mock).mockClear();
+      mockLfsRepository(lfsLines);
+      await uploadFilesBatch([{ file: new Blob(['audio bytes']), fileName: 'test.mp3', pathType: 'media' }]);
+      expect(treeEntries().map(entry => entry.path)).toEqual(['recordings/test.mp3', 'recordings/index.json']);
+    });
+
+    it('keeps thumbnails as regular blobs in a batch', async () => {
+      mockLfsRepository();
+
+      await uploadFilesBatch([
+        { file: new Blob(['audio bytes']), fileName: 'test.mp3', pathType: 'media' },
+        { file: new Blob(['jpeg']), fileName: 'test.jpg', pathType: 'thumbnail' },
+      ]);
 
-        const mockThumbnail = new Blob(['thumbnail-content']);
+      expect(mockUploadLfsObject).toHaveBeenCalledTimes(1);
+      expect(treeEntries().map(entry => [entry.path, entry.sha])).toEqual([
+        ['recordings/test.mp3', `blob:${pointerText}`],
+        ['thumbnails/test.jpg', 'blob:jpeg'],
+        ['.gitattributes', `blob:${lfsLines}`],
+        ['recordings/index.json', expect.stringContaining('"thumbnailPath": "thumbnails/test.jpg"')],
+      ]);
+    });
 
-        await expect(uploadThumbnail(mockThumbnail)).rejects.toThrow('Upload configuration is missing');
+    it('starts an empty repository with .gitattributes so the first pointer is tracked', async () => {
+      mockLfsRepository(lfsLines);
+      const lfsRepository = (global.fetch as jest.Mock).getMockImplementation()!;
+      let refCalls = 0;
+      (global.fetch as jest.Mock).mockImplementation((url: string, options: RequestInit) => {
+        if (url.includes('/heads/') && options?.method !== 'PATCH' && ++refCalls === 1) {
+          return Promise.resolve({ ok: false, status: 409 });
+        }
+        if (url.includes('/contents/.gitattributes') && options?.method === 'PUT') {
+          return Promise.resolve({ ok: true, json: () => Promise.resolve({ content: { sha: 'attributes-sha' } }) });
+        }
+        return lfsRepository(url, options);
       });
 
-      it('handles upload failures for thumbnails', async () => {
-        const mockThumbnail = new Blob(['thumbnail-content'], { type: 'image/jpeg' });
-
-        (global.fetch as jest.Mock)
-          .mockResolvedValueOnce({
-            ok: false,
-            status: 404,
-          }) // getLatestCommitSha - empty repo
-          .mockResolvedValueOnce({
-            ok: false,
-            status: 413,
-            text: () => Promise.resolve('File too large'),
-          }); // uploadFileContentsAPI fails
-
-        await expect(uploadThumbnail(mockThumbnail, undefined, 'large-thumb.jpg')).rejects.toThrow('Failed to upload file: 413 File too large');
+      await uploadFilesBatch([
+        { file: new Blob(['audio bytes']), fileName: 'test.mp3', pathType: 'media' },
+        { file: new Blob(['jpeg']), fileName: 'test.jpg', pathType: 'thumbnail' },
+      ]);
+
+      const puts = (global.fetch as jest.Mock).mock.calls
+        .filter(([, options]) => options?.method === 'PUT')
+        .map(([url]) => url);
+      expect(puts).toEqual(['https://api.github.com/repos/test-owner/test-repo/contents/.gitattributes']);
+      expect(treeEntries().map(entry => [entry.path, entry.sha])).toEqual([
+        ['recordings/test.mp3', `blob:${pointerText}`],
+        ['thumbnails/test.jpg', 'blob:jpeg'],
+        ['recordings/index.json', expect.any(String)],
+      ]);
+    });
+
+    it('reports progress while the recording goes to the LFS store', async () => {
+      mockLfsRepository(lfsLines);
+      mockUploadLfsObject.mockImplementation(async (_config, _file, onBytesSent) => {
+        onBytesSent?.(5);
+        return { oid, size: 11 };
       });
+      const progressCallback = jest.fn();
+
+      await uploadFilesBatch([{ file: new Blob(['audio bytes']), fileName: 'test.mp3', pathType: 'media' }], progressCallback);
+
+      expect(progressCallback).toHaveBeenCalledWith(expect.closeTo(0.1 + (5 / 11) * 0.7), expect.objectContaining({ bytesSent: 5, totalBytes: 11 }));
+      expect(progressCallback).toHaveBeenCalledWith(expect.closeTo(0.8), expect.objectContaining({ bytesSent: 11 }));
+    });
+
+    it('commits media as regular files when no LFS proxy is configured', async () => {
+      mockIsLfsAvailable.mockReturnValue(false);
+      mockLfsRepository();
+
+      await uploadFilesBatch([{ file: new Blob(['audio bytes']), fileName: 'test.mp3', pathType: 'media' }]);
+
+      expect(mockUploadLfsObject).not.toHaveBeenCalled();
+      expect(treeEntries().map(entry => [entry.path, entry.sha])).toEqual([
+        ['recordings/test.mp3', 'blob:audio bytes'],
+        ['recordings/index.json', expect.any(String)],
+      ]);
+    });
+
+    it('does not touch LFS for thumbnails uploaded on their own', async () => {
+      mockLfsRepository();
+
+      await uploadFilesBatch([{ file: new Blob(['jpeg']), fileName: 'test.jpg', pathType: 'thumbnail' }]);
+
+      expect(mockUploadLfsObject).not.toHaveBeenCalled();
+      expect(treeEntries().map(entry => entry.path)).toEqual(['thumbnails/test.jpg']);
+    });
+
+    it('fails the upload when the LFS transfer fails', async () => {
+      mockLfsRepository();
+      mockUploadLfsObject.mockRejectedValue(new Error('LFS upload failed: 500'));
+
+      await expect(uploadFilesBatch([{ file: new Blob(['audio bytes']), fileName: 'test.mp3', pathType: 'media' }])).rejects.toThrow('LFS upload failed: 500');
+      expect((global.fetch as jest.Mock).mock.calls.some(([url]) => url.includes('/git/trees'))).toBe(false);
     });
   });
 
-  describe('integration tests', () => {
-    it('uploads both media file and thumbnail successfully', async () => {
-      const mockMediaFile = new Blob(['audio-content'], { type: 'audio/mp3' });
-      const mockThumbnail = new Blob(['thumbnail-content'], { type: 'image/jpeg' });
+  describe('getUploadConfig', () => {
+    const lectures = { repo: 'lectures', branch: 'spring', path: 'talks', thumbnailPath: 'slides/', thumbnailWidth: 640, thumbnailHeight: 360 };
+
+    beforeEach(() => {
+      mockUseSettingsStore.getState.mockReturnValue({
+        appSettings: { repo: 'test-repo', path: 'recordings/', thumbnailPath: 'thumbnails/', thumbnailWidth: 320, thumbnailHeight: 240 },
+        activeProfileId: 'podcast',
+        profiles: [{ id: 'lectures', name: 'Lectures', settings: lectures }],
+      });
+    });
+
+    it('builds the configuration of the active profile', () => {
+      expect(getUploadConfig()).toEqual(expect.objectContaining({ repo: 'test-repo', profileId: 'podcast' }));
+      expect(getUploadConfig('podcast')).toEqual(expect.objectContaining({ repo: 'test-repo', profileId: 'podcast' }));
+    });
+
+    it('builds the configuration of another profile', () => {
+      expect(getUploadConfig('lectures')).toEqual(expect.objectContaining({
+        repo: 'lectures',
+        branch: 'spring',
+        path: 'talks/',
+        thumbnailPath: 'slides/',
+        profileId: 'lectures',
+      }));
+    });
+
+    it('returns null for a removed profile', () => {
+      expect(getUploadConfig('deleted')).toBeNull();
+    });
+  });
 
-      // Mock empty repository for both uploads
+  describe('repository check fixes', () => {
+    it('creates the branch at the head of the default branch', async () => {
+      mockUseSettingsStore.getState.mockReturnValue({
+        appSettings: { repo: 'test-repo', branch: 'media', path: 'recordings/', thumbnailPath: 'thumbnails/' },
+      });
       (global.fetch as jest.Mock)
-        .mockResolvedValueOnce({
-          ok: false,
-          status: 404,
-        }) // getLatestCommitSha for media file
-        .mockResolvedValueOnce({
-          ok: true,
-          json: () => Promise.resolve({ sha: 'blob-sha-1' }),
-        }) // uploadFileContentsAPI for media file
-        .mockResolvedValueOnce({
-          ok: false,
-          status: 404,
-        }) // getLatestCommitSha for thumbnail
-        .mockResolvedValueOnce({
-          ok: true,
-          json: () => Promise.resolve({ sha: 'blob-sha-2' }),
-        }); // uploadFileContentsAPI for thumbnail
-
-      await expect(uploadFile(mockMediaFile, undefined, 'test-audio.mp3')).resolves.toBeUndefined();
-      await expect(uploadThumbnail(mockThumbnail, undefined, 'test-thumb.jpg')).resolves.toBeUndefined();
-
-      // Should have made calls for both uploads
-      expect(global.fetch).toHaveBeenCalledWith(
-        expect.stringContaining('contents/recordings/test-audio.mp3'),
-        expect.any(Object)
-      );
-      expect(global.fetch).toHaveBeenCalledWith(
-        expect.stringContaining('contents/thumbnails/test-thumb.jpg'),
-        expect.any(Object)
+        .mockResolvedValueOnce({ ok: true, json: () => Promise.resolve({ object: { sha: 'main-sha' } }) })
+        .mockResolvedValueOnce({ ok: true, status: 201 });
+
+      await createRepositoryBranch('main');
+
+      const calls = (global.fetch as jest.Mock).mock.calls;
+      expect(calls[0][0]).toBe('https://api.github.com/repos/test-owner/test-repo/git/ref/heads/main');
+      expect(calls[1][0]).toBe('https://api.github.com/repos/test-owner/test-repo/git/refs');
+      expect(JSON.parse(calls[1][1].body)).toEqual({ ref: 'refs/heads/media', sha: 'main-sha' });
+    });
+
+    it('refuses to branch from an empty default branch', async () => {
+      (global.fetch as jest.Mock).mockResolvedValueOnce({ ok: false, status: 409 });
+
+      await expect(createRepositoryBranch('main')).rejects.toThrow('Branch main has no commits to start from');
+      expect(global.fetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('creates a folder with a .gitkeep placeholder', async () => {
+      (global.fetch as jest.Mock).mockResolvedValueOnce({ ok: true, json: () => Promise.resolve({}) });
+
+      await createRepositoryFolder('recordings');
+
+      const [url, init] = (global.fetch as jest.Mock).mock.calls[0];
+      expect(url).toBe('https://api.github.com/repos/test-owner/test-repo/contents/recordings/.gitkeep');
+      expect(init.method).toBe('PUT');
+    });
+  });
+
+  describe('deleteFilesFromRepository', () => {
+    const jsonResponse = (data: unknown) => ({ ok: true, json: () => Promise.resolve(data) });
+    const manifestMissing = { ok: false, status: 404 };
+
+    it('commits a tree without the media file and its thumbnail', async () => {
+      (global.fetch as jest.Mock)
+        .mockResolvedValueOnce(jsonResponse({ object: { sha: 'head-sha' } }))
+        .mockResolvedValueOnce(jsonResponse({ tree: { sha: 'base-tree-sha' } }))
+        .mockResolvedValueOnce(manifestMissing)
+        .mockResolvedValueOnce(treeListing())
+        .mockResolvedValueOnce(jsonResponse({ sha: 'new-tree-sha' }))
+        .mockResolvedValueOnce(jsonResponse({ sha: 'new-commit-sha' }))
+        .mockResolvedValueOnce({ ok: true });
+
+      await deleteFilesFromRepository('clip.mp3', ['recordings/clip.mp3', 'thumbnails/clip.jpg']);
+
+      const calls = (global.fetch as jest.Mock).mock.calls;
+      expect(JSON.parse(calls[4][1].body)).toEqual({
+        base_tree: 'base-tree-sha',
+        tree: [
+          { path: 'recordings/clip.mp3', mode: '100644', type: 'blob', sha: null },
+          { path: 'thumbnails/clip.jpg', mode: '100644', type: 'blob', sha: null },
+        ],
+      });
+      expect(JSON.parse(calls[5][1].body)).toEqual({
+        message: 'Delete clip.mp3',
+        tree: 'new-tree-sha',
+        parents: ['head-sha'],
+      });
+      expect(calls[6][0]).toContain('/git/refs/heads/main');
+      expect(JSON.parse(calls[6][1].body)).toEqual({ sha: 'new-commit-sha', force: false });
+    });
+
+    it('drops the recording from the media manifest in the same commit', async () => {
+      const manifest = {
+        version: 1,
+        updated: '2025-01-01T00:00:00.000Z',
+        files: [
+          { path: 'recordings/clip.mp3', thumbnailPath: 'thumbnails/clip.jpg', title: 'clip', author: '', category: '', date: '', size: 4, mimeType: 'audio/mpeg', sha: 'clip-sha' },
+          { path: 'recordings/keep.mp3', title: 'keep', author: '', category: '', date: '', size: 4, mimeType: 'audio/mpeg', sha: 'keep-sha' },
+        ],
+      };
+      (global.fetch as jest.Mock)
+        .mockResolvedValueOnce(jsonResponse({ object: { sha: 'head-sha' } }))
+        .mockResolvedValueOnce(jsonResponse({ tree: { sha: 'base-tree-sha' } }))
+        .mockResolvedValueOnce(jsonResponse(manifest))
+        .mockResolvedValueOnce(manifestTreeListing(manifest))
+        .mockResolvedValueOnce(jsonResponse({ sha: 'manifest-sha' }))
+        .mockResolvedValueOnce(jsonResponse({ sha: 'new-tree-sha' }))
+        .mockResolvedValueOnce(jsonResponse({ sha: 'new-commit-sha' }))
+        .mockResolvedValueOnce({ ok: true });
+
+      await deleteFilesFromRepository('clip.mp3', ['recordings/clip.mp3', 'thumbnails/clip.jpg']);
+
+      const calls = (global.fetch as jest.Mock).mock.calls;
+      expect(calls[2][0]).toBe('https://api.github.com/repos/test-owner/test-repo/contents/recordings/index.json?ref=head-sha');
+      const written = JSON.parse(Buffer.from(JSON.parse(calls[4][1].body).content, 'base64').toString());
+      expect(written.files.map((file: { path: string }) => file.path)).toEqual(['recordings/keep.mp3']);
+      expect(JSON.parse(calls[5][1].body).tree).toContainEqual(
+        { path: 'recordings/index.json', mode: '100644', type: 'blob', sha: 'manifest-sha' }
       );
     });
 
-    it('handles concurrent uploads correctly', async () => {
-      const mockFile1 = new Blob(['content1'], { type: 'audio/mp3' });
-      const mockFile2 = new Blob(['content2'], { type: 'audio/wav' });
+    it('rebuilds the commit when the branch moved', async () => {
+      (global.fetch as jest.Mock)
+        .mockResolvedValueOnce(jsonResponse({ object: { sha: 'head-sha' } }))
+        .mockResolvedValueOnce(jsonResponse({ tree: { sha: 'base-tree-sha' } }))
+        .mockResolvedValueOnce(manifestMissing)
+        .mockResolvedValueOnce(treeListing())
+        .mockResolvedValueOnce(jsonResponse({ sha: 'new-tree-sha' }))
+        .mockResolvedValueOnce(jsonResponse({ sha: 'new-commit-sha' }))
+        .mockResolvedValueOnce({ ok: false, status: 422, text: () => Promise.resolve('Update is not a fast forward') })
+        .mockResolvedValueOnce(jsonResponse({ object: { sha: 'newer-head-sha' } }))
+        .mockResolvedValueOnce(jsonResponse({ tree: { sha: 'newer-tree-sha' } }))
+        .mockResolvedValueOnce(manifestMissing)
+        .mockResolvedValueOnce(treeListing())
+        .mockResolvedValueOnce(jsonResponse({ sha: 'second-tree-sha' }))
+        .mockResolvedValueOnce(jsonResponse({ sha: 'second-commit-sha' }))
+        .mockResolvedValueOnce({ ok: true });
+
+      // Real timers: the response cache's IndexedDB reads don't run under fake ones
+      await deleteFilesFromRepository('clip.mp3', ['recordings/clip.mp3']);
+
+      const calls = (global.fetch as jest.Mock).mock.calls;
+      expect(JSON.parse(calls[12][1].body).parents).toEqual(['newer-head-sha']);
+      expect(JSON.parse(calls[13][1].body).sha).toBe('second-commit-sha');
+    });
+
+    it('requires upload configuration', async () => {
+      mockUseAuthStore.getState.mockReturnValue({ isAuthenticated: false, githubConfig: null });
+
+      await expect(deleteFilesFromRepository('clip.mp3', ['recordings/clip.mp3']))
+        .rejects.toThrow('Upload configuration is missing');
+      expect(global.fetch).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('renameFilesInRepository', () => {
+    const jsonResponse = (data: unknown) => ({ ok: true, json: () => Promise.resolve(data) });
+    const manifestMissing = { ok: false, status: 404 };
+
+    it('moves existing blobs and adds new files in one commit', async () => {
+      (global.fetch as jest.Mock)
+        .mockResolvedValueOnce(jsonResponse({ sha: 'new-thumb-sha' }))
+        .mockResolvedValueOnce(jsonResponse({ object: { sha: 'head-sha' } }))
+        .mockResolvedValueOnce(jsonResponse({ tree: { sha: 'base-tree-sha' } }))
+        .mockResolvedValueOnce(manifestMissing)
+        .mockResolvedValueOnce(treeListing([
+          { path: 'recordings/old.mp3', mode: '100644', type: 'blob', sha: 'media-sha', size: 2048 },
+          { path: 'thumbnails/old.png', mode: '100644', type: 'blob', sha: 'old-thumb-sha', size: 512 },
+        ]))
+        .mockResolvedValueOnce(jsonResponse({ sha: 'manifest-sha' }))
+        .mockResolvedValueOnce(jsonResponse({ sha: 'new-tree-sha' }))
+        .mockResolvedValueOnce(jsonResponse({ sha: 'new-commit-sha' }))
+        .mockResolvedValueOnce({ ok: true });
+
+      const shas = await renameFilesInRepository(
+        'Rename old.mp3 to new.mp3',
+        [{ from: 'recordings/old.mp3', to: 'recordings/new.mp3', sha: 'media-sha' }],
+        [{ path: 'thumbnails/new.jpg', file: new Blob(['jpg'], { type: 'image/jpeg' }) }],
+        ['thumbnails/old.png']
+      );
+
+      expect(shas).toEqual(['new-thumb-sha']);
+      const calls = (global.fetch as jest.Mock).mock.calls;
+      expect(calls[0][0]).toContain('/git/blobs');
+      // The first manifest is seeded from the tree, so the renamed recording stays listed
+      const written = JSON.parse(Buffer.from(JSON.parse(calls[5][1].body).content, 'base64').toString());
+      expect(written.files).toEqual([
+        { path: 'recordings/new.mp3', thumbnailPath: 'thumbnails/new.jpg', title: 'new', author: '', category: '', date: '', size: 2048, mimeType: 'audio/mpeg', sha: 'media-sha' },
+      ]);
+      expect(JSON.parse(calls[6][1].body)).toEqual({
+        base_tree: 'base-tree-sha',
+        tree: [
+          { path: 'recordings/old.mp3', mode: '100644', type: 'blob', sha: null },
+          { path: 'thumbnails/old.png', mode: '100644', type: 'blob', sha: null },
+          { path: 'recordings/new.mp3', mode: '100644', type: 'blob', sha: 'media-sha' },
+          { path: 'thumbnails/new.jpg', mode: '100644', type: 'blob', sha: 'new-thumb-sha' },
+          { path: 'recordings/index.json', mode: '100644', type: 'blob', sha: 'manifest-sha' },
+        ],
+      });
+      expect(JSON.parse(calls[7][1].body).message).toBe('Rename old.mp3 to new.mp3');
+    });
 
-      // Mock responses for concurrent uploads
+    it('does not upload renamed content again', async () => {
       (global.fetch as jest.Mock)
-        .mockResolvedValueOnce({
-          ok: false,
-          status: 404,
-        }) // getLatestCommitSha for file1
-        .mockResolvedValueOnce({
-          ok: false,
-          status: 404,
-        }) // getLatestCommitSha for file2
-        .mockResolvedValueOnce({
-          ok: true,
-          json: () => Promise.resolve({ sha: 'blob-sha-1' }),
-        }) // uploadFileContentsAPI for file1
-        .mockResolvedValueOnce({
-          ok: true,
-          json: () => Promise.resolve({ sha: 'blob-sha-2' }),
-        }); // uploadFileContentsAPI for file2
-
-      const [result1, result2] = await Promise.all([
-        uploadFile(mockFile1, undefined, 'concurrent1.mp3'),
-        uploadFile(mockFile2, undefined, 'concurrent2.wav'),
+        .mockResolvedValueOnce(jsonResponse({ object: { sha: 'head-sha' } }))
+        .mockResolvedValueOnce(jsonResponse({ tree: { sha: 'base-tree-sha' } }))
+        .mockResolvedValueOnce(manifestMissing)
+        .mockResolvedValueOnce(treeListing())
+        .mockResolvedValueOnce(jsonResponse({ sha: 'new-tree-sha' }))
+        .mockResolvedValueOnce(jsonResponse({ sha: 'new-commit-sha' }))
+        .mockResolvedValueOnce({ ok: true });
+
+      await renameFilesInRepository('Rename old.mp3 to new.mp3', [
+        { from: 'recordings/old.mp3', to: 'recordings/new.mp3', sha: 'media-sha' },
       ]);
 
-      expect(result1).toBeUndefined();
-      expect(result2).toBeUndefined();
+      const urls = (global.fetch as jest.Mock).mock.calls.map(call => call[0]);
+      expect(urls.some(url => url.includes('/git/blobs'))).toBe(false);
     });
+  });
 
-    it('handles configuration changes between uploads', async () => {
-      const mockFile = new Blob(['content'], { type: 'audio/mp3' });
+  describe('restoreFileVersion', () => {
+    const jsonResponse = (data: unknown) => ({ ok: true, json: () => Promise.resolve(data) });
+    const manifestMissing = { ok: false, status: 404 };
+    const version = {
+      commitSha: 'c1abcdef0123',
+      path: 'recordings/old.mp3',
+      message: 'Upload old.mp3',
+      author: 'Ann',
+      date: '2025-03-01T10:00:00Z',
+    };
+
+    it('points the path at the earlier blob in a new commit, updating the media manifest', async () => {
+      const manifest = {
+        version: 1,
+        updated: '2025-01-01T00:00:00.000Z',
+        files: [{ path: 'recordings/new.mp3', title: 'new', author: '', category: '', date: '', duration: 30, size: 9, mimeType: 'audio/mpeg', sha: 'current-sha' }],
+      };
+      (global.fetch as jest.Mock)
+        .mockResolvedValueOnce(jsonResponse({ sha: 'old-blob-sha', size: 5 }))
+        .mockResolvedValueOnce(jsonResponse({ object: { sha: 'head-sha' } }))
+        .mockResolvedValueOnce(jsonResponse({ tree: { sha: 'base-tree-sha' } }))
+        .mockResolvedValueOnce(jsonResponse(manifest))
+        .mockResolvedValueOnce(manifestTreeListing(manifest))
+        .mockResolvedValueOnce(jsonResponse({ sha: 'manifest-sha' }))
+        .mockResolvedValueOnce(jsonResponse({ sha: 'new-tree-sha' }))
+        .mockResolvedValueOnce(jsonResponse({ sha: 'new-commit-sha' }))
+        .mockResolvedValueOnce({ ok: true });
+
+      await restoreFileVersion('recordings/new.mp3', version, 'audio/mpeg');
+
+      const calls = (global.fetch as jest.Mock).mock.calls;
+      expect(calls[0][0]).toBe('https://api.github.com/repos/test-owner/test-repo/contents/recordings/old.mp3?ref=c1abcdef0123');
+      const written = JSON.parse(Buffer.from(JSON.parse(calls[5][1].body).content, 'base64').toString());
+      expect(written.files).toEqual([
+        { path: 'recordings/new.mp3', title: 'new', author: '', category: '', date: '', size: 5, mimeType: 'audio/mpeg', sha: 'old-blob-sha' },
+      ]);
+      expect(JSON.parse(calls[6][1].body).tree).toEqual([
+        { path: 'recordings/new.mp3', mode: '100644', type: 'blob', sha: 'old-blob-sha' },
+        { path: 'recordings/index.json', mode: '100644', type: 'blob', sha: 'manifest-sha' },
+      ]);
+      expect(JSON.parse(calls[7][1].body).message).toBe('Restore new.mp3 from c1abcde');
+      // The earlier content is not uploaded again
+      expect(calls.filter(call => call[0].includes('/git/blobs'))).toHaveLength(1);
+    });
 
-      // First upload with original config
+    it('lists the size of the LFS object an earlier pointer refers to', async () => {
+      const pointer = `version https://git-lfs.github.com/spec/v1\noid sha256:${'a'.repeat(64)}\nsize 4096\n`;
       (global.fetch as jest.Mock)
-        .mockResolvedValueOnce({
-          ok: false,
-          status: 404,
-        }) // getLatestCommitSha - empty repo
-        .mockResolvedValueOnce({
-          ok: true,
-          json: () => Promise.resolve({ sha: 'blob-sha-1' }),
-        }); // uploadFileContentsAPI
-
-      await uploadFile(mockFile, undefined, 'file1.mp3');
-
-      // Change configuration
-      mockUseSettingsStore.getState.mockReturnValue({
-        appSettings: {
-          repo: 'different-repo',
-          path: 'media/',
-          thumbnailPath: 'thumbs/',
-          thumbnailWidth: 640,
-          thumbnailHeight: 480,
-        },
+        .mockResolvedValueOnce(jsonResponse({ sha: 'pointer-sha', size: pointer.length, content: Buffer.from(pointer).toString('base64') }))
+        .mockResolvedValueOnce(jsonResponse({ object: { sha: 'head-sha' } }))
+        .mockResolvedValueOnce(jsonResponse({ tree: { sha: 'base-tree-sha' } }))
+        .mockResolvedValueOnce(manifestMissing)
+        .mockResolvedValueOnce(treeListing())
+        .mockResolvedValueOnce(jsonResponse({ sha: 'manifest-sha' }))
+        .mockResolvedValueOnce(jsonResponse({ sha: 'new-tree-sha' }))
+        .mockResolvedValueOnce(jsonResponse({ sha: 'new-commit-sha' }))
+        .mockResolvedValueOnce({ ok: true });
+
+      await restoreFileVersion('recordings/new.mp3', version, 'audio/mpeg');
+
+      const calls = (global.fetch as jest.Mock).mock.calls;
+      const written = JSON.parse(Buffer.from(JSON.parse(calls[5][1].body).content, 'base64').toString());
+      expect(written.files[0]).toMatchObject({ size: 4096, sha: 'pointer-sha' });
+    });
+
+    it('fails when the earlier version cannot be read', async () => {
+      (global.fetch as jest.Mock).mockResolvedValueOnce({ ok: false, status: 404 });
+
+      await expect(restoreFileVersion('thumbnails/new.jpg', { ...version, path: 'thumbnails/old.jpg' }))
+        .rejects.toThrow('Failed to read the earlier version: 404');
+      expect(global.fetch).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('large file encoding', () => {
+    const largeFile = () => new Blob([new ArrayBuffer(BASE64_CHUNK_SIZE + 1)], { type: 'audio/wav' });
+    const upload = (file: Blob, fileName: string, onProgress?: jest.Mock) =>
+      uploadFilesBatch([{ file, fileName, pathType: 'media' }], onProgress);
+
+    // Responds by URL; blob requests take the given responses in order, then succeed
+    const mockBlobUpload = (...blobResponses: Array<() => Promise<unknown>>) => {
+      (global.fetch as jest.Mock).mockImplementation((url: string, options: RequestInit) => {
+        if (url.includes('/contents/recordings/index.json')) {
+          return Promise.resolve({ ok: false, status: 404 });
+        }
+        if (url.includes('/heads/')) {
+          if (options?.method === 'PATCH') return Promise.resolve({ ok: true, json: () => Promise.resolve({}) });
+          return Promise.resolve({ ok: true, json: () => Promise.resolve({ object: { sha: 'commit-sha' } }) });
+        }
+        if (url.includes('/git/trees/')) {
+          return Promise.resolve(treeListing());
+        }
+        if (url.includes('/git/commits/')) {
+          return Promise.resolve({ ok: true, json: () => Promise.resolve({ tree: { sha: 'tree-sha' } }) });
+        }
+        if (url.includes('/git/blobs')) {
+          const next = blobResponses.shift();
+          return next ? next() : Promise.resolve({ ok: true, json: () => Promise.resolve({ sha: 'blob-sha' }) });
+        }
+        return Promise.resolve({ ok: true, json: () => Promise.resolve({ sha: 'new-sha' }) });
+      });
+    };
+
+    const blobCalls = () => (global.fetch as jest.Mock).mock.calls.filter(([url]) => url.includes('/git/blobs'));
+
+    // XMLHttpRequest stand-in that reports upload progress, then answers with the given response
+    const xhrRequests: Array<{ method: string; url: string; headers: Record<string, string>; body: unknown }> = [];
+    const mockXhrResponse = (status: number, responseText: string, responseHeaders = '') => (
+      class MockXMLHttpRequest {
+        upload: { onprogress: ((event: Partial<ProgressEvent>) => void) | null } = { onprogress: null };
+        onload: (() => void) | null = null;
+        onerror: (() => void) | null = null;
+        status = 0;
+        statusText = '';
+        responseText = '';
+        private request = { method: '', url: '', headers: {} as Record<string, string>, body: null as unknown };
+        open(method: string, url: string) {
+          Object.assign(this.request, { method, url });
+        }
+        setRequestHeader(name: string, value: string) {
+          this.request.headers[name] = value;
+        }
+        getAllResponseHeaders() {
+          return responseHeaders;
+        }
+        send(sentBody: unknown) {
+          this.request.body = sentBody;
+          xhrRequests.push(this.request);
+          this.upload.onprogress?.({ lengthComputable: true, loaded: 50, total: 100 });
+          this.upload.onprogress?.({ lengthComputable: true, loaded: 100, total: 100 });
+          this.status = status;
+          this.responseText = responseText;
+          this.onload?.();
+        }
+      } as unknown as typeof XMLHttpRequest
+    );
+    const withXhr = async (xhr: typeof XMLHttpRequest, run: () => Promise<unknown>) => {
+      const originalXMLHttpRequest = global.XMLHttpRequest;
+      global.XMLHttpRequest = xhr;
+      xhrRequests.length = 0;
+      try {
+        await run();
+      } finally {
+        global.XMLHttpRequest = originalXMLHttpRequest;
+      }
+    };
+
+    it('encodes small files in place', async () => {
+      mockBlobUpload();
+
+      await upload(new Blob(['test-content']), 'small.mp3');
+
+      expect(mockEncodeJsonBody).not.toHaveBeenCalled();
+      const [, options] = blobCalls()[0];
+      expect(JSON.parse(options.body)).toEqual({
+        content: Buffer.from('test-content').toString('base64'),
+        encoding: 'base64',
       });
+    });
 
-      // Second upload with new config
-      (global.fetch as jest.Mock)
-        .mockResolvedValueOnce({
-          ok: false,
-          status: 404,
-        }) // getLatestCommitSha - empty repo
-        .mockResolvedValueOnce({
-          ok: true,
-          json: () => Promise.resolve({ sha: 'blob-sha-2' }),
-        }); // uploadFileContentsAPI
-
-      await uploadFile(mockFile, undefined, 'file2.mp3');
-
-      // Should have used different repositories
-      expect(global.fetch).toHaveBeenCalledWith(
-        'https://api.github.com/repos/test-owner/test-repo/contents/recordings/file1.mp3',
-        expect.any(Object)
+    it('builds the blob body in the worker when request streams are unsupported', async () => {
+      const file = largeFile();
+      mockBlobUpload();
+
+      await upload(file, 'large.wav');
+
+      expect(mockEncodeJsonBody).toHaveBeenCalledWith(file, '{"content":"', '","encoding":"base64"}');
+      expect(blobCalls()[0][1].body).toBeInstanceOf(Blob);
+    });
+
+    it('streams the blob body when request streams are supported', async () => {
+      mockSupportsRequestStreams.mockReturnValueOnce(true);
+      mockBlobUpload();
+
+      await upload(largeFile(), 'large.wav');
+
+      expect(mockEncodeJsonBody).not.toHaveBeenCalled();
+      const [, options] = blobCalls()[0];
+      expect(options.duplex).toBe('half');
+      expect(options.body).toBeInstanceOf(ReadableStream);
+    });
+
+    it('falls back to the worker when a streamed request fails', async () => {
+      mockSupportsRequestStreams.mockReturnValueOnce(true);
+      const warnSpy = jest.spyOn(console, 'warn').mockImplementation();
+      mockBlobUpload(() => Promise.reject(new TypeError('Failed to fetch')));
+
+      await upload(largeFile(), 'large.wav');
+
+      expect(mockEncodeJsonBody).toHaveBeenCalledTimes(1);
+      expect(blobCalls()[1][1].body).toBeInstanceOf(Blob);
+      warnSpy.mockRestore();
+    });
+
+    it('reports bytes sent from upload progress events for worker-built bodies', async () => {
+      const file = largeFile();
+      const body = new Blob(['x'.repeat(100)]);
+      mockEncodeJsonBody.mockResolvedValue(body);
+      const progressCallback = jest.fn();
+
+      mockBlobUpload();
+
+      await withXhr(mockXhrResponse(201, JSON.stringify({ sha: 'blob-sha' })), () => upload(file, 'large.wav', progressCallback));
+
+      expect(xhrRequests).toEqual([{
+        method: 'POST',
+        url: 'https://api.github.com/repos/test-owner/test-repo/git/blobs',
+        headers: { Authorization: 'Bearer test-token', 'Content-Type': 'application/json' },
+        body,
+      }]);
+      expect(progressCallback).toHaveBeenCalledWith(
+        expect.closeTo(0.45),
+        expect.objectContaining({ bytesSent: expect.closeTo(Math.round(file.size / 2), 0), totalBytes: file.size })
       );
-      expect(global.fetch).toHaveBeenCalledWith(
-        'https://api.github.com/repos/test-owner/different-repo/contents/media/file2.mp3',
-        expect.any(Object)
+      expect(progressCallback).toHaveBeenCalledWith(expect.closeTo(0.8), expect.objectContaining({ bytesSent: file.size }));
+      // The tree was created from the SHA in the XHR response
+      const treeCall = (global.fetch as jest.Mock).mock.calls.find(([url, init]) => url.includes('/git/trees') && init?.method === 'POST');
+      expect(JSON.parse(treeCall[1].body).tree[0].sha).toBe('blob-sha');
+    });
+
+    it('records rate limits and token expiry from worker-built body responses', async () => {
+      mockEncodeJsonBody.mockResolvedValue(new Blob(['x'.repeat(100)]));
+      mockBlobUpload();
+      const expiryListener = jest.fn();
+      const unsubscribe = subscribeTokenExpiration(expiryListener);
+      const reset = Math.floor(Date.now() / 1000) + 600;
+      const xhr = mockXhrResponse(403, '{"message":"API rate limit exceeded"}', [
+        'X-RateLimit-Limit: 5000',
+        'X-RateLimit-Remaining: 0',
+        `X-RateLimit-Reset: ${reset}`,
+        'github-authentication-token-expiration: 2030-01-02 03:04:05 UTC',
+      ].join('\r\n'));
+
+      try {
+        await withXhr(xhr, () => expect(upload(largeFile(), 'large.wav', jest.fn())).rejects.toThrow('Failed to create blob: 403'));
+
+        expect(rateLimitWait()).toBeGreaterThan(0);
+        expect(expiryListener).toHaveBeenCalledWith(Date.parse('2030-01-02T03:04:05Z'));
+      } finally {
+        unsubscribe();
+        clearRateLimitStatus();
+      }
+    });
+
+    it('wraps Contents API uploads with the commit message and branch', async () => {
+      const file = largeFile();
+      (global.fetch as jest.Mock)
+        .mockResolvedValueOnce({ ok: false, status: 409 })
+        .mockResolvedValueOnce({ ok: true, json: () => Promise.resolve({}) });
+
+      await upload(file, 'large.wav');
+
+      expect(mockEncodeJsonBody).toHaveBeenCalledWith(
+        file,
+        '{"message":"Upload large.wav","content":"',
+        '","branch":"main"}'
       );
     });
   });
@@ -0,0 +1,78 @@
+/**
+ * Tests for the Base64 Encoding Worker message handling
+ */
+import type { Base64EncodingMessage } from '../../src/types/workers';
+
+jest.mock('../../src/utils/base64Stream', () => ({
+  composeBase64JsonBlob: jest.fn(),
+}));
+
+import { composeBase64JsonBlob } from '../../src/utils/base64Stream';
+
+const mockCompose = composeBase64JsonBlob as jest.MockedFunction<typeof composeBase64JsonBlob>;
+
+describe('Base64 Encoding Worker', () => {
+  let mockPostMessage: jest.Mock;
+  let originalSelf: unknown;
+
+  beforeAll(async () => {
+    originalSelf = global.self;
+    mockPostMessage = jest.fn();
+    global.self = {
+      postMessage: mockPostMessage,
+      onmessage: null,
+      onerror: null,
+      addEventListener: jest.fn(),
+    } as unknown as typeof global.self;
+
+    await import('../../src/workers/base64EncodingWorker');
+  });
+
+  beforeEach(() => {
+    mockPostMessage.mockClear();
+    mockCompose.mockReset();
+  });
+
+  afterAll(() => {
+    global.self = originalSelf as typeof global.self;
+  });
+
+  const send = (message: Base64EncodingMessage) =>
+    (global.self.onmessage as (event: MessageEvent) => Promise<void>)({ data: message } as MessageEvent);
+
+  it('sets up worker event handlers', () => {
+    expect(global.self.onmessage).toBeDefined();
+    expect(global.self.onerror).toBeDefined();
+  });
+
+  it('posts the composed body back', async () => {
+    const file = new Blob(['audio']);
+    const body = new Blob(['{"content":"YXVkaW8="}']);
+    mockCompose.mockResolvedValue(body);
+
+    await send({ type: 'encode-json-body', id: 'encode-1', data: { file, prefix: '{"content":"', suffix: '"}' } });
+
+    expect(mockCompose).toHaveBeenCalledWith(file, '{"content":"', '"}');
+    expect(mockPostMessage).toHaveBeenCalledWith({ type: 'encoding-complete', id: 'encode-1', data: body });
+  });
+
+  it('reports encoding failures', async () => {
+    mockCompose.mockRejectedValue(new Error('Read failed'));
+
+    await send({ type: 'encode-json-body', id: 'encode-2', data: { file: new Blob(['audio']), prefix: '', suffix: '' } });
+
+    expect(mockPostMessage).toHaveBeenCalledWith({ type: 'error', id: 'encode-2', error: 'Read failed' });
+  });
+
+  it('rejects messages without a file', async () => {
+    await send({ type: 'encode-json-body', id: 'encode-3' } as unknown as Base64EncodingMessage);
+
+    expect(mockPostMessage).toHaveBeenCalledWith({ type: 'error', id: 'encode-3', error: 'No file provided' });
+  });
+
+  it('rejects unknown message types', async () => {
+    await send({ type: 'unknown', id: 'encode-4' } as unknown as Base64EncodingMessage);
+
+    expect(mockPostMessage).toHaveBeenCalledWith({ type: 'error', id: 'encode-4', error: 'Unknown message type: unknown' });
+  });
+});
@@ -24,6 +24,7 @@ export default {
     '\\.(jpg|jpeg|png|gif|eot|otf|webp|svg|ttf|woff|woff2|mp4|webm|wav|mp3|m4a|aac|oga)$': 'jest-transform-stub',
     '^zustand$': '<rootDir>/__tests__/__mocks__/zustand/index.js',
     '^zustand/middleware$': '<rootDir>/__tests__/__mocks__/zustand/index.js',
+    '/lfsConfig$': '<rootDir>/__tests__/__mocks__/lfsConfig.ts',
   },
   
   // Coverage configuration
@@ -1,4 +1,4 @@
-import React from 'react';
+import React, { useEffect } from 'react';
 import AudioRecorder from './components/AudioRecorder';
 import VideoRecorder from './components/VideoRecorder';
 import FileList from './components/FileList';
@@ -7,20 +7,29 @@ import Settings from './components/Settings';
 import BottomMenu from './components/BottomMenu';
 import DesktopAlert from './components/DesktopAlert';
 import TokenSetup from './components/TokenSetup';
+import PassphrasePrompt from './components/PassphrasePrompt';
 import Modal from './components/Modal';
+import TokenExpiryNotice from './components/TokenExpiryNotice';
 import { useAuth } from './hooks/useAuth';
 import { useSettingsStore } from './stores/settingsStore';
 import { useUIStore } from './stores/uiStore';
+import { uploadQueueService } from './services/uploadQueueService';
 
 
 const App: React.FC = () => {
   // Global state management
   const { audioFormat, setAudioFormat } = useSettingsStore();
   const { currentScreen, highlightFileId, setScreen, modal, openModal, closeModal } = useUIStore();
-  const { authenticated, isLoading, setAuthenticated } = useAuth((message: string, title?: string) => 
+  const { authenticated, isLoading, setAuthenticated, locked, unlock, signOut } = useAuth((message: string, title?: string) => 
     openModal({ type: 'alert', message, title })
   );
 
+  // Resume uploads left in the queue by an earlier session
+  useEffect(() => {
+    if (authenticated) {
+      void uploadQueueService.start();
+    }
+  }, [authenticated]);
 
 
   // Show loading while checking authentication
@@ -35,6 +44,11 @@ const App: React.FC = () => {
     );
   }
 
+  // Ask for the passphrase of an encrypted token
+  if (locked) {
+    return <PassphrasePrompt onUnlock={unlock} onSignOut={signOut} />;
+  }
+
   // Show token setup screen if not authenticated
   if (!authenticated) {
     return <TokenSetup onSuccess={() => setAuthenticated(true)} />;
@@ -44,6 +58,7 @@ const App: React.FC = () => {
     <div className="min-h-screen w-full flex flex-col" style={{ background: 'linear-gradient(135deg, #e0e7ef 0%, #f7faff 100%)' }}>
       <DesktopAlert />
       <InstallPrompt />
+      <TokenExpiryNotice />
       <main className="flex-1 overflow-y-auto pb-20">
         {currentScreen === 'audio' && <AudioRecorder audioFormat={audioFormat} />}
         {currentScreen === 'video' && <VideoRecorder />}
@@ -69,6 +84,9 @@ const App: React.FC = () => {
         type={modal.type || 'alert'}
         confirmText={modal.confirmText}
         cancelText={modal.cancelText}
+        onCancel={modal.onCancel}
+        alternativeText={modal.alternativeText}
+        onAlternative={modal.onAlternative}
       />
     </div>
   );
@@ -2,9 +2,11 @@ import React, { useState } from 'react';
 import { getMediaCategories } from '../utils/appConfig';
 import { getTodayDateString, isFutureDate } from '../utils/date';
 import { parseMediaFileName } from '../utils/fileUtils';
+import { processThumbnailForUpload } from '../utils/imageUtils';
 import { validateFileSize, formatBytes, FILE_LIMITS } from '../utils/storageQuota';
 import { useFilesStore } from '../stores/filesStore';
 import Modal from './Modal';
+import GitHubImage from './GitHubImage';
 import InputField from './InputField';
 import { useUIStore } from '../stores/uiStore';
 import CloseIcon from './icons/CloseIcon';
@@ -50,14 +52,24 @@ const EditFileModal: React.FC<EditFileModalProps> = ({ file, onClose, onSave, th
       const extension = file.name.split('.').pop();
       const newName = `${formData.category}_${formData.title}_${formData.author}_${formData.date}.${extension}`;
       
+      // Uploaded files are renamed in the repository, so a new thumbnail is cropped and converted now
+      let thumbnailToSave = thumbnailFile;
+      if (file.uploaded && thumbnailFile) {
+        const { blob, filename } = await processThumbnailForUpload(thumbnailFile, newName);
+        thumbnailToSave = new File([blob], filename, { type: 'image/jpeg' });
+      }
+
       // Update the file using store method
-      await updateFileWithThumbnail(file.id, newName, thumbnailFile);
+      await updateFileWithThumbnail(file.id, newName, thumbnailToSave);
       
       openModal({ type: 'success', message: 'File metadata updated successfully!', title: 'Success' });
       onSave(file.id);
     } catch (error) {
       console.error('Error updating file:', error);
-      openModal({ type: 'error', message: 'Failed to update file metadata. Please try again.', title: 'Error' });
+      const message = file.uploaded && error instanceof Error
+        ? `Failed to rename the file in the repository: ${error.message}`
+        : 'Failed to update file metadata. Please try again.';
+      openModal({ type: 'error', message, title: 'Error' });
     }
   };
 
@@ -128,11 +140,20 @@ const EditFileModal: React.FC<EditFileModalProps> = ({ file, onClose, onSave, th
                     {thumbnailFile ? 'New thumbnail preview:' : 'Current thumbnail:'}
                   </p>
                   <div className="w-20 h-20 rounded-lg overflow-hidden bg-gray-100 border">
-                    <img
-                      src={thumbnailPreview}
-                      alt="Thumbnail preview"
-                      className="w-full h-full object-cover"
-                    />
+                    {file.uploaded && !thumbnailFile ? (
+                      // Uploaded files have a repository path rather than a displayable URL
+                      <GitHubImage
+                        filePath={thumbnailPreview}
+                        alt="Thumbnail preview"
+                        className="w-full h-full object-cover"
+                      />
+                    ) : (
+                      <img
+                        src={thumbnailPreview}
+                        alt="Thumbnail preview"
+                        className="w-full h-full object-cover"
+                      />
+                    )}
                   </div>
                 </div>
               )}
@@ -0,0 +1,190 @@
+import React, { useEffect, useState } from 'react';
+import { fetchFileHistory } from '../utils/githubUtils';
+import { restoreFileVersion } from '../utils/uploadUtils';
+import { formatDay, formatTime } from '../utils/date';
+import { useUIStore } from '../stores/uiStore';
+import GitHubImage from './GitHubImage';
+import GitHubMedia from './GitHubMedia';
+import CloseIcon from './icons/CloseIcon';
+import type { FileHistoryPanelProps, FileVersion } from '../types';
+
+type HistoryTarget = 'media' | 'thumbnail';
+
+function fileNameOf(filePath: string): string {
+  return filePath.slice(filePath.lastIndexOf('/') + 1);
+}
+
+function formatVersionDate(date: string): string {
+  const timestamp = Date.parse(date);
+  return Number.isNaN(timestamp) ? '' : `${formatDay(timestamp)}, ${formatTime(timestamp)}`;
+}
+
+const FileHistoryPanel: React.FC<FileHistoryPanelProps> = ({ file, thumbnailPath, onClose, onRestore }) => {
+  const { openModal } = useUIStore();
+  const [target, setTarget] = useState<HistoryTarget>('media');
+  const [versions, setVersions] = useState<FileVersion[]>([]);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [error, setError] = useState<string | null>(null);
+  const [previewSha, setPreviewSha] = useState<string | null>(null);
+  const [restoringSha, setRestoringSha] = useState<string | null>(null);
+
+  const filePath = target === 'media' ? file.path || file.url || '' : thumbnailPath || '';
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    setError(null);
+    setPreviewSha(null);
+    fetchFileHistory(filePath)
+      .then((history) => {
+        if (!cancelled) setVersions(history);
+      })
+      .catch((historyError) => {
+        if (cancelled) return;
+        setVersions([]);
+        setError(historyError instanceof Error ? historyError.message : 'Failed to load the file history');
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [filePath]);
+
+  const handleRestore = (version: FileVersion) => {
+    openModal({
+      type: 'confirm',
+      title: 'Restore Version',
+      message: `"${fileNameOf(filePath)}" will be replaced in the repository by the version from ${formatVersionDate(version.date)} in a new commit. Later versions stay in the history.`,
+      confirmText: 'Restore',
+      cancelText: 'Cancel',
+      onConfirm: async () => {
+        setRestoringSha(version.commitSha);
+        try {
+          await restoreFileVersion(filePath, version, target === 'media' ? file.mimeType : undefined);
+          onRestore();
+        } catch (restoreError) {
+          setRestoringSha(null);
+          openModal({
+            type: 'error',
+            title: 'Restore Failed',
+            message: restoreError instanceof Error ? restoreError.message : 'Failed to restore the earlier version',
+          });
+        }
+      }
+    });
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-60 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg p-6 max-w-md w-full max-h-[90vh] flex flex-col">
+        <div className="flex justify-between items-center mb-4">
+          <div className="min-w-0">
+            <h3 className="text-lg font-bold">Version History</h3>
+            <p className="text-xs text-gray-500 truncate">{file.name}</p>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 text-gray-400 hover:text-gray-600 hover:bg-gray-100 rounded-full transition-colors"
+            title="Close"
+          >
+            <CloseIcon width={20} height={20} />
+          </button>
+        </div>
+
+        {thumbnailPath && (
+          <div className="flex gap-2 mb-4">
+            {(['media', 'thumbnail'] as const).map((option) => (
+              <button
+                key={option}
+                onClick={() => setTarget(option)}
+                aria-pressed={target === option}
+                className={`px-3 py-1 rounded-full text-sm transition-colors ${target === option ? 'bg-purple-500 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'}`}
+              >
+                {option === 'media' ? 'Recording' : 'Thumbnail'}
+              </button>
+            ))}
+          </div>
+        )}
+
+        <div className="overflow-y-auto space-y-3">
+          {loading && (
+            <div className="flex items-center justify-center gap-2 py-8 text-sm text-gray-500">
+              <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-gray-400"></div>
+              <span>Loading history...</span>
+            </div>
+          )}
+
+          {!loading && error && (
+            <p className="text-sm text-red-600 py-4">{error}</p>
+          )}
+
+          {!loading && !error && versions.length === 0 && (
+            <p className="text-sm text-gray-500 py-4">No commits found for this file.</p>
+          )}
+
+          {!loading && versions.map((version, index) => (
+            <div key={version.commitSha} className="border border-gray-100 rounded-lg p-3">
+              <div className="flex items-start justify-between gap-3">
+                <div className="min-w-0">
+                  <p className="text-sm font-medium text-gray-900 truncate" title={version.message}>{version.message}</p>
+                  <p className="text-xs text-gray-500 mt-1">
+                    {version.author} · {formatVersionDate(version.date)} · <span className="font-mono">{version.commitSha.slice(0, 7)}</span>
+                  </p>
+                  {version.path !== filePath && (
+                    <p className="text-xs text-gray-500 mt-1 truncate" title={version.path}>as {fileNameOf(version.path)}</p>
+                  )}
+                </div>
+                <div className="flex-shrink-0 flex items-center gap-2">
+                  <button
+                    onClick={() => setPreviewSha(previewSha === version.commitSha ? null : version.commitSha)}
+                    className="px-2 py-1 rounded-md text-xs font-medium bg-purple-50 text-purple-600 hover:bg-purple-100 transition-colors"
+                  >
+                    {previewSha === version.commitSha ? 'Hide' : 'Preview'}
+                  </button>
+                  {index === 0 ? (
+                    <span className="px-2 py-1 rounded-md text-xs font-medium bg-green-100 text-green-700">Current</span>
+                  ) : (
+                    <button
+                      onClick={() => handleRestore(version)}
+                      disabled={restoringSha !== null}
+                      className="px-2 py-1 rounded-md text-xs font-medium bg-gray-100 text-gray-700 hover:bg-gray-200 transition-colors disabled:opacity-50"
+                    >
+                      {restoringSha === version.commitSha ? 'Restoring...' : 'Restore'}
+                    </button>
+                  )}
+                </div>
+              </div>
+
+              {previewSha === version.commitSha && (
+                <div className="mt-3">
+                  {/* Earlier versions are read at their own commit, under the name they had then */}
+                  {target === 'media' ? (
+                    <GitHubMedia
+                      filePath={version.path}
+                      gitRef={version.commitSha}
+                      type={file.type as 'audio' | 'video'}
+                      className={file.type === 'audio' ? 'w-full h-12 rounded-lg' : 'w-full max-h-60 rounded-lg'}
+                      fallback={<p className="text-xs text-gray-500">Unable to load this version</p>}
+                    />
+                  ) : (
+                    <GitHubImage
+                      filePath={version.path}
+                      gitRef={version.commitSha}
+                      alt={`Thumbnail from ${version.commitSha.slice(0, 7)}`}
+                      className="w-32 h-24 rounded-lg object-cover"
+                      fallback={<p className="text-xs text-gray-500">Unable to load this version</p>}
+                    />
+                  )}
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default FileHistoryPanel;
@@ -1,17 +1,22 @@
 import React, { useEffect, useState } from 'react';
 import { parseMediaFileName } from '../utils/fileUtils';
 import { formatReadableDate } from '../utils/date';
+import { formatTransfer, formatThroughput } from '../utils/transferProgress';
+import { MAX_UPLOAD_ATTEMPTS } from '../utils/uploadQueue';
 import DefaultThumbnail from './icons/DefaultThumbnail';
 import PlayIcon from './icons/PlayIcon';
 import EditIcon from './icons/EditIcon';
 import DeleteIcon from './icons/DeleteIcon';
 import UploadIcon from './icons/UploadIcon';
+import DownloadIcon from './icons/DownloadIcon';
+import HistoryIcon from './icons/HistoryIcon';
 import CheckIcon from './icons/CheckIcon';
 import AudioIcon from './icons/AudioIcon';
 import VideoIcon from './icons/VideoIcon';
 import CloseIcon from './icons/CloseIcon';
 import EditFileModal from './EditFileModal';
 import AddMediaModal from './AddMediaModal';
+import FileHistoryPanel from './FileHistoryPanel';
 import Modal from './Modal';
 import Header from './Header';
 import GitHubImage from './GitHubImage';
@@ -32,17 +37,22 @@ const FileList: React.FC<FileListProps> = ({ highlightId }) => {
     loadFilesWithThumbnails,
     refreshAllFiles,
     removeFile, 
-    setRemoteError
+    setRemoteError,
+    cachingIds,
+    makeAvailableOffline,
+    removeOfflineCopy
   } = useCombinedFiles();
   
   // Use upload manager for all upload-related business logic
-  const { uploadFile: uploadWithManagement, retryUpload } = useUploadManager();
+  const { uploadFile: uploadWithManagement, uploadSelected, retryUpload } = useUploadManager();
   const [preview, setPreview] = useState<FileRecord | null>(null);
   const [editingFile, setEditingFile] = useState<FileRecord | null>(null);
+  const [historyFile, setHistoryFile] = useState<EnhancedFileRecord | null>(null);
   const [showAddMediaModal, setShowAddMediaModal] = useState<boolean>(false);
   const [highlightedId, setHighlightedId] = useState<string | null>(highlightId || null);
   const [isRefreshing, setIsRefreshing] = useState<boolean>(false);
   const [hasInitialContent, setHasInitialContent] = useState<boolean>(false);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
 
   // Track when we have initial content to decide when to show loader
   useEffect(() => {
@@ -72,7 +82,7 @@ const FileList: React.FC<FileListProps> = ({ highlightId }) => {
       openModal({
         type: 'error',
         title: 'Repository Error',
-        message: `${remoteError}\n\nShowing local files only. Check your GitHub settings to view remote files.`,
+        message: `${remoteError}\n\nShowing local files and offline copies only. Check your GitHub settings to view remote files.`,
         confirmText: 'OK',
         onConfirm: () => {
           setRemoteError(null);
@@ -86,6 +96,67 @@ const FileList: React.FC<FileListProps> = ({ highlightId }) => {
     await removeFile(id);
   };
 
+  const handleRemoteDelete = (file: EnhancedFileRecord) => {
+    openModal({
+      type: 'confirm',
+      title: 'Delete from Repository',
+      message: `"${file.name}" and its thumbnail will be permanently removed from the GitHub repository in a new commit. This affects everyone using the repository, not just this device.`,
+      confirmText: 'Delete from GitHub',
+      cancelText: 'Cancel',
+      onConfirm: async () => {
+        try {
+          await removeFile(file.id);
+        } catch (error) {
+          openModal({
+            type: 'error',
+            title: 'Delete Failed',
+            message: error instanceof Error ? error.message : 'Failed to delete file from repository',
+          });
+        }
+      }
+    });
+  };
+
+  const handleOfflineToggle = async (file: EnhancedFileRecord) => {
+    try {
+      if (file.cached) {
+        await removeOfflineCopy(file.id);
+      } else {
+        await makeAvailableOffline(file.id);
+      }
+    } catch (error) {
+      openModal({
+        type: 'error',
+        title: file.cached ? 'Remove Failed' : 'Download Failed',
+        message: error instanceof Error ? error.message : 'Failed to download file for offline use',
+      });
+    }
+  };
+
+  const handleRestored = async (file: EnhancedFileRecord) => {
+    setHistoryFile(null);
+    try {
+      // The offline copy no longer matches the repository
+      if (file.cached) {
+        await removeOfflineCopy(file.id);
+      }
+      await loadFilesWithThumbnails();
+      openModal({
+        type: 'success',
+        title: 'Version Restored',
+        message: `The earlier version of "${file.name}" was committed to the repository.`,
+      });
+    } catch (error) {
+      console.error('Failed to refresh after restoring a version:', error);
+    }
+  };
+
+  // Repository path of a remote file's thumbnail
+  const remoteThumbnailPath = (file: FileRecord): string | undefined => {
+    const thumb = thumbnails[file.name.replace(/\.[^.]+$/, '')];
+    return thumb && !thumb.isLocal && !thumb.pullRequest ? thumb.url : undefined;
+  };
+
   const handleEdit = (file: EnhancedFileRecord) => {
     setEditingFile(file);
   };
@@ -94,6 +165,16 @@ const FileList: React.FC<FileListProps> = ({ highlightId }) => {
     await uploadWithManagement(file);
   };
 
+  const toggleSelected = (id: string) => {
+    setSelectedIds(prev => prev.includes(id) ? prev.filter(selectedId => selectedId !== id) : [...prev, id]);
+  };
+
+  const handleUploadSelected = async () => {
+    const selectedFiles = mediaFiles.filter(file => selectedIds.includes(file.id) && !file.uploaded);
+    setSelectedIds([]);
+    await uploadSelected(selectedFiles);
+  };
+
   const handleRefresh = async () => {
     setIsRefreshing(true);
     try {
@@ -134,6 +215,15 @@ const FileList: React.FC<FileListProps> = ({ highlightId }) => {
               </svg>
               {isRefreshing ? 'Refreshing...' : 'Refresh'}
             </button>
+            {selectedIds.length > 0 && (
+              <button
+                onClick={handleUploadSelected}
+                className="inline-flex items-center px-4 py-2 rounded-lg text-sm font-medium bg-white/90 backdrop-blur-sm text-purple-700 hover:bg-white hover:shadow-md transition-all shadow-sm border border-purple-200"
+              >
+                <UploadIcon className="mr-2" />
+                Upload selected ({selectedIds.length})
+              </button>
+            )}
             <button
               onClick={handleAddMedia}
               className="inline-flex items-center px-4 py-2 rounded-lg text-sm font-medium bg-purple-500/95 backdrop-blur-sm text-white hover:bg-purple-600 hover:shadow-lg transition-all shadow-md"
@@ -191,7 +281,14 @@ const FileList: React.FC<FileListProps> = ({ highlightId }) => {
                   {/* Thumbnail */}
                   <div className="flex-shrink-0">
                     <div className="w-16 h-16 rounded-lg overflow-hidden bg-gray-100 flex items-center justify-center">
-                      {thumb && ((file.isLocal && (thumb as FileRecord & {isLocal: boolean}).isLocal) || (!file.isLocal && !(thumb as FileRecord & {isLocal: boolean}).isLocal)) ? (
+                      {file.offlineThumbnailUrl ? (
+                        // Downloaded for offline playback
+                        <img
+                          src={file.offlineThumbnailUrl}
+                          alt="thumbnail"
+                          className="w-full h-full object-cover"
+                        />
+                      ) : thumb && ((file.isLocal && (thumb as FileRecord & {isLocal: boolean}).isLocal) || (!file.isLocal && !(thumb as FileRecord & {isLocal: boolean}).isLocal)) ? (
                         // For local thumbnails, use direct URL; for remote, use GitHubImage
                         file.isLocal ? (
                           <img
@@ -202,6 +299,7 @@ const FileList: React.FC<FileListProps> = ({ highlightId }) => {
                         ) : (
                           <GitHubImage
                             filePath={thumb.url || ''}
+                            gitRef={thumb.pullRequest?.branch}
                             alt="thumbnail"
                             className="w-full h-full object-cover"
                             fallback={<DefaultThumbnail className="w-8 h-8 text-gray-400" />}
@@ -253,12 +351,63 @@ const FileList: React.FC<FileListProps> = ({ highlightId }) => {
                       </>
                     )}
                     
-                    {file.uploaded && (
+                    {file.uploaded && file.pullRequest && (
+                      <a
+                        href={file.pullRequest.url}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="inline-flex items-center px-2 py-1 rounded-full bg-yellow-100 text-yellow-800 text-xs font-medium hover:bg-yellow-200 transition-colors"
+                        title={`Pull request #${file.pullRequest.number}`}
+                      >
+                        Pending review
+                      </a>
+                    )}
+                    
+                    {file.uploaded && !file.pullRequest && (
                       <div className="inline-flex items-center px-2 py-1 rounded-full bg-green-100 text-green-700 text-xs font-medium">
                         <CheckIcon width={12} height={12} className="mr-1" />
                         Uploaded
                       </div>
                     )}
+                    
+                    {!file.isLocal && !file.pullRequest && (
+                      <>
+                        <button 
+                          onClick={() => handleOfflineToggle(file)}
+                          disabled={cachingIds.includes(file.id)}
+                          className={`inline-flex items-center justify-center w-9 h-9 rounded-full transition-colors disabled:opacity-50 ${
+                            file.cached ? 'bg-blue-100 text-blue-700 hover:bg-blue-200' : 'bg-blue-50 text-blue-600 hover:bg-blue-100'
+                          }`}
+                          title={cachingIds.includes(file.id) ? 'Downloading...' : file.cached ? 'Remove offline copy' : 'Make available offline'}
+                        >
+                          <DownloadIcon width={16} height={16} className={cachingIds.includes(file.id) ? 'animate-pulse' : ''} />
+                        </button>
+                        
+                        <button 
+                          onClick={() => setHistoryFile(file)}
+                          className="inline-flex items-center justify-center w-9 h-9 rounded-full bg-gray-100 text-gray-600 hover:bg-gray-200 transition-colors"
+                          title="Version history"
+                        >
+                          <HistoryIcon width={16} height={16} />
+                        </button>
+                        
+                        <button 
+                          onClick={() => handleEdit(file)}
+                          className="inline-flex items-center justify-center w-9 h-9 rounded-full bg-green-50 text-green-600 hover:bg-green-100 transition-colors"
+                          title="Edit in repository"
+                        >
+                          <EditIcon width={16} height={16} />
+                        </button>
+                        
+                        <button 
+                          onClick={() => handleRemoteDelete(file)}
+                          className="inline-flex items-center justify-center w-9 h-9 rounded-full bg-red-50 text-red-600 hover:bg-red-100 transition-colors"
+                          title="Delete from repository"
+                        >
+                          <DeleteIcon width={16} height={16} />
+                        </button>
+                      </>
+                    )}
                   </div>
                 </div>
                 
@@ -271,6 +420,14 @@ const FileList: React.FC<FileListProps> = ({ highlightId }) => {
                     {meta.date && (
                       <span className="text-xs text-gray-500">{formatReadableDate(meta.date)}</span>
                     )}
+                    {file.folder && (
+                      <span className="text-xs text-gray-500 truncate" title={`Folder: ${file.folder}`}>{file.folder}</span>
+                    )}
+                    {file.cached && (
+                      <span className="inline-flex items-center px-2 py-1 rounded-md text-xs font-medium bg-blue-100 text-blue-800">
+                        Offline
+                      </span>
+                    )}
                   </div>
                   <div className="flex items-center gap-1">
                     {file.type === 'audio' ? (
@@ -288,7 +445,17 @@ const FileList: React.FC<FileListProps> = ({ highlightId }) => {
                 <div className="bg-gray-50 px-4 py-3 border-t border-gray-100">
                   <div className="flex items-center justify-between">
                     <div className="flex items-center gap-3">
-                      <UploadIcon className="text-gray-400" />
+                      {(upload.status === 'pending' || upload.status === 'error') ? (
+                        <input
+                          type="checkbox"
+                          checked={selectedIds.includes(file.id)}
+                          onChange={() => toggleSelected(file.id)}
+                          className="w-4 h-4 accent-purple-500"
+                          aria-label={`Select ${file.name} for upload`}
+                        />
+                      ) : (
+                        <UploadIcon className="text-gray-400" />
+                      )}
                       <span className="text-sm font-medium text-gray-700">Upload to GitHub</span>
                     </div>
                     
@@ -302,17 +469,35 @@ const FileList: React.FC<FileListProps> = ({ highlightId }) => {
                         </button>
                       )}
                       
+                      {upload.status === 'queued' && (
+                        <span className="text-xs text-gray-600 font-medium" title={upload.error}>
+                          {upload.attempts
+                            ? `Retrying (attempt ${upload.attempts + 1} of ${MAX_UPLOAD_ATTEMPTS})`
+                            : 'Queued'}
+                        </span>
+                      )}
+                      
                       {upload.status === 'uploading' && (
-                        <div className="flex items-center gap-2">
-                          <div className="w-24 bg-gray-200 rounded-full h-2">
-                            <div 
-                              className="bg-purple-500 h-2 rounded-full transition-all duration-300"
-                              style={{ width: `${upload.progress * 100}%` }}
-                            />
+                        <div className="flex flex-col items-end gap-1">
+                          <div className="flex items-center gap-2">
+                            <div className="w-24 bg-gray-200 rounded-full h-2">
+                              <div 
+                                className="bg-purple-500 h-2 rounded-full transition-all duration-300"
+                                style={{ width: `${upload.progress * 100}%` }}
+                              />
+                            </div>
+                            <span className="text-xs text-purple-600 font-medium">
+                              {Math.round(upload.progress * 100)}%
+                            </span>
                           </div>
-                          <span className="text-xs text-purple-600 font-medium">
-                            {Math.round(upload.progress * 100)}%
-                          </span>
+                          {upload.transfer && (
+                            <span
+                              className="text-xs text-gray-500"
+                              title={formatThroughput(upload.transfer.bytesPerSecond)}
+                            >
+                              {formatTransfer(upload.transfer)}
+                            </span>
+                          )}
                         </div>
                       )}
                       
@@ -387,11 +572,11 @@ const FileList: React.FC<FileListProps> = ({ highlightId }) => {
             
             {/* Media Player */}
             <div className="px-2 pt-0 pb-6">
-              {/* Use GitHubMedia for remote files, direct src for local files */}
-              {(preview as EnhancedFileRecord).isLocal ? (
+              {/* Use GitHubMedia for remote files, direct src for local files and offline copies */}
+              {(preview as EnhancedFileRecord).isLocal || (preview as EnhancedFileRecord).offlineUrl ? (
                 preview.type === 'audio' ? (
                   <audio 
-                    src={preview.url} 
+                    src={(preview as EnhancedFileRecord).offlineUrl || preview.url} 
                     controls 
                     className="w-full h-12 rounded-lg"
                     style={{
@@ -401,7 +586,7 @@ const FileList: React.FC<FileListProps> = ({ highlightId }) => {
                   />
                 ) : (
                   <video 
-                    src={preview.url} 
+                    src={(preview as EnhancedFileRecord).offlineUrl || preview.url} 
                     controls 
                     className="w-full max-h-80 rounded-lg shadow-xl"
                   />
@@ -409,6 +594,7 @@ const FileList: React.FC<FileListProps> = ({ highlightId }) => {
               ) : (
                 <GitHubMedia
                   filePath={preview.url || ''}
+                  gitRef={preview.pullRequest?.branch}
                   type={preview.type as 'audio' | 'video'}
                   className={preview.type === 'audio' ? 
                     "w-full h-12 rounded-lg" : 
@@ -441,6 +627,16 @@ const FileList: React.FC<FileListProps> = ({ highlightId }) => {
         />
       )}
 
+      {/* Version History Panel */}
+      {historyFile && (
+        <FileHistoryPanel
+          file={historyFile}
+          thumbnailPath={remoteThumbnailPath(historyFile)}
+          onClose={() => setHistoryFile(null)}
+          onRestore={() => handleRestored(historyFile)}
+        />
+      )}
+
       {/* Add Media Modal */}
       {showAddMediaModal && (
         <AddMediaModal
@@ -461,6 +657,9 @@ const FileList: React.FC<FileListProps> = ({ highlightId }) => {
         type={modal.type || 'alert'}
         confirmText={modal.confirmText}
         cancelText={modal.cancelText}
+        onCancel={modal.onCancel}
+        alternativeText={modal.alternativeText}
+        onAlternative={modal.onAlternative}
       />
     </div>
   );
@@ -6,6 +6,7 @@ interface GitHubImageProps {
   alt: string;
   className?: string;
   fallback?: React.ReactNode;
+  gitRef?: string; // Branch or commit to read from instead of the configured branch
 }
 
 /**
@@ -16,7 +17,8 @@ const GitHubImage: React.FC<GitHubImageProps> = ({
   filePath, 
   alt, 
   className = "", 
-  fallback 
+  fallback,
+  gitRef
 }) => {
   const { getUrl, isLoading } = useGitHubUrl();
   const [imageUrl, setImageUrl] = useState<string>('');
@@ -26,7 +28,7 @@ const GitHubImage: React.FC<GitHubImageProps> = ({
     const loadUrl = async () => {
       try {
         setError(false);
-        const url = await getUrl(filePath);
+        const url = await getUrl(filePath, gitRef);
         setImageUrl(url);
       } catch (err) {
         console.error('Failed to load image URL:', err);
@@ -37,9 +39,9 @@ const GitHubImage: React.FC<GitHubImageProps> = ({
     if (filePath) {
       loadUrl();
     }
-  }, [filePath, getUrl]);
+  }, [filePath, gitRef, getUrl]);
 
-  if (isLoading(filePath)) {
+  if (isLoading(filePath, gitRef)) {
     return (
       <div className={`flex items-center justify-center ${className}`} data-testid="loading-indicator">
         <div className="animate-pulse bg-gray-200 w-full h-full rounded"></div>
@@ -7,6 +7,7 @@ interface GitHubMediaProps {
   controls?: boolean;
   className?: string;
   fallback?: React.ReactNode;
+  gitRef?: string; // Branch or commit to read from instead of the configured branch
 }
 
 /**
@@ -18,7 +19,8 @@ const GitHubMedia: React.FC<GitHubMediaProps> = ({
   type,
   controls = true,
   className = "", 
-  fallback 
+  fallback,
+  gitRef
 }) => {
   const { getUrl, isLoading } = useGitHubUrl();
   const [mediaUrl, setMediaUrl] = useState<string>('');
@@ -28,7 +30,7 @@ const GitHubMedia: React.FC<GitHubMediaProps> = ({
     const loadUrl = async () => {
       try {
         setError(false);
-        const url = await getUrl(filePath);
+        const url = await getUrl(filePath, gitRef);
         setMediaUrl(url);
       } catch (err) {
         console.error('Failed to load media URL:', err);
@@ -39,9 +41,9 @@ const GitHubMedia: React.FC<GitHubMediaProps> = ({
     if (filePath) {
       loadUrl();
     }
-  }, [filePath, getUrl]);
+  }, [filePath, gitRef, getUrl]);
 
-  if (isLoading(filePath)) {
+  if (isLoading(filePath, gitRef)) {
     return (
       <div className={`flex items-center justify-center ${className}`} data-testid="loading-indicator">
         <div className="animate-pulse bg-gray-200 w-full h-full rounded flex items-center justify-center">
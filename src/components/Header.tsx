@@ -1,5 +1,6 @@
 import React from 'react';
 import type { HeaderProps } from '../types';
+import ProfileSwitcher from './ProfileSwitcher';
 
 const Header: React.FC<HeaderProps> = ({ 
   title, 
@@ -25,6 +26,7 @@ const Header: React.FC<HeaderProps> = ({
               </svg>
             </button>
           )}
+          <ProfileSwitcher />
         </div>
         
         {/* Center Section - Title */}
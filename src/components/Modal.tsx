@@ -10,6 +10,9 @@ const Modal: React.FC<ModalProps> = ({
   type = 'alert',
   confirmText = 'OK',
   cancelText = 'Cancel',
+  onCancel,
+  alternativeText,
+  onAlternative,
 }) => {
   if (!isOpen) return null;
 
@@ -21,6 +24,16 @@ const Modal: React.FC<ModalProps> = ({
   };
 
   const handleCancel = () => {
+    if (onCancel) {
+      onCancel();
+    }
+    onClose();
+  };
+
+  const handleAlternative = () => {
+    if (onAlternative) {
+      onAlternative();
+    }
     onClose();
   };
 
@@ -52,7 +65,7 @@ const Modal: React.FC<ModalProps> = ({
 
   const handleBackdropClick = (e: React.MouseEvent) => {
     if (e.target === e.currentTarget) {
-      onClose();
+      handleCancel();
     }
   };
 
@@ -100,6 +113,14 @@ const Modal: React.FC<ModalProps> = ({
               {cancelText}
             </button>
           )}
+          {type === 'confirm' && alternativeText && (
+            <button
+              onClick={handleAlternative}
+              className="px-4 py-2 text-purple-700 bg-white border border-purple-300 rounded-md hover:bg-purple-50 transition-colors focus:outline-none focus:ring-2 focus:ring-purple-500"
+            >
+              {alternativeText}
+            </button>
+          )}
           <button
             onClick={handleConfirm}
             className={`px-4 py-2 text-white rounded-md transition-colors focus:outline-none focus:ring-2 ${typeStyles.buttonColor}`}
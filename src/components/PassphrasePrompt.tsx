@@ -0,0 +1,81 @@
+import React, { useState } from 'react';
+import type { PassphrasePromptProps } from '../types';
+
+/**
+ * Asks for the passphrase that decrypts the stored GitHub token on cold start
+ */
+const PassphrasePrompt: React.FC<PassphrasePromptProps> = ({ onUnlock, onSignOut }) => {
+  const [passphrase, setPassphrase] = useState('');
+  const [isUnlocking, setIsUnlocking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [confirmSignOut, setConfirmSignOut] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!passphrase) return;
+
+    setIsUnlocking(true);
+    setError(null);
+    try {
+      if (!(await onUnlock(passphrase))) {
+        setError('Wrong passphrase. Please try again.');
+        setPassphrase('');
+      }
+    } finally {
+      setIsUnlocking(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 px-3 py-4 md:py-8">
+      <div className="w-full max-w-md mx-auto bg-white rounded-xl shadow-lg p-4 md:p-6">
+        <h1 className="text-xl md:text-2xl font-bold text-gray-900 mb-2">Unlock GitHub Token</h1>
+        <p className="text-sm text-gray-600 mb-4">
+          Your token is encrypted on this device. Enter your passphrase to continue.
+        </p>
+
+        <form onSubmit={handleSubmit} className="space-y-3">
+          <div>
+            <label htmlFor="passphrase" className="block text-sm font-medium text-gray-700 mb-1">
+              Passphrase
+            </label>
+            <input
+              type="password"
+              id="passphrase"
+              autoComplete="current-password"
+              autoFocus
+              value={passphrase}
+              onChange={(e) => setPassphrase(e.target.value)}
+              className="w-full border border-gray-300 rounded-lg px-3 py-3 focus:outline-none focus:ring-2 focus:ring-purple-500 focus:border-transparent text-base min-w-0 box-border"
+            />
+            {error && <p role="alert" className="text-sm text-red-600 mt-1">{error}</p>}
+          </div>
+
+          <button
+            type="submit"
+            disabled={isUnlocking || !passphrase}
+            className="w-full px-4 py-3 rounded-lg font-medium transition-colors text-sm md:text-base bg-purple-500 text-white hover:bg-purple-400 disabled:bg-gray-400 disabled:cursor-not-allowed"
+          >
+            {isUnlocking ? 'Unlocking...' : 'Unlock'}
+          </button>
+        </form>
+
+        <div className="mt-4 text-sm text-gray-600">
+          {confirmSignOut ? (
+            <div>
+              <p className="mb-2">Signing out removes the encrypted token. You will need to enter a GitHub token again.</p>
+              <button type="button" onClick={onSignOut} className="text-red-600 underline mr-3">Sign Out</button>
+              <button type="button" onClick={() => setConfirmSignOut(false)} className="underline">Cancel</button>
+            </div>
+          ) : (
+            <button type="button" onClick={() => setConfirmSignOut(true)} className="underline">
+              Forgot your passphrase?
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PassphrasePrompt;
@@ -0,0 +1,152 @@
+import React, { useState } from 'react';
+import InputField from './InputField';
+import { useUIStore } from '../stores/uiStore';
+import { useAuthStore } from '../stores/authStore';
+import { enableTokenPassphrase } from '../utils/tokenAuth';
+import { isTokenEncryptionSupported } from '../utils/tokenCrypto';
+
+const MIN_PASSPHRASE_LENGTH = 8;
+
+/**
+ * Enable, change or remove the passphrase that encrypts the stored GitHub token
+ */
+const PassphraseSettings: React.FC = () => {
+  const { openModal } = useUIStore();
+  const { encryptedToken, changePassphrase, removePassphrase } = useAuthStore();
+  const [currentPassphrase, setCurrentPassphrase] = useState('');
+  const [newPassphrase, setNewPassphrase] = useState('');
+  const [confirmPassphrase, setConfirmPassphrase] = useState('');
+  const [busy, setBusy] = useState(false);
+
+  const enabled = !!encryptedToken;
+
+  const alert = (title: string, message: string) => openModal({ type: 'alert', title, message });
+
+  const reset = () => {
+    setCurrentPassphrase('');
+    setNewPassphrase('');
+    setConfirmPassphrase('');
+  };
+
+  // Checks the new passphrase fields, alerting about the first problem
+  const newPassphraseValid = (): boolean => {
+    if (newPassphrase.length < MIN_PASSPHRASE_LENGTH) {
+      alert('Passphrase Too Short', `Use at least ${MIN_PASSPHRASE_LENGTH} characters.`);
+      return false;
+    }
+    if (newPassphrase !== confirmPassphrase) {
+      alert('Passphrases Differ', 'The new passphrase and its confirmation do not match.');
+      return false;
+    }
+    return true;
+  };
+
+  const run = async (action: () => Promise<void>) => {
+    setBusy(true);
+    try {
+      await action();
+    } catch (error) {
+      alert('Passphrase Not Changed', error instanceof Error ? error.message : 'The token could not be encrypted');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleEnable = () => {
+    if (!newPassphraseValid()) return;
+    void run(async () => {
+      await enableTokenPassphrase(newPassphrase);
+      reset();
+      alert('Passphrase Enabled', 'Your token is now stored encrypted. You will be asked for the passphrase when the app starts.');
+    });
+  };
+
+  const handleChange = () => {
+    if (!newPassphraseValid()) return;
+    void run(async () => {
+      if (!(await changePassphrase(currentPassphrase, newPassphrase))) {
+        alert('Wrong Passphrase', 'The current passphrase is not correct.');
+        return;
+      }
+      reset();
+      alert('Passphrase Changed', 'Your token is now encrypted with the new passphrase.');
+    });
+  };
+
+  const handleRemove = () => {
+    void run(async () => {
+      if (!(await removePassphrase(currentPassphrase))) {
+        alert('Wrong Passphrase', 'The current passphrase is not correct.');
+        return;
+      }
+      reset();
+      alert('Passphrase Removed', 'Your token is stored without encryption again.');
+    });
+  };
+
+  if (!isTokenEncryptionSupported()) return null;
+
+  return (
+    <div className="mt-4 pt-4 border-t border-gray-200">
+      <h4 className="font-medium text-gray-900 mb-1">Token Passphrase</h4>
+      <p className="text-xs text-gray-500 mb-3">
+        {enabled
+          ? 'Your token is stored encrypted and unlocked with your passphrase when the app starts.'
+          : 'Encrypt the stored token with a passphrase. It is then kept unencrypted in memory only, and queued uploads wait for the app to be open instead of syncing in the background.'}
+      </p>
+      {enabled && (
+        <InputField
+          label="Current Passphrase"
+          type="password"
+          name="currentPassphrase"
+          value={currentPassphrase}
+          onChange={(e) => setCurrentPassphrase(e.target.value)}
+        />
+      )}
+      <InputField
+        label="New Passphrase"
+        type="password"
+        name="newPassphrase"
+        value={newPassphrase}
+        onChange={(e) => setNewPassphrase(e.target.value)}
+      />
+      <InputField
+        label="Confirm New Passphrase"
+        type="password"
+        name="confirmPassphrase"
+        value={confirmPassphrase}
+        onChange={(e) => setConfirmPassphrase(e.target.value)}
+      />
+      <div className="flex gap-2 mt-2">
+        {enabled ? (
+          <>
+            <button
+              onClick={handleChange}
+              disabled={busy || !currentPassphrase || !newPassphrase}
+              className="bg-purple-500 text-white px-3 py-1 rounded text-sm hover:bg-purple-400 disabled:bg-gray-400 transition-colors"
+            >
+              Change Passphrase
+            </button>
+            <button
+              onClick={handleRemove}
+              disabled={busy || !currentPassphrase}
+              className="bg-red-600 text-white px-3 py-1 rounded text-sm hover:bg-red-700 disabled:bg-gray-400 transition-colors"
+            >
+              Remove Passphrase
+            </button>
+          </>
+        ) : (
+          <button
+            onClick={handleEnable}
+            disabled={busy || !newPassphrase}
+            className="bg-purple-500 text-white px-3 py-1 rounded text-sm hover:bg-purple-400 disabled:bg-gray-400 transition-colors"
+          >
+            Enable Passphrase
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default PassphraseSettings;
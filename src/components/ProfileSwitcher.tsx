@@ -0,0 +1,26 @@
+import React from 'react';
+import { useRepositoryProfiles } from '../hooks/useRepositoryProfiles';
+
+// Header control for switching repository profiles; hidden until there are two
+const ProfileSwitcher: React.FC = () => {
+  const { profiles, activeProfile, switchProfile } = useRepositoryProfiles();
+
+  if (profiles.length < 2 || !activeProfile) {
+    return null;
+  }
+
+  return (
+    <select
+      aria-label="Repository profile"
+      value={activeProfile.id}
+      onChange={(e) => switchProfile(e.target.value)}
+      className="max-w-[8rem] truncate text-sm text-purple-700 bg-purple-50 border border-purple-200 rounded-full px-2 py-1"
+    >
+      {profiles.map(profile => (
+        <option key={profile.id} value={profile.id}>{profile.name}</option>
+      ))}
+    </select>
+  );
+};
+
+export default ProfileSwitcher;
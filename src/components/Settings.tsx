@@ -1,35 +1,66 @@
 import React, { useState, useEffect } from 'react';
-import type { AppSettings, SettingsProps, MediaCategory } from '../types';
+import type { AppSettings, SettingsProps, MediaCategory, PodcastFeedSettings, RepositoryCheckItem } from '../types';
 import { getStoredUsername, clearTokenData } from '../utils/tokenAuth';
-import { DEFAULT_MEDIA_CATEGORIES } from '../utils/appConfig';
+import { DEFAULT_MEDIA_CATEGORIES, DEFAULT_BRANCH } from '../utils/appConfig';
+import { formatTime, formatDay } from '../utils/date';
+import { isEnterpriseHost, webBaseUrl } from '../utils/githubHost';
+import { fetchRepositoryBranches, checkRepositoryAccess, repositoryCheckTarget, isForeignPodcastFeed } from '../utils/githubUtils';
+import { createRepositoryBranch, createRepositoryFolder } from '../utils/uploadUtils';
+import { DEFAULT_FEED_PATH, podcastFeedPath } from '../utils/podcastFeed';
+import { GITHUB_LFS_URL } from '../utils/lfsConfig';
 import Modal from './Modal';
 import Header from './Header';
 import InputField from './InputField';
 import SaveButton from './SaveButton';
+import PassphraseSettings from './PassphraseSettings';
 import { useUIStore } from '../stores/uiStore';
 import { useSettingsStore } from '../stores/settingsStore';
 import { useAuthStore } from '../stores/authStore';
+import { useRateLimit } from '../hooks/useRateLimit';
+import { useRepositoryProfiles } from '../hooks/useRepositoryProfiles';
 
 const getInitialSettings = (): AppSettings => {
   // Default settings - the store will load persisted data
   return { 
     repo: '', 
+    branch: DEFAULT_BRANCH,
     path: 'media/', 
     thumbnailPath: 'thumbnails/',
     thumbnailWidth: 320,
     thumbnailHeight: 240,
-    customCategories: DEFAULT_MEDIA_CATEGORIES.slice()
+    customCategories: DEFAULT_MEDIA_CATEGORIES.slice(),
+    publishMode: 'direct',
+    mediaStorage: 'blob'
   };
 };
 
+const emptyPodcastFeed: PodcastFeedSettings = {
+  enabled: false,
+  path: DEFAULT_FEED_PATH,
+  categories: [],
+  title: '',
+  description: '',
+  ownerName: '',
+  ownerEmail: '',
+  baseUrl: '',
+};
+
 const Settings: React.FC<SettingsProps> = ({ audioFormat, setAudioFormat, onLogout }) => {
   const { modal, openModal, closeModal } = useUIStore();
-  const { appSettings, setAppSettings } = useSettingsStore();
-  const { userInfo, logout: authLogout } = useAuthStore();
+  const { appSettings, setAppSettings, repositoryCheck, setRepositoryCheck } = useSettingsStore();
+  const { userInfo, githubConfig, tokenExpiresAt, logout: authLogout } = useAuthStore();
+  const rateLimit = useRateLimit();
+  const { profiles, activeProfile, switchProfile, addProfile, renameProfile, removeProfile, pendingRecordings } = useRepositoryProfiles();
   
   const [settings, setSettings] = useState<AppSettings>(appSettings || getInitialSettings());
   const [status, setStatus] = useState<string>('');
   const [newCategoryName, setNewCategoryName] = useState<string>('');
+  const [branches, setBranches] = useState<string[]>([]);
+  const [checking, setChecking] = useState<boolean>(false);
+  const [checkError, setCheckError] = useState<string>('');
+  const [fixing, setFixing] = useState<RepositoryCheckItem['id'] | null>(null);
+  const [profileName, setProfileName] = useState<string>(activeProfile?.name || '');
+  const [newProfileName, setNewProfileName] = useState<string>('');
 
   useEffect(() => {
     if (appSettings) {
@@ -41,6 +72,38 @@ const Settings: React.FC<SettingsProps> = ({ audioFormat, setAudioFormat, onLogo
     }
   }, [appSettings, setAppSettings]);
 
+  useEffect(() => {
+    setProfileName(activeProfile?.name || '');
+  }, [activeProfile?.name]);
+
+  // Load the branch list for the repository being edited (debounced while typing)
+  useEffect(() => {
+    if (!settings.repo) {
+      setBranches([]);
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      try {
+        const names = await fetchRepositoryBranches(settings.repo);
+        if (!cancelled) setBranches(names);
+      } catch (error) {
+        console.warn('Failed to load branches:', error);
+        if (!cancelled) setBranches([]);
+      }
+    }, 500);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [settings.repo]);
+
+  const currentBranch = settings.branch || DEFAULT_BRANCH;
+  const branchOptions = [currentBranch, ...branches.filter(name => name !== currentBranch)]
+    .map(name => ({ id: name, name }));
+
   const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const { name, value, type } = e.target;
     setSettings({ 
@@ -49,10 +112,99 @@ const Settings: React.FC<SettingsProps> = ({ audioFormat, setAudioFormat, onLogo
     });
   };
 
-  const handleSave = () => {
+  const podcastFeed = settings.podcastFeed || emptyPodcastFeed;
+
+  const updatePodcastFeed = (changes: Partial<PodcastFeedSettings>) => {
+    setSettings({ ...settings, podcastFeed: { ...podcastFeed, ...changes } });
+  };
+
+  const handleFeedChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    updatePodcastFeed({ [e.target.name.replace('podcastFeed.', '')]: e.target.value });
+  };
+
+  // File names carry the category name, so the feed selects by name
+  const toggleFeedCategory = (categoryName: string) => {
+    updatePodcastFeed({
+      categories: podcastFeed.categories.includes(categoryName)
+        ? podcastFeed.categories.filter(name => name !== categoryName)
+        : [...podcastFeed.categories, categoryName]
+    });
+  };
+
+  // Only show a check that was made against the saved repository and branch
+  const checkTarget = repositoryCheckTarget();
+  const currentCheck = repositoryCheck && repositoryCheck.target === checkTarget ? repositoryCheck : null;
+
+  const runRepositoryCheck = async () => {
+    if (!repositoryCheckTarget()) return;
+    setChecking(true);
+    setCheckError('');
+    try {
+      setRepositoryCheck(await checkRepositoryAccess());
+    } catch (error) {
+      setCheckError(error instanceof Error ? error.message : 'Repository check failed');
+    } finally {
+      setChecking(false);
+    }
+  };
+
+  // Uploads leave a feed file the app did not generate alone, so such a path is refused on save
+  const feedPathInUse = async (feed: PodcastFeedSettings): Promise<boolean> => {
+    try {
+      if (!await isForeignPodcastFeed(settings)) return false;
+    } catch (error) {
+      console.warn('Could not check the podcast feed path:', error);
+      return false;
+    }
+    openModal({
+      type: 'alert',
+      title: 'Feed Path In Use',
+      message: `${podcastFeedPath(feed)} was not generated by this app and would be replaced. Choose another feed path or turn the podcast feed off.`
+    });
+    return true;
+  };
+
+  const handleSave = async () => {
+    if (settings.podcastFeed?.enabled && await feedPathInUse(settings.podcastFeed)) return;
+
+    if (activeProfile && profileName.trim() && profileName.trim() !== activeProfile.name) {
+      renameProfile(activeProfile.id, profileName.trim());
+    }
     setAppSettings(settings);
     setStatus('Settings saved!');
     setTimeout(() => setStatus(''), 2000);
+    runRepositoryCheck();
+  };
+
+  const fixLabel = (item: RepositoryCheckItem): string | null => {
+    if (item.status !== 'missing') return null;
+    if (item.id === 'branch') return currentCheck?.defaultBranch ? `Create from ${currentCheck.defaultBranch}` : null;
+    if (item.id === 'mediaFolder') return 'Create media folder';
+    if (item.id === 'thumbnailFolder') return 'Create thumbnail folder';
+    return null;
+  };
+
+  const fixRepositoryItem = async (item: RepositoryCheckItem) => {
+    if (!appSettings) return;
+    setFixing(item.id);
+    try {
+      if (item.id === 'branch' && currentCheck?.defaultBranch) {
+        await createRepositoryBranch(currentCheck.defaultBranch);
+      } else if (item.id === 'mediaFolder') {
+        await createRepositoryFolder(appSettings.path);
+      } else if (item.id === 'thumbnailFolder') {
+        await createRepositoryFolder(appSettings.thumbnailPath);
+      }
+      await runRepositoryCheck();
+    } catch (error) {
+      openModal({
+        type: 'alert',
+        title: 'Fix Failed',
+        message: error instanceof Error ? error.message : 'The repository could not be changed'
+      });
+    } finally {
+      setFixing(null);
+    }
   };
 
   const handleLogout = () => {
@@ -70,6 +222,39 @@ const Settings: React.FC<SettingsProps> = ({ audioFormat, setAudioFormat, onLogo
     });
   };
 
+  const handleAddProfile = () => {
+    if (!newProfileName.trim()) return;
+    addProfile(newProfileName.trim());
+    setNewProfileName('');
+  };
+
+  const handleRemoveProfile = async (profileId: string, name: string) => {
+    const showPending = (count: number) => openModal({
+      type: 'alert',
+      title: 'Profile Still In Use',
+      message: `The profile "${name}" has ${count === 1 ? '1 recording' : `${count} recordings`} not yet uploaded to its repository. Switch to it to upload or delete them before deleting the profile.`
+    });
+
+    const pending = await pendingRecordings(profileId);
+    if (pending > 0) {
+      showPending(pending);
+      return;
+    }
+    openModal({
+      type: 'confirm',
+      title: 'Delete Profile',
+      message: `Delete the profile "${name}"? Its repository is not changed.`,
+      confirmText: 'Delete',
+      cancelText: 'Cancel',
+      onConfirm: async () => {
+        // Recordings may have been queued for it while the dialog was open
+        if (await removeProfile(profileId)) return;
+        const stillPending = await pendingRecordings(profileId);
+        if (stillPending > 0) showPending(stillPending);
+      }
+    });
+  };
+
   const addCategory = () => {
     if (newCategoryName.trim() && settings.customCategories) {
       const newCategory: MediaCategory = {
@@ -126,6 +311,9 @@ const Settings: React.FC<SettingsProps> = ({ audioFormat, setAudioFormat, onLogo
           <div>
             <span className="text-sm text-gray-600">Logged in as:</span>
             <div className="font-semibold text-gray-900">{userInfo?.login || userInfo?.name || getStoredUsername() || 'Unknown'}</div>
+            {isEnterpriseHost(githubConfig) && (
+              <div className="text-sm text-gray-600">on {new URL(webBaseUrl(githubConfig)).host}</div>
+            )}
           </div>
           <button
             onClick={handleLogout}
@@ -134,6 +322,86 @@ const Settings: React.FC<SettingsProps> = ({ audioFormat, setAudioFormat, onLogo
             Logout
           </button>
         </div>
+        <div className="mt-3 text-sm text-gray-600">
+          {tokenExpiresAt ? `Token expires on ${formatDay(tokenExpiresAt)}` : 'Token expiry: none reported by GitHub'}
+        </div>
+        <div className="mt-1 text-sm text-gray-600">
+          {rateLimit.remaining === null
+            ? 'API budget: not checked yet'
+            : `API budget: ${rateLimit.remaining} of ${rateLimit.limit ?? '?'} requests left${rateLimit.resetAt ? `, resets at ${formatTime(rateLimit.resetAt)}` : ''}`}
+          {rateLimit.remaining === 0 && rateLimit.resetAt && rateLimit.resetAt > Date.now() && (
+            <div className="text-amber-700">Uploads and auto-refresh are paused until the budget resets.</div>
+          )}
+          {rateLimit.secondaryUntil && rateLimit.secondaryUntil > Date.now() && (
+            <div className="text-amber-700">Secondary rate limit hit: requests paused until {formatTime(rateLimit.secondaryUntil)}.</div>
+          )}
+        </div>
+        <PassphraseSettings />
+      </div>
+
+      {/* Repository Profiles */}
+      <div className="mb-6 p-4 bg-white rounded-xl shadow-lg">
+        <h3 className="text-lg font-semibold mb-4">Repository Profiles</h3>
+        {activeProfile && (
+          <div className="mb-3">
+            <InputField
+              label="Profile Name"
+              type="text"
+              name="profileName"
+              value={profileName}
+              onChange={(e) => setProfileName(e.target.value)}
+              placeholder="Podcast"
+            />
+            <span className="text-xs text-gray-500 mt-1 block">Each profile keeps its own repository, branch, paths, categories and thumbnail size</span>
+          </div>
+        )}
+        {profiles.length > 1 && (
+          <ul className="mb-3 space-y-2">
+            {profiles.map(profile => (
+              <li key={profile.id} className="flex items-center justify-between text-sm">
+                <span className={profile.id === activeProfile?.id ? 'font-semibold text-gray-900' : 'text-gray-700'}>
+                  {profile.name}{profile.settings.repo ? ` (${profile.settings.repo})` : ''}
+                </span>
+                <div className="flex gap-2">
+                  {profile.id === activeProfile?.id ? (
+                    <span className="text-xs text-purple-700">Active</span>
+                  ) : (
+                    <button
+                      onClick={() => switchProfile(profile.id)}
+                      className="text-xs text-purple-600 hover:text-purple-800 underline"
+                    >
+                      Switch
+                    </button>
+                  )}
+                  <button
+                    onClick={() => handleRemoveProfile(profile.id, profile.name)}
+                    className="text-xs text-red-600 hover:text-red-800 underline"
+                  >
+                    Delete
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+        <div className="flex gap-2">
+          <div className="flex-1">
+            <InputField
+              type="text"
+              value={newProfileName}
+              onChange={(e) => setNewProfileName(e.target.value)}
+              placeholder="New profile name"
+              className="mb-0"
+            />
+          </div>
+          <button
+            onClick={handleAddProfile}
+            disabled={!newProfileName.trim()}
+            className="px-3 py-2 bg-purple-500 text-white rounded text-sm hover:bg-purple-400 disabled:bg-gray-300 disabled:cursor-not-allowed transition-colors"
+          >
+            Add Profile
+          </button>
+        </div>
       </div>
 
       {/* Repository Settings */}
@@ -149,6 +417,33 @@ const Settings: React.FC<SettingsProps> = ({ audioFormat, setAudioFormat, onLogo
           placeholder="my-media-repo"
         />
         
+        <div>
+          <InputField
+            label="Branch"
+            type="select"
+            name="branch"
+            value={currentBranch}
+            onChange={handleChange}
+            options={branchOptions}
+          />
+          <span className="text-xs text-gray-500 mt-1 block">Branch used for uploads and the media library</span>
+        </div>
+        
+        <div>
+          <InputField
+            label="Publishing"
+            type="select"
+            name="publishMode"
+            value={settings.publishMode || 'direct'}
+            onChange={handleChange}
+            options={[
+              { id: 'direct', name: 'Commit directly to the branch' },
+              { id: 'pullRequest', name: 'Open a pull request for review' }
+            ]}
+          />
+          <span className="text-xs text-gray-500 mt-1 block">Pull requests are created on a media/&lt;filename&gt; branch and stay pending until merged</span>
+        </div>
+        
         <div>
           <InputField
             label="Media Path"
@@ -161,6 +456,25 @@ const Settings: React.FC<SettingsProps> = ({ audioFormat, setAudioFormat, onLogo
           <span className="text-xs text-gray-500 mt-1 block">Path in repository where media files will be uploaded</span>
         </div>
         
+        <div>
+          <InputField
+            label="Media Storage"
+            type="select"
+            name="mediaStorage"
+            value={GITHUB_LFS_URL ? settings.mediaStorage || 'blob' : 'blob'}
+            onChange={handleChange}
+            options={[
+              { id: 'blob', name: 'Regular Git files' },
+              ...(GITHUB_LFS_URL ? [{ id: 'lfs', name: 'Git LFS (large recordings)' }] : [])
+            ]}
+          />
+          <span className="text-xs text-gray-500 mt-1 block">
+            {GITHUB_LFS_URL
+              ? 'Git LFS keeps large recordings out of the repository history; thumbnails stay regular files'
+              : 'Git LFS needs an LFS proxy configured for this app (VITE_GITHUB_LFS_URL)'}
+          </span>
+        </div>
+        
         <div>
           <InputField
             label="Thumbnail Path"
@@ -196,8 +510,65 @@ const Settings: React.FC<SettingsProps> = ({ audioFormat, setAudioFormat, onLogo
             <span className="text-xs text-gray-500 mt-1 block">Height in pixels (50-1080)</span>
           </div>
         </div>
+
+        <div>
+          <InputField
+            label="Keep Offline"
+            type="number"
+            name="offlineAutoCacheCount"
+            value={String(settings.offlineAutoCacheCount || 0)}
+            onChange={handleChange}
+          />
+          <span className="text-xs text-gray-500 mt-1 block">Download this many of the most recent repository items for playback without a connection (0 turns it off)</span>
+        </div>
+        </div>
+      </div>
+
+      {/* Repository Check */}
+      {checkTarget && (
+      <div className="mb-6 p-4 bg-white rounded-xl shadow-lg">
+        <div className="flex items-center justify-between mb-3">
+          <h3 className="text-lg font-semibold">Repository Check</h3>
+          <button
+            onClick={runRepositoryCheck}
+            disabled={checking}
+            className="text-sm text-purple-600 hover:text-purple-800 underline disabled:text-gray-400"
+          >
+            {checking ? 'Checking...' : 'Check again'}
+          </button>
         </div>
+        {checkError && <div className="text-sm text-red-600 mb-2">{checkError}</div>}
+        {currentCheck ? (
+          <ul className="space-y-2">
+            {currentCheck.items.map(item => {
+              const fix = fixLabel(item);
+              return (
+                <li key={item.id} className="flex items-start justify-between gap-2 text-sm">
+                  <div>
+                    <span className={item.status === 'ok' ? 'text-green-600' : item.status === 'skipped' ? 'text-gray-400' : 'text-red-600'}>
+                      {item.status === 'ok' ? '✓' : item.status === 'skipped' ? '–' : '✗'}
+                    </span>{' '}
+                    <span className="text-gray-900">{item.label}</span>
+                    {item.detail && <div className="text-xs text-gray-500 ml-4">{item.detail}</div>}
+                  </div>
+                  {fix && (
+                    <button
+                      onClick={() => fixRepositoryItem(item)}
+                      disabled={fixing !== null || checking}
+                      className="shrink-0 px-2 py-1 bg-purple-500 text-white rounded text-xs hover:bg-purple-400 disabled:bg-gray-300 transition-colors"
+                    >
+                      {fixing === item.id ? 'Working...' : fix}
+                    </button>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        ) : (
+          !checking && !checkError && <div className="text-sm text-gray-600">Not checked yet. Save the settings to check the repository.</div>
+        )}
       </div>
+      )}
 
       {/* Audio Settings */}
       <div className="mb-6 p-4 bg-white rounded-xl shadow-lg">
@@ -272,6 +643,99 @@ const Settings: React.FC<SettingsProps> = ({ audioFormat, setAudioFormat, onLogo
         </button>
       </div>
 
+      {/* Podcast Feed */}
+      <div className="mb-6 p-4 bg-white rounded-xl shadow-lg">
+        <h3 className="text-lg font-semibold mb-4">Podcast Feed</h3>
+        <label className="flex items-center text-sm text-gray-700">
+          <input
+            type="checkbox"
+            name="podcastFeed.enabled"
+            checked={podcastFeed.enabled}
+            onChange={(e) => updatePodcastFeed({ enabled: e.target.checked })}
+            className="mr-2"
+          />
+          Generate a podcast feed in the repository
+        </label>
+        <span className="text-xs text-gray-500 mt-1 block">An RSS feed with iTunes tags, rewritten in the same commit whenever a recording in its categories is uploaded, edited or deleted. Episodes come from the media manifest (index.json)</span>
+
+        {podcastFeed.enabled && (
+          <div className="space-y-4 mt-4">
+            <div>
+              <span className="text-sm font-medium text-gray-700 block mb-2">Episode Categories</span>
+              <div className="flex flex-wrap gap-2">
+                {settings.customCategories?.map((category) => {
+                  const selected = podcastFeed.categories.includes(category.name);
+                  return (
+                    <button
+                      key={category.id}
+                      onClick={() => toggleFeedCategory(category.name)}
+                      aria-pressed={selected}
+                      className={`px-3 py-1 rounded-full text-sm transition-colors ${selected ? 'bg-purple-500 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'}`}
+                    >
+                      {category.name}
+                    </button>
+                  );
+                })}
+              </div>
+            </div>
+            <InputField
+              label="Feed Title"
+              type="text"
+              name="podcastFeed.title"
+              value={podcastFeed.title}
+              onChange={handleFeedChange}
+              placeholder="Weekly Team Podcast"
+            />
+            <InputField
+              label="Feed Description"
+              type="text"
+              name="podcastFeed.description"
+              value={podcastFeed.description}
+              onChange={handleFeedChange}
+              placeholder="News and interviews from the team"
+            />
+            <div className="grid grid-cols-2 gap-4">
+              <InputField
+                label="Owner Name"
+                type="text"
+                name="podcastFeed.ownerName"
+                value={podcastFeed.ownerName}
+                onChange={handleFeedChange}
+              />
+              <InputField
+                label="Owner Email"
+                type="email"
+                name="podcastFeed.ownerEmail"
+                value={podcastFeed.ownerEmail}
+                onChange={handleFeedChange}
+              />
+            </div>
+            <div>
+              <InputField
+                label="Base URL"
+                type="text"
+                name="podcastFeed.baseUrl"
+                value={podcastFeed.baseUrl}
+                onChange={handleFeedChange}
+                placeholder="https://user.github.io/repository"
+              />
+              <span className="text-xs text-gray-500 mt-1 block">Public address the repository is served from, e.g. its GitHub Pages site; episode and artwork links start with it</span>
+            </div>
+            <div>
+              <InputField
+                label="Feed Path"
+                type="text"
+                name="podcastFeed.path"
+                value={podcastFeed.path}
+                onChange={handleFeedChange}
+                placeholder={DEFAULT_FEED_PATH}
+              />
+              <span className="text-xs text-gray-500 mt-1 block">Path in repository where the feed is written. A file already there is only replaced if this app generated it</span>
+            </div>
+          </div>
+        )}
+      </div>
+
       <SaveButton
         saving={false}
         saved={status !== ''}
@@ -0,0 +1,37 @@
+import React from 'react';
+import { useAuthStore } from '../stores/authStore';
+import { useUIStore } from '../stores/uiStore';
+import { tokenExpiryWarningDays } from '../utils/tokenExpiration';
+import { formatDay } from '../utils/date';
+
+/**
+ * Warns ahead of the day GitHub stops accepting the token
+ */
+const TokenExpiryNotice: React.FC = () => {
+  const { tokenExpiresAt } = useAuthStore();
+  const { setScreen } = useUIStore();
+
+  const daysLeft = tokenExpiryWarningDays(tokenExpiresAt);
+  if (daysLeft === null || tokenExpiresAt === null) return null;
+
+  const message = daysLeft < 0
+    ? 'Your GitHub token has expired.'
+    : daysLeft === 0
+      ? 'Your GitHub token expires today.'
+      : `Your GitHub token expires in ${daysLeft} day${daysLeft === 1 ? '' : 's'}, on ${formatDay(tokenExpiresAt)}.`;
+
+  return (
+    <div role="alert" className="mx-4 mt-3 p-3 bg-amber-50 border border-amber-300 rounded-lg text-sm text-amber-800">
+      {message} Create a new token on GitHub and sign in with it again to keep uploading.
+      <button
+        type="button"
+        onClick={() => setScreen('settings')}
+        className="ml-2 underline font-medium"
+      >
+        Open Settings
+      </button>
+    </div>
+  );
+};
+
+export default TokenExpiryNotice;
@@ -1,5 +1,5 @@
-import React, { useState } from 'react';
-import type { TokenSetupProps } from '../types';
+import React, { useState, useRef, useEffect } from 'react';
+import type { TokenSetupProps, DeviceAuthorization } from '../types';
 import Modal from './Modal';
 import { useUIStore } from '../stores/uiStore';
 import { getAppIconUrl } from '../utils/imageUtils';
@@ -7,48 +7,107 @@ import { useAuthStore } from '../stores/authStore';
 import { getStandaloneStatus } from '../utils/standalone';
 import InstallPrompt from './InstallPrompt';
 import { getMobilePlatform } from '../utils/device';
+import { tokenExpirationOf } from '../utils/tokenExpiration';
+import { requestDeviceCode, pollDeviceToken } from '../utils/deviceFlow';
+import { GITHUB_OAUTH_CLIENT_ID, GITHUB_OAUTH_URL } from '../utils/oauthConfig';
+import { GITHUB_API_URL, normalizeApiBaseUrl, normalizeRawBaseUrl, webBaseUrl } from '../utils/githubHost';
 
 const TokenSetup: React.FC<TokenSetupProps> = ({ onSuccess }) => {
   const { modal, openModal, closeModal } = useUIStore();
-  const { login } = useAuthStore();
+  const { login, setTokenExpiresAt } = useAuthStore();
   const [token, setToken] = useState('');
   const [isVerifying, setIsVerifying] = useState(false);
   const [showInstructions, setShowInstructions] = useState(false);
+  const [useEnterprise, setUseEnterprise] = useState(false);
+  const [serverUrl, setServerUrl] = useState('');
+  const [rawUrl, setRawUrl] = useState('');
+  const [deviceAuthorization, setDeviceAuthorization] = useState<DeviceAuthorization | null>(null);
+  const [isSigningIn, setIsSigningIn] = useState(false);
+  const deviceFlowAbort = useRef<AbortController | null>(null);
   
   const platform = getMobilePlatform();
   const standaloneStatus = getStandaloneStatus();
   const requiresPWA = platform !== null; // Require PWA for mobile platforms
+  const enterpriseApiUrl = useEnterprise ? normalizeApiBaseUrl(serverUrl) : null;
+  const tokenSettingsUrl = `${webBaseUrl({ apiBaseUrl: enterpriseApiUrl || GITHUB_API_URL })}/settings/tokens`;
+  // The OAuth app is registered on github.com, so Enterprise Server users paste a token
+  const deviceFlowAvailable = !!GITHUB_OAUTH_CLIENT_ID && !useEnterprise;
 
-  const handleSubmit = async (e: React.FormEvent) => {
-    e.preventDefault();
-    if (!token.trim()) return;
+  // Stop polling GitHub when the screen goes away
+  useEffect(() => () => deviceFlowAbort.current?.abort(), []);
 
-    // Check if PWA installation is required
+  // Check if PWA installation is required
+  const pwaRequired = (): boolean => {
     if (requiresPWA && !standaloneStatus.isStandalone) {
       openModal({ 
         type: 'alert', 
         message: 'Please install this app as a PWA first by using the install prompt above. This ensures the best experience and offline functionality.', 
         title: 'PWA Installation Required' 
       });
-      return;
+      return true;
+    }
+    return false;
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!token.trim()) return;
+    if (pwaRequired()) return;
+
+    // Enterprise Server addresses are checked before the token is sent anywhere
+    let hostConfig: { apiBaseUrl?: string; rawBaseUrl?: string } = {};
+    if (useEnterprise) {
+      const rawBaseUrl = rawUrl.trim() ? normalizeRawBaseUrl(rawUrl) : undefined;
+      if (!enterpriseApiUrl || rawBaseUrl === null) {
+        openModal({
+          type: 'alert',
+          message: !enterpriseApiUrl
+            ? 'Enter the HTTPS address of your GitHub Enterprise Server, for example github.example.com.'
+            : 'The raw file URL must be an HTTPS address, for example https://github.example.com/raw.',
+          title: 'Invalid Server Address'
+        });
+        return;
+      }
+      hostConfig = { apiBaseUrl: enterpriseApiUrl, ...(rawBaseUrl ? { rawBaseUrl } : {}) };
     }
 
     setIsVerifying(true);
-    
+    try {
+      await verifyAndLogin(token, hostConfig);
+    } finally {
+      setIsVerifying(false);
+    }
+  };
+
+  // Check a token against the API of its server and sign in with it
+  const verifyAndLogin = async (accessToken: string, hostConfig: { apiBaseUrl?: string; rawBaseUrl?: string }) => {
+    const baseUrl = hostConfig.apiBaseUrl || GITHUB_API_URL;
+    const enterprise = !!hostConfig.apiBaseUrl;
+
     try {
       // Verify token by making a test API call
-      const response = await fetch('https://api.github.com/user', {
+      const response = await fetch(`${baseUrl}/user`, {
         headers: {
-          'Authorization': `Bearer ${token}`,
+          'Authorization': `Bearer ${accessToken}`,
           'Accept': 'application/vnd.github.v3+json',
         },
       });
 
       if (response.ok) {
         const userData = await response.json();
+        if (enterprise && typeof userData?.login !== 'string') {
+          // Something answered, but not a GitHub API
+          openModal({
+            type: 'alert',
+            message: `${new URL(baseUrl).host} did not respond like a GitHub API. Please check the server address.`,
+            title: 'Invalid Server Address'
+          });
+          return;
+        }
         
         // Store in AuthStore
-        login({ token, owner: userData.login, repo: '' }, userData);
+        login({ token: accessToken, owner: userData.login, repo: '', ...hostConfig }, userData);
+        setTokenExpiresAt(tokenExpirationOf(response));
         
         onSuccess();
       } else {
@@ -70,14 +129,53 @@ const TokenSetup: React.FC<TokenSetupProps> = ({ onSuccess }) => {
       console.error('Token verification failed:', error);
       openModal({ 
         type: 'alert', 
-        message: 'Network error. Please check your connection and try again.', 
+        message: enterprise
+          ? `Could not reach ${new URL(baseUrl).host}. Please check the server address and your connection.`
+          : 'Network error. Please check your connection and try again.', 
         title: 'Network Error' 
       });
+    }
+  };
+
+  // Sign in with the OAuth device flow: show a code, wait for the user to enter it on GitHub
+  const handleDeviceSignIn = async () => {
+    if (pwaRequired()) return;
+
+    const controller = new AbortController();
+    deviceFlowAbort.current = controller;
+    const options = { clientId: GITHUB_OAUTH_CLIENT_ID, baseUrl: GITHUB_OAUTH_URL };
+    setIsSigningIn(true);
+
+    try {
+      const authorization = await requestDeviceCode(options, controller.signal);
+      setDeviceAuthorization(authorization);
+      const accessToken = await pollDeviceToken(options, authorization, controller.signal);
+      setDeviceAuthorization(null);
+      setIsVerifying(true);
+      await verifyAndLogin(accessToken, {});
+    } catch (error) {
+      if (!controller.signal.aborted) {
+        console.error('Device sign-in failed:', error);
+        openModal({
+          type: 'alert',
+          message: error instanceof Error ? error.message : 'Sign-in with GitHub failed. Please try again.',
+          title: 'Sign-in Failed'
+        });
+      }
     } finally {
+      if (deviceFlowAbort.current === controller) {
+        deviceFlowAbort.current = null;
+      }
+      setDeviceAuthorization(null);
+      setIsSigningIn(false);
       setIsVerifying(false);
     }
   };
 
+  const cancelDeviceSignIn = () => {
+    deviceFlowAbort.current?.abort();
+  };
+
   return (
     <div className="min-h-screen bg-gray-50 px-3 py-4 md:py-8">
       <div className="w-full max-w-2xl mx-auto space-y-3 md:space-y-6">
@@ -148,7 +246,7 @@ const TokenSetup: React.FC<TokenSetupProps> = ({ onSuccess }) => {
                   <span className="flex-shrink-0 w-6 h-6 bg-purple-600 text-white rounded-full flex items-center justify-center text-xs font-bold mr-2 mt-0.5">1</span>
                   <div className="min-w-0 flex-1">
                     <p className="font-medium break-words">Go to GitHub Settings</p>
-                    <p className="break-all">Navigate to <a href="https://github.com/settings/tokens" target="_blank" rel="noopener noreferrer" className="underline hover:text-purple-600">github.com/settings/tokens</a></p>
+                    <p className="break-all">Navigate to <a href={tokenSettingsUrl} target="_blank" rel="noopener noreferrer" className="underline hover:text-purple-600">{tokenSettingsUrl.replace(/^https:\/\//, '')}</a></p>
                   </div>
                 </li>
                 <li className="flex items-start">
@@ -185,6 +283,45 @@ const TokenSetup: React.FC<TokenSetupProps> = ({ onSuccess }) => {
             </div>
           )}
 
+          {deviceFlowAvailable && (
+            <div className="mb-4">
+              {deviceAuthorization ? (
+                <div className="p-3 bg-purple-50 rounded-lg border border-purple-200 text-center">
+                  <p className="text-sm text-purple-900 mb-2">Enter this code on GitHub:</p>
+                  <p className="text-2xl font-mono font-bold tracking-widest text-purple-900 mb-2" aria-label="Sign-in code">
+                    {deviceAuthorization.userCode}
+                  </p>
+                  <a
+                    href={deviceAuthorization.verificationUri}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="inline-block bg-purple-500 text-white px-4 py-2 rounded-lg text-sm font-medium hover:bg-purple-400"
+                  >
+                    Open {deviceAuthorization.verificationUri.replace(/^https:\/\//, '')}
+                  </a>
+                  <p className="text-sm text-purple-700 mt-2">Waiting for you to authorize the app…</p>
+                  <button
+                    type="button"
+                    onClick={cancelDeviceSignIn}
+                    className="mt-1 text-sm text-purple-600 underline"
+                  >
+                    Cancel
+                  </button>
+                </div>
+              ) : (
+                <button
+                  type="button"
+                  onClick={handleDeviceSignIn}
+                  disabled={isSigningIn || isVerifying || (requiresPWA && !standaloneStatus.isStandalone)}
+                  className="w-full px-4 py-3 md:py-4 rounded-lg font-medium transition-colors text-sm md:text-base bg-gray-900 text-white hover:bg-gray-700 disabled:bg-gray-400 disabled:cursor-not-allowed"
+                >
+                  {isSigningIn ? 'Contacting GitHub...' : 'Sign in with GitHub'}
+                </button>
+              )}
+              <p className="text-center text-sm text-gray-500 mt-3">or paste a Personal Access Token</p>
+            </div>
+          )}
+
           <form onSubmit={handleSubmit} className="space-y-3">
             <div>
               <label htmlFor="token" className="block text-sm md:text-base font-medium text-gray-700 mb-1 break-words">
@@ -203,6 +340,56 @@ const TokenSetup: React.FC<TokenSetupProps> = ({ onSuccess }) => {
                 Token should start with "ghp_" and be 40 characters long
               </p>
             </div>
+
+            <label className="flex items-center text-sm md:text-base text-gray-700">
+              <input
+                type="checkbox"
+                checked={useEnterprise}
+                onChange={(e) => setUseEnterprise(e.target.checked)}
+                className="mr-2"
+              />
+              Use a GitHub Enterprise Server
+            </label>
+
+            {useEnterprise && (
+              <div className="space-y-3">
+                <div>
+                  <label htmlFor="serverUrl" className="block text-sm md:text-base font-medium text-gray-700 mb-1 break-words">
+                    Server address
+                  </label>
+                  <input
+                    type="text"
+                    inputMode="url"
+                    autoCapitalize="none"
+                    id="serverUrl"
+                    value={serverUrl}
+                    onChange={(e) => setServerUrl(e.target.value)}
+                    placeholder="https://github.example.com"
+                    className="w-full border border-gray-300 rounded-lg px-3 py-3 focus:outline-none focus:ring-2 focus:ring-purple-500 focus:border-transparent text-base min-w-0 box-border"
+                    required
+                  />
+                  <p className="text-sm text-gray-500 mt-1 break-words">
+                    {enterpriseApiUrl ? `API: ${enterpriseApiUrl}` : 'The API is expected at /api/v3 on this server'}
+                  </p>
+                </div>
+                <div>
+                  <label htmlFor="rawUrl" className="block text-sm md:text-base font-medium text-gray-700 mb-1 break-words">
+                    Raw file URL (optional)
+                  </label>
+                  <input
+                    type="url"
+                    id="rawUrl"
+                    value={rawUrl}
+                    onChange={(e) => setRawUrl(e.target.value)}
+                    placeholder="https://github.example.com/raw"
+                    className="w-full border border-gray-300 rounded-lg px-3 py-3 focus:outline-none focus:ring-2 focus:ring-purple-500 focus:border-transparent text-base min-w-0 box-border"
+                  />
+                  <p className="text-sm text-gray-500 mt-1 break-words">
+                    Only needed when raw files are served from another address, e.g. with subdomain isolation
+                  </p>
+                </div>
+              </div>
+            )}
             
             <button
               type="submit"
@@ -0,0 +1,25 @@
+import React from 'react';
+import type { DownloadIconProps } from '../../types';
+
+const DownloadIcon: React.FC<DownloadIconProps> = ({ className = '', width = 16, height = 16 }) => {
+  return (
+    <svg 
+      width={width} 
+      height={height} 
+      fill="none" 
+      viewBox="0 0 24 24" 
+      stroke="currentColor"
+      className={`flex-shrink-0 ${className}`}
+      style={{ minWidth: width, minHeight: height }}
+    >
+      <path 
+        strokeLinecap="round" 
+        strokeLinejoin="round" 
+        strokeWidth={2} 
+        d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" 
+      />
+    </svg>
+  );
+};
+
+export default DownloadIcon;
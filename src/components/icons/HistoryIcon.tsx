@@ -0,0 +1,25 @@
+import React from 'react';
+import type { HistoryIconProps } from '../../types';
+
+const HistoryIcon: React.FC<HistoryIconProps> = ({ className = '', width = 16, height = 16 }) => {
+  return (
+    <svg 
+      width={width} 
+      height={height} 
+      fill="none" 
+      viewBox="0 0 24 24" 
+      stroke="currentColor"
+      className={`flex-shrink-0 ${className}`}
+      style={{ minWidth: width, minHeight: height }}
+    >
+      <path 
+        strokeLinecap="round" 
+        strokeLinejoin="round" 
+        strokeWidth={2} 
+        d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" 
+      />
+    </svg>
+  );
+};
+
+export default HistoryIcon;
@@ -1,14 +1,21 @@
 import { useState, useEffect } from 'react';
-import { isAuthenticated, checkTokenValidity, clearTokenData } from '../utils/tokenAuth';
+import { isAuthenticated, checkTokenValidity, clearTokenData, isTokenLocked, unlockToken } from '../utils/tokenAuth';
 import { isMobile } from '../utils/device';
 import type { UseAuthReturn } from '../types';
 
 export function useAuth(showAlert?: (message: string, title: string) => void): UseAuthReturn {
   const [authenticated, setAuthenticated] = useState<boolean>(false);
   const [isLoading, setIsLoading] = useState<boolean>(true);
+  const [locked, setLocked] = useState<boolean>(() => isTokenLocked());
 
   useEffect(() => {
     const checkAuth = async () => {
+      // An encrypted token can't be checked or used before the passphrase is entered
+      if (locked) {
+        setIsLoading(false);
+        return;
+      }
+
       // Skip token validation on desktop - only show DesktopAlert
       if (!isMobile()) {
         setAuthenticated(true); // Set authenticated to true on desktop
@@ -46,11 +53,29 @@ export function useAuth(showAlert?: (message: string, title: string) => void): U
     };
 
     checkAuth();
-  }, [showAlert]);
+  }, [showAlert, locked]);
+
+  const unlock = async (passphrase: string): Promise<boolean> => {
+    const unlocked = await unlockToken(passphrase);
+    if (unlocked) {
+      // Validate the decrypted token like any other on startup
+      setIsLoading(true);
+      setLocked(false);
+    }
+    return unlocked;
+  };
+
+  const signOut = () => {
+    clearTokenData();
+    setLocked(false);
+  };
 
   return {
     authenticated,
     isLoading,
     setAuthenticated,
+    locked,
+    unlock,
+    signOut,
   };
 }
\ No newline at end of file
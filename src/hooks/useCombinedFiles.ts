@@ -14,10 +14,13 @@ export function useCombinedFiles(): UseCombinedFilesReturn {
     removeFile, 
     setUploadProgress,
     refreshFiles,
-    setRemoteError
+    setRemoteError,
+    cachingIds,
+    makeAvailableOffline,
+    removeOfflineCopy
   } = useFilesStore();
 
-  const { remoteThumbnails } = useGitStore();
+  const { remoteThumbnails, pendingPullRequests } = useGitStore();
 
   const [thumbnails, setThumbnails] = useState<Record<string, FileRecord & {isLocal: boolean}>>({});
   
@@ -100,6 +103,29 @@ export function useCombinedFiles(): UseCombinedFilesReturn {
           };
         });
         
+        // Add thumbnails that only exist on open pull request branches
+        pendingPullRequests.forEach((pr) => {
+          pr.files
+            .filter((file) => file.pathType === 'thumbnail')
+            .forEach((file) => {
+              const baseName = file.fileName.replace(/\.[^.]+$/, '');
+              if (thumbMap[baseName]) return;
+              thumbMap[baseName] = {
+                id: `pr-${pr.number}-${file.fileName}`,
+                name: file.fileName,
+                type: 'thumbnail' as const,
+                mimeType: 'image/jpeg',
+                size: 0,
+                duration: 0,
+                created: pr.created,
+                url: file.path,
+                file: undefined as unknown as Blob,
+                isLocal: false,
+                pullRequest: { number: pr.number, url: pr.url, branch: pr.branch }
+              };
+            });
+        });
+        
         setThumbnails(thumbMap);
       } catch (error) {
         console.error('Error loading thumbnails:', error);
@@ -109,7 +135,7 @@ export function useCombinedFiles(): UseCombinedFilesReturn {
     if (mediaFiles.length > 0 || !isLoading) {
       loadThumbnails();
     }
-  }, [mediaFiles, localFiles, isLoading, remoteThumbnails]);
+  }, [mediaFiles, localFiles, isLoading, remoteThumbnails, pendingPullRequests]);
 
   // Load files on mount
   useEffect(() => {
@@ -132,6 +158,11 @@ export function useCombinedFiles(): UseCombinedFilesReturn {
     setUploadProgress,
     setRemoteError,
     
+    // Offline copies of remote files
+    cachingIds,
+    makeAvailableOffline,
+    removeOfflineCopy,
+    
     // Fresh state access methods (for async operations)
     getCurrentFiles,
     getCurrentThumbnails
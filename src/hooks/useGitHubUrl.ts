@@ -12,46 +12,49 @@ export function useGitHubUrl() {
   // Cache duration: 4 minutes (tokens expire after 5 minutes)
   const CACHE_DURATION = 4 * 60 * 1000;
 
-  const getUrl = useCallback(async (filePath: string): Promise<string> => {
+  const getUrl = useCallback(async (filePath: string, ref?: string): Promise<string> => {
+    // The same path can exist on several branches, so the branch is part of the key
+    const cacheKey = ref ? `${ref}:${filePath}` : filePath;
+
     // Check cache first
-    const cached = urlCache[filePath];
+    const cached = urlCache[cacheKey];
     if (cached && (Date.now() - cached.timestamp) < CACHE_DURATION) {
       return cached.url;
     }
 
     // Check if already loading
-    if (loading[filePath]) {
+    if (loading[cacheKey]) {
       // Wait for existing request to complete
       return new Promise((resolve) => {
         const checkInterval = setInterval(() => {
-          if (!loading[filePath]) {
+          if (!loading[cacheKey]) {
             clearInterval(checkInterval);
-            const cachedAfterWait = urlCache[filePath];
+            const cachedAfterWait = urlCache[cacheKey];
             resolve(cachedAfterWait?.url || filePath);
           }
         }, 100);
       });
     }
 
-    setLoading(prev => ({ ...prev, [filePath]: true }));
+    setLoading(prev => ({ ...prev, [cacheKey]: true }));
 
     try {
-      const freshUrl = await generateFreshDownloadUrl(filePath);
+      const freshUrl = await generateFreshDownloadUrl(filePath, ref);
       
       // Update cache
       setUrlCache(prev => ({
         ...prev,
-        [filePath]: {
+        [cacheKey]: {
           url: freshUrl,
           timestamp: Date.now()
         }
       }));
 
-      setLoading(prev => ({ ...prev, [filePath]: false }));
+      setLoading(prev => ({ ...prev, [cacheKey]: false }));
       return freshUrl;
     } catch (error) {
       console.error('Failed to generate fresh URL for:', filePath, error);
-      setLoading(prev => ({ ...prev, [filePath]: false }));
+      setLoading(prev => ({ ...prev, [cacheKey]: false }));
       
       // Return the original path as fallback
       return filePath;
@@ -65,6 +68,6 @@ export function useGitHubUrl() {
   return {
     getUrl,
     clearCache,
-    isLoading: (filePath: string) => loading[filePath] || false
+    isLoading: (filePath: string, ref?: string) => loading[ref ? `${ref}:${filePath}` : filePath] || false
   };
 }
\ No newline at end of file
@@ -0,0 +1,11 @@
+import { useSyncExternalStore } from 'react';
+import { getRateLimitStatus, subscribeRateLimit } from '../utils/rateLimit';
+import type { RateLimitStatus } from '../types';
+
+/**
+ * Custom hook for the GitHub API quota as last reported by GitHub
+ * Re-renders whenever a response updates the rate limit tracker
+ */
+export function useRateLimit(): RateLimitStatus {
+  return useSyncExternalStore(subscribeRateLimit, getRateLimitStatus);
+}
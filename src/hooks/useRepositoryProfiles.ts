@@ -0,0 +1,79 @@
+import { useCallback } from 'react';
+import { useSettingsStore } from '../stores/settingsStore';
+import { useGitStore } from '../stores/gitStore';
+import { useFilesStore } from '../stores/filesStore';
+import { listUploadJobs } from '../utils/uploadQueue';
+import type { UseRepositoryProfilesReturn } from '../types';
+
+/**
+ * Custom hook for named repository profiles
+ * Switching puts the library's cached listing away under the old profile and
+ * brings out the new profile's, so going back and forth does not list again.
+ * Profiles with recordings still waiting to be uploaded cannot be removed.
+ */
+export function useRepositoryProfiles(): UseRepositoryProfilesReturn {
+  const { profiles, activeProfileId } = useSettingsStore();
+  const profileList = profiles ?? [];
+
+  const switchProfile = useCallback((profileId: string) => {
+    const settings = useSettingsStore.getState();
+    if (profileId === settings.activeProfileId || !settings.profiles.some(profile => profile.id === profileId)) {
+      return;
+    }
+
+    useGitStore.getState().switchProfileCache(settings.activeProfileId, profileId);
+    settings.switchProfile(profileId);
+    void useFilesStore.getState().loadFiles();
+  }, []);
+
+  // New profiles become active right away so their repository can be filled in
+  const addProfile = useCallback((name: string) => {
+    const profileId = useSettingsStore.getState().addProfile(name);
+    switchProfile(profileId);
+    return profileId;
+  }, [switchProfile]);
+
+  const renameProfile = useCallback((profileId: string, name: string) => {
+    useSettingsStore.getState().renameProfile(profileId, name);
+  }, []);
+
+  // Local recordings made for the profile and files queued for its repository
+  const pendingRecordings = useCallback(async (profileId: string) => {
+    const localIds = useFilesStore.getState().localFiles
+      .filter(file => file.profileId === profileId)
+      .map(file => file.id);
+    const queuedIds = (await listUploadJobs())
+      .filter(job => job.profileId === profileId)
+      .map(job => job.fileId);
+    return new Set([...localIds, ...queuedIds]).size;
+  }, []);
+
+  // Removing the active profile switches to another one first; the last profile stays.
+  // Resolves false when the profile was kept, as its recordings would be stranded.
+  const removeProfile = useCallback(async (profileId: string) => {
+    if (await pendingRecordings(profileId) > 0) {
+      return false;
+    }
+
+    const settings = useSettingsStore.getState();
+    if (profileId === settings.activeProfileId) {
+      const next = settings.profiles.find(profile => profile.id !== profileId);
+      if (!next) return false;
+      switchProfile(next.id);
+    }
+
+    useSettingsStore.getState().removeProfile(profileId);
+    useGitStore.getState().forgetProfileCache(profileId);
+    return true;
+  }, [pendingRecordings, switchProfile]);
+
+  return {
+    profiles: profileList,
+    activeProfile: profileList.find(profile => profile.id === activeProfileId) ?? null,
+    switchProfile,
+    addProfile,
+    renameProfile,
+    removeProfile,
+    pendingRecordings
+  };
+}
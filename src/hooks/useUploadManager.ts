@@ -1,25 +1,41 @@
 import { useRef, useEffect, useCallback } from 'react';
-import { uploadFile, uploadThumbnail } from '../utils/uploadUtils';
 import { processThumbnailForUpload } from '../utils/imageUtils';
+import { uploadQueueService } from '../services/uploadQueueService';
+import { checkRepositoryAccess, fetchRepositoryPaths, repositoryCheckTarget } from '../utils/githubUtils';
+import { findNameCollisions, keepBothNames, type UploadFolders } from '../utils/nameCollisions';
 import { useCombinedFiles } from './useCombinedFiles';
+import { useSettingsStore } from '../stores/settingsStore';
 import { useGitStore } from '../stores/gitStore';
 import { useUIStore } from '../stores/uiStore';
-import type { EnhancedFileRecord, FileRecord, UseUploadManagerReturn } from '../types';
+import type { AppSettings, EnhancedFileRecord, FileRecord, NewUploadJob, RemoteListingCache, UseUploadManagerReturn } from '../types';
+
+function uploadFolders(settings: AppSettings): UploadFolders {
+  return {
+    path: settings.path.endsWith('/') ? settings.path : `${settings.path}/`,
+    thumbnailPath: settings.thumbnailPath.endsWith('/') ? settings.thumbnailPath : `${settings.thumbnailPath}/`,
+  };
+}
+
+function listingPaths(listing: Pick<RemoteListingCache, 'remoteFiles' | 'remoteThumbnails'>): Set<string> {
+  return new Set([
+    ...listing.remoteFiles.map(file => file.path || file.url || ''),
+    ...Object.values(listing.remoteThumbnails).map(thumbnail => thumbnail.url),
+  ]);
+}
 
 /**
- * Custom hook for managing file upload operations with clean business logic separation
- * Handles the complete upload lifecycle including retry logic and state management
+ * Custom hook for starting uploads from the UI
+ * Uploads go through the persistent upload queue, which handles ordering,
+ * retries with backoff, cleanup of local copies and refreshing the library
  */
 export function useUploadManager(): UseUploadManagerReturn {
   const { openModal } = useUIStore();
-  const { invalidateCache } = useGitStore();
-  const { 
+  const { appSettings, activeProfileId, profiles, repositoryCheck, setRepositoryCheck } = useSettingsStore();
+  const publishMode = appSettings?.publishMode || 'direct';
+  const {
     files,
     thumbnails,
-    removeFile, 
-    setUploadProgress,
-    forceRefreshFiles,
-    loadFilesWithThumbnails
+    setUploadProgress
   } = useCombinedFiles();
 
   // Use refs to avoid stale closure issues in async operations
@@ -46,152 +62,211 @@ export function useUploadManager(): UseUploadManagerReturn {
   const getCurrentThumbnails = useCallback(() => thumbnailsRef.current, []);
 
   /**
-   * Check if uploaded file appears in the current file list
+   * Build the queue job for a file, with its thumbnail cropped and converted for upload
    */
-  const checkForUploadedFile = useCallback((fileName: string) => {
-    const currentFiles = getCurrentFiles();
-    return currentFiles.filter(f => 
-      f.name === fileName && !f.isLocal && f.uploaded
-    );
-  }, [getCurrentFiles]);
+  const prepareJob = useCallback(async (file: EnhancedFileRecord): Promise<NewUploadJob> => {
+    const job: NewUploadJob = { fileId: file.id, fileName: file.name, file: file.file, duration: file.duration };
+    // Recordings upload to the profile they were made for, even after switching
+    const profileId = file.profileId ?? activeProfileId;
+    if (profileId) {
+      job.profileId = profileId;
+    }
+
+    const baseName = file.name.replace(/\.[^.]+$/, '');
+    const thumbnail = getCurrentThumbnails()[baseName];
+    if (thumbnail && thumbnail.file) {
+      try {
+        const { blob, filename } = await processThumbnailForUpload(thumbnail.file, file.name);
+        job.thumbnail = { file: blob, fileName: filename };
+      } catch (error) {
+        console.error('Error processing thumbnail:', error);
+        // Continue without thumbnail if processing fails
+      }
+    }
+
+    return job;
+  }, [activeProfileId, getCurrentThumbnails]);
+
+  // Recordings made under another profile are checked against that profile's repository
+  const isActiveProfile = useCallback((profileId?: string): boolean => {
+    return !profileId || profileId === activeProfileId;
+  }, [activeProfileId]);
 
   /**
-   * Perform file refresh with retry logic
+   * Check each repository before the first upload to it, so a missing push
+   * permission or branch is reported once instead of failing every job.
+   * Only the active profile's check is kept for Settings.
    */
-  const refreshWithRetry = useCallback(async (fileName: string, maxAttempts: number = 3) => {
-    let refreshAttempts = 0;
-    
-    const attemptRefresh = async (): Promise<void> => {
-      refreshAttempts++;
-      
+  const repositoryReady = useCallback(async (profileIds: Array<string | undefined>): Promise<boolean> => {
+    for (const profileId of new Set(profileIds)) {
+      const active = isActiveProfile(profileId);
+      const target = repositoryCheckTarget(profileId);
+      if (!target || (active && repositoryCheck?.target === target && repositoryCheck.canUpload)) {
+        continue;
+      }
+
+      let check;
       try {
-        // Invalidate git store cache to force fresh fetch
-        invalidateCache();
-        
-        // Force a complete refresh with guaranteed re-render
-        await forceRefreshFiles();
-        
-        // Also force load files again to ensure state is updated
-        await loadFilesWithThumbnails();
-        
-        // Check if the uploaded file appears in the list after a short delay
-        setTimeout(() => {
-          const uploadedFiles = checkForUploadedFile(fileName);
-          
-          if (uploadedFiles.length === 0 && refreshAttempts < maxAttempts) {
-            setTimeout(attemptRefresh, 3000); // Increased wait time
-          }
-        }, 1500); // Increased delay for GitHub processing
-      } catch (refreshError) {
-        console.error('Failed to refresh files:', refreshError);
-        if (refreshAttempts < maxAttempts) {
-          setTimeout(attemptRefresh, 3000);
-        }
+        check = await checkRepositoryAccess(profileId);
+      } catch (error) {
+        // Offline or rate limited: leave it to the queue, which retries
+        console.warn('Repository check failed:', error);
+        continue;
+      }
+      if (active) {
+        setRepositoryCheck(check);
+      }
+      if (check.canUpload) {
+        continue;
       }
-    };
-    
-    await attemptRefresh();
-  }, [invalidateCache, forceRefreshFiles, loadFilesWithThumbnails, checkForUploadedFile]);
+
+      const problems = check.items
+        .filter(item => item.status === 'failed' || item.status === 'missing')
+        .filter(item => item.id === 'repository' || item.id === 'push' || item.id === 'branch')
+        .map(item => `${item.label}: ${item.detail || 'missing'}`);
+      const profileName = profiles?.find(profile => profile.id === profileId)?.name;
+      openModal({
+        type: 'alert',
+        title: 'Repository Not Ready',
+        message: active
+          ? `${problems.join('. ')}. Open Settings to review the repository check.`
+          : `${problems.join('. ')}. Switch to the "${profileName || check.target}" profile in Settings to review the repository check.`
+      });
+      return false;
+    }
+    return true;
+  }, [isActiveProfile, openModal, profiles, repositoryCheck, setRepositoryCheck]);
 
   /**
-   * Clean up local files after successful upload
+   * Paths already in the repository of a profile. The active profile's listing is
+   * brought up to date; offline, the cached one is the best guess.
    */
-  const cleanupAfterUpload = useCallback(async (file: EnhancedFileRecord) => {
-    try {
-      // Remove the main media file from IndexedDB
-      await removeFile(file.id);
-      
-      // Also remove the local thumbnail if it exists
-      const baseName = file.name.replace(/\.[^.]+$/, '');
-      const currentThumbnails = getCurrentThumbnails();
-      const thumbnail = currentThumbnails[baseName];
-      
-      if (thumbnail && thumbnail.isLocal) {
-        try {
-          await removeFile(thumbnail.id);
-        } catch (thumbError) {
-          console.error('Failed to clean up local thumbnail:', thumbError);
-        }
+  const existingPathsOf = useCallback(async (profileId?: string): Promise<Set<string>> => {
+    if (isActiveProfile(profileId)) {
+      try {
+        await useGitStore.getState().fetchRemoteFiles();
+      } catch (error) {
+        console.warn('Could not refresh the repository listing before uploading:', error);
       }
+      return listingPaths(useGitStore.getState());
+    }
+
+    try {
+      return await fetchRepositoryPaths(profileId);
     } catch (error) {
-      console.error('Failed to clean up local file after upload:', error);
+      console.warn('Could not list the repository of the profile before uploading:', error);
+      const cached = useGitStore.getState().profileCaches?.[profileId as string];
+      return cached ? listingPaths(cached) : new Set();
+    }
+  }, [isActiveProfile]);
+
+  /**
+   * Check the jobs against the listing of the repository each one goes to and let the user
+   * choose what happens to files that already exist: overwrite them, keep both under
+   * numbered names, or cancel
+   * @returns The jobs to queue, or null when the upload was cancelled
+   */
+  const resolveNameCollisions = useCallback(async (jobs: NewUploadJob[]): Promise<NewUploadJob[] | null> => {
+    const collisions: NewUploadJob[] = [];
+    const renamed = [...jobs];
+
+    for (const profileId of new Set(jobs.map(job => job.profileId))) {
+      const settings = isActiveProfile(profileId)
+        ? appSettings
+        : profiles?.find(profile => profile.id === profileId)?.settings;
+      if (!settings) {
+        continue;
+      }
+
+      const indexes = jobs.flatMap((job, index) => job.profileId === profileId ? [index] : []);
+      const group = indexes.map(index => jobs[index]);
+      const existingPaths = await existingPathsOf(profileId);
+      const folders = uploadFolders(settings);
+
+      collisions.push(...findNameCollisions(group, existingPaths, folders));
+      keepBothNames(group, existingPaths, folders).forEach((job, position) => {
+        renamed[indexes[position]] = job;
+      });
+    }
+
+    if (collisions.length === 0) {
+      return jobs;
     }
-  }, [removeFile, getCurrentThumbnails]);
+
+    const message = collisions.length === 1
+      ? `"${collisions[0].fileName}" already exists in the repository. Overwrite it, or keep both by uploading this recording as "${renamed[jobs.indexOf(collisions[0])].fileName}"?`
+      : `These files already exist in the repository:\n${collisions.map(job => `- ${job.fileName}`).join('\n')}\n\nOverwrite them, or keep both by numbering the new recordings?`;
+
+    return new Promise(resolve => {
+      openModal({
+        type: 'confirm',
+        title: collisions.length === 1 ? 'File Already Exists' : 'Files Already Exist',
+        message: `${message}\nThumbnails are handled the same way.`,
+        confirmText: 'Overwrite',
+        alternativeText: 'Keep both',
+        cancelText: 'Cancel',
+        onConfirm: () => resolve(jobs),
+        onAlternative: () => resolve(renamed),
+        onCancel: () => resolve(null),
+      });
+    });
+  }, [appSettings, existingPathsOf, isActiveProfile, openModal, profiles]);
 
   /**
-   * Upload file with complete lifecycle management
+   * Queue files for upload. Files queued together are committed together,
+   * or put on a single pull request branch when pull request publishing is on.
    */
-  const uploadWithManagement = useCallback(async (file: EnhancedFileRecord): Promise<void> => {
-    if (!file.file) {
+  const queueUploads = useCallback(async (selectedFiles: EnhancedFileRecord[]): Promise<void> => {
+    const uploadable = selectedFiles.filter(file => file.file);
+    if (uploadable.length === 0) {
       openModal({ type: 'alert', message: 'File data not available for upload.', title: 'Upload Error' });
       return;
     }
-
-    setUploadProgress(file.id, { status: 'uploading', progress: 0 });
+    if (!await repositoryReady(uploadable.map(file => file.profileId ?? activeProfileId ?? undefined))) {
+      return;
+    }
 
     try {
-      // Upload the main media file
-      await uploadFile(file.file, (progress) => {
-        setUploadProgress(file.id, { status: 'uploading', progress: progress * 0.7 }); // 70% for main file
-      }, file.name);
-
-      // Check if there's a thumbnail to upload
-      const baseName = file.name.replace(/\.[^.]+$/, '');
-      const currentThumbnails = getCurrentThumbnails();
-      const thumbnail = currentThumbnails[baseName];
-      
-      if (thumbnail && thumbnail.file) {
-        try {
-          // Process thumbnail: crop, scale, convert to JPG
-          const mediaFileName = file.name;
-          const { blob: processedThumbnail, filename: processedFilename } = await processThumbnailForUpload(
-            thumbnail.file,
-            mediaFileName
-          );
-          
-          await uploadThumbnail(processedThumbnail, (progress) => {
-            setUploadProgress(file.id, { status: 'uploading', progress: 0.7 + (progress * 0.3) }); // 30% for thumbnail
-          }, processedFilename);
-        } catch (error) {
-          console.error('Error processing thumbnail:', error);
-          // Continue without thumbnail if processing fails
-        }
+      const jobs: NewUploadJob[] = [];
+      for (const file of uploadable) {
+        jobs.push(await prepareJob(file));
       }
-
-      setUploadProgress(file.id, { status: 'success', progress: 1 });
-      
-      // Wait longer for GitHub to process the upload, then cleanup and refresh
-      setTimeout(async () => {
-        await cleanupAfterUpload(file);
-        await refreshWithRetry(file.name);
-      }, 4000); // Further increased delay for GitHub processing
-
+      const resolved = await resolveNameCollisions(jobs);
+      if (!resolved) {
+        return;
+      }
+      await uploadQueueService.enqueue(resolved, publishMode);
     } catch (error: unknown) {
-      setUploadProgress(file.id, { 
-        status: 'error', 
-        progress: 0, 
-        error: error instanceof Error ? error.message : 'Upload failed' 
-      });
+      uploadable.forEach(file => setUploadProgress(file.id, {
+        status: 'error',
+        progress: 0,
+        error: error instanceof Error ? error.message : 'Upload failed'
+      }));
     }
-  }, [
-    openModal,
-    setUploadProgress,
-    getCurrentThumbnails,
-    cleanupAfterUpload,
-    refreshWithRetry
-  ]);
+  }, [activeProfileId, openModal, publishMode, prepareJob, repositoryReady, resolveNameCollisions, setUploadProgress]);
+
+  /**
+   * Upload a single file with its thumbnail
+   */
+  const uploadWithManagement = useCallback((file: EnhancedFileRecord): Promise<void> => {
+    return queueUploads([file]);
+  }, [queueUploads]);
 
   /**
-   * Retry upload for failed files
+   * Retry upload for failed files, reusing the queued job when there is one
    */
-  const retryUpload = useCallback((file: EnhancedFileRecord) => {
-    return uploadWithManagement(file);
-  }, [uploadWithManagement]);
+  const retryUpload = useCallback(async (file: EnhancedFileRecord): Promise<void> => {
+    const retried = await uploadQueueService.retry(file.id);
+    if (!retried) {
+      await queueUploads([file]);
+    }
+  }, [queueUploads]);
 
   return {
     uploadFile: uploadWithManagement,
+    uploadSelected: queueUploads,
     retryUpload,
     getCurrentFiles,
     getCurrentThumbnails
   };
-}
\ No newline at end of file
+}
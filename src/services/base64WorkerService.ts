@@ -0,0 +1,93 @@
+// Global Base64 Worker Service
+// Builds base64 JSON upload bodies in a Web Worker for browsers without streaming request bodies
+
+import type {
+  Base64EncodingMessage,
+  Base64EncodingResponse
+} from '../types/workers';
+import type { Base64EncodingCallback } from '../types/services';
+import { composeBase64JsonBlob } from '../utils/base64Stream';
+
+class Base64WorkerService {
+  private worker: Worker | null = null;
+  private pendingEncodings = new Map<string, Base64EncodingCallback>();
+
+  // Initialize the worker (singleton pattern)
+  private initializeWorker(): void {
+    if (this.worker || typeof Worker === 'undefined') return;
+
+    this.worker = new Worker(
+      new URL('../workers/base64EncodingWorker.ts', import.meta.url),
+      { type: 'module' }
+    );
+
+    this.worker.onmessage = (event: MessageEvent<Base64EncodingResponse>) => {
+      this.handleWorkerMessage(event.data);
+    };
+
+    this.worker.onerror = (error) => {
+      console.error('Base64 Worker Service error:', error);
+      // Reject all pending encodings and let the next call start a fresh worker
+      this.pendingEncodings.forEach(({ reject }) => {
+        reject(new Error('Base64 worker failed'));
+      });
+      this.pendingEncodings.clear();
+      this.worker?.terminate();
+      this.worker = null;
+    };
+  }
+
+  private handleWorkerMessage(message: Base64EncodingResponse): void {
+    const { type, id, data, error } = message;
+
+    const callback = this.pendingEncodings.get(id);
+    if (!callback) return;
+    this.pendingEncodings.delete(id);
+
+    if (type === 'encoding-complete' && data) {
+      callback.resolve(data);
+    } else {
+      callback.reject(new Error(error || 'Unknown encoding error'));
+    }
+  }
+
+  // Encode a file into a `${prefix}<base64>${suffix}` Blob (public API)
+  async encodeJsonBody(file: Blob, prefix: string, suffix: string): Promise<Blob> {
+    this.initializeWorker();
+
+    if (!this.worker) {
+      // No worker support: encode chunk by chunk on the main thread instead
+      return composeBase64JsonBlob(file, prefix, suffix);
+    }
+
+    const id = `encode-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+
+    return new Promise((resolve, reject) => {
+      this.pendingEncodings.set(id, { resolve, reject });
+
+      const message: Base64EncodingMessage = {
+        type: 'encode-json-body',
+        id,
+        data: { file, prefix, suffix }
+      };
+
+      this.worker!.postMessage(message);
+    });
+  }
+
+  // Cleanup (only call on app shutdown)
+  destroy(): void {
+    if (this.worker) {
+      this.worker.terminate();
+      this.worker = null;
+    }
+
+    this.pendingEncodings.forEach(({ reject }) => {
+      reject(new Error('Service destroyed'));
+    });
+    this.pendingEncodings.clear();
+  }
+}
+
+// Export singleton instance
+export const base64WorkerService = new Base64WorkerService();
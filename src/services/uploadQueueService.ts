@@ -0,0 +1,334 @@
+// Global Upload Queue Service
+// Works through the persistent upload queue in order, retries failed jobs with backoff,
+// and resumes queued uploads when the app starts or connectivity returns.
+// While offline it hands the queue to the service worker through Background Sync, and
+// cleans up after the uploads the worker committed, on its message or on the next start.
+// While GitHub's rate limit is exhausted the queue waits for the reset instead of failing jobs.
+
+import type { CompletedUpload, GitHubConfig, NewUploadJob, PublishMode, UploadJob, UploadProgress, UploadTransfer } from '../types';
+import type { UploadSyncMessage } from '../types/workers';
+import {
+  enqueueUploadJobs,
+  listUploadJobs,
+  updateUploadJobs,
+  removeUploadJobs,
+  recordUploadFailure,
+  takeCompletedUploads,
+  uploadJobItems,
+  withUploadQueueLock
+} from '../utils/uploadQueue';
+import { registerUploadSync } from '../utils/backgroundSync';
+import { getUploadConfig, uploadFilesBatch, uploadFilesAsPullRequest } from '../utils/uploadUtils';
+import { rateLimitWait, rateLimitMessage } from '../utils/rateLimit';
+import { isPassphraseEnabled } from '../utils/tokenAuth';
+import { useFilesStore } from '../stores/filesStore';
+import { useGitStore } from '../stores/gitStore';
+import { useSettingsStore } from '../stores/settingsStore';
+
+// Give GitHub time to serve the new commit before refreshing the library
+const REFRESH_DELAY = 4000;
+const REFRESH_RETRY_DELAY = 3000;
+const MAX_REFRESH_ATTEMPTS = 3;
+
+function jobProgress(job: UploadJob): UploadProgress {
+  if (job.status === 'failed') {
+    return { status: 'error', progress: 0, error: job.lastError || 'Upload failed' };
+  }
+  return { status: 'queued', progress: 0, attempts: job.attempts, error: job.lastError };
+}
+
+class UploadQueueService {
+  private started = false;
+  private processing: Promise<void> | null = null;
+  private processAgain = false;
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+
+  private handleOnline = () => {
+    void this.process();
+  };
+
+  // Uploads the service worker finished in the background
+  private handleWorkerMessage = (event: MessageEvent<UploadSyncMessage>) => {
+    const message = event.data;
+    if (message?.type === 'upload-complete') {
+      const uploaded = message.fileIds.map((fileId, index) => ({
+        fileId,
+        fileName: message.fileNames[index],
+        profileId: message.profileId,
+      }));
+      void this.finishBackgroundUploads(uploaded);
+    } else if (message?.type === 'upload-failed') {
+      void this.restoreProgress();
+    }
+  };
+
+  // Show queued uploads again and resume them (call once on app start)
+  async start(): Promise<void> {
+    if (this.started) return;
+    this.started = true;
+    window.addEventListener('online', this.handleOnline);
+    navigator.serviceWorker?.addEventListener('message', this.handleWorkerMessage);
+
+    await this.restoreProgress();
+    await this.finishBackgroundUploads();
+    await this.process();
+  }
+
+  // Uploads the service worker committed stay recorded in the queue until handled here,
+  // so recordings uploaded with no window open are cleaned up on the next start.
+  // Without a list, every recorded upload is handled.
+  private async finishBackgroundUploads(uploaded?: CompletedUpload[]): Promise<void> {
+    let pending: CompletedUpload[];
+    try {
+      const taken = await takeCompletedUploads(uploaded?.map(upload => upload.fileId));
+      // Uploads already handled elsewhere are no longer recorded
+      pending = uploaded ? uploaded.filter(upload => taken.some(record => record.fileId === upload.fileId)) : taken;
+    } catch (error) {
+      console.error('Failed to read completed uploads:', error);
+      pending = uploaded || [];
+    }
+    if (pending.length === 0) return;
+
+    const { setUploadProgress } = useFilesStore.getState();
+    pending.forEach(upload => setUploadProgress(upload.fileId, { status: 'success', progress: 1 }));
+
+    const profileIds = [...new Set(pending.map(upload => upload.profileId))];
+    setTimeout(() => {
+      void (async () => {
+        for (const profileId of profileIds) {
+          await this.finishUpload(pending.filter(upload => upload.profileId === profileId));
+        }
+      })();
+    }, REFRESH_DELAY);
+  }
+
+  private async restoreProgress(): Promise<void> {
+    try {
+      const { setUploadProgress } = useFilesStore.getState();
+      const jobs = await listUploadJobs();
+      jobs.forEach(job => setUploadProgress(job.fileId, jobProgress(job)));
+    } catch (error) {
+      console.error('Failed to restore upload queue:', error);
+    }
+  }
+
+  // Queue files behind any pending uploads; files added together are committed together
+  async enqueue(jobs: NewUploadJob[], publishMode: PublishMode): Promise<void> {
+    // Files already waiting or uploading keep their place in the queue
+    const activeFileIds = (await listUploadJobs())
+      .filter(job => job.status !== 'failed')
+      .map(job => job.fileId);
+    const newJobs = jobs.filter(job => !activeFileIds.includes(job.fileId));
+    if (newJobs.length === 0) return;
+
+    await enqueueUploadJobs(newJobs, publishMode);
+
+    const { setUploadProgress } = useFilesStore.getState();
+    newJobs.forEach(job => setUploadProgress(job.fileId, { status: 'queued', progress: 0 }));
+
+    await this.process();
+  }
+
+  // Put a failed job back in the queue with a fresh attempt count.
+  // Returns false when the file has no job to retry.
+  async retry(fileId: string): Promise<boolean> {
+    const job = (await listUploadJobs()).find(queued => queued.fileId === fileId);
+    if (!job) return false;
+
+    const retried: UploadJob = { ...job, status: 'queued', attempts: 0, nextAttemptAt: Date.now() };
+    await updateUploadJobs([retried]);
+    useFilesStore.getState().setUploadProgress(fileId, jobProgress(retried));
+
+    await this.process();
+    return true;
+  }
+
+  // Work through every job that is due; resolves once the queue is idle or waiting
+  process(): Promise<void> {
+    if (this.processing) {
+      // Jobs queued mid-run get picked up by another pass
+      this.processAgain = true;
+      return this.processing;
+    }
+
+    this.processing = (async () => {
+      do {
+        this.processAgain = false;
+        await this.drain();
+      } while (this.processAgain);
+    })().finally(() => {
+      this.processing = null;
+    });
+    return this.processing;
+  }
+
+  private async drain(): Promise<void> {
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+
+    try {
+      for (;;) {
+        // The online listener resumes the queue, or the service worker if the app is closed first
+        if (!navigator.onLine) {
+          await this.requestBackgroundSync();
+          return;
+        }
+
+        const wait = rateLimitWait() > 0
+          ? await this.pauseForRateLimit()
+          : await withUploadQueueLock(() => this.runNextBatch());
+        if (wait === null) return;
+
+        if (wait > 0) {
+          this.retryTimer = setTimeout(() => {
+            this.retryTimer = null;
+            void this.process();
+          }, wait);
+          return;
+        }
+      }
+    } catch (error) {
+      console.error('Upload queue failed:', error);
+    }
+  }
+
+  // Run the first batch that is due. Returns null when the queue is empty,
+  // or how long the first job still has to wait (0 after running a batch).
+  private async runNextBatch(): Promise<number | null> {
+    const pending = (await listUploadJobs()).filter(job => job.status !== 'failed');
+    if (pending.length === 0) return null;
+
+    // Strict order: later jobs wait for the first one's backoff
+    const [head] = pending;
+    const wait = head.nextAttemptAt - Date.now();
+    if (wait > 0) return wait;
+
+    const now = Date.now();
+    await this.runBatch(pending.filter(job => job.batchId === head.batchId && job.nextAttemptAt <= now));
+    return 0;
+  }
+
+  // Show queued jobs as paused until the rate limit resets. Returns null when the queue is empty.
+  private async pauseForRateLimit(): Promise<number | null> {
+    const pending = (await listUploadJobs()).filter(job => job.status !== 'failed');
+    if (pending.length === 0) return null;
+
+    const { setUploadProgress } = useFilesStore.getState();
+    const message = rateLimitMessage();
+    pending.forEach(job => setUploadProgress(job.fileId, { ...jobProgress(job), error: message }));
+    return rateLimitWait();
+  }
+
+  private async requestBackgroundSync(): Promise<void> {
+    // The service worker would need the token in plain text
+    if (isPassphraseEnabled()) return;
+
+    try {
+      // Every profile with queued uploads needs its configuration in the service worker
+      const profileIds = new Set((await listUploadJobs()).map(job => job.profileId));
+      const configs = [...profileIds]
+        .map(profileId => getUploadConfig(profileId))
+        .filter((config): config is GitHubConfig => config !== null);
+      await registerUploadSync(configs);
+    } catch (error) {
+      console.warn('Background sync unavailable:', error);
+    }
+  }
+
+  private async runBatch(batch: UploadJob[]): Promise<void> {
+    const { setUploadProgress } = useFilesStore.getState();
+    await updateUploadJobs(batch.map(job => ({ ...job, status: 'uploading' })));
+
+    const reportProgress = (progress: number, transfer?: UploadTransfer) => {
+      batch.forEach(job => setUploadProgress(job.fileId, { status: 'uploading', progress, transfer }));
+    };
+    reportProgress(0);
+
+    try {
+      const items = batch.flatMap(uploadJobItems);
+      const { profileId } = batch[0];
+      if (batch[0].publishMode === 'pullRequest') {
+        const pullRequest = await uploadFilesAsPullRequest(items, reportProgress, profileId);
+        useGitStore.getState().addPendingPullRequest(pullRequest, profileId);
+      } else {
+        await uploadFilesBatch(items, reportProgress, profileId);
+      }
+    } catch (error) {
+      if (rateLimitWait() > 0) {
+        // Not the batch's fault, so it goes back in the queue without using up an attempt
+        await updateUploadJobs(batch.map(job => ({ ...job, status: 'queued' })));
+        return;
+      }
+      await this.recordFailure(batch, error);
+      return;
+    }
+
+    await removeUploadJobs(batch.map(job => job.id));
+    batch.forEach(job => setUploadProgress(job.fileId, { status: 'success', progress: 1 }));
+
+    setTimeout(() => {
+      void this.finishUpload(batch);
+    }, REFRESH_DELAY);
+  }
+
+  private async recordFailure(batch: UploadJob[], error: unknown): Promise<void> {
+    const updated = await recordUploadFailure(batch, error);
+
+    const { setUploadProgress } = useFilesStore.getState();
+    updated.forEach(job => setUploadProgress(job.fileId, jobProgress(job)));
+  }
+
+  // Drop the local copies (and their thumbnails) and show the uploaded files
+  private async finishUpload(batch: CompletedUpload[]): Promise<void> {
+    for (const job of batch) {
+      try {
+        await useFilesStore.getState().removeFile(job.fileId);
+      } catch (error) {
+        console.error('Failed to clean up local file after upload:', error);
+      }
+    }
+
+    // Uploads to another profile show up when switching to it
+    const { profileId } = batch[batch.length - 1];
+    if (profileId && profileId !== useSettingsStore.getState().activeProfileId) {
+      useGitStore.getState().invalidateCache(profileId);
+      return;
+    }
+    await this.refreshUntilListed(batch[batch.length - 1].fileName);
+  }
+
+  private async refreshUntilListed(fileName: string, attempt = 1): Promise<void> {
+    try {
+      useGitStore.getState().invalidateCache();
+      await useFilesStore.getState().refreshFiles();
+
+      const listed = useFilesStore.getState().files.some(file =>
+        file.name === fileName && !file.isLocal && file.uploaded
+      );
+      if (listed || attempt >= MAX_REFRESH_ATTEMPTS) return;
+    } catch (error) {
+      console.error('Failed to refresh files:', error);
+      if (attempt >= MAX_REFRESH_ATTEMPTS) return;
+    }
+
+    setTimeout(() => {
+      void this.refreshUntilListed(fileName, attempt + 1);
+    }, REFRESH_RETRY_DELAY);
+  }
+
+  // Cleanup (only call on app shutdown)
+  destroy(): void {
+    window.removeEventListener('online', this.handleOnline);
+    navigator.serviceWorker?.removeEventListener('message', this.handleWorkerMessage);
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+    this.started = false;
+  }
+}
+
+// Export singleton instance
+export const uploadQueueService = new UploadQueueService();
@@ -1,6 +1,8 @@
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
 import type { GitHubAuthConfig, AuthState } from '../types';
+import { subscribeTokenExpiration } from '../utils/tokenExpiration';
+import { encryptToken, decryptToken } from '../utils/tokenCrypto';
 
 export const useAuthStore = create<AuthState>()(
   persist(
@@ -9,6 +11,8 @@ export const useAuthStore = create<AuthState>()(
       githubConfig: null,
       userInfo: null,
       tokenTimestamp: null,
+      tokenExpiresAt: null,
+      encryptedToken: null,
 
       login: (config: GitHubAuthConfig, userInfo?: unknown) => {
         // Validate userInfo structure - should be object with expected properties or null
@@ -25,6 +29,8 @@ export const useAuthStore = create<AuthState>()(
           githubConfig: config,
           userInfo: validatedUserInfo,
           tokenTimestamp: Date.now(),
+          tokenExpiresAt: null,
+          encryptedToken: null,
         });
       },
 
@@ -34,6 +40,8 @@ export const useAuthStore = create<AuthState>()(
           githubConfig: null,
           userInfo: null,
           tokenTimestamp: null,
+          tokenExpiresAt: null,
+          encryptedToken: null,
         });
       },
 
@@ -58,15 +66,81 @@ export const useAuthStore = create<AuthState>()(
         
         set({ userInfo: validatedUserInfo });
       },
+
+      setTokenExpiresAt: (expiresAt: number | null) => {
+        set({ tokenExpiresAt: expiresAt });
+      },
+
+      enablePassphrase: async (passphrase: string) => {
+        const token = get().githubConfig?.token;
+        if (!token) {
+          throw new Error('No token to encrypt');
+        }
+        set({ encryptedToken: await encryptToken(token, passphrase) });
+      },
+
+      unlock: async (passphrase: string) => {
+        const { encryptedToken, githubConfig } = get();
+        if (!encryptedToken || !githubConfig) return false;
+        try {
+          const token = await decryptToken(encryptedToken, passphrase);
+          // Signed out while the key was being derived
+          const current = get().githubConfig;
+          if (!current) return false;
+          set({ githubConfig: { ...current, token } });
+          return true;
+        } catch {
+          return false;
+        }
+      },
+
+      changePassphrase: async (currentPassphrase: string, newPassphrase: string) => {
+        const { encryptedToken } = get();
+        if (!encryptedToken) return false;
+        try {
+          const token = await decryptToken(encryptedToken, currentPassphrase);
+          set({ encryptedToken: await encryptToken(token, newPassphrase) });
+          return true;
+        } catch {
+          return false;
+        }
+      },
+
+      removePassphrase: async (currentPassphrase: string) => {
+        const { encryptedToken, githubConfig } = get();
+        if (!encryptedToken || !githubConfig) return false;
+        try {
+          const token = await decryptToken(encryptedToken, currentPassphrase);
+          const current = get().githubConfig;
+          if (!current) return false;
+          set({ encryptedToken: null, githubConfig: { ...current, token } });
+          return true;
+        } catch {
+          return false;
+        }
+      },
     }),
     {
       name: 'auth-storage',
       partialize: (state) => ({
         isAuthenticated: state.isAuthenticated,
-        githubConfig: state.githubConfig,
+        // In passphrase mode only the sealed token is written to storage
+        githubConfig: state.encryptedToken && state.githubConfig
+          ? { ...state.githubConfig, token: '' }
+          : state.githubConfig,
         userInfo: state.userInfo,
         tokenTimestamp: state.tokenTimestamp,
+        tokenExpiresAt: state.tokenExpiresAt,
+        encryptedToken: state.encryptedToken,
       }),
     }
   )
-);
\ No newline at end of file
+);
+
+// Keep the expiry current from every GitHub API response
+subscribeTokenExpiration((expiresAt) => {
+  const state = useAuthStore.getState();
+  if (state.isAuthenticated && state.tokenExpiresAt !== expiresAt) {
+    state.setTokenExpiresAt(expiresAt);
+  }
+});
\ No newline at end of file
@@ -1,9 +1,50 @@
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
-import type { FileRecord, UploadProgress, EnhancedFileRecord, FilesState } from '../types';
+import type { FileRecord, UploadProgress, EnhancedFileRecord, FilesState, OfflineFile } from '../types';
 import { useGitStore } from './gitStore';
+import { useSettingsStore } from './settingsStore';
 import { createFileRecord, restoreFileRecord, cleanupBlobUrls } from '../utils/persistentStorage';
 import { combineAndDeduplicateFiles, findFilesToRemove } from '../utils/fileDeduplication';
+import { saveOfflineCopy, loadOfflineCopy, deleteOfflineCopy, recentRemoteFiles } from '../utils/offlineCache';
+
+function revokeOfflineUrls(file: EnhancedFileRecord | undefined): void {
+  if (file?.offlineUrl) URL.revokeObjectURL(file.offlineUrl);
+  if (file?.offlineThumbnailUrl) URL.revokeObjectURL(file.offlineThumbnailUrl);
+}
+
+// Point cached files at their downloaded copies, reusing blob URLs from the previous listing.
+// Copies whose blobs were evicted by the browser are dropped.
+async function withOfflineUrls(
+  files: EnhancedFileRecord[],
+  previous: EnhancedFileRecord[],
+  offlineFiles: Record<string, OfflineFile>
+): Promise<{ files: EnhancedFileRecord[]; offlineFiles: Record<string, OfflineFile> }> {
+  const remaining = { ...offlineFiles };
+  const result = await Promise.all(files.map(async file => {
+    if (!file.cached) return file;
+
+    const known = previous.find(f => f.id === file.id && f.offlineUrl);
+    if (known) {
+      return { ...file, offlineUrl: known.offlineUrl, offlineThumbnailUrl: known.offlineThumbnailUrl };
+    }
+
+    try {
+      const copy = await loadOfflineCopy(file.id, offlineFiles[file.id]);
+      if (copy) {
+        return {
+          ...file,
+          offlineUrl: URL.createObjectURL(copy.media),
+          offlineThumbnailUrl: copy.thumbnail ? URL.createObjectURL(copy.thumbnail) : undefined,
+        };
+      }
+    } catch (error) {
+      console.error('Failed to restore offline copy:', error);
+    }
+    delete remaining[file.id];
+    return { ...file, cached: undefined };
+  }));
+  return { files: result, offlineFiles: remaining };
+}
 
 export const useFilesStore = create<FilesState>()(
   persist(
@@ -14,6 +55,8 @@ export const useFilesStore = create<FilesState>()(
   uploadState: {},
   lastRefresh: 0,
   remoteError: null,
+  offlineFiles: {},
+  cachingIds: [],
 
   loadFiles: async () => {
     const { isLoading } = get();
@@ -42,18 +85,34 @@ export const useFilesStore = create<FilesState>()(
         const errorMessage = remoteError instanceof Error ? remoteError.message : 'Failed to fetch remote files';
         set({ remoteError: errorMessage });
         console.error('Failed to fetch remote files:', remoteError);
-        // Continue with local files only
+        // Continue with local files and the remote files downloaded for offline playback
+        const { offlineFiles } = get();
+        remoteFiles = useGitStore.getState().remoteFiles.filter(file => offlineFiles[file.id]);
       }
 
+      // Files proposed through open pull requests are listed alongside the branch contents
+      const { pendingPullRequests } = useGitStore.getState();
+
+      // Local recordings made for another repository profile wait until it is active again
+      const { activeProfileId } = useSettingsStore.getState();
+      const profileFiles = restoredLocalFiles.filter(file =>
+        !file.profileId || !activeProfileId || file.profileId === activeProfileId
+      );
+
       // Use utility to combine and deduplicate files
-      const combinedFiles = combineAndDeduplicateFiles(restoredLocalFiles, remoteFiles);
+      const combinedFiles = combineAndDeduplicateFiles(profileFiles, remoteFiles, pendingPullRequests, get().offlineFiles);
+      const offline = await withOfflineUrls(combinedFiles, get().files, get().offlineFiles);
       
       set({ 
         localFiles: restoredLocalFiles, // Update with restored files
-        files: combinedFiles,
+        files: offline.files,
+        offlineFiles: offline.offlineFiles,
         isLoading: false,
         lastRefresh: Date.now()
       });
+
+      // Keep the most recent remote items downloaded, without holding up the library
+      void get().autoCacheRecent();
     } catch (error) {
       console.error('Failed to load files:', error);
       set({ isLoading: false });
@@ -80,7 +139,9 @@ export const useFilesStore = create<FilesState>()(
 
   saveFile: async (fileBlob: Blob, metadata: Omit<FileRecord, 'id' | 'file' | 'url' | 'base64Data'>) => {
     try {
-      const fileRecord = await createFileRecord(fileBlob, metadata);
+      // Recordings remember the profile they were made for, so they upload there after a switch
+      const profileId = metadata.profileId ?? useSettingsStore.getState().activeProfileId;
+      const fileRecord = await createFileRecord(fileBlob, profileId ? { ...metadata, profileId } : metadata);
       get().addFile(fileRecord);
       return fileRecord;
     } catch (error) {
@@ -92,6 +153,17 @@ export const useFilesStore = create<FilesState>()(
   removeFile: async (fileId: string) => {
     try {
       const state = get();
+      const isRemote = state.files.some(f => f.id === fileId && !f.isLocal);
+      if (isRemote) {
+        // Remote files are deleted from the repository with a commit
+        await useGitStore.getState().deleteRemoteFile(fileId);
+        if (state.offlineFiles[fileId]) {
+          await get().removeOfflineCopy(fileId);
+        }
+        set(current => ({ files: current.files.filter(f => f.id !== fileId) }));
+        return;
+      }
+
       const { filesToRemove, cleanup } = findFilesToRemove(state.localFiles, fileId);
       
       // Cleanup blob URLs and IndexedDB entries
@@ -129,6 +201,17 @@ export const useFilesStore = create<FilesState>()(
   ) => {
     try {
       const state = get();
+      const isRemote = state.files.some(f => f.id === fileId && !f.isLocal);
+      if (isRemote) {
+        // Remote files are renamed in the repository with a commit
+        await useGitStore.getState().renameRemoteFile(fileId, newName, thumbnailFile);
+        const renamed = useGitStore.getState().remoteFiles.find(f => f.id === fileId);
+        set(current => ({
+          files: current.files.map(f => f.id === fileId && renamed ? { ...f, name: renamed.name, url: renamed.url, path: renamed.path } : f)
+        }));
+        return;
+      }
+
       const fileToUpdate = state.localFiles.find(f => f.id === fileId);
       if (!fileToUpdate) {
         throw new Error('File not found');
@@ -163,7 +246,8 @@ export const useFilesStore = create<FilesState>()(
           mimeType: 'image/jpeg',
           size: thumbnailFile.size,
           duration: 0,
-          created: Date.now()
+          created: Date.now(),
+          profileId: fileToUpdate.profileId
         });
         
         // Remove existing thumbnails and add the new one in one update
@@ -238,10 +322,84 @@ export const useFilesStore = create<FilesState>()(
     set({ remoteError: error });
   },
 
+  // Download a remote file and its thumbnail so it plays without a connection
+  makeAvailableOffline: async (fileId: string, auto: boolean = false) => {
+    const { files, cachingIds, offlineFiles } = get();
+    const file = files.find(f => f.id === fileId && !f.isLocal && !f.pullRequest);
+    if (!file || cachingIds.includes(fileId) || offlineFiles[fileId]) return;
+
+    set(state => ({ cachingIds: [...state.cachingIds, fileId] }));
+    try {
+      const baseName = file.name.replace(/\.[^.]+$/, '');
+      const thumbnail = useGitStore.getState().remoteThumbnails?.[baseName];
+      const entry = await saveOfflineCopy(file, thumbnail?.url);
+      const copy = await loadOfflineCopy(fileId, entry);
+      if (!copy) {
+        throw new Error('The downloaded copy could not be stored');
+      }
+
+      const offlineUrl = URL.createObjectURL(copy.media);
+      const offlineThumbnailUrl = copy.thumbnail ? URL.createObjectURL(copy.thumbnail) : undefined;
+      set(state => ({
+        offlineFiles: { ...state.offlineFiles, [fileId]: auto ? { ...entry, auto } : entry },
+        files: state.files.map(f => f.id === fileId ? { ...f, cached: true, offlineUrl, offlineThumbnailUrl } : f),
+      }));
+    } catch (error) {
+      console.error('Failed to make file available offline:', error);
+      throw error;
+    } finally {
+      set(state => ({ cachingIds: state.cachingIds.filter(id => id !== fileId) }));
+    }
+  },
+
+  removeOfflineCopy: async (fileId: string) => {
+    await deleteOfflineCopy(fileId);
+    revokeOfflineUrls(get().files.find(f => f.id === fileId));
+    set(state => {
+      const offlineFiles = { ...state.offlineFiles };
+      delete offlineFiles[fileId];
+      return {
+        offlineFiles,
+        files: state.files.map(f => f.id === fileId
+          ? { ...f, cached: undefined, offlineUrl: undefined, offlineThumbnailUrl: undefined }
+          : f),
+      };
+    });
+  },
+
+  // Follow the auto-cache setting: download the most recent remote items and drop automatic
+  // copies that are no longer among them. Copies made by hand are kept.
+  autoCacheRecent: async () => {
+    const count = useSettingsStore.getState().appSettings?.offlineAutoCacheCount || 0;
+    const { files, offlineFiles } = get();
+    const recent = recentRemoteFiles(files, count);
+    const recentIds = new Set(recent.map(file => file.id));
+    const listedIds = new Set(files.map(file => file.id));
+
+    for (const [fileId, entry] of Object.entries(offlineFiles)) {
+      // Files missing from the listing may belong to another profile, so only listed ones are dropped
+      if (entry.auto && listedIds.has(fileId) && !recentIds.has(fileId)) {
+        await get().removeOfflineCopy(fileId);
+      }
+    }
+
+    for (const file of recent) {
+      try {
+        await get().makeAvailableOffline(file.id, true);
+      } catch (error) {
+        console.warn(`Failed to auto-cache ${file.name}:`, error);
+      }
+    }
+  },
+
   reset: async () => {
     const state = get();
     // Cleanup blob URLs and IndexedDB before reset
     await cleanupBlobUrls(state.localFiles);
+    for (const fileId of Object.keys(state.offlineFiles)) {
+      await deleteOfflineCopy(fileId);
+      revokeOfflineUrls(state.files.find(f => f.id === fileId));
+    }
     
     set({
       files: [],
@@ -250,6 +408,8 @@ export const useFilesStore = create<FilesState>()(
       uploadState: {},
       lastRefresh: 0,
       remoteError: null,
+      offlineFiles: {},
+      cachingIds: [],
     });
   },
     }),
@@ -265,6 +425,7 @@ export const useFilesStore = create<FilesState>()(
           url: undefined
         })),
         lastRefresh: state.lastRefresh,
+        offlineFiles: state.offlineFiles,
       }),
       // Restore blob data when loading from storage
       onRehydrateStorage: () => (state) => {
@@ -1,49 +1,69 @@
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
-import type { GitState } from '../types';
-import { fetchRemoteFiles as fetchRemoteFilesFromGithub, fetchRemoteThumbnails } from '../utils/githubUtils';
-import { useAuthStore } from './authStore';
+import type { FileRecord, GitState, RemoteChanges, RemoteListingCache, RemoteThumbnail, RepositoryFile, RepositoryRename } from '../types';
+import {
+  fetchRemoteFiles as fetchRemoteFilesFromGithub,
+  fetchRemoteThumbnails,
+  fetchPullRequestState,
+  fetchHeadSha,
+  fetchRemoteChanges
+} from '../utils/githubUtils';
+import { deleteFilesFromRepository, renameFilesInRepository, getUploadConfig } from '../utils/uploadUtils';
+import { rateLimitWait } from '../utils/rateLimit';
 import { useSettingsStore } from './settingsStore';
 
-// Helper to get repository last commit timestamp
-async function getRepositoryLastCommit(): Promise<number> {
-  const authState = useAuthStore.getState();
-  const settingsState = useSettingsStore.getState();
-  
-  if (!authState.isAuthenticated || !authState.githubConfig || !settingsState.appSettings) {
-    throw new Error('GitHub configuration not available');
-  }
-
-  const { githubConfig } = authState;
-  const { appSettings } = settingsState;
-  
-  if (!githubConfig.token || !githubConfig.owner || !appSettings.repo) {
-    throw new Error('Incomplete GitHub configuration');
-  }
-
-  try {
-    const response = await fetch(
-      `https://api.github.com/repos/${githubConfig.owner}/${appSettings.repo}/commits?per_page=1`,
-      {
-        headers: { Authorization: `Bearer ${githubConfig.token}` }
-      }
-    );
-
-    if (!response.ok) {
-      throw new Error(`Failed to fetch commits: ${response.status}`);
-    }
+const emptyListing: RemoteListingCache = {
+  remoteFiles: [],
+  remoteThumbnails: {},
+  lastRemoteFetch: 0,
+  lastHeadSha: null,
+  pendingPullRequests: [],
+};
 
-    const commits = await response.json();
-    if (commits.length === 0) {
-      return Date.now(); // No commits, return current time
-    }
+// Bumped on every profile switch, so a listing still loading for the previous
+// profile is not stored as the new one's
+let listingGeneration = 0;
+
+function listingOf(state: GitState): RemoteListingCache {
+  return {
+    remoteFiles: state.remoteFiles,
+    remoteThumbnails: state.remoteThumbnails,
+    lastRemoteFetch: state.lastRemoteFetch,
+    lastHeadSha: state.lastHeadSha,
+    pendingPullRequests: state.pendingPullRequests,
+  };
+}
+
+// Whether a profile other than the active one is meant
+function isInactiveProfile(profileId?: string): profileId is string {
+  return !!profileId && profileId !== useSettingsStore.getState().activeProfileId;
+}
+
+// Repository path of a listed file (older cached listings only kept it in url)
+function repositoryPath(file: FileRecord): string {
+  return file.path || file.url || '';
+}
+
+function folderOf(filePath: string): string {
+  return filePath.slice(0, filePath.lastIndexOf('/') + 1);
+}
+
+// Apply the changes since the cached commit to the cached listings
+function patchListings(
+  files: FileRecord[],
+  thumbnails: Record<string, RemoteThumbnail>,
+  changes: RemoteChanges
+): { remoteFiles: FileRecord[]; remoteThumbnails: Record<string, RemoteThumbnail> } {
+  const removed = new Set(changes.removedPaths);
+  changes.files.forEach((file) => removed.add(repositoryPath(file)));
 
-    const lastCommitDate = new Date(commits[0].commit.committer.date);
-    return lastCommitDate.getTime();
-  } catch (error) {
-    console.warn('Failed to fetch repository last commit:', error);
-    return Date.now(); // Fallback to current time
-  }
+  const remoteThumbnails = Object.fromEntries(
+    Object.entries(thumbnails).filter(([, thumbnail]) => !removed.has(thumbnail.url))
+  );
+  return {
+    remoteFiles: [...files.filter((file) => !removed.has(repositoryPath(file))), ...changes.files],
+    remoteThumbnails: { ...remoteThumbnails, ...changes.thumbnails },
+  };
 }
 
 export const useGitStore = create<GitState>()(
@@ -54,44 +74,70 @@ export const useGitStore = create<GitState>()(
       isLoadingRemote: false,
       lastRemoteFetch: 0,
       remoteError: null,
-      lastCommitTimestamp: 0,
+      lastHeadSha: null,
+      pendingPullRequests: [],
+      profileCaches: {},
 
+      // Refresh the listings: nothing to do when the branch has not moved, a patch
+      // from the compare API when it has, and a full listing otherwise or when forced
       fetchRemoteFiles: async (forceRefresh: boolean = false) => {
+        const generation = listingGeneration;
+        const switched = () => generation !== listingGeneration;
+
+        // Drop merged or closed pull requests before deciding what the library shows
+        await get().refreshPendingPullRequests();
+        if (switched()) return;
+
         const state = get();
-        
-        // Check if we need to refresh based on repository changes
-        if (!forceRefresh && state.lastRemoteFetch > 0) {
-          try {
-            const repoLastCommit = await getRepositoryLastCommit();
-            
-            // If our cache is newer than the last commit, no need to refresh
-            if (state.lastCommitTimestamp >= repoLastCommit) {
-              console.log('Repository unchanged, using cached data');
-              return;
-            }
-            
-            console.log('Repository has new changes, refreshing...');
-          } catch {
-            console.warn('Could not check repository status, proceeding with refresh');
-          }
+        const hasCache = state.lastRemoteFetch > 0 && !!state.lastHeadSha;
+
+        let headSha: string | null = null;
+        try {
+          headSha = await fetchHeadSha();
+        } catch {
+          console.warn('Could not check repository status, proceeding with refresh');
+        }
+        if (switched()) return;
+
+        if (!forceRefresh && hasCache && headSha && headSha === state.lastHeadSha) {
+          console.log('Repository unchanged, using cached data');
+          set({ lastRemoteFetch: Date.now() });
+          return;
         }
 
         set({ isLoadingRemote: true, remoteError: null });
         
         try {
+          if (!forceRefresh && hasCache && headSha && state.lastHeadSha) {
+            const changes = await fetchRemoteChanges(state.lastHeadSha, headSha);
+            if (switched()) return;
+            if (changes) {
+              console.log('Repository has new changes, patching cached listing');
+              set((current) => ({
+                ...patchListings(current.remoteFiles, current.remoteThumbnails, changes),
+                isLoadingRemote: false,
+                lastRemoteFetch: Date.now(),
+                lastHeadSha: headSha,
+              }));
+              return;
+            }
+            console.log('Changes cannot be patched in, listing the whole repository');
+          }
+
           // Fetch both media files and thumbnails
           const files = await fetchRemoteFilesFromGithub();
           const thumbnails = await fetchRemoteThumbnails();
-          const lastCommitTimestamp = await getRepositoryLastCommit();
+          if (switched()) return;
           
           set({ 
             remoteFiles: files,
             remoteThumbnails: thumbnails,
             isLoadingRemote: false,
             lastRemoteFetch: Date.now(),
-            lastCommitTimestamp
+            lastHeadSha: headSha
           });
         } catch (error) {
+          if (switched()) return;
           const errorMessage = error instanceof Error ? error.message : 'Failed to fetch remote files';
           set({ 
             remoteError: errorMessage,
@@ -105,6 +151,9 @@ export const useGitStore = create<GitState>()(
       autoRefreshIfStale: async () => {
         const state = get();
         const fiveMinutesAgo = Date.now() - (5 * 60 * 1000);
+
+        // Background refreshes wait for the rate limit to reset
+        if (rateLimitWait() > 0) return;
         
         // If last fetch was more than 5 minutes ago, check for updates
         if (state.lastRemoteFetch < fiveMinutesAgo) {
@@ -117,15 +166,180 @@ export const useGitStore = create<GitState>()(
         }
       },
 
+      addPendingPullRequest: (pullRequest, profileId) => {
+        if (isInactiveProfile(profileId)) {
+          set((state) => {
+            const listing = state.profileCaches[profileId] || emptyListing;
+            return {
+              profileCaches: {
+                ...state.profileCaches,
+                [profileId]: {
+                  ...listing,
+                  pendingPullRequests: [...listing.pendingPullRequests.filter((pr) => pr.number !== pullRequest.number), pullRequest],
+                },
+              },
+            };
+          });
+          return;
+        }
+        set((state) => ({
+          pendingPullRequests: [
+            ...state.pendingPullRequests.filter((pr) => pr.number !== pullRequest.number),
+            pullRequest,
+          ],
+        }));
+      },
+
+      // Keep only pull requests that are still open on GitHub
+      refreshPendingPullRequests: async () => {
+        const { pendingPullRequests } = get();
+        if (pendingPullRequests.length === 0) return;
+        const generation = listingGeneration;
+
+        const stillOpen = await Promise.all(
+          pendingPullRequests.map(async (pr) => {
+            try {
+              return (await fetchPullRequestState(pr.number)) === 'open';
+            } catch (error) {
+              console.warn(`Could not check pull request #${pr.number}:`, error);
+              return true; // Keep it until its state can be confirmed
+            }
+          })
+        );
+
+        const open = pendingPullRequests.filter((_, index) => stillOpen[index]);
+        if (generation === listingGeneration && open.length !== pendingPullRequests.length) {
+          // A merge adds the files to the branch, so the next fetch must not use the cache
+          set({ pendingPullRequests: open, lastRemoteFetch: 0, lastHeadSha: null });
+        }
+      },
+
+      // Delete a media file and its thumbnail from the repository, then drop them from the cached listing
+      deleteRemoteFile: async (fileId: string) => {
+        const { remoteFiles, remoteThumbnails } = get();
+        const file = remoteFiles.find((remote) => remote.id === fileId);
+        if (!file || !repositoryPath(file)) {
+          throw new Error('File not found in repository');
+        }
+
+        const baseName = file.name.replace(/\.[^.]+$/, '');
+        const thumbnail = remoteThumbnails[baseName];
+        const paths = thumbnail ? [repositoryPath(file), thumbnail.url] : [repositoryPath(file)];
+
+        await deleteFilesFromRepository(file.name, paths);
+
+        set((state) => {
+          const thumbnails = { ...state.remoteThumbnails };
+          delete thumbnails[baseName];
+          return {
+            remoteFiles: state.remoteFiles.filter((remote) => remote.id !== fileId),
+            remoteThumbnails: thumbnails,
+          };
+        });
+      },
+
+      // Rename a media file and its thumbnail in one commit, optionally replacing the thumbnail
+      // with an image already processed for upload
+      renameRemoteFile: async (fileId: string, newName: string, thumbnailFile?: Blob | null) => {
+        const { remoteFiles, remoteThumbnails } = get();
+        const file = remoteFiles.find((remote) => remote.id === fileId);
+        const mediaPath = file ? repositoryPath(file) : '';
+        if (!file || !file.sha || !mediaPath) {
+          throw new Error('File not found in repository');
+        }
+
+        const oldBaseName = file.name.replace(/\.[^.]+$/, '');
+        const newBaseName = newName.replace(/\.[^.]+$/, '');
+        const oldThumbnail = remoteThumbnails[oldBaseName];
+        const renames: RepositoryRename[] = [];
+        const newFiles: RepositoryFile[] = [];
+        const removedPaths: string[] = [];
+
+        const newMediaPath = `${folderOf(mediaPath)}${newName}`;
+        if (newName !== file.name) {
+          renames.push({ from: mediaPath, to: newMediaPath, sha: file.sha });
+        }
+
+        let newThumbnailPath: string | null = oldThumbnail?.url ?? null;
+        if (thumbnailFile) {
+          const thumbnailFolder = oldThumbnail ? folderOf(oldThumbnail.url) : getUploadConfig()?.thumbnailPath ?? '';
+          newThumbnailPath = `${thumbnailFolder}${newBaseName}.jpg`;
+          newFiles.push({ path: newThumbnailPath, file: thumbnailFile });
+          if (oldThumbnail && oldThumbnail.url !== newThumbnailPath) {
+            removedPaths.push(oldThumbnail.url);
+          }
+        } else if (oldThumbnail && newBaseName !== oldBaseName) {
+          if (!oldThumbnail.sha) {
+            throw new Error('Thumbnail details are out of date. Refresh the library and try again.');
+          }
+          const extension = oldThumbnail.url.slice(oldThumbnail.url.lastIndexOf('.'));
+          newThumbnailPath = `${folderOf(oldThumbnail.url)}${newBaseName}${extension}`;
+          renames.push({ from: oldThumbnail.url, to: newThumbnailPath, sha: oldThumbnail.sha });
+        }
+
+        if (renames.length === 0 && newFiles.length === 0) return;
+
+        const message = newName !== file.name ? `Rename ${file.name} to ${newName}` : `Update thumbnail for ${file.name}`;
+        const [newThumbnailSha] = await renameFilesInRepository(message, renames, newFiles, removedPaths);
+
+        set((state) => {
+          const thumbnails = { ...state.remoteThumbnails };
+          delete thumbnails[oldBaseName];
+          if (newThumbnailPath) {
+            thumbnails[newBaseName] = {
+              url: newThumbnailPath,
+              isLocal: false,
+              sha: newThumbnailSha ?? oldThumbnail?.sha,
+            };
+          }
+          return {
+            remoteFiles: state.remoteFiles.map((remote) => remote.id === fileId
+              ? { ...remote, name: newName, url: newMediaPath, path: newMediaPath }
+              : remote),
+            remoteThumbnails: thumbnails,
+          };
+        });
+      },
+
       setRemoteError: (error: string | null) => {
         set({ remoteError: error });
       },
 
       // Invalidate cache and force fresh fetch (useful after uploads)
-      invalidateCache: () => {
+      invalidateCache: (profileId) => {
+        if (isInactiveProfile(profileId)) {
+          set((state) => state.profileCaches[profileId]
+            ? { profileCaches: { ...state.profileCaches, [profileId]: { ...state.profileCaches[profileId], lastRemoteFetch: 0, lastHeadSha: null } } }
+            : {});
+          return;
+        }
         set({
           lastRemoteFetch: 0,
-          lastCommitTimestamp: 0,
+          lastHeadSha: null,
+        });
+      },
+
+      // Put the active listing away under its profile and bring out the next profile's,
+      // so switching back and forth does not list the repositories again
+      switchProfileCache: (fromProfileId, toProfileId) => {
+        if (fromProfileId === toProfileId) return;
+        listingGeneration++;
+        set((state) => {
+          const profileCaches = { ...state.profileCaches };
+          if (fromProfileId) {
+            profileCaches[fromProfileId] = listingOf(state);
+          }
+          const listing = profileCaches[toProfileId] || emptyListing;
+          delete profileCaches[toProfileId];
+          return { ...listing, profileCaches, isLoadingRemote: false, remoteError: null };
+        });
+      },
+
+      forgetProfileCache: (profileId) => {
+        set((state) => {
+          const profileCaches = { ...state.profileCaches };
+          delete profileCaches[profileId];
+          return { profileCaches };
         });
       },
 
@@ -136,7 +350,9 @@ export const useGitStore = create<GitState>()(
           isLoadingRemote: false,
           lastRemoteFetch: 0,
           remoteError: null,
-          lastCommitTimestamp: 0,
+          lastHeadSha: null,
+          pendingPullRequests: [],
+          profileCaches: {},
         });
       },
     }),
@@ -147,7 +363,9 @@ export const useGitStore = create<GitState>()(
         remoteFiles: state.remoteFiles,
         remoteThumbnails: state.remoteThumbnails,
         lastRemoteFetch: state.lastRemoteFetch,
-        lastCommitTimestamp: state.lastCommitTimestamp,
+        lastHeadSha: state.lastHeadSha,
+        pendingPullRequests: state.pendingPullRequests,
+        profileCaches: state.profileCaches,
       }),
     }
   )
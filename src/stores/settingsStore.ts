@@ -1,9 +1,10 @@
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
-import type { AppSettings, SettingsState } from '../types';
+import type { AppSettings, RepositoryCheck, RepositoryProfile, SettingsState } from '../types';
 
 const defaultAppSettings: AppSettings = {
   repo: '',
+  branch: 'main',
   path: '',
   thumbnailPath: '',
   thumbnailWidth: 320,
@@ -11,31 +12,91 @@ const defaultAppSettings: AppSettings = {
   customCategories: [],
 };
 
+function newProfileId(): string {
+  return `profile-${Date.now()}-${Math.random().toString(36).slice(2)}`;
+}
+
+// Store the active profile's settings, creating the first profile from them when
+// there is none yet (settings saved before profiles existed)
+function withActiveSettings(
+  state: Pick<SettingsState, 'profiles' | 'activeProfileId'>,
+  settings: AppSettings
+): Pick<SettingsState, 'profiles' | 'activeProfileId'> {
+  if (state.activeProfileId && state.profiles.some(profile => profile.id === state.activeProfileId)) {
+    return {
+      profiles: state.profiles.map(profile => profile.id === state.activeProfileId ? { ...profile, settings } : profile),
+      activeProfileId: state.activeProfileId,
+    };
+  }
+  const profile: RepositoryProfile = { id: newProfileId(), name: settings.repo || 'Default', settings };
+  return { profiles: [...state.profiles, profile], activeProfileId: profile.id };
+}
+
 export const useSettingsStore = create<SettingsState>()(
   persist(
     (set, get) => ({
       audioFormat: 'mp3',
       appSettings: null,
+      repositoryCheck: null,
+      profiles: [],
+      activeProfileId: null,
 
       setAudioFormat: (format: 'mp3' | 'wav') => {
         set({ audioFormat: format });
       },
 
       setAppSettings: (settings: AppSettings) => {
-        set({ appSettings: settings });
+        set({ appSettings: settings, ...withActiveSettings(get(), settings) });
       },
 
       updateAppSettings: (newSettings: Partial<AppSettings>) => {
         const currentSettings = get().appSettings || defaultAppSettings;
-        set({
-          appSettings: { ...currentSettings, ...newSettings },
-        });
+        const appSettings = { ...currentSettings, ...newSettings };
+        set({ appSettings, ...withActiveSettings(get(), appSettings) });
+      },
+
+      setRepositoryCheck: (check: RepositoryCheck | null) => {
+        set({ repositoryCheck: check });
+      },
+
+      // Add a profile that starts from the current settings with no repository chosen
+      addProfile: (name: string) => {
+        const state = get();
+        const current = state.appSettings || defaultAppSettings;
+        const saved = state.appSettings ? withActiveSettings(state, state.appSettings) : state;
+        const profile: RepositoryProfile = { id: newProfileId(), name, settings: { ...current, repo: '' } };
+        set({ profiles: [...saved.profiles, profile], activeProfileId: saved.activeProfileId });
+        return profile.id;
+      },
+
+      switchProfile: (profileId: string) => {
+        const state = get();
+        const target = state.profiles.find(profile => profile.id === profileId);
+        if (!target || profileId === state.activeProfileId) return;
+
+        const saved = state.appSettings ? withActiveSettings(state, state.appSettings) : state;
+        set({ profiles: saved.profiles, activeProfileId: profileId, appSettings: target.settings });
+      },
+
+      renameProfile: (profileId: string, name: string) => {
+        set(state => ({
+          profiles: state.profiles.map(profile => profile.id === profileId ? { ...profile, name } : profile),
+        }));
+      },
+
+      // The active profile stays; switch to another one before removing it
+      removeProfile: (profileId: string) => {
+        if (profileId === get().activeProfileId) return;
+        set(state => ({ profiles: state.profiles.filter(profile => profile.id !== profileId) }));
       },
 
       reset: () => {
         set({
           audioFormat: 'mp3',
           appSettings: null,
+          repositoryCheck: null,
+          profiles: [],
+          activeProfileId: null,
         });
       },
     }),
@@ -44,6 +105,9 @@ export const useSettingsStore = create<SettingsState>()(
       partialize: (state) => ({
         audioFormat: state.audioFormat,
         appSettings: state.appSettings,
+        repositoryCheck: state.repositoryCheck,
+        profiles: state.profiles,
+        activeProfileId: state.activeProfileId,
       }),
     }
   )
@@ -1,20 +1,56 @@
-// Service Worker for PWA
-// - Cache app shell and static assets
-// - Handle offline functionality
-// - Background sync for uploads
-// - Push notifications support
-// - Cache management strategies
-
-self.addEventListener('install', () => {
-  // Cache static assets
-});
+/// <reference lib="webworker" />
+// Service Worker for PWA (built with vite-plugin-pwa's injectManifest strategy)
+// - Precaches the app shell and static assets listed in the injected manifest
+// - Serves navigations from the cached index.html so the app opens offline
+// - Network-first caching for GitHub API reads (github.com or a GitHub Enterprise Server)
+// - Background sync: commits uploads queued while offline, even after the app is closed
 
-self.addEventListener('activate', () => {
-  // Clean up old caches
-});
+import { clientsClaim } from 'workbox-core';
+import { cleanupOutdatedCaches, createHandlerBoundToURL, precacheAndRoute, type PrecacheEntry } from 'workbox-precaching';
+import { NavigationRoute, registerRoute } from 'workbox-routing';
+import { NetworkFirst } from 'workbox-strategies';
+import { CacheableResponsePlugin } from 'workbox-cacheable-response';
+import { UPLOAD_SYNC_TAG, runQueuedUploads } from './utils/backgroundSync';
+import { isGitHubApiUrl } from './utils/githubHost';
+import type { UploadSyncMessage } from './types/workers';
 
-self.addEventListener('fetch', () => {
-  // Serve from cache or fetch from network
-});
+declare const self: ServiceWorkerGlobalScope & {
+  __WB_MANIFEST: Array<PrecacheEntry | string>;
+};
+
+// Background Sync is not in the WebWorker typings yet
+interface SyncEvent extends ExtendableEvent {
+  readonly tag: string;
+}
+
+// registerType 'autoUpdate': new versions take over open windows straight away
+self.skipWaiting();
+clientsClaim();
 
-// Background sync and push notification event listeners can be added here 
\ No newline at end of file
+precacheAndRoute(self.__WB_MANIFEST);
+cleanupOutdatedCaches();
+
+registerRoute(new NavigationRoute(createHandlerBoundToURL('index.html')));
+
+registerRoute(
+  ({ url }) => isGitHubApiUrl(url),
+  new NetworkFirst({
+    cacheName: 'github-api-cache',
+    networkTimeoutSeconds: 10,
+    plugins: [new CacheableResponsePlugin({ statuses: [0, 200] })],
+  })
+);
+
+async function notifyClients(message: UploadSyncMessage): Promise<void> {
+  const windows = await self.clients.matchAll({ type: 'window', includeUncontrolled: true });
+  windows.forEach(client => client.postMessage(message));
+}
+
+self.addEventListener('sync', (event) => {
+  const syncEvent = event as SyncEvent;
+  if (syncEvent.tag === UPLOAD_SYNC_TAG) {
+    syncEvent.waitUntil(runQueuedUploads(message => {
+      void notifyClients(message);
+    }));
+  }
+});
@@ -18,6 +18,9 @@ export interface ModalProps {
   type?: 'alert' | 'confirm' | 'success' | 'error';
   confirmText?: string;
   cancelText?: string;
+  onCancel?: () => void; // Also called when the backdrop is clicked
+  alternativeText?: string;
+  onAlternative?: () => void;
 }
 
 // Header component
@@ -53,6 +56,10 @@ export interface VideoIconProps extends IconProps {}
 // eslint-disable-next-line @typescript-eslint/no-empty-object-type
 export interface UploadIconProps extends IconProps {}
 // eslint-disable-next-line @typescript-eslint/no-empty-object-type
+export interface DownloadIconProps extends IconProps {}
+// eslint-disable-next-line @typescript-eslint/no-empty-object-type
+export interface HistoryIconProps extends IconProps {}
+// eslint-disable-next-line @typescript-eslint/no-empty-object-type
 export interface DeleteIconProps extends IconProps {}
 // eslint-disable-next-line @typescript-eslint/no-empty-object-type
 export interface EditIconProps extends IconProps {}
@@ -88,6 +95,11 @@ export interface TokenSetupProps {
   onSuccess: () => void;
 }
 
+export interface PassphrasePromptProps {
+  onUnlock: (passphrase: string) => Promise<boolean>; // Resolves false for a wrong passphrase
+  onSignOut: () => void;
+}
+
 // Props for EditFileModal
 export interface EditFileModalProps {
   file: FileRecord;
@@ -96,6 +108,14 @@ export interface EditFileModalProps {
   thumbnail?: string;
 }
 
+// Props for FileHistoryPanel
+export interface FileHistoryPanelProps {
+  file: FileRecord; // Media file listed from the repository
+  thumbnailPath?: string; // Repository path of its thumbnail
+  onClose: () => void;
+  onRestore: () => void; // Called once an earlier version was committed
+}
+
 // Props for InputField component
 export interface InputFieldProps {
   label?: string;
@@ -8,6 +8,9 @@ export interface UseAuthReturn {
   authenticated: boolean;
   isLoading: boolean;
   setAuthenticated: (value: boolean) => void;
+  locked: boolean; // Token is encrypted and waiting for the passphrase
+  unlock: (passphrase: string) => Promise<boolean>;
+  signOut: () => void; // Forget the locked token, e.g. when the passphrase is lost
 }
 
 // useAudioSave hook
@@ -46,6 +49,10 @@ export interface UseCombinedFilesReturn {
   removeFile: (fileId: string) => Promise<void>;
   setUploadProgress: (fileId: string, progress: import('./index').UploadProgress) => void;
   setRemoteError: (error: string | null) => void;
+  // Offline copies of remote files
+  cachingIds: string[];
+  makeAvailableOffline: (fileId: string) => Promise<void>;
+  removeOfflineCopy: (fileId: string) => Promise<void>;
   // Fresh state access methods (for async operations)
   getCurrentFiles: () => import('./index').EnhancedFileRecord[];
   getCurrentThumbnails: () => Record<string, import('./index').FileRecord & {isLocal: boolean}>;
@@ -54,8 +61,20 @@ export interface UseCombinedFilesReturn {
 // useUploadManager hook
 export interface UseUploadManagerReturn {
   uploadFile: (file: import('./index').EnhancedFileRecord) => Promise<void>;
+  uploadSelected: (files: import('./index').EnhancedFileRecord[]) => Promise<void>;
   retryUpload: (file: import('./index').EnhancedFileRecord) => Promise<void>;
   getCurrentFiles: () => import('./index').EnhancedFileRecord[];
   getCurrentThumbnails: () => Record<string, import('./index').FileRecord & {isLocal: boolean}>;
 }
 
+
+// useRepositoryProfiles hook
+export interface UseRepositoryProfilesReturn {
+  profiles: import('./index').RepositoryProfile[];
+  activeProfile: import('./index').RepositoryProfile | null;
+  switchProfile: (profileId: string) => void;
+  addProfile: (name: string) => string;
+  renameProfile: (profileId: string, name: string) => void;
+  removeProfile: (profileId: string) => Promise<boolean>;
+  pendingRecordings: (profileId: string) => Promise<number>;
+}
@@ -30,11 +30,47 @@ export interface UploadStatus {
 // App settings for repository and preferences
 export interface AppSettings {
   repo: string;
+  branch: string;
   path: string;
   thumbnailPath: string;
   thumbnailWidth: number;
   thumbnailHeight: number;
   customCategories?: MediaCategory[];
+  publishMode?: PublishMode;
+  mediaStorage?: MediaStorage;
+  offlineAutoCacheCount?: number; // Keep this many of the most recent remote items downloaded (0 or unset: off)
+  podcastFeed?: PodcastFeedSettings;
+}
+
+// RSS 2.0 + iTunes podcast feed, regenerated in the commit of uploads and deletes in its categories
+export interface PodcastFeedSettings {
+  enabled: boolean;
+  path: string; // Repository path of the feed, e.g. feed.xml
+  categories: string[]; // Names of the categories whose recordings are episodes
+  title: string;
+  description: string;
+  ownerName: string;
+  ownerEmail: string;
+  baseUrl: string; // Public address the repository is served from, e.g. its GitHub Pages site
+}
+
+// Named set of repository settings, e.g. one per podcast or course
+export interface RepositoryProfile {
+  id: string;
+  name: string;
+  settings: AppSettings;
+}
+
+// How uploads reach the target branch: committed directly or proposed via a pull request
+export type PublishMode = 'direct' | 'pullRequest';
+
+// Where media bytes live: regular Git blobs or Git LFS objects behind pointer files
+export type MediaStorage = 'blob' | 'lfs';
+
+// Git LFS pointer: SHA-256 object id and size of the real content
+export interface LfsPointer {
+  oid: string;
+  size: number;
 }
 
 // GitHub settings for API and storage (legacy - keeping for compatibility)
@@ -77,11 +113,23 @@ export interface ThumbnailFile {
 }
 
 export interface UploadProgress {
-  status: 'pending' | 'uploading' | 'success' | 'error';
+  status: 'pending' | 'queued' | 'uploading' | 'success' | 'error';
   progress: number;
+  transfer?: UploadTransfer;
+  attempts?: number; // failed attempts so far while queued for a retry
   error?: string;
 }
 
+// Bytes actually sent for the request currently carrying file content
+export interface UploadTransfer {
+  bytesSent: number;
+  totalBytes: number;
+  bytesPerSecond: number;
+  secondsRemaining: number | null; // null until there is a throughput to estimate from
+}
+
+export type UploadProgressCallback = (progress: number, transfer?: UploadTransfer) => void;
+
 export interface ModalState {
   type: 'alert' | 'confirm' | null;
   message: string;
@@ -106,6 +154,31 @@ export interface FileRecord extends FileMetadata {
   file: Blob;
   url?: string;
   base64Data?: string; // For persistent storage
+  pullRequest?: PullRequestRef; // Set while the file only exists on an open pull request branch
+  path?: string; // Repository path of a file listed from GitHub
+  folder?: string; // Subfolder below the media path, e.g. 'Podcast/2025' ('' at the top level)
+  sha?: string; // Blob SHA of a file listed from GitHub
+  profileId?: string; // Repository profile a local recording is uploaded to
+}
+
+// Thumbnail listed from the repository, keyed by media base name
+export interface RemoteThumbnail {
+  url: string; // Repository path
+  isLocal: false;
+  sha?: string;
+}
+
+export interface PullRequestRef {
+  number: number;
+  url: string;
+  branch: string;
+}
+
+// Pull request opened by an upload in pull request publishing mode
+export interface PendingPullRequest extends PullRequestRef {
+  title: string;
+  created: number;
+  files: Array<{ fileName: string; path: string; pathType: 'media' | 'thumbnail' }>;
 }
 
 // Basic GitHub auth config (stored in auth store)
@@ -113,21 +186,40 @@ export interface GitHubAuthConfig {
   token: string;
   owner: string;
   repo: string;
+  apiBaseUrl?: string; // REST API root of a GitHub Enterprise Server (github.com when unset)
+  rawBaseUrl?: string; // Raw file root, when it differs from the one derived from apiBaseUrl
 }
 
 // Full GitHub config (combines auth + settings for utils)
 export interface GitHubConfig extends GitHubAuthConfig {
+  branch: string;
   path: string;
   thumbnailPath: string;
   thumbnailWidth: number;
   thumbnailHeight: number;
+  mediaStorage?: MediaStorage;
+  podcastFeed?: PodcastFeedSettings; // Only set while the feed is enabled
+  profileId?: string; // Repository profile the configuration was built from
 }
 
 export interface GitTreeItem {
   path: string;
   mode: string;
   type: string;
-  sha: string;
+  sha: string | null; // null removes the path from the base tree
+}
+
+// Repository file moved to a new path in a commit
+export interface RepositoryRename {
+  from: string;
+  to: string;
+  sha: string; // Existing blob, reused so the content is not uploaded again
+}
+
+// File content written to a repository path in a commit
+export interface RepositoryFile {
+  path: string;
+  file: Blob;
 }
 
 export interface CreateTreeBody {
@@ -143,6 +235,17 @@ export interface CreateCommitBody {
 
 export interface EnhancedFileRecord extends FileRecord {
   isLocal: boolean;
+  cached?: boolean; // Remote file with a downloaded copy on this device
+  offlineUrl?: string; // Blob URL of the downloaded media
+  offlineThumbnailUrl?: string; // Blob URL of the downloaded thumbnail
+}
+
+// Remote file downloaded for offline playback, keyed by file id in the files store
+export interface OfflineFile {
+  size: number;
+  cachedAt: number;
+  hasThumbnail: boolean;
+  auto?: boolean; // Downloaded by the auto-cache setting rather than by hand
 }
 
 // ============================================================================
@@ -31,3 +31,9 @@ export interface AudioConversionCallback {
   onProgress?: (progress: number, phase: string) => void;
 }
 
+
+// Base64 Worker Service types
+export interface Base64EncodingCallback {
+  resolve: (body: Blob) => void;
+  reject: (error: Error) => void;
+}
@@ -1,5 +1,5 @@
 // Store state type definitions
-import type { FileRecord, UploadProgress, EnhancedFileRecord, GitHubAuthConfig, AppSettings } from './index';
+import type { FileRecord, UploadProgress, EnhancedFileRecord, OfflineFile, GitHubAuthConfig, AppSettings, PendingPullRequest, RemoteThumbnail, RepositoryCheck, RepositoryProfile } from './index';
 
 // Screen navigation type
 export type Screen = 'audio' | 'video' | 'library' | 'settings';
@@ -13,6 +13,8 @@ export interface FilesState {
   uploadState: Record<string, UploadProgress>;
   lastRefresh: number;
   remoteError: string | null;
+  offlineFiles: Record<string, OfflineFile>;
+  cachingIds: string[]; // Remote files being downloaded for offline playback
 
   // Actions
   loadFiles: () => Promise<void>;
@@ -26,6 +28,9 @@ export interface FilesState {
   clearUploadProgress: (fileId: string) => void;
   refreshFiles: () => Promise<void>;
   setRemoteError: (error: string | null) => void;
+  makeAvailableOffline: (fileId: string, auto?: boolean) => Promise<void>;
+  removeOfflineCopy: (fileId: string) => Promise<void>;
+  autoCacheRecent: () => Promise<void>;
   reset: () => Promise<void>;
 }
 
@@ -40,12 +45,20 @@ export interface AuthState {
     avatar_url?: string;
   } | null;
   tokenTimestamp: number | null;
+  tokenExpiresAt: number | null; // As reported by GitHub; null when the token doesn't expire or it isn't known yet
+  encryptedToken: import('./utils').EncryptedToken | null; // Set in passphrase mode; the plain token then lives in memory only
 
   // Actions
   login: (config: GitHubAuthConfig, userInfo?: unknown) => void;
   logout: () => void;
   updateConfig: (config: Partial<GitHubAuthConfig>) => void;
   setUserInfo: (userInfo: unknown) => void;
+  setTokenExpiresAt: (expiresAt: number | null) => void;
+  // Passphrase mode; the async actions resolve false for a wrong passphrase
+  enablePassphrase: (passphrase: string) => Promise<void>;
+  unlock: (passphrase: string) => Promise<boolean>;
+  changePassphrase: (currentPassphrase: string, newPassphrase: string) => Promise<boolean>;
+  removePassphrase: (currentPassphrase: string) => Promise<boolean>;
 }
 
 // uiStore
@@ -63,8 +76,10 @@ export interface UIState {
     message?: string;
     confirmText?: string;
     cancelText?: string;
+    alternativeText?: string; // Third choice of a confirm dialog, between cancel and confirm
     data?: unknown;
     onConfirm?: () => void;
+    onAlternative?: () => void;
     onCancel?: () => void;
   };
 
@@ -87,28 +102,47 @@ export interface SettingsState {
   // App settings
   audioFormat: 'mp3' | 'wav';
   appSettings: AppSettings | null;
+  repositoryCheck: RepositoryCheck | null; // Last pre-flight check of the upload target
+  profiles: RepositoryProfile[];
+  activeProfileId: string | null; // Profile whose settings appSettings holds
 
   // Actions
   setAudioFormat: (format: 'mp3' | 'wav') => void;
   setAppSettings: (settings: AppSettings) => void;
   updateAppSettings: (settings: Partial<AppSettings>) => void;
+  setRepositoryCheck: (check: RepositoryCheck | null) => void;
+  addProfile: (name: string) => string;
+  switchProfile: (profileId: string) => void;
+  renameProfile: (profileId: string, name: string) => void;
+  removeProfile: (profileId: string) => void;
   reset: () => void;
 }
 
+// Remote listing of one repository profile, kept while another profile is active
+export type RemoteListingCache = Pick<GitState, 'remoteFiles' | 'remoteThumbnails' | 'lastRemoteFetch' | 'lastHeadSha' | 'pendingPullRequests'>;
+
 // gitStore
 export interface GitState {
   // Remote files state
   remoteFiles: FileRecord[];
-  remoteThumbnails: Record<string, { url: string; isLocal: false }>;
+  remoteThumbnails: Record<string, RemoteThumbnail>;
   isLoadingRemote: boolean;
   lastRemoteFetch: number;
   remoteError: string | null;
-  lastCommitTimestamp: number;
+  lastHeadSha: string | null; // Commit the cached listings were read at
+  pendingPullRequests: PendingPullRequest[];
+  profileCaches: Record<string, RemoteListingCache>; // Listings of the inactive profiles
 
   // Actions
   fetchRemoteFiles: (forceRefresh?: boolean) => Promise<void>;
+  addPendingPullRequest: (pullRequest: PendingPullRequest, profileId?: string) => void;
+  refreshPendingPullRequests: () => Promise<void>;
+  deleteRemoteFile: (fileId: string) => Promise<void>;
+  renameRemoteFile: (fileId: string, newName: string, thumbnailFile?: Blob | null) => Promise<void>;
   autoRefreshIfStale: () => Promise<void>;
   setRemoteError: (error: string | null) => void;
-  invalidateCache: () => void;
+  invalidateCache: (profileId?: string) => void;
+  switchProfileCache: (fromProfileId: string | null, toProfileId: string) => void;
+  forgetProfileCache: (profileId: string) => void;
   reset: () => void;
 }
\ No newline at end of file
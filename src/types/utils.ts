@@ -5,9 +5,35 @@ export interface TokenValidationResult {
   isValid: boolean;
   isExpired: boolean;
   username?: string;
+  expiresAt?: number | null; // From GitHub's token-expiration header; null when the token doesn't expire
   error?: string;
 }
 
+// tokenCrypto utility
+// GitHub token sealed with a passphrase; every field is safe to persist
+export interface EncryptedToken {
+  ciphertext: string; // base64, AES-GCM output including the auth tag
+  iv: string; // base64
+  salt: string; // base64, PBKDF2 salt
+  iterations: number; // PBKDF2 iterations the key was derived with
+}
+
+// deviceFlow utility
+// Code the user enters on GitHub to authorize this app
+export interface DeviceAuthorization {
+  deviceCode: string; // Secret, only sent back when polling
+  userCode: string; // Shown to the user, e.g. "WDJB-MJHT"
+  verificationUri: string; // Where the user enters the code
+  expiresAt: number; // ms since epoch
+  interval: number; // Seconds to wait between polls
+}
+
+export interface DeviceFlowOptions {
+  clientId: string;
+  baseUrl: string; // Web address serving /login/device/code and /login/oauth/access_token
+  scope?: string;
+}
+
 // device utility
 export type MobilePlatform = 'android' | 'ios-safari' | 'ios-chrome' | null;
 
@@ -19,13 +45,161 @@ export interface ImageProcessOptions {
   format?: 'jpeg' | 'jpg'; // Always JPG for our use case
 }
 
+// uploadUtils utility
+export interface BatchUploadItem {
+  file: Blob;
+  fileName: string;
+  pathType: 'media' | 'thumbnail';
+  duration?: number; // Media only, in seconds, recorded in the media manifest
+}
+
+// mediaManifest utility
+// Recording listed in the media folder's index.json
+export interface MediaManifestEntry {
+  path: string;
+  thumbnailPath?: string;
+  title: string;
+  author: string;
+  category: string;
+  date: string; // YYYY-MM-DD, empty when the file name has none
+  duration?: number; // Seconds, when known at upload
+  size: number; // Bytes of the recording, not of an LFS pointer
+  mimeType: string;
+  sha: string; // Blob SHA of the committed file
+}
+
+export interface MediaManifest {
+  version: number;
+  updated: string; // ISO timestamp of the commit that last wrote it
+  files: MediaManifestEntry[];
+}
+
+// What a commit knows about media it adds, which its tree entry does not say
+export interface MediaManifestDetails {
+  size: number;
+  mimeType: string;
+  duration?: number;
+}
+
+// uploadQueue utility
+export interface UploadJob {
+  id: string;
+  batchId: string; // jobs queued together are committed together
+  sequence: number; // processing order
+  fileId: string; // local media record, also the uploadState key
+  fileName: string;
+  file: Blob;
+  duration?: number; // Seconds, for the media manifest
+  thumbnail?: {
+    fileName: string;
+    file: Blob; // already cropped and converted for upload
+  };
+  publishMode: import('./index').PublishMode;
+  profileId?: string; // Repository profile to upload to (the active one when unset)
+  status: 'queued' | 'uploading' | 'failed';
+  attempts: number;
+  nextAttemptAt: number;
+  lastError?: string;
+  created: number;
+}
+
+export type NewUploadJob = Pick<UploadJob, 'fileId' | 'fileName' | 'file' | 'duration' | 'thumbnail' | 'profileId'>;
+
+// Upload the service worker committed, kept until the app has removed the local recording
+export type CompletedUpload = Pick<UploadJob, 'fileId' | 'fileName' | 'profileId'>;
+
 // githubUtils utility
-export interface GitHubFile {
-  name: string;
+// Entry of a Git Trees API listing; paths are relative to the listed tree
+export interface GitHubTreeEntry {
   path: string;
+  mode: string;
+  type: 'blob' | 'tree' | 'commit';
   sha: string;
-  size: number;
-  download_url: string | null;
-  type: 'file' | 'dir';
+  size?: number; // Blobs only
 }
 
+export interface GitHubTree {
+  sha: string;
+  tree: GitHubTreeEntry[];
+  truncated: boolean; // Set when GitHub cut a recursive listing short
+}
+
+// File entry of a compare API response
+export interface GitHubCompareFile {
+  filename: string;
+  previous_filename?: string; // Set on renames
+  status: 'added' | 'removed' | 'modified' | 'renamed' | 'copied' | 'changed' | 'unchanged';
+  sha: string;
+}
+
+// Listing changes between two commits of the configured branch
+export interface RemoteChanges {
+  removedPaths: string[]; // Deleted, renamed away or rewritten
+  files: import('./index').FileRecord[]; // Media added or rewritten
+  thumbnails: Record<string, import('./index').RemoteThumbnail>; // Thumbnails added or rewritten
+}
+
+// Commit entry of a commits API response
+export interface GitHubCommit {
+  sha: string;
+  commit: {
+    message: string;
+    author: { name: string; date: string } | null;
+  };
+  author: { login: string } | null; // GitHub account, when the commit email is linked to one
+  parents: Array<{ sha: string }>;
+  files?: GitHubCompareFile[]; // Single commit requests only
+}
+
+// Commit that changed a repository file, newest first in a file's history
+export interface FileVersion {
+  commitSha: string;
+  path: string; // Path of the file in that commit, which differs from the current one before a rename
+  message: string; // First line of the commit message
+  author: string;
+  date: string; // ISO 8601
+}
+
+// Pre-flight check of the configured repository before uploading
+export interface RepositoryCheckItem {
+  id: 'repository' | 'push' | 'branch' | 'mediaFolder' | 'thumbnailFolder';
+  label: string;
+  status: 'ok' | 'missing' | 'failed' | 'skipped';
+  detail?: string;
+}
+
+export interface RepositoryCheck {
+  target: string; // owner/repo@branch the check ran against
+  items: RepositoryCheckItem[];
+  canUpload: boolean; // Repository reachable, writable and the branch exists
+  defaultBranch: string | null; // Where a missing branch gets created from
+  checkedAt: number;
+}
+
+
+// fetch() options for GitHub API requests; headers stay a plain object so they can be extended
+export type GitHubRequestInit = Omit<RequestInit, 'headers'> & {
+  headers?: Record<string, string>;
+  duplex?: 'half'; // Required by browsers for streamed request bodies
+};
+
+// GitHub API response kept for conditional requests
+export interface CachedGitHubResponse {
+  key: string; // Account, Accept header and URL of the request
+  url: string;
+  etag?: string;
+  lastModified?: string;
+  status: number;
+  contentType?: string;
+  body: string;
+  storedAt: number;
+}
+
+// GitHub REST API quota, as last reported by response headers
+export interface RateLimitStatus {
+  limit: number | null;
+  remaining: number | null;
+  resetAt: number | null; // When the quota refills (ms since epoch)
+  secondaryUntil: number | null; // When a secondary rate limit lifts (ms since epoch)
+  updatedAt: number | null;
+}
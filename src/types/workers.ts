@@ -35,4 +35,27 @@ export interface AudioProcessingResponse {
   phase?: string;
   data?: import('./services').AudioConversionResult;
   error?: string;
-}
\ No newline at end of file
+}
+
+// Base64 Encoding Worker types
+export interface Base64EncodingMessage {
+  type: 'encode-json-body';
+  id: string;
+  data: {
+    file: Blob;
+    prefix: string;
+    suffix: string;
+  };
+}
+
+export interface Base64EncodingResponse {
+  type: 'encoding-complete' | 'error';
+  id: string;
+  data?: Blob;
+  error?: string;
+}
+
+// Service worker background sync messages, posted to open app windows
+export type UploadSyncMessage =
+  | { type: 'upload-complete'; fileIds: string[]; fileNames: string[]; profileId?: string }
+  | { type: 'upload-failed'; fileIds: string[]; error: string };
@@ -9,6 +9,9 @@ export const LOCALSTORAGE_KEYS = {
 import type { MediaCategory } from '../types';
 import { useSettingsStore } from '../stores/settingsStore';
 
+// Branch used when the settings don't name one (settings saved before branches were configurable)
+export const DEFAULT_BRANCH = 'main';
+
 export const DEFAULT_MEDIA_CATEGORIES: MediaCategory[] = [
   { id: 'Music', name: 'Music' },
   { id: 'Podcast', name: 'Podcast' },
@@ -0,0 +1,103 @@
+// Background Sync for queued uploads
+// - The app registers a sync tag when uploads are queued while offline
+// - The service worker commits the queued batches when connectivity returns,
+//   even if every app window has been closed
+// - Committed uploads are recorded in the queue for the app to clean up on its next start,
+//   and outcomes are posted back to open windows
+
+import type { GitHubConfig } from '../types';
+import type { UploadSyncMessage } from '../types/workers';
+import {
+  listUploadJobs,
+  updateUploadJobs,
+  completeUploadJobs,
+  recordUploadFailure,
+  uploadJobItems,
+  withUploadQueueLock,
+  saveUploadConfig,
+  loadUploadConfig
+} from './uploadQueue';
+import { commitFilesBatch } from './gitDataUtils';
+
+export const UPLOAD_SYNC_TAG = 'upload-queue';
+
+// Background Sync is not in the DOM typings yet
+type SyncCapableRegistration = ServiceWorkerRegistration & {
+  sync?: { register(tag: string): Promise<void> };
+};
+
+/**
+ * Ask the service worker to finish queued uploads once the device is back online,
+ * with the configuration of every repository profile that has queued uploads.
+ * Resolves false when the browser has no service worker or no Background Sync.
+ */
+export async function registerUploadSync(configs: GitHubConfig[]): Promise<boolean> {
+  if (configs.length === 0 || !('serviceWorker' in navigator) || !navigator.serviceWorker) {
+    return false;
+  }
+
+  const registration = await navigator.serviceWorker.getRegistration() as SyncCapableRegistration | undefined;
+  if (!registration?.sync) {
+    return false;
+  }
+
+  for (const config of configs) {
+    await saveUploadConfig(config);
+  }
+  await registration.sync.register(UPLOAD_SYNC_TAG);
+  return true;
+}
+
+type QueueStep = 'committed' | 'skipped' | 'done';
+
+/**
+ * Commit queued batches in order from the service worker. Batches the app has
+ * to handle are skipped, as are jobs still backing off from a failed attempt.
+ * Rejects when a batch fails or jobs are still backing off, so the browser
+ * schedules the sync again later.
+ */
+export async function runQueuedUploads(notify: (message: UploadSyncMessage) => void): Promise<void> {
+  const skippedBatchIds = new Set<string>();
+  let backingOff = false;
+
+  for (;;) {
+    const step = await withUploadQueueLock(async (): Promise<QueueStep> => {
+      const pending = (await listUploadJobs())
+        .filter(job => job.status !== 'failed' && !skippedBatchIds.has(job.batchId));
+      const [head] = pending;
+      if (!head) return 'done';
+
+      // Pull requests are tracked in the app's store, so those batches wait for the app,
+      // as do batches for a profile the app has not saved a configuration for
+      const config = head.publishMode === 'pullRequest' ? null : await loadUploadConfig(head.profileId);
+      const now = Date.now();
+      const batch = pending.filter(job => job.batchId === head.batchId && job.nextAttemptAt <= now);
+      if (!config || batch.length === 0) {
+        skippedBatchIds.add(head.batchId);
+        backingOff ||= !!config;
+        return 'skipped';
+      }
+
+      const fileIds = batch.map(job => job.fileId);
+      await updateUploadJobs(batch.map(job => ({ ...job, status: 'uploading' })));
+
+      try {
+        await commitFilesBatch(config, batch.flatMap(uploadJobItems));
+      } catch (error) {
+        const [failed] = await recordUploadFailure(batch, error);
+        notify({ type: 'upload-failed', fileIds, error: failed.lastError || 'Upload failed' });
+        throw error;
+      }
+
+      await completeUploadJobs(batch);
+      notify({ type: 'upload-complete', fileIds, fileNames: batch.map(job => job.fileName), profileId: head.profileId });
+      return 'committed';
+    });
+
+    if (step === 'done') break;
+  }
+
+  if (backingOff) {
+    throw new Error('Queued uploads are waiting to be retried');
+  }
+}
@@ -0,0 +1,112 @@
+// Chunked base64 encoding for upload request bodies
+// Recordings are read slice by slice so peak memory stays at a few chunks,
+// never at a multiple of the file size
+
+// Multiple of 3 so consecutive chunks encode without padding in between
+export const BASE64_CHUNK_SIZE = 3 * 256 * 1024;
+
+/**
+ * Encode bytes as base64 without building one huge argument list
+ */
+export function bytesToBase64(bytes: Uint8Array): string {
+  let binary = '';
+  const step = 0x8000; // 32KB keeps String.fromCharCode under engine argument limits
+
+  for (let i = 0; i < bytes.length; i += step) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + step));
+  }
+
+  return btoa(binary);
+}
+
+/**
+ * Yield the base64 encoding of a blob one chunk at a time
+ */
+export async function* base64Chunks(file: Blob, chunkSize = BASE64_CHUNK_SIZE): AsyncGenerator<string> {
+  for (let offset = 0; offset < file.size; offset += chunkSize) {
+    const slice = file.slice(offset, Math.min(offset + chunkSize, file.size));
+    yield bytesToBase64(new Uint8Array(await slice.arrayBuffer()));
+  }
+}
+
+/**
+ * Stream a JSON body of the form `${prefix}<base64 of file>${suffix}`.
+ * Chunks are only read when the network pulls for more data, so the
+ * file bytes handed to onBytesRead track what has been sent.
+ */
+export function createBase64JsonStream(
+  file: Blob,
+  prefix: string,
+  suffix: string,
+  chunkSize = BASE64_CHUNK_SIZE,
+  onBytesRead?: (bytesRead: number) => void
+): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  const chunks = base64Chunks(file, chunkSize);
+  let started = false;
+  let bytesRead = 0;
+
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      if (!started) {
+        started = true;
+        controller.enqueue(encoder.encode(prefix));
+        return;
+      }
+
+      const { value, done } = await chunks.next();
+      if (done) {
+        controller.enqueue(encoder.encode(suffix));
+        controller.close();
+        return;
+      }
+      controller.enqueue(encoder.encode(value));
+      bytesRead = Math.min(bytesRead + chunkSize, file.size);
+      onBytesRead?.(bytesRead);
+    },
+    async cancel() {
+      await chunks.return(undefined);
+    },
+  });
+}
+
+/**
+ * Build the same JSON body as a Blob for browsers without streaming uploads.
+ * Each encoded chunk is handed to the browser's blob storage straight away,
+ * so only the current chunk lives on the JavaScript heap.
+ */
+export async function composeBase64JsonBlob(file: Blob, prefix: string, suffix: string, chunkSize = BASE64_CHUNK_SIZE): Promise<Blob> {
+  let body = new Blob([prefix], { type: 'application/json' });
+
+  for await (const chunk of base64Chunks(file, chunkSize)) {
+    body = new Blob([body, chunk], { type: 'application/json' });
+  }
+
+  return new Blob([body, suffix], { type: 'application/json' });
+}
+
+let requestStreamsSupported: boolean | null = null;
+
+/**
+ * Whether fetch accepts a ReadableStream request body (Chromium 105+).
+ * Browsers without support either ignore `duplex` or turn the stream into a string body.
+ */
+export function supportsRequestStreams(): boolean {
+  if (requestStreamsSupported === null) {
+    try {
+      let duplexAccessed = false;
+      const hasContentType = new Request('https://api.github.com', {
+        body: new ReadableStream(),
+        method: 'POST',
+        get duplex() {
+          duplexAccessed = true;
+          return 'half';
+        },
+      } as RequestInit).headers.has('Content-Type');
+      requestStreamsSupported = duplexAccessed && !hasContentType;
+    } catch {
+      requestStreamsSupported = false;
+    }
+  }
+  return requestStreamsSupported;
+}
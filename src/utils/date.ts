@@ -88,4 +88,21 @@ export function isFutureDate(dateString: string): boolean {
   } catch {
     return false;
   }
-} 
\ No newline at end of file
+} 
+/**
+ * Format a timestamp as a local time of day (e.g. "14:05")
+ * @param timestamp - Milliseconds since epoch
+ * @returns Hours and minutes in the user's locale
+ */
+export function formatTime(timestamp: number): string {
+  return new Date(timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+}
+
+/**
+ * Format a timestamp as a local calendar day (e.g. "Nov 1, 2025")
+ * @param timestamp - Milliseconds since epoch
+ * @returns Month, day and year in the user's locale
+ */
+export function formatDay(timestamp: number): string {
+  return new Date(timestamp).toLocaleDateString([], { month: 'short', day: 'numeric', year: 'numeric' });
+}
@@ -0,0 +1,109 @@
+// GitHub OAuth device flow
+// - Requests a user code for the OAuth app, which the user enters on GitHub
+// - Polls for the access token at the interval GitHub asks for, backing off on slow_down
+// - Ends when the user authorizes, denies, the code expires or the caller aborts
+
+import type { DeviceAuthorization, DeviceFlowOptions } from '../types';
+
+const DEVICE_GRANT_TYPE = 'urn:ietf:params:oauth:grant-type:device_code';
+// Scope the token needs to commit to public and private repositories
+export const DEVICE_FLOW_SCOPE = 'repo';
+// RFC 8628: add five seconds to the interval on every slow_down
+const SLOW_DOWN_SECONDS = 5;
+
+function postForm(url: string, params: Record<string, string>, signal?: AbortSignal): Promise<Response> {
+  return fetch(url, {
+    method: 'POST',
+    headers: {
+      'Accept': 'application/json',
+      'Content-Type': 'application/x-www-form-urlencoded',
+    },
+    body: new URLSearchParams(params).toString(),
+    signal,
+  });
+}
+
+function delay(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new DOMException('Sign-in cancelled', 'AbortError'));
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new DOMException('Sign-in cancelled', 'AbortError'));
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Start a device flow sign-in
+ */
+export async function requestDeviceCode(options: DeviceFlowOptions, signal?: AbortSignal): Promise<DeviceAuthorization> {
+  const response = await postForm(`${options.baseUrl.replace(/\/+$/, '')}/login/device/code`, {
+    client_id: options.clientId,
+    scope: options.scope ?? DEVICE_FLOW_SCOPE,
+  }, signal);
+  const body = await response.json().catch(() => ({}));
+
+  if (!response.ok || body.error || !body.device_code) {
+    throw new Error(body.error_description || body.error || `Failed to start sign-in: ${response.status}`);
+  }
+
+  return {
+    deviceCode: body.device_code,
+    userCode: body.user_code,
+    verificationUri: body.verification_uri,
+    expiresAt: Date.now() + body.expires_in * 1000,
+    interval: body.interval,
+  };
+}
+
+/**
+ * Wait for the user to authorize the code on GitHub
+ * @returns The access token
+ * @throws Error when the user denies access or the code expires; AbortError when aborted
+ */
+export async function pollDeviceToken(
+  options: DeviceFlowOptions,
+  authorization: DeviceAuthorization,
+  signal?: AbortSignal
+): Promise<string> {
+  let interval = authorization.interval;
+
+  for (;;) {
+    await delay(interval * 1000, signal);
+    if (Date.now() >= authorization.expiresAt) {
+      throw new Error('The sign-in code expired. Please start again.');
+    }
+
+    const response = await postForm(`${options.baseUrl.replace(/\/+$/, '')}/login/oauth/access_token`, {
+      client_id: options.clientId,
+      device_code: authorization.deviceCode,
+      grant_type: DEVICE_GRANT_TYPE,
+    }, signal);
+    const body = await response.json().catch(() => ({}));
+
+    if (body.access_token) return body.access_token;
+
+    switch (body.error) {
+      case 'authorization_pending':
+        break;
+      case 'slow_down':
+        // GitHub names the new interval; otherwise back off as the spec says
+        interval = typeof body.interval === 'number' ? body.interval : interval + SLOW_DOWN_SECONDS;
+        break;
+      case 'expired_token':
+        throw new Error('The sign-in code expired. Please start again.');
+      case 'access_denied':
+        throw new Error('Sign-in was cancelled on GitHub.');
+      default:
+        throw new Error(body.error_description || body.error || `Sign-in failed: ${response.status}`);
+    }
+  }
+}
@@ -1,4 +1,4 @@
-import type { FileRecord, EnhancedFileRecord } from '../types';
+import type { FileRecord, EnhancedFileRecord, OfflineFile, PendingPullRequest } from '../types';
 import { sortFilesByDate } from './fileUtils';
 
 /**
@@ -10,7 +10,9 @@ import { sortFilesByDate } from './fileUtils';
  */
 export function combineAndDeduplicateFiles(
   localFiles: FileRecord[], 
-  remoteFiles: FileRecord[]
+  remoteFiles: FileRecord[],
+  pendingPullRequests: PendingPullRequest[] = [],
+  offlineFiles: Record<string, OfflineFile> = {}
 ): EnhancedFileRecord[] {
   // Convert local files to enhanced format
   const localEnhancedFiles: EnhancedFileRecord[] = localFiles
@@ -20,21 +22,30 @@ export function combineAndDeduplicateFiles(
       isLocal: true
     }));
 
-  // Create sets for efficient deduplication
-  const localFileNames = new Set(localEnhancedFiles.map(f => f.name));
+  // Create sets for efficient deduplication. Only uploaded local copies stand in for a
+  // remote file of the same name; a recording that is not uploaded yet is a different
+  // file that happens to share the name, so both are listed.
+  const uploadedLocalNames = new Set(localEnhancedFiles.filter(f => f.uploaded).map(f => f.name));
   const localFileIds = new Set(localEnhancedFiles.map(f => f.id));
   
   // Filter and enhance remote files
   const remoteEnhancedFiles: EnhancedFileRecord[] = remoteFiles
-    .filter(remoteFile => !localFileNames.has(remoteFile.name) && !localFileIds.has(remoteFile.id))
+    .filter(remoteFile => !uploadedLocalNames.has(remoteFile.name) && !localFileIds.has(remoteFile.id))
     .map(remoteFile => ({
       ...remoteFile,
       isLocal: false,
-      uploaded: true
+      uploaded: true,
+      // Downloaded for offline playback
+      ...(offlineFiles[remoteFile.id] ? { cached: true } : {})
     }));
 
+  // Files still waiting for review, unless the branch or a local copy already has them
+  const remoteFileNames = new Set(remoteEnhancedFiles.map(f => f.name));
+  const pendingFiles = pendingPullRequestFiles(pendingPullRequests)
+    .filter(file => !uploadedLocalNames.has(file.name) && !remoteFileNames.has(file.name));
+
   // Combine all files
-  const allFiles = [...localEnhancedFiles, ...remoteEnhancedFiles];
+  const allFiles = [...localEnhancedFiles, ...remoteEnhancedFiles, ...pendingFiles];
   
   // Final deduplication pass by ID
   const uniqueFiles = deduplicateById(allFiles);
@@ -43,6 +54,32 @@ export function combineAndDeduplicateFiles(
   return sortFilesByDate(uniqueFiles);
 }
 
+/**
+ * Build library entries for media files that only exist on open pull request branches
+ */
+export function pendingPullRequestFiles(pendingPullRequests: PendingPullRequest[]): EnhancedFileRecord[] {
+  return pendingPullRequests.flatMap(pr => pr.files
+    .filter(file => file.pathType === 'media')
+    .map(file => {
+      const extension = file.fileName.split('.').pop()?.toLowerCase() || '';
+      const type = ['mp4', 'webm', 'avi', 'mov'].includes(extension) ? 'video' as const : 'audio' as const;
+      return {
+        id: `pr-${pr.number}-${file.fileName}`,
+        name: file.fileName,
+        type,
+        mimeType: type === 'video' ? 'video/mp4' : 'audio/mp3',
+        size: 0,
+        duration: 0,
+        created: pr.created,
+        url: file.path,
+        uploaded: true,
+        file: undefined as unknown as Blob,
+        isLocal: false,
+        pullRequest: { number: pr.number, url: pr.url, branch: pr.branch },
+      };
+    }));
+}
+
 /**
  * Remove duplicate files by ID with logging
  */
@@ -318,6 +318,22 @@ export function formatMediaFileName({
   return `${components.join('_')}.${extension}`;
 }
 
+/**
+ * Name for another copy of a file, e.g. "Podcast_Weekly (2)_Team_2025-03-01.mp3".
+ * The number goes into the title so the name still parses into its metadata.
+ */
+export function withCopySuffix(name: string, copy: number): string {
+  const parsed = parseMediaFileName(name);
+  if (parsed?.category) {
+    const components = [parsed.category, `${parsed.title} (${copy})`, parsed.author, parsed.date]
+      .filter(component => component.length > 0);
+    return `${components.join('_')}.${parsed.extension}`;
+  }
+
+  const dot = name.lastIndexOf('.');
+  return dot > 0 ? `${name.slice(0, dot)} (${copy})${name.slice(dot)}` : `${name} (${copy})`;
+}
+
 /**
  * Validates if a file is a supported media file based on name and MIME type
  * @param filename - The file name to check
@@ -0,0 +1,591 @@
+// Git Data API steps for committing files to GitHub
+// - Blob, tree, commit and ref calls that take the configuration explicitly
+// - No store access, so the service worker can commit queued uploads on its own
+// - Contents API fallback for empty repositories
+// - Optional Git LFS storage for media files
+// - Rewrites the media manifest (index.json), and the podcast feed built from it, in the same
+//   commit as the files they list
+// - Streams base64 request bodies in bounded chunks for large recordings
+
+import type {
+  GitHubConfig,
+  CreateTreeBody,
+  CreateCommitBody,
+  GitTreeItem,
+  GitHubTree,
+  GitHubTreeEntry,
+  BatchUploadItem,
+  MediaManifest,
+  MediaManifestDetails,
+  UploadProgressCallback,
+} from '../types';
+import {
+  uploadLfsObject,
+  createLfsPointer,
+  decodeLfsPointer,
+  lfsAttributesLines,
+  LFS_POINTER_MAX_SIZE,
+} from './lfsUtils';
+import { BASE64_CHUNK_SIZE, bytesToBase64, createBase64JsonStream, supportsRequestStreams } from './base64Stream';
+import { base64WorkerService } from '../services/base64WorkerService';
+import { createTransferTracker, sendWithUploadProgress } from './transferProgress';
+import { githubFetch } from './githubFetch';
+import { recordRateLimit } from './rateLimit';
+import { recordTokenExpiration } from './tokenExpiration';
+import { repoApiUrl } from './githubHost';
+import {
+  describesTreeChanges,
+  listsTreeMedia,
+  mediaManifestPath,
+  mediaManifestDetails,
+  readMediaManifest,
+  seedMediaManifest,
+  serializeMediaManifest,
+  touchesMediaManifest,
+  updateMediaManifest,
+  MEDIA_EXTENSIONS,
+} from './mediaManifest';
+import { buildPodcastFeed, isGeneratedFeed, podcastFeedChanged, podcastFeedPath, readPodcastFeed } from './podcastFeed';
+
+// The singular ref endpoint matches exactly; the plural one lists every ref below a prefix
+export async function getLatestCommitSha(config: GitHubConfig, branch = config.branch) {
+  const res = await githubFetch(`${repoApiUrl(config)}/git/ref/heads/${branch}`, {
+    headers: { Authorization: `Bearer ${config.token}` },
+  });
+  if (res.status === 404) {
+    // Branch doesn't exist (empty repo)
+    return null;
+  }
+  if (res.status === 409) {
+    // Git Repository is empty (GitHub returns 409 for empty repos)
+    return null;
+  }
+  if (!res.ok) {
+    const errorText = await res.text();
+    throw new Error(`Failed to get latest commit SHA: ${res.status} ${errorText}`);
+  }
+  const data = await res.json();
+  return data.object.sha;
+}
+
+export async function getTreeSha(config: GitHubConfig, commitSha: string) {
+  const res = await githubFetch(`${repoApiUrl(config)}/git/commits/${commitSha}`, {
+    headers: { Authorization: `Bearer ${config.token}` },
+  });
+  if (!res.ok) throw new Error('Failed to get tree SHA');
+  const data = await res.json();
+  return data.tree.sha;
+}
+
+/**
+ * Send a JSON request whose body is `${prefix}<base64 of file>${suffix}`.
+ * Files up to one chunk are encoded in place; larger ones are streamed,
+ * or encoded in a worker when the browser cannot stream request bodies.
+ * onBytesSent receives how many bytes of the file have been sent.
+ */
+async function fetchWithBase64Body(
+  url: string,
+  init: { method: string; headers: Record<string, string> },
+  file: Blob,
+  prefix: string,
+  suffix: string,
+  onBytesSent?: (bytesSent: number) => void
+): Promise<Response> {
+  if (file.size <= BASE64_CHUNK_SIZE) {
+    const base64 = bytesToBase64(new Uint8Array(await file.arrayBuffer()));
+    const res = await githubFetch(url, { ...init, body: `${prefix}${base64}${suffix}` });
+    onBytesSent?.(file.size);
+    return res;
+  }
+
+  if (supportsRequestStreams()) {
+    try {
+      return await githubFetch(url, {
+        ...init,
+        body: createBase64JsonStream(file, prefix, suffix, BASE64_CHUNK_SIZE, onBytesSent),
+        duplex: 'half',
+      });
+    } catch (error) {
+      // Streaming bodies need HTTP/2 end to end; retry with a prebuilt body
+      console.warn('Streaming upload failed, retrying with encoded body:', error);
+    }
+  }
+
+  const body = await base64WorkerService.encodeJsonBody(file, prefix, suffix);
+  if (onBytesSent) {
+    // The body is base64 plus a small JSON wrapper, so scale back to file bytes
+    const response = await sendWithUploadProgress(url, init, body, (loaded, total) => {
+      onBytesSent(Math.round((loaded / total) * file.size));
+    });
+    // Sent past githubFetch, so the response is recorded here
+    recordRateLimit(response);
+    recordTokenExpiration(response);
+    return response;
+  }
+  return githubFetch(url, { ...init, body });
+}
+
+export async function createBlob(config: GitHubConfig, file: Blob, onBytesSent?: (bytesSent: number) => void) {
+  const url = `${repoApiUrl(config)}/git/blobs`;
+  console.log('Creating blob at:', url);
+  const res = await fetchWithBase64Body(url, {
+    method: 'POST',
+    headers: {
+      Authorization: `Bearer ${config.token}`,
+      'Content-Type': 'application/json',
+    },
+  }, file, '{"content":"', '","encoding":"base64"}', onBytesSent);
+  if (!res.ok) {
+    const errorText = await res.text();
+    console.error('Blob creation failed:', res.status, errorText);
+    throw new Error(`Failed to create blob: ${res.status} ${errorText}`);
+  }
+  const data = await res.json();
+  return data.sha;
+}
+
+export async function createTree(config: GitHubConfig, baseTreeSha: string | null, entries: GitTreeItem[]) {
+  const body: CreateTreeBody = {
+    tree: entries,
+  };
+  
+  // Only include base_tree if we have one (not for initial commit)
+  if (baseTreeSha) {
+    body.base_tree = baseTreeSha;
+  }
+  
+  const res = await githubFetch(`${repoApiUrl(config)}/git/trees`, {
+    method: 'POST',
+    headers: {
+      Authorization: `Bearer ${config.token}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(body),
+  });
+  if (!res.ok) throw new Error('Failed to create tree');
+  const data = await res.json();
+  return data.sha;
+}
+
+export async function createCommit(config: GitHubConfig, message: string, treeSha: string, parentSha: string | null) {
+  const body: CreateCommitBody = {
+    message,
+    tree: treeSha,
+  };
+  
+  // Only include parents if we have a parent (not for initial commit)
+  if (parentSha) {
+    body.parents = [parentSha];
+  }
+  
+  const res = await githubFetch(`${repoApiUrl(config)}/git/commits`, {
+    method: 'POST',
+    headers: {
+      Authorization: `Bearer ${config.token}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(body),
+  });
+  if (!res.ok) throw new Error('Failed to create commit');
+  const data = await res.json();
+  return data.sha;
+}
+
+
+export async function updateRef(config: GitHubConfig, commitSha: string, branch = config.branch, force = false) {
+  const res = await githubFetch(`${repoApiUrl(config)}/git/refs/heads/${branch}`, {
+    method: 'PATCH',
+    headers: {
+      Authorization: `Bearer ${config.token}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ 
+      sha: commitSha,
+      force: force
+    }),
+  });
+  if (!res.ok) {
+    const errorText = await res.text();
+    throw new Error(`Failed to update ref: ${res.status} ${errorText}`);
+  }
+}
+
+export function blobTreeItem(filePath: string, blobSha: string): GitTreeItem {
+  return {
+    path: filePath,
+    mode: '100644',
+    type: 'blob',
+    sha: blobSha,
+  };
+}
+
+// Tree entry that removes a file when the tree is built on a base tree
+export function deletionTreeItem(filePath: string): GitTreeItem {
+  return {
+    path: filePath,
+    mode: '100644',
+    type: 'blob',
+    sha: null,
+  };
+}
+
+export function usesLfs(config: GitHubConfig, pathType: 'media' | 'thumbnail') {
+  return pathType === 'media' && config.mediaStorage === 'lfs';
+}
+
+// In LFS mode media bytes go to the LFS store and the commit only carries the pointer.
+// onBytesSent receives how many bytes of the file have gone to the LFS store.
+export async function committedContent(
+  config: GitHubConfig,
+  file: Blob,
+  pathType: 'media' | 'thumbnail',
+  onBytesSent?: (bytesSent: number) => void
+): Promise<Blob> {
+  if (!usesLfs(config, pathType)) {
+    return file;
+  }
+  console.log('Uploading media to Git LFS...');
+  const pointer = await uploadLfsObject(config, file, onBytesSent);
+  return new Blob([createLfsPointer(pointer)], { type: 'text/plain' });
+}
+
+// Tree entry adding the media extensions to .gitattributes, or none when they are already tracked
+export async function lfsAttributesTreeItems(config: GitHubConfig, branch = config.branch): Promise<GitTreeItem[]> {
+  const res = await githubFetch(`${repoApiUrl(config)}/contents/.gitattributes?ref=${encodeURIComponent(branch)}`, {
+    headers: { Authorization: `Bearer ${config.token}` },
+  });
+
+  let attributes = '';
+  if (res.ok) {
+    const data = await res.json();
+    attributes = data.content ? atob(data.content.replace(/\s/g, '')) : '';
+  } else if (res.status !== 404) {
+    throw new Error(`Failed to read .gitattributes: ${res.status}`);
+  }
+
+  const existing = attributes.split('\n').map(line => line.trim());
+  const missing = lfsAttributesLines(config.path).filter(line => !existing.includes(line));
+  if (missing.length === 0) {
+    return [];
+  }
+
+  const separator = attributes && !attributes.endsWith('\n') ? '\n' : '';
+  const content = `${attributes}${separator}${missing.map(line => `${line}\n`).join('')}`;
+  const blobSha = await createBlob(config, new Blob([content], { type: 'text/plain' }));
+  return [blobTreeItem('.gitattributes', blobSha)];
+}
+
+async function readTree(config: GitHubConfig, treeSha: string, recursive: boolean): Promise<GitHubTree> {
+  const res = await githubFetch(`${repoApiUrl(config)}/git/trees/${treeSha}${recursive ? '?recursive=1' : ''}`, {
+    headers: { Authorization: `Bearer ${config.token}` },
+  });
+  if (!res.ok) throw new Error(`Failed to list repository tree: ${res.status}`);
+  return res.json();
+}
+
+// Blobs of a tree inside the media and thumbnail folders, with paths prefixed by the tree's own path.
+// A truncated recursive listing is replaced by walking one level at a time towards those folders.
+async function listFolderBlobs(config: GitHubConfig, treeSha: string, prefix = ''): Promise<GitHubTreeEntry[]> {
+  const folders = [config.path, config.thumbnailPath];
+  const withPrefix = (entry: GitHubTreeEntry) => ({ ...entry, path: `${prefix}${entry.path}` });
+  const inFolders = (entry: GitHubTreeEntry) => entry.type === 'blob' && folders.some(folder => entry.path.startsWith(folder));
+
+  const listing = await readTree(config, treeSha, true);
+  if (!listing.truncated) return listing.tree.map(withPrefix).filter(inFolders);
+
+  const level = (await readTree(config, treeSha, false)).tree.map(withPrefix);
+  const nested = await Promise.all(
+    level
+      .filter(entry => entry.type === 'tree')
+      .filter(entry => folders.some(folder => `${entry.path}/`.startsWith(folder) || folder.startsWith(`${entry.path}/`)))
+      .map(entry => listFolderBlobs(config, entry.sha, `${entry.path}/`))
+  );
+  return [...level.filter(inFolders), ...nested.flat()];
+}
+
+// The object size of a media blob that is an LFS pointer, or its own size otherwise
+async function mediaObjectSize(config: GitHubConfig, entry: GitHubTreeEntry): Promise<number | undefined> {
+  const extension = entry.path.split('.').pop()?.toLowerCase() || '';
+  if (!MEDIA_EXTENSIONS.includes(extension) || (entry.size ?? 0) > LFS_POINTER_MAX_SIZE) {
+    return entry.size;
+  }
+  const res = await githubFetch(`${repoApiUrl(config)}/git/blobs/${entry.sha}`, {
+    headers: { Authorization: `Bearer ${config.token}` },
+  });
+  if (!res.ok) {
+    console.warn(`Could not read ${entry.path} to check for an LFS pointer: ${res.status}`);
+    return entry.size;
+  }
+  const data = await res.json();
+  return decodeLfsPointer(data.content || '')?.size ?? entry.size;
+}
+
+/**
+ * The manifest to apply tree changes to: the current one while it lists the media of the
+ * tree and can describe the changes, or else one seeded from every media file and thumbnail
+ * in the tree. Entries of the current manifest are reused where the blob is unchanged,
+ * so only new pointers are read.
+ */
+async function manifestOfTree(
+  config: GitHubConfig,
+  treeSha: string,
+  current: MediaManifest | null,
+  treeItems: GitTreeItem[],
+  details: Record<string, MediaManifestDetails>
+): Promise<MediaManifest> {
+  const blobs = await listFolderBlobs(config, treeSha);
+  if (current && listsTreeMedia(current, config, blobs) && describesTreeChanges(current, config, treeItems, details)) {
+    return current;
+  }
+
+  console.log('Seeding media manifest from the repository tree');
+  const listed = new Map((current?.files || []).map(entry => [entry.path, entry.sha]));
+  const sized = await Promise.all(blobs.map(async entry => (
+    listed.get(entry.path) === entry.sha ? entry : { ...entry, size: await mediaObjectSize(config, entry) }
+  )));
+  return seedMediaManifest(config, sized, current);
+}
+
+/**
+ * Tree entries rewriting the media manifest for tree changes committed on top of
+ * the given commit and tree, plus the podcast feed when its episodes or channel settings
+ * differ from the feed in the repository. A missing manifest, one missing media committed
+ * without the app, or one that cannot describe media the changes move, is first seeded
+ * from the media already in the tree. None when the changes touch no media or thumbnails,
+ * or when there is no manifest yet and nothing to list in it.
+ * A feed file the app did not generate is never replaced.
+ */
+export async function mediaManifestTreeItems(
+  config: GitHubConfig,
+  baseCommitSha: string | null,
+  baseTreeSha: string | null,
+  treeItems: GitTreeItem[],
+  details: Record<string, MediaManifestDetails> = {}
+): Promise<GitTreeItem[]> {
+  if (!touchesMediaManifest(config, treeItems)) {
+    return [];
+  }
+  const current = baseCommitSha ? await readMediaManifest(config, baseCommitSha) : null;
+  const base = baseTreeSha ? await manifestOfTree(config, baseTreeSha, current, treeItems, details) : current;
+  const manifest = updateMediaManifest(base, config, treeItems, details);
+  if (!current && manifest.files.length === 0) {
+    return [];
+  }
+  const blobSha = await createBlob(config, new Blob([serializeMediaManifest(manifest)], { type: 'application/json' }));
+  const items = [blobTreeItem(mediaManifestPath(config), blobSha)];
+
+  const feed = config.podcastFeed;
+  if (feed?.enabled) {
+    const existingFeed = baseCommitSha ? await readPodcastFeed(config, feed, baseCommitSha) : null;
+    if (existingFeed !== null && !isGeneratedFeed(existingFeed)) {
+      // Settings refuse such a path when saved; the file may have been added since
+      console.warn(`${podcastFeedPath(feed)} was not generated by this app, leaving it alone`);
+    } else if (podcastFeedChanged(feed, existingFeed, manifest)) {
+      const feedSha = await createBlob(config, new Blob([buildPodcastFeed(manifest, feed)], { type: 'application/rss+xml' }));
+      items.push(blobTreeItem(podcastFeedPath(feed), feedSha));
+    }
+  }
+  return items;
+}
+
+export async function uploadFileContentsAPI(
+  config: GitHubConfig,
+  file: Blob,
+  filePath: string,
+  fileName: string,
+  onBytesSent?: (bytesSent: number) => void
+) {
+  const url = `${repoApiUrl(config)}/contents/${filePath}`;
+  console.log('Uploading via Contents API to:', url);
+  
+  const res = await fetchWithBase64Body(url, {
+    method: 'PUT',
+    headers: {
+      Authorization: `Bearer ${config.token}`,
+      'Content-Type': 'application/json',
+    },
+  }, file, `{"message":${JSON.stringify(`Upload ${fileName}`)},"content":"`, `","branch":${JSON.stringify(config.branch)}}`, onBytesSent);
+  
+  if (!res.ok) {
+    const errorText = await res.text();
+    console.error('Contents API upload failed:', res.status, errorText);
+    throw new Error(`Failed to upload file: ${res.status} ${errorText}`);
+  }
+  
+  const data = await res.json();
+  console.log('Upload successful via Contents API');
+  return data;
+}
+
+// Map bytes sent for one file onto the [start, start + span] stretch of overall progress
+export function byteProgress(file: Blob, start: number, span: number, onProgress?: UploadProgressCallback) {
+  if (!onProgress) return undefined;
+  const track = createTransferTracker(file.size);
+  return (bytesSent: number) => {
+    onProgress(start + (file.size ? bytesSent / file.size : 1) * span, track(bytesSent));
+  };
+}
+
+export type BatchEntry = BatchUploadItem & { filePath: string };
+
+// Manifest details of the batch's media files, by repository path
+export function batchManifestDetails(entries: BatchEntry[]): Record<string, MediaManifestDetails> {
+  return Object.fromEntries(entries
+    .filter(entry => entry.pathType === 'media')
+    .map(entry => [entry.filePath, mediaManifestDetails(entry.file, entry.duration)]));
+}
+
+export function resolveBatchEntries(config: GitHubConfig, items: BatchUploadItem[]): BatchEntry[] {
+  return items.map(item => ({
+    ...item,
+    filePath: `${item.pathType === 'thumbnail' ? config.thumbnailPath : config.path}${item.fileName}`,
+  }));
+}
+
+// Blob creation accounts for the 0.1 - 0.8 span of batch progress, with bytes counted across the batch
+export async function createBatchBlobs(config: GitHubConfig, entries: BatchEntry[], onProgress?: UploadProgressCallback): Promise<GitTreeItem[]> {
+  const totalBytes = entries.reduce((sum, entry) => sum + entry.file.size, 0);
+  const track = createTransferTracker(totalBytes);
+  const reportBytes = (bytesSent: number) => {
+    if (onProgress) onProgress(0.1 + (totalBytes ? bytesSent / totalBytes : 1) * 0.7, track(bytesSent));
+  };
+
+  let uploadedBytes = 0;
+  const treeItems: GitTreeItem[] = [];
+  for (const entry of entries) {
+    console.log('Creating blob for:', entry.filePath);
+    const reportEntryBytes = onProgress && ((bytesSent: number) => reportBytes(uploadedBytes + bytesSent));
+    const content = await committedContent(config, entry.file, entry.pathType, reportEntryBytes);
+    // LFS pointers stand in for the whole file, so scale their bytes to the file's size
+    const blobSha = await createBlob(config, content, reportEntryBytes && (bytesSent => {
+      reportEntryBytes((content.size ? bytesSent / content.size : 1) * entry.file.size);
+    }));
+    treeItems.push(blobTreeItem(entry.filePath, blobSha));
+    uploadedBytes += entry.file.size;
+  }
+  if (entries.some(entry => usesLfs(config, entry.pathType))) {
+    treeItems.push(...await lfsAttributesTreeItems(config));
+  }
+  return treeItems;
+}
+
+export function batchCommitMessage(names: string[]): string {
+  return names.length === 1
+    ? `Upload ${names[0]}`
+    : `Upload ${names.length} files\n\n${names.map(name => `- ${name}`).join('\n')}`;
+}
+/**
+ * Commit several files (media and thumbnails) to the configured branch in a single commit.
+ * All blobs are created first, then one tree, one commit and one ref update
+ * are made, so a batch never races against itself on the branch ref.
+ */
+export async function commitFilesBatch(config: GitHubConfig, items: BatchUploadItem[], onProgress?: UploadProgressCallback): Promise<void> {
+  if (items.length === 0) {
+    return;
+  }
+
+  const branch = config.branch;
+  const entries = resolveBatchEntries(config, items);
+
+  console.log('Batch upload details:', { branch, files: entries.map(entry => entry.filePath) });
+
+  if (onProgress) onProgress(0.05);
+  let remaining = entries;
+  // Files already committed before the batch commit, still to be listed in its manifest
+  const committedItems: GitTreeItem[] = [];
+  const latestCommitSha = await getLatestCommitSha(config, branch);
+
+  if (!latestCommitSha && entries.some(entry => usesLfs(config, entry.pathType))) {
+    // Empty repository in LFS mode - it starts with .gitattributes, so that every
+    // pointer is committed under the LFS attributes and the files share one commit
+    console.log('Using Contents API for .gitattributes of empty repository');
+    const attributes = lfsAttributesLines(config.path).map(line => `${line}\n`).join('');
+    await uploadFileContentsAPI(config, new Blob([attributes], { type: 'text/plain' }), '.gitattributes', '.gitattributes');
+  } else if (!latestCommitSha) {
+    // Empty repository - the Git Data API needs an initial commit, so the
+    // first file goes through the Contents API and the rest share one commit
+    console.log('Using Contents API for first file of empty repository');
+    const [first, ...rest] = entries;
+    const firstContent = await committedContent(config, first.file, first.pathType);
+    const firstUpload = await uploadFileContentsAPI(config, firstContent, first.filePath, first.fileName, byteProgress(firstContent, 0.05, 0.05, onProgress));
+    if (firstUpload?.content?.sha) {
+      committedItems.push(blobTreeItem(first.filePath, firstUpload.content.sha));
+    }
+    remaining = rest;
+    if (remaining.length === 0) {
+      // A lone file in an empty repository has no later commit to carry the manifest
+      if (onProgress) onProgress(1);
+      return;
+    }
+  }
+
+  // Create every blob up front so retries only redo the cheap tree/commit/ref steps
+  const treeItems = await createBatchBlobs(config, remaining, onProgress);
+  const message = batchCommitMessage(remaining.map(entry => entry.fileName));
+
+  let retries = 3;
+  while (retries > 0) {
+    try {
+      const currentCommitSha = await getLatestCommitSha(config, branch);
+      const baseTreeSha = await getTreeSha(config, currentCommitSha);
+      const manifestItems = await mediaManifestTreeItems(config, currentCommitSha, baseTreeSha, [...committedItems, ...treeItems], batchManifestDetails(entries));
+
+      if (onProgress) onProgress(0.85);
+      const treeSha = await createTree(config, baseTreeSha, [...treeItems, ...manifestItems]);
+      const commitSha = await createCommit(config, message, treeSha, currentCommitSha);
+
+      if (onProgress) onProgress(0.95);
+      await updateRef(config, commitSha, branch);
+
+      console.log('Batch upload successful!');
+      if (onProgress) onProgress(1);
+      return;
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      console.error('Batch upload error:', errorMessage);
+      retries--;
+      if ((errorMessage.includes('409') || errorMessage.includes('422')) && retries > 0) {
+        console.log(`Conflict detected, retrying batch commit... (${retries} attempts left)`);
+        await new Promise(resolve => setTimeout(resolve, 1000));
+        continue;
+      }
+      throw error;
+    }
+  }
+}
+/**
+ * Commit tree changes on top of the configured branch, rebuilding the commit
+ * on the latest head when the branch moves underneath it. Returns the commit SHA.
+ * Details describe media written with new content, for the media manifest.
+ */
+export async function commitTreeItems(
+  config: GitHubConfig,
+  message: string,
+  treeItems: GitTreeItem[],
+  details: Record<string, MediaManifestDetails> = {}
+): Promise<string> {
+  let retries = 3;
+  for (;;) {
+    try {
+      const currentCommitSha = await getLatestCommitSha(config);
+      if (!currentCommitSha) {
+        throw new Error(`Branch '${config.branch}' has no commits`);
+      }
+      const baseTreeSha = await getTreeSha(config, currentCommitSha);
+      const manifestItems = await mediaManifestTreeItems(config, currentCommitSha, baseTreeSha, treeItems, details);
+      const treeSha = await createTree(config, baseTreeSha, [...treeItems, ...manifestItems]);
+      const commitSha = await createCommit(config, message, treeSha, currentCommitSha);
+      await updateRef(config, commitSha);
+      return commitSha;
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      retries--;
+      if ((errorMessage.includes('409') || errorMessage.includes('422')) && retries > 0) {
+        console.log(`Conflict detected, retrying commit... (${retries} attempts left)`);
+        await new Promise(resolve => setTimeout(resolve, 1000));
+        continue;
+      }
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,169 @@
+// Fetch layer for GitHub API requests
+// - Remembers the ETag / Last-Modified of GET responses in IndexedDB, per URL,
+//   Accept header and account
+// - Revalidates with If-None-Match / If-Modified-Since once a response is cached,
+//   and answers 304s from the cache (GitHub doesn't count them against the rate limit)
+// - Other requests pass straight through
+// - Every response updates the rate limit tracker and the token expiry
+
+import type { CachedGitHubResponse, GitHubRequestInit } from '../types';
+import { recordRateLimit } from './rateLimit';
+import { recordTokenExpiration } from './tokenExpiration';
+import { isGitHubApiUrl } from './githubHost';
+import { createSha256 } from './sha256';
+
+const DB_NAME = 'media-recorder-github-cache';
+const DB_VERSION = 1;
+const STORE_NAME = 'responses';
+const STORED_AT_INDEX = 'storedAt';
+// Oldest responses are dropped beyond this, since URLs naming commits are never requested again
+const MAX_CACHED_RESPONSES = 500;
+
+function openCacheDB(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const req = indexedDB.open(DB_NAME, DB_VERSION);
+    req.onupgradeneeded = () => {
+      const db = req.result;
+      if (!db.objectStoreNames.contains(STORE_NAME)) {
+        const store = db.createObjectStore(STORE_NAME, { keyPath: 'key' });
+        store.createIndex(STORED_AT_INDEX, 'storedAt');
+      }
+    };
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+async function readCachedResponse(key: string): Promise<CachedGitHubResponse | undefined> {
+  const db = await openCacheDB();
+  return new Promise((resolve, reject) => {
+    const req = db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME).get(key);
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+async function writeCachedResponse(entry: CachedGitHubResponse): Promise<void> {
+  const db = await openCacheDB();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(STORE_NAME, 'readwrite');
+    const store = tx.objectStore(STORE_NAME);
+    store.put(entry);
+
+    const count = store.count();
+    count.onsuccess = () => {
+      let excess = count.result - MAX_CACHED_RESPONSES;
+      if (excess <= 0) return;
+      const cursor = store.index(STORED_AT_INDEX).openCursor();
+      cursor.onsuccess = () => {
+        if (!cursor.result || excess-- <= 0) return;
+        cursor.result.delete();
+        cursor.result.continue();
+      };
+    };
+
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+  });
+}
+
+/**
+ * Forget every cached response, e.g. when the user signs out
+ */
+export async function clearGitHubCache(): Promise<void> {
+  if (typeof indexedDB === 'undefined') return;
+  const db = await openCacheDB();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(STORE_NAME, 'readwrite');
+    tx.objectStore(STORE_NAME).clear();
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+  });
+}
+
+function isCacheable(url: string, init: GitHubRequestInit): boolean {
+  return isGitHubApiUrl(new URL(url))
+    && (!init.method || init.method.toUpperCase() === 'GET')
+    && typeof indexedDB !== 'undefined';
+}
+
+function headerValue(headers: Record<string, string> | undefined, name: string): string {
+  return Object.entries(headers || {}).find(([header]) => header.toLowerCase() === name)?.[1] ?? '';
+}
+
+// The same URL answers with other bodies for another media type or account
+// (the host is part of the URL). Only a digest of the credentials is stored.
+function cacheKey(url: string, init: GitHubRequestInit): string {
+  const authorization = headerValue(init.headers, 'authorization');
+  let account = '';
+  if (authorization) {
+    const hash = createSha256();
+    hash.update(new TextEncoder().encode(authorization));
+    account = hash.digestHex().slice(0, 16);
+  }
+  return `${account} ${headerValue(init.headers, 'accept')} ${url}`;
+}
+
+/**
+ * fetch() for GitHub API requests, with conditional requests against a persistent cache.
+ * A 304 resolves to the cached response, so callers always see the full body.
+ */
+export async function githubFetch(url: string, init: GitHubRequestInit = {}): Promise<Response> {
+  if (!isCacheable(url, init)) {
+    const response = await fetch(url, init);
+    recordRateLimit(response);
+    recordTokenExpiration(response);
+    return response;
+  }
+
+  const key = cacheKey(url, init);
+  let cached: CachedGitHubResponse | undefined;
+  try {
+    cached = await readCachedResponse(key);
+  } catch (error) {
+    console.warn('GitHub response cache unavailable:', error);
+  }
+
+  // Only revalidating requests carry extra headers, everything else goes out as given
+  const conditionalHeaders: Record<string, string> = {};
+  if (cached?.etag) conditionalHeaders['If-None-Match'] = cached.etag;
+  if (cached?.lastModified) conditionalHeaders['If-Modified-Since'] = cached.lastModified;
+  const response = await fetch(
+    url,
+    Object.keys(conditionalHeaders).length > 0
+      ? { ...init, headers: { ...init.headers, ...conditionalHeaders } }
+      : init
+  );
+  recordRateLimit(response);
+  recordTokenExpiration(response);
+
+  if (response.status === 304 && cached) {
+    const headers: Record<string, string> = {};
+    if (cached.contentType) headers['Content-Type'] = cached.contentType;
+    if (cached.etag) headers.ETag = cached.etag;
+    if (cached.lastModified) headers['Last-Modified'] = cached.lastModified;
+    return new Response(cached.body, { status: cached.status, headers });
+  }
+
+  // Mocked and opaque responses may come without headers
+  const etag = response.ok ? response.headers?.get('ETag') : null;
+  const lastModified = response.ok ? response.headers?.get('Last-Modified') : null;
+  if (etag || lastModified) {
+    try {
+      await writeCachedResponse({
+        key,
+        url,
+        etag: etag || undefined,
+        lastModified: lastModified || undefined,
+        status: response.status,
+        contentType: response.headers.get('Content-Type') || undefined,
+        body: await response.clone().text(),
+        storedAt: Date.now(),
+      });
+    } catch (error) {
+      console.warn(`Could not cache GitHub response for ${url}:`, error);
+    }
+  }
+
+  return response;
+}
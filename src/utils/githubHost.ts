@@ -0,0 +1,105 @@
+// GitHub host addresses
+// - github.com unless the auth config names a GitHub Enterprise Server
+// - API, raw-content and web URLs are all built here, so no module hardcodes a host
+// - Free of store imports so the service worker can use it
+
+import type { GitHubAuthConfig } from '../types';
+
+export const GITHUB_API_URL = 'https://api.github.com';
+const GITHUB_RAW_URL = 'https://raw.githubusercontent.com';
+const GITHUB_WEB_URL = 'https://github.com';
+const GITHUB_LFS_MEDIA_URL = 'https://media.githubusercontent.com/media';
+// GitHub Enterprise Server serves its REST API below this path
+const ENTERPRISE_API_PATH = '/api/v3';
+
+type HostConfig = Pick<GitHubAuthConfig, 'apiBaseUrl' | 'rawBaseUrl'> | null | undefined;
+type RepoConfig = HostConfig & Pick<GitHubAuthConfig, 'owner' | 'repo'>;
+
+export function apiBaseUrl(config?: HostConfig): string {
+  return (config?.apiBaseUrl || GITHUB_API_URL).replace(/\/+$/, '');
+}
+
+export function isEnterpriseHost(config?: HostConfig): boolean {
+  return apiBaseUrl(config) !== GITHUB_API_URL;
+}
+
+/**
+ * Web address of the server, e.g. for links to its settings pages
+ */
+export function webBaseUrl(config?: HostConfig): string {
+  if (!isEnterpriseHost(config)) return GITHUB_WEB_URL;
+  const api = apiBaseUrl(config);
+  return api.endsWith(ENTERPRISE_API_PATH) ? api.slice(0, -ENTERPRISE_API_PATH.length) : new URL(api).origin;
+}
+
+/**
+ * Root of raw file URLs, which are followed by `/{owner}/{repo}/{ref}/{path}`
+ */
+export function rawBaseUrl(config?: HostConfig): string {
+  if (config?.rawBaseUrl) return config.rawBaseUrl.replace(/\/+$/, '');
+  return isEnterpriseHost(config) ? `${webBaseUrl(config)}/raw` : GITHUB_RAW_URL;
+}
+
+/**
+ * Root of Git LFS object downloads; Enterprise Server serves them from its raw URLs
+ */
+export function lfsMediaBaseUrl(config?: HostConfig): string {
+  return isEnterpriseHost(config) ? rawBaseUrl(config) : GITHUB_LFS_MEDIA_URL;
+}
+
+/**
+ * REST API URL below a repository, e.g. repoApiUrl(config, '/git/trees')
+ */
+export function repoApiUrl(config: RepoConfig, path = ''): string {
+  return `${apiBaseUrl(config)}/repos/${config.owner}/${config.repo}${path}`;
+}
+
+export function rawFileUrl(config: RepoConfig, ref: string, filePath: string): string {
+  return `${rawBaseUrl(config)}/${config.owner}/${config.repo}/${ref}/${filePath}`;
+}
+
+/**
+ * Whether a URL points at a GitHub REST API (github.com or an Enterprise Server).
+ * Used where the configured host isn't at hand, such as service worker routes.
+ */
+export function isGitHubApiUrl(url: URL): boolean {
+  return url.origin === GITHUB_API_URL || url.pathname.startsWith(`${ENTERPRISE_API_PATH}/`);
+}
+
+/**
+ * Turn what the user typed for a GitHub Enterprise Server into its API base URL.
+ * Accepts the server address ("github.example.com") or the API root
+ * ("https://github.example.com/api/v3"). Returns null when it isn't a usable address.
+ */
+export function normalizeApiBaseUrl(input: string): string | null {
+  const trimmed = input.trim();
+  if (!trimmed) return null;
+
+  let url: URL;
+  try {
+    url = new URL(/^[a-z]+:\/\//i.test(trimmed) ? trimmed : `https://${trimmed}`);
+  } catch {
+    return null;
+  }
+  // Tokens must never travel in clear text or to a URL carrying its own credentials
+  if (url.protocol !== 'https:' || url.username || url.password || url.search || url.hash) return null;
+  if (!url.hostname.includes('.') && url.hostname !== 'localhost') return null;
+
+  if (url.hostname === 'github.com' || url.hostname === 'api.github.com') return GITHUB_API_URL;
+  const path = url.pathname.replace(/\/+$/, '');
+  return `${url.origin}${path.endsWith(ENTERPRISE_API_PATH) ? path : `${path}${ENTERPRISE_API_PATH}`}`;
+}
+
+/**
+ * Check a raw-content base URL typed by the user. Returns it without a trailing
+ * slash, or null when it isn't an HTTPS address.
+ */
+export function normalizeRawBaseUrl(input: string): string | null {
+  try {
+    const url = new URL(input.trim());
+    if (url.protocol !== 'https:' || url.username || url.password || url.search || url.hash) return null;
+    return `${url.origin}${url.pathname.replace(/\/+$/, '')}`;
+  } catch {
+    return null;
+  }
+}
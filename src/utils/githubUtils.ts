@@ -1,18 +1,35 @@
 // Utility for fetching files from GitHub repository
-import type { FileRecord, GitHubFile, GitHubConfig } from '../types';
+// - Lists media and thumbnails with recursive Git Trees API requests, including subfolders
+// - Takes recording details from the media manifest (index.json) where it matches the listing
+// - Reports what changed between two commits so cached listings can be patched
+// - Lists the commits that changed a file, following it across renames
+// - Checks before uploading that the repository, push permission, branch and folders are in place,
+//   for the active or another repository profile
+// - Checks that the podcast feed path is free for the app's feed
+import type { AppSettings, FileRecord, FileVersion, MediaManifest, GitHubTree, GitHubTreeEntry, GitHubCommit, GitHubCompareFile, GitHubConfig, GitHubRequestInit, LfsPointer, RemoteThumbnail, RemoteChanges, RepositoryCheck, RepositoryCheckItem } from '../types';
 import { useAuthStore } from '../stores/authStore';
 import { useSettingsStore } from '../stores/settingsStore';
+import { DEFAULT_BRANCH } from './appConfig';
+import { LFS_POINTER_MAX_SIZE, decodeLfsPointer, fetchLfsDownloadUrl } from './lfsUtils';
+import { githubFetch } from './githubFetch';
+import { repoApiUrl, rawFileUrl, lfsMediaBaseUrl, webBaseUrl, isEnterpriseHost } from './githubHost';
+import { isRateLimited, rateLimitMessage } from './rateLimit';
+import { readMediaManifest } from './mediaManifest';
+import { isGeneratedFeed, readPodcastFeed } from './podcastFeed';
 
-function getGitHubConfig() {
+// Configuration of the active repository profile, or of the given one
+function getGitHubConfig(profileId?: string) {
   const authState = useAuthStore.getState();
   const settingsState = useSettingsStore.getState();
+  const appSettings = profileId && profileId !== settingsState.activeProfileId
+    ? settingsState.profiles?.find(profile => profile.id === profileId)?.settings
+    : settingsState.appSettings;
   
-  if (!authState.isAuthenticated || !authState.githubConfig || !settingsState.appSettings) {
+  if (!authState.isAuthenticated || !authState.githubConfig || !appSettings) {
     return null;
   }
   
   const { githubConfig } = authState;
-  const { appSettings } = settingsState;
   
   if (!githubConfig.token || !githubConfig.owner || !appSettings.repo) {
     return null;
@@ -22,10 +39,13 @@ function getGitHubConfig() {
     token: githubConfig.token,
     owner: githubConfig.owner,
     repo: appSettings.repo,
+    branch: appSettings.branch || DEFAULT_BRANCH,
     path: appSettings.path.endsWith('/') ? appSettings.path : appSettings.path + '/',
     thumbnailPath: appSettings.thumbnailPath.endsWith('/') ? appSettings.thumbnailPath : appSettings.thumbnailPath + '/',
     thumbnailWidth: appSettings.thumbnailWidth || 320,
-    thumbnailHeight: appSettings.thumbnailHeight || 240
+    thumbnailHeight: appSettings.thumbnailHeight || 240,
+    apiBaseUrl: githubConfig.apiBaseUrl,
+    rawBaseUrl: githubConfig.rawBaseUrl
   };
 }
 
@@ -33,16 +53,18 @@ function getGitHubConfig() {
 /**
  * Generate a fresh download URL using our PAT instead of temporary token
  */
-export async function generateFreshDownloadUrl(filePath: string): Promise<string> {
+export async function generateFreshDownloadUrl(filePath: string, ref?: string): Promise<string> {
   const config = getGitHubConfig();
   if (!config) {
     throw new Error('GitHub configuration not available');
   }
+  // Files waiting on a pull request only exist on its head branch, earlier versions at their commit
+  const branch = ref || config.branch;
 
   try {
     // Use Contents API to get fresh download URL
-    const response = await fetch(
-      `https://api.github.com/repos/${config.owner}/${config.repo}/contents/${filePath}`,
+    const response = await githubFetch(
+      `${repoApiUrl(config)}/contents/${filePath}?ref=${encodeURIComponent(branch)}`,
       {
         headers: { 
           Authorization: `Bearer ${config.token}`,
@@ -56,18 +78,184 @@ export async function generateFreshDownloadUrl(filePath: string): Promise<string
     }
 
     const fileData = await response.json();
+
+    // LFS-tracked files come back as pointer text, so resolve the stored object instead
+    const pointer = fileData.size <= LFS_POINTER_MAX_SIZE && fileData.content
+      ? decodeLfsPointer(fileData.content)
+      : null;
+    if (pointer) {
+      try {
+        return await fetchLfsDownloadUrl(config, pointer, branch);
+      } catch (lfsError) {
+        console.warn('Failed to resolve LFS download URL:', lfsError);
+        return `${lfsMediaBaseUrl(config)}/${config.owner}/${config.repo}/${branch}/${filePath}`;
+      }
+    }
+
     return fileData.download_url || '';
   } catch (error) {
     console.error('Failed to generate fresh download URL:', error);
     // Fallback to raw URL without token
-    return `https://raw.githubusercontent.com/${config.owner}/${config.repo}/main/${filePath}`;
+    return rawFileUrl(config, branch, filePath);
+  }
+}
+
+/**
+ * List the branch names of a repository owned by the authenticated user
+ */
+export async function fetchRepositoryBranches(repo: string): Promise<string[]> {
+  const { githubConfig } = useAuthStore.getState();
+  if (!githubConfig?.token || !githubConfig.owner || !repo) {
+    return [];
+  }
+
+  const branches: string[] = [];
+  // GitHub caps per_page at 100, so follow pages until a short one comes back
+  for (let page = 1; page <= 10; page++) {
+    const response = await fetchWithRetry(
+      `${repoApiUrl({ ...githubConfig, repo })}/branches?per_page=100&page=${page}`,
+      {
+        headers: { Authorization: `Bearer ${githubConfig.token}` }
+      }
+    );
+
+    if (!response.ok) {
+      throw new Error(`Failed to fetch branches: ${response.status}`);
+    }
+
+    const data: Array<{ name: string }> = await response.json();
+    branches.push(...data.map(branch => branch.name));
+    if (data.length < 100) break;
+  }
+
+  return branches;
+}
+
+/**
+ * Look up whether a pull request is still open, merged or closed unmerged
+ */
+export async function fetchPullRequestState(pullNumber: number): Promise<'open' | 'merged' | 'closed'> {
+  const config = getGitHubConfig();
+  if (!config) {
+    throw new Error('GitHub configuration not available');
+  }
+
+  const response = await fetchWithRetry(
+    `${repoApiUrl(config)}/pulls/${pullNumber}`,
+    {
+      headers: { Authorization: `Bearer ${config.token}` }
+    }
+  );
+
+  if (!response.ok) {
+    throw new Error(`Failed to fetch pull request: ${response.status}`);
+  }
+
+  const pullRequest: { state: 'open' | 'closed'; merged_at: string | null } = await response.json();
+  if (pullRequest.merged_at) return 'merged';
+  return pullRequest.state;
+}
+
+// Read a small file and return its LFS pointer, or null when it holds real content
+async function fetchLfsPointer(config: GitHubConfig, filePath: string): Promise<LfsPointer | null> {
+  try {
+    const response = await fetchWithRetry(
+      `${repoApiUrl(config)}/contents/${filePath}?ref=${encodeURIComponent(config.branch)}`,
+      {
+        headers: { Authorization: `Bearer ${config.token}` }
+      }
+    );
+    if (!response.ok) return null;
+    const fileData = await response.json();
+    return fileData.content ? decodeLfsPointer(fileData.content) : null;
+  } catch (error) {
+    console.warn(`Could not inspect ${filePath} for an LFS pointer:`, error);
+    return null;
+  }
+}
+
+// Read one tree; resolves null when the branch is missing or the repository is empty
+async function fetchTree(config: GitHubConfig, treeSha: string, recursive: boolean): Promise<GitHubTree | null> {
+  const response = await fetchWithRetry(
+    `${repoApiUrl(config)}/git/trees/${treeSha}${recursive ? '?recursive=1' : ''}`,
+    {
+      headers: { Authorization: `Bearer ${config.token}` }
+    }
+  );
+
+  if (response.ok) {
+    return response.json();
+  }
+  if (response.status === 404 || response.status === 409) {
+    console.log(`Tree ${treeSha} not found (${response.status}), continuing...`);
+    return null;
+  }
+  if (response.status === 401) {
+    throw new Error('Invalid GitHub token or insufficient permissions');
   }
+  if (response.status === 403 || response.status === 429) {
+    throw new Error(isRateLimited(response) ? rateLimitMessage() : 'Access to the repository was denied');
+  }
+  throw new Error(`Failed to access repository: ${response.status} ${response.statusText}`);
+}
+
+// All entries below a tree, with paths prefixed by the tree's own path.
+// Truncated recursive listings are replaced by walking one level at a time.
+async function listSubtree(config: GitHubConfig, treeSha: string, prefix: string): Promise<GitHubTreeEntry[]> {
+  const withPrefix = (entry: GitHubTreeEntry) => ({ ...entry, path: `${prefix}${entry.path}` });
+
+  const listing = await fetchTree(config, treeSha, true);
+  if (!listing) return [];
+  if (!listing.truncated) return listing.tree.map(withPrefix);
+
+  const level = await fetchTree(config, treeSha, false);
+  if (!level) return [];
+  const nested = await Promise.all(
+    level.tree
+      .filter(entry => entry.type === 'tree')
+      .map(entry => listSubtree(config, entry.sha, `${prefix}${entry.path}/`))
+  );
+  return [...level.tree.map(withPrefix), ...nested.flat()];
+}
+
+/**
+ * List the files below a folder of the configured branch, subfolders included.
+ * A single recursive request covers the whole branch; when GitHub truncates it,
+ * the folder is looked up and its subtrees are walked instead.
+ */
+async function listFolderFiles(config: GitHubConfig, folder: string): Promise<GitHubTreeEntry[]> {
+  const prefix = folder.replace(/^\/+|\/+$/g, '') ? `${folder.replace(/^\/+|\/+$/g, '')}/` : '';
+
+  const root = await fetchTree(config, encodeURIComponent(config.branch), true);
+  if (!root) return [];
+
+  let entries = root.tree;
+  if (root.truncated) {
+    console.warn('Repository listing truncated, walking subtrees of', prefix || 'the repository root');
+    let treeSha: string | undefined = root.sha;
+    for (const segment of prefix.split('/').filter(Boolean)) {
+      const level: GitHubTree | null = await fetchTree(config, treeSha, false);
+      treeSha = level?.tree.find(entry => entry.type === 'tree' && entry.path === segment)?.sha;
+      if (!treeSha) return [];
+    }
+    entries = await listSubtree(config, treeSha, prefix);
+  }
+
+  return entries.filter(entry => entry.type === 'blob' && entry.path.startsWith(prefix));
+}
+
+function fileNameOf(filePath: string): string {
+  return filePath.slice(filePath.lastIndexOf('/') + 1);
+}
+
+function folderOf(filePath: string): string {
+  return filePath.slice(0, Math.max(filePath.lastIndexOf('/'), 0));
 }
 
 // Helper to parse metadata from file name and determine type
 // Only handles media files (audio/video), not thumbnails
-function parseRemoteFile(file: GitHubFile): FileRecord | null {
-  const fileName = file.name;
+function parseRemoteFile(file: GitHubTreeEntry, mediaFolder: string): FileRecord | null {
+  const fileName = fileNameOf(file.path);
   const extension = fileName.split('.').pop()?.toLowerCase();
   
   if (!extension) return null;
@@ -83,21 +271,93 @@ function parseRemoteFile(file: GitHubFile): FileRecord | null {
     return null;
   }
   
+  const folder = folderOf(file.path);
+  const mediaRoot = mediaFolder.replace(/^\/+|\/+$/g, '');
+
   return {
     id: `remote-${file.sha}`,
     name: fileName,
     type,
     mimeType: type === 'video' ? 'video/mp4' : 'audio/mp3',
-    size: file.size,
+    size: file.size ?? 0,
     duration: 0,
     created: Date.now(),
     url: file.path, // Store file path instead of temporary download_url
+    path: file.path, // url may be replaced by a validated download URL
+    folder: folder === mediaRoot ? '' : folder.slice(mediaRoot ? mediaRoot.length + 1 : 0),
     uploaded: true,
     file: undefined,
     sha: file.sha
   } as unknown as FileRecord;
 }
 
+// Turn listed media entries into file records, resolving LFS pointers and download URLs.
+// Entries the manifest lists with the same blob already carry their real size and duration.
+async function toMediaRecords(config: GitHubConfig, entries: GitHubTreeEntry[], manifest: MediaManifest | null = null): Promise<FileRecord[]> {
+  const files: FileRecord[] = [];
+  const described = new Map((manifest?.files || []).map(file => [file.path, file]));
+
+  // Process media files with URL validation
+  const mediaPromises = entries.map(async (entry) => {
+    const parsed = parseRemoteFile(entry, config.path);
+    const listed = described.get(entry.path);
+    if (parsed && listed?.sha === entry.sha) {
+      files.push({ ...parsed, size: listed.size, duration: listed.duration ?? 0, mimeType: listed.mimeType });
+      return;
+    }
+    if (parsed && parsed.size <= LFS_POINTER_MAX_SIZE) {
+      // A media file this small may be an LFS pointer; report the real object size
+      const pointer = await fetchLfsPointer(config, entry.path);
+      if (pointer) {
+        parsed.size = pointer.size;
+      }
+    }
+    if (parsed && parsed.url) {
+      try {
+        // Validate media file URL with fallbacks
+        const validatedUrl = await validateUrlWithFallbacks(
+          parsed.url, 
+          config, 
+          folderOf(entry.path), 
+          parsed.name,
+          1 // Only 1 retry for media files to avoid long delays
+        );
+        
+        // Update the parsed file with validated URL
+        parsed.url = validatedUrl;
+        files.push(parsed);
+      } catch (error) {
+        console.warn(`Skipping media file ${parsed.name}:`, error);
+        // Still add the file with original URL as fallback
+        files.push(parsed);
+      }
+    }
+  });
+  
+  // Wait for all validations to complete
+  await Promise.all(mediaPromises);
+  return files;
+}
+
+// Index listed thumbnail images by the base name of the media file they belong to
+function toRemoteThumbnails(entries: GitHubTreeEntry[]): Record<string, RemoteThumbnail> {
+  const thumbnails: Record<string, RemoteThumbnail> = {};
+  entries
+    .filter(entry => {
+      const extension = entry.path.split('.').pop()?.toLowerCase();
+      return extension && ['jpg', 'jpeg', 'png', 'webp'].includes(extension);
+    })
+    .forEach(entry => {
+      const baseName = fileNameOf(entry.path).replace(/\.[^.]+$/, '');
+      thumbnails[baseName] = {
+        url: entry.path, // Store path, will generate fresh URL when needed
+        isLocal: false,
+        sha: entry.sha
+      };
+    });
+  return thumbnails;
+}
+
 export async function fetchRemoteFiles(): Promise<FileRecord[]> {
   const config = getGitHubConfig();
   if (!config) {
@@ -105,12 +365,10 @@ export async function fetchRemoteFiles(): Promise<FileRecord[]> {
   }
   
   try {
-    const files: FileRecord[] = [];
-    
     // First, validate that the repository exists
     console.log('Validating repository:', `${config.owner}/${config.repo}`);
     const repoResponse = await fetchWithRetry(
-      `https://api.github.com/repos/${config.owner}/${config.repo}`,
+      `${repoApiUrl(config)}`,
       {
         headers: { Authorization: `Bearer ${config.token}` }
       }
@@ -121,65 +379,25 @@ export async function fetchRemoteFiles(): Promise<FileRecord[]> {
         throw new Error(`Repository '${config.owner}/${config.repo}' not found. Please check the repository name and your access permissions.`);
       } else if (repoResponse.status === 401) {
         throw new Error('Invalid GitHub token or insufficient permissions');
-      } else if (repoResponse.status === 403) {
-        throw new Error('GitHub API rate limit exceeded or repository access denied');
+      } else if (repoResponse.status === 403 || repoResponse.status === 429) {
+        throw new Error(isRateLimited(repoResponse) ? rateLimitMessage() : 'Access to the repository was denied');
       } else {
         throw new Error(`Failed to access repository: ${repoResponse.status} ${repoResponse.statusText}`);
       }
     }
     
-    // Fetch media files
+    // The tree listing decides which files exist; the manifest only adds sizes and durations
+    // and spares the pointer reads and URL checks of recordings it still matches
+    const manifest = await readMediaManifest(config, config.branch, { cache: 'no-cache' }).catch((error) => {
+      console.warn('Could not read the media manifest:', error);
+      return null;
+    });
+
+    // Fetch media files, subfolders included
     console.log('Fetching media files from:', config.path);
-    const mediaResponse = await fetchWithRetry(
-      `https://api.github.com/repos/${config.owner}/${config.repo}/contents/${config.path.replace(/\/$/, '')}`,
-      {
-        headers: { Authorization: `Bearer ${config.token}` }
-      }
-    );
-    
-    if (mediaResponse.ok) {
-      const mediaFiles: GitHubFile[] = await mediaResponse.json();
-      if (Array.isArray(mediaFiles)) {
-        // Process media files with URL validation
-        const mediaPromises = mediaFiles
-          .filter(file => file.type === 'file')
-          .map(async (file) => {
-            const parsed = parseRemoteFile(file);
-            if (parsed && parsed.url) {
-              try {
-                // Validate media file URL with fallbacks
-                const mediaPath = config.path.replace(/\/$/, '');
-                const validatedUrl = await validateUrlWithFallbacks(
-                  parsed.url, 
-                  config, 
-                  mediaPath, 
-                  file.name,
-                  1 // Only 1 retry for media files to avoid long delays
-                );
-                
-                // Update the parsed file with validated URL
-                parsed.url = validatedUrl;
-                files.push(parsed);
-              } catch (error) {
-                console.warn(`Skipping media file ${file.name}:`, error);
-                // Still add the file with original URL as fallback
-                files.push(parsed);
-              }
-            }
-          });
-        
-        // Wait for all validations to complete
-        await Promise.all(mediaPromises);
-      }
-    } else if (mediaResponse.status === 404) {
-      console.log('Media path not found (404), continuing...');
-    } else if (mediaResponse.status === 401) {
-      throw new Error('Invalid GitHub token or insufficient permissions');
-    } else if (mediaResponse.status === 403) {
-      throw new Error('GitHub API rate limit exceeded or repository access denied');
-    } else {
-      throw new Error(`Failed to access repository: ${mediaResponse.status} ${mediaResponse.statusText}`);
-    }
+    const mediaEntries = await listFolderFiles(config, config.path);
+
+    const files = await toMediaRecords(config, mediaEntries, manifest);
     
     // Note: Thumbnail files are not included in the media files list
     // They are handled separately by the useCombinedFiles hook
@@ -195,12 +413,12 @@ export async function fetchRemoteFiles(): Promise<FileRecord[]> {
 /**
  * Fetch with retry logic and web cache support for handling intermittent 404s
  */
-async function fetchWithRetry(url: string, options: RequestInit = {}, maxRetries = 3): Promise<Response> {
+async function fetchWithRetry(url: string, options: GitHubRequestInit = {}, maxRetries = 3): Promise<Response> {
   let lastError: Error | null = null;
   
   for (let attempt = 0; attempt < maxRetries; attempt++) {
     try {
-      const response = await fetch(url, {
+      const response = await githubFetch(url, {
         ...options,
         cache: 'default' // Use browser cache with revalidation
       });
@@ -244,13 +462,17 @@ function generateFallbackUrls(originalUrl: string, config: GitHubConfig, filePat
   // Remove any existing query parameters (like tokens)
   const cleanUrl = originalUrl.split('?')[0];
   
-  return [
+  const urls = [
     originalUrl, // Original download_url (with token if present)
     cleanUrl, // Same without query params
-    `https://raw.githubusercontent.com/${config.owner}/${config.repo}/main/${filePath}/${encodeURIComponent(fileName)}`, // Properly encoded
-    `https://github.com/${config.owner}/${config.repo}/raw/main/${filePath}/${encodeURIComponent(fileName)}`, // Alternative raw format
-    `https://cdn.jsdelivr.net/gh/${config.owner}/${config.repo}@main/${filePath}/${encodeURIComponent(fileName)}` // JSDelivr CDN (public repos only)
+    rawFileUrl(config, config.branch, `${filePath}/${encodeURIComponent(fileName)}`), // Properly encoded
+    `${webBaseUrl(config)}/${config.owner}/${config.repo}/raw/${config.branch}/${filePath}/${encodeURIComponent(fileName)}`, // Alternative raw format
   ];
+  if (!isEnterpriseHost(config)) {
+    // JSDelivr CDN (public github.com repos only)
+    urls.push(`https://cdn.jsdelivr.net/gh/${config.owner}/${config.repo}@${config.branch}/${filePath}/${encodeURIComponent(fileName)}`);
+  }
+  return urls;
 }
 
 /**
@@ -284,61 +506,15 @@ async function validateUrlWithFallbacks(
 
 
 // Fetch remote thumbnail files with web cache and retry logic
-export async function fetchRemoteThumbnails(): Promise<Record<string, { url: string; isLocal: false }>> {
+export async function fetchRemoteThumbnails(): Promise<Record<string, RemoteThumbnail>> {
   const config = getGitHubConfig();
   if (!config) {
     throw new Error('GitHub configuration not found. Please check your settings.');
   }
   
-  const thumbnails: Record<string, { url: string; isLocal: false }> = {};
-  
   try {
     console.log('Fetching thumbnail files from:', config.thumbnailPath);
-    
-    const thumbnailResponse = await fetchWithRetry(
-      `https://api.github.com/repos/${config.owner}/${config.repo}/contents/${config.thumbnailPath.replace(/\/$/, '')}`,
-      {
-        headers: { Authorization: `Bearer ${config.token}` }
-      }
-    );
-    
-    if (thumbnailResponse.ok) {
-      const thumbnailFiles: GitHubFile[] = await thumbnailResponse.json();
-      if (Array.isArray(thumbnailFiles)) {
-        // Process thumbnails with validation
-        const thumbnailPromises = thumbnailFiles
-          .filter(file => {
-            if (file.type !== 'file') return false;
-            const extension = file.name.split('.').pop()?.toLowerCase();
-            return extension && ['jpg', 'jpeg', 'png', 'webp'].includes(extension);
-          })
-          .map(async (file) => {
-            try {
-              const baseName = file.name.replace(/\.[^.]+$/, '');
-              
-              // Store file path instead of temporary download URL
-              thumbnails[baseName] = {
-                url: file.path, // Store path, will generate fresh URL when needed
-                isLocal: false
-              };
-            } catch (error) {
-              console.warn(`Skipping thumbnail ${file.name}:`, error);
-              // Continue with other thumbnails
-            }
-          });
-        
-        // Wait for all validations to complete
-        await Promise.all(thumbnailPromises);
-      }
-    } else if (thumbnailResponse.status === 404) {
-      console.log('Thumbnail path not found (404), continuing...');
-    } else if (thumbnailResponse.status === 401) {
-      throw new Error('Invalid GitHub token or insufficient permissions');
-    } else if (thumbnailResponse.status === 403) {
-      throw new Error('GitHub API rate limit exceeded or repository access denied');
-    } else {
-      throw new Error(`Failed to access repository: ${thumbnailResponse.status} ${thumbnailResponse.statusText}`);
-    }
+    const thumbnails = toRemoteThumbnails(await listFolderFiles(config, config.thumbnailPath));
     
     console.log(`Fetched ${Object.keys(thumbnails).length} remote thumbnails with web cache support`);
     return thumbnails;
@@ -348,6 +524,328 @@ export async function fetchRemoteThumbnails(): Promise<Record<string, { url: str
   }
 }
 
+// GitHub's compare API lists at most this many files
+const COMPARE_FILES_LIMIT = 300;
+
+/**
+ * Read the commit the configured branch points at, or null for an empty repository
+ */
+export async function fetchHeadSha(): Promise<string | null> {
+  const config = getGitHubConfig();
+  if (!config) {
+    throw new Error('GitHub configuration not available');
+  }
+
+  // Revalidate instead of trusting the browser cache, or a new commit can go unnoticed
+  const response = await githubFetch(
+    `${repoApiUrl(config)}/git/ref/heads/${config.branch}`,
+    {
+      headers: { Authorization: `Bearer ${config.token}` },
+      cache: 'no-cache'
+    }
+  );
+
+  if (response.status === 404 || response.status === 409) {
+    return null;
+  }
+  if (!response.ok) {
+    throw new Error(`Failed to read branch: ${response.status}`);
+  }
+  const ref: { object: { sha: string } } = await response.json();
+  return ref.object.sha;
+}
+
+// Blob size of a changed file, which the compare API leaves out
+async function fetchChangedEntry(config: GitHubConfig, file: GitHubCompareFile, ref: string): Promise<GitHubTreeEntry> {
+  const response = await fetchWithRetry(
+    `${repoApiUrl(config)}/contents/${file.filename}?ref=${ref}`,
+    {
+      headers: { Authorization: `Bearer ${config.token}` }
+    }
+  );
+  if (!response.ok) {
+    throw new Error(`Failed to read ${file.filename}: ${response.status}`);
+  }
+  const data: { sha: string; size: number } = await response.json();
+  return { path: file.filename, mode: '100644', type: 'blob', sha: data.sha, size: data.size };
+}
+
+/**
+ * Work out how the media and thumbnail listings changed between two commits,
+ * with one compare request plus one request per changed media file.
+ * Resolves null when the changes cannot be patched in (history rewritten, or
+ * more files changed than the compare API lists) and a full listing is needed.
+ */
+export async function fetchRemoteChanges(baseSha: string, headSha: string): Promise<RemoteChanges | null> {
+  const config = getGitHubConfig();
+  if (!config) {
+    throw new Error('GitHub configuration not found. Please check your settings.');
+  }
+
+  const response = await fetchWithRetry(
+    `${repoApiUrl(config)}/compare/${baseSha}...${headSha}`,
+    {
+      headers: { Authorization: `Bearer ${config.token}` }
+    }
+  );
+  if (response.status === 404) {
+    // The cached commit is gone, e.g. after a force push
+    return null;
+  }
+  if (!response.ok) {
+    throw new Error(`Failed to compare commits: ${response.status}`);
+  }
+
+  const comparison: { status: string; files?: GitHubCompareFile[] } = await response.json();
+  const changedFiles = comparison.files || [];
+  if (comparison.status !== 'ahead' && comparison.status !== 'identical') return null;
+  if (changedFiles.length >= COMPARE_FILES_LIMIT) return null;
+
+  const mediaPrefix = config.path.replace(/^\/+/, '');
+  const thumbnailPrefix = config.thumbnailPath.replace(/^\/+/, '');
+  const removedPaths: string[] = [];
+  const written: GitHubCompareFile[] = [];
+  changedFiles.forEach(file => {
+    if (file.status === 'removed') {
+      removedPaths.push(file.filename);
+      return;
+    }
+    if (file.status === 'renamed' && file.previous_filename) {
+      removedPaths.push(file.previous_filename);
+    } else if (file.status === 'modified' || file.status === 'changed') {
+      removedPaths.push(file.filename);
+    }
+    if (file.status !== 'unchanged') {
+      written.push(file);
+    }
+  });
+
+  const mediaEntries = await Promise.all(
+    written
+      .filter(file => file.filename.startsWith(mediaPrefix) && parseRemoteFile({ path: file.filename, mode: '100644', type: 'blob', sha: file.sha }, config.path))
+      .map(file => fetchChangedEntry(config, file, headSha))
+  );
+  const thumbnailEntries: GitHubTreeEntry[] = written
+    .filter(file => file.filename.startsWith(thumbnailPrefix))
+    .map(file => ({ path: file.filename, mode: '100644', type: 'blob', sha: file.sha }));
+
+  return {
+    removedPaths,
+    files: await toMediaRecords(config, mediaEntries),
+    thumbnails: toRemoteThumbnails(thumbnailEntries),
+  };
+}
+
+// Commits listed per history request; a full page means older ones were left out
+const HISTORY_PAGE_SIZE = 100;
+// Renames followed back before a file's history stops
+const HISTORY_RENAME_LIMIT = 10;
+
+function fileVersionOf(commit: GitHubCommit, path: string): FileVersion {
+  return {
+    commitSha: commit.sha,
+    path,
+    message: commit.commit.message.split('\n')[0],
+    author: commit.commit.author?.name || commit.author?.login || 'Unknown',
+    date: commit.commit.author?.date || '',
+  };
+}
+
+// Name a file had before the given commit, or null when the commit did not rename it
+async function fetchPreviousPath(config: GitHubConfig, commitSha: string, path: string): Promise<string | null> {
+  const response = await fetchWithRetry(
+    `${repoApiUrl(config)}/commits/${commitSha}`,
+    {
+      headers: { Authorization: `Bearer ${config.token}` }
+    }
+  );
+  if (!response.ok) {
+    throw new Error(`Failed to read commit: ${response.status}`);
+  }
+  const commit: GitHubCommit = await response.json();
+  const file = commit.files?.find(changed => changed.filename === path);
+  return file?.status === 'renamed' && file.previous_filename ? file.previous_filename : null;
+}
+
+/**
+ * List the commits that changed a file on the configured branch, newest first.
+ * The commits API filters by a single path, so renames are followed by checking
+ * the oldest commit of each path and continuing from its parent under the old name.
+ */
+export async function fetchFileHistory(filePath: string): Promise<FileVersion[]> {
+  const config = getGitHubConfig();
+  if (!config) {
+    throw new Error('GitHub configuration not available');
+  }
+
+  const versions: FileVersion[] = [];
+  let path = filePath;
+  let ref = config.branch;
+  for (let renames = 0; renames <= HISTORY_RENAME_LIMIT; renames++) {
+    // Revalidate, or a commit made a moment ago (e.g. a restore) can be missing
+    const response = await githubFetch(
+      `${repoApiUrl(config)}/commits?sha=${encodeURIComponent(ref)}&path=${encodeURIComponent(path)}&per_page=${HISTORY_PAGE_SIZE}`,
+      {
+        headers: { Authorization: `Bearer ${config.token}` },
+        cache: 'no-cache'
+      }
+    );
+    if (isRateLimited(response)) {
+      throw new Error(rateLimitMessage());
+    }
+    if (!response.ok) {
+      throw new Error(`Failed to fetch file history: ${response.status}`);
+    }
+
+    const commits: GitHubCommit[] = await response.json();
+    versions.push(...commits.map(commit => fileVersionOf(commit, path)));
+
+    const oldest = commits[commits.length - 1];
+    if (!oldest || commits.length === HISTORY_PAGE_SIZE || oldest.parents.length === 0) break;
+    const previousPath = await fetchPreviousPath(config, oldest.sha, path);
+    if (!previousPath) break;
+    path = previousPath;
+    ref = oldest.parents[0].sha;
+  }
+
+  return versions;
+}
+
+/**
+ * Paths of the media files and thumbnails on the branch of a profile, for
+ * checking uploads to a profile whose listing the library does not keep fresh
+ */
+export async function fetchRepositoryPaths(profileId?: string): Promise<Set<string>> {
+  const config = getGitHubConfig(profileId);
+  if (!config) {
+    throw new Error('GitHub configuration not found. Please check your settings.');
+  }
+
+  const media = await listFolderFiles(config, config.path);
+  const thumbnails = await listFolderFiles(config, config.thumbnailPath);
+  return new Set([...media, ...thumbnails].map(entry => entry.path));
+}
+
+/**
+ * Identify the repository and branch uploads go to, so a stored check can be
+ * matched against the current settings
+ */
+export function repositoryCheckTarget(profileId?: string): string | null {
+  const config = getGitHubConfig(profileId);
+  return config ? `${config.owner}/${config.repo}@${config.branch}` : null;
+}
+
+// Look up a path on the branch without the browser cache, so a fix shows up on the next check
+async function fetchRepositoryPath(config: GitHubConfig, url: string): Promise<Response> {
+  const response = await githubFetch(url, {
+    headers: { Authorization: `Bearer ${config.token}` },
+    cache: 'no-cache'
+  });
+  if (isRateLimited(response)) {
+    throw new Error(rateLimitMessage());
+  }
+  return response;
+}
+
+async function checkFolder(
+  config: GitHubConfig,
+  id: 'mediaFolder' | 'thumbnailFolder',
+  label: string,
+  folder: string
+): Promise<RepositoryCheckItem> {
+  const path = folder.replace(/\/+$/, '');
+  if (!path) {
+    return { id, label, status: 'ok', detail: 'Repository root' };
+  }
+
+  const response = await fetchRepositoryPath(config, `${repoApiUrl(config)}/contents/${path}?ref=${encodeURIComponent(config.branch)}`);
+  if (response.status === 404) {
+    return { id, label, status: 'missing', detail: `${path}/ does not exist yet` };
+  }
+  if (!response.ok) {
+    throw new Error(`Failed to check ${path}: ${response.status}`);
+  }
+  const contents: unknown = await response.json();
+  return Array.isArray(contents)
+    ? { id, label, status: 'ok', detail: `${path}/` }
+    : { id, label, status: 'failed', detail: `${path} is a file, not a folder` };
+}
+
+/**
+ * Check that the configured repository can take uploads: it is reachable, the
+ * token may push to it and the branch exists. Also reports whether the media
+ * and thumbnail folders exist, which uploads would otherwise create.
+ * Checks the active profile's repository unless another profile is given.
+ */
+export async function checkRepositoryAccess(profileId?: string): Promise<RepositoryCheck> {
+  const config = getGitHubConfig(profileId);
+  if (!config) {
+    throw new Error('GitHub configuration not available');
+  }
+
+  const repoLabel = `Repository ${config.owner}/${config.repo}`;
+  const pushLabel = 'Permission to push';
+  const branchLabel = `Branch ${config.branch}`;
+  const mediaLabel = 'Media folder';
+  const thumbnailLabel = 'Thumbnail folder';
+  const items: RepositoryCheckItem[] = [];
+  let defaultBranch: string | null = null;
+
+  const repoResponse = await fetchRepositoryPath(config, repoApiUrl(config));
+  if (repoResponse.status === 401) {
+    throw new Error('Invalid GitHub token or insufficient permissions');
+  }
+  if (repoResponse.status === 404 || repoResponse.status === 403) {
+    items.push(
+      { id: 'repository', label: repoLabel, status: 'failed', detail: 'Not found, or the token has no access to it' },
+      { id: 'push', label: pushLabel, status: 'skipped' },
+      { id: 'branch', label: branchLabel, status: 'skipped' },
+      { id: 'mediaFolder', label: mediaLabel, status: 'skipped' },
+      { id: 'thumbnailFolder', label: thumbnailLabel, status: 'skipped' }
+    );
+  } else if (!repoResponse.ok) {
+    throw new Error(`Failed to check repository: ${repoResponse.status}`);
+  } else {
+    const repository: { default_branch?: string; permissions?: { push?: boolean } } = await repoResponse.json();
+    defaultBranch = repository.default_branch || null;
+    items.push({ id: 'repository', label: repoLabel, status: 'ok' });
+    items.push(repository.permissions?.push
+      ? { id: 'push', label: pushLabel, status: 'ok' }
+      : { id: 'push', label: pushLabel, status: 'failed', detail: 'The token can read this repository but not write to it' });
+
+    const branchResponse = await fetchRepositoryPath(config, `${repoApiUrl(config)}/git/ref/heads/${config.branch}`);
+    if (branchResponse.status === 409) {
+      // Empty repository: the first upload creates the branch and both folders
+      items.push(
+        { id: 'branch', label: branchLabel, status: 'ok', detail: 'Repository is empty, the first upload creates it' },
+        { id: 'mediaFolder', label: mediaLabel, status: 'skipped' },
+        { id: 'thumbnailFolder', label: thumbnailLabel, status: 'skipped' }
+      );
+    } else if (branchResponse.status === 404) {
+      items.push(
+        { id: 'branch', label: branchLabel, status: 'missing', detail: defaultBranch ? `Can be created from ${defaultBranch}` : undefined },
+        { id: 'mediaFolder', label: mediaLabel, status: 'skipped' },
+        { id: 'thumbnailFolder', label: thumbnailLabel, status: 'skipped' }
+      );
+    } else if (!branchResponse.ok) {
+      throw new Error(`Failed to read branch: ${branchResponse.status}`);
+    } else {
+      items.push({ id: 'branch', label: branchLabel, status: 'ok' });
+      items.push(await checkFolder(config, 'mediaFolder', mediaLabel, config.path));
+      items.push(await checkFolder(config, 'thumbnailFolder', thumbnailLabel, config.thumbnailPath));
+    }
+  }
+
+  const required = new Set<RepositoryCheckItem['id']>(['repository', 'push', 'branch']);
+  return {
+    target: `${config.owner}/${config.repo}@${config.branch}`,
+    items,
+    canUpload: items.every(item => !required.has(item.id) || item.status === 'ok'),
+    defaultBranch,
+    checkedAt: Date.now(),
+  };
+}
+
 // Helper to extract date from filename for sorting
 export function extractDateFromFilename(filename: string): Date {
   // Expected format: CATEGORY_TITLE_AUTHOR_DATE.ext
@@ -356,4 +854,19 @@ export function extractDateFromFilename(filename: string): Date {
     return new Date(match[1]);
   }
   return new Date(0); // Default to epoch if no date found
-}
\ No newline at end of file
+}
+
+/**
+ * Whether the podcast feed path of the given settings holds a file this app did not
+ * generate, which the feed must not replace. Checked when the settings are saved, so
+ * uploads are never held up by it.
+ */
+export async function isForeignPodcastFeed(settings: AppSettings): Promise<boolean> {
+  const config = getGitHubConfig();
+  if (!config || !settings.podcastFeed?.enabled) {
+    return false;
+  }
+  const branch = settings.branch || DEFAULT_BRANCH;
+  const feed = await readPodcastFeed({ ...config, repo: settings.repo, branch }, settings.podcastFeed, branch);
+  return feed !== null && !isGeneratedFeed(feed);
+}
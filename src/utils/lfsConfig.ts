@@ -0,0 +1,7 @@
+// Git LFS settings, from the build environment
+// - VITE_GITHUB_LFS_URL: address serving the LFS batch API of repositories
+//   (/<owner>/<repo>.git/info/lfs/objects/batch). GitHub doesn't send CORS headers there, so a
+//   deployment points this at a proxy that forwards the path to the GitHub server and adds them.
+//   LFS storage is offered only when it is set
+
+export const GITHUB_LFS_URL: string = (import.meta.env.VITE_GITHUB_LFS_URL || '').replace(/\/+$/, '');
@@ -0,0 +1,196 @@
+// Git LFS helpers: pointer files and the LFS batch API
+import type { GitHubConfig, LfsPointer } from '../types';
+import { GITHUB_LFS_URL } from './lfsConfig';
+import { MEDIA_EXTENSIONS } from './mediaManifest';
+import { createSha256 } from './sha256';
+import { sendWithUploadProgress } from './transferProgress';
+
+const LFS_SPEC_VERSION = 'https://git-lfs.github.com/spec/v1';
+const LFS_MEDIA_TYPE = 'application/vnd.git-lfs+json';
+
+// Real pointers are ~130 bytes; anything larger is stored content, not a pointer
+export const LFS_POINTER_MAX_SIZE = 200;
+
+interface LfsAction {
+  href: string;
+  header?: Record<string, string>;
+}
+
+interface LfsBatchObject {
+  oid: string;
+  size: number;
+  actions?: {
+    upload?: LfsAction;
+    verify?: LfsAction;
+    download?: LfsAction;
+  };
+  error?: { code: number; message: string };
+}
+
+/**
+ * Build the pointer file committed in place of an LFS object
+ */
+export function createLfsPointer(pointer: LfsPointer): string {
+  return `version ${LFS_SPEC_VERSION}\noid sha256:${pointer.oid}\nsize ${pointer.size}\n`;
+}
+
+/**
+ * Parse pointer file text, returning null for anything that is not a pointer
+ */
+export function parseLfsPointer(text: string): LfsPointer | null {
+  const lines = text.trim().split('\n');
+  if (lines[0] !== `version ${LFS_SPEC_VERSION}`) return null;
+
+  const oid = lines.find(line => line.startsWith('oid sha256:'))?.slice('oid sha256:'.length);
+  const size = lines.find(line => line.startsWith('size '))?.slice('size '.length);
+  if (!oid || !/^[0-9a-f]{64}$/.test(oid) || !size || !/^\d+$/.test(size)) return null;
+
+  return { oid, size: parseInt(size, 10) };
+}
+
+/**
+ * Decode base64 file content from the Contents API and parse it as a pointer
+ */
+export function decodeLfsPointer(base64Content: string): LfsPointer | null {
+  try {
+    return parseLfsPointer(atob(base64Content.replace(/\s/g, '')));
+  } catch {
+    return null;
+  }
+}
+
+const LFS_ATTRIBUTES = 'filter=lfs diff=lfs merge=lfs -text';
+
+/**
+ * Lines that make Git store the media files under a directory in LFS.
+ * Limited to media extensions, since the manifest and feed there are plain blobs.
+ */
+export function lfsAttributesLines(directory: string): string[] {
+  const dir = directory.replace(/\/$/, '');
+  return MEDIA_EXTENSIONS.map(extension => `${dir}/**/*.${extension} ${LFS_ATTRIBUTES}`);
+}
+
+// Read a few chunks at a time, like the streamed upload, instead of the whole recording
+export const LFS_HASH_CHUNK_SIZE = 1024 * 1024;
+
+export async function sha256Hex(file: Blob, chunkSize = LFS_HASH_CHUNK_SIZE): Promise<string> {
+  const hash = createSha256();
+  for (let offset = 0; offset < file.size; offset += chunkSize) {
+    const slice = file.slice(offset, Math.min(offset + chunkSize, file.size));
+    hash.update(new Uint8Array(await slice.arrayBuffer()));
+  }
+  return hash.digestHex();
+}
+
+/**
+ * Whether LFS objects can be stored and read, which needs the batch API proxy
+ */
+export function isLfsAvailable(): boolean {
+  return !!GITHUB_LFS_URL;
+}
+
+async function requestLfsBatch(
+  config: GitHubConfig,
+  operation: 'upload' | 'download',
+  pointer: LfsPointer,
+  ref: string = config.branch
+): Promise<LfsBatchObject> {
+  if (!isLfsAvailable()) {
+    throw new Error('Git LFS is not available: no LFS proxy is configured');
+  }
+  const res = await fetch(`${GITHUB_LFS_URL}/${config.owner}/${config.repo}.git/info/lfs/objects/batch`, {
+    method: 'POST',
+    headers: {
+      // The LFS server takes the token as a basic auth password
+      Authorization: `Basic ${btoa(`x-access-token:${config.token}`)}`,
+      Accept: LFS_MEDIA_TYPE,
+      'Content-Type': LFS_MEDIA_TYPE,
+    },
+    body: JSON.stringify({
+      operation,
+      transfers: ['basic'],
+      ref: { name: `refs/heads/${ref}` },
+      objects: [{ oid: pointer.oid, size: pointer.size }],
+      hash_algo: 'sha256',
+    }),
+  });
+  if (!res.ok) {
+    const errorText = await res.text();
+    throw new Error(`LFS batch ${operation} failed: ${res.status} ${errorText}`);
+  }
+
+  const data: { objects: LfsBatchObject[] } = await res.json();
+  const object = data.objects?.[0];
+  if (!object) {
+    throw new Error(`LFS batch ${operation} returned no object`);
+  }
+  if (object.error) {
+    throw new Error(`LFS ${operation} rejected: ${object.error.code} ${object.error.message}`);
+  }
+  return object;
+}
+
+/**
+ * Store a file in LFS and return the pointer to commit in its place.
+ * Objects the server already has come back without an upload action and are not re-sent.
+ * onBytesSent receives how many bytes of the file have been sent.
+ */
+export async function uploadLfsObject(
+  config: GitHubConfig,
+  file: Blob,
+  onBytesSent?: (bytesSent: number) => void
+): Promise<LfsPointer> {
+  const pointer: LfsPointer = { oid: await sha256Hex(file), size: file.size };
+  const object = await requestLfsBatch(config, 'upload', pointer);
+
+  const upload = object.actions?.upload;
+  if (!upload) {
+    console.log('LFS object already stored:', pointer.oid);
+    onBytesSent?.(file.size);
+    return pointer;
+  }
+
+  const uploadInit = {
+    method: 'PUT',
+    headers: {
+      'Content-Type': 'application/octet-stream',
+      ...upload.header,
+    },
+  };
+  const uploadRes = onBytesSent
+    ? await sendWithUploadProgress(upload.href, uploadInit, file, loaded => onBytesSent(loaded))
+    : await fetch(upload.href, { ...uploadInit, body: file });
+  if (!uploadRes.ok) {
+    throw new Error(`LFS upload failed: ${uploadRes.status}`);
+  }
+
+  const verify = object.actions?.verify;
+  if (verify) {
+    const verifyRes = await fetch(verify.href, {
+      method: 'POST',
+      headers: {
+        Accept: LFS_MEDIA_TYPE,
+        'Content-Type': LFS_MEDIA_TYPE,
+        ...verify.header,
+      },
+      body: JSON.stringify(pointer),
+    });
+    if (!verifyRes.ok) {
+      throw new Error(`LFS verify failed: ${verifyRes.status}`);
+    }
+  }
+
+  return pointer;
+}
+
+/**
+ * Resolve the temporary download URL of an LFS object
+ */
+export async function fetchLfsDownloadUrl(config: GitHubConfig, pointer: LfsPointer, ref?: string): Promise<string> {
+  const object = await requestLfsBatch(config, 'download', pointer, ref);
+  const download = object.actions?.download;
+  if (!download) {
+    throw new Error('LFS object has no download action');
+  }
+  return download.href;
+}
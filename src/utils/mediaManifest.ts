@@ -0,0 +1,265 @@
+// Machine-readable index of the media folder (index.json)
+// - Lists each recording with the metadata otherwise only found in its file name
+// - Rewritten inside the commit of every upload, rename or delete, from that commit's tree changes
+// - Read alongside the tree listing, which still decides what exists; entries whose blob SHA
+//   still matches spare the per-file pointer reads and URL checks
+// - Seeded again from the tree when media arrived without it, e.g. through a merged pull request
+// - No store access, so the service worker can update it with queued uploads
+
+import type {
+  GitHubConfig,
+  GitHubRequestInit,
+  GitHubTreeEntry,
+  GitTreeItem,
+  MediaManifest,
+  MediaManifestDetails,
+  MediaManifestEntry,
+} from '../types';
+import { githubFetch } from './githubFetch';
+import { repoApiUrl } from './githubHost';
+import { parseMediaFileName } from './fileUtils';
+
+export const MEDIA_MANIFEST_FILE = 'index.json';
+export const MEDIA_MANIFEST_VERSION = 1;
+
+// Also the files Git LFS tracks in LFS mode
+export const MEDIA_EXTENSIONS = ['mp3', 'wav', 'm4a', 'aac', 'mp4', 'webm', 'avi', 'mov'];
+const THUMBNAIL_EXTENSIONS = ['jpg', 'jpeg', 'png', 'webp'];
+
+// Types of media listed from the repository rather than uploaded, by extension
+const MEDIA_MIME_TYPES: Record<string, string> = {
+  mp3: 'audio/mpeg',
+  wav: 'audio/wav',
+  m4a: 'audio/mp4',
+  aac: 'audio/aac',
+  mp4: 'video/mp4',
+  webm: 'video/webm',
+  avi: 'video/x-msvideo',
+  mov: 'video/quicktime',
+};
+
+type ManifestFolders = Pick<GitHubConfig, 'path' | 'thumbnailPath'>;
+
+export function mediaManifestPath(config: Pick<GitHubConfig, 'path'>): string {
+  return `${config.path}${MEDIA_MANIFEST_FILE}`;
+}
+
+function fileNameOf(filePath: string): string {
+  return filePath.slice(filePath.lastIndexOf('/') + 1);
+}
+
+function baseNameOf(filePath: string): string {
+  return fileNameOf(filePath).replace(/\.[^.]+$/, '');
+}
+
+function hasExtension(filePath: string, extensions: string[]): boolean {
+  const extension = fileNameOf(filePath).split('.').pop()?.toLowerCase();
+  return !!extension && extensions.includes(extension);
+}
+
+// Thumbnails are checked first, since their folder may sit inside the media folder
+function isThumbnailPath(filePath: string, folders: ManifestFolders): boolean {
+  return filePath.startsWith(folders.thumbnailPath) && hasExtension(filePath, THUMBNAIL_EXTENSIONS);
+}
+
+function isMediaPath(filePath: string, folders: ManifestFolders): boolean {
+  return filePath.startsWith(folders.path)
+    && !isThumbnailPath(filePath, folders)
+    && hasExtension(filePath, MEDIA_EXTENSIONS);
+}
+
+/**
+ * Whether tree changes touch anything the manifest describes
+ */
+export function touchesMediaManifest(folders: ManifestFolders, treeItems: GitTreeItem[]): boolean {
+  return treeItems.some(item => isMediaPath(item.path, folders) || isThumbnailPath(item.path, folders));
+}
+
+/**
+ * Manifest details of a media file about to be committed
+ */
+export function mediaManifestDetails(file: Blob, duration?: number): MediaManifestDetails {
+  const details: MediaManifestDetails = { size: file.size, mimeType: file.type || 'application/octet-stream' };
+  if (duration) {
+    details.duration = duration;
+  }
+  return details;
+}
+
+function isMediaManifest(value: unknown): value is MediaManifest {
+  return !!value && typeof value === 'object' && Array.isArray((value as MediaManifest).files);
+}
+
+/**
+ * Read the manifest at a commit or branch. Resolves null when there is none yet,
+ * or when it cannot be parsed and has to be rebuilt.
+ */
+export async function readMediaManifest(config: GitHubConfig, ref: string, init: GitHubRequestInit = {}): Promise<MediaManifest | null> {
+  const res = await githubFetch(`${repoApiUrl(config)}/contents/${mediaManifestPath(config)}?ref=${encodeURIComponent(ref)}`, {
+    ...init,
+    headers: {
+      Authorization: `Bearer ${config.token}`,
+      Accept: 'application/vnd.github.raw+json',
+      ...init.headers,
+    },
+  });
+  if (res.status === 404) {
+    return null;
+  }
+  if (!res.ok) {
+    throw new Error(`Failed to read media manifest: ${res.status}`);
+  }
+
+  try {
+    const manifest: unknown = await res.json();
+    if (isMediaManifest(manifest)) {
+      return manifest;
+    }
+  } catch {
+    // Falls through to the warning below
+  }
+  console.warn(`${mediaManifestPath(config)} is not a valid media manifest, rebuilding it`);
+  return null;
+}
+
+/**
+ * Whether the manifest can describe every media file the tree changes add: each one
+ * is either being uploaded with details or already listed, at its path or under its
+ * blob SHA when it is moved. When not, the manifest has to be seeded again.
+ */
+export function describesTreeChanges(
+  manifest: MediaManifest,
+  folders: ManifestFolders,
+  treeItems: GitTreeItem[],
+  details: Record<string, MediaManifestDetails> = {}
+): boolean {
+  return treeItems
+    .filter(item => item.sha !== null && isMediaPath(item.path, folders) && !details[item.path])
+    .every(item => manifest.files.some(entry => entry.path === item.path || entry.sha === item.sha));
+}
+
+/**
+ * Whether the manifest lists exactly the media files of a tree listing, each at its
+ * current blob SHA. Media committed without the app, such as through a merged pull
+ * request, leaves it behind, and it has to be seeded again.
+ */
+export function listsTreeMedia(manifest: MediaManifest, folders: ManifestFolders, listing: GitHubTreeEntry[]): boolean {
+  const media = listing.filter(entry => entry.type === 'blob' && isMediaPath(entry.path, folders));
+  const listed = new Map(manifest.files.map(entry => [entry.path, entry.sha]));
+  return media.length === manifest.files.length && media.every(entry => listed.get(entry.path) === entry.sha);
+}
+
+function describeFile(filePath: string): Pick<MediaManifestEntry, 'title' | 'author' | 'category' | 'date'> {
+  const parsed = parseMediaFileName(fileNameOf(filePath));
+  return {
+    title: parsed?.title || baseNameOf(filePath),
+    author: parsed?.author || '',
+    category: parsed?.category || '',
+    date: parsed?.date || '',
+  };
+}
+
+/**
+ * Apply a commit's tree changes to the manifest. Removed paths drop their entries,
+ * media moved to a new path keeps its entry (matched by blob SHA), new media is
+ * described from its file name and details, and thumbnails attach to the media
+ * file with the same base name.
+ */
+export function updateMediaManifest(
+  manifest: MediaManifest | null,
+  folders: ManifestFolders,
+  treeItems: GitTreeItem[],
+  details: Record<string, MediaManifestDetails> = {}
+): MediaManifest {
+  const entries = new Map((manifest?.files || []).map(entry => [entry.path, entry]));
+  const removedPaths = new Set(treeItems.filter(item => item.sha === null).map(item => item.path));
+  const moved = new Map<string, MediaManifestEntry>();
+
+  removedPaths.forEach(path => {
+    const entry = entries.get(path);
+    if (entry) {
+      moved.set(entry.sha, entry);
+      entries.delete(path);
+    }
+  });
+  entries.forEach((entry, path) => {
+    if (entry.thumbnailPath && removedPaths.has(entry.thumbnailPath)) {
+      entries.set(path, { ...entry, thumbnailPath: undefined });
+    }
+  });
+
+  const added = treeItems.filter((item): item is GitTreeItem & { sha: string } => item.sha !== null);
+  added
+    .filter(item => isMediaPath(item.path, folders))
+    .forEach(item => {
+      const previous = entries.get(item.path) || moved.get(item.sha);
+      const known = details[item.path] || previous;
+      if (!known) {
+        // Moved from a path neither the manifest nor its seed listed, so its size and type are unknown
+        return;
+      }
+      const thumbnailPath = previous?.thumbnailPath && !removedPaths.has(previous.thumbnailPath)
+        ? previous.thumbnailPath
+        : undefined;
+      entries.set(item.path, {
+        path: item.path,
+        thumbnailPath,
+        ...describeFile(item.path),
+        duration: known.duration,
+        size: known.size,
+        mimeType: known.mimeType,
+        sha: item.sha,
+      });
+    });
+
+  added
+    .filter(item => isThumbnailPath(item.path, folders))
+    .forEach(item => {
+      entries.forEach((entry, path) => {
+        if (baseNameOf(path) === baseNameOf(item.path)) {
+          entries.set(path, { ...entry, thumbnailPath: item.path });
+        }
+      });
+    });
+
+  // Missing thumbnail paths and durations stay undefined and drop out when serialized
+  const files = [...entries.values()].sort((a, b) => a.path.localeCompare(b.path));
+  return { version: MEDIA_MANIFEST_VERSION, updated: new Date().toISOString(), files };
+}
+
+/**
+ * Build a manifest from the media and thumbnails already in the repository, for when
+ * there is none yet or it misses files. Sizes are those of the listed blobs, which
+ * for LFS pointers should already be replaced by the object sizes. Entries of the
+ * earlier manifest are kept where their blob is unchanged.
+ */
+export function seedMediaManifest(
+  folders: ManifestFolders,
+  listing: GitHubTreeEntry[],
+  previous: MediaManifest | null = null
+): MediaManifest {
+  const blobs = listing.filter(entry => entry.type === 'blob');
+  const details: Record<string, MediaManifestDetails> = {};
+  blobs.forEach(entry => {
+    const extension = fileNameOf(entry.path).split('.').pop()?.toLowerCase() || '';
+    details[entry.path] = { size: entry.size ?? 0, mimeType: MEDIA_MIME_TYPES[extension] || 'application/octet-stream' };
+  });
+
+  const seeded = updateMediaManifest(null, folders, blobs.map(entry => ({
+    path: entry.path,
+    mode: '100644',
+    type: 'blob',
+    sha: entry.sha,
+  })), details);
+
+  const earlier = new Map((previous?.files || []).map(entry => [entry.path, entry]));
+  const files = seeded.files.map(entry => {
+    const kept = earlier.get(entry.path);
+    return kept?.sha === entry.sha ? { ...kept, thumbnailPath: entry.thumbnailPath } : entry;
+  });
+  return { ...seeded, files };
+}
+
+export function serializeMediaManifest(manifest: MediaManifest): string {
+  return `${JSON.stringify(manifest, null, 2)}\n`;
+}
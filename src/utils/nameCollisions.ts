@@ -0,0 +1,55 @@
+// Name collisions between uploads and files already in the repository
+// - A commit tree silently replaces whatever is at a path, so uploads are checked first
+// - Media and thumbnail are checked together and renamed together, keeping them paired
+//   by base name
+
+import type { NewUploadJob } from '../types';
+import { withCopySuffix } from './fileUtils';
+
+// Repository folders uploads go to, each ending in '/'
+export interface UploadFolders {
+  path: string;
+  thumbnailPath: string;
+}
+
+// Repository paths a job writes to
+function jobPaths(job: NewUploadJob, folders: UploadFolders): string[] {
+  const paths = [`${folders.path}${job.fileName}`];
+  if (job.thumbnail) {
+    paths.push(`${folders.thumbnailPath}${job.thumbnail.fileName}`);
+  }
+  return paths;
+}
+
+/**
+ * Jobs that would replace an existing file, or a file written by an earlier job of the same batch
+ */
+export function findNameCollisions(jobs: NewUploadJob[], existingPaths: Set<string>, folders: UploadFolders): NewUploadJob[] {
+  const taken = new Set(existingPaths);
+  return jobs.filter(job => {
+    const paths = jobPaths(job, folders);
+    const collides = paths.some(path => taken.has(path));
+    paths.forEach(path => taken.add(path));
+    return collides;
+  });
+}
+
+/**
+ * Give colliding jobs the first free copy number, e.g. "Weekly (2)", renaming the thumbnail to match
+ */
+export function keepBothNames(jobs: NewUploadJob[], existingPaths: Set<string>, folders: UploadFolders): NewUploadJob[] {
+  const taken = new Set(existingPaths);
+  return jobs.map(job => {
+    let renamed = job;
+    for (let copy = 2; jobPaths(renamed, folders).some(path => taken.has(path)); copy++) {
+      const fileName = withCopySuffix(job.fileName, copy);
+      renamed = { ...job, fileName };
+      if (job.thumbnail) {
+        const extension = job.thumbnail.fileName.match(/\.[^.]+$/)?.[0] ?? '';
+        renamed.thumbnail = { ...job.thumbnail, fileName: `${fileName.replace(/\.[^.]+$/, '')}${extension}` };
+      }
+    }
+    jobPaths(renamed, folders).forEach(path => taken.add(path));
+    return renamed;
+  });
+}
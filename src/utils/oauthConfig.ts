@@ -0,0 +1,10 @@
+// OAuth device flow settings, from the build environment
+// - VITE_GITHUB_OAUTH_CLIENT_ID: client ID of the OAuth app (device flow enabled); sign-in with
+//   GitHub is offered only when it is set
+// - VITE_GITHUB_OAUTH_URL: address serving GitHub's /login/device/code and /login/oauth/access_token,
+//   defaults to github.com. GitHub doesn't allow those endpoints to be called from browsers, so a
+//   deployment points this at a proxy that adds CORS headers
+
+export const GITHUB_OAUTH_CLIENT_ID: string = import.meta.env.VITE_GITHUB_OAUTH_CLIENT_ID || '';
+
+export const GITHUB_OAUTH_URL: string = import.meta.env.VITE_GITHUB_OAUTH_URL || 'https://github.com';
@@ -0,0 +1,85 @@
+// Offline copies of remote media
+// - Media and thumbnail blobs are downloaded into the IndexedDB blob store used for large recordings
+// - Remote file ids carry the blob SHA, so a copy stays valid until the file's content changes
+// - Which files have a copy is tracked by the files store; this module only moves the bytes
+
+import type { EnhancedFileRecord, OfflineFile } from '../types';
+import { generateFreshDownloadUrl } from './githubUtils';
+import { storeBlobInIndexedDB, getBlobFromIndexedDB, deleteBlobFromIndexedDB } from './persistentStorage';
+
+function mediaKey(fileId: string): string {
+  return `offline-media-${fileId}`;
+}
+
+function thumbnailKey(fileId: string): string {
+  return `offline-thumbnail-${fileId}`;
+}
+
+/**
+ * Download a repository file, LFS objects included
+ */
+export async function downloadRemoteFile(filePath: string, ref?: string): Promise<Blob> {
+  const url = await generateFreshDownloadUrl(filePath, ref);
+  if (!url) {
+    throw new Error(`No download URL for ${filePath}`);
+  }
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Failed to download ${filePath}: ${response.status}`);
+  }
+  return response.blob();
+}
+
+/**
+ * Download a remote file and its thumbnail into the blob store
+ * @param thumbnailPath Repository path of the thumbnail, when the file has one
+ */
+export async function saveOfflineCopy(file: EnhancedFileRecord, thumbnailPath?: string): Promise<OfflineFile> {
+  const media = await downloadRemoteFile(file.path || file.url || '');
+
+  // A missing thumbnail shouldn't stop the media from playing offline
+  let thumbnail: Blob | null = null;
+  if (thumbnailPath) {
+    try {
+      thumbnail = await downloadRemoteFile(thumbnailPath);
+    } catch (error) {
+      console.warn('Failed to download thumbnail for offline use:', error);
+    }
+  }
+
+  await storeBlobInIndexedDB(mediaKey(file.id), media);
+  if (thumbnail) {
+    await storeBlobInIndexedDB(thumbnailKey(file.id), thumbnail);
+  }
+
+  return {
+    size: media.size + (thumbnail?.size ?? 0),
+    cachedAt: Date.now(),
+    hasThumbnail: !!thumbnail,
+  };
+}
+
+/**
+ * Read the stored copy of a remote file
+ * @returns null when the media blob is gone, e.g. after the browser cleared storage
+ */
+export async function loadOfflineCopy(fileId: string, entry: OfflineFile): Promise<{ media: Blob; thumbnail: Blob | null } | null> {
+  const media = await getBlobFromIndexedDB(mediaKey(fileId));
+  if (!media) return null;
+  const thumbnail = entry.hasThumbnail ? await getBlobFromIndexedDB(thumbnailKey(fileId)) : null;
+  return { media, thumbnail };
+}
+
+export async function deleteOfflineCopy(fileId: string): Promise<void> {
+  await deleteBlobFromIndexedDB(mediaKey(fileId));
+  await deleteBlobFromIndexedDB(thumbnailKey(fileId));
+}
+
+/**
+ * Pick the remote files the auto-cache setting keeps offline: the most recent ones on the branch
+ * @param files Combined library, already sorted newest first
+ */
+export function recentRemoteFiles(files: EnhancedFileRecord[], count: number): EnhancedFileRecord[] {
+  if (count <= 0) return [];
+  return files.filter(file => !file.isLocal && !file.pullRequest).slice(0, count);
+}
@@ -33,7 +33,7 @@ async function getDB(): Promise<IDBDatabase> {
 /**
  * Store blob in IndexedDB
  */
-async function storeBlobInIndexedDB(key: string, blob: Blob): Promise<void> {
+export async function storeBlobInIndexedDB(key: string, blob: Blob): Promise<void> {
   const db = await getDB();
   const transaction = db.transaction([STORE_NAME], 'readwrite');
   const store = transaction.objectStore(STORE_NAME);
@@ -48,7 +48,7 @@ async function storeBlobInIndexedDB(key: string, blob: Blob): Promise<void> {
 /**
  * Retrieve blob from IndexedDB
  */
-async function getBlobFromIndexedDB(key: string): Promise<Blob | null> {
+export async function getBlobFromIndexedDB(key: string): Promise<Blob | null> {
   const db = await getDB();
   const transaction = db.transaction([STORE_NAME], 'readonly');
   const store = transaction.objectStore(STORE_NAME);
@@ -63,7 +63,7 @@ async function getBlobFromIndexedDB(key: string): Promise<Blob | null> {
 /**
  * Delete blob from IndexedDB
  */
-async function deleteBlobFromIndexedDB(key: string): Promise<void> {
+export async function deleteBlobFromIndexedDB(key: string): Promise<void> {
   const db = await getDB();
   const transaction = db.transaction([STORE_NAME], 'readwrite');
   const store = transaction.objectStore(STORE_NAME);
@@ -0,0 +1,146 @@
+// Podcast feed (RSS 2.0 with the iTunes namespace) built from the media manifest
+// - Recordings in the feed's categories become episodes, newest first
+// - Enclosure size, duration and artwork come from the manifest entry
+// - Carries a generator element, so a feed at the same path that this app did not write is never replaced;
+//   settings refuse such a path when saved
+// - No store access, so the service worker can regenerate it with queued uploads
+
+import type { GitHubConfig, MediaManifest, MediaManifestEntry, PodcastFeedSettings } from '../types';
+import { githubFetch } from './githubFetch';
+import { repoApiUrl } from './githubHost';
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+export const DEFAULT_FEED_PATH = 'feed.xml';
+export const FEED_GENERATOR = 'GitHub Media Recorder';
+
+// Repository path the feed is committed to
+export function podcastFeedPath(settings: PodcastFeedSettings): string {
+  return settings.path.trim().replace(/^\/+/, '') || DEFAULT_FEED_PATH;
+}
+
+// Public URL of a repository path, each segment encoded (file names may contain spaces)
+export function feedUrl(settings: PodcastFeedSettings, filePath: string): string {
+  const base = settings.baseUrl.trim().replace(/\/+$/, '');
+  return `${base}/${filePath.split('/').map(encodeURIComponent).join('/')}`;
+}
+
+// iTunes duration as H:MM:SS or M:SS
+export function formatFeedDuration(seconds: number): string {
+  const total = Math.round(seconds);
+  const hours = Math.floor(total / 3600);
+  const minutes = Math.floor((total % 3600) / 60);
+  const secs = String(total % 60).padStart(2, '0');
+  return hours > 0 ? `${hours}:${String(minutes).padStart(2, '0')}:${secs}` : `${minutes}:${secs}`;
+}
+
+/**
+ * Manifest entries published as episodes, newest first
+ */
+export function podcastEpisodes(manifest: MediaManifest | null, settings: PodcastFeedSettings): MediaManifestEntry[] {
+  return (manifest?.files || [])
+    .filter(entry => settings.categories.includes(entry.category))
+    .sort((a, b) => b.date.localeCompare(a.date) || a.path.localeCompare(b.path));
+}
+
+// Feed XML without its build date, which differs on every build
+function withoutBuildDate(xml: string): string {
+  return xml.replace(/<lastBuildDate>[^<]*<\/lastBuildDate>/, '');
+}
+
+/**
+ * Whether the feed for a manifest differs from the feed file in the repository, in an
+ * episode or in the channel settings. Also true when there is no feed file yet.
+ */
+export function podcastFeedChanged(settings: PodcastFeedSettings, existingFeed: string | null, manifest: MediaManifest): boolean {
+  return existingFeed === null || withoutBuildDate(existingFeed) !== withoutBuildDate(buildPodcastFeed(manifest, settings));
+}
+
+// Whether feed XML was written by this app
+export function isGeneratedFeed(xml: string): boolean {
+  return xml.includes(`<generator>${FEED_GENERATOR}</generator>`);
+}
+
+/**
+ * Read the file at the feed path at a commit or branch. Resolves null when there is none.
+ */
+export async function readPodcastFeed(config: GitHubConfig, settings: PodcastFeedSettings, ref: string): Promise<string | null> {
+  const res = await githubFetch(`${repoApiUrl(config)}/contents/${podcastFeedPath(settings)}?ref=${encodeURIComponent(ref)}`, {
+    headers: {
+      Authorization: `Bearer ${config.token}`,
+      Accept: 'application/vnd.github.raw+json',
+    },
+  });
+  if (res.status === 404) {
+    return null;
+  }
+  if (!res.ok) {
+    throw new Error(`Failed to read podcast feed: ${res.status}`);
+  }
+  return res.text();
+}
+
+function episodeXml(entry: MediaManifestEntry, settings: PodcastFeedSettings): string {
+  const lines = [
+    '    <item>',
+    `      <title>${escapeXml(entry.title)}</title>`,
+    `      <description>${escapeXml(entry.author ? `${entry.title} by ${entry.author}` : entry.title)}</description>`,
+    `      <enclosure url="${escapeXml(feedUrl(settings, entry.path))}" length="${entry.size}" type="${escapeXml(entry.mimeType)}"/>`,
+    // The repository path stays the same when a file is overwritten or an earlier version restored,
+    // so podcast apps don't list the episode again
+    `      <guid isPermaLink="false">${escapeXml(entry.path)}</guid>`,
+  ];
+  if (entry.date) {
+    lines.push(`      <pubDate>${new Date(`${entry.date}T00:00:00Z`).toUTCString()}</pubDate>`);
+  }
+  if (entry.author) {
+    lines.push(`      <itunes:author>${escapeXml(entry.author)}</itunes:author>`);
+  }
+  if (entry.duration) {
+    lines.push(`      <itunes:duration>${formatFeedDuration(entry.duration)}</itunes:duration>`);
+  }
+  if (entry.thumbnailPath) {
+    lines.push(`      <itunes:image href="${escapeXml(feedUrl(settings, entry.thumbnailPath))}"/>`);
+  }
+  lines.push('      <itunes:episodeType>full</itunes:episodeType>', '    </item>');
+  return lines.join('\n');
+}
+
+/**
+ * Render the feed for the recordings listed in the manifest
+ */
+export function buildPodcastFeed(manifest: MediaManifest | null, settings: PodcastFeedSettings, now = new Date()): string {
+  const link = settings.baseUrl.trim().replace(/\/+$/, '');
+  const channel = [
+    `    <title>${escapeXml(settings.title)}</title>`,
+    `    <link>${escapeXml(link)}</link>`,
+    `    <description>${escapeXml(settings.description)}</description>`,
+    `    <atom:link href="${escapeXml(feedUrl(settings, podcastFeedPath(settings)))}" rel="self" type="application/rss+xml"/>`,
+    `    <lastBuildDate>${now.toUTCString()}</lastBuildDate>`,
+    `    <generator>${FEED_GENERATOR}</generator>`,
+    `    <itunes:author>${escapeXml(settings.ownerName)}</itunes:author>`,
+    `    <itunes:summary>${escapeXml(settings.description)}</itunes:summary>`,
+    '    <itunes:owner>',
+    `      <itunes:name>${escapeXml(settings.ownerName)}</itunes:name>`,
+    `      <itunes:email>${escapeXml(settings.ownerEmail)}</itunes:email>`,
+    '    </itunes:owner>',
+    '    <itunes:explicit>false</itunes:explicit>',
+    ...podcastEpisodes(manifest, settings).map(entry => episodeXml(entry, settings)),
+  ];
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<rss version="2.0" xmlns:itunes="http://www.itunes.com/dtds/podcast-1.0.dtd" xmlns:atom="http://www.w3.org/2005/Atom">',
+    '  <channel>',
+    ...channel,
+    '  </channel>',
+    '</rss>',
+    '',
+  ].join('\n');
+}
@@ -0,0 +1,113 @@
+// Tracks the GitHub API rate limit from response headers
+// - Remaining quota and reset time are read from the X-RateLimit-* headers of every response
+// - Secondary rate limits (too many requests in a short time) are tracked separately, from Retry-After
+// - Uploads and background refreshes ask how long to wait instead of failing against the limit
+
+import type { RateLimitStatus } from '../types';
+import { formatTime } from './date';
+
+// GitHub asks clients to wait at least a minute when a secondary limit names no retry time
+const SECONDARY_LIMIT_WAIT = 60 * 1000;
+
+const EMPTY_STATUS: RateLimitStatus = {
+  limit: null,
+  remaining: null,
+  resetAt: null,
+  secondaryUntil: null,
+  updatedAt: null,
+};
+
+let status: RateLimitStatus = EMPTY_STATUS;
+const listeners = new Set<() => void>();
+
+function setStatus(next: RateLimitStatus): void {
+  status = next;
+  listeners.forEach(listener => listener());
+}
+
+function headerNumber(response: Response, name: string): number | null {
+  const value = response.headers?.get(name);
+  if (value === null || value === undefined || value === '') return null;
+  const number = Number(value);
+  return Number.isFinite(number) ? number : null;
+}
+
+/**
+ * Update the tracker from a GitHub API response. Responses without rate limit
+ * headers (or for other quotas, such as search) leave it unchanged.
+ */
+export function recordRateLimit(response: Response): void {
+  const resource = response.headers?.get('X-RateLimit-Resource');
+  if (resource && resource !== 'core') return;
+
+  const now = Date.now();
+  const remaining = headerNumber(response, 'X-RateLimit-Remaining');
+  const retryAfter = headerNumber(response, 'Retry-After');
+  let next = status;
+
+  if (remaining !== null) {
+    const limit = headerNumber(response, 'X-RateLimit-Limit');
+    const reset = headerNumber(response, 'X-RateLimit-Reset');
+    next = {
+      ...next,
+      limit: limit ?? next.limit,
+      remaining,
+      resetAt: reset !== null ? reset * 1000 : next.resetAt,
+      updatedAt: now,
+    };
+  }
+
+  // With quota left, a refusal is a secondary limit
+  const refused = response.status === 403 || response.status === 429;
+  if (refused && (retryAfter !== null || (response.status === 429 && remaining !== 0))) {
+    next = {
+      ...next,
+      secondaryUntil: now + (retryAfter !== null ? retryAfter * 1000 : SECONDARY_LIMIT_WAIT),
+      updatedAt: now,
+    };
+  }
+
+  if (next !== status) setStatus(next);
+}
+
+export function getRateLimitStatus(): RateLimitStatus {
+  return status;
+}
+
+/**
+ * Milliseconds until GitHub accepts requests again, or 0 when not rate limited
+ */
+export function rateLimitWait(now = Date.now()): number {
+  const primary = status.remaining === 0 && status.resetAt ? status.resetAt - now : 0;
+  const secondary = status.secondaryUntil ? status.secondaryUntil - now : 0;
+  return Math.max(primary, secondary, 0);
+}
+
+/**
+ * Whether a refused response was caused by a rate limit rather than missing access
+ */
+export function isRateLimited(response: Response): boolean {
+  return (response.status === 403 || response.status === 429) && rateLimitWait() > 0;
+}
+
+export function rateLimitMessage(now = Date.now()): string {
+  const secondary = !!status.secondaryUntil && status.secondaryUntil > now;
+  const resumeAt = formatTime(now + rateLimitWait(now));
+  return secondary
+    ? `GitHub secondary rate limit reached, paused until ${resumeAt}`
+    : `GitHub API rate limit reached, paused until ${resumeAt}`;
+}
+
+export function subscribeRateLimit(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Forget the tracked quota, e.g. when another account signs in
+ */
+export function clearRateLimitStatus(): void {
+  setStatus(EMPTY_STATUS);
+}
@@ -0,0 +1,126 @@
+// Incremental SHA-256
+// SubtleCrypto only digests a whole buffer, which for a recording means holding
+// the entire file in memory; this hashes it chunk by chunk instead
+
+export interface Sha256 {
+  update: (bytes: Uint8Array) => void;
+  digestHex: () => string;
+}
+
+const ROUND_CONSTANTS = new Uint32Array([
+  0x428a2f98, 0x71374491, 0xb5c0fbcf, 0xe9b5dba5, 0x3956c25b, 0x59f111f1, 0x923f82a4, 0xab1c5ed5,
+  0xd807aa98, 0x12835b01, 0x243185be, 0x550c7dc3, 0x72be5d74, 0x80deb1fe, 0x9bdc06a7, 0xc19bf174,
+  0xe49b69c1, 0xefbe4786, 0x0fc19dc6, 0x240ca1cc, 0x2de92c6f, 0x4a7484aa, 0x5cb0a9dc, 0x76f988da,
+  0x983e5152, 0xa831c66d, 0xb00327c8, 0xbf597fc7, 0xc6e00bf3, 0xd5a79147, 0x06ca6351, 0x14292967,
+  0x27b70a85, 0x2e1b2138, 0x4d2c6dfc, 0x53380d13, 0x650a7354, 0x766a0abb, 0x81c2c92e, 0x92722c85,
+  0xa2bfe8a1, 0xa81a664b, 0xc24b8b70, 0xc76c51a3, 0xd192e819, 0xd6990624, 0xf40e3585, 0x106aa070,
+  0x19a4c116, 0x1e376c08, 0x2748774c, 0x34b0bcb5, 0x391c0cb3, 0x4ed8aa4a, 0x5b9cca4f, 0x682e6ff3,
+  0x748f82ee, 0x78a5636f, 0x84c87814, 0x8cc70208, 0x90befffa, 0xa4506ceb, 0xbef9a3f7, 0xc67178f2,
+]);
+
+const INITIAL_STATE = [
+  0x6a09e667, 0xbb67ae85, 0x3c6ef372, 0xa54ff53a, 0x510e527f, 0x9b05688c, 0x1f83d9ab, 0x5be0cd19,
+];
+
+const BLOCK_SIZE = 64;
+
+function rotateRight(value: number, bits: number): number {
+  return (value >>> bits) | (value << (32 - bits));
+}
+
+/**
+ * Start a SHA-256 hash that is fed with update() and finished with digestHex()
+ */
+export function createSha256(): Sha256 {
+  const state = new Uint32Array(INITIAL_STATE);
+  const words = new Uint32Array(64);
+  const pending = new Uint8Array(BLOCK_SIZE);
+  let pendingLength = 0;
+  let totalLength = 0;
+
+  const compress = (bytes: Uint8Array, offset: number) => {
+    for (let i = 0; i < 16; i++) {
+      const at = offset + i * 4;
+      words[i] = (bytes[at] << 24) | (bytes[at + 1] << 16) | (bytes[at + 2] << 8) | bytes[at + 3];
+    }
+    for (let i = 16; i < 64; i++) {
+      const w15 = words[i - 15];
+      const w2 = words[i - 2];
+      const s0 = rotateRight(w15, 7) ^ rotateRight(w15, 18) ^ (w15 >>> 3);
+      const s1 = rotateRight(w2, 17) ^ rotateRight(w2, 19) ^ (w2 >>> 10);
+      words[i] = words[i - 16] + s0 + words[i - 7] + s1;
+    }
+
+    let [a, b, c, d, e, f, g, h] = state;
+    for (let i = 0; i < 64; i++) {
+      const s1 = rotateRight(e, 6) ^ rotateRight(e, 11) ^ rotateRight(e, 25);
+      const choice = (e & f) ^ (~e & g);
+      const temp1 = (h + s1 + choice + ROUND_CONSTANTS[i] + words[i]) | 0;
+      const s0 = rotateRight(a, 2) ^ rotateRight(a, 13) ^ rotateRight(a, 22);
+      const majority = (a & b) ^ (a & c) ^ (b & c);
+      const temp2 = (s0 + majority) | 0;
+      h = g;
+      g = f;
+      f = e;
+      e = (d + temp1) | 0;
+      d = c;
+      c = b;
+      b = a;
+      a = (temp1 + temp2) | 0;
+    }
+
+    state[0] += a;
+    state[1] += b;
+    state[2] += c;
+    state[3] += d;
+    state[4] += e;
+    state[5] += f;
+    state[6] += g;
+    state[7] += h;
+  };
+
+  const update = (bytes: Uint8Array) => {
+    totalLength += bytes.length;
+    let offset = 0;
+
+    if (pendingLength > 0) {
+      const take = Math.min(BLOCK_SIZE - pendingLength, bytes.length);
+      pending.set(bytes.subarray(0, take), pendingLength);
+      pendingLength += take;
+      offset = take;
+      if (pendingLength < BLOCK_SIZE) return;
+      compress(pending, 0);
+      pendingLength = 0;
+    }
+
+    for (; offset + BLOCK_SIZE <= bytes.length; offset += BLOCK_SIZE) {
+      compress(bytes, offset);
+    }
+
+    pending.set(bytes.subarray(offset), 0);
+    pendingLength = bytes.length - offset;
+  };
+
+  const digestHex = () => {
+    const bitLength = totalLength * 8;
+    pending[pendingLength++] = 0x80;
+    if (pendingLength > BLOCK_SIZE - 8) {
+      pending.fill(0, pendingLength);
+      compress(pending, 0);
+      pendingLength = 0;
+    }
+    pending.fill(0, pendingLength);
+
+    // Message length in bits as a 64-bit big-endian integer
+    const view = new DataView(pending.buffer);
+    view.setUint32(BLOCK_SIZE - 8, Math.floor(bitLength / 0x100000000));
+    view.setUint32(BLOCK_SIZE - 4, bitLength >>> 0);
+    compress(pending, 0);
+
+    return Array.from(state)
+      .map(word => word.toString(16).padStart(8, '0'))
+      .join('');
+  };
+
+  return { update, digestHex };
+}
@@ -1,11 +1,19 @@
 import { useAuthStore } from '../stores/authStore';
 import type { TokenValidationResult } from '../types';
+import { clearGitHubCache } from './githubFetch';
+import { clearRateLimitStatus } from './rateLimit';
+import { apiBaseUrl } from './githubHost';
+import { tokenExpirationOf } from './tokenExpiration';
+import { clearUploadConfigs, clearUploadJobs } from './uploadQueue';
 
 // Token validation and management utilities
 
-export async function validateToken(token: string): Promise<TokenValidationResult> {
+export async function validateToken(
+  token: string,
+  baseUrl = apiBaseUrl(useAuthStore.getState().githubConfig)
+): Promise<TokenValidationResult> {
   try {
-    const response = await fetch('https://api.github.com/user', {
+    const response = await fetch(`${baseUrl}/user`, {
       headers: {
         'Authorization': `Bearer ${token}`,
         'Accept': 'application/vnd.github.v3+json',
@@ -18,6 +26,7 @@ export async function validateToken(token: string): Promise<TokenValidationResul
         isValid: true,
         isExpired: false,
         username: userData.login,
+        expiresAt: tokenExpirationOf(response),
       };
     } else if (response.status === 401) {
       return {
@@ -77,13 +86,13 @@ export function getTokenTimestamp(): number | null {
   }
 }
 
-export function isTokenLikelyExpired(): boolean {
-  const timestamp = getTokenTimestamp();
-  if (!timestamp) return true;
-  
-  // Check if token is older than 90 days (conservative estimate)
-  const ninetyDaysInMs = 90 * 24 * 60 * 60 * 1000;
-  return Date.now() - timestamp > ninetyDaysInMs;
+export function getTokenExpiresAt(): number | null {
+  try {
+    return useAuthStore.getState().tokenExpiresAt ?? null;
+  } catch (error) {
+    console.error('Failed to get token expiry from AuthStore:', error);
+    return null;
+  }
 }
 
 export async function checkTokenValidity(): Promise<TokenValidationResult> {
@@ -97,17 +106,26 @@ export async function checkTokenValidity(): Promise<TokenValidationResult> {
     };
   }
 
-  // First check if token is likely expired based on age
-  if (isTokenLikelyExpired()) {
+  // GitHub already told us when the token expires
+  const expiresAt = getTokenExpiresAt();
+  if (expiresAt !== null && expiresAt <= Date.now()) {
     return {
       isValid: false,
       isExpired: true,
-      error: 'Token is likely expired based on age',
+      error: 'Token has expired',
     };
   }
 
   // Validate token with GitHub API
-  return await validateToken(token);
+  const result = await validateToken(token);
+  if (result.isValid) {
+    try {
+      useAuthStore.getState().setTokenExpiresAt(result.expiresAt ?? null);
+    } catch (error) {
+      console.error('Failed to store token expiry in AuthStore:', error);
+    }
+  }
+  return result;
 }
 
 export function clearTokenData(): void {
@@ -117,6 +135,12 @@ export function clearTokenData(): void {
   } catch (error) {
     console.error('Failed to clear AuthStore:', error);
   }
+  // Cached responses and quota belong to the signed out account
+  clearRateLimitStatus();
+  clearGitHubCache().catch(error => console.warn('Failed to clear GitHub response cache:', error));
+  // The service worker would otherwise keep committing queued uploads with the saved token
+  Promise.all([clearUploadConfigs(), clearUploadJobs()])
+    .catch(error => console.warn('Failed to clear the upload queue:', error));
 }
 
 export function storeTokenData(token: string, username: string): void {
@@ -128,6 +152,58 @@ export function storeTokenData(token: string, username: string): void {
   }
 }
 
+/**
+ * Whether the token is stored encrypted with a passphrase
+ */
+export function isPassphraseEnabled(): boolean {
+  try {
+    return !!useAuthStore.getState().encryptedToken;
+  } catch (error) {
+    console.error('Failed to read passphrase mode from AuthStore:', error);
+    return false;
+  }
+}
+
+/**
+ * Whether the token is encrypted and the passphrase hasn't been entered since the app started
+ */
+export function isTokenLocked(): boolean {
+  try {
+    const authState = useAuthStore.getState();
+    return !!(authState.isAuthenticated && authState.encryptedToken && !authState.githubConfig?.token);
+  } catch (error) {
+    console.error('Failed to read token lock from AuthStore:', error);
+    return false;
+  }
+}
+
+/**
+ * Encrypt the token with a passphrase. The service worker's copy of the upload
+ * configuration holds the token in plain text, so it is removed; queued uploads
+ * then wait for the app instead of Background Sync.
+ */
+export async function enableTokenPassphrase(passphrase: string): Promise<void> {
+  await useAuthStore.getState().enablePassphrase(passphrase);
+  try {
+    await clearUploadConfigs();
+  } catch (error) {
+    console.warn('Failed to clear saved upload configurations:', error);
+  }
+}
+
+/**
+ * Decrypt the token for this session
+ * @returns false when the passphrase is wrong
+ */
+export async function unlockToken(passphrase: string): Promise<boolean> {
+  try {
+    return await useAuthStore.getState().unlock(passphrase);
+  } catch (error) {
+    console.error('Failed to unlock token:', error);
+    return false;
+  }
+}
+
 export function isAuthenticated(): boolean {
   const token = getStoredToken();
   const username = getStoredUsername();
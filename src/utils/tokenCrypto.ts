@@ -0,0 +1,82 @@
+// Passphrase encryption of the GitHub token
+// - A key is derived from the passphrase with PBKDF2 (SHA-256) and a random salt
+// - The token is sealed with AES-GCM, so a wrong passphrase fails to decrypt instead of
+//   producing garbage
+// - Only the sealed token is persisted; the passphrase and derived key never leave memory
+
+import type { EncryptedToken } from '../types';
+import { bytesToBase64 } from './base64Stream';
+
+// OWASP's recommendation for PBKDF2-HMAC-SHA256
+export const PBKDF2_ITERATIONS = 600000;
+
+const SALT_BYTES = 16;
+const IV_BYTES = 12; // AES-GCM nonce size
+
+function base64ToBytes(base64: string): Uint8Array {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+async function deriveKey(passphrase: string, salt: Uint8Array, iterations: number): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(passphrase),
+    'PBKDF2',
+    false,
+    ['deriveKey']
+  );
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+}
+
+/**
+ * Seal a token with a key derived from the passphrase
+ */
+export async function encryptToken(token: string, passphrase: string, iterations = PBKDF2_ITERATIONS): Promise<EncryptedToken> {
+  const salt = crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+  const key = await deriveKey(passphrase, salt, iterations);
+  const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, new TextEncoder().encode(token));
+
+  return {
+    ciphertext: bytesToBase64(new Uint8Array(ciphertext)),
+    iv: bytesToBase64(iv),
+    salt: bytesToBase64(salt),
+    iterations,
+  };
+}
+
+/**
+ * Open a sealed token
+ * @throws Error when the passphrase is wrong or the data was altered
+ */
+export async function decryptToken(encrypted: EncryptedToken, passphrase: string): Promise<string> {
+  const key = await deriveKey(passphrase, base64ToBytes(encrypted.salt), encrypted.iterations);
+  try {
+    const plaintext = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: base64ToBytes(encrypted.iv) },
+      key,
+      base64ToBytes(encrypted.ciphertext)
+    );
+    return new TextDecoder().decode(new Uint8Array(plaintext));
+  } catch {
+    throw new Error('Wrong passphrase');
+  }
+}
+
+/**
+ * Whether this browser can encrypt the token (WebCrypto needs a secure context)
+ */
+export function isTokenEncryptionSupported(): boolean {
+  return typeof crypto !== 'undefined' && !!crypto.subtle;
+}
@@ -0,0 +1,61 @@
+// Tracks when the GitHub token expires, as reported by GitHub
+// - Fine-grained and expiring classic tokens carry a github-authentication-token-expiration header
+//   on every authenticated API response; tokens without an expiry omit it
+// - Listeners (the auth store) are told whenever a response reports an expiry
+
+export const TOKEN_EXPIRATION_HEADER = 'github-authentication-token-expiration';
+
+// How far ahead the UI starts warning about an expiring token
+export const TOKEN_EXPIRY_WARNING_DAYS = 7;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const listeners = new Set<(expiresAt: number) => void>();
+
+/**
+ * Parse the expiration header, e.g. "2025-11-01 12:00:00 UTC" or "2025-11-01 12:00:00 -0700"
+ * @returns Milliseconds since epoch, or null when the value is missing or not understood
+ */
+export function parseTokenExpiration(value: string | null | undefined): number | null {
+  const match = value?.trim().match(/^(\d{4}-\d{2}-\d{2})[ T](\d{2}:\d{2}(?::\d{2})?)\s*(UTC|Z|[+-]\d{2}:?\d{2})?$/i);
+  if (!match) return null;
+
+  const [, date, time, zone] = match;
+  const offset = !zone || /^(UTC|Z)$/i.test(zone) ? 'Z' : zone.replace(/^([+-]\d{2})(\d{2})$/, '$1:$2');
+  const expiresAt = Date.parse(`${date}T${time}${offset}`);
+  return Number.isNaN(expiresAt) ? null : expiresAt;
+}
+
+/**
+ * Expiry reported by a GitHub API response, or null when it names none
+ */
+export function tokenExpirationOf(response: Response): number | null {
+  return parseTokenExpiration(response.headers?.get(TOKEN_EXPIRATION_HEADER));
+}
+
+/**
+ * Tell listeners about the expiry reported by a GitHub API response.
+ * Responses without the header leave the known expiry unchanged.
+ */
+export function recordTokenExpiration(response: Response): void {
+  const expiresAt = tokenExpirationOf(response);
+  if (expiresAt !== null) listeners.forEach(listener => listener(expiresAt));
+}
+
+export function subscribeTokenExpiration(listener: (expiresAt: number) => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Whole days left before the token expires, or null when it doesn't expire within the warning window
+ * @returns 0 on the last day, a negative number once expired
+ */
+export function tokenExpiryWarningDays(expiresAt: number | null, now = Date.now()): number | null {
+  if (expiresAt === null) return null;
+  const left = expiresAt - now;
+  if (left > TOKEN_EXPIRY_WARNING_DAYS * DAY_MS) return null;
+  return left <= 0 ? -1 : Math.floor(left / DAY_MS);
+}
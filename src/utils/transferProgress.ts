@@ -0,0 +1,90 @@
+// Byte-level upload progress: throughput, time remaining and display text
+
+import type { UploadTransfer } from '../types';
+import { formatBytes } from './storageQuota';
+
+/**
+ * Track a transfer of totalBytes, turning bytes-sent counts into
+ * throughput and remaining-time estimates averaged since the first byte
+ */
+export function createTransferTracker(totalBytes: number): (bytesSent: number) => UploadTransfer {
+  const startedAt = Date.now();
+
+  return (bytesSent: number) => {
+    const elapsedSeconds = (Date.now() - startedAt) / 1000;
+    const bytesPerSecond = elapsedSeconds > 0 ? bytesSent / elapsedSeconds : 0;
+
+    return {
+      bytesSent,
+      totalBytes,
+      bytesPerSecond,
+      secondsRemaining: bytesPerSecond > 0 ? Math.max(0, (totalBytes - bytesSent) / bytesPerSecond) : null,
+    };
+  };
+}
+
+// Header lines of an XMLHttpRequest response, as "name: value" separated by CRLF
+function parseResponseHeaders(raw: string): Record<string, string> {
+  const headers: Record<string, string> = {};
+  raw.trim().split(/[\r\n]+/).forEach(line => {
+    const separator = line.indexOf(':');
+    if (separator <= 0) return;
+    const name = line.slice(0, separator).trim();
+    const value = line.slice(separator + 1).trim();
+    headers[name] = headers[name] ? `${headers[name]}, ${value}` : value;
+  });
+  return headers;
+}
+
+/**
+ * Send a prebuilt body through XMLHttpRequest, which unlike fetch
+ * reports how many bytes of the request have gone out. The response
+ * keeps its headers, so rate limits and token expiry can be read from it.
+ */
+export function sendWithUploadProgress(
+  url: string,
+  init: { method: string; headers: Record<string, string> },
+  body: Blob,
+  onUploadProgress: (loaded: number, total: number) => void
+): Promise<Response> {
+  return new Promise((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    xhr.open(init.method, url);
+    Object.entries(init.headers).forEach(([name, value]) => xhr.setRequestHeader(name, value));
+    xhr.upload.onprogress = (event) => {
+      if (event.lengthComputable) onUploadProgress(event.loaded, event.total);
+    };
+    xhr.onload = () => resolve(new Response(xhr.responseText, {
+      status: xhr.status,
+      statusText: xhr.statusText,
+      headers: parseResponseHeaders(xhr.getAllResponseHeaders()),
+    }));
+    xhr.onerror = () => reject(new TypeError('Network request failed'));
+    xhr.send(body);
+  });
+}
+
+function formatRemaining(seconds: number): string {
+  if (seconds < 60) {
+    return `${Math.max(1, Math.round(seconds))}s`;
+  }
+  return `${Math.round(seconds / 60)} min`;
+}
+
+/**
+ * Format a transfer as e.g. "12.4 MB of 48 MB, ~40s left"
+ */
+export function formatTransfer(transfer: UploadTransfer): string {
+  const sizes = `${formatBytes(transfer.bytesSent)} of ${formatBytes(transfer.totalBytes)}`;
+  if (transfer.secondsRemaining === null || transfer.bytesSent >= transfer.totalBytes) {
+    return sizes;
+  }
+  return `${sizes}, ~${formatRemaining(transfer.secondsRemaining)} left`;
+}
+
+/**
+ * Format throughput as e.g. "1.2 MB/s"
+ */
+export function formatThroughput(bytesPerSecond: number): string {
+  return `${formatBytes(Math.round(bytesPerSecond))}/s`;
+}
@@ -0,0 +1,266 @@
+// Durable upload queue in IndexedDB
+// - One job per media file with its processed thumbnail
+// - Jobs keep their blobs so uploads survive reloads and app restarts
+// - Attempt counts and exponential backoff per job
+// - Shared with the service worker, which commits queued uploads in the background
+//   and records what it committed for the app to clean up, even with no window open
+
+import type { BatchUploadItem, CompletedUpload, GitHubConfig, UploadJob, NewUploadJob, PublishMode } from '../types';
+
+const DB_NAME = 'media-recorder-upload-queue';
+const DB_VERSION = 1;
+const STORE_NAME = 'jobs';
+const CONFIG_STORE_NAME = 'config';
+const COMPLETED_STORE_NAME = 'completed';
+const CONFIG_KEY = 'upload';
+// Web Lock held while a batch is committed, so the app and the service worker never run the same job twice
+const QUEUE_LOCK_NAME = 'media-recorder-upload-queue';
+
+export const MAX_UPLOAD_ATTEMPTS = 6;
+const BASE_RETRY_DELAY = 5000; // 5 seconds
+const MAX_RETRY_DELAY = 10 * 60 * 1000; // 10 minutes
+
+function openQueueDB(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const req = indexedDB.open(DB_NAME, DB_VERSION);
+    req.onupgradeneeded = () => {
+      const db = req.result;
+      if (!db.objectStoreNames.contains(STORE_NAME)) {
+        db.createObjectStore(STORE_NAME, { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains(CONFIG_STORE_NAME)) {
+        db.createObjectStore(CONFIG_STORE_NAME);
+      }
+      if (!db.objectStoreNames.contains(COMPLETED_STORE_NAME)) {
+        db.createObjectStore(COMPLETED_STORE_NAME, { keyPath: 'fileId' });
+      }
+    };
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+/**
+ * Delay before the next attempt after `attempts` failures: 5s, 10s, 20s... capped at 10 minutes
+ */
+export function uploadRetryDelay(attempts: number): number {
+  return Math.min(BASE_RETRY_DELAY * Math.pow(2, Math.max(0, attempts - 1)), MAX_RETRY_DELAY);
+}
+
+/**
+ * Add jobs behind everything already queued. Jobs added in one call share a batch
+ * and are committed together. Files that already have a job replace it.
+ */
+export async function enqueueUploadJobs(newJobs: NewUploadJob[], publishMode: PublishMode): Promise<UploadJob[]> {
+  const db = await openQueueDB();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(STORE_NAME, 'readwrite');
+    const store = tx.objectStore(STORE_NAME);
+    const now = Date.now();
+    const batchId = `batch-${now}-${Math.random().toString(36).slice(2)}`;
+    const added: UploadJob[] = [];
+
+    const req = store.getAll();
+    req.onsuccess = () => {
+      const existing: UploadJob[] = req.result;
+      let sequence = existing.reduce((max, job) => Math.max(max, job.sequence), 0);
+      const fileIds = newJobs.map(job => job.fileId);
+
+      existing
+        .filter(job => fileIds.includes(job.fileId))
+        .forEach(job => store.delete(job.id));
+
+      newJobs.forEach(newJob => {
+        const job: UploadJob = {
+          ...newJob,
+          id: `upload-${now}-${Math.random().toString(36).slice(2)}`,
+          batchId,
+          sequence: ++sequence,
+          publishMode,
+          status: 'queued',
+          attempts: 0,
+          nextAttemptAt: now,
+          created: now,
+        };
+        store.put(job);
+        added.push(job);
+      });
+    };
+    tx.oncomplete = () => resolve(added);
+    tx.onerror = () => reject(tx.error);
+  });
+}
+
+/**
+ * All jobs in processing order
+ */
+export async function listUploadJobs(): Promise<UploadJob[]> {
+  const db = await openQueueDB();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(STORE_NAME, 'readonly');
+    const req = tx.objectStore(STORE_NAME).getAll();
+    req.onsuccess = () => resolve((req.result as UploadJob[]).sort((a, b) => a.sequence - b.sequence));
+    req.onerror = () => reject(req.error);
+  });
+}
+
+export async function updateUploadJobs(jobs: UploadJob[]): Promise<void> {
+  const db = await openQueueDB();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(STORE_NAME, 'readwrite');
+    const store = tx.objectStore(STORE_NAME);
+    jobs.forEach(job => store.put(job));
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+  });
+}
+
+export async function removeUploadJobs(ids: string[]): Promise<void> {
+  const db = await openQueueDB();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(STORE_NAME, 'readwrite');
+    const store = tx.objectStore(STORE_NAME);
+    ids.forEach(id => store.delete(id));
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+  });
+}
+
+/**
+ * Remove the jobs of a committed batch and record them as completed, in one transaction
+ */
+export async function completeUploadJobs(jobs: UploadJob[]): Promise<void> {
+  const db = await openQueueDB();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction([STORE_NAME, COMPLETED_STORE_NAME], 'readwrite');
+    const jobStore = tx.objectStore(STORE_NAME);
+    const completedStore = tx.objectStore(COMPLETED_STORE_NAME);
+    jobs.forEach(job => {
+      jobStore.delete(job.id);
+      const completed: CompletedUpload = { fileId: job.fileId, fileName: job.fileName, profileId: job.profileId };
+      completedStore.put(completed);
+    });
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+  });
+}
+
+/**
+ * Remove and return completed uploads, all of them or only those of the given files
+ */
+export async function takeCompletedUploads(fileIds?: string[]): Promise<CompletedUpload[]> {
+  const db = await openQueueDB();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(COMPLETED_STORE_NAME, 'readwrite');
+    const store = tx.objectStore(COMPLETED_STORE_NAME);
+    let taken: CompletedUpload[] = [];
+    const req = store.getAll();
+    req.onsuccess = () => {
+      taken = (req.result as CompletedUpload[]).filter(upload => !fileIds || fileIds.includes(upload.fileId));
+      taken.forEach(upload => store.delete(upload.fileId));
+    };
+    tx.oncomplete = () => resolve(taken);
+    tx.onerror = () => reject(tx.error);
+  });
+}
+
+/**
+ * Remove every job, e.g. when signing out
+ */
+export async function clearUploadJobs(): Promise<void> {
+  const db = await openQueueDB();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(STORE_NAME, 'readwrite');
+    tx.objectStore(STORE_NAME).clear();
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+  });
+}
+
+/**
+ * Record a failed attempt for a batch. Losing the connection mid-upload is not
+ * the jobs' fault, so it costs no attempt; jobs out of attempts are marked failed.
+ */
+export async function recordUploadFailure(batch: UploadJob[], error: unknown): Promise<UploadJob[]> {
+  const message = error instanceof Error ? error.message : 'Upload failed';
+  const countsAsAttempt = navigator.onLine;
+  const now = Date.now();
+
+  const updated = batch.map((job): UploadJob => {
+    const attempts = countsAsAttempt ? job.attempts + 1 : job.attempts;
+    return {
+      ...job,
+      attempts,
+      status: attempts >= MAX_UPLOAD_ATTEMPTS ? 'failed' : 'queued',
+      nextAttemptAt: countsAsAttempt ? now + uploadRetryDelay(attempts) : now,
+      lastError: message,
+    };
+  });
+  await updateUploadJobs(updated);
+  return updated;
+}
+
+/**
+ * The media file and thumbnail of a job as batch upload items
+ */
+export function uploadJobItems(job: UploadJob): BatchUploadItem[] {
+  const items: BatchUploadItem[] = [{ file: job.file, fileName: job.fileName, pathType: 'media', duration: job.duration }];
+  if (job.thumbnail) {
+    items.push({ file: job.thumbnail.file, fileName: job.thumbnail.fileName, pathType: 'thumbnail' });
+  }
+  return items;
+}
+
+/**
+ * Run a queue step while holding the queue lock. Without the Web Locks API
+ * (older browsers, tests) the step runs straight away.
+ */
+export async function withUploadQueueLock<T>(step: () => Promise<T>): Promise<T> {
+  if (!navigator.locks) {
+    return step();
+  }
+  return navigator.locks.request(QUEUE_LOCK_NAME, step);
+}
+
+// Configurations saved before profiles existed keep the plain key
+function uploadConfigKey(profileId?: string): string {
+  return profileId ? `${CONFIG_KEY}:${profileId}` : CONFIG_KEY;
+}
+
+/**
+ * Keep the upload configuration where the service worker can read it;
+ * the app's stores live in localStorage, which workers cannot access.
+ * Each repository profile has its own entry.
+ */
+export async function saveUploadConfig(config: GitHubConfig): Promise<void> {
+  const db = await openQueueDB();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(CONFIG_STORE_NAME, 'readwrite');
+    tx.objectStore(CONFIG_STORE_NAME).put(config, uploadConfigKey(config.profileId));
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+  });
+}
+
+/**
+ * Remove every saved upload configuration, e.g. once the token may no longer be stored unencrypted
+ */
+export async function clearUploadConfigs(): Promise<void> {
+  const db = await openQueueDB();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(CONFIG_STORE_NAME, 'readwrite');
+    tx.objectStore(CONFIG_STORE_NAME).clear();
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+  });
+}
+
+export async function loadUploadConfig(profileId?: string): Promise<GitHubConfig | null> {
+  const db = await openQueueDB();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(CONFIG_STORE_NAME, 'readonly');
+    const req = tx.objectStore(CONFIG_STORE_NAME).get(uploadConfigKey(profileId));
+    req.onsuccess = () => resolve(req.result ?? null);
+    req.onerror = () => reject(req.error);
+  });
+}
@@ -1,23 +1,56 @@
 // Utility for uploading files to GitHub
 // - Uses GitHub REST API to upload to a repo
-// - Gets configuration from Zustand stores
+// - Gets configuration from Zustand stores, for the active or a given repository profile
 // - Uploads to configured directory
-// - Supports progress callback
+// - Supports progress callback, with bytes sent, throughput and time remaining while file content is transferred
+// - Supports batching several files into a single commit
+// - Optionally stores media files in Git LFS and commits pointer files
+// - Deletes, renames and restores earlier versions of files in the repository
+// - Keeps the media manifest (index.json) and the optional podcast feed up to date in each of those commits
+// - Creates a missing branch or folder found by the repository check
+// - Git Data API steps live in gitDataUtils, shared with the service worker
 
-import type { GitHubConfig, CreateTreeBody, CreateCommitBody } from '../types';
+import type { GitHubConfig, BatchUploadItem, FileVersion, MediaManifestDetails, PendingPullRequest, UploadProgressCallback, RepositoryRename, RepositoryFile } from '../types';
 import { useAuthStore } from '../stores/authStore';
 import { useSettingsStore } from '../stores/settingsStore';
+import { DEFAULT_BRANCH } from './appConfig';
+import {
+  type BatchEntry,
+  getLatestCommitSha,
+  getTreeSha,
+  createBlob,
+  createTree,
+  createCommit,
+  blobTreeItem,
+  uploadFileContentsAPI,
+  resolveBatchEntries,
+  createBatchBlobs,
+  batchCommitMessage,
+  commitFilesBatch,
+  commitTreeItems,
+  deletionTreeItem,
+} from './gitDataUtils';
+import { LFS_POINTER_MAX_SIZE, decodeLfsPointer, isLfsAvailable } from './lfsUtils';
+import { githubFetch } from './githubFetch';
+import { repoApiUrl } from './githubHost';
 
-function getUploadConfig() {
+/**
+ * Build the upload configuration of the active repository profile, or of the
+ * given one so queued uploads reach the profile they were recorded for
+ */
+export function getUploadConfig(profileId?: string): GitHubConfig | null {
   const authState = useAuthStore.getState();
   const settingsState = useSettingsStore.getState();
+  const activeProfileId = settingsState.activeProfileId ?? undefined;
+  const appSettings = profileId && profileId !== activeProfileId
+    ? settingsState.profiles?.find(profile => profile.id === profileId)?.settings
+    : settingsState.appSettings;
   
-  if (!authState.isAuthenticated || !authState.githubConfig || !settingsState.appSettings) {
+  if (!authState.isAuthenticated || !authState.githubConfig || !appSettings) {
     return null;
   }
   
   const { githubConfig } = authState;
-  const { appSettings } = settingsState;
   
   if (!githubConfig.token || !githubConfig.owner || !appSettings.repo) {
     return null;
@@ -27,277 +60,275 @@ function getUploadConfig() {
     token: githubConfig.token,
     owner: githubConfig.owner,
     repo: appSettings.repo,
+    branch: appSettings.branch || DEFAULT_BRANCH,
     path: appSettings.path.endsWith('/') ? appSettings.path : appSettings.path + '/',
     thumbnailPath: appSettings.thumbnailPath.endsWith('/') ? appSettings.thumbnailPath : appSettings.thumbnailPath + '/',
     thumbnailWidth: appSettings.thumbnailWidth,
-    thumbnailHeight: appSettings.thumbnailHeight
+    thumbnailHeight: appSettings.thumbnailHeight,
+    // Without the LFS proxy, media is committed as regular files
+    mediaStorage: appSettings.mediaStorage === 'lfs' && isLfsAvailable() ? 'lfs' : 'blob',
+    podcastFeed: appSettings.podcastFeed?.enabled ? appSettings.podcastFeed : undefined,
+    apiBaseUrl: githubConfig.apiBaseUrl,
+    rawBaseUrl: githubConfig.rawBaseUrl,
+    profileId: profileId || activeProfileId
   };
 }
 
-async function getLatestCommitSha(config: GitHubConfig, branch = 'main') {
-  const res = await fetch(`https://api.github.com/repos/${config.owner}/${config.repo}/git/refs/heads/${branch}`, {
-    headers: { Authorization: `Bearer ${config.token}` },
-  });
-  if (res.status === 404) {
-    // Branch doesn't exist (empty repo)
-    return null;
+/**
+ * Upload several files (media and thumbnails) in a single commit
+ * on the configured branch
+ */
+export async function uploadFilesBatch(items: BatchUploadItem[], onProgress?: UploadProgressCallback, profileId?: string): Promise<void> {
+  const config = getUploadConfig(profileId);
+  if (!config) {
+    throw new Error('Upload configuration is missing. Please configure your GitHub token and repository in Settings.');
   }
-  if (res.status === 409) {
-    // Git Repository is empty (GitHub returns 409 for empty repos)
-    return null;
+  return commitFilesBatch(config, items, onProgress);
+}
+
+/**
+ * Remove files from the configured branch in a single "Delete <name>" commit,
+ * e.g. a media file together with its thumbnail
+ */
+export async function deleteFilesFromRepository(fileName: string, filePaths: string[]): Promise<void> {
+  const config = getUploadConfig();
+  if (!config) {
+    throw new Error('Upload configuration is missing. Please configure your GitHub token and repository in Settings.');
   }
-  if (!res.ok) {
-    const errorText = await res.text();
-    throw new Error(`Failed to get latest commit SHA: ${res.status} ${errorText}`);
+
+  await commitTreeItems(config, `Delete ${fileName}`, filePaths.map(deletionTreeItem));
+  console.log('Deleted from repository:', filePaths);
+}
+
+/**
+ * Rename files on the configured branch in a single commit. Renamed files keep
+ * their existing blobs; new files (e.g. a replacement thumbnail) and removed
+ * paths go into the same commit. Returns the blob SHAs of the new files.
+ */
+export async function renameFilesInRepository(
+  message: string,
+  renames: RepositoryRename[],
+  newFiles: RepositoryFile[] = [],
+  removedPaths: string[] = []
+): Promise<string[]> {
+  const config = getUploadConfig();
+  if (!config) {
+    throw new Error('Upload configuration is missing. Please configure your GitHub token and repository in Settings.');
   }
-  const data = await res.json();
-  return data.object.sha;
+
+  const newBlobShas: string[] = [];
+  for (const newFile of newFiles) {
+    newBlobShas.push(await createBlob(config, newFile.file));
+  }
+
+  const treeItems = [
+    ...renames.map(rename => deletionTreeItem(rename.from)),
+    ...removedPaths.map(deletionTreeItem),
+    ...renames.map(rename => blobTreeItem(rename.to, rename.sha)),
+    ...newFiles.map((newFile, index) => blobTreeItem(newFile.path, newBlobShas[index])),
+  ];
+  await commitTreeItems(config, message, treeItems);
+  console.log('Renamed in repository:', renames.map(rename => `${rename.from} -> ${rename.to}`));
+  return newBlobShas;
 }
 
-async function getTreeSha(config: GitHubConfig, commitSha: string) {
-  const res = await fetch(`https://api.github.com/repos/${config.owner}/${config.repo}/git/commits/${commitSha}`, {
+/**
+ * Point a file on the configured branch back at the blob it had in an earlier
+ * commit, in a new "Restore <name>" commit. The old content is not uploaded
+ * again. Pass the MIME type when restoring media, so the media manifest lists
+ * the restored size.
+ */
+export async function restoreFileVersion(filePath: string, version: FileVersion, mimeType?: string): Promise<void> {
+  const config = getUploadConfig();
+  if (!config) {
+    throw new Error('Upload configuration is missing. Please configure your GitHub token and repository in Settings.');
+  }
+
+  const res = await githubFetch(`${repoApiUrl(config)}/contents/${version.path}?ref=${version.commitSha}`, {
     headers: { Authorization: `Bearer ${config.token}` },
   });
-  if (!res.ok) throw new Error('Failed to get tree SHA');
-  const data = await res.json();
-  return data.tree.sha;
+  if (!res.ok) {
+    throw new Error(`Failed to read the earlier version: ${res.status}`);
+  }
+  const blob: { sha: string; size: number; content?: string } = await res.json();
+
+  const details: Record<string, MediaManifestDetails> = {};
+  if (mimeType) {
+    // An LFS pointer is restored as it was, so the manifest lists the size of the object it points to.
+    // The duration of the earlier version is not known and drops out of the manifest.
+    const pointer = blob.size <= LFS_POINTER_MAX_SIZE && blob.content ? decodeLfsPointer(blob.content) : null;
+    details[filePath] = { size: pointer ? pointer.size : blob.size, mimeType };
+  }
+
+  const fileName = filePath.slice(filePath.lastIndexOf('/') + 1);
+  await commitTreeItems(
+    config,
+    `Restore ${fileName} from ${version.commitSha.slice(0, 7)}`,
+    [blobTreeItem(filePath, blob.sha)],
+    details
+  );
+  console.log('Restored in repository:', filePath, 'from', version.commitSha);
 }
 
-async function createBlob(config: GitHubConfig, file: Blob) {
-  const content = await file.arrayBuffer();
-  const base64 = arrayBufferToBase64(content);
-  
-  const url = `https://api.github.com/repos/${config.owner}/${config.repo}/git/blobs`;
-  console.log('Creating blob at:', url);
-  const res = await fetch(url, {
+/**
+ * Create the configured branch at the head of another one, usually the
+ * repository's default branch
+ */
+export async function createRepositoryBranch(fromBranch: string): Promise<void> {
+  const config = getUploadConfig();
+  if (!config) {
+    throw new Error('Upload configuration is missing. Please configure your GitHub token and repository in Settings.');
+  }
+
+  const commitSha = await getLatestCommitSha(config, fromBranch);
+  if (!commitSha) {
+    throw new Error(`Branch ${fromBranch} has no commits to start from`);
+  }
+
+  const res = await githubFetch(`${repoApiUrl(config)}/git/refs`, {
     method: 'POST',
     headers: {
       Authorization: `Bearer ${config.token}`,
       'Content-Type': 'application/json',
     },
-    body: JSON.stringify({ content: base64, encoding: 'base64' }),
+    body: JSON.stringify({ ref: `refs/heads/${config.branch}`, sha: commitSha }),
   });
   if (!res.ok) {
     const errorText = await res.text();
-    console.error('Blob creation failed:', res.status, errorText);
-    throw new Error(`Failed to create blob: ${res.status} ${errorText}`);
+    throw new Error(`Failed to create branch: ${res.status} ${errorText}`);
   }
-  const data = await res.json();
-  return data.sha;
+  console.log(`Created branch ${config.branch} from ${fromBranch}`);
 }
 
-async function createTree(config: GitHubConfig, baseTreeSha: string | null, filePath: string, blobSha: string) {
-  const body: CreateTreeBody = {
-    tree: [
-      {
-        path: filePath,
-        mode: '100644',
-        type: 'blob',
-        sha: blobSha,
-      },
-    ],
-  };
-  
-  // Only include base_tree if we have one (not for initial commit)
-  if (baseTreeSha) {
-    body.base_tree = baseTreeSha;
+/**
+ * Create an empty folder on the configured branch. Git only tracks files, so
+ * the folder gets an empty .gitkeep placeholder.
+ */
+export async function createRepositoryFolder(folder: string): Promise<void> {
+  const config = getUploadConfig();
+  if (!config) {
+    throw new Error('Upload configuration is missing. Please configure your GitHub token and repository in Settings.');
   }
-  
-  const res = await fetch(`https://api.github.com/repos/${config.owner}/${config.repo}/git/trees`, {
-    method: 'POST',
-    headers: {
-      Authorization: `Bearer ${config.token}`,
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify(body),
-  });
-  if (!res.ok) throw new Error('Failed to create tree');
-  const data = await res.json();
-  return data.sha;
-}
 
-async function createCommit(config: GitHubConfig, message: string, treeSha: string, parentSha: string | null) {
-  const body: CreateCommitBody = {
-    message,
-    tree: treeSha,
-  };
-  
-  // Only include parents if we have a parent (not for initial commit)
-  if (parentSha) {
-    body.parents = [parentSha];
-  }
-  
-  const res = await fetch(`https://api.github.com/repos/${config.owner}/${config.repo}/git/commits`, {
-    method: 'POST',
-    headers: {
-      Authorization: `Bearer ${config.token}`,
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify(body),
-  });
-  if (!res.ok) throw new Error('Failed to create commit');
-  const data = await res.json();
-  return data.sha;
+  const prefix = folder.endsWith('/') ? folder : `${folder}/`;
+  await uploadFileContentsAPI(config, new Blob([]), `${prefix}.gitkeep`, `${prefix}.gitkeep`);
+  console.log('Created folder in repository:', prefix);
 }
 
+// Git ref names may not contain whitespace or any of ~^:?*[\ and no ".." or "@{".
+// Git cannot hold both a branch and branches below it (`upload` and `upload/a.mp3`),
+// so the prefix is switched when the target branch would collide with it.
+function pullRequestBranchName(targetBranch: string, fileName: string): string {
+  const safeName = fileName
+    .replace(/[\s~^:?*[\\]+/g, '-')
+    .replace(/\.{2,}/g, '.')
+    .replace(/@\{/g, '@-')
+    .replace(/^[.-]+|[.-]+$/g, '');
+  const prefix = targetBranch === 'upload' || targetBranch.startsWith('upload/') ? 'media-upload' : 'upload';
+  return `${prefix}/${safeName || 'recording'}`;
+}
 
-async function updateRef(config: GitHubConfig, commitSha: string, branch = 'main', force = false) {
-  const res = await fetch(`https://api.github.com/repos/${config.owner}/${config.repo}/git/refs/heads/${branch}`, {
-    method: 'PATCH',
+async function createBranchRef(config: GitHubConfig, branchName: string, commitSha: string): Promise<string> {
+  const request = (name: string) => githubFetch(`${repoApiUrl(config)}/git/refs`, {
+    method: 'POST',
     headers: {
       Authorization: `Bearer ${config.token}`,
       'Content-Type': 'application/json',
     },
-    body: JSON.stringify({ 
-      sha: commitSha,
-      force: force
-    }),
+    body: JSON.stringify({ ref: `refs/heads/${name}`, sha: commitSha }),
   });
+
+  let res = await request(branchName);
+  let name = branchName;
+  if (res.status === 422) {
+    // Branch name already taken by an earlier upload of the same file name
+    name = `${branchName}-${Date.now()}`;
+    res = await request(name);
+  }
   if (!res.ok) {
     const errorText = await res.text();
-    throw new Error(`Failed to update ref: ${res.status} ${errorText}`);
+    throw new Error(`Failed to create branch: ${res.status} ${errorText}`);
   }
+  return name;
 }
 
-function arrayBufferToBase64(buffer: ArrayBuffer): string {
-  const bytes = new Uint8Array(buffer);
-  let binary = '';
-  const chunkSize = 0x8000; // 32KB chunks
-  
-  for (let i = 0; i < bytes.length; i += chunkSize) {
-    const chunk = bytes.subarray(i, i + chunkSize);
-    binary += String.fromCharCode.apply(null, Array.from(chunk));
-  }
-  
-  return btoa(binary);
-}
-
-async function uploadFileContentsAPI(config: GitHubConfig, file: Blob, filePath: string, fileName: string) {
-  const content = await file.arrayBuffer();
-  
-  console.log('Converting file to base64...');
-  const base64 = arrayBufferToBase64(content);
-  console.log('Base64 conversion complete, length:', base64.length);
-  
-  const url = `https://api.github.com/repos/${config.owner}/${config.repo}/contents/${filePath}`;
-  console.log('Uploading via Contents API to:', url);
-  
-  const res = await fetch(url, {
-    method: 'PUT',
+async function createPullRequest(config: GitHubConfig, head: string, title: string, body: string): Promise<{ number: number; html_url: string }> {
+  const res = await githubFetch(`${repoApiUrl(config)}/pulls`, {
+    method: 'POST',
     headers: {
       Authorization: `Bearer ${config.token}`,
       'Content-Type': 'application/json',
     },
-    body: JSON.stringify({
-      message: `Upload ${fileName}`,
-      content: base64,
-      branch: 'main'
-    }),
+    body: JSON.stringify({ title, head, base: config.branch, body }),
   });
-  
   if (!res.ok) {
     const errorText = await res.text();
-    console.error('Contents API upload failed:', res.status, errorText);
-    throw new Error(`Failed to upload file: ${res.status} ${errorText}`);
+    throw new Error(`Failed to create pull request: ${res.status} ${errorText}`);
   }
-  
-  const data = await res.json();
-  console.log('Upload successful via Contents API');
-  return data;
-}
-
-export async function uploadFile(file: Blob, onProgress?: (p: number) => void, fileName?: string): Promise<void> {
-  return uploadFileToPath(file, 'media', onProgress, fileName);
+  return res.json();
 }
 
-export async function uploadThumbnail(file: Blob, onProgress?: (p: number) => void, fileName?: string): Promise<void> {
-  return uploadFileToPath(file, 'thumbnail', onProgress, fileName);
+function pullRequestDescription(entries: BatchEntry[]): { title: string; body: string } {
+  const mediaEntries = entries.filter(entry => entry.pathType === 'media');
+  const listed = mediaEntries.length > 0 ? mediaEntries : entries;
+  const title = listed.length === 1
+    ? `Add ${listed[0].fileName}`
+    : `Add ${listed.length} recordings`;
+  const body = [
+    'Uploaded from GitHub Media Recorder for review.',
+    '',
+    '**Files**',
+    ...entries.map(entry => `- \`${entry.filePath}\``),
+  ].join('\n');
+  return { title, body };
 }
 
-async function uploadFileToPath(file: Blob, pathType: 'media' | 'thumbnail', onProgress?: (p: number) => void, fileName?: string): Promise<void> {
-  const config = getUploadConfig();
+/**
+ * Upload files to a new `upload/<filename>` branch and open a pull request
+ * against the configured branch instead of pushing to it directly.
+ * The branch is created from the commit itself, so no ref update can race.
+ * The media manifest is left alone: open pull requests would all conflict on it. The next
+ * direct commit finds the merged media missing from it and lists them.
+ */
+export async function uploadFilesAsPullRequest(items: BatchUploadItem[], onProgress?: UploadProgressCallback, profileId?: string): Promise<PendingPullRequest> {
+  const config = getUploadConfig(profileId);
   if (!config) {
     throw new Error('Upload configuration is missing. Please configure your GitHub token and repository in Settings.');
   }
-  
-  console.log('Upload config:', { 
-    owner: config.owner, 
-    repo: config.repo, 
-    path: config.path, 
-    thumbnailPath: config.thumbnailPath,
-    thumbnailDimensions: `${config.thumbnailWidth}x${config.thumbnailHeight}`
-  });
-  
-  const branch = 'main';
-  const finalFileName = fileName || `media-${Date.now()}`;
-  const uploadPath = pathType === 'thumbnail' ? config.thumbnailPath : config.path;
-  const filePath = `${uploadPath}${finalFileName}`;
-  
-  console.log('Upload details:', { branch, fileName: finalFileName, filePath });
-  
-  // Check if repository is empty
-  if (onProgress) onProgress(0.1);
-  console.log('Step 1: Getting latest commit SHA...');
-  const latestCommitSha = await getLatestCommitSha(config, branch);
-  console.log('Latest commit SHA:', latestCommitSha || 'null (empty repo)');
-  
-  if (!latestCommitSha) {
-    // Empty repository - use Contents API for simplicity
-    console.log('Using Contents API for empty repository');
-    if (onProgress) onProgress(0.5);
-    await uploadFileContentsAPI(config, file, filePath, finalFileName);
-    if (onProgress) onProgress(1);
-    return;
+  if (items.length === 0) {
+    throw new Error('No files to upload');
   }
-  
-  // Existing repository - use Git Data API
-  console.log('Using Git Data API for existing repository');
-  let retries = 3;
-  while (retries > 0) {
-    try {
-      console.log(`Upload attempt ${4 - retries}/3`);
-      
-      // Get fresh commit SHA for each retry attempt
-      const currentCommitSha = await getLatestCommitSha(config, branch);
-      console.log('Current commit SHA:', currentCommitSha);
-      
-      if (onProgress) onProgress(0.2);
-      console.log('Step 2: Getting base tree SHA...');
-      const baseTreeSha = await getTreeSha(config, currentCommitSha);
-      console.log('Base tree SHA:', baseTreeSha);
-      
-      if (onProgress) onProgress(0.3);
-      console.log('Step 3: Creating blob...');
-      const blobSha = await createBlob(config, file);
-      console.log('Blob SHA:', blobSha);
-      
-      if (onProgress) onProgress(0.6);
-      console.log('Step 4: Creating tree...');
-      const treeSha = await createTree(config, baseTreeSha, filePath, blobSha);
-      console.log('Tree SHA:', treeSha);
-      
-      if (onProgress) onProgress(0.8);
-      console.log('Step 5: Creating commit...');
-      const commitSha = await createCommit(config, `Upload ${finalFileName}`, treeSha, currentCommitSha);
-      console.log('Commit SHA:', commitSha);
-      
-      if (onProgress) onProgress(0.9);
-      console.log('Step 6: Updating existing reference...');
-      await updateRef(config, commitSha, branch);
-      
-      console.log('Upload successful!');
-      if (onProgress) onProgress(1);
-      return; // Success, exit retry loop
-    } catch (error: unknown) {
-      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-      console.error('Upload error:', errorMessage);
-      retries--;
-      if ((errorMessage.includes('409') || errorMessage.includes('422')) && retries > 0) {
-        console.log(`Conflict detected (${errorMessage.includes('409') ? '409' : '422'}), retrying... (${retries} attempts left)`);
-        await new Promise(resolve => setTimeout(resolve, 1000));
-        continue;
-      }
-      throw error; // Re-throw if not a conflict or out of retries
-    }
+
+  const entries = resolveBatchEntries(config, items);
+  if (onProgress) onProgress(0.05);
+
+  const baseCommitSha = await getLatestCommitSha(config);
+  if (!baseCommitSha) {
+    throw new Error(`Branch '${config.branch}' has no commits yet. Push the first upload directly before using pull requests.`);
   }
-} 
\ No newline at end of file
+
+  const treeItems = await createBatchBlobs(config, entries, onProgress);
+  const baseTreeSha = await getTreeSha(config, baseCommitSha);
+  const treeSha = await createTree(config, baseTreeSha, treeItems);
+  const commitSha = await createCommit(config, batchCommitMessage(entries.map(entry => entry.fileName)), treeSha, baseCommitSha);
+
+  if (onProgress) onProgress(0.85);
+  const firstMedia = entries.find(entry => entry.pathType === 'media') || entries[0];
+  const branch = await createBranchRef(config, pullRequestBranchName(config.branch, firstMedia.fileName), commitSha);
+
+  if (onProgress) onProgress(0.95);
+  const { title, body } = pullRequestDescription(entries);
+  const pullRequest = await createPullRequest(config, branch, title, body);
+
+  console.log('Pull request opened:', pullRequest.html_url);
+  if (onProgress) onProgress(1);
+
+  return {
+    number: pullRequest.number,
+    url: pullRequest.html_url,
+    branch,
+    title,
+    created: Date.now(),
+    files: entries.map(entry => ({ fileName: entry.fileName, path: entry.filePath, pathType: entry.pathType })),
+  };
+}
\ No newline at end of file
@@ -1 +1,7 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_GITHUB_OAUTH_CLIENT_ID?: string;
+  readonly VITE_GITHUB_OAUTH_URL?: string;
+  readonly VITE_GITHUB_LFS_URL?: string;
+}
@@ -0,0 +1,48 @@
+// Base64 Encoding Web Worker for upload request bodies
+// Used when the browser cannot stream request bodies, so encoding large recordings stays off the main thread
+
+import type { Base64EncodingMessage, Base64EncodingResponse } from '../types/workers';
+import { composeBase64JsonBlob } from '../utils/base64Stream';
+
+self.onmessage = async (event: MessageEvent<Base64EncodingMessage>) => {
+  const { type, id, data } = event.data;
+
+  try {
+    switch (type) {
+      case 'encode-json-body': {
+        if (!data?.file) {
+          throw new Error('No file provided');
+        }
+
+        const body = await composeBase64JsonBlob(data.file, data.prefix, data.suffix);
+        const response: Base64EncodingResponse = {
+          type: 'encoding-complete',
+          id,
+          data: body
+        };
+        self.postMessage(response);
+        break;
+      }
+
+      default:
+        throw new Error(`Unknown message type: ${type}`);
+    }
+  } catch (error) {
+    const errorResponse: Base64EncodingResponse = {
+      type: 'error',
+      id,
+      error: error instanceof Error ? error.message : 'Unknown error occurred'
+    };
+    self.postMessage(errorResponse);
+  }
+};
+
+// Handle worker errors
+self.onerror = (error) => {
+  console.error('Base64 Worker Error:', error);
+};
+
+// Handle unhandled promise rejections
+self.addEventListener('unhandledrejection', (event) => {
+  console.error('Base64 Worker Unhandled Rejection:', event.reason);
+});
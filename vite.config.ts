@@ -17,21 +17,11 @@ export default defineConfig(({ mode }) => {
           enabled: true,
           type: 'module'
         },
-        workbox: {
+        strategies: 'injectManifest',
+        srcDir: 'src',
+        filename: 'sw.ts',
+        injectManifest: {
           globPatterns: ['**/*.{js,css,html,ico,png,svg,webmanifest}'],
-          runtimeCaching: [
-            {
-              urlPattern: /^https:\/\/api\.github\.com\//,
-              handler: 'NetworkFirst',
-              options: {
-                cacheName: 'github-api-cache',
-                networkTimeoutSeconds: 10,
-                cacheableResponse: {
-                  statuses: [0, 200]
-                }
-              }
-            }
-          ]
         },
         includeAssets: ['favicon.ico', 'icon.svg', 'icons/*.png'],
         manifest: {